@@ -2,40 +2,26 @@
  * FlashClaw 插件 - Agent 管理器
  * 
  * 多 Agent 注册表：加载 agents.json、路由匹配、工具白名单。
+ * 配置解析和路由规则在核心 src/agent-routing.ts（与 `flashclaw agents route` 共用）。
  * 作为插件实现，遵循"核心极简，功能靠插件"原则。
  * 
  * 通过 global.__flashclaw_agent_registry 暴露接口给核心代码（可选依赖）。
  * 核心代码在此插件未加载时回退到默认单 Agent 行为。
+ *
+ * 子 Agent 委派（agent_delegate / agent_send）通过核心 API 的 delegate() 实现，
+ * 嵌套深度和 token 上限由核心统一检查。
  */
 
 import fs from 'fs';
 import path from 'path';
 import { ToolPlugin, ToolContext, ToolResult, PluginConfig } from '../../src/plugins/types.js';
 import type { MultiAgentConfig } from '../../src/types.js';
-
-// ==================== 默认 Agent ====================
-
-const DEFAULT_AGENT: MultiAgentConfig = {
-  id: 'main',
-  name: 'FlashClaw',
-  soul: 'souls/default.md',
-  model: null,
-  tools: ['*'],
-  default: true,
-  promptMode: 'full',
-};
+import { DEFAULT_AGENT, parseAgentsConfig, explainRoute, type RouteContext, type RouteExplanation } from '../../src/agent-routing.js';
 
 // ==================== 注册表状态 ====================
 
 let agents: MultiAgentConfig[] = [DEFAULT_AGENT];
-
-// ==================== 路由上下文 ====================
-
-interface RouteContext {
-  channel?: string;
-  group?: string;
-  peer?: string;
-}
+let roles: Record<string, string[]> = {};
 
 // ==================== 核心逻辑 ====================
 
@@ -47,54 +33,17 @@ function loadAgentsFromFile(): MultiAgentConfig[] {
   );
   const configPath = path.join(homePath, 'agents.json');
 
-  if (!fs.existsSync(configPath)) {
-    agents = [DEFAULT_AGENT];
-    return agents;
-  }
-
-  try {
-    const raw = fs.readFileSync(configPath, 'utf-8');
-    const parsed = JSON.parse(raw);
-
-    if (!parsed.agents || !Array.isArray(parsed.agents)) {
-      agents = [DEFAULT_AGENT];
-      return agents;
-    }
-
-    const validated: MultiAgentConfig[] = [];
-    const ids = new Set<string>();
-
-    for (const entry of parsed.agents) {
-      if (!entry.id || !entry.name) continue;
-      if (ids.has(entry.id)) continue;
-
-      ids.add(entry.id);
-      validated.push({
-        id: entry.id,
-        name: entry.name,
-        soul: entry.soul || 'souls/default.md',
-        model: entry.model ?? null,
-        tools: Array.isArray(entry.tools) ? entry.tools : ['*'],
-        default: entry.default === true,
-        bindings: Array.isArray(entry.bindings) ? entry.bindings : undefined,
-        promptMode: ['full', 'minimal', 'none'].includes(entry.promptMode) ? entry.promptMode : 'full',
-      });
+  let parsed: unknown = {};
+  if (fs.existsSync(configPath)) {
+    try {
+      parsed = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+    } catch {
+      parsed = {};
     }
-
-    if (validated.length === 0) {
-      agents = [DEFAULT_AGENT];
-    } else if (!validated.some(a => a.default)) {
-      validated[0].default = true;
-      agents = validated;
-    } else {
-      agents = validated;
-    }
-
-    return agents;
-  } catch {
-    agents = [DEFAULT_AGENT];
-    return agents;
   }
+
+  ({ agents, roles } = parseAgentsConfig(parsed));
+  return agents;
 }
 
 function getAllAgents(): MultiAgentConfig[] {
@@ -109,58 +58,12 @@ function getDefaultAgent(): MultiAgentConfig {
   return agents.find(a => a.default) || DEFAULT_AGENT;
 }
 
-function matchWildcard(pattern: string, value: string): boolean {
-  if (pattern === '*') return true;
-  if (pattern === value) return true;
-  const regexStr = pattern
-    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
-    .replace(/\*/g, '.*')
-    .replace(/\?/g, '.');
-  return new RegExp(`^${regexStr}$`).test(value);
+function explainAgentRoute(ctx: RouteContext): RouteExplanation {
+  return explainRoute(agents, ctx, { roles });
 }
 
 function resolveAgent(ctx: RouteContext): MultiAgentConfig {
-  if (agents.length <= 1) {
-    return agents[0] || DEFAULT_AGENT;
-  }
-
-  // Level 1: peer 精确匹配
-  if (ctx.peer) {
-    for (const agent of agents) {
-      if (!agent.bindings) continue;
-      for (const binding of agent.bindings) {
-        if (binding.peer && binding.peer === ctx.peer) return agent;
-      }
-    }
-  }
-
-  // Level 2: channel + group 匹配
-  if (ctx.channel && ctx.group) {
-    for (const agent of agents) {
-      if (!agent.bindings) continue;
-      for (const binding of agent.bindings) {
-        if (binding.channel && binding.group) {
-          const channelMatch = binding.channel === '*' || binding.channel === ctx.channel;
-          const groupMatch = matchWildcard(binding.group, ctx.group);
-          if (channelMatch && groupMatch) return agent;
-        }
-      }
-    }
-  }
-
-  // Level 3: channel 匹配
-  if (ctx.channel) {
-    for (const agent of agents) {
-      if (!agent.bindings) continue;
-      for (const binding of agent.bindings) {
-        if (binding.channel && !binding.group && !binding.peer) {
-          if (binding.channel === '*' || binding.channel === ctx.channel) return agent;
-        }
-      }
-    }
-  }
-
-  return getDefaultAgent();
+  return explainAgentRoute(ctx).agent;
 }
 
 function filterToolsByAgent<T extends { name: string }>(
@@ -182,6 +85,7 @@ export interface AgentRegistry {
   getAgentById: (id: string) => MultiAgentConfig | undefined;
   getDefaultAgent: () => MultiAgentConfig;
   resolveAgent: (ctx: RouteContext) => MultiAgentConfig;
+  explainRoute: (ctx: RouteContext) => RouteExplanation;
   filterToolsByAgent: <T extends { name: string }>(agentConfig: MultiAgentConfig, allTools: T[]) => T[];
 }
 
@@ -189,8 +93,8 @@ export interface AgentRegistry {
 
 const plugin: ToolPlugin = {
   name: 'agent-manager',
-  version: '1.0.0',
-  description: '多 Agent 注册表 — 路由、白名单、配置管理',
+  version: '1.1.0',
+  description: '多 Agent 注册表 — 路由、白名单、配置管理、子 Agent 委派',
 
   tools: [
     {
@@ -205,12 +109,61 @@ const plugin: ToolPlugin = {
       }
     },
     {
-      name: 'agent_send',
-      description: `向另一个 Agent 发送消息。目标 Agent 会处理消息并返回结果。
+      name: 'agent_delegate',
+      description: `把子任务委派给另一个 Agent。子 Agent 使用自己的人格、工具和提示词模式，在独立会话中完成任务。
+
+参数：
+- wait：默认 true，等待子 Agent 完成并返回结果；false 时立即返回委派 ID，子 Agent 完成后把结果发到当前会话
+- continueFrom：传入之前的委派 ID，让同一个子 Agent 在原会话中继续（可追问或补充要求）
 
-适用场景：
-- 委派任务给专门的 Agent
-- 多 Agent 协作完成复杂任务
+注意：
+- 子任务描述要完整，子 Agent 看不到当前对话
+- 委派有嵌套层数和 token 上限，超出时请自己完成任务
+- 后台委派的结果可用 agent_result 查询
+
+示例：agent_delegate({ agentId: "research", task: "调研 2026 年主流向量数据库并比较优缺点" })`,
+      input_schema: {
+        type: 'object',
+        properties: {
+          agentId: {
+            type: 'string',
+            description: '目标 Agent 的 ID（使用 agent_list 查看可用 Agent）'
+          },
+          task: {
+            type: 'string',
+            description: '完整的子任务描述'
+          },
+          wait: {
+            type: 'boolean',
+            description: '是否等待结果（默认 true）'
+          },
+          continueFrom: {
+            type: 'string',
+            description: '要继续的委派 ID（可选）'
+          }
+        },
+        required: ['agentId', 'task']
+      }
+    },
+    {
+      name: 'agent_result',
+      description: `查询委派的状态和结果。
+
+示例：agent_result({ delegationId: "dlg-1700000000000-abc123" })`,
+      input_schema: {
+        type: 'object',
+        properties: {
+          delegationId: {
+            type: 'string',
+            description: 'agent_delegate 返回的委派 ID'
+          }
+        },
+        required: ['delegationId']
+      }
+    },
+    {
+      name: 'agent_send',
+      description: `向另一个 Agent 发送消息并等待回复（等同于 agent_delegate 且 wait 为 true）。
 
 注意：不能给自己发消息。使用 agent_list 查看可用的 Agent。
 
@@ -243,6 +196,7 @@ const plugin: ToolPlugin = {
       getAgentById,
       getDefaultAgent,
       resolveAgent,
+      explainRoute: explainAgentRoute,
       filterToolsByAgent,
     } satisfies AgentRegistry;
   },
@@ -259,8 +213,17 @@ const plugin: ToolPlugin = {
       return executeAgentList();
     }
 
+    if (name === 'agent_delegate') {
+      return executeAgentDelegate(paramsOrContext as DelegateParams, maybeContext as ToolContext);
+    }
+
+    if (name === 'agent_result') {
+      return executeAgentResult(paramsOrContext as { delegationId: string }, maybeContext as ToolContext);
+    }
+
     if (name === 'agent_send') {
-      return executeAgentSend(paramsOrContext as { agentId: string; message: string }, maybeContext as ToolContext);
+      const params = paramsOrContext as { agentId: string; message: string };
+      return executeAgentDelegate({ agentId: params?.agentId, task: params?.message, wait: true }, maybeContext as ToolContext);
     }
 
     return { success: false, error: `未知工具: ${name}` };
@@ -280,6 +243,11 @@ function executeAgentList(): ToolResult {
       if (b.channel) parts.push(`channel=${b.channel}`);
       if (b.group) parts.push(`group=${b.group}`);
       if (b.peer) parts.push(`peer=${b.peer}`);
+      if (b.roles) parts.push(`roles=${b.roles.join('|')}`);
+      if (b.keywords) parts.push(`keywords=${b.keywords.join('|')}`);
+      if (b.pattern) parts.push(`pattern=/${b.pattern}/`);
+      if (b.hours) parts.push(`hours=${b.hours}`);
+      if (b.priority) parts.push(`priority=${b.priority}`);
       return parts.join(', ');
     }) || [],
   }));
@@ -287,50 +255,115 @@ function executeAgentList(): ToolResult {
   return { success: true, data: { count: list.length, agents: list } };
 }
 
-async function executeAgentSend(params: { agentId: string; message: string }, context: ToolContext): Promise<ToolResult> {
-  const { agentId, message } = params;
+interface DelegateParams {
+  agentId: string;
+  task: string;
+  wait?: boolean;
+  continueFrom?: string;
+}
+
+function getCoreApi(): typeof import('../../src/core-api.js') | undefined {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  return (globalThis as any).__flashclaw_core_api as typeof import('../../src/core-api.js') | undefined;
+}
+
+async function executeAgentDelegate(params: DelegateParams, context: ToolContext): Promise<ToolResult> {
+  const { agentId, task, wait = true, continueFrom } = params ?? {};
 
   if (!agentId || typeof agentId !== 'string') {
     return { success: false, error: 'agentId 不能为空' };
   }
-  if (!message || typeof message !== 'string' || message.trim().length === 0) {
-    return { success: false, error: '消息内容不能为空' };
+  if (!task || typeof task !== 'string' || task.trim().length === 0) {
+    return { success: false, error: '子任务内容不能为空' };
   }
 
-  const targetAgent = getAgentById(agentId);
-  if (!targetAgent) {
-    const available = agents.map(a => a.id).join(', ');
-    return { success: false, error: `Agent "${agentId}" 不存在。可用的 Agent: ${available}` };
-  }
-
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const coreApi = (globalThis as any).__flashclaw_core_api as typeof import('../../src/core-api.js') | undefined;
+  const coreApi = getCoreApi();
   if (!coreApi) {
     return { success: false, error: 'FlashClaw 核心 API 未初始化，无法执行跨 Agent 通信' };
   }
 
+  let handle: ReturnType<typeof coreApi.delegate>;
   try {
-    const result = await coreApi.chat({
-      message: message.trim(),
-      group: `agent-${targetAgent.id}-${Date.now()}`,
-      userId: `agent-${context.groupId}`,
-      platform: 'agent-internal',
+    handle = coreApi.delegate({
+      agentId,
+      task,
+      chatJid: context.chatId,
+      groupFolder: context.groupId,
+      userId: context.userId,
+      parentRunId: context.runId,
+      parentAgentId: context.agentId,
+      parent: context.delegation,
+      continueFrom: typeof continueFrom === 'string' && continueFrom ? continueFrom : undefined,
     });
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+
+  if (wait === false) {
+    // 后台运行：完成后把结果发到当前会话
+    void handle.done.then(result => {
+      const text = result.status === 'success'
+        ? `🤝 ${handle.agent.name} 完成了子任务：\n\n${result.result || '（无输出）'}`
+        : `🤝 ${handle.agent.name} 的子任务失败：${result.error || '未知错误'}`;
+      return context.sendMessage(text);
+    }).catch(() => { /* 会话已不可用时忽略 */ });
 
     return {
       success: true,
       data: {
-        targetAgent: targetAgent.id,
-        targetName: targetAgent.name,
-        response: result.response,
+        delegationId: handle.id,
+        targetAgent: handle.agent.id,
+        targetName: handle.agent.name,
+        status: 'running',
+        message: '子 Agent 已在后台运行，完成后结果会发送到当前会话，也可用 agent_result 查询',
       }
     };
-  } catch (error) {
-    return {
-      success: false,
-      error: `Agent 通信失败: ${error instanceof Error ? error.message : String(error)}`
-    };
   }
+
+  const result = await handle.done;
+  if (result.status === 'error') {
+    return { success: false, error: `Agent 通信失败: ${result.error || '未知错误'}（委派 ID: ${result.id}）` };
+  }
+
+  return {
+    success: true,
+    data: {
+      delegationId: result.id,
+      targetAgent: handle.agent.id,
+      targetName: handle.agent.name,
+      response: result.result || '',
+    }
+  };
+}
+
+function executeAgentResult(params: { delegationId: string }, context: ToolContext): ToolResult {
+  const delegationId = params?.delegationId;
+  if (!delegationId || typeof delegationId !== 'string') {
+    return { success: false, error: 'delegationId 不能为空' };
+  }
+
+  const coreApi = getCoreApi();
+  if (!coreApi) {
+    return { success: false, error: 'FlashClaw 核心 API 未初始化' };
+  }
+
+  const record = coreApi.getDelegationRecord(delegationId);
+  if (!record || record.chat_jid !== context.chatId) {
+    return { success: false, error: `委派记录不存在: ${delegationId}` };
+  }
+
+  return {
+    success: true,
+    data: {
+      delegationId: record.id,
+      targetAgent: record.agent_id,
+      status: record.status,
+      response: record.result,
+      error: record.error,
+      startedAt: record.started_at,
+      finishedAt: record.finished_at,
+    }
+  };
 }
 
 export default plugin;
@@ -70,6 +70,13 @@ const plugin: ToolPlugin = {
       };
     }
     
+    if (task.kind === 'memory-consolidation') {
+      return {
+        success: false,
+        error: '系统任务不能手动修改，请通过 MEMORY_CONSOLIDATION_CRON 调整'
+      };
+    }
+    
     // 权限检查：只能操作自己群组的任务，或者 main 群组可以操作所有任务
     const isMainGroup = context.groupId === MAIN_GROUP_FOLDER;
     const isOwnTask = task.group_folder === context.groupId;
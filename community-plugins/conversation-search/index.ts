@@ -0,0 +1,140 @@
+/**
+ * FlashClaw 插件 - 搜索聊天记录
+ * 让 AI 在历史对话中查找之前讨论过的内容
+ */
+
+import { ToolPlugin, ToolContext, ToolResult } from '../../src/plugins/types.js';
+import { searchMessages, type MessageSearchFilter } from '../../src/db.js';
+import { TIMEZONE, MAIN_GROUP_FOLDER } from '../../src/config.js';
+import { parseDateBound } from '../../src/utils/date-range.js';
+
+/**
+ * 搜索参数
+ */
+interface ConversationSearchParams {
+  /** 检索词 */
+  query: string;
+  /** 是否搜索所有会话（仅 main 群组可用） */
+  all?: boolean;
+  /** 发送者 ID 或名称 */
+  sender?: string;
+  /** 起始时间（ISO 时间或 YYYY-MM-DD） */
+  since?: string;
+  /** 截止时间（ISO 时间或 YYYY-MM-DD，含当天） */
+  until?: string;
+  /** 来源平台 */
+  platform?: string;
+  /** 最大返回条数（默认 10） */
+  maxResults?: number;
+}
+
+const MAX_RESULTS = 10;
+const MAX_CONTENT_CHARS = 300;
+
+const plugin: ToolPlugin = {
+  name: 'conversation_search',
+  version: '1.0.0',
+  description: '搜索历史聊天记录',
+
+  schema: {
+    name: 'conversation_search',
+    description: `在历史聊天记录中搜索关键词，查找之前讨论过的内容（如"上次说的部署方案"）。
+默认只搜索当前会话；main 群组可以设置 all=true 搜索所有会话。
+使用关键词而不是整句效果更好，可按发送者、时间范围、平台过滤。`,
+    input_schema: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: '检索关键词（多个词用空格分隔）'
+        },
+        all: {
+          type: 'boolean',
+          description: '是否搜索所有会话（仅 main 群组有权限）'
+        },
+        sender: {
+          type: 'string',
+          description: '只看某个发送者的消息（ID 或名称）'
+        },
+        since: {
+          type: 'string',
+          description: '起始日期，如 2026-01-01'
+        },
+        until: {
+          type: 'string',
+          description: '截止日期（含当天），如 2026-01-31'
+        },
+        platform: {
+          type: 'string',
+          description: '来源平台，如 feishu、telegram、web-ui'
+        },
+        maxResults: {
+          type: 'number',
+          description: '最大返回条数（默认 10）'
+        }
+      },
+      required: ['query']
+    }
+  },
+
+  async execute(params: unknown, context: ToolContext): Promise<ToolResult> {
+    const { query, all = false, sender, since, until, platform, maxResults = MAX_RESULTS } = (params || {}) as ConversationSearchParams;
+
+    if (!query || typeof query !== 'string') {
+      return { success: false, error: '需要提供检索词 query' };
+    }
+
+    const isMainGroup = context.groupId === MAIN_GROUP_FOLDER;
+    if (all && !isMainGroup) {
+      return { success: false, error: '只有 main 群组可以搜索所有会话' };
+    }
+
+    const filter: MessageSearchFilter = {
+      chatJid: all ? undefined : context.chatId,
+      sender,
+      platform,
+      limit: Math.min(Math.max(1, maxResults), 50),
+    };
+    for (const [key, value, endOfDay] of [['since', since, false], ['until', until, true]] as const) {
+      if (!value) continue;
+      const iso = parseDateBound(value, endOfDay);
+      if (!iso) {
+        return { success: false, error: `无法识别的日期 ${key}: ${value}` };
+      }
+      filter[key] = iso;
+    }
+
+    try {
+      const results = searchMessages(query, filter);
+      if (results.length === 0) {
+        return {
+          success: true,
+          data: { query, results: [], message: `没有找到与 "${query}" 相关的聊天记录` }
+        };
+      }
+
+      return {
+        success: true,
+        data: {
+          query,
+          scope: all ? 'all_chats' : 'current_chat',
+          results: results.map(r => ({
+            chat: r.chat_name || r.chat_jid,
+            sender: r.sender_name || r.sender,
+            time: new Date(r.timestamp).toLocaleString('zh-CN', { timeZone: TIMEZONE }),
+            ...(r.platform ? { platform: r.platform } : {}),
+            content: r.content.length > MAX_CONTENT_CHARS ? r.content.slice(0, MAX_CONTENT_CHARS) + '...' : r.content,
+          })),
+          message: `找到 ${results.length} 条相关聊天记录`
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `搜索聊天记录失败: ${error instanceof Error ? error.message : String(error)}`
+      };
+    }
+  }
+};
+
+export default plugin;
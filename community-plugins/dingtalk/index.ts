@@ -0,0 +1,475 @@
+/**
+ * FlashClaw 钉钉渠道插件
+ *
+ * 功能：
+ * - Stream 模式接收机器人消息（长连接，无需公网服务器）
+ * - 单聊 + 群聊（群内只有 @机器人 的消息会推送给机器人）
+ * - Markdown 回复，图片/文件上传发送，收图片、文件、语音（使用钉钉的语音识别文本）
+ * - 撤回消息（deleteMessage）
+ * - 工具调用审批（单聊中为 ActionCard 按钮，群聊中发送文本提示）
+ *
+ * 钉钉机器人消息不支持编辑，因此没有 "正在思考..." 提示和流式回复
+ *
+ * 依赖：dingtalk-stream
+ *
+ * 配置环境变量：
+ *   DINGTALK_APP_KEY        - 应用的 AppKey（开发者后台中的 Client ID）
+ *   DINGTALK_APP_SECRET     - 应用的 AppSecret（开发者后台中的 Client Secret）
+ *   DINGTALK_ROBOT_CODE     - 可选，机器人编码（默认同 AppKey）
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { DWClient, TOPIC_ROBOT, type DWClientDownStream } from 'dingtalk-stream';
+import { createLogger } from '../../src/logger.js';
+import { splitMessage } from '../../src/stream-reply.js';
+import type {
+  ApprovalPrompt,
+  Attachment,
+  ChannelPlugin,
+  PluginConfig,
+  MessageHandler,
+  Message,
+  SendMessageResult,
+} from '../../src/plugins/types.js';
+
+const logger = createLogger('DingTalkPlugin');
+
+const API_BASE = 'https://api.dingtalk.com';
+const OAPI_BASE = 'https://oapi.dingtalk.com';
+// Markdown 消息正文建议不超过 5000 字符
+const MAX_TEXT_LENGTH = 5000;
+// 下载图片大小上限
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+// 去重 TTL (5 分钟)：Stream 断线重连后可能重复推送
+const DEDUP_TTL_MS = 5 * 60 * 1000;
+const REQUEST_TIMEOUT_MS = 15000;
+
+/** 机器人收到的消息（TOPIC_ROBOT 回调的 data） */
+interface DingTalkRobotMessage {
+  msgId: string;
+  msgtype: string;
+  /** 会话 ID（群聊为 openConversationId） */
+  conversationId: string;
+  /** 1 = 单聊，2 = 群聊 */
+  conversationType: '1' | '2';
+  conversationTitle?: string;
+  senderId: string;
+  senderStaffId?: string;
+  senderNick?: string;
+  chatbotUserId?: string;
+  robotCode?: string;
+  isInAtList?: boolean;
+  createAt?: number;
+  text?: { content?: string };
+  content?: {
+    downloadCode?: string;
+    pictureDownloadCode?: string;
+    fileName?: string;
+    /** 语音消息的识别文本 */
+    recognition?: string;
+    richText?: Array<{ type?: string; text?: string; downloadCode?: string; pictureDownloadCode?: string }>;
+  };
+}
+
+/**
+ * 会话 ID：群聊为 group:<openConversationId>，单聊为 user:<staffId>
+ * 钉钉的群聊和单聊使用不同的发送/撤回接口，需要从 chatId 区分
+ */
+function parseChatId(chatId: string): { kind: 'group' | 'user'; id: string } | null {
+  const match = chatId.match(/^(group|user):(.+)$/);
+  if (!match) return null;
+  return { kind: match[1] as 'group' | 'user', id: match[2] };
+}
+
+/**
+ * 消息 ID：<chatId>#<processQueryKey>（撤回接口需要会话和 processQueryKey）
+ */
+function parseMessageId(messageId: string): { chatId: string; key: string } | null {
+  const index = messageId.lastIndexOf('#');
+  if (index <= 0) return null;
+  return { chatId: messageId.slice(0, index), key: messageId.slice(index + 1) };
+}
+
+/**
+ * Markdown 消息的标题（显示在会话列表和通知中）
+ */
+function markdownTitle(text: string): string {
+  const firstLine = text.split('\n').find(line => line.trim()) ?? '';
+  const title = firstLine.replace(/[#>*`_[\]]/g, '').trim();
+  return title.length > 30 ? `${title.slice(0, 30)}…` : title || '消息';
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+// ============================================================================
+// 插件实现
+// ============================================================================
+
+class DingTalkChannelPlugin implements ChannelPlugin {
+  name = 'dingtalk';
+  version = '1.0.0';
+
+  private client: DWClient | null = null;
+  private handler: MessageHandler | null = null;
+  private appKey = '';
+  private appSecret = '';
+  private robotCode = '';
+  private accessToken = '';
+  private accessTokenExpiresAt = 0;
+  private seenMessages = new Map<string, number>();
+
+  async init(config: PluginConfig): Promise<void> {
+    this.appKey = String(config.appKey || process.env.DINGTALK_APP_KEY || '').trim();
+    this.appSecret = String(config.appSecret || process.env.DINGTALK_APP_SECRET || '').trim();
+    this.robotCode = String(config.robotCode || process.env.DINGTALK_ROBOT_CODE || '').trim() || this.appKey;
+
+    if (!this.appKey || !this.appSecret) {
+      throw new Error(
+        '钉钉应用凭证未配置。\n'
+        + '  1. 在 https://open-dev.dingtalk.com 创建企业内部应用，添加机器人能力，消息接收模式选择 Stream 模式\n'
+        + '  2. 设置环境变量 DINGTALK_APP_KEY 和 DINGTALK_APP_SECRET（即后台的 Client ID 和 Client Secret）',
+      );
+    }
+
+    logger.info({ appKey: this.appKey.slice(0, 8) + '...' }, '⚡ 钉钉插件已初始化');
+  }
+
+  onMessage(handler: MessageHandler): void {
+    this.handler = handler;
+  }
+
+  async start(): Promise<void> {
+    // 先验证凭证，避免 Stream 连接反复失败
+    await this.getAccessToken();
+
+    const client = new DWClient({ clientId: this.appKey, clientSecret: this.appSecret, debug: false });
+    client.registerCallbackListener(TOPIC_ROBOT, async (event: DWClientDownStream) => {
+      // 立即应答，否则钉钉会在超时后重发
+      client.socketCallBackResponse(event.headers.messageId, { status: 'SUCCESS' });
+      try {
+        await this.handleRobotMessage(JSON.parse(event.data) as DingTalkRobotMessage);
+      } catch (err) {
+        logger.error({ err }, '处理钉钉消息失败');
+      }
+    });
+
+    await client.connect();
+    this.client = client;
+    logger.info('⚡ 钉钉 Stream 已连接');
+  }
+
+  async stop(): Promise<void> {
+    if (this.client) {
+      this.client.disconnect();
+      this.client = null;
+    }
+    this.seenMessages.clear();
+    logger.info('⚡ 钉钉插件已停止');
+  }
+
+  async sendMessage(chatId: string, content: string): Promise<SendMessageResult> {
+    try {
+      let lastId: string | undefined;
+      for (const chunk of splitMessage(content, MAX_TEXT_LENGTH)) {
+        lastId = await this.sendRobotMessage(chatId, 'sampleMarkdown', { title: markdownTitle(chunk), text: chunk });
+      }
+      return { success: true, messageId: lastId };
+    } catch (err) {
+      logger.error({ chatId, err: errorMessage(err) }, '发送钉钉消息失败');
+      return { success: false, error: errorMessage(err) };
+    }
+  }
+
+  /**
+   * 撤回机器人发出的消息
+   */
+  async deleteMessage(messageId: string): Promise<void> {
+    const parsed = parseMessageId(messageId);
+    const target = parsed && parseChatId(parsed.chatId);
+    if (!parsed || !target) return;
+
+    try {
+      if (target.kind === 'group') {
+        await this.api('/v1.0/robot/groupMessages/recall', {
+          robotCode: this.robotCode,
+          openConversationId: target.id,
+          processQueryKeys: [parsed.key],
+        });
+      } else {
+        await this.api('/v1.0/robot/otoMessages/batchRecall', {
+          robotCode: this.robotCode,
+          processQueryKeys: [parsed.key],
+        });
+      }
+    } catch (err) {
+      logger.warn({ messageId, err: errorMessage(err) }, '撤回钉钉消息失败');
+    }
+  }
+
+  async sendImage(chatId: string, imageData: string | Buffer, caption?: string): Promise<SendMessageResult> {
+    let buffer: Buffer;
+    let mimeType = 'image/png';
+    if (Buffer.isBuffer(imageData)) {
+      buffer = imageData;
+    } else if (imageData.startsWith('data:')) {
+      const match = imageData.match(/^data:([^;]+);base64,(.+)$/);
+      if (!match) return { success: false, error: '无效的 data URL' };
+      mimeType = match[1];
+      buffer = Buffer.from(match[2], 'base64');
+    } else if (fs.existsSync(imageData)) {
+      buffer = fs.readFileSync(imageData);
+    } else {
+      buffer = Buffer.from(imageData, 'base64');
+    }
+
+    try {
+      const ext = mimeType.split('/')[1] || 'png';
+      const mediaId = await this.uploadMedia('image', buffer, `image.${ext}`, mimeType);
+      const messageId = await this.sendRobotMessage(chatId, 'sampleImageMsg', { photoURL: mediaId });
+      if (caption?.trim()) {
+        await this.sendMessage(chatId, caption.trim());
+      }
+      return { success: true, messageId };
+    } catch (err) {
+      logger.error({ chatId, err: errorMessage(err) }, '发送钉钉图片失败');
+      return { success: false, error: errorMessage(err) };
+    }
+  }
+
+  async sendFile(chatId: string, filePath: string, fileName?: string): Promise<SendMessageResult> {
+    if (!fs.existsSync(filePath)) {
+      return { success: false, error: `文件不存在: ${filePath}` };
+    }
+    const name = fileName || path.basename(filePath);
+    try {
+      const mediaId = await this.uploadMedia('file', fs.readFileSync(filePath), name, 'application/octet-stream');
+      const messageId = await this.sendRobotMessage(chatId, 'sampleFile', {
+        mediaId,
+        fileName: name,
+        fileType: path.extname(name).replace(/^\./, '') || 'file',
+      });
+      return { success: true, messageId };
+    } catch (err) {
+      logger.error({ chatId, err: errorMessage(err) }, '发送钉钉文件失败');
+      return { success: false, error: errorMessage(err) };
+    }
+  }
+
+  /**
+   * 单聊中发送 ActionCard，按钮点击后以用户身份发出 /approve <id> 或 /deny <id>
+   * 群聊中用户发出的消息需要 @机器人 才会推送，按钮无法直接生效，改为文本提示
+   */
+  async sendApprovalRequest(chatId: string, prompt: ApprovalPrompt): Promise<SendMessageResult> {
+    if (parseChatId(chatId)?.kind !== 'user') {
+      return this.sendMessage(chatId, `${prompt.text}\n\n群聊中请 @我 并回复上述命令`);
+    }
+
+    const link = (command: string) => `dtmd://dingtalkclient/sendMessage?content=${encodeURIComponent(command)}`;
+    try {
+      const messageId = await this.sendRobotMessage(chatId, 'sampleActionCard2', {
+        title: '工具调用需要确认',
+        text: `### 🔐 工具调用需要确认\n\n🔧 工具: ${prompt.toolName}\n\n📦 参数: ${prompt.paramsPreview}`,
+        actionTitle1: '✅ 允许',
+        actionURL1: link(`/approve ${prompt.id}`),
+        actionTitle2: '🚫 拒绝',
+        actionURL2: link(`/deny ${prompt.id}`),
+      });
+      return { success: true, messageId };
+    } catch (err) {
+      logger.error({ chatId, err: errorMessage(err) }, '发送钉钉审批卡片失败');
+      return { success: false, error: errorMessage(err) };
+    }
+  }
+
+  // ─── OpenAPI ─────────────────────────────────────────────────────
+
+  private async getAccessToken(): Promise<string> {
+    if (this.accessToken && Date.now() < this.accessTokenExpiresAt) {
+      return this.accessToken;
+    }
+
+    const response = await fetch(`${API_BASE}/v1.0/oauth2/accessToken`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ appKey: this.appKey, appSecret: this.appSecret }),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    const data = await response.json().catch(() => ({})) as { accessToken?: string; expireIn?: number; message?: string };
+    if (!response.ok || !data.accessToken) {
+      throw new Error(`获取钉钉 access token 失败: ${data.message || `HTTP ${response.status}`}`);
+    }
+
+    this.accessToken = data.accessToken;
+    // 提前 5 分钟刷新
+    this.accessTokenExpiresAt = Date.now() + ((data.expireIn ?? 7200) - 300) * 1000;
+    return this.accessToken;
+  }
+
+  private async api<T = Record<string, unknown>>(apiPath: string, body: unknown): Promise<T> {
+    const response = await fetch(`${API_BASE}${apiPath}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-acs-dingtalk-access-token': await this.getAccessToken(),
+      },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    const data = await response.json().catch(() => ({})) as T & { code?: string; message?: string };
+    if (!response.ok) {
+      throw new Error(`${data.code || `HTTP ${response.status}`}: ${data.message || response.statusText}`);
+    }
+    return data;
+  }
+
+  /**
+   * 以机器人身份发送消息，返回 <chatId>#<processQueryKey>
+   */
+  private async sendRobotMessage(chatId: string, msgKey: string, msgParam: Record<string, unknown>): Promise<string> {
+    const target = parseChatId(chatId);
+    if (!target) throw new Error(`不是钉钉会话: ${chatId}`);
+
+    const result = target.kind === 'group'
+      ? await this.api<{ processQueryKey?: string }>('/v1.0/robot/groupMessages/send', {
+        robotCode: this.robotCode,
+        openConversationId: target.id,
+        msgKey,
+        msgParam: JSON.stringify(msgParam),
+      })
+      : await this.api<{ processQueryKey?: string }>('/v1.0/robot/oToMessages/batchSend', {
+        robotCode: this.robotCode,
+        userIds: [target.id],
+        msgKey,
+        msgParam: JSON.stringify(msgParam),
+      });
+    return `${chatId}#${result.processQueryKey ?? ''}`;
+  }
+
+  private async uploadMedia(type: 'image' | 'file', buffer: Buffer, fileName: string, mimeType: string): Promise<string> {
+    const form = new FormData();
+    form.append('media', new Blob([new Uint8Array(buffer)], { type: mimeType }), fileName);
+    const token = encodeURIComponent(await this.getAccessToken());
+    const response = await fetch(`${OAPI_BASE}/media/upload?access_token=${token}&type=${type}`, {
+      method: 'POST',
+      body: form,
+      signal: AbortSignal.timeout(60000),
+    });
+    const data = await response.json().catch(() => ({})) as { errcode?: number; errmsg?: string; media_id?: string };
+    if (!response.ok || data.errcode || !data.media_id) {
+      throw new Error(`上传钉钉媒体文件失败: ${data.errmsg || `HTTP ${response.status}`}`);
+    }
+    return data.media_id;
+  }
+
+  // ─── 收消息 ───────────────────────────────────────────────────────
+
+  private isDuplicate(msgId: string): boolean {
+    const now = Date.now();
+    for (const [id, ts] of this.seenMessages) {
+      if (now - ts > DEDUP_TTL_MS) this.seenMessages.delete(id);
+    }
+    if (this.seenMessages.has(msgId)) return true;
+    this.seenMessages.set(msgId, now);
+    return false;
+  }
+
+  private async downloadImage(downloadCode: string): Promise<Attachment | null> {
+    try {
+      const { downloadUrl } = await this.api<{ downloadUrl?: string }>('/v1.0/robot/messageFiles/download', {
+        downloadCode,
+        robotCode: this.robotCode,
+      });
+      if (!downloadUrl) return null;
+
+      const response = await fetch(downloadUrl, { signal: AbortSignal.timeout(30000) });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const buffer = Buffer.from(await response.arrayBuffer());
+      if (buffer.length > MAX_IMAGE_BYTES) {
+        logger.warn({ bytes: buffer.length }, '钉钉图片过大，已忽略');
+        return null;
+      }
+      const mimeType = response.headers.get('content-type')?.split(';')[0] || 'image/jpeg';
+      return { type: 'image', content: `data:${mimeType};base64,${buffer.toString('base64')}`, mimeType };
+    } catch (err) {
+      logger.warn({ err: errorMessage(err) }, '下载钉钉图片失败');
+      return null;
+    }
+  }
+
+  /**
+   * 提取文本和附件（text / picture / richText / audio / file）
+   */
+  private async extractContent(data: DingTalkRobotMessage): Promise<{ text: string; attachments: Attachment[] }> {
+    const attachments: Attachment[] = [];
+    const content = data.content ?? {};
+
+    switch (data.msgtype) {
+      case 'text':
+        return { text: (data.text?.content ?? '').trim(), attachments };
+
+      case 'picture': {
+        const code = content.pictureDownloadCode || content.downloadCode;
+        const image = code ? await this.downloadImage(code) : null;
+        if (image) attachments.push(image);
+        return { text: '', attachments };
+      }
+
+      case 'richText': {
+        const parts: string[] = [];
+        for (const item of content.richText ?? []) {
+          if (item.text) parts.push(item.text);
+          const code = item.pictureDownloadCode || item.downloadCode;
+          if (item.type === 'picture' && code) {
+            const image = await this.downloadImage(code);
+            if (image) attachments.push(image);
+          }
+        }
+        return { text: parts.join('').trim(), attachments };
+      }
+
+      case 'audio':
+        return { text: (content.recognition ?? '').trim() || '[语音]', attachments };
+
+      case 'file':
+        attachments.push({ type: 'file', fileName: content.fileName, fileKey: content.downloadCode });
+        return { text: '', attachments };
+
+      default:
+        return { text: `[${data.msgtype}]`, attachments };
+    }
+  }
+
+  private async handleRobotMessage(data: DingTalkRobotMessage): Promise<void> {
+    if (!this.handler || !data.msgId) return;
+    if (this.isDuplicate(data.msgId)) return;
+
+    const isGroup = data.conversationType === '2';
+    const userId = data.senderStaffId || data.senderId;
+    const { text, attachments } = await this.extractContent(data);
+    if (!text && attachments.length === 0) return;
+
+    const message: Message = {
+      id: `dingtalk-${data.msgId}`,
+      chatId: isGroup ? `group:${data.conversationId}` : `user:${userId}`,
+      senderId: userId,
+      senderName: data.senderNick || userId,
+      content: text || (attachments.some(a => a.type === 'image') ? '[图片]' : '[附件]'),
+      timestamp: new Date(data.createAt ?? Date.now()).toISOString(),
+      chatType: isGroup ? 'group' : 'p2p',
+      platform: 'dingtalk',
+      attachments: attachments.length > 0 ? attachments : undefined,
+      // 群聊中钉钉只推送 @机器人 的消息，正文中的 @ 已被去掉
+      mentions: isGroup ? [data.chatbotUserId || this.robotCode] : undefined,
+      raw: data,
+    };
+
+    logger.info({ chatId: message.chatId, sender: message.senderName, msgtype: data.msgtype }, '>>> 收到钉钉消息');
+    await this.handler(message);
+  }
+}
+
+const plugin: ChannelPlugin = new DingTalkChannelPlugin();
+export default plugin;
@@ -0,0 +1,70 @@
+/**
+ * Discord 渠道辅助函数（消息 ID、线程映射、提及处理、消息拆分、审批按钮）
+ * 不依赖 discord.js，便于单独测试
+ */
+
+import { splitMessage } from '../../src/stream-reply.js';
+
+// Discord 单条消息长度上限
+export const MAX_TEXT_LENGTH = 2000;
+// 审批按钮 customId 格式：approve:<id> / deny:<id>
+const APPROVAL_CUSTOM_ID_RE = /^(approve|deny):([a-z0-9]+)$/;
+
+/**
+ * 消息 ID：<channelId>:<messageId>
+ */
+export function parseMessageId(messageId: string): { channelId: string; messageId: string } | null {
+  const [channelId, id, ...rest] = messageId.split(':');
+  if (!channelId || !id || rest.length > 0) return null;
+  return { channelId, messageId: id };
+}
+
+/**
+ * 回复目标：显式回复时指向被回复的消息；
+ * 线程的 ID 与起始消息相同，未显式回复时指向线程起始消息（<父频道>:<线程 ID>）
+ */
+export function replyTarget(
+  reference: { channelId: string; messageId?: string } | null | undefined,
+  thread: { id: string; parentId: string | null } | null,
+): string | undefined {
+  if (reference?.messageId) {
+    return `${reference.channelId}:${reference.messageId}`;
+  }
+  if (thread?.parentId) {
+    return `${thread.parentId}:${thread.id}`;
+  }
+  return undefined;
+}
+
+/**
+ * <@123> / <@!123> → @名称，去掉对 Bot 自己的 @
+ */
+export function stripMentions(
+  content: string,
+  users: Iterable<{ id: string; displayName: string }>,
+  botUserId: string,
+): string {
+  let result = content;
+  for (const user of users) {
+    const pattern = new RegExp(`<@!?${user.id}>\\s*`, 'g');
+    result = result.replace(pattern, user.id === botUserId ? '' : `@${user.displayName} `);
+  }
+  return result.trim();
+}
+
+/**
+ * 按 Discord 长度上限拆分消息
+ */
+export function chunkText(content: string, maxLength = MAX_TEXT_LENGTH): string[] {
+  return splitMessage(content, maxLength);
+}
+
+/**
+ * 审批按钮 customId 转换为命令，格式不符时返回 null
+ */
+export function approvalCommand(customId: string): { approved: boolean; command: string } | null {
+  const match = customId.match(APPROVAL_CUSTOM_ID_RE);
+  if (!match) return null;
+  const [, action, approvalId] = match;
+  return { approved: action === 'approve', command: `/${action} ${approvalId}` };
+}
@@ -0,0 +1,387 @@
+/**
+ * FlashClaw Discord 渠道插件
+ *
+ * 功能：
+ * - Gateway 长连接收发消息（无需公网服务器）
+ * - 私信 + 服务器频道（@ 触发 / 回复 Bot 消息 / 在 Bot 创建的线程中触发，其余消息交给核心按 BOT_NAME 判断）
+ * - 线程：Discord 线程本身是独立频道，会话 ID 即线程 ID；replyToMessageId 指向被回复的消息或线程起始消息
+ * - 图片收发（下载 → base64，附件上传）和文件发送
+ * - 消息编辑/删除（"正在思考..." 更新、流式回复）
+ * - 工具调用审批（按钮组件）
+ *
+ * 依赖：discord.js
+ *
+ * 配置环境变量：
+ *   DISCORD_BOT_TOKEN      - Bot Token（Developer Portal → Bot，需开启 Message Content Intent）
+ *   DISCORD_ALLOWED_USERS  - 可选，允许使用 Bot 的用户 ID，多个用逗号分隔
+ */
+
+import fs from 'fs';
+import path from 'path';
+import {
+  ActionRowBuilder,
+  AttachmentBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  ChannelType,
+  Client,
+  Events,
+  GatewayIntentBits,
+  Partials,
+  type ButtonInteraction,
+  type Message as DiscordMessage,
+  type SendableChannels,
+} from 'discord.js';
+import { createLogger } from '../../src/logger.js';
+import type {
+  ApprovalPrompt,
+  Attachment,
+  ChannelPlugin,
+  PluginConfig,
+  MessageHandler,
+  Message,
+  SendMessageResult,
+} from '../../src/plugins/types.js';
+import {
+  MAX_TEXT_LENGTH,
+  approvalCommand,
+  chunkText,
+  parseMessageId,
+  replyTarget,
+  stripMentions,
+} from './discord-utils.js';
+
+const logger = createLogger('DiscordPlugin');
+
+// 下载图片大小上限
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+// 去重 TTL (5 分钟)
+const DEDUP_TTL_MS = 5 * 60 * 1000;
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+// ============================================================================
+// 插件实现
+// ============================================================================
+
+class DiscordChannelPlugin implements ChannelPlugin {
+  name = 'discord';
+  version = '1.0.0';
+
+  // 流式回复：同一频道约每 5 秒 5 次编辑
+  streaming = { editIntervalMs: 1200, maxLength: MAX_TEXT_LENGTH };
+
+  private client: Client | null = null;
+  private handler: MessageHandler | null = null;
+  private token = '';
+  private allowedUsers: Set<string> | null = null;
+  private seenMessages = new Map<string, number>();
+
+  async init(config: PluginConfig): Promise<void> {
+    this.token = String(config.botToken || process.env.DISCORD_BOT_TOKEN || '').trim();
+    if (!this.token) {
+      throw new Error(
+        'Discord Bot Token 未配置。\n'
+        + '  1. 在 https://discord.com/developers/applications 创建应用并添加 Bot\n'
+        + '  2. 在 Bot 页面开启 Message Content Intent\n'
+        + '  3. 设置环境变量 DISCORD_BOT_TOKEN=你的Token',
+      );
+    }
+
+    const allowedRaw = String(config.allowedUsers || process.env.DISCORD_ALLOWED_USERS || '').trim();
+    if (allowedRaw) {
+      this.allowedUsers = new Set(allowedRaw.split(',').map(s => s.trim()).filter(Boolean));
+      logger.info({ count: this.allowedUsers.size }, '⚡ 用户白名单已启用');
+    }
+
+    logger.info('⚡ Discord 插件已初始化');
+  }
+
+  onMessage(handler: MessageHandler): void {
+    this.handler = handler;
+  }
+
+  async start(): Promise<void> {
+    const client = new Client({
+      intents: [
+        GatewayIntentBits.Guilds,
+        GatewayIntentBits.GuildMessages,
+        GatewayIntentBits.MessageContent,
+        GatewayIntentBits.DirectMessages,
+      ],
+      // 私信频道不在缓存中，需要 partial 才能收到
+      partials: [Partials.Channel],
+    });
+    this.client = client;
+
+    client.on(Events.MessageCreate, async (msg) => {
+      try {
+        await this.handleMessage(msg);
+      } catch (err) {
+        logger.error({ err, channelId: msg.channelId }, '处理 Discord 消息失败');
+      }
+    });
+
+    client.on(Events.InteractionCreate, async (interaction) => {
+      if (!interaction.isButton()) return;
+      try {
+        await this.handleApprovalButton(interaction);
+      } catch (err) {
+        logger.error({ err, channelId: interaction.channelId }, '处理 Discord 审批按钮失败');
+      }
+    });
+
+    client.on(Events.Error, (err) => {
+      logger.error({ err }, 'Discord 客户端错误');
+    });
+
+    const ready = new Promise<void>((resolve) => {
+      client.once(Events.ClientReady, (c) => {
+        logger.info({ user: c.user.tag, id: c.user.id }, '⚡ Discord Bot 已连接');
+        resolve();
+      });
+    });
+
+    try {
+      await client.login(this.token);
+    } catch (err) {
+      logger.error({ err }, 'Discord 登录失败，请检查 Token 和 Intent 设置');
+      throw err;
+    }
+    await ready;
+  }
+
+  async stop(): Promise<void> {
+    if (this.client) {
+      await this.client.destroy();
+      this.client = null;
+    }
+    this.seenMessages.clear();
+    logger.info('⚡ Discord 插件已停止');
+  }
+
+  async sendMessage(chatId: string, content: string): Promise<SendMessageResult> {
+    try {
+      const channel = await this.getSendableChannel(chatId);
+      let lastId: string | undefined;
+      for (const chunk of chunkText(content)) {
+        const sent = await channel.send({ content: chunk, allowedMentions: { parse: [] } });
+        lastId = sent.id;
+      }
+      // 返回 channelId:messageId 格式，与 updateMessage/deleteMessage 保持一致
+      return { success: true, messageId: lastId ? `${chatId}:${lastId}` : undefined };
+    } catch (err) {
+      logger.error({ chatId, err }, '发送 Discord 消息失败');
+      return { success: false, error: errorMessage(err) };
+    }
+  }
+
+  async updateMessage(messageId: string, content: string): Promise<void> {
+    const target = parseMessageId(messageId);
+    if (!target) {
+      throw new Error(`Discord messageId 格式无效，需要 channelId:messageId: ${messageId}`);
+    }
+    const channel = await this.getSendableChannel(target.channelId);
+    await channel.messages.edit(target.messageId, { content: content.slice(0, MAX_TEXT_LENGTH) });
+  }
+
+  async deleteMessage(messageId: string): Promise<void> {
+    const target = parseMessageId(messageId);
+    if (!target) return;
+
+    try {
+      const channel = await this.getSendableChannel(target.channelId);
+      await channel.messages.delete(target.messageId);
+    } catch (err) {
+      logger.warn({ messageId, err }, '删除 Discord 消息失败');
+    }
+  }
+
+  async sendImage(chatId: string, imageData: string | Buffer, caption?: string): Promise<SendMessageResult> {
+    let buffer: Buffer;
+    if (Buffer.isBuffer(imageData)) {
+      buffer = imageData;
+    } else if (imageData.startsWith('data:')) {
+      const match = imageData.match(/^data:[^;]+;base64,(.+)$/);
+      if (!match) return { success: false, error: '无效的 data URL' };
+      buffer = Buffer.from(match[1], 'base64');
+    } else if (fs.existsSync(imageData)) {
+      buffer = fs.readFileSync(imageData);
+    } else {
+      buffer = Buffer.from(imageData, 'base64');
+    }
+    return this.sendAttachment(chatId, new AttachmentBuilder(buffer, { name: 'image.png' }), caption);
+  }
+
+  async sendFile(chatId: string, filePath: string, fileName?: string): Promise<SendMessageResult> {
+    if (!fs.existsSync(filePath)) {
+      return { success: false, error: `文件不存在: ${filePath}` };
+    }
+    return this.sendAttachment(chatId, new AttachmentBuilder(filePath, { name: fileName || path.basename(filePath) }));
+  }
+
+  async sendApprovalRequest(chatId: string, prompt: ApprovalPrompt): Promise<SendMessageResult> {
+    try {
+      const channel = await this.getSendableChannel(chatId);
+      const row = new ActionRowBuilder<ButtonBuilder>().addComponents(
+        new ButtonBuilder().setCustomId(`approve:${prompt.id}`).setLabel('✅ 允许').setStyle(ButtonStyle.Success),
+        new ButtonBuilder().setCustomId(`deny:${prompt.id}`).setLabel('🚫 拒绝').setStyle(ButtonStyle.Danger),
+      );
+      const text = `🔐 工具调用需要确认\n\n🔧 工具: ${prompt.toolName}\n📦 参数: ${prompt.paramsPreview}`;
+      const sent = await channel.send({ content: text.slice(0, MAX_TEXT_LENGTH), components: [row] });
+      return { success: true, messageId: `${chatId}:${sent.id}` };
+    } catch (err) {
+      logger.error({ chatId, err }, '发送 Discord 审批请求失败');
+      return { success: false, error: errorMessage(err) };
+    }
+  }
+
+  // ─── 内部方法 ─────────────────────────────────────────────────────
+
+  private async getSendableChannel(channelId: string): Promise<SendableChannels> {
+    if (!this.client) throw new Error('Discord 插件未启动');
+    const channel = await this.client.channels.fetch(channelId);
+    if (!channel?.isSendable()) {
+      throw new Error(`无法向该频道发送消息: ${channelId}`);
+    }
+    return channel;
+  }
+
+  private async sendAttachment(chatId: string, file: AttachmentBuilder, caption?: string): Promise<SendMessageResult> {
+    try {
+      const channel = await this.getSendableChannel(chatId);
+      const sent = await channel.send({
+        content: caption?.trim().slice(0, MAX_TEXT_LENGTH) || undefined,
+        files: [file],
+        allowedMentions: { parse: [] },
+      });
+      logger.info({ chatId, name: file.name }, '文件发送成功');
+      return { success: true, messageId: `${chatId}:${sent.id}` };
+    } catch (err) {
+      logger.error({ chatId, err }, '发送 Discord 附件失败');
+      return { success: false, error: errorMessage(err) };
+    }
+  }
+
+  private isDuplicate(id: string): boolean {
+    const now = Date.now();
+    for (const [key, ts] of this.seenMessages) {
+      if (now - ts > DEDUP_TTL_MS) this.seenMessages.delete(key);
+    }
+    if (this.seenMessages.has(id)) return true;
+    this.seenMessages.set(id, now);
+    return false;
+  }
+
+  private async downloadAttachments(msg: DiscordMessage): Promise<Attachment[]> {
+    const attachments: Attachment[] = [];
+    for (const file of msg.attachments.values()) {
+      const isImage = file.contentType?.startsWith('image/') ?? false;
+      if (!isImage || file.size > MAX_IMAGE_BYTES) {
+        attachments.push({ type: isImage ? 'image' : 'file', fileName: file.name, mimeType: file.contentType ?? undefined, fileKey: file.id });
+        continue;
+      }
+
+      try {
+        const response = await fetch(file.url);
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        const buffer = Buffer.from(await response.arrayBuffer());
+        attachments.push({
+          type: 'image',
+          content: `data:${file.contentType};base64,${buffer.toString('base64')}`,
+          mimeType: file.contentType ?? undefined,
+          fileName: file.name,
+          fileKey: file.id,
+        });
+      } catch (err) {
+        logger.warn({ attachmentId: file.id, err }, '下载 Discord 图片失败');
+      }
+    }
+    return attachments;
+  }
+
+  private async handleMessage(msg: DiscordMessage): Promise<void> {
+    if (!this.handler || !this.client?.user) return;
+    // 忽略 Bot 消息（包括自己发的）和系统消息
+    if (msg.author.bot || msg.system) return;
+    if (this.isDuplicate(msg.id)) return;
+
+    if (this.allowedUsers && !this.allowedUsers.has(msg.author.id)) {
+      logger.debug({ userId: msg.author.id }, '用户不在白名单中，忽略');
+      return;
+    }
+
+    const botUser = this.client.user;
+    const isPrivate = msg.channel.type === ChannelType.DM;
+    const thread = msg.channel.isThread() ? msg.channel : null;
+
+    // @Bot（不含 @everyone / @here）、回复 Bot 的消息、在 Bot 创建的线程中发言，都视为对 Bot 说话
+    const mentioned = msg.mentions.users.has(botUser.id)
+      || msg.mentions.repliedUser?.id === botUser.id
+      || thread?.ownerId === botUser.id;
+
+    const content = stripMentions(msg.content, msg.mentions.users.values(), botUser.id);
+
+    const attachments = await this.downloadAttachments(msg);
+    if (!content && attachments.length === 0) return;
+
+    const replyToMessageId = replyTarget(msg.reference, thread);
+
+    const message: Message = {
+      id: `discord-${msg.id}`,
+      chatId: msg.channelId,
+      senderId: msg.author.id,
+      senderName: msg.member?.displayName || msg.author.displayName || msg.author.username,
+      content: content || (attachments.some(a => a.type === 'image') ? '[图片]' : '[附件]'),
+      timestamp: msg.createdAt.toISOString(),
+      chatType: isPrivate ? 'p2p' : 'group',
+      platform: 'discord',
+      attachments: attachments.length > 0 ? attachments : undefined,
+      // 只有真正 @Bot 时才标记，其余频道消息由核心的 shouldRespondInGroup 判断
+      mentions: !isPrivate && mentioned ? [botUser.username] : undefined,
+      replyToMessageId,
+      raw: msg.toJSON(),
+    };
+
+    await this.handler(message);
+  }
+
+  /**
+   * 处理审批按钮：转换为 /approve <id> 或 /deny <id> 命令消息
+   */
+  private async handleApprovalButton(interaction: ButtonInteraction): Promise<void> {
+    const approval = approvalCommand(interaction.customId);
+    if (!this.handler || !approval) return;
+
+    if (this.allowedUsers && !this.allowedUsers.has(interaction.user.id)) {
+      await interaction.reply({ content: '无权操作', ephemeral: true });
+      return;
+    }
+
+    // 移除按钮，避免重复点击
+    await interaction.update({
+      content: `${interaction.message.content}\n\n${approval.approved ? '✅ 已允许' : '🚫 已拒绝'}`,
+      components: [],
+    });
+
+    const message: Message = {
+      id: `discord-btn-${interaction.id}`,
+      chatId: interaction.channelId,
+      senderId: interaction.user.id,
+      senderName: interaction.user.displayName || interaction.user.username,
+      content: approval.command,
+      timestamp: new Date().toISOString(),
+      chatType: interaction.channel?.type === ChannelType.DM ? 'p2p' : 'group',
+      platform: 'discord',
+      // 按钮点击视为对 Bot 的明确操作
+      mentions: [this.client?.user?.username || 'bot'],
+      raw: interaction.toJSON(),
+    };
+
+    await this.handler(message);
+  }
+}
+
+const plugin: ChannelPlugin = new DiscordChannelPlugin();
+export default plugin;
@@ -0,0 +1,521 @@
+/**
+ * FlashClaw 邮件渠道插件
+ *
+ * 功能：
+ * - IMAP 收信：连接保持时使用 IDLE 即时收到新邮件，另有定时轮询兜底；处理后标记为已读
+ * - 线程即会话：按 Message-ID / In-Reply-To / References 把同一封邮件的往来归入同一个会话
+ * - HTML 正文转纯文本，去掉引用的历史内容；图片附件转为 base64，其他附件保存到本地
+ * - SMTP 回复：带 In-Reply-To / References 和 Re: 主题，邮件客户端中显示在同一线程
+ * - 忽略自己发出的邮件和自动回复/退信/邮件列表，避免循环
+ * - 发件人认证：Authentication-Results 中 DMARC 或（与 From 对齐的）DKIM 通过才处理，回复只发给 From 地址
+ *
+ * 陌生人无法驱动 Agent：在 registered_groups.json 中为 main 群组（自动注册的邮件会话继承）
+ * 或具体会话设置 allowedSenders，如 ["email:me@example.com", "email:*@mycompany.com"]
+ *
+ * 依赖：imapflow、nodemailer、mailparser
+ *
+ * 配置环境变量：
+ *   EMAIL_ADDRESS         - 机器人邮箱地址（发件人）
+ *   EMAIL_USER            - IMAP/SMTP 登录用户名（默认同 EMAIL_ADDRESS）
+ *   EMAIL_PASSWORD        - 登录密码或应用专用密码
+ *   EMAIL_IMAP_HOST / EMAIL_IMAP_PORT / EMAIL_IMAP_SECURE   - IMAP 服务器（默认端口 993，TLS）
+ *   EMAIL_SMTP_HOST / EMAIL_SMTP_PORT / EMAIL_SMTP_SECURE   - SMTP 服务器（默认端口 465，TLS）
+ *   EMAIL_MAILBOX         - 收信文件夹（默认 INBOX）
+ *   EMAIL_POLL_INTERVAL_MS - 轮询间隔（默认 60000）
+ *   EMAIL_TLS_REJECT_UNAUTHORIZED - 设为 false 时接受自签名证书（本地测试邮件服务器）
+ *   EMAIL_AUTHSERV_ID     - 收信服务器的 authserv-id，只信任它添加的 Authentication-Results（默认信任最上面一条）
+ *   EMAIL_REQUIRE_AUTH    - 设为 false 时不检查 DMARC/DKIM（仅用于不添加认证结果的本地测试邮件服务器）
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { ImapFlow } from 'imapflow';
+import nodemailer, { type Transporter } from 'nodemailer';
+import { simpleParser, type AddressObject, type ParsedMail } from 'mailparser';
+import { createLogger } from '../../src/logger.js';
+import { paths } from '../../src/paths.js';
+import { loadJson, saveJson } from '../../src/utils.js';
+import type {
+  Attachment,
+  ChannelPlugin,
+  PluginConfig,
+  MessageHandler,
+  Message,
+  SendMessageResult,
+} from '../../src/plugins/types.js';
+import {
+  appendToThread,
+  baseSubject,
+  buildReplyHeaders,
+  htmlToText,
+  isAutoGenerated,
+  isSenderAuthenticated,
+  normalizeMessageId,
+  parseReferences,
+  replySubject,
+  stripQuotedReply,
+  threadChatId,
+  threadRootId,
+  type MailThread,
+} from './mail-utils.js';
+
+const logger = createLogger('EmailPlugin');
+
+// 图片附件大小上限（超过时按普通文件保存）
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+// 其他附件大小上限（超过时只记录文件名）
+const MAX_FILE_BYTES = 25 * 1024 * 1024;
+// 最多保留的线程数（按最近活动淘汰）
+const MAX_THREADS = 1000;
+// 断线重连间隔
+const RECONNECT_DELAY_MS = 30000;
+
+interface EmailSettings {
+  address: string;
+  user: string;
+  password: string;
+  imapHost: string;
+  imapPort: number;
+  imapSecure: boolean;
+  smtpHost: string;
+  smtpPort: number;
+  smtpSecure: boolean;
+  mailbox: string;
+  pollIntervalMs: number;
+  rejectUnauthorized: boolean;
+  requireAuth: boolean;
+  authservId: string;
+}
+
+function str(config: PluginConfig, key: string, env: string, fallback = ''): string {
+  return String(config[key] ?? process.env[env] ?? fallback).trim();
+}
+
+function bool(value: string, fallback: boolean): boolean {
+  if (!value) return fallback;
+  return value.toLowerCase() !== 'false' && value !== '0';
+}
+
+function firstAddress(field: AddressObject | AddressObject[] | undefined): { address: string; name: string } | null {
+  const list = Array.isArray(field) ? field : field ? [field] : [];
+  for (const group of list) {
+    for (const entry of group.value) {
+      if (entry.address) return { address: entry.address.toLowerCase(), name: entry.name || '' };
+    }
+  }
+  return null;
+}
+
+function safeFileName(name: string): string {
+  return path.basename(name).replace(/[^\w.\-一-龥]+/g, '_').slice(0, 120) || 'attachment';
+}
+
+// ============================================================================
+// 插件实现
+// ============================================================================
+
+class EmailChannelPlugin implements ChannelPlugin {
+  name = 'email';
+  version = '1.0.0';
+
+  private settings: EmailSettings | null = null;
+  private handler: MessageHandler | null = null;
+  private imap: ImapFlow | null = null;
+  private smtp: Transporter | null = null;
+  private threads: Record<string, MailThread> = {};
+  private pollTimer: NodeJS.Timeout | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private checking: Promise<void> | null = null;
+  private recheck = false;
+  private stopped = false;
+
+  async init(config: PluginConfig): Promise<void> {
+    const address = str(config, 'address', 'EMAIL_ADDRESS').toLowerCase();
+    const password = str(config, 'password', 'EMAIL_PASSWORD');
+    const imapHost = str(config, 'imapHost', 'EMAIL_IMAP_HOST');
+    const smtpHost = str(config, 'smtpHost', 'EMAIL_SMTP_HOST');
+
+    if (!address || !password || !imapHost || !smtpHost) {
+      throw new Error(
+        '邮件渠道未配置。需要设置:\n'
+        + '  EMAIL_ADDRESS、EMAIL_PASSWORD（建议使用应用专用密码）\n'
+        + '  EMAIL_IMAP_HOST、EMAIL_SMTP_HOST（端口和 TLS 可用 EMAIL_IMAP_PORT / EMAIL_SMTP_SECURE 等调整）',
+      );
+    }
+
+    const imapSecure = bool(str(config, 'imapSecure', 'EMAIL_IMAP_SECURE'), true);
+    const smtpSecure = bool(str(config, 'smtpSecure', 'EMAIL_SMTP_SECURE'), true);
+    this.settings = {
+      address,
+      user: str(config, 'user', 'EMAIL_USER') || address,
+      password,
+      imapHost,
+      imapPort: Number(str(config, 'imapPort', 'EMAIL_IMAP_PORT')) || (imapSecure ? 993 : 143),
+      imapSecure,
+      smtpHost,
+      smtpPort: Number(str(config, 'smtpPort', 'EMAIL_SMTP_PORT')) || (smtpSecure ? 465 : 587),
+      smtpSecure,
+      mailbox: str(config, 'mailbox', 'EMAIL_MAILBOX') || 'INBOX',
+      pollIntervalMs: Math.max(5000, Number(str(config, 'pollIntervalMs', 'EMAIL_POLL_INTERVAL_MS')) || 60000),
+      rejectUnauthorized: bool(str(config, 'tlsRejectUnauthorized', 'EMAIL_TLS_REJECT_UNAUTHORIZED'), true),
+      requireAuth: bool(str(config, 'requireAuth', 'EMAIL_REQUIRE_AUTH'), true),
+      authservId: str(config, 'authservId', 'EMAIL_AUTHSERV_ID'),
+    };
+
+    this.threads = loadJson<Record<string, MailThread>>(this.threadsFile(), {});
+    logger.info({ address, imap: `${imapHost}:${this.settings.imapPort}`, smtp: `${smtpHost}:${this.settings.smtpPort}` }, '⚡ 邮件插件已初始化');
+  }
+
+  onMessage(handler: MessageHandler): void {
+    this.handler = handler;
+  }
+
+  async start(): Promise<void> {
+    const settings = this.requireSettings();
+    this.stopped = false;
+
+    this.smtp = nodemailer.createTransport({
+      host: settings.smtpHost,
+      port: settings.smtpPort,
+      secure: settings.smtpSecure,
+      auth: { user: settings.user, pass: settings.password },
+      tls: { rejectUnauthorized: settings.rejectUnauthorized },
+    });
+
+    await this.connectImap();
+
+    // IDLE 断开或服务器不支持时由轮询兜底
+    this.pollTimer = setInterval(() => {
+      void this.checkMail();
+    }, settings.pollIntervalMs);
+    this.pollTimer.unref?.();
+  }
+
+  async stop(): Promise<void> {
+    this.stopped = true;
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    await this.checking;
+
+    if (this.imap) {
+      try {
+        await this.imap.logout();
+      } catch (err) {
+        logger.debug({ err }, 'IMAP 退出失败');
+      }
+      this.imap = null;
+    }
+    this.smtp?.close();
+    this.smtp = null;
+    logger.info('⚡ 邮件插件已停止');
+  }
+
+  async sendMessage(chatId: string, content: string): Promise<SendMessageResult> {
+    return this.sendReply(chatId, content);
+  }
+
+  async sendImage(chatId: string, imageData: string | Buffer, caption?: string): Promise<SendMessageResult> {
+    let buffer: Buffer;
+    let contentType = 'image/png';
+    if (Buffer.isBuffer(imageData)) {
+      buffer = imageData;
+    } else if (imageData.startsWith('data:')) {
+      const match = imageData.match(/^data:([^;]+);base64,(.+)$/);
+      if (!match) return { success: false, error: '无效的 data URL' };
+      contentType = match[1];
+      buffer = Buffer.from(match[2], 'base64');
+    } else if (fs.existsSync(imageData)) {
+      buffer = fs.readFileSync(imageData);
+    } else {
+      buffer = Buffer.from(imageData, 'base64');
+    }
+    const ext = contentType.split('/')[1] || 'png';
+    return this.sendReply(chatId, caption?.trim() || '（图片见附件）', [{ filename: `image.${ext}`, content: buffer, contentType }]);
+  }
+
+  async sendFile(chatId: string, filePath: string, fileName?: string): Promise<SendMessageResult> {
+    if (!fs.existsSync(filePath)) {
+      return { success: false, error: `文件不存在: ${filePath}` };
+    }
+    const name = fileName || path.basename(filePath);
+    return this.sendReply(chatId, `（附件：${name}）`, [{ filename: name, path: filePath }]);
+  }
+
+  // ─── 发信 ─────────────────────────────────────────────────────────
+
+  private async sendReply(
+    chatId: string,
+    text: string,
+    attachments?: Array<{ filename: string; content?: Buffer; path?: string; contentType?: string }>,
+  ): Promise<SendMessageResult> {
+    const thread = this.threads[chatId];
+    if (!thread) {
+      return { success: false, error: `不是邮件会话: ${chatId}` };
+    }
+    if (!this.smtp || !this.settings) {
+      return { success: false, error: '邮件插件未启动' };
+    }
+
+    try {
+      const { inReplyTo, references } = buildReplyHeaders(thread);
+      const info = await this.smtp.sendMail({
+        from: this.settings.address,
+        to: thread.replyTo,
+        subject: replySubject(thread.subject),
+        text,
+        inReplyTo,
+        references,
+        attachments,
+      });
+
+      const messageId = normalizeMessageId(String(info.messageId || ''));
+      if (messageId) {
+        this.saveThread(chatId, appendToThread(thread, messageId));
+      }
+      logger.info({ chatId, to: thread.replyTo }, '⚡ 邮件已发送');
+      return { success: true, messageId: messageId || undefined };
+    } catch (err) {
+      const error = err instanceof Error ? err.message : String(err);
+      logger.error({ chatId, err: error }, '发送邮件失败');
+      return { success: false, error };
+    }
+  }
+
+  // ─── 收信 ─────────────────────────────────────────────────────────
+
+  private async connectImap(): Promise<void> {
+    const settings = this.requireSettings();
+    const client = new ImapFlow({
+      host: settings.imapHost,
+      port: settings.imapPort,
+      secure: settings.imapSecure,
+      auth: { user: settings.user, pass: settings.password },
+      tls: { rejectUnauthorized: settings.rejectUnauthorized },
+      logger: false,
+    });
+
+    client.on('error', (err: Error) => {
+      logger.warn({ err: err.message }, 'IMAP 连接错误');
+    });
+    client.on('close', () => {
+      if (this.imap === client) {
+        this.imap = null;
+        this.scheduleReconnect();
+      }
+    });
+    // 新邮件到达（IDLE 推送）
+    client.on('exists', () => {
+      void this.checkMail();
+    });
+
+    try {
+      await client.connect();
+      await client.mailboxOpen(settings.mailbox);
+    } catch (err) {
+      logger.error({ err: err instanceof Error ? err.message : String(err) }, 'IMAP 连接失败，请检查服务器地址和账号');
+      throw err;
+    }
+
+    this.imap = client;
+    logger.info({ mailbox: settings.mailbox, idle: client.capabilities.has('IDLE') }, '⚡ IMAP 已连接');
+    await this.checkMail();
+  }
+
+  private scheduleReconnect(): void {
+    if (this.stopped || this.reconnectTimer) return;
+    logger.warn({ delayMs: RECONNECT_DELAY_MS }, 'IMAP 连接已断开，稍后重连');
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connectImap().catch(() => this.scheduleReconnect());
+    }, RECONNECT_DELAY_MS);
+    this.reconnectTimer.unref?.();
+  }
+
+  /**
+   * 拉取未读邮件并逐封处理（同一时间只有一次检查，期间到达的新邮件在结束后再查一次）
+   */
+  private checkMail(): Promise<void> {
+    if (this.checking) {
+      this.recheck = true;
+      return this.checking;
+    }
+    this.checking = (async () => {
+      do {
+        this.recheck = false;
+        await this.fetchUnseen();
+      } while (this.recheck && !this.stopped);
+    })().finally(() => {
+      this.checking = null;
+    });
+    return this.checking;
+  }
+
+  private async fetchUnseen(): Promise<void> {
+    const client = this.imap;
+    if (!client || this.stopped) return;
+
+    const pending: Array<{ uid: number; source: Buffer }> = [];
+    try {
+      // fetch 迭代期间不能执行其他 IMAP 命令，先收集再处理
+      for await (const item of client.fetch({ seen: false }, { uid: true, source: true }, { uid: true })) {
+        if (item.source) pending.push({ uid: item.uid, source: item.source });
+      }
+    } catch (err) {
+      logger.warn({ err: err instanceof Error ? err.message : String(err) }, '拉取未读邮件失败');
+      return;
+    }
+
+    for (const { uid, source } of pending) {
+      try {
+        // 先标记已读，处理失败也不会反复触发 Agent
+        await client.messageFlagsAdd({ uid: String(uid) }, ['\\Seen'], { uid: true });
+        await this.handleMail(await simpleParser(source));
+      } catch (err) {
+        logger.error({ uid, err: err instanceof Error ? err.message : String(err) }, '处理邮件失败');
+      }
+    }
+  }
+
+  private async handleMail(mail: ParsedMail): Promise<void> {
+    const settings = this.requireSettings();
+    const from = firstAddress(mail.from);
+    if (!from || !mail.messageId) return;
+
+    if (from.address === settings.address) return;
+    if (isAutoGenerated(mail.headers)) {
+      logger.debug({ from: from.address, subject: mail.subject }, '忽略自动生成的邮件');
+      return;
+    }
+    if (settings.requireAuth && !isSenderAuthenticated(mail.headers, from.address, settings.authservId)) {
+      logger.warn({ from: from.address, subject: mail.subject }, '发件人未通过 DMARC/DKIM 认证，忽略');
+      return;
+    }
+
+    const messageId = normalizeMessageId(mail.messageId);
+    const chatId = this.findThreadChatId(mail) ?? threadChatId(threadRootId({
+      messageId,
+      inReplyTo: mail.inReplyTo,
+      references: mail.references,
+    }));
+    const existing = this.threads[chatId];
+    const thread = appendToThread(existing ?? {
+      rootId: threadRootId({ messageId, inReplyTo: mail.inReplyTo, references: mail.references }),
+      subject: baseSubject(mail.subject),
+      replyTo: from.address,
+      lastMessageId: messageId,
+      references: parseReferences(mail.references),
+      updatedAt: new Date().toISOString(),
+    }, messageId);
+    // 回复给最近一封来信的发件人；不使用 Reply-To，它不受认证和发件人名单约束
+    thread.replyTo = from.address;
+    this.saveThread(chatId, thread);
+
+    const body = mail.text?.trim() ? mail.text : htmlToText(typeof mail.html === 'string' ? mail.html : '');
+    const text = stripQuotedReply(body);
+    const attachments = this.convertAttachments(chatId, mail);
+    // 新线程的第一封邮件带上主题，回复邮件的主题只是 Re: 前缀
+    const content = existing || !thread.subject ? text : `[${thread.subject}]\n${text}`;
+    if (!content.trim() && attachments.length === 0) return;
+
+    const message: Message = {
+      id: `email-${messageId}`,
+      chatId,
+      senderId: from.address,
+      senderName: from.name || from.address,
+      content: content.trim() || (attachments.some(a => a.type === 'image') ? '[图片]' : '[附件]'),
+      timestamp: (mail.date ?? new Date()).toISOString(),
+      // 邮件是发给机器人的一对一往来，不需要 @ 触发
+      chatType: 'p2p',
+      platform: 'email',
+      attachments: attachments.length > 0 ? attachments : undefined,
+      replyToMessageId: mail.inReplyTo ? normalizeMessageId(mail.inReplyTo) : undefined,
+      raw: { messageId, subject: mail.subject, from: from.address },
+    };
+
+    logger.info({ chatId, from: from.address, subject: mail.subject }, '>>> 收到邮件');
+    if (this.handler) {
+      await this.handler(message);
+    }
+  }
+
+  /**
+   * 在已知线程中查找：邮件引用了线程中的任一封即属于该线程（客户端截断 References 时也能归并）
+   */
+  private findThreadChatId(mail: ParsedMail): string | undefined {
+    const ids = [...parseReferences(mail.references), ...parseReferences(mail.inReplyTo)];
+    if (ids.length === 0) return undefined;
+    for (const [chatId, thread] of Object.entries(this.threads)) {
+      if (ids.some(id => id === thread.rootId || thread.references.includes(id))) {
+        return chatId;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * 图片转为 data URL，其他附件保存到 data/email/attachments/<chatId>/ 并以本地路径提供
+   */
+  private convertAttachments(chatId: string, mail: ParsedMail): Attachment[] {
+    const attachments: Attachment[] = [];
+    for (const file of mail.attachments ?? []) {
+      // 正文内嵌的图片（签名档 logo 等）不作为附件
+      if (file.related) continue;
+
+      const isImage = file.contentType.startsWith('image/');
+      if (isImage && file.size <= MAX_IMAGE_BYTES) {
+        attachments.push({
+          type: 'image',
+          content: `data:${file.contentType};base64,${file.content.toString('base64')}`,
+          mimeType: file.contentType,
+          fileName: file.filename,
+        });
+        continue;
+      }
+
+      const fileName = safeFileName(file.filename || `attachment-${attachments.length + 1}`);
+      if (file.size > MAX_FILE_BYTES) {
+        attachments.push({ type: 'file', fileName, mimeType: file.contentType });
+        continue;
+      }
+      const dir = path.join(paths.data(), 'email', 'attachments', chatId);
+      fs.mkdirSync(dir, { recursive: true });
+      const filePath = path.join(dir, `${Date.now()}-${fileName}`);
+      fs.writeFileSync(filePath, file.content);
+      attachments.push({ type: isImage ? 'image' : 'file', content: filePath, mimeType: file.contentType, fileName });
+    }
+    return attachments;
+  }
+
+  // ─── 线程状态 ─────────────────────────────────────────────────────
+
+  private threadsFile(): string {
+    return path.join(paths.data(), 'email', 'threads.json');
+  }
+
+  private saveThread(chatId: string, thread: MailThread): void {
+    this.threads[chatId] = thread;
+    const chatIds = Object.keys(this.threads);
+    if (chatIds.length > MAX_THREADS) {
+      chatIds
+        .sort((a, b) => this.threads[a].updatedAt.localeCompare(this.threads[b].updatedAt))
+        .slice(0, chatIds.length - MAX_THREADS)
+        .forEach(id => delete this.threads[id]);
+    }
+    fs.mkdirSync(path.dirname(this.threadsFile()), { recursive: true });
+    saveJson(this.threadsFile(), this.threads);
+  }
+
+  private requireSettings(): EmailSettings {
+    if (!this.settings) throw new Error('邮件插件未初始化');
+    return this.settings;
+  }
+}
+
+const plugin: ChannelPlugin = new EmailChannelPlugin();
+export default plugin;
@@ -0,0 +1,201 @@
+/**
+ * 邮件渠道辅助函数（线程归并、回复头、正文清理、发件人认证）
+ * 不依赖邮件库，便于单独测试
+ */
+
+import { createHash } from 'crypto';
+
+/** 一个邮件线程（对应一个 FlashClaw 会话） */
+export interface MailThread {
+  /** 线程根邮件的 Message-ID */
+  rootId: string;
+  /** 原始主题（不含 Re: 前缀） */
+  subject: string;
+  /** 回复对象（最近一封来信的发件地址） */
+  replyTo: string;
+  /** 线程中最近一封邮件的 Message-ID（回复时作为 In-Reply-To） */
+  lastMessageId: string;
+  /** References 链（根邮件在前） */
+  references: string[];
+  updatedAt: string;
+}
+
+/** References 头最多保留的条数（根邮件 + 最近的邮件） */
+const MAX_REFERENCES = 20;
+
+/**
+ * 统一 Message-ID 格式为 <id@host>
+ */
+export function normalizeMessageId(id: string): string {
+  const trimmed = id.trim();
+  if (!trimmed) return '';
+  return trimmed.startsWith('<') ? trimmed : `<${trimmed}>`;
+}
+
+/**
+ * 解析 References / In-Reply-To（字符串或数组）为 Message-ID 列表
+ */
+export function parseReferences(value: string | string[] | undefined): string[] {
+  if (!value) return [];
+  const raw = Array.isArray(value) ? value.join(' ') : value;
+  return (raw.match(/<[^<>\s]+>/g) ?? []).map(normalizeMessageId);
+}
+
+/**
+ * 找到邮件所属线程的根：References 的第一封，其次 In-Reply-To，都没有时就是邮件本身
+ */
+export function threadRootId(mail: { messageId: string; inReplyTo?: string; references?: string | string[] }): string {
+  const references = parseReferences(mail.references);
+  if (references.length > 0) return references[0];
+  const inReplyTo = parseReferences(mail.inReplyTo);
+  if (inReplyTo.length > 0) return inReplyTo[0];
+  return normalizeMessageId(mail.messageId);
+}
+
+/**
+ * 线程根 Message-ID → chatId（只含字母数字和连字符，可安全用作群组目录名）
+ */
+export function threadChatId(rootId: string): string {
+  return `email-${createHash('sha1').update(rootId.toLowerCase()).digest('hex').slice(0, 16)}`;
+}
+
+/**
+ * 去掉 Re: / Fwd: / 回复: / 转发: 前缀
+ */
+export function baseSubject(subject: string | undefined): string {
+  let result = (subject ?? '').trim();
+  const prefix = /^(re|fw|fwd|aw|回复|答复|转发)\s*[:：]\s*/i;
+  while (prefix.test(result)) {
+    result = result.replace(prefix, '');
+  }
+  return result;
+}
+
+export function replySubject(subject: string): string {
+  return subject ? `Re: ${subject}` : 'Re: (无主题)';
+}
+
+/**
+ * 回复一封邮件时的线程头：In-Reply-To 指向上一封，References 为完整链（过长时保留根邮件和最近的邮件）
+ */
+export function buildReplyHeaders(thread: MailThread): { inReplyTo: string; references: string[] } {
+  const chain = [...thread.references];
+  if (!chain.includes(thread.lastMessageId)) chain.push(thread.lastMessageId);
+  const references = chain.length > MAX_REFERENCES
+    ? [chain[0], ...chain.slice(chain.length - MAX_REFERENCES + 1)]
+    : chain;
+  return { inReplyTo: thread.lastMessageId, references };
+}
+
+/**
+ * 把一封邮件记入线程（来信或自己发出的回复）
+ */
+export function appendToThread(thread: MailThread, messageId: string): MailThread {
+  const id = normalizeMessageId(messageId);
+  const references = thread.references.includes(id) ? thread.references : [...thread.references, id];
+  return {
+    ...thread,
+    lastMessageId: id,
+    references: references.length > MAX_REFERENCES ? [references[0], ...references.slice(-(MAX_REFERENCES - 1))] : references,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * 简单的 HTML → 纯文本（邮件没有纯文本部分时使用）
+ */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style|head)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|tr|h[1-6]|blockquote)>/gi, '\n')
+    .replace(/<li[^>]*>/gi, '- ')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/gi, ' ')
+    .replace(/&lt;/gi, '<')
+    .replace(/&gt;/gi, '>')
+    .replace(/&quot;/gi, '"')
+    .replace(/&#39;/gi, "'")
+    .replace(/&amp;/gi, '&')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * 去掉回复邮件中引用的历史内容（"> " 引用行和 "On ... wrote:" / "在 ... 写道：" 之后的部分）
+ * 上下文已经在会话历史里，不需要每次重复发给模型
+ */
+export function stripQuotedReply(text: string): string {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  const kept: string[] = [];
+  for (const line of lines) {
+    const trimmed = line.trim();
+    if (/^On .+wrote:$/i.test(trimmed) || /^在.+写道[：:]$/.test(trimmed) || /^-{2,}\s*(Original Message|原始邮件)\s*-{2,}$/i.test(trimmed)) {
+      break;
+    }
+    if (trimmed.startsWith('>')) continue;
+    kept.push(line);
+  }
+  const result = kept.join('\n').trim();
+  // 整封都是引用时保留原文
+  return result || text.trim();
+}
+
+/**
+ * 是否为自动生成的邮件（自动回复、退信、邮件列表），这类邮件不回复以免形成循环
+ */
+export function isAutoGenerated(headers: { get(name: string): unknown }): boolean {
+  // mailparser 会把部分头解析成 { value, params }
+  const text = (name: string): string => {
+    const value = headers.get(name);
+    const raw = value && typeof value === 'object' && 'value' in value ? (value as { value: unknown }).value : value;
+    return String(raw ?? '').trim().toLowerCase();
+  };
+  const autoSubmitted = text('auto-submitted');
+  if (autoSubmitted && autoSubmitted !== 'no') return true;
+  if (text('x-autoreply') || text('x-autorespond')) return true;
+  const precedence = text('precedence');
+  if (['bulk', 'junk', 'list', 'auto_reply'].includes(precedence)) return true;
+  return !!headers.get('list-id');
+}
+
+/** 签名域与发件域对齐（相同，或发件域是签名域的子域） */
+function domainAligned(signingDomain: string, fromDomain: string): boolean {
+  const domain = signingDomain.replace(/^.*@/, '').toLowerCase();
+  return !!domain && (fromDomain === domain || fromDomain.endsWith(`.${domain}`));
+}
+
+/**
+ * 发件人是否通过认证：可信的 Authentication-Results 头中 DMARC 通过，或 DKIM 通过且签名域与 From 域名对齐
+ * 未通过认证的 From 可以随意伪造，不能用于发件人名单检查
+ *
+ * @param authservId - 收信服务器的 authserv-id（如 mx.example.com）；为空时只信任最上面一条（收信服务器最后添加）
+ */
+export function isSenderAuthenticated(headers: { get(name: string): unknown }, fromAddress: string, authservId = ''): boolean {
+  const fromDomain = fromAddress.split('@').pop()?.toLowerCase() ?? '';
+  if (!fromDomain) return false;
+
+  const value = headers.get('authentication-results');
+  const results = (Array.isArray(value) ? value : value ? [value] : []).map(v => String(v));
+  const trusted = authservId
+    ? results.filter(r => r.trim().split(/[\s;]/)[0].toLowerCase() === authservId.toLowerCase())
+    : results.slice(0, 1);
+
+  for (const result of trusted) {
+    // 去掉注释（括号中可能含有分号），第一段是 authserv-id
+    const [, ...methods] = result.replace(/\([^)]*\)/g, '').split(';');
+    for (const method of methods) {
+      const match = method.trim().match(/^(dmarc|dkim)\s*=\s*pass\b/i);
+      if (!match) continue;
+      const props = Object.fromEntries([...method.matchAll(/\b(header\.(?:from|d|i))\s*=\s*"?([^\s;"]+)/gi)].map(m => [m[1].toLowerCase(), m[2]]));
+      if (match[1].toLowerCase() === 'dmarc') {
+        if (!props['header.from'] || domainAligned(props['header.from'], fromDomain)) return true;
+      } else {
+        const signer = props['header.d'] ?? props['header.i'];
+        if (signer && domainAligned(signer, fromDomain)) return true;
+      }
+    }
+  }
+  return false;
+}
@@ -10,6 +10,7 @@
  * - "正在思考..." 提示
  * - 群聊智能响应
  * - 消息更新/删除
+ * - 工具调用审批（卡片按钮）
  */
 
 import * as lark from '@larksuiteoapi/node-sdk';
@@ -20,6 +21,7 @@ import { pipeline } from 'node:stream/promises';
 import { Readable } from 'node:stream';
 import pino from 'pino';
 import { 
+  ApprovalPrompt,
   ChannelPlugin, 
   PluginConfig, 
   MessageHandler, 
@@ -38,6 +40,9 @@ const logger = pino({
 
 const MAX_IMAGE_MB = Number(process.env.FEISHU_MAX_IMAGE_MB ?? 12);
 const MAX_FILE_MB = Number(process.env.FEISHU_MAX_FILE_MB ?? 40);
+// 流式回复单条消息长度（文本消息请求体上限 150KB）和编辑次数（单条消息最多编辑 20 次）
+const STREAM_MAX_CHARS = 10000;
+const STREAM_MAX_EDITS = 20;
 const THINKING_THRESHOLD_MS = Number(process.env.FEISHU_THINKING_THRESHOLD_MS ?? 2500);
 const DEBUG = process.env.FEISHU_DEBUG === '1';
 
@@ -223,11 +228,14 @@ interface FeishuPluginConfig extends PluginConfig {
 class FeishuChannelPlugin implements ChannelPlugin {
   name = 'feishu';
   version = '2.0.0';
+  streaming = { editIntervalMs: 1000, maxLength: STREAM_MAX_CHARS, maxEdits: STREAM_MAX_EDITS };
 
   private client: lark.Client | null = null;
   private wsClient: lark.WSClient | null = null;
   private messageHandler: MessageHandler | null = null;
   private seenMessages: Map<string, number> = new Map();
+  /** 会话类型缓存（消息事件中记录，卡片回调中使用） */
+  private chatTypes: Map<string, 'p2p' | 'group'> = new Map();
   private readonly SEEN_TTL_MS = 10 * 60 * 1000;
   private running = false;
   private config: FeishuPluginConfig | null = null;
@@ -289,6 +297,15 @@ class FeishuChannelPlugin implements ChannelPlugin {
           logger.error({ err, plugin: this.name }, '处理消息事件时出错');
         }
       },
+      // 卡片按钮回调（工具调用审批）
+      'card.action.trigger': async (data: any) => {
+        try {
+          return await this.handleCardAction(data);
+        } catch (err) {
+          logger.error({ err, plugin: this.name }, '处理卡片回调时出错');
+          return { toast: { type: 'error', content: '操作失败' } };
+        }
+      },
     });
 
     this.wsClient.start({ eventDispatcher });
@@ -367,8 +384,8 @@ class FeishuChannelPlugin implements ChannelPlugin {
   async updateMessage(messageId: string, content: string): Promise<void> {
     if (!this.client) throw new Error('飞书插件未初始化');
 
-    // 飞书只支持更新卡片消息，普通文本消息会失败
-    // 抛出错误让主程序执行降级逻辑（删除并重发）
+    // 卡片消息用 patch 更新；普通文本消息用编辑接口（单条消息最多编辑 20 次）
+    // 都失败时抛出错误让主程序执行降级逻辑（删除并重发）
     try {
       await this.client.im.message.patch({
         path: { message_id: messageId },
@@ -377,10 +394,23 @@ class FeishuChannelPlugin implements ChannelPlugin {
         },
       });
       logger.debug({ messageId, plugin: this.name }, '消息已更新');
+      return;
+    } catch {
+      // 不是卡片消息，尝试编辑文本
+    }
+
+    try {
+      await this.client.im.message.update({
+        path: { message_id: messageId },
+        data: {
+          msg_type: 'text',
+          content: JSON.stringify({ text: content }),
+        },
+      });
+      logger.debug({ messageId, plugin: this.name }, '文本消息已编辑');
     } catch (err: any) {
-      // 普通文本消息无法更新，抛出错误触发降级
-      logger.debug({ messageId, plugin: this.name }, '消息更新失败，将触发降级发送');
-      throw new Error('飞书不支持更新普通文本消息');
+      logger.debug({ messageId, err: err?.message, plugin: this.name }, '消息更新失败，将触发降级发送');
+      throw new Error('飞书消息更新失败');
     }
   }
 
@@ -929,6 +959,125 @@ class FeishuChannelPlugin implements ChannelPlugin {
     };
   }
 
+  // ─── 工具调用审批 ───────────────────────────────────────────────
+
+  async sendApprovalRequest(chatId: string, prompt: ApprovalPrompt): Promise<SendMessageResult> {
+    if (!this.client) {
+      return { success: false, error: '飞书插件未初始化' };
+    }
+
+    const card = {
+      config: { wide_screen_mode: true },
+      header: {
+        template: 'orange',
+        title: { tag: 'plain_text', content: '🔐 工具调用需要确认' },
+      },
+      elements: [
+        {
+          tag: 'div',
+          text: {
+            tag: 'lark_md',
+            content: `**工具**: ${prompt.toolName}\n**参数**: ${prompt.paramsPreview}`,
+          },
+        },
+        {
+          tag: 'action',
+          actions: [
+            {
+              tag: 'button',
+              text: { tag: 'plain_text', content: '✅ 允许' },
+              type: 'primary',
+              value: { action: 'approve', id: prompt.id },
+            },
+            {
+              tag: 'button',
+              text: { tag: 'plain_text', content: '🚫 拒绝' },
+              type: 'danger',
+              value: { action: 'deny', id: prompt.id },
+            },
+          ],
+        },
+      ],
+    };
+
+    try {
+      const res = await this.client.im.message.create({
+        params: { receive_id_type: 'chat_id' },
+        data: {
+          receive_id: chatId,
+          msg_type: 'interactive',
+          content: JSON.stringify(card),
+        },
+      });
+      const messageId = getResponseStringField(res, 'message_id');
+      logger.info({ chatId, approvalId: prompt.id, plugin: this.name }, '审批卡片发送成功');
+      return { success: true, messageId };
+    } catch (err: any) {
+      logger.error({ chatId, err, plugin: this.name }, '发送审批卡片失败');
+      return { success: false, error: err?.message || String(err) };
+    }
+  }
+
+  /**
+   * 处理卡片按钮回调：转换为 /approve <id> 或 /deny <id> 命令消息
+   */
+  private async handleCardAction(data: any): Promise<unknown> {
+    const value = data?.action?.value || {};
+    const action = value.action;
+    const approvalId = value.id;
+    const chatId = data?.context?.open_chat_id;
+    const operatorId = data?.operator?.open_id;
+
+    if ((action !== 'approve' && action !== 'deny') || typeof approvalId !== 'string' || !chatId) {
+      return undefined;
+    }
+
+    if (!this.messageHandler) {
+      logger.warn({ plugin: this.name }, '消息处理器未设置，审批回调被丢弃');
+      return { toast: { type: 'error', content: '服务未就绪' } };
+    }
+
+    await this.messageHandler({
+      id: `card-${data?.event_id || `${approvalId}-${Date.now()}`}`,
+      chatId,
+      senderId: operatorId || 'unknown',
+      senderName: operatorId || '用户',
+      content: `/${action} ${approvalId}`,
+      timestamp: new Date().toISOString(),
+      chatType: await this.resolveChatType(chatId),
+      platform: 'feishu',
+      // 按钮点击视为对机器人的明确操作
+      mentions: [this.name],
+      raw: data,
+    });
+
+    return {
+      toast: {
+        type: action === 'approve' ? 'success' : 'info',
+        content: action === 'approve' ? '已允许' : '已拒绝',
+      },
+    };
+  }
+
+  /**
+   * 获取会话类型：卡片回调不带 chat_type，优先使用消息事件中记录的类型，否则查询会话信息
+   */
+  private async resolveChatType(chatId: string): Promise<'p2p' | 'group'> {
+    const cached = this.chatTypes.get(chatId);
+    if (cached) return cached;
+    if (!this.client) return 'group';
+
+    try {
+      const res = await this.client.im.chat.get({ path: { chat_id: chatId } });
+      const chatType = res?.data?.chat_mode === 'p2p' ? 'p2p' : 'group';
+      this.chatTypes.set(chatId, chatType);
+      return chatType;
+    } catch (err) {
+      logger.debug({ chatId, err, plugin: this.name }, '查询会话类型失败，按群聊处理');
+      return 'group';
+    }
+  }
+
   // ─── 消息事件处理 ───────────────────────────────────────────────
 
   private async handleMessageEvent(data: any): Promise<void> {
@@ -948,6 +1097,8 @@ class FeishuChannelPlugin implements ChannelPlugin {
       return;
     }
 
+    this.chatTypes.set(chatId, chatType === 'p2p' ? 'p2p' : 'group');
+
     // 构建消息对象
     const msg = await this.buildMessage(message, sender);
     if (!msg) {
@@ -7,6 +7,7 @@ import { ToolPlugin, ToolContext, ToolResult } from '../../src/plugins/types.js'
 import { getTasksForGroup, getAllTasks, getTaskRunLogs } from '../../src/db.js';
 import { TIMEZONE, MAIN_GROUP_FOLDER } from '../../src/config.js';
 import { ScheduledTask } from '../../src/types.js';
+import { parseWatchConfig, describeWatch } from '../../src/task-watch.js';
 
 /**
  * 列出任务参数
@@ -45,6 +46,32 @@ function formatTask(task: ScheduledTask, includeRunLogs: boolean = false): Recor
     formatted.lastResult = task.last_result;
   }
   
+  // 监控任务：监控内容和最近一次触发时间
+  if (task.kind === 'watch' && task.watch_config) {
+    try {
+      const { config } = parseWatchConfig(JSON.parse(task.watch_config));
+      if (config) formatted.watching = describeWatch(config);
+    } catch {
+      // 配置损坏时不显示监控内容
+    }
+    if (task.watch_triggered_at) {
+      formatted.lastTriggered = formatDateTime(task.watch_triggered_at);
+    }
+  }
+  
+  // 任务级覆盖
+  if (task.agent_id) formatted.agent = task.agent_id;
+  if (task.model) formatted.model = task.model;
+  if (task.allowed_tools) formatted.tools = task.allowed_tools;
+  if (task.prompt_mode) formatted.promptMode = task.prompt_mode;
+  
+  if (task.failure_streak) {
+    formatted.failureStreak = task.failure_streak;
+    if (task.failing_since) {
+      formatted.failingSince = formatDateTime(task.failing_since);
+    }
+  }
+  
   // 获取最近运行记录
   if (includeRunLogs) {
     const logs = getTaskRunLogs(task.id, 3);
@@ -54,7 +81,7 @@ function formatTask(task: ScheduledTask, includeRunLogs: boolean = false): Recor
         status: log.status,
         durationMs: log.duration_ms,
         result: log.result ? (log.result.length > 50 ? log.result.slice(0, 50) + '...' : log.result) : null,
-        error: log.error
+        error: log.error ? (log.error.length > 200 ? log.error.slice(0, 200) + '...' : log.error) : null
       }));
     }
   }
@@ -119,6 +146,9 @@ const plugin: ToolPlugin = {
       tasks = getTasksForGroup(context.groupId);
     }
     
+    // 系统任务（记忆整理）由配置管理，不在列表中展示
+    tasks = tasks.filter(task => task.kind !== 'memory-consolidation');
+    
     // 按状态过滤
     if (status !== 'all') {
       tasks = tasks.filter(task => task.status === status);
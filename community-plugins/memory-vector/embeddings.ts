@@ -0,0 +1,200 @@
+/**
+ * Embedding 后端
+ *
+ * - ollama：本地 Ollama（/api/embed）
+ * - openai：OpenAI 兼容接口（/v1/embeddings，也适用于各类兼容服务）
+ * - local：纯 JS 特征哈希，无需任何服务，效果弱于真实模型，作为兜底
+ */
+
+import { createHash } from 'node:crypto';
+
+// ==================== 类型定义 ====================
+
+export interface EmbeddingProvider {
+  /** 唯一标识（后端 + 模型），不同标识的向量分开存储 */
+  readonly id: string;
+  /** 批量生成向量 */
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export type EmbeddingBackend = 'ollama' | 'openai' | 'local';
+
+export interface EmbeddingConfig {
+  provider?: EmbeddingBackend;
+  model?: string;
+  baseUrl?: string;
+  apiKey?: string;
+}
+
+// ==================== 分词 ====================
+
+const CJK_RUN_OR_WORD_REGEX = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]+|[\p{L}\p{N}]+/gu;
+const CJK_START_REGEX = /^[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+
+/**
+ * 简单分词：英文按单词（小写），CJK 文本拆成单字 + 相邻二元组
+ */
+export function tokenize(text: string, options: { cjkUnigrams?: boolean } = {}): string[] {
+  const { cjkUnigrams = true } = options;
+  const tokens: string[] = [];
+  for (const match of text.matchAll(CJK_RUN_OR_WORD_REGEX)) {
+    const token = match[0];
+    if (!CJK_START_REGEX.test(token)) {
+      tokens.push(token.toLowerCase());
+      continue;
+    }
+    const chars = Array.from(token);
+    if (cjkUnigrams || chars.length === 1) {
+      tokens.push(...chars);
+    }
+    for (let i = 0; i < chars.length - 1; i++) {
+      tokens.push(chars[i] + chars[i + 1]);
+    }
+  }
+  return tokens;
+}
+
+/**
+ * 余弦相似度
+ */
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  if (a.length !== b.length) return 0;
+  let dotProduct = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dotProduct += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  const denom = Math.sqrt(normA) * Math.sqrt(normB);
+  return denom === 0 ? 0 : dotProduct / denom;
+}
+
+// ==================== 后端实现 ====================
+
+/**
+ * Ollama embedding（/api/embed 支持批量输入）
+ */
+export class OllamaEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+
+  constructor(private baseUrl: string, private model: string) {
+    this.id = `ollama:${model}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+
+    const response = await fetch(`${this.baseUrl.replace(/\/+$/, '')}/api/embed`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model: this.model, input: texts }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Ollama embedding failed: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json() as { embeddings?: number[][] };
+    if (!data.embeddings || data.embeddings.length !== texts.length) {
+      throw new Error('Empty embedding response from Ollama');
+    }
+    return data.embeddings;
+  }
+}
+
+/**
+ * OpenAI 兼容 embedding（/embeddings）
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+
+  constructor(private baseUrl: string, private apiKey: string, private model: string) {
+    this.id = `openai:${model}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(`${this.baseUrl.replace(/\/+$/, '')}/embeddings`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ model: this.model, input: texts }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Embedding API failed: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json() as { data?: Array<{ index: number; embedding: number[] }> };
+    if (!data.data || data.data.length !== texts.length) {
+      throw new Error('Empty embedding response from embedding API');
+    }
+    return [...data.data].sort((a, b) => a.index - b.index).map(d => d.embedding);
+  }
+}
+
+/**
+ * 本地特征哈希 embedding
+ * 词频取对数后按哈希分桶（带符号，减少碰撞影响），再做 L2 归一化。
+ * 只能捕捉字词重合，不理解同义词，但无需任何服务即可使用。
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+
+  constructor(private dimensions: number = 512) {
+    this.id = `local:hash-${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text));
+  }
+
+  embedOne(text: string): number[] {
+    const counts = new Map<string, number>();
+    for (const token of tokenize(text)) {
+      counts.set(token, (counts.get(token) ?? 0) + 1);
+    }
+
+    const vector = new Array<number>(this.dimensions).fill(0);
+    for (const [token, count] of counts) {
+      const digest = createHash('md5').update(token).digest();
+      const bucket = digest.readUInt32LE(0) % this.dimensions;
+      const sign = digest[4] & 1 ? 1 : -1;
+      // 二元组比单字更有区分度
+      const weight = (1 + Math.log(count)) * (Array.from(token).length > 1 ? 1.5 : 1);
+      vector[bucket] += sign * weight;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm === 0 ? vector : vector.map(v => v / norm);
+  }
+}
+
+/**
+ * 按配置创建 embedding 后端
+ */
+export function createEmbeddingProvider(config: EmbeddingConfig = {}): EmbeddingProvider {
+  switch (config.provider ?? 'ollama') {
+    case 'local':
+      return new LocalEmbeddingProvider();
+    case 'openai':
+      return new OpenAIEmbeddingProvider(
+        config.baseUrl || process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+        config.apiKey || process.env.OPENAI_API_KEY || '',
+        config.model || 'text-embedding-3-small'
+      );
+    case 'ollama':
+    default:
+      return new OllamaEmbeddingProvider(
+        config.baseUrl || process.env.OLLAMA_BASE_URL || process.env.OPENAI_BASE_URL?.replace('/v1', '') || 'http://localhost:11434',
+        config.model || 'nomic-embed-text'
+      );
+  }
+}
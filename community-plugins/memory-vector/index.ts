@@ -1,165 +1,183 @@
 /**
  * FlashClaw 插件 - 语义记忆搜索
- * 基于 Ollama embedding 的模糊召回，支持语义相似度匹配
- * 
+ * 基于 embedding 的模糊召回，支持语义相似度匹配
+ *
  * 工作原理：
- * 1. 读取所有长期记忆文件（KV 记忆 + 每日日志）
- * 2. 调用 Ollama embedding API 生成向量
- * 3. 计算余弦相似度，返回最相关的记忆片段
+ * 1. 收集长期记忆（MemoryManager）和近 7 天每日日志，切分为片段
+ * 2. 用可插拔的 embedding 后端（Ollama / OpenAI 兼容接口 / 本地哈希）生成向量，
+ *    持久化到 data/memory/vectors.db，只为新增或变化的片段重新生成
+ * 3. 记忆或日志变更时后台增量更新索引
+ * 4. 检索时混合向量相似度与关键词命中率排序；embedding 服务不可用时回退到本地哈希
  */
 
-import type { ToolPlugin, ToolContext, ToolResult } from '../../src/plugins/types';
+import type { ToolPlugin, ToolContext, ToolResult, PluginConfig } from '../../src/plugins/types';
 import * as fs from 'node:fs';
 import * as path from 'node:path';
+import { getMemoryManager, type MemoryManager } from '../../src/core/memory.js';
+import { createLogger } from '../../src/logger.js';
+import {
+  createEmbeddingProvider,
+  LocalEmbeddingProvider,
+  tokenize,
+  type EmbeddingBackend,
+  type EmbeddingConfig,
+  type EmbeddingProvider,
+} from './embeddings.js';
+import { VectorIndex, type IndexedSnippet } from './vector-index.js';
+
+const logger = createLogger('MemoryVector');
 
 // ==================== 配置 ====================
 
-const OLLAMA_BASE_URL = process.env.OLLAMA_BASE_URL || process.env.OPENAI_BASE_URL?.replace('/v1', '') || 'http://localhost:11434';
-const EMBED_MODEL = process.env.MEMORY_EMBED_MODEL || 'nomic-embed-text';
 const MAX_RESULTS = 5;
-const MIN_SCORE = 0.3;
-
-// ==================== Embedding 缓存 ====================
-
-interface EmbeddingEntry {
-  text: string;
-  source: string; // 来源文件
-  vector: number[];
-}
-
-// 内存缓存（避免重复调用 embedding API）
-const embeddingCache = new Map<string, number[]>();
-
-// ==================== 工具函数 ====================
+const MIN_SCORE = 0.2;
+const DAILY_LOG_DAYS = 7;
+/** 混合排序权重：向量相似度 / 关键词命中率 */
+const VECTOR_WEIGHT = 0.7;
+const KEYWORD_WEIGHT = 0.3;
+/** 记忆变更后延迟同步索引（合并短时间内的多次写入） */
+const SYNC_DELAY_MS = 1000;
+
+let embeddingConfig: EmbeddingConfig = {};
+let primaryProvider: EmbeddingProvider | null = null;
+const localProvider = new LocalEmbeddingProvider();
+
+let vectorIndex: VectorIndex | null = null;
+/** 已与当前记忆同步的后端 */
+const syncedProviders = new Set<string>();
+/** 进行中的同步（避免后台同步与搜索重复生成向量） */
+const pendingSyncs = new Map<string, Promise<VectorIndex>>();
+/** 记忆变更计数（同步期间发生变更时，不把该次同步视为最新） */
+let changeGeneration = 0;
+let syncTimer: NodeJS.Timeout | null = null;
+let subscribedManager: MemoryManager | null = null;
+let unsubscribe: (() => void) | null = null;
+
+// ==================== 片段收集 ====================
 
 /**
- * 调用 Ollama embedding API
+ * 收集所有待索引的记忆片段
  */
-async function getEmbedding(text: string): Promise<number[]> {
-  // 检查缓存
-  const cached = embeddingCache.get(text);
-  if (cached) return cached;
-
-  const response = await fetch(`${OLLAMA_BASE_URL}/api/embed`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ model: EMBED_MODEL, input: text }),
-  });
-
-  if (!response.ok) {
-    throw new Error(`Ollama embedding failed: ${response.status} ${response.statusText}`);
+function collectSnippets(mm: MemoryManager): IndexedSnippet[] {
+  const snippets: IndexedSnippet[] = [];
+
+  // 长期记忆（全局 + 用户）
+  for (const record of mm.listMemories()) {
+    snippets.push({
+      id: `memory:${record.scope}:${record.owner}:${record.key}`,
+      text: `${record.key}: ${record.value}`,
+      source: record.scope === 'user' ? `users/${record.owner}` : 'global',
+    });
   }
 
-  const data = await response.json() as { embeddings?: number[][] };
-  const vector = data.embeddings?.[0];
-  if (!vector || vector.length === 0) {
-    throw new Error('Empty embedding response from Ollama');
+  // 每日日志（每条日志条目独立）
+  const dailyDir = path.join(mm.getMemoryDir(), 'daily');
+  if (fs.existsSync(dailyDir)) {
+    const logFiles = fs.readdirSync(dailyDir)
+      .filter(f => f.endsWith('.md'))
+      .sort()
+      .slice(-DAILY_LOG_DAYS);
+    for (const file of logFiles) {
+      try {
+        const content = fs.readFileSync(path.join(dailyDir, file), 'utf-8');
+        const lines = content.split('\n').filter(l => l.startsWith('- ['));
+        lines.forEach((line, i) => {
+          snippets.push({
+            id: `daily:${file}:${i}`,
+            text: line.replace(/^- \[\d{2}:\d{2}:\d{2}\]\s*/, ''),
+            source: `daily/${file}`,
+          });
+        });
+      } catch {
+        // 跳过无法读取的文件
+      }
+    }
   }
 
-  // 缓存
-  embeddingCache.set(text, vector);
+  return snippets;
+}
 
-  // 限制缓存大小
-  if (embeddingCache.size > 500) {
-    const firstKey = embeddingCache.keys().next().value;
-    if (firstKey !== undefined) embeddingCache.delete(firstKey);
-  }
+// ==================== 索引维护 ====================
 
-  return vector;
+function getPrimaryProvider(): EmbeddingProvider {
+  if (!primaryProvider) {
+    primaryProvider = createEmbeddingProvider(embeddingConfig);
+  }
+  return primaryProvider;
 }
 
 /**
- * 余弦相似度
+ * 获取向量索引（与 MemoryManager 的记忆目录绑定）
  */
-function cosineSimilarity(a: number[], b: number[]): number {
-  if (a.length !== b.length) return 0;
-  let dotProduct = 0;
-  let normA = 0;
-  let normB = 0;
-  for (let i = 0; i < a.length; i++) {
-    dotProduct += a[i] * b[i];
-    normA += a[i] * a[i];
-    normB += b[i] * b[i];
+function getIndex(mm: MemoryManager): VectorIndex {
+  const dbPath = path.join(mm.getMemoryDir(), 'vectors.db');
+  if (!vectorIndex || vectorIndex.dbPath !== dbPath) {
+    vectorIndex?.close();
+    vectorIndex = new VectorIndex(dbPath);
+    syncedProviders.clear();
   }
-  const denom = Math.sqrt(normA) * Math.sqrt(normB);
-  return denom === 0 ? 0 : dotProduct / denom;
+  return vectorIndex;
 }
 
 /**
- * 从记忆目录加载所有片段
+ * 确保索引已与当前记忆同步（增量）
  */
-function loadMemorySnippets(memoryDir: string): Array<{ text: string; source: string }> {
-  const snippets: Array<{ text: string; source: string }> = [];
-
-  if (!fs.existsSync(memoryDir)) return snippets;
-
-  // 加载 KV 记忆文件（*.md，排除 daily 子目录）
-  const files = fs.readdirSync(memoryDir).filter(f => f.endsWith('.md'));
-  for (const file of files) {
-    const filePath = path.join(memoryDir, file);
-    try {
-      const content = fs.readFileSync(filePath, 'utf-8');
-      // 按 ### 标题分块
-      const blocks = content.split(/^### /m).filter(b => b.trim());
-      for (const block of blocks) {
-        const lines = block.split('\n');
-        const key = lines[0]?.trim();
-        const value = lines.slice(1).filter(l => !l.startsWith('<!--')).join('\n').trim();
-        if (key && value) {
-          snippets.push({ text: `${key}: ${value}`, source: file });
-        }
-      }
-    } catch {
-      // 跳过无法读取的文件
-    }
+async function ensureIndexed(mm: MemoryManager, provider: EmbeddingProvider): Promise<VectorIndex> {
+  const index = getIndex(mm);
+  if (syncedProviders.has(provider.id)) {
+    return index;
   }
 
-  // 加载用户记忆
-  const usersDir = path.join(memoryDir, 'users');
-  if (fs.existsSync(usersDir)) {
-    const userFiles = fs.readdirSync(usersDir).filter(f => f.endsWith('.md'));
-    for (const file of userFiles) {
-      const filePath = path.join(usersDir, file);
-      try {
-        const content = fs.readFileSync(filePath, 'utf-8');
-        const blocks = content.split(/^### /m).filter(b => b.trim());
-        for (const block of blocks) {
-          const lines = block.split('\n');
-          const key = lines[0]?.trim();
-          const value = lines.slice(1).filter(l => !l.startsWith('<!--')).join('\n').trim();
-          if (key && value) {
-            snippets.push({ text: `${key}: ${value}`, source: `users/${file}` });
-          }
-        }
-      } catch {
-        // 跳过
-      }
-    }
+  const pending = pendingSyncs.get(provider.id);
+  if (pending) {
+    return pending;
   }
 
-  // 加载每日日志
-  const dailyDir = path.join(memoryDir, 'daily');
-  if (fs.existsSync(dailyDir)) {
-    const logFiles = fs.readdirSync(dailyDir)
-      .filter(f => f.endsWith('.md'))
-      .sort()
-      .slice(-7); // 只加载最近 7 天
-    for (const file of logFiles) {
-      const filePath = path.join(dailyDir, file);
-      try {
-        const content = fs.readFileSync(filePath, 'utf-8');
-        // 按行分块（每条日志条目独立）
-        const lines = content.split('\n').filter(l => l.startsWith('- ['));
-        for (const line of lines) {
-          snippets.push({ text: line.replace(/^- \[\d{2}:\d{2}:\d{2}\]\s*/, ''), source: `daily/${file}` });
-        }
-      } catch {
-        // 跳过
-      }
+  const generation = changeGeneration;
+  const sync = (async () => {
+    const result = await index.sync(collectSnippets(mm), provider);
+    if (generation === changeGeneration) {
+      syncedProviders.add(provider.id);
     }
-  }
+    if (result.embedded > 0 || result.removed > 0) {
+      logger.debug({ provider: provider.id, ...result }, '🧠 向量索引已更新');
+    }
+    return index;
+  })().finally(() => pendingSyncs.delete(provider.id));
+  pendingSyncs.set(provider.id, sync);
+  return sync;
+}
 
-  return snippets;
+/**
+ * 记忆变更后标记索引过期，并延迟在后台同步
+ */
+function scheduleSync(mm: MemoryManager): void {
+  changeGeneration++;
+  syncedProviders.clear();
+  if (syncTimer) clearTimeout(syncTimer);
+  syncTimer = setTimeout(() => {
+    syncTimer = null;
+    ensureIndexed(mm, getPrimaryProvider()).catch(error => {
+      logger.debug({ error }, '🧠 后台更新向量索引失败，将在下次搜索时重试');
+    });
+  }, SYNC_DELAY_MS);
+  syncTimer.unref?.();
+}
+
+function subscribe(mm: MemoryManager): void {
+  unsubscribe?.();
+  subscribedManager = mm;
+  unsubscribe = mm.onChange(() => scheduleSync(mm));
+}
+
+/**
+ * 关键词命中率：查询中的词（英文单词、中文二元组）在片段中出现的比例
+ */
+function keywordScore(queryTokens: string[], text: string): number {
+  if (queryTokens.length === 0) return 0;
+  const textTokens = new Set(tokenize(text, { cjkUnigrams: false }));
+  const matched = queryTokens.filter(t => textTokens.has(t)).length;
+  return matched / queryTokens.length;
 }
 
 // ==================== 插件定义 ====================
@@ -171,16 +189,29 @@ interface MemorySearchParams {
 
 const plugin: ToolPlugin = {
   name: 'memory_search',
-  version: '1.0.0',
+  version: '2.0.0',
   description: '语义记忆搜索 - 用自然语言搜索记忆和日志',
 
+  async init(config: PluginConfig): Promise<void> {
+    embeddingConfig = {
+      provider: (config.provider as EmbeddingBackend) || undefined,
+      model: (config.model as string) || undefined,
+      baseUrl: (config.baseUrl as string) || undefined,
+      apiKey: (config.apiKey as string) || undefined,
+    };
+    primaryProvider = null;
+    syncedProviders.clear();
+    subscribe(getMemoryManager());
+    logger.info({ provider: getPrimaryProvider().id }, '🧠 语义记忆搜索已初始化');
+  },
+
   schema: {
     name: 'memory_search',
     description: `语义搜索记忆。用自然语言查询，即使措辞不同也能找到相关记忆。
-搜索范围包括：长期记忆（KV）、用户记忆、近 7 天每日日志。
+搜索范围包括：长期记忆（全局 + 当前用户）、近 7 天每日日志。
 当 recall(key) 精确匹配找不到时，使用此工具做模糊搜索。
 
-需要本地 Ollama 运行并安装 embedding 模型（默认 nomic-embed-text）。`,
+默认使用本地 Ollama 的 embedding 模型（nomic-embed-text），也可配置 OpenAI 兼容接口；服务不可用时自动回退到本地关键词向量。`,
     input_schema: {
       type: 'object',
       properties: {
@@ -205,45 +236,49 @@ const plugin: ToolPlugin = {
     }
 
     try {
-      // 获取记忆目录（默认 data/memory，可通过 MEMORY_DIR 覆盖）
-      const memoryDir = process.env.MEMORY_DIR || 'data/memory';
-
-      // 加载所有记忆片段
-      const snippets = loadMemorySnippets(memoryDir);
-      if (snippets.length === 0) {
-        return {
-          success: true,
-          data: { results: [], message: '没有找到任何记忆数据' }
-        };
+      const mm = getMemoryManager();
+      if (subscribedManager !== mm) {
+        subscribe(mm);
       }
 
-      // 获取查询向量
+      // 用户只能搜到全局记忆、自己的记忆和每日日志
+      const visible = (snippet: IndexedSnippet) =>
+        snippet.source === 'global' ||
+        snippet.source === `users/${context.userId}` ||
+        snippet.source.startsWith('daily/');
+
+      // 生成查询向量（主后端失败时回退到本地哈希）
+      let provider = getPrimaryProvider();
+      let index: VectorIndex;
       let queryVector: number[];
       try {
-        queryVector = await getEmbedding(query);
+        index = await ensureIndexed(mm, provider);
+        [queryVector] = await provider.embed([query]);
       } catch (error) {
+        if (provider.id === localProvider.id) throw error;
+        logger.warn({ provider: provider.id, error: error instanceof Error ? error.message : String(error) }, '🧠 Embedding 服务不可用，回退到本地向量');
+        provider = localProvider;
+        index = await ensureIndexed(mm, provider);
+        [queryVector] = await provider.embed([query]);
+      }
+
+      if (index.count(provider.id) === 0) {
         return {
-          success: false,
-          error: `Embedding 服务不可用（需要 Ollama 运行 ${EMBED_MODEL}）: ${error instanceof Error ? error.message : String(error)}`
+          success: true,
+          data: { results: [], message: '没有找到任何记忆数据' }
         };
       }
 
-      // 批量获取片段向量并计算相似度
-      const scored: Array<{ text: string; source: string; score: number }> = [];
+      // 混合排序：向量相似度 + 关键词命中率
+      const queryTokens = Array.from(new Set(tokenize(query, { cjkUnigrams: false })));
+      const scored = index.search(queryVector, provider.id, Number.MAX_SAFE_INTEGER, visible)
+        .map(hit => ({
+          ...hit,
+          score: VECTOR_WEIGHT * Math.max(0, hit.score) + KEYWORD_WEIGHT * keywordScore(queryTokens, hit.text),
+        }))
+        .filter(hit => hit.score >= MIN_SCORE);
 
-      for (const snippet of snippets) {
-        try {
-          const vector = await getEmbedding(snippet.text);
-          const score = cosineSimilarity(queryVector, vector);
-          if (score >= MIN_SCORE) {
-            scored.push({ text: snippet.text, source: snippet.source, score });
-          }
-        } catch {
-          // 单个片段 embedding 失败，跳过
-        }
-      }
-
-      // 按相似度排序，取 top N
+      // 按相关度排序，取 top N
       scored.sort((a, b) => b.score - a.score);
       const results = scored.slice(0, maxResults);
 
@@ -262,6 +297,7 @@ const plugin: ToolPlugin = {
         success: true,
         data: {
           query,
+          backend: provider.id,
           results: results.map(r => ({
             content: r.text,
             source: r.source,
@@ -276,6 +312,19 @@ const plugin: ToolPlugin = {
         error: `语义搜索失败: ${error instanceof Error ? error.message : String(error)}`
       };
     }
+  },
+
+  async cleanup(): Promise<void> {
+    if (syncTimer) {
+      clearTimeout(syncTimer);
+      syncTimer = null;
+    }
+    unsubscribe?.();
+    unsubscribe = null;
+    subscribedManager = null;
+    vectorIndex?.close();
+    vectorIndex = null;
+    syncedProviders.clear();
   }
 };
 
@@ -0,0 +1,180 @@
+/**
+ * 持久化向量索引（SQLite）
+ *
+ * 每个片段按 (embedding 后端, 片段 ID) 存储一条向量，并记录文本哈希：
+ * 同步时只为新增或内容变化的片段生成向量，删除已不存在的片段。
+ * 检索为全量余弦相似度（个人助手的记忆规模下足够快）。
+ */
+
+import Database from 'better-sqlite3';
+import { createHash } from 'node:crypto';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { cosineSimilarity, type EmbeddingProvider } from './embeddings.js';
+
+/**
+ * 待索引的记忆片段
+ */
+export interface IndexedSnippet {
+  /** 稳定 ID，如 memory:global::user_name、daily:2026-01-01:3 */
+  id: string;
+  text: string;
+  /** 来源（global、users/{userId}、daily/{date}.md） */
+  source: string;
+}
+
+export interface VectorSearchHit extends IndexedSnippet {
+  score: number;
+}
+
+export interface SyncResult {
+  embedded: number;
+  removed: number;
+}
+
+interface CachedVector {
+  text: string;
+  source: string;
+  hash: string;
+  vector: Float32Array;
+}
+
+interface VectorRow {
+  id: string;
+  text: string;
+  source: string;
+  hash: string;
+  vector: Buffer;
+}
+
+const DEFAULT_BATCH_SIZE = 32;
+
+function hashText(text: string): string {
+  return createHash('sha1').update(text).digest('hex');
+}
+
+export class VectorIndex {
+  private db: Database.Database;
+  /** 后端 ID → (片段 ID → 向量) */
+  private cache: Map<string, Map<string, CachedVector>> = new Map();
+
+  constructor(readonly dbPath: string) {
+    fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+    this.db = new Database(dbPath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS vectors (
+        provider TEXT NOT NULL,
+        id TEXT NOT NULL,
+        source TEXT NOT NULL,
+        text TEXT NOT NULL,
+        hash TEXT NOT NULL,
+        dim INTEGER NOT NULL,
+        vector BLOB NOT NULL,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY (provider, id)
+      );
+    `);
+  }
+
+  /**
+   * 增量同步：为新增 / 变化的片段生成向量，删除不再存在的片段
+   */
+  async sync(snippets: IndexedSnippet[], provider: EmbeddingProvider, batchSize = DEFAULT_BATCH_SIZE): Promise<SyncResult> {
+    const entries = this.load(provider.id);
+    const wanted = new Map(snippets.map(s => [s.id, s]));
+
+    const stale = [...entries.keys()].filter(id => !wanted.has(id));
+    this.remove(provider.id, stale);
+
+    const changed = [...wanted.values()].filter(s => entries.get(s.id)?.hash !== hashText(s.text));
+    for (let i = 0; i < changed.length; i += batchSize) {
+      const batch = changed.slice(i, i + batchSize);
+      const vectors = await provider.embed(batch.map(s => s.text));
+      this.store(provider.id, batch, vectors);
+    }
+
+    return { embedded: changed.length, removed: stale.length };
+  }
+
+  /**
+   * 余弦相似度检索
+   * @param filter - 可选，过滤片段（如只保留当前用户可见的记忆）
+   */
+  search(
+    queryVector: number[],
+    providerId: string,
+    limit = 10,
+    filter?: (snippet: IndexedSnippet) => boolean
+  ): VectorSearchHit[] {
+    const hits: VectorSearchHit[] = [];
+    for (const [id, entry] of this.load(providerId)) {
+      const snippet = { id, text: entry.text, source: entry.source };
+      if (filter && !filter(snippet)) continue;
+      hits.push({ ...snippet, score: cosineSimilarity(queryVector, entry.vector) });
+    }
+    hits.sort((a, b) => b.score - a.score);
+    return hits.slice(0, limit);
+  }
+
+  /**
+   * 已索引的片段数
+   */
+  count(providerId: string): number {
+    return this.load(providerId).size;
+  }
+
+  close(): void {
+    this.db.close();
+    this.cache.clear();
+  }
+
+  private load(providerId: string): Map<string, CachedVector> {
+    let entries = this.cache.get(providerId);
+    if (entries) return entries;
+
+    entries = new Map();
+    const rows = this.db.prepare(`SELECT id, text, source, hash, vector FROM vectors WHERE provider = ?`).all(providerId) as VectorRow[];
+    for (const row of rows) {
+      const vector = new Float32Array(row.vector.buffer, row.vector.byteOffset, row.vector.byteLength / Float32Array.BYTES_PER_ELEMENT);
+      entries.set(row.id, { text: row.text, source: row.source, hash: row.hash, vector: Float32Array.from(vector) });
+    }
+    this.cache.set(providerId, entries);
+    return entries;
+  }
+
+  private store(providerId: string, snippets: IndexedSnippet[], vectors: number[][]): void {
+    const entries = this.load(providerId);
+    const now = new Date().toISOString();
+    const insert = this.db.prepare(`
+      INSERT INTO vectors (provider, id, source, text, hash, dim, vector, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(provider, id) DO UPDATE SET
+        source = excluded.source, text = excluded.text, hash = excluded.hash,
+        dim = excluded.dim, vector = excluded.vector, updated_at = excluded.updated_at
+    `);
+
+    const write = this.db.transaction(() => {
+      snippets.forEach((snippet, i) => {
+        const vector = Float32Array.from(vectors[i] ?? []);
+        const hash = hashText(snippet.text);
+        insert.run(providerId, snippet.id, snippet.source, snippet.text, hash, vector.length, Buffer.from(vector.buffer), now);
+        entries.set(snippet.id, { text: snippet.text, source: snippet.source, hash, vector });
+      });
+    });
+    write();
+  }
+
+  private remove(providerId: string, ids: string[]): void {
+    if (ids.length === 0) return;
+    const entries = this.load(providerId);
+    const del = this.db.prepare(`DELETE FROM vectors WHERE provider = ? AND id = ?`);
+    const write = this.db.transaction(() => {
+      for (const id of ids) {
+        del.run(providerId, id);
+        entries.delete(id);
+      }
+    });
+    write();
+  }
+}
@@ -11,6 +11,7 @@ import type {
   StreamEvent,
   ToolExecutor,
   HeartbeatCallback,
+  StreamEventCallback,
   PluginConfig,
 } from '../../src/plugins/types';
 
@@ -255,7 +256,7 @@ const openaiProvider: AIProviderPlugin = {
     const tools = convertTools(options?.tools);
 
     const params: OpenAI.Chat.ChatCompletionCreateParams & { extra_body?: Record<string, unknown> } = {
-      model,
+      model: options?.model ?? model,
       messages: chatMessages,
       max_tokens: options?.maxTokens || 4096,
       temperature: options?.temperature,
@@ -293,7 +294,7 @@ const openaiProvider: AIProviderPlugin = {
       extra_body?: Record<string, unknown>;
       stream_options?: { include_usage?: boolean };
     } = {
-      model,
+      model: options?.model ?? model,
       messages: chatMessages,
       max_tokens: options?.maxTokens || 4096,
       temperature: options?.temperature,
@@ -507,7 +508,8 @@ const openaiProvider: AIProviderPlugin = {
     messages: ChatMessage[],
     executeTool: ToolExecutor,
     options?: ChatOptions,
-    heartbeat?: HeartbeatCallback
+    heartbeat?: HeartbeatCallback,
+    onEvent?: StreamEventCallback
   ): Promise<string> {
     const openaiResponse = response as OpenAI.Chat.ChatCompletion;
     const message = openaiResponse.choices[0]?.message;
@@ -568,6 +570,7 @@ const openaiProvider: AIProviderPlugin = {
 
     for await (const event of this.chatStream(messages, options)) {
       heartbeat?.();
+      onEvent?.(event);
       if (event.type === 'text') {
         nextContent += event.text;
       } else if (event.type === 'done') {
@@ -579,7 +582,7 @@ const openaiProvider: AIProviderPlugin = {
 
     // 检查是否有新的工具调用
     if (nextToolCalls.length > 0) {
-      return this.handleToolUse(nextMessage, messages, executeTool, options, heartbeat);
+      return this.handleToolUse(nextMessage, messages, executeTool, options, heartbeat, onEvent);
     }
 
     return nextContent || '';
@@ -49,6 +49,13 @@ const plugin: ToolPlugin = {
       };
     }
     
+    if (task.kind === 'memory-consolidation') {
+      return {
+        success: false,
+        error: '系统任务不能手动修改，请通过 MEMORY_CONSOLIDATION_CRON 调整'
+      };
+    }
+    
     // 权限检查
     const isMainGroup = context.groupId === MAIN_GROUP_FOLDER;
     const isOwnTask = task.group_folder === context.groupId;
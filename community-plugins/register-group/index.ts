@@ -20,6 +20,10 @@ interface RegisterGroupParams {
   folder: string;
   /** 触发词（如 "@Andy"） */
   trigger: string;
+  /** 免打扰时段（如 "22:00-08:00"） */
+  quietHours?: string;
+  /** 允许的发送者（ID 或邮箱，支持 * 通配） */
+  allowedSenders?: string[];
 }
 
 const plugin: ToolPlugin = {
@@ -49,6 +53,15 @@ const plugin: ToolPlugin = {
         trigger: {
           type: 'string',
           description: '触发词（如 "@Andy"）'
+        },
+        quietHours: {
+          type: 'string',
+          description: '可选，免打扰时段（如 "22:00-08:00"），期间该群组的非紧急定时任务顺延到时段结束'
+        },
+        allowedSenders: {
+          type: 'array',
+          items: { type: 'string' },
+          description: '可选，只响应这些发送者（发送者 ID 或邮箱，支持 * 通配，如 "*@example.com"；加 "email:" 等平台前缀只对该渠道生效），其他人的消息会被忽略'
         }
       },
       required: ['jid', 'name', 'folder', 'trigger']
@@ -56,7 +69,7 @@ const plugin: ToolPlugin = {
   },
   
   async execute(params: unknown, context: ToolContext): Promise<ToolResult> {
-    const { jid, name, folder, trigger } = params as RegisterGroupParams;
+    const { jid, name, folder, trigger, quietHours, allowedSenders } = params as RegisterGroupParams;
     
     // 权限检查：只有 main 群组可以注册新群组
     if (context.groupId !== MAIN_GROUP_FOLDER) {
@@ -103,6 +116,20 @@ const plugin: ToolPlugin = {
       };
     }
     
+    if (quietHours !== undefined && (typeof quietHours !== 'string' || !/^\d{1,2}:\d{2}\s*-\s*\d{1,2}:\d{2}$/.test(quietHours.trim()))) {
+      return {
+        success: false,
+        error: 'quietHours 格式应为 HH:MM-HH:MM（如 22:00-08:00）'
+      };
+    }
+
+    if (allowedSenders !== undefined && (!Array.isArray(allowedSenders) || !allowedSenders.every(s => typeof s === 'string' && s.trim()))) {
+      return {
+        success: false,
+        error: 'allowedSenders 必须是非空字符串数组'
+      };
+    }
+    
     // 通过 IPC 写入注册请求
     const ipcDir = path.join(process.cwd(), 'data', 'ipc', context.groupId, 'tasks');
     fs.mkdirSync(ipcDir, { recursive: true });
@@ -113,6 +140,8 @@ const plugin: ToolPlugin = {
       name,
       folder,
       trigger,
+      ...(quietHours ? { quietHours: quietHours.trim() } : {}),
+      ...(allowedSenders ? { allowedSenders: allowedSenders.map(s => s.trim()) } : {}),
       timestamp: new Date().toISOString()
     };
     
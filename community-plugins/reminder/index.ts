@@ -8,11 +8,12 @@ import { ToolPlugin, ToolContext, ToolResult } from '../../src/plugins/types.js'
 import { createTask } from '../../src/db.js';
 import { wake } from '../../src/task-scheduler.js';
 import { TIMEZONE } from '../../src/config.js';
+import { parseSchedule } from '../../src/schedule-parser.js';
 
 interface ReminderParams {
   /** 提醒内容 */
   message: string;
-  /** 提醒时间，ISO 8601 格式（如 "2026-03-07T09:00:00+08:00"） */
+  /** 提醒时间：用户原话（如 "明天早上9点"、"每天晚上10点"）或 ISO 8601 时间 */
   time: string;
 }
 
@@ -33,11 +34,12 @@ const plugin: ToolPlugin = {
 - "10分钟后提醒我开会"
 - "明天早上9点提醒我交报告"
 - "下午3点提醒我喝水"
+- "每天晚上10点提醒我睡觉"
 
 只需要两个参数：提醒内容和提醒时间。
-时间使用 ISO 8601 格式。
+时间直接使用用户的原话，系统会按本地时区换算，也可以传 ISO 8601 时间。
 
-示例：reminder({ message: "开会啦！", time: "2026-03-07T14:00:00+08:00" })`,
+示例：reminder({ message: "开会啦！", time: "下午3点" })`,
     input_schema: {
       type: 'object',
       properties: {
@@ -47,7 +49,7 @@ const plugin: ToolPlugin = {
         },
         time: {
           type: 'string',
-          description: '提醒时间，ISO 8601 格式'
+          description: '提醒时间，直接使用用户的原话，如 "10分钟后"、"明天早上9点"、"每周五下午5点"'
         }
       },
       required: ['message', 'time']
@@ -69,13 +71,9 @@ const plugin: ToolPlugin = {
       return { success: false, error: '提醒时间不能为空' };
     }
 
-    const runTime = new Date(time);
-    if (isNaN(runTime.getTime())) {
-      return { success: false, error: '无效的时间格式，请使用 ISO 8601 格式（如 2026-03-07T14:00:00+08:00）' };
-    }
-
-    if (runTime <= new Date()) {
-      return { success: false, error: '提醒时间必须是将来的时间' };
+    const { schedule, error } = parseSchedule(time);
+    if (!schedule) {
+      return { success: false, error: `${error}。请使用 "明天早上9点" 这样的描述或 ISO 8601 时间` };
     }
 
     try {
@@ -89,10 +87,10 @@ const plugin: ToolPlugin = {
         group_folder: context.groupId,
         chat_jid: context.chatId,
         prompt,
-        schedule_type: 'once',
-        schedule_value: runTime.toISOString(),
+        schedule_type: schedule.type,
+        schedule_value: schedule.value,
         context_mode: 'isolated',
-        next_run: runTime.toISOString(),
+        next_run: schedule.firstRun,
         status: 'active',
         created_at: new Date().toISOString(),
         retry_count: 0,
@@ -102,7 +100,7 @@ const plugin: ToolPlugin = {
 
       wake();
 
-      const displayTime = runTime.toLocaleString('zh-CN', { timeZone: TIMEZONE });
+      const displayTime = new Date(schedule.firstRun).toLocaleString('zh-CN', { timeZone: TIMEZONE });
 
       return {
         success: true,
@@ -110,6 +108,7 @@ const plugin: ToolPlugin = {
           taskId,
           message: message.trim(),
           time: displayTime,
+          ...(schedule.type !== 'once' ? { repeat: schedule.description } : {}),
           status: 'scheduled'
         }
       };
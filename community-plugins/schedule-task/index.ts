@@ -7,7 +7,11 @@ import { ToolPlugin, ToolContext, ToolResult } from '../../src/plugins/types.js'
 import { createTask } from '../../src/db.js';
 import { wake } from '../../src/task-scheduler.js';
 import { CronExpressionParser } from 'cron-parser';
-import { TIMEZONE } from '../../src/config.js';
+import { MAIN_GROUP_FOLDER, TIMEZONE } from '../../src/config.js';
+import { isValidNotifySetting } from '../../src/task-notify.js';
+import { parseSchedule } from '../../src/schedule-parser.js';
+import { isCatchUpPolicy, CATCH_UP_POLICIES } from '../../src/task-policy.js';
+import type { CatchUpPolicy, MultiAgentConfig, PromptMode } from '../../src/types.js';
 
 /**
  * 创建任务参数
@@ -15,18 +19,38 @@ import { TIMEZONE } from '../../src/config.js';
 interface ScheduleTaskParams {
   /** 任务执行时的提示词 */
   prompt: string;
+  /** 自然语言时间描述（如 "明天早上9点"、"每周一下午三点"），填写后忽略 scheduleType/scheduleValue */
+  when?: string;
   /** 调度类型：cron（定时表达式）、interval（间隔执行）、once（一次性） */
-  scheduleType: 'cron' | 'interval' | 'once';
+  scheduleType?: 'cron' | 'interval' | 'once';
   /** 调度值：cron 表达式、毫秒数、或 ISO 时间字符串 */
-  scheduleValue: string;
+  scheduleValue?: string;
   /** 上下文模式：group（共享群组会话）或 isolated（独立会话） */
   contextMode?: 'group' | 'isolated';
   /** 最大重试次数（默认 3） */
   maxRetries?: number;
   /** 任务执行超时时间（毫秒，默认 300000 = 5分钟） */
   timeoutMs?: number;
+  /** 重试用尽后的失败通知目标：chat / main / webhook / none（逗号分隔，默认使用全局配置） */
+  notifyOnFailure?: string;
+  /** 服务离线错过执行时的补跑策略（默认使用全局配置） */
+  catchUp?: CatchUpPolicy;
+  /** catchUp 为 skip_if_older 时，错过超过多少分钟就跳过 */
+  catchUpMaxAgeMinutes?: number;
+  /** 紧急任务，不受群组免打扰时段限制 */
+  urgent?: boolean;
+  /** 运行任务的 Agent ID（需要 agent-manager 插件） */
+  agent?: string;
+  /** Provider / 模型覆盖（如 "ollama/qwen2.5:3b"） */
+  model?: string;
+  /** 工具白名单（send_message 始终可用） */
+  tools?: string[];
+  /** 提示词模式：full / minimal / none */
+  promptMode?: PromptMode;
 }
 
+const PROMPT_MODES: PromptMode[] = ['full', 'minimal', 'none'];
+
 /**
  * 生成唯一任务 ID
  */
@@ -89,7 +113,9 @@ const plugin: ToolPlugin = {
   
   schema: {
     name: 'schedule_task',
-    description: `创建定时任务。支持三种调度方式：
+    description: `创建定时任务。优先使用 when 直接传入用户原话中的时间描述（如 "明天早上9点"、"每周一下午三点"、"3 小时后"、"every other Friday at 5pm"），系统会按本地时区精确换算，不需要自己计算时间。
+
+无法用 when 表达时，再用 scheduleType + scheduleValue 指定：
 1. cron - 使用 cron 表达式（如 "0 9 * * *" 每天 9 点）
 2. interval - 固定间隔（毫秒数，如 "3600000" 每小时）
 3. once - 一次性任务（ISO 时间，如 "2024-12-31T23:59:59Z"）
@@ -106,6 +132,10 @@ const plugin: ToolPlugin = {
           type: 'string',
           description: '任务执行时的提示词，描述需要 AI 做什么'
         },
+        when: {
+          type: 'string',
+          description: '自然语言时间描述，直接使用用户的原话，如 "明天早上9点"、"每个工作日上午9:30"、"30分钟后"、"每隔2小时"'
+        },
         scheduleType: {
           type: 'string',
           enum: ['cron', 'interval', 'once'],
@@ -127,21 +157,64 @@ const plugin: ToolPlugin = {
         timeoutMs: {
           type: 'number',
           description: '任务执行超时时间（毫秒，默认 300000 = 5分钟）。超时后任务会被标记为失败并触发重试'
+        },
+        notifyOnFailure: {
+          type: 'string',
+          description: '重试用尽仍失败时通知谁：chat（当前会话）、main（主群组）、webhook、none（不通知），可用逗号组合。不填则使用全局配置'
+        },
+        catchUp: {
+          type: 'string',
+          enum: CATCH_UP_POLICIES,
+          description: '服务离线错过执行时如何处理：run_once（补跑一次）、run_all（逐次补跑）、skip（跳到下一次）、skip_if_older（错过太久则跳过）。不填则使用全局配置'
+        },
+        catchUpMaxAgeMinutes: {
+          type: 'number',
+          description: 'catchUp 为 skip_if_older 时，错过超过多少分钟就跳过'
+        },
+        urgent: {
+          type: 'boolean',
+          description: '紧急任务，在群组免打扰时段内也照常执行（默认 false，免打扰期间顺延）'
+        },
+        agent: {
+          type: 'string',
+          description: '由哪个 Agent 执行（agent-manager 中的 Agent ID）。不填则按路由规则选择；非 main 群组只能填当前 Agent'
+        },
+        model: {
+          type: 'string',
+          description: '执行任务使用的模型，如 "ollama/qwen2.5:3b"（简单提醒用小模型）或 "anthropic-provider/claude-sonnet-4-5"（调研任务用强模型）。不填则按路由规则选择'
+        },
+        tools: {
+          type: 'array',
+          items: { type: 'string' },
+          description: '任务可以使用的工具名（支持 * 通配符，如 ["web_search", "web_fetch"]），send_message 始终可用，不能超出当前 Agent 的白名单。不填则可用全部工具'
+        },
+        promptMode: {
+          type: 'string',
+          enum: PROMPT_MODES,
+          description: '系统提示词模式：full（完整，默认）、minimal（不注入记忆和工具提示）、none（只有身份和时间，最省 token）'
         }
       },
-      required: ['prompt', 'scheduleType', 'scheduleValue']
+      required: ['prompt']
     }
   },
   
   async execute(params: unknown, context: ToolContext): Promise<ToolResult> {
     const { 
       prompt, 
-      scheduleType, 
-      scheduleValue, 
+      when,
       contextMode = 'isolated',
       maxRetries = 3,
-      timeoutMs = 300000
+      timeoutMs = 300000,
+      notifyOnFailure,
+      catchUp,
+      catchUpMaxAgeMinutes,
+      urgent = false,
+      agent,
+      model,
+      tools,
+      promptMode
     } = params as ScheduleTaskParams;
+    let { scheduleType, scheduleValue } = params as ScheduleTaskParams;
     
     // 参数验证
     if (!prompt || typeof prompt !== 'string') {
@@ -151,7 +224,30 @@ const plugin: ToolPlugin = {
       };
     }
     
-    if (!['cron', 'interval', 'once'].includes(scheduleType)) {
+    // 自然语言时间：由解析器换算成调度配置
+    let nextRun: string | null = null;
+    let description: string | undefined;
+    if (when !== undefined) {
+      if (typeof when !== 'string' || !when.trim()) {
+        return {
+          success: false,
+          error: '时间描述不能为空'
+        };
+      }
+      const { schedule, error } = parseSchedule(when);
+      if (!schedule) {
+        return {
+          success: false,
+          error: `${error}。请换一种说法，或使用 scheduleType + scheduleValue`
+        };
+      }
+      scheduleType = schedule.type;
+      scheduleValue = schedule.value;
+      nextRun = schedule.firstRun;
+      description = schedule.description;
+    }
+    
+    if (!scheduleType || !['cron', 'interval', 'once'].includes(scheduleType)) {
       return {
         success: false,
         error: '调度类型必须是 cron、interval 或 once'
@@ -161,7 +257,7 @@ const plugin: ToolPlugin = {
     if (!scheduleValue || typeof scheduleValue !== 'string') {
       return {
         success: false,
-        error: '调度值不能为空'
+        error: '调度值不能为空（或使用 when 传入时间描述）'
       };
     }
     
@@ -189,9 +285,91 @@ const plugin: ToolPlugin = {
       };
     }
     
+    if (notifyOnFailure !== undefined && (typeof notifyOnFailure !== 'string' || !isValidNotifySetting(notifyOnFailure))) {
+      return {
+        success: false,
+        error: '失败通知目标必须是 chat、main、webhook 或 none（可用逗号组合）'
+      };
+    }
+    
+    if (catchUp !== undefined && !isCatchUpPolicy(catchUp)) {
+      return {
+        success: false,
+        error: `补跑策略必须是 ${CATCH_UP_POLICIES.join('、')} 之一`
+      };
+    }
+    
+    if (catchUpMaxAgeMinutes !== undefined && (typeof catchUpMaxAgeMinutes !== 'number' || catchUpMaxAgeMinutes < 1)) {
+      return {
+        success: false,
+        error: 'catchUpMaxAgeMinutes 必须是大于 0 的分钟数'
+      };
+    }
+    
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const registry = (globalThis as any).__flashclaw_agent_registry as {
+      getAgentById: (id: string) => MultiAgentConfig | undefined;
+    } | undefined;
+    
+    if (agent !== undefined) {
+      if (!registry) {
+        return {
+          success: false,
+          error: '未加载 agent-manager 插件，无法指定 Agent'
+        };
+      }
+      if (typeof agent !== 'string' || !registry.getAgentById(agent)) {
+        return {
+          success: false,
+          error: `Agent 不存在: ${agent}`
+        };
+      }
+      // 非 main 群组只能让任务由当前 Agent 执行，避免借其他 Agent 的人格和工具
+      if (context.groupId !== MAIN_GROUP_FOLDER && agent !== context.agentId) {
+        return {
+          success: false,
+          error: `只能指定当前 Agent（${context.agentId ?? '未知'}），指定其他 Agent 需在 main 群组中操作`
+        };
+      }
+    }
+    
+    if (model !== undefined && (typeof model !== 'string' || !model.trim())) {
+      return {
+        success: false,
+        error: 'model 必须是非空字符串'
+      };
+    }
+    
+    if (tools !== undefined && (!Array.isArray(tools) || tools.length === 0 || !tools.every(t => typeof t === 'string' && t.trim()))) {
+      return {
+        success: false,
+        error: 'tools 必须是非空的工具名数组'
+      };
+    }
+    
+    // 工具白名单不能超出当前 Agent 的白名单（通配符只有当前 Agent 同样写了才允许）
+    const callerTools = context.agentId ? registry?.getAgentById(context.agentId)?.tools : undefined;
+    if (tools !== undefined && callerTools && !(callerTools.length === 1 && callerTools[0] === '*')) {
+      const allowed = new Set([...callerTools, 'send_message']);
+      const wider = tools.map(t => t.trim()).filter(t => !allowed.has(t));
+      if (wider.length > 0) {
+        return {
+          success: false,
+          error: `tools 超出当前 Agent 的工具白名单: ${wider.join(', ')}`
+        };
+      }
+    }
+    
+    if (promptMode !== undefined && !PROMPT_MODES.includes(promptMode)) {
+      return {
+        success: false,
+        error: `提示词模式必须是 ${PROMPT_MODES.join('、')} 之一`
+      };
+    }
+    
     try {
-      // 计算下一次运行时间
-      const nextRun = calculateNextRun(scheduleType, scheduleValue);
+      // 计算下一次运行时间（when 解析出的首次时间优先，如"每两周周五"从本周五开始）
+      nextRun ??= calculateNextRun(scheduleType, scheduleValue);
       
       // 生成任务 ID
       const taskId = generateTaskId();
@@ -210,7 +388,15 @@ const plugin: ToolPlugin = {
         created_at: new Date().toISOString(),
         retry_count: 0,
         max_retries: maxRetries,
-        timeout_ms: timeoutMs
+        timeout_ms: timeoutMs,
+        notify_on_failure: notifyOnFailure ?? null,
+        catch_up_policy: catchUp ?? null,
+        catch_up_max_age_minutes: catchUpMaxAgeMinutes ?? null,
+        urgent: urgent ? 1 : 0,
+        agent_id: agent ?? null,
+        model: model?.trim() ?? null,
+        allowed_tools: tools ? JSON.stringify(tools.map(t => t.trim())) : null,
+        prompt_mode: promptMode ?? null
       });
       
       // 唤醒调度器，重新计算定时器
@@ -229,9 +415,14 @@ const plugin: ToolPlugin = {
           prompt,
           scheduleType,
           scheduleValue,
+          ...(description ? { schedule: description } : {}),
           contextMode,
           maxRetries,
           timeoutMs,
+          ...(agent ? { agent } : {}),
+          ...(model ? { model: model.trim() } : {}),
+          ...(tools ? { tools } : {}),
+          ...(promptMode ? { promptMode } : {}),
           nextRun: nextRunDisplay,
           status: 'active'
         }
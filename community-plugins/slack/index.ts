@@ -0,0 +1,459 @@
+/**
+ * FlashClaw Slack 渠道插件
+ *
+ * 功能：
+ * - Socket Mode（配置 App Token，无需公网服务器）或 Events API（配置 Signing Secret，监听 HTTP 端口）
+ * - 私聊 + 频道（@ 触发 / 在 Bot 发起的线程中回复触发，其余消息交给核心按 BOT_NAME 判断）
+ * - 线程：线程内的消息使用 <channel>:<thread_ts> 作为会话，回复发回同一线程；replyToMessageId 指向线程根消息
+ * - 图片收发（下载 → base64，files.uploadV2 上传）和文件发送
+ * - 消息编辑/删除（"正在思考..." 更新、流式回复）
+ * - 工具调用审批（Block Kit 按钮）
+ *
+ * 依赖：@slack/bolt
+ *
+ * 配置环境变量：
+ *   SLACK_BOT_TOKEN       - Bot User OAuth Token（xoxb-...）
+ *   SLACK_APP_TOKEN       - 可选，App-Level Token（xapp-...，需要 connections:write），设置后使用 Socket Mode
+ *   SLACK_SIGNING_SECRET  - 可选，未使用 Socket Mode 时必需，用于 Events API 请求校验
+ *   SLACK_PORT            - 可选，Events API 监听端口（默认 3300）
+ *   SLACK_ALLOWED_USERS   - 可选，允许使用 Bot 的用户 ID，多个用逗号分隔
+ */
+
+import fs from 'fs';
+import path from 'path';
+import slackBolt from '@slack/bolt';
+import type { App as BoltApp, BlockAction, ButtonAction } from '@slack/bolt';
+import { createLogger } from '../../src/logger.js';
+import type {
+  ApprovalPrompt,
+  Attachment,
+  ChannelPlugin,
+  PluginConfig,
+  MessageHandler,
+  Message,
+  SendMessageResult,
+} from '../../src/plugins/types.js';
+import {
+  MAX_TEXT_LENGTH,
+  approvalCommand,
+  buildChatId,
+  chunkText,
+  normalizeSlackText,
+  parseChatId,
+  parseMessageId,
+} from './slack-utils.js';
+
+const { App, LogLevel } = slackBolt;
+
+const logger = createLogger('SlackPlugin');
+
+// 下载图片大小上限
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+// 去重 TTL (5 分钟)
+const DEDUP_TTL_MS = 5 * 60 * 1000;
+// 这些子类型是编辑、删除、入群等系统事件，不作为用户消息处理
+const ALLOWED_SUBTYPES = new Set([undefined, 'file_share', 'thread_broadcast']);
+
+interface SlackFile {
+  id: string;
+  name?: string;
+  mimetype?: string;
+  url_private_download?: string;
+  url_private?: string;
+  size?: number;
+}
+
+/** message 事件中用到的字段（bolt 的 MessageEvent 是多个子类型的联合） */
+interface SlackMessageEvent {
+  type: 'message';
+  subtype?: string;
+  channel: string;
+  channel_type?: 'im' | 'mpim' | 'channel' | 'group' | 'app_home';
+  user?: string;
+  bot_id?: string;
+  text?: string;
+  ts: string;
+  thread_ts?: string;
+  parent_user_id?: string;
+  client_msg_id?: string;
+  files?: SlackFile[];
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+// ============================================================================
+// 插件实现
+// ============================================================================
+
+class SlackChannelPlugin implements ChannelPlugin {
+  name = 'slack';
+  version = '1.0.0';
+
+  // 流式回复：chat.update 属于 Tier 3 接口（约每分钟 50 次）
+  streaming = { editIntervalMs: 1200, maxLength: MAX_TEXT_LENGTH };
+
+  private app: BoltApp | null = null;
+  private handler: MessageHandler | null = null;
+  private botToken = '';
+  private appToken = '';
+  private signingSecret = '';
+  private port = 3300;
+  private botUserId = '';
+  private botName = '';
+  private allowedUsers: Set<string> | null = null;
+  private seenMessages = new Map<string, number>();
+  private userNames = new Map<string, string>();
+
+  async init(config: PluginConfig): Promise<void> {
+    this.botToken = String(config.botToken || process.env.SLACK_BOT_TOKEN || '').trim();
+    this.appToken = String(config.appToken || process.env.SLACK_APP_TOKEN || '').trim();
+    this.signingSecret = String(config.signingSecret || process.env.SLACK_SIGNING_SECRET || '').trim();
+    this.port = Number(config.port || process.env.SLACK_PORT) || 3300;
+
+    if (!this.botToken) {
+      throw new Error(
+        'Slack Bot Token 未配置。\n'
+        + '  1. 在 https://api.slack.com/apps 创建应用，添加 chat:write、files:write、files:read、users:read 及各类 history 权限\n'
+        + '  2. 设置环境变量 SLACK_BOT_TOKEN=xoxb-...\n'
+        + '  3. 设置 SLACK_APP_TOKEN=xapp-...（Socket Mode）或 SLACK_SIGNING_SECRET（Events API）',
+      );
+    }
+    if (!this.appToken && !this.signingSecret) {
+      throw new Error('Slack 需要 SLACK_APP_TOKEN（Socket Mode）或 SLACK_SIGNING_SECRET（Events API）其中之一');
+    }
+
+    const allowedRaw = String(config.allowedUsers || process.env.SLACK_ALLOWED_USERS || '').trim();
+    if (allowedRaw) {
+      this.allowedUsers = new Set(allowedRaw.split(',').map(s => s.trim()).filter(Boolean));
+      logger.info({ count: this.allowedUsers.size }, '⚡ 用户白名单已启用');
+    }
+
+    logger.info({ mode: this.appToken ? 'socket' : 'events-api' }, '⚡ Slack 插件已初始化');
+  }
+
+  onMessage(handler: MessageHandler): void {
+    this.handler = handler;
+  }
+
+  async start(): Promise<void> {
+    const app = this.appToken
+      ? new App({ token: this.botToken, appToken: this.appToken, socketMode: true, logLevel: LogLevel.WARN })
+      : new App({ token: this.botToken, signingSecret: this.signingSecret, logLevel: LogLevel.WARN });
+    this.app = app;
+
+    try {
+      const auth = await app.client.auth.test();
+      this.botUserId = auth.user_id || '';
+      this.botName = auth.user || '';
+      logger.info({ botUser: this.botName, botUserId: this.botUserId, team: auth.team }, '⚡ Slack Bot 已连接');
+    } catch (err) {
+      logger.error({ err }, 'Slack auth.test 失败，请检查 Bot Token');
+      throw err;
+    }
+
+    app.event('message', async ({ event }) => {
+      try {
+        await this.handleMessageEvent(event as unknown as SlackMessageEvent);
+      } catch (err) {
+        logger.error({ err }, '处理 Slack 消息失败');
+      }
+    });
+
+    app.action<BlockAction<ButtonAction>>(/^(approve|deny)$/, async ({ ack, body, action }) => {
+      await ack();
+      try {
+        await this.handleApprovalAction(body, action);
+      } catch (err) {
+        logger.error({ err }, '处理 Slack 审批操作失败');
+      }
+    });
+
+    app.error(async (err) => {
+      logger.error({ err }, 'Slack App 错误');
+    });
+
+    if (this.appToken) {
+      await app.start();
+      logger.info('⚡ Slack Socket Mode 已连接');
+    } else {
+      await app.start(this.port);
+      logger.info({ port: this.port, path: '/slack/events' }, '⚡ Slack Events API 已启动');
+    }
+  }
+
+  async stop(): Promise<void> {
+    if (this.app) {
+      await this.app.stop();
+      this.app = null;
+    }
+    this.seenMessages.clear();
+    logger.info('⚡ Slack 插件已停止');
+  }
+
+  async sendMessage(chatId: string, content: string): Promise<SendMessageResult> {
+    if (!this.app) {
+      return { success: false, error: 'Slack 插件未启动' };
+    }
+
+    const { channel, threadTs } = parseChatId(chatId);
+    try {
+      let lastTs: string | undefined;
+      for (const chunk of chunkText(content)) {
+        const result = await this.app.client.chat.postMessage({ channel, text: chunk, thread_ts: threadTs });
+        lastTs = result.ts;
+      }
+      // 返回 channel:ts 格式，与 updateMessage/deleteMessage 保持一致
+      return { success: true, messageId: lastTs ? `${channel}:${lastTs}` : undefined };
+    } catch (err) {
+      logger.error({ chatId, err }, '发送 Slack 消息失败');
+      return { success: false, error: errorMessage(err) };
+    }
+  }
+
+  async updateMessage(messageId: string, content: string): Promise<void> {
+    if (!this.app) throw new Error('Slack 插件未启动');
+    const target = parseMessageId(messageId);
+    if (!target) {
+      throw new Error(`Slack messageId 格式无效，需要 channel:ts: ${messageId}`);
+    }
+    await this.app.client.chat.update({ channel: target.channel, ts: target.ts, text: content.slice(0, MAX_TEXT_LENGTH) });
+  }
+
+  async deleteMessage(messageId: string): Promise<void> {
+    if (!this.app) return;
+    const target = parseMessageId(messageId);
+    if (!target) return;
+
+    try {
+      await this.app.client.chat.delete({ channel: target.channel, ts: target.ts });
+    } catch (err) {
+      logger.warn({ messageId, err }, '删除 Slack 消息失败');
+    }
+  }
+
+  async sendImage(chatId: string, imageData: string | Buffer, caption?: string): Promise<SendMessageResult> {
+    let buffer: Buffer;
+    if (Buffer.isBuffer(imageData)) {
+      buffer = imageData;
+    } else if (imageData.startsWith('data:')) {
+      const match = imageData.match(/^data:[^;]+;base64,(.+)$/);
+      if (!match) return { success: false, error: '无效的 data URL' };
+      buffer = Buffer.from(match[1], 'base64');
+    } else if (fs.existsSync(imageData)) {
+      buffer = fs.readFileSync(imageData);
+    } else {
+      buffer = Buffer.from(imageData, 'base64');
+    }
+    return this.uploadFile(chatId, buffer, 'image.png', caption);
+  }
+
+  async sendFile(chatId: string, filePath: string, fileName?: string): Promise<SendMessageResult> {
+    if (!fs.existsSync(filePath)) {
+      return { success: false, error: `文件不存在: ${filePath}` };
+    }
+    return this.uploadFile(chatId, fs.readFileSync(filePath), fileName || path.basename(filePath));
+  }
+
+  async sendApprovalRequest(chatId: string, prompt: ApprovalPrompt): Promise<SendMessageResult> {
+    if (!this.app) {
+      return { success: false, error: 'Slack 插件未启动' };
+    }
+
+    const { channel, threadTs } = parseChatId(chatId);
+    const text = `🔐 工具调用需要确认\n\n🔧 工具: ${prompt.toolName}\n📦 参数: ${prompt.paramsPreview}`;
+    try {
+      const result = await this.app.client.chat.postMessage({
+        channel,
+        thread_ts: threadTs,
+        text,
+        blocks: [
+          { type: 'section', text: { type: 'plain_text', text: text.slice(0, 3000) } },
+          {
+            type: 'actions',
+            elements: [
+              { type: 'button', action_id: 'approve', value: prompt.id, style: 'primary', text: { type: 'plain_text', text: '✅ 允许' } },
+              { type: 'button', action_id: 'deny', value: prompt.id, style: 'danger', text: { type: 'plain_text', text: '🚫 拒绝' } },
+            ],
+          },
+        ],
+      });
+      return { success: true, messageId: result.ts ? `${channel}:${result.ts}` : undefined };
+    } catch (err) {
+      logger.error({ chatId, err }, '发送 Slack 审批请求失败');
+      return { success: false, error: errorMessage(err) };
+    }
+  }
+
+  // ─── 内部方法 ─────────────────────────────────────────────────────
+
+  private async uploadFile(chatId: string, file: Buffer, filename: string, comment?: string): Promise<SendMessageResult> {
+    if (!this.app) {
+      return { success: false, error: 'Slack 插件未启动' };
+    }
+
+    const { channel, threadTs } = parseChatId(chatId);
+    try {
+      await this.app.client.filesUploadV2({
+        channel_id: channel,
+        thread_ts: threadTs,
+        file,
+        filename,
+        initial_comment: comment?.trim() || undefined,
+      });
+      logger.info({ chatId, filename }, '文件发送成功');
+      // 上传接口不直接返回消息 ts，文件消息无需后续编辑
+      return { success: true };
+    } catch (err) {
+      logger.error({ chatId, filename, err }, '上传 Slack 文件失败');
+      return { success: false, error: errorMessage(err) };
+    }
+  }
+
+  private isDuplicate(key: string): boolean {
+    const now = Date.now();
+    for (const [id, ts] of this.seenMessages) {
+      if (now - ts > DEDUP_TTL_MS) this.seenMessages.delete(id);
+    }
+    if (this.seenMessages.has(key)) return true;
+    this.seenMessages.set(key, now);
+    return false;
+  }
+
+  private async getUserName(userId: string): Promise<string> {
+    const cached = this.userNames.get(userId);
+    if (cached) return cached;
+
+    let name = userId;
+    try {
+      const result = await this.app!.client.users.info({ user: userId });
+      name = result.user?.profile?.display_name || result.user?.real_name || result.user?.name || userId;
+    } catch (err) {
+      logger.debug({ userId, err }, '获取 Slack 用户信息失败');
+    }
+    this.userNames.set(userId, name);
+    return name;
+  }
+
+  private async downloadAttachments(files: SlackFile[] | undefined): Promise<Attachment[]> {
+    const attachments: Attachment[] = [];
+    for (const file of files ?? []) {
+      const isImage = file.mimetype?.startsWith('image/');
+      const url = file.url_private_download || file.url_private;
+      if (!isImage || !url || (file.size ?? 0) > MAX_IMAGE_BYTES) {
+        attachments.push({ type: isImage ? 'image' : 'file', fileName: file.name, mimeType: file.mimetype, fileKey: file.id });
+        continue;
+      }
+
+      try {
+        // 私有文件需要带 Bot Token 下载
+        const response = await fetch(url, { headers: { Authorization: `Bearer ${this.botToken}` } });
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        const buffer = Buffer.from(await response.arrayBuffer());
+        attachments.push({
+          type: 'image',
+          content: `data:${file.mimetype};base64,${buffer.toString('base64')}`,
+          mimeType: file.mimetype,
+          fileName: file.name,
+          fileKey: file.id,
+        });
+      } catch (err) {
+        logger.warn({ fileId: file.id, err }, '下载 Slack 图片失败');
+      }
+    }
+    return attachments;
+  }
+
+  private async handleMessageEvent(event: SlackMessageEvent): Promise<void> {
+    if (!this.handler) return;
+    if (!ALLOWED_SUBTYPES.has(event.subtype)) return;
+    // 忽略 Bot 消息（包括自己发的）
+    if (event.bot_id || !event.user || event.user === this.botUserId) return;
+    if (this.isDuplicate(event.client_msg_id || `${event.channel}:${event.ts}`)) return;
+
+    if (this.allowedUsers && !this.allowedUsers.has(event.user)) {
+      logger.debug({ userId: event.user }, '用户不在白名单中，忽略');
+      return;
+    }
+
+    const isPrivate = event.channel_type === 'im';
+    const inThread = !!event.thread_ts && event.thread_ts !== event.ts;
+    const { text, mentioned: atBot } = await normalizeSlackText(event.text || '', this.botUserId, id => this.getUserName(id));
+    // 在 Bot 发起的线程中回复，等同于回复 Bot（与 Telegram 回复 Bot 消息一致）
+    const mentioned = atBot || (inThread && event.parent_user_id === this.botUserId);
+
+    const attachments = await this.downloadAttachments(event.files);
+    if (!text && attachments.length === 0) return;
+
+    const message: Message = {
+      id: `slack-${event.channel}-${event.ts}`,
+      chatId: buildChatId(event.channel, inThread ? event.thread_ts : undefined),
+      senderId: event.user,
+      senderName: await this.getUserName(event.user),
+      content: text || (attachments.some(a => a.type === 'image') ? '[图片]' : '[附件]'),
+      timestamp: new Date(Number(event.ts) * 1000).toISOString(),
+      chatType: isPrivate ? 'p2p' : 'group',
+      platform: 'slack',
+      attachments: attachments.length > 0 ? attachments : undefined,
+      // 只有真正 @Bot 时才标记，其余频道消息由核心的 shouldRespondInGroup 判断
+      mentions: !isPrivate && mentioned ? [this.botName] : undefined,
+      replyToMessageId: inThread ? `${event.channel}:${event.thread_ts}` : undefined,
+      raw: event,
+    };
+
+    await this.handler(message);
+  }
+
+  /**
+   * 处理审批按钮：转换为 /approve <id> 或 /deny <id> 命令消息
+   */
+  private async handleApprovalAction(body: BlockAction<ButtonAction>, action: ButtonAction): Promise<void> {
+    const command = approvalCommand(action.action_id, action.value);
+    if (!this.handler || !body.channel?.id || !command) return;
+
+    const userId = body.user.id;
+    if (this.allowedUsers && !this.allowedUsers.has(userId)) {
+      logger.debug({ userId }, '无权操作审批按钮');
+      return;
+    }
+
+    const channel = body.channel.id;
+    const threadTs = body.message?.thread_ts as string | undefined;
+    const messageTs = body.message?.ts as string | undefined;
+    const approved = action.action_id === 'approve';
+
+    // 移除按钮，避免重复点击
+    if (messageTs) {
+      try {
+        await this.app!.client.chat.update({
+          channel,
+          ts: messageTs,
+          text: `${String(body.message?.text || '')}\n\n${approved ? '✅ 已允许' : '🚫 已拒绝'}`,
+          blocks: [],
+        });
+      } catch (err) {
+        logger.debug({ err }, '移除审批按钮失败');
+      }
+    }
+
+    const message: Message = {
+      id: `slack-action-${body.trigger_id}`,
+      chatId: buildChatId(channel, threadTs),
+      senderId: userId,
+      senderName: await this.getUserName(userId),
+      content: command,
+      timestamp: new Date().toISOString(),
+      chatType: channel.startsWith('D') ? 'p2p' : 'group',
+      platform: 'slack',
+      // 按钮点击视为对 Bot 的明确操作
+      mentions: [this.botName],
+      raw: body,
+    };
+
+    await this.handler(message);
+  }
+}
+
+const plugin: ChannelPlugin = new SlackChannelPlugin();
+export default plugin;
@@ -0,0 +1,80 @@
+/**
+ * Slack 渠道辅助函数（会话/消息 ID、文本规范化、消息拆分、审批按钮）
+ * 不依赖 @slack/bolt，便于单独测试
+ */
+
+import { splitMessage } from '../../src/stream-reply.js';
+
+// Slack 建议单条消息不超过 4000 字符（超过 40000 会被截断）
+export const MAX_TEXT_LENGTH = 4000;
+
+/**
+ * 会话 ID：频道消息为 <channel>，线程内为 <channel>:<thread_ts>
+ */
+export function parseChatId(chatId: string): { channel: string; threadTs?: string } {
+  const [channel, threadTs] = chatId.split(':');
+  return { channel, threadTs: threadTs || undefined };
+}
+
+/**
+ * 生成会话 ID（parseChatId 的逆操作）
+ */
+export function buildChatId(channel: string, threadTs?: string): string {
+  return threadTs ? `${channel}:${threadTs}` : channel;
+}
+
+/**
+ * 消息 ID：<channel>:<ts>
+ */
+export function parseMessageId(messageId: string): { channel: string; ts: string } | null {
+  const [channel, ts, ...rest] = messageId.split(':');
+  if (!channel || !ts || rest.length > 0) return null;
+  return { channel, ts };
+}
+
+/**
+ * 把 <@U123> 替换为 @名称，并去掉对 Bot 自己的 @
+ * 同时还原频道链接、特殊提及、链接和 HTML 转义
+ */
+export async function normalizeSlackText(
+  text: string,
+  botUserId: string,
+  getUserName: (userId: string) => Promise<string>,
+): Promise<{ text: string; mentioned: boolean }> {
+  let mentioned = false;
+  const userIds = [...new Set([...text.matchAll(/<@([UW][A-Z0-9]+)(?:\|[^>]*)?>/g)].map(m => m[1]))];
+  let result = text;
+  for (const userId of userIds) {
+    const pattern = new RegExp(`<@${userId}(?:\\|[^>]*)?>\\s*`, 'g');
+    if (userId === botUserId) {
+      mentioned = true;
+      result = result.replace(pattern, '');
+    } else {
+      result = result.replace(pattern, `@${await getUserName(userId)} `);
+    }
+  }
+  // 频道链接和特殊提及：<#C123|general> → #general，<!here> → @here
+  result = result
+    .replace(/<#[A-Z0-9]+\|([^>]+)>/g, '#$1')
+    .replace(/<!(here|channel|everyone)>/g, '@$1')
+    .replace(/<(https?:\/\/[^|>]+)(?:\|[^>]+)?>/g, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+  return { text: result.trim(), mentioned };
+}
+
+/**
+ * 按 Slack 长度上限拆分消息
+ */
+export function chunkText(content: string, maxLength = MAX_TEXT_LENGTH): string[] {
+  return splitMessage(content, maxLength);
+}
+
+/**
+ * 审批按钮（action_id 为 approve / deny，value 为审批 ID）转换为命令
+ */
+export function approvalCommand(actionId: string, approvalId: string | undefined): string | null {
+  if ((actionId !== 'approve' && actionId !== 'deny') || !approvalId) return null;
+  return `/${actionId} ${approvalId}`;
+}
@@ -6,6 +6,7 @@
  * - 私聊 + 群聊（@ 触发 / 回复触发）
  * - 图片收发（下载 → base64，发送 base64/Buffer）
  * - 消息编辑/删除（"正在思考..." 更新）
+ * - 工具调用审批（inline keyboard 按钮）
  * - HTTP 代理支持（Bot API + 文件下载统一走代理）
  * 
  * 依赖：grammy (Telegram Bot Framework)
@@ -15,10 +16,11 @@
  *   TELEGRAM_PROXY      - 可选，HTTP 代理地址（如 http://127.0.0.1:7890）
  */
 
-import { Bot, Context, InputFile, type ApiClientOptions } from 'grammy';
+import { Bot, Context, InputFile, InlineKeyboard, type ApiClientOptions } from 'grammy';
 import { run, type RunnerHandle } from '@grammyjs/runner';
 import { createLogger } from '../../src/logger.js';
 import type {
+  ApprovalPrompt,
   ChannelPlugin,
   PluginConfig,
   MessageHandler,
@@ -33,6 +35,8 @@ const logger = createLogger('TelegramPlugin');
 const MAX_TEXT_LENGTH = 4096;
 // 去重 TTL (5 分钟)
 const DEDUP_TTL_MS = 5 * 60 * 1000;
+// 审批按钮 callback_data 格式：approve:<id> / deny:<id>
+const APPROVAL_CALLBACK_RE = /^(approve|deny):([a-z0-9]+)$/;
 
 /**
  * 将长文本分块（Telegram 单条消息上限 4096 字符）
@@ -90,6 +94,9 @@ const plugin: ChannelPlugin = {
   name: 'telegram',
   version: '1.0.0',
 
+  // 流式回复：同一条消息编辑过快会被限流（群组每分钟约 20 条）
+  streaming: { editIntervalMs: 1500, maxLength: MAX_TEXT_LENGTH },
+
   // 内部状态
   _bot: null as Bot | null,
   _runner: null as RunnerHandle | null,
@@ -181,6 +188,15 @@ const plugin: ChannelPlugin = {
         logger.error({ err, chatId: ctx.chat?.id }, '处理 Telegram 编辑消息失败');
       }
     });
+
+    // 审批按钮回调
+    bot.on('callback_query:data', async (ctx: Context) => {
+      try {
+        await this._handleApprovalCallback(ctx);
+      } catch (err) {
+        logger.error({ err, chatId: ctx.chat?.id }, '处理 Telegram 审批回调失败');
+      }
+    });
     
     // 错误处理
     bot.catch((err) => {
@@ -357,8 +373,75 @@ const plugin: ChannelPlugin = {
     }
   },
 
+  async sendApprovalRequest(chatId: string, prompt: ApprovalPrompt): Promise<SendMessageResult> {
+    const bot = this._bot as Bot;
+    if (!bot) {
+      return { success: false, error: 'Telegram Bot 未启动' };
+    }
+
+    try {
+      const keyboard = new InlineKeyboard()
+        .text('✅ 允许', `approve:${prompt.id}`)
+        .text('🚫 拒绝', `deny:${prompt.id}`);
+      const text = `🔐 工具调用需要确认\n\n🔧 工具: ${prompt.toolName}\n📦 参数: ${prompt.paramsPreview}`;
+      const result = await bot.api.sendMessage(chatId, text.slice(0, MAX_TEXT_LENGTH), {
+        reply_markup: keyboard,
+      });
+      return { success: true, messageId: `${chatId}:${result.message_id}` };
+    } catch (err) {
+      const error = err instanceof Error ? err.message : String(err);
+      logger.error({ chatId, err }, '发送 Telegram 审批请求失败');
+      return { success: false, error };
+    }
+  },
+
   // ── 内部方法 ─────────────────────────────────────────────
 
+  /**
+   * 处理审批按钮回调：转换为 /approve <id> 或 /deny <id> 命令消息
+   */
+  async _handleApprovalCallback(ctx: Context): Promise<void> {
+    const handler = this._handler as MessageHandler | null;
+    const query = ctx.callbackQuery;
+    if (!handler || !query?.data || !query.message) return;
+
+    const match = query.data.match(APPROVAL_CALLBACK_RE);
+    if (!match) return;
+
+    const allowed = this._allowedUsers as Set<number> | null;
+    if (allowed && !allowed.has(query.from.id)) {
+      await ctx.answerCallbackQuery({ text: '无权操作' });
+      return;
+    }
+
+    const [, action, approvalId] = match;
+    const chat = query.message.chat;
+    await ctx.answerCallbackQuery({ text: action === 'approve' ? '已允许' : '已拒绝' });
+
+    // 移除按钮，避免重复点击
+    try {
+      await ctx.editMessageReplyMarkup({ reply_markup: undefined });
+    } catch (err) {
+      logger.debug({ err }, '移除审批按钮失败');
+    }
+
+    const message: Message = {
+      id: `tg-cb-${query.id}`,
+      chatId: String(chat.id),
+      senderId: String(query.from.id),
+      senderName: [query.from.first_name, query.from.last_name].filter(Boolean).join(' ') || query.from.username || String(query.from.id),
+      content: `/${action} ${approvalId}`,
+      timestamp: new Date().toISOString(),
+      chatType: chat.type === 'private' ? 'p2p' : 'group',
+      platform: 'telegram',
+      // 按钮点击视为对 Bot 的明确操作
+      mentions: [this._botUsername as string],
+      raw: ctx.update,
+    };
+
+    await handler(message);
+  },
+
   /**
    * 使用代理或全局 fetch 下载文件
    */
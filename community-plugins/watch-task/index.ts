@@ -0,0 +1,189 @@
+/**
+ * FlashClaw 插件 - 创建监控任务
+ * 按间隔检查网页、订阅源、文件或工具输出，只有内容变化或满足条件时才运行 AI 并通知会话
+ */
+
+import { ToolPlugin, ToolContext, ToolResult } from '../../src/plugins/types.js';
+import { createTask } from '../../src/db.js';
+import { wake } from '../../src/task-scheduler.js';
+import { parseDuration } from '../../src/schedule-parser.js';
+import { parseWatchConfig, describeWatch } from '../../src/task-watch.js';
+import { isValidNotifySetting } from '../../src/task-notify.js';
+
+/**
+ * 创建监控任务参数
+ */
+interface WatchTaskParams {
+  /** 触发后 AI 要做什么（如 "总结页面的变化"） */
+  prompt: string;
+  /** 监控来源：url（网页）、feed（RSS/Atom）、file（群组目录内文件）、tool（任意工具） */
+  source: 'url' | 'feed' | 'file' | 'tool';
+  /** 网址、文件路径或工具名 */
+  target: string;
+  /** source 为 tool 时的工具参数 */
+  params?: Record<string, unknown>;
+  /** source 为 url 时只监控匹配 CSS 选择器的部分 */
+  selector?: string;
+  /** 触发条件：change（内容变化，默认）或 match（内容出现匹配 pattern 的行） */
+  trigger?: 'change' | 'match';
+  /** trigger 为 match 时的正则表达式 */
+  pattern?: string;
+  /** 检查间隔（如 "30分钟"、"2h"，或毫秒数，默认 30 分钟） */
+  interval?: string | number;
+  /** 重试用尽后的失败通知目标 */
+  notifyOnFailure?: string;
+}
+
+/** 默认检查间隔 */
+const DEFAULT_INTERVAL_MS = 30 * 60 * 1000;
+/** 最短检查间隔 */
+const MIN_INTERVAL_MS = 60 * 1000;
+
+function generateTaskId(): string {
+  return `watch_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * 解析检查间隔
+ */
+function parseInterval(value: string | number | undefined): number | null {
+  if (value === undefined) return DEFAULT_INTERVAL_MS;
+  if (typeof value === 'number') return value;
+  if (/^\d+$/.test(value.trim())) return parseInt(value, 10);
+  return parseDuration(value);
+}
+
+const plugin: ToolPlugin = {
+  name: 'watch_task',
+  version: '1.0.0',
+  description: '创建监控任务，内容变化或满足条件时才通知',
+
+  schema: {
+    name: 'watch_task',
+    description: `创建监控任务。按间隔做一次轻量检查，只有内容变化或满足条件时才运行 AI 并通知用户，适合"网页有更新就告诉我"这类需求。
+
+监控来源：
+- url: 网页（可用 selector 只看某一部分）
+- feed: RSS/Atom 订阅源，出现新条目时触发
+- file: 群组目录内的文件
+- tool: 任意工具的输出（如 web_search）
+
+触发条件：
+- change: 内容变化（默认，首次检查只记录基线）
+- match: 内容出现匹配 pattern 的行（如 "有货|in stock"），持续匹配不会重复通知
+
+示例：watch_task({ prompt: "告诉我价格变成了多少", source: "url", target: "https://example.com/item", selector: ".price", interval: "1小时" })`,
+    input_schema: {
+      type: 'object',
+      properties: {
+        prompt: {
+          type: 'string',
+          description: '触发后 AI 要做什么，如 "总结页面的变化并告诉我"'
+        },
+        source: {
+          type: 'string',
+          enum: ['url', 'feed', 'file', 'tool'],
+          description: '监控来源'
+        },
+        target: {
+          type: 'string',
+          description: 'url/feed 填网址，file 填群组目录内的相对路径，tool 填工具名'
+        },
+        params: {
+          type: 'object',
+          description: 'source 为 tool 时传给工具的参数'
+        },
+        selector: {
+          type: 'string',
+          description: 'source 为 url 时只监控匹配该 CSS 选择器的内容'
+        },
+        trigger: {
+          type: 'string',
+          enum: ['change', 'match'],
+          description: '触发条件：change（内容变化，默认）或 match（出现匹配 pattern 的内容）'
+        },
+        pattern: {
+          type: 'string',
+          description: 'trigger 为 match 时的正则表达式（不区分大小写）'
+        },
+        interval: {
+          type: 'string',
+          description: '检查间隔，如 "30分钟"、"2小时"（默认 30 分钟，最短 1 分钟）'
+        },
+        notifyOnFailure: {
+          type: 'string',
+          description: '检查持续失败时通知谁：chat、main、webhook、none，可用逗号组合。不填则使用全局配置'
+        }
+      },
+      required: ['prompt', 'source', 'target']
+    }
+  },
+
+  async execute(params: unknown, context: ToolContext): Promise<ToolResult> {
+    const { prompt, interval, notifyOnFailure, ...rest } = params as WatchTaskParams;
+
+    if (!prompt || typeof prompt !== 'string') {
+      return { success: false, error: '任务提示词不能为空' };
+    }
+
+    const { config, error } = parseWatchConfig(rest);
+    if (!config) {
+      return { success: false, error: error ?? '监控配置无效' };
+    }
+
+    const intervalMs = parseInterval(interval);
+    if (intervalMs === null || isNaN(intervalMs)) {
+      return { success: false, error: `无法识别的检查间隔: ${interval}` };
+    }
+    if (intervalMs < MIN_INTERVAL_MS) {
+      return { success: false, error: '检查间隔不能小于 1 分钟' };
+    }
+
+    if (notifyOnFailure !== undefined && (typeof notifyOnFailure !== 'string' || !isValidNotifySetting(notifyOnFailure))) {
+      return { success: false, error: '失败通知目标必须是 chat、main、webhook 或 none（可用逗号组合）' };
+    }
+
+    try {
+      const taskId = generateTaskId();
+
+      createTask({
+        id: taskId,
+        group_folder: context.groupId,
+        chat_jid: context.chatId,
+        prompt,
+        schedule_type: 'interval',
+        schedule_value: String(intervalMs),
+        context_mode: 'isolated',
+        // 立即做一次检查记录基线
+        next_run: new Date().toISOString(),
+        status: 'active',
+        created_at: new Date().toISOString(),
+        retry_count: 0,
+        max_retries: 2,
+        timeout_ms: 300000,
+        kind: 'watch',
+        watch_config: JSON.stringify(config),
+        notify_on_failure: notifyOnFailure ?? null
+      });
+
+      wake();
+
+      return {
+        success: true,
+        data: {
+          taskId,
+          watching: describeWatch(config),
+          intervalMinutes: Math.round(intervalMs / 60000),
+          status: 'active'
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `创建监控任务失败: ${error instanceof Error ? error.message : String(error)}`
+      };
+    }
+  }
+};
+
+export default plugin;
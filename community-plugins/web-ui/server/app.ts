@@ -10,6 +10,7 @@ import { dirname, resolve } from 'path';
 import { pagesRoutes } from './routes/pages.js';
 import { apiRoutes } from './routes/api.js';
 import { sseRoutes } from './routes/sse.js';
+import { calendarRoutes } from './routes/calendar.js';
 
 // 基于模块自身位置计算绝对路径，不依赖 process.cwd()
 const __filename = fileURLToPath(import.meta.url);
@@ -103,6 +104,9 @@ export function createApp(options: AppOptions = {}) {
   // SSE 路由
   app.route('/sse', sseRoutes);
 
+  // 日历订阅（只读 .ics）
+  app.route('/calendar', calendarRoutes);
+
   // SSR 页面路由
   app.route('/', pagesRoutes);
 
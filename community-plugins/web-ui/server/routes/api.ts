@@ -7,8 +7,11 @@ import { html } from 'hono/html';
 import { getServiceStatus, getRecentActivity } from '../services/status.js';
 import { getTasks, getTask, pauseTask, resumeTask, deleteTask, getTaskLogs, createNewTask, updateExistingTask } from '../services/tasks.js';
 import { getPlugins, togglePlugin } from '../services/plugins.js';
-import { sendMessage, sendMessageStream, clearChatHistory, getChatHistory, getSessions, createSession, cancelRequest, getActiveRequestId, deleteSession } from '../services/chat.js';
+import { sendMessage, sendMessageStream, clearChatHistory, getChatHistory, getSessions, createSession, cancelRequest, getActiveRequestId, deleteSession, answerApproval, searchChatHistory } from '../services/chat.js';
+import { getTraces, getTrace } from '../services/traces.js';
+import { getWorkflows, runWorkflowNow } from '../services/workflows.js';
 import { statusBadge } from '../../views/layout.js';
+import { workflowCards } from '../../views/workflow-graph.js';
 
 export const apiRoutes = new Hono();
 
@@ -220,6 +223,27 @@ apiRoutes.get('/tasks/:id/logs', async (c) => {
   return c.json({ success: true, logs });
 });
 
+// ==================== 工作流 API ====================
+
+// 获取工作流列表 JSON（含步骤图布局）
+apiRoutes.get('/workflows', async (c) => {
+  return c.json({ success: true, workflows: getWorkflows() });
+});
+
+// 获取工作流卡片 HTML 片段
+apiRoutes.get('/workflows/cards', async (c) => {
+  return c.html(workflowCards(getWorkflows()));
+});
+
+// 立即运行工作流
+apiRoutes.post('/workflows/:id/run', async (c) => {
+  const result = runWorkflowNow(c.req.param('id'));
+  if (result.success) {
+    return c.json({ success: true, message: '工作流已开始运行' });
+  }
+  return c.json(result, result.error === '工作流不存在' ? 404 : 409);
+});
+
 // ==================== 插件 API ====================
 
 // 获取插件列表 JSON
@@ -248,6 +272,19 @@ apiRoutes.get('/chat/history', async (c) => {
   return c.json({ success: true, messages: history });
 });
 
+// 搜索聊天记录
+apiRoutes.get('/chat/search', async (c) => {
+  const query = (c.req.query('q') || '').trim();
+  if (!query) {
+    return c.json({ success: false, error: '搜索关键词不能为空' }, 400);
+  }
+  const group = c.req.query('group') || 'main';
+  const scope = c.req.query('scope') === 'all' ? 'all' : 'group';
+  const limit = Math.min(parseInt(c.req.query('limit') || '20', 10) || 20, 100);
+  const results = searchChatHistory(query, group, scope, limit);
+  return c.json({ success: true, results });
+});
+
 // 发送聊天消息
 apiRoutes.post('/chat', async (c) => {
   try {
@@ -298,11 +335,15 @@ apiRoutes.post('/chat/stream', async (c) => {
           sendEvent({ type: 'thinking', data: text });
         };
 
-        const onMetrics = (metrics: { durationMs: number; model: string; inputTokens: number | null; outputTokens: number | null }) => {
+        const onMetrics = (metrics: { durationMs: number; model: string; inputTokens: number | null; outputTokens: number | null; runId: string | null; provider: string | null }) => {
           sendEvent({ type: 'metrics', data: metrics });
         };
 
-        sendMessageStream(message.trim(), { group, onToken, onToolUse, onThinking, onMetrics })
+        const onApproval = (approval: { id: string; toolName: string; paramsPreview: string; expiresAt: string }) => {
+          sendEvent({ type: 'approval', data: approval });
+        };
+
+        sendMessageStream(message.trim(), { group, onToken, onToolUse, onThinking, onMetrics, onApproval })
           .then(() => {
             sendEvent({ type: 'done', data: null });
             controller.close();
@@ -370,6 +411,24 @@ apiRoutes.get('/chat/context', async (c) => {
   }
 });
 
+// 应答工具调用审批
+apiRoutes.post('/chat/approval', async (c) => {
+  const body = await c.req.json().catch(() => ({}));
+  const group = body.group || 'main';
+  if (!body.id || typeof body.id !== 'string') {
+    return c.json({ success: false, error: '缺少审批 ID' }, 400);
+  }
+  try {
+    if (answerApproval(body.id, body.approved === true, group)) {
+      return c.json({ success: true });
+    }
+    return c.json({ success: false, error: '审批请求不存在或已超时' }, 404);
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : '审批失败';
+    return c.json({ success: false, error: errorMsg }, 500);
+  }
+});
+
 // 取消正在进行的请求
 apiRoutes.post('/chat/cancel', async (c) => {
   const body = await c.req.json().catch(() => ({}));
@@ -427,46 +486,27 @@ apiRoutes.get('/daily-note', async (c) => {
   }
 });
 
-// 获取最近记忆条目
+// 获取最近记忆条目（支持 ?q= 全文搜索）
 apiRoutes.get('/memories', async (c) => {
   try {
-    const fs = await import('fs');
-    const path = await import('path');
-    const { paths } = await import('../../../../src/paths.js');
+    const { getMemoryManager } = await import('../../../../src/core/memory.js');
 
     const limit = Math.min(parseInt(c.req.query('limit') || '10', 10), 50);
-    const memoryDir = path.join(paths.data(), 'memory');
-    const globalFile = path.join(memoryDir, 'global.md');
-
-    const entries: Array<{ key: string; value: string; scope: string }> = [];
-
-    // 读取全局记忆
-    if (fs.existsSync(globalFile)) {
-      const content = fs.readFileSync(globalFile, 'utf-8');
-      for (const line of content.split('\n')) {
-        const match = line.match(/^- \*\*(.+?)\*\*:\s*(.+)$/);
-        if (match) {
-          entries.push({ key: match[1], value: match[2], scope: 'global' });
-        }
-      }
-    }
-
-    // 读取用户记忆（users/ 目录下的所有 .md 文件）
-    const usersDir = path.join(memoryDir, 'users');
-    if (fs.existsSync(usersDir)) {
-      for (const file of fs.readdirSync(usersDir).filter((f: string) => f.endsWith('.md')).slice(0, 5)) {
-        const userId = file.replace('.md', '');
-        const content = fs.readFileSync(path.join(usersDir, file), 'utf-8');
-        for (const line of content.split('\n')) {
-          const match = line.match(/^- \*\*(.+?)\*\*:\s*(.+)$/);
-          if (match) {
-            entries.push({ key: match[1], value: match[2], scope: `user:${userId}` });
-          }
-        }
-      }
-    }
-
-    return c.json({ success: true, entries: entries.slice(-limit) });
+    const query = c.req.query('q')?.trim();
+    const mm = getMemoryManager();
+    const records = query
+      ? mm.searchMemories(query, { userId: c.req.query('userId') || undefined, limit })
+      : mm.getRecentMemories(limit);
+
+    const entries = records.map(r => ({
+      key: r.key,
+      value: r.value,
+      scope: r.scope === 'user' ? `user:${r.owner}` : 'global',
+      tags: r.tags,
+      updatedAt: r.updatedAt,
+    }));
+
+    return c.json({ success: true, entries });
   } catch {
     return c.json({ success: true, entries: [] });
   }
@@ -576,3 +616,23 @@ apiRoutes.delete('/sessions/:id', async (c) => {
   const success = deleteSession(id);
   return c.json({ success });
 });
+
+// ==================== 运行追踪 API ====================
+
+// 获取最近的运行记录
+apiRoutes.get('/traces', async (c) => {
+  const limit = Math.min(parseInt(c.req.query('limit') || '50', 10), 200);
+  const chat = c.req.query('chat') || undefined;
+  const traces = getTraces(limit, chat);
+  return c.json({ success: true, traces });
+});
+
+// 获取单次运行详情（含事件回放）
+apiRoutes.get('/traces/:id', async (c) => {
+  const id = c.req.param('id');
+  const trace = getTrace(id);
+  if (trace) {
+    return c.json({ success: true, trace });
+  }
+  return c.json({ success: false, error: '运行记录不存在' }, 404);
+});
@@ -0,0 +1,22 @@
+/**
+ * 日历订阅路由（只读）
+ * GET /calendar/<群组>.ics — 日历应用可直接订阅，启用访问密钥时在地址后加 ?token=<密钥>
+ */
+
+import { Hono } from 'hono';
+import { getGroupCalendar } from '../services/calendar.js';
+
+export const calendarRoutes = new Hono();
+
+calendarRoutes.get('/:file', async (c) => {
+  const file = c.req.param('file');
+  const ics = file.endsWith('.ics') ? getGroupCalendar(file.slice(0, -'.ics'.length)) : null;
+  if (ics === null) {
+    return c.text('日历不存在', 404);
+  }
+  return c.body(ics, 200, {
+    'Content-Type': 'text/calendar; charset=utf-8',
+    'Content-Disposition': `inline; filename="${file}"`,
+    'Cache-Control': 'no-cache',
+  });
+});
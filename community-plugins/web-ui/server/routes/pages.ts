@@ -6,9 +6,11 @@ import { Hono } from 'hono';
 import { layout, statusBadge } from '../../views/layout.js';
 import { getServiceStatus, getRecentActivity } from '../services/status.js';
 import { getTasks } from '../services/tasks.js';
+import { getCalendarGroups } from '../services/calendar.js';
 import { getPlugins } from '../services/plugins.js';
 import { getRecentLogs } from '../services/logs.js';
 import { getChatHistory } from '../services/chat.js';
+import { getTraces } from '../services/traces.js';
 import { html } from 'hono/html';
 
 export const pagesRoutes = new Hono();
@@ -217,7 +219,12 @@ pagesRoutes.get('/chat', async (c) => {
             <svg class="icon" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><line x1="12" y1="5" x2="12" y2="19"/><line x1="5" y1="12" x2="19" y2="12"/></svg>
           </button>
         </div>
+        <div class="session-search">
+          <input type="search" id="chat-search" placeholder="搜索聊天记录..." oninput="scheduleSearch()" />
+          <label><input type="checkbox" id="chat-search-all" onchange="runSearch()" /> 搜索所有会话和渠道</label>
+        </div>
         <div class="session-list" id="session-list"></div>
+        <div class="session-list" id="search-results" style="display:none;"></div>
       </aside>
 
       <!-- 聊天主区域 -->
@@ -263,6 +270,9 @@ pagesRoutes.get('/chat', async (c) => {
       const cancelBtn = document.getElementById('cancel-btn');
       const sessionList = document.getElementById('session-list');
       const contextBar = document.getElementById('chat-context-bar');
+      const searchInput = document.getElementById('chat-search');
+      const searchAll = document.getElementById('chat-search-all');
+      const searchResults = document.getElementById('search-results');
 
       // ========== Markdown ==========
       marked.setOptions({ breaks: true, gfm: true });
@@ -347,6 +357,60 @@ pagesRoutes.get('/chat', async (c) => {
         } catch (err) { alert('删除失败: ' + err.message); }
       }
 
+      // ========== 搜索 ==========
+      var searchTimer = null;
+      function scheduleSearch() {
+        clearTimeout(searchTimer);
+        searchTimer = setTimeout(runSearch, 300);
+      }
+
+      async function runSearch() {
+        const query = searchInput.value.trim();
+        if (!query) {
+          searchResults.style.display = 'none';
+          sessionList.style.display = '';
+          return;
+        }
+        const scope = searchAll.checked ? 'all' : 'group';
+        try {
+          const res = await fetch('/api/chat/search?q=' + encodeURIComponent(query) + '&group=' + encodeURIComponent(currentGroup) + '&scope=' + scope);
+          const data = await res.json();
+          if (searchInput.value.trim() !== query) return;
+          renderSearchResults(data.results || []);
+        } catch { renderSearchResults([]); }
+      }
+
+      function renderSearchResults(results) {
+        sessionList.style.display = 'none';
+        searchResults.style.display = '';
+        searchResults.innerHTML = '';
+        if (results.length === 0) {
+          searchResults.innerHTML = '<div class="search-empty">没有找到相关消息</div>';
+          return;
+        }
+        results.forEach(function(r) {
+          var item = document.createElement('div');
+          item.className = 'session-item search-result';
+          if (r.group) item.onclick = function() { switchSession(r.group); };
+          var info = document.createElement('div');
+          info.className = 'session-info';
+          var nameEl = document.createElement('div');
+          nameEl.className = 'session-name';
+          nameEl.textContent = r.senderName;
+          var preview = document.createElement('div');
+          preview.className = 'session-preview';
+          preview.textContent = r.snippet;
+          var meta = document.createElement('div');
+          meta.className = 'search-result-meta';
+          meta.textContent = new Date(r.timestamp).toLocaleString('zh-CN') + ' · ' + (r.chatName || r.chatJid) + (r.platform ? ' · ' + r.platform : '');
+          info.appendChild(nameEl);
+          info.appendChild(preview);
+          info.appendChild(meta);
+          item.appendChild(info);
+          searchResults.appendChild(item);
+        });
+      }
+
       // ========== 聊天历史 ==========
       async function loadChatHistory() {
         try {
@@ -480,6 +544,8 @@ pagesRoutes.get('/chat', async (c) => {
                       toolDiv.innerHTML = '<div class="content" style="font-size:0.8rem;color:var(--pico-muted-color);padding:0.25rem 0.5rem;">🔧 ' + escapeHtml(evt.data?.name || '') + '</div>';
                       messagesContainer.insertBefore(toolDiv, messagesContainer.lastElementChild);
                       scrollToBottom();
+                    } else if (evt.type === 'approval') {
+                      answerApproval(evt.data);
                     } else if (evt.type === 'error') { assistantMsg.rawText += '\\n\\n❌ 错误: ' + evt.data; scheduleRender(); }
                   } catch { /* ignore non-JSON */ }
                 }
@@ -500,6 +566,24 @@ pagesRoutes.get('/chat', async (c) => {
         loadSessions();
       }
 
+      // 工具调用审批对话框
+      async function answerApproval(approval) {
+        if (!approval || !approval.id) return;
+        const approved = confirm('🔐 工具调用需要确认\\n\\n工具: ' + approval.toolName + '\\n参数: ' + approval.paramsPreview + '\\n\\n是否允许执行？');
+        const toolDiv = document.createElement('div');
+        toolDiv.className = 'chat-message tool';
+        try {
+          const res = await fetch('/api/chat/approval', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ id: approval.id, approved, group: currentGroup }) });
+          const data = await res.json().catch(() => null);
+          const text = data?.success ? (approved ? '✅ 已允许 ' : '🚫 已拒绝 ') + approval.toolName : '⚠️ ' + (data?.error || '审批失败');
+          toolDiv.innerHTML = '<div class="content" style="font-size:0.8rem;color:var(--pico-muted-color);padding:0.25rem 0.5rem;">' + escapeHtml(text) + '</div>';
+        } catch (err) {
+          toolDiv.innerHTML = '<div class="content" style="font-size:0.8rem;color:var(--pico-muted-color);padding:0.25rem 0.5rem;">⚠️ ' + escapeHtml(err.message) + '</div>';
+        }
+        messagesContainer.insertBefore(toolDiv, messagesContainer.lastElementChild);
+        scrollToBottom();
+      }
+
       async function cancelChat() {
         if (currentAbortController) currentAbortController.abort();
         try { await fetch('/api/chat/cancel', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ group: currentGroup }) }); } catch {}
@@ -642,6 +726,7 @@ pagesRoutes.get('/logs', async (c) => {
 // ==================== 任务页面 ====================
 pagesRoutes.get('/tasks', async (c) => {
   const tasks = getTasks();
+  const calendarGroups = getCalendarGroups();
 
   const content = html`
     <div class="page-title-row">
@@ -730,6 +815,25 @@ pagesRoutes.get('/tasks', async (c) => {
       </div>
     </article>
 
+    <!-- 工作流 -->
+    <article>
+      <header class="section-title"><strong>工作流</strong></header>
+      <div id="workflow-list" hx-get="/api/workflows/cards" hx-trigger="load, every 15s, refresh" hx-swap="innerHTML">
+        <p style="color: var(--text-tertiary); font-size: 0.8rem;">加载中...</p>
+      </div>
+    </article>
+
+    <!-- 日历订阅 -->
+    ${calendarGroups.length > 0 ? html`
+      <article>
+        <header class="section-title"><strong>日历订阅</strong></header>
+        <p style="color: var(--text-tertiary); font-size: 0.8rem;">在日历应用中订阅以下地址即可查看活跃任务（只读）。局域网访问需把 Web UI 的 host 设为 0.0.0.0；启用访问密钥时在地址后加 ?token=&lt;密钥&gt;。</p>
+        <ul>
+          ${calendarGroups.map(group => html`<li><a href="/calendar/${group}.ics">/calendar/${group}.ics</a></li>`)}
+        </ul>
+      </article>
+    ` : ''}
+
     <!-- 任务详情（默认隐藏） -->
     <article id="task-detail" style="display:none;">
       <header class="section-title"><strong>任务详情</strong> <button class="outline secondary small" onclick="document.getElementById('task-detail').style.display='none'">关闭</button></header>
@@ -826,6 +930,155 @@ pagesRoutes.get('/tasks', async (c) => {
   return c.html(layout({ title: '任务', activeNav: 'tasks' }, content));
 });
 
+// ==================== 运行追踪页面 ====================
+pagesRoutes.get('/traces', async (c) => {
+  const traces = getTraces(50);
+
+  const content = html`
+    <h1 class="page-title">
+      <svg class="icon" aria-hidden="true"><use href="#icon-traces"></use></svg>
+      <span>运行追踪</span>
+    </h1>
+
+    <article>
+      <div class="table-responsive">
+        <table>
+          <thead>
+            <tr>
+              <th>运行 ID</th>
+              <th class="hide-mobile">会话</th>
+              <th class="hide-mobile">模型</th>
+              <th>开始时间</th>
+              <th>耗时</th>
+              <th class="hide-mobile">Token</th>
+              <th>状态</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${traces.length === 0
+              ? html`<tr><td colspan="7" style="text-align: center; color: var(--pico-muted-color);">暂无运行记录</td></tr>`
+              : traces.map(trace => html`
+                <tr style="cursor:pointer;" onclick="showTrace('${trace.id}')">
+                  <td><code>${trace.id.replace(/^run-/, '')}</code></td>
+                  <td class="hide-mobile">${trace.chatJid}${trace.isScheduledTask ? html` <small style="color: var(--pico-muted-color);">(定时)</small>` : ''}${trace.parentRunId ? html` <small style="color: var(--pico-muted-color);">(子任务)</small>` : ''}</td>
+                  <td class="hide-mobile">${trace.model}</td>
+                  <td>${new Date(trace.startedAt).toLocaleString('zh-CN')}</td>
+                  <td>${trace.durationMs !== null ? `${(trace.durationMs / 1000).toFixed(1)}s` : '-'}</td>
+                  <td class="hide-mobile">${trace.inputTokens !== null ? `${trace.inputTokens} / ${trace.outputTokens ?? 0}` : '-'}</td>
+                  <td>${statusBadge(trace.status)}</td>
+                </tr>
+              `)}
+          </tbody>
+        </table>
+      </div>
+    </article>
+
+    <!-- 运行详情（默认隐藏） -->
+    <article id="trace-detail" style="display:none;">
+      <header class="section-title"><strong>运行回放</strong> <button class="outline secondary small" onclick="document.getElementById('trace-detail').style.display='none'">关闭</button></header>
+      <div id="trace-detail-content"></div>
+    </article>
+
+    <script>
+      const preStyle = 'margin-top:6px;padding:12px;background:var(--code-bg);border-radius:var(--radius-md);font-size:0.75rem;white-space:pre-wrap;max-height:320px;overflow:auto;';
+
+      function formatData(data) {
+        if (data === null || data === undefined) return '';
+        return typeof data === 'string' ? data : JSON.stringify(data, null, 2);
+      }
+
+      function renderEvent(e) {
+        const time = '<td style="font-family:var(--font-mono);font-size:0.75rem;white-space:nowrap;">+' + (e.elapsedMs / 1000).toFixed(2) + 's</td>';
+        const d = e.data || {};
+        let label = e.type;
+        let body = formatData(e.data);
+        if (e.type === 'thinking') { label = '💭 思考'; }
+        else if (e.type === 'text') { label = '💬 文本'; }
+        else if (e.type === 'tool_use') { label = '🔧 调用 ' + escapeHtml(d.name || ''); body = formatData(d.input); }
+        else if (e.type === 'tool_call') {
+          label = (d.isError ? '❌' : '📦') + ' 结果 ' + escapeHtml(d.name || '') + ' (' + (d.durationMs || 0) + 'ms)';
+          body = '输入: ' + formatData(d.input) + '\\n\\n输出: ' + formatData(d.output);
+        }
+        else if (e.type === 'done') { label = '🏁 完成'; body = 'stop_reason: ' + (d.stop_reason || '-') + (d.usage ? '\\nusage: ' + JSON.stringify(d.usage) : ''); }
+        return '<tr>' + time + '<td style="font-size:0.8rem;white-space:nowrap;">' + label + '</td>'
+          + '<td><pre style="' + preStyle + 'margin-top:0;">' + escapeHtml(body) + '</pre></td></tr>';
+      }
+
+      function renderDelegations(list) {
+        let html = '<ul style="margin:8px 0 0;font-size:0.8rem;">';
+        for (const d of list) {
+          const tokens = d.inputTokens !== null ? ' · ' + d.inputTokens + ' / ' + (d.outputTokens || 0) + ' tokens' : '';
+          const link = d.childRunId
+            ? '<a href="/traces?id=' + encodeURIComponent(d.childRunId) + '">' + escapeHtml(d.agentId) + '</a>'
+            : escapeHtml(d.agentId);
+          html += '<li>🤝 ' + link + ' <small style="color:var(--text-tertiary);">[' + escapeHtml(d.status) + tokens + ']</small>'
+            + '<div style="color:var(--text-secondary);">' + escapeHtml(d.task.length > 120 ? d.task.slice(0, 120) + '...' : d.task) + '</div>'
+            + (d.error ? '<div style="color:var(--error);">' + escapeHtml(d.error) + '</div>' : '')
+            + (d.children.length > 0 ? renderDelegations(d.children) : '')
+            + '</li>';
+        }
+        return html + '</ul>';
+      }
+
+      async function showTrace(id) {
+        const detailEl = document.getElementById('trace-detail');
+        const contentEl = document.getElementById('trace-detail-content');
+        detailEl.style.display = '';
+        contentEl.innerHTML = '<p>加载中...</p>';
+        history.replaceState(null, '', '/traces?id=' + encodeURIComponent(id));
+        try {
+          const res = await fetch('/api/traces/' + encodeURIComponent(id));
+          const data = await res.json();
+          if (!data.success) { contentEl.innerHTML = '<p style="color:var(--error);">运行记录不存在</p>'; return; }
+          const t = data.trace;
+          let html = '<div class="stat-grid" style="margin-bottom: 16px;">'
+            + '<div class="stat-card"><div class="stat-label">运行 ID</div><div style="font-family:var(--font-mono);font-size:0.75rem;">' + escapeHtml(t.id) + '</div></div>'
+            + '<div class="stat-card"><div class="stat-label">会话</div><div style="font-size:0.75rem;">' + escapeHtml(t.chatJid) + (t.agentId ? ' · ' + escapeHtml(t.agentId) : '') + '</div></div>'
+            + '<div class="stat-card"><div class="stat-label">模型</div><div style="font-size:0.75rem;">' + escapeHtml(t.model) + '</div></div>'
+            + '<div class="stat-card"><div class="stat-label">提示词哈希</div><div style="font-family:var(--font-mono);font-size:0.75rem;">' + escapeHtml(t.systemPromptHash || '-') + '</div></div>'
+            + '<div class="stat-card"><div class="stat-label">耗时</div><div class="stat-value" style="font-size:1rem;">' + (t.durationMs !== null ? (t.durationMs / 1000).toFixed(1) + 's' : '-') + '</div></div>'
+            + '<div class="stat-card"><div class="stat-label">Token (入/出)</div><div class="stat-value" style="font-size:1rem;">' + (t.inputTokens !== null ? t.inputTokens + ' / ' + (t.outputTokens || 0) : '-') + '</div></div>'
+            + '</div>';
+          if (t.parentRunId) {
+            html += '<p style="font-size:0.8rem;">子 Agent 运行，由 <a href="/traces?id=' + encodeURIComponent(t.parentRunId) + '">' + escapeHtml(t.parentRunId) + '</a> 委派</p>';
+          }
+          if (t.delegations.length > 0) {
+            html += '<div style="margin-bottom: 16px;"><strong style="font-size:0.8rem;color:var(--text-tertiary);">委派（' + t.delegations.length + '）</strong>' + renderDelegations(t.delegations) + '</div>';
+          }
+          if (t.messages) {
+            html += '<details style="margin-bottom: 16px;"><summary style="font-size:0.8rem;">输入消息（' + t.messages.length + ' 条）</summary><pre style="' + preStyle + '">' + escapeHtml(JSON.stringify(t.messages, null, 2)) + '</pre></details>';
+          }
+          html += '<strong style="font-size:0.8rem;color:var(--text-tertiary);">事件回放</strong>';
+          if (t.events.length > 0) {
+            html += '<table style="margin-top:8px;"><thead><tr><th>时间</th><th>事件</th><th>内容</th></tr></thead><tbody>';
+            for (const e of t.events) html += renderEvent(e);
+            html += '</tbody></table>';
+          } else {
+            html += '<p style="color:var(--text-tertiary);font-size:0.8rem;">无事件</p>';
+          }
+          if (t.error) {
+            html += '<div style="margin-top: 16px;"><strong style="font-size:0.8rem;color:var(--error);">错误</strong><pre style="' + preStyle + '">' + escapeHtml(t.error) + '</pre></div>';
+          } else if (t.result) {
+            html += '<div style="margin-top: 16px;"><strong style="font-size:0.8rem;color:var(--text-tertiary);">最终回复</strong><pre style="' + preStyle + '">' + escapeHtml(t.result) + '</pre></div>';
+          }
+          contentEl.innerHTML = html;
+          detailEl.scrollIntoView({ behavior: 'smooth' });
+        } catch (err) { contentEl.innerHTML = '<p style="color:var(--error);">加载失败: ' + err.message + '</p>'; }
+      }
+
+      function escapeHtml(text) { const d = document.createElement('div'); d.textContent = text || ''; return d.innerHTML; }
+
+      // 支持 /traces?id=<runId> 直接打开
+      (function() {
+        const id = new URLSearchParams(location.search).get('id');
+        if (id) showTrace(id);
+      })();
+    </script>
+  `;
+
+  return c.html(layout({ title: '追踪', activeNav: 'traces' }, content));
+});
+
 // ==================== 插件页面 ====================
 pagesRoutes.get('/plugins', async (c) => {
   const plugins = getPlugins();
@@ -0,0 +1,28 @@
+/**
+ * 日历订阅服务
+ * 把群组的活跃任务导出为 iCalendar，供日历应用订阅
+ */
+
+import { getAllTasks, getTasksForGroup } from '../../../../src/db.js';
+import { exportTasksToIcs } from '../../../../src/task-calendar.js';
+
+/** 群组目录名（与注册群组时的校验一致） */
+const GROUP_PATTERN = /^[\w-]+$/;
+
+/**
+ * 有活跃任务的群组
+ */
+export function getCalendarGroups(): string[] {
+  const groups = getAllTasks()
+    .filter(task => task.status === 'active' && task.kind !== 'memory-consolidation')
+    .map(task => task.group_folder);
+  return [...new Set(groups)].sort();
+}
+
+/**
+ * 群组的 .ics 内容（群组名无效时返回 null）
+ */
+export function getGroupCalendar(group: string): string | null {
+  if (!GROUP_PATTERN.test(group)) return null;
+  return exportTasksToIcs(getTasksForGroup(group), { name: `FlashClaw - ${group}` });
+}
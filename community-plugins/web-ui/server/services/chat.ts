@@ -5,7 +5,7 @@
  */
 
 import { randomUUID } from 'crypto';
-import { getChatHistory as getStoredChatHistory, storeChatMetadata, storeMessage } from '../../../../src/db.js';
+import { getChatHistory as getStoredChatHistory, searchMessages, storeChatMetadata, storeMessage } from '../../../../src/db.js';
 
 // ==================== core-api / DB 访问 ====================
 
@@ -37,6 +37,15 @@ interface StreamMetrics {
   model: string;
   inputTokens: number | null;
   outputTokens: number | null;
+  runId: string | null;
+  provider: string | null;
+}
+
+export interface ApprovalInfo {
+  id: string;
+  toolName: string;
+  paramsPreview: string;
+  expiresAt: string;
 }
 
 const WEB_USER_ID = 'web-user';
@@ -131,6 +140,7 @@ function saveMessageToDb(role: 'user' | 'assistant', content: string, group: str
       content,
       timestamp,
       isFromMe: role === 'assistant',
+      platform: WEB_PLATFORM,
     });
   } catch (err) {
     // DB 写入失败不影响聊天功能，但记录日志以便排查数据丢失
@@ -157,6 +167,42 @@ export function getChatHistory(group = 'main', limit = 50): ChatMessage[] {
   }
 }
 
+export interface ChatSearchHit {
+  id: string;
+  chatJid: string;
+  chatName: string | null;
+  senderName: string;
+  platform: string | null;
+  snippet: string;
+  timestamp: string;
+  /** 命中消息属于 Web UI 会话时的会话 ID，可直接跳转 */
+  group: string | null;
+}
+
+/**
+ * 全文搜索聊天记录
+ * @param scope - 'group' 只搜当前会话，'all' 搜索所有渠道的聊天
+ */
+export function searchChatHistory(query: string, group = 'main', scope: 'group' | 'all' = 'group', limit = 20): ChatSearchHit[] {
+  try {
+    return searchMessages(query, {
+      chatJid: scope === 'group' ? getChatJid(group) : undefined,
+      limit,
+    }).map(msg => ({
+      id: msg.id,
+      chatJid: msg.chat_jid,
+      chatName: msg.chat_name,
+      senderName: msg.sender_name,
+      platform: msg.platform,
+      snippet: msg.snippet,
+      timestamp: msg.timestamp,
+      group: msg.chat_jid.endsWith('-chat') ? msg.chat_jid.slice(0, -'-chat'.length) : null,
+    }));
+  } catch {
+    return [];
+  }
+}
+
 /**
  * 发送消息并获取 AI 回复（非流式）
  */
@@ -186,6 +232,7 @@ export async function sendMessageStream(
     onToolUse?: (toolName: string, input: unknown) => void;
     onThinking?: (text: string) => void;
     onMetrics?: (metrics: StreamMetrics) => void;
+    onApproval?: (approval: ApprovalInfo) => void;
   },
 ): Promise<string> {
   const group = options.group || 'main';
@@ -200,6 +247,17 @@ export async function sendMessageStream(
     onToken: options.onToken,
     onToolUse: options.onToolUse,
     onThinking: options.onThinking,
+    // 工具审批请求以对话框形式推送给浏览器
+    onApprovalRequest: options.onApproval
+      ? async (_request, prompt) => {
+          options.onApproval!({
+            id: prompt.id,
+            toolName: prompt.toolName,
+            paramsPreview: prompt.paramsPreview,
+            expiresAt: prompt.expiresAt,
+          });
+        }
+      : undefined,
   });
 
   if (result.response) {
@@ -212,12 +270,22 @@ export async function sendMessageStream(
       model: result.metrics.model,
       inputTokens: result.metrics.usage?.inputTokens ?? null,
       outputTokens: result.metrics.usage?.outputTokens ?? null,
+      runId: result.metrics.runId ?? null,
+      provider: result.metrics.provider ?? null,
     });
   }
 
   return result.response;
 }
 
+/**
+ * 应答工具调用审批
+ */
+export function answerApproval(id: string, approved: boolean, group = 'main'): boolean {
+  const api = getCoreApi();
+  return api.resolveApproval(id, approved, getChatJid(group));
+}
+
 /**
  * 清空聊天历史（保留会话元数据）
  */
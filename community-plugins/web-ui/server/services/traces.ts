@@ -0,0 +1,222 @@
+/**
+ * 运行追踪服务
+ * 读取 agent_runs / agent_run_events，用于 Web UI 回放 Agent 运行
+ * 结合 agent_delegations 展示子 Agent 委派树
+ */
+
+// 使用全局数据库实例
+function getDb() {
+  const db = (global as any).__flashclaw_db;
+  if (!db) {
+    throw new Error('数据库未初始化');
+  }
+  return db;
+}
+
+interface AgentRunRow {
+  id: string;
+  chat_jid: string;
+  group_folder: string;
+  agent_id: string | null;
+  model: string;
+  system_prompt_hash: string | null;
+  messages: string | null;
+  status: string;
+  result: string | null;
+  error: string | null;
+  input_tokens: number | null;
+  output_tokens: number | null;
+  started_at: string;
+  finished_at: string | null;
+  duration_ms: number | null;
+  is_scheduled_task: number;
+  parent_run_id?: string | null;
+}
+
+interface AgentDelegationRow {
+  id: string;
+  parent_run_id: string | null;
+  child_run_id: string | null;
+  parent_agent_id: string | null;
+  agent_id: string;
+  depth: number;
+  task: string;
+  status: string;
+  error: string | null;
+  input_tokens: number | null;
+  output_tokens: number | null;
+  started_at: string;
+  finished_at: string | null;
+}
+
+interface AgentRunEventRow {
+  seq: number;
+  type: string;
+  elapsed_ms: number;
+  data: string | null;
+}
+
+export interface TraceSummary {
+  id: string;
+  chatJid: string;
+  groupFolder: string;
+  agentId: string | null;
+  model: string;
+  status: string;
+  inputTokens: number | null;
+  outputTokens: number | null;
+  startedAt: string;
+  durationMs: number | null;
+  isScheduledTask: boolean;
+  /** 作为子 Agent 运行时，发起委派的父运行 ID */
+  parentRunId: string | null;
+}
+
+export interface TraceDelegation {
+  id: string;
+  agentId: string;
+  parentAgentId: string | null;
+  depth: number;
+  task: string;
+  status: string;
+  error: string | null;
+  childRunId: string | null;
+  inputTokens: number | null;
+  outputTokens: number | null;
+  startedAt: string;
+  finishedAt: string | null;
+  /** 子 Agent 再次委派的任务 */
+  children: TraceDelegation[];
+}
+
+export interface TraceEvent {
+  seq: number;
+  type: string;
+  elapsedMs: number;
+  data: unknown;
+}
+
+export interface TraceDetail extends TraceSummary {
+  systemPromptHash: string | null;
+  messages: unknown[] | null;
+  result: string | null;
+  error: string | null;
+  finishedAt: string | null;
+  events: TraceEvent[];
+  delegations: TraceDelegation[];
+}
+
+function parseJson(text: string | null): unknown {
+  if (text === null) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+function toSummary(row: AgentRunRow): TraceSummary {
+  return {
+    id: row.id,
+    chatJid: row.chat_jid,
+    groupFolder: row.group_folder,
+    agentId: row.agent_id,
+    model: row.model,
+    status: row.status,
+    inputTokens: row.input_tokens,
+    outputTokens: row.output_tokens,
+    startedAt: row.started_at,
+    durationMs: row.duration_ms,
+    isScheduledTask: row.is_scheduled_task === 1,
+    parentRunId: row.parent_run_id ?? null,
+  };
+}
+
+// 子 Agent 运行对应的委派记录（用于标记父运行）
+const RUN_SELECT = `
+  SELECT r.*, d.parent_run_id
+  FROM agent_runs r
+  LEFT JOIN agent_delegations d ON d.child_run_id = r.id
+`;
+
+/**
+ * 递归读取某次运行发起的委派（深度受 AGENT_DELEGATION_MAX_DEPTH 限制，visited 防止异常数据成环）
+ */
+function getDelegationTree(runId: string, visited = new Set<string>()): TraceDelegation[] {
+  if (visited.has(runId)) return [];
+  visited.add(runId);
+
+  const rows = getDb().prepare(`
+    SELECT id, parent_run_id, child_run_id, parent_agent_id, agent_id, depth, task, status, error,
+           input_tokens, output_tokens, started_at, finished_at
+    FROM agent_delegations
+    WHERE parent_run_id = ?
+    ORDER BY started_at
+  `).all(runId) as AgentDelegationRow[];
+
+  return rows.map(row => ({
+    id: row.id,
+    agentId: row.agent_id,
+    parentAgentId: row.parent_agent_id,
+    depth: row.depth,
+    task: row.task,
+    status: row.status,
+    error: row.error,
+    childRunId: row.child_run_id,
+    inputTokens: row.input_tokens,
+    outputTokens: row.output_tokens,
+    startedAt: row.started_at,
+    finishedAt: row.finished_at,
+    children: row.child_run_id ? getDelegationTree(row.child_run_id, visited) : [],
+  }));
+}
+
+/**
+ * 获取最近的运行记录
+ */
+export function getTraces(limit = 50, chatJid?: string): TraceSummary[] {
+  try {
+    const rows = chatJid
+      ? getDb().prepare(`${RUN_SELECT} WHERE r.chat_jid = ? ORDER BY r.started_at DESC LIMIT ?`).all(chatJid, limit)
+      : getDb().prepare(`${RUN_SELECT} ORDER BY r.started_at DESC LIMIT ?`).all(limit);
+    return (rows as AgentRunRow[]).map(toSummary);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * 获取单次运行详情（含事件和委派树）
+ */
+export function getTrace(id: string): TraceDetail | null {
+  try {
+    const row = getDb().prepare(`${RUN_SELECT} WHERE r.id = ?`).get(id) as AgentRunRow | undefined;
+    if (!row) return null;
+
+    const events = getDb().prepare(`
+      SELECT seq, type, elapsed_ms, data
+      FROM agent_run_events
+      WHERE run_id = ?
+      ORDER BY seq
+    `).all(id) as AgentRunEventRow[];
+
+    const messages = parseJson(row.messages);
+    return {
+      ...toSummary(row),
+      systemPromptHash: row.system_prompt_hash,
+      messages: Array.isArray(messages) ? messages : null,
+      result: row.result,
+      error: row.error,
+      finishedAt: row.finished_at,
+      events: events.map(e => ({
+        seq: e.seq,
+        type: e.type,
+        elapsedMs: e.elapsed_ms,
+        data: parseJson(e.data),
+      })),
+      delegations: getDelegationTree(id),
+    };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * 工作流服务
+ * 读取工作流定义和最近一次运行，计算步骤图布局供任务页展示
+ */
+
+import {
+  getAllWorkflows,
+  getWorkflow,
+  getWorkflowRuns,
+  getWorkflowStepRuns,
+  getWorkflowSteps,
+  getWorkflowTask,
+} from '../../../../src/db.js';
+import { isWorkflowRunning, layerWorkflowSteps, toGraph } from '../../../../src/workflow.js';
+import { triggerWorkflow } from '../../../../src/task-scheduler.js';
+
+// ==================== 布局常量 ====================
+
+const NODE_WIDTH = 140;
+const NODE_HEIGHT = 36;
+const GAP_X = 60;
+const GAP_Y = 16;
+const PADDING = 8;
+
+// ==================== 类型定义 ====================
+
+export interface WorkflowGraphNode {
+  id: string;
+  prompt: string;
+  trigger: 'all' | 'any';
+  /** 最近一次运行中该步骤的状态 */
+  status: string | null;
+  x: number;
+  y: number;
+}
+
+export interface WorkflowGraphEdge {
+  from: string;
+  to: string;
+  on: 'success' | 'failure';
+}
+
+export interface WorkflowGraph {
+  nodes: WorkflowGraphNode[];
+  edges: WorkflowGraphEdge[];
+  width: number;
+  height: number;
+  nodeWidth: number;
+  nodeHeight: number;
+}
+
+export interface WorkflowInfo {
+  id: string;
+  name: string;
+  description: string | null;
+  groupFolder: string;
+  /** 定时触发（null 表示仅手动运行） */
+  schedule: { type: string; value: string; status: string; nextRun: string | null } | null;
+  running: boolean;
+  lastRun: { id: string; status: string; trigger: string; startedAt: string; error: string | null } | null;
+  graph: WorkflowGraph;
+}
+
+// ==================== 公开接口 ====================
+
+/**
+ * 获取所有工作流（含步骤图布局）
+ */
+export function getWorkflows(): WorkflowInfo[] {
+  try {
+    return getAllWorkflows().map(workflow => {
+      const steps = getWorkflowSteps(workflow.id);
+      const graph = toGraph(steps);
+      const [lastRun] = getWorkflowRuns(workflow.id, 1);
+      const stepStatus = new Map(lastRun ? getWorkflowStepRuns(lastRun.id).map(r => [r.step_id, r.status]) : []);
+      const task = getWorkflowTask(workflow.id);
+
+      // 按层从左到右排列，同层从上到下
+      const layers = layerWorkflowSteps(graph) ?? [steps.map(s => s.id)];
+      const position = new Map<string, { x: number; y: number }>();
+      layers.forEach((layer, depth) => layer.forEach((id, index) => position.set(id, {
+        x: PADDING + depth * (NODE_WIDTH + GAP_X),
+        y: PADDING + index * (NODE_HEIGHT + GAP_Y),
+      })));
+      const tallest = Math.max(1, ...layers.map(layer => layer.length));
+
+      return {
+        id: workflow.id,
+        name: workflow.name,
+        description: workflow.description,
+        groupFolder: workflow.group_folder,
+        schedule: task ? { type: task.schedule_type, value: task.schedule_value, status: task.status, nextRun: task.next_run } : null,
+        running: isWorkflowRunning(workflow.id),
+        lastRun: lastRun
+          ? { id: lastRun.id, status: lastRun.status, trigger: lastRun.trigger, startedAt: lastRun.started_at, error: lastRun.error }
+          : null,
+        graph: {
+          nodes: steps.map(step => ({
+            id: step.id,
+            prompt: step.prompt,
+            trigger: step.trigger_rule,
+            status: stepStatus.get(step.id) ?? null,
+            ...position.get(step.id)!,
+          })),
+          edges: graph.flatMap(node => [
+            ...node.onSuccess.map(to => ({ from: node.id, to, on: 'success' as const })),
+            ...node.onFailure.map(to => ({ from: node.id, to, on: 'failure' as const })),
+          ]),
+          width: PADDING * 2 + layers.length * NODE_WIDTH + (layers.length - 1) * GAP_X,
+          height: PADDING * 2 + tallest * NODE_HEIGHT + (tallest - 1) * GAP_Y,
+          nodeWidth: NODE_WIDTH,
+          nodeHeight: NODE_HEIGHT,
+        },
+      };
+    });
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * 立即运行工作流（后台执行，不等待结束）
+ */
+export function runWorkflowNow(id: string): { success: boolean; error?: string } {
+  if (!getWorkflow(id)) {
+    return { success: false, error: '工作流不存在' };
+  }
+  if (isWorkflowRunning(id)) {
+    return { success: false, error: '工作流正在运行中' };
+  }
+  triggerWorkflow(id).catch(err => {
+    console.warn('[web-ui] triggerWorkflow failed:', err);
+  });
+  return { success: true };
+}
@@ -7,7 +7,7 @@ import type { HtmlEscapedString } from 'hono/utils/html';
 
 export interface LayoutOptions {
   title: string;
-  activeNav?: 'dashboard' | 'chat' | 'logs' | 'tasks' | 'plugins';
+  activeNav?: 'dashboard' | 'chat' | 'logs' | 'traces' | 'tasks' | 'plugins';
 }
 
 /**
@@ -47,6 +47,9 @@ export function layout(options: LayoutOptions, content: HtmlEscapedString | Prom
       <line x1="8" y1="13" x2="16" y2="13"/>
       <line x1="8" y1="17" x2="13" y2="17"/>
     </symbol>
+    <symbol id="icon-traces" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="1.5" stroke-linecap="round" stroke-linejoin="round">
+      <polyline points="3 12 7 12 10 5 14 19 17 12 21 12"/>
+    </symbol>
     <symbol id="icon-tasks" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="1.5" stroke-linecap="round" stroke-linejoin="round">
       <circle cx="12" cy="12" r="9"/>
       <polyline points="12 6 12 12 16 14"/>
@@ -80,6 +83,10 @@ export function layout(options: LayoutOptions, content: HtmlEscapedString | Prom
           <svg class="icon" aria-hidden="true"><use href="#icon-logs"></use></svg>
           <span>日志</span>
         </a>
+        <a href="/traces" class="nav-link ${activeNav === 'traces' ? 'nav-active' : ''}">
+          <svg class="icon" aria-hidden="true"><use href="#icon-traces"></use></svg>
+          <span>追踪</span>
+        </a>
         <a href="/tasks" class="nav-link ${activeNav === 'tasks' ? 'nav-active' : ''}">
           <svg class="icon" aria-hidden="true"><use href="#icon-tasks"></use></svg>
           <span>任务</span>
@@ -137,6 +144,8 @@ export function statusBadge(status: string): HtmlEscapedString | Promise<HtmlEsc
     completed: { class: 'badge-muted', text: '已完成' },
     error: { class: 'badge-error', text: '错误' },
     failed: { class: 'badge-error', text: '失败' },
+    success: { class: 'badge-success', text: '成功' },
+    skipped: { class: 'badge-muted', text: '已跳过' },
     enabled: { class: 'badge-success', text: '已启用' },
     disabled: { class: 'badge-muted', text: '已禁用' },
   };
@@ -0,0 +1,82 @@
+/**
+ * 工作流卡片与步骤图（SVG）
+ */
+
+import { html } from 'hono/html';
+import type { HtmlEscapedString } from 'hono/utils/html';
+import type { WorkflowGraph, WorkflowInfo } from '../server/services/workflows.js';
+import { statusBadge } from './layout.js';
+
+const STATUS_COLORS: Record<string, string> = {
+  success: 'var(--success)',
+  error: 'var(--error)',
+  running: 'var(--warning)',
+  skipped: 'var(--text-tertiary)',
+};
+
+/**
+ * 步骤图：按层从左到右排列，绿色实线为成功边，红色虚线为失败边，节点边框颜色为最近一次运行状态
+ */
+function workflowGraph(graph: WorkflowGraph): HtmlEscapedString | Promise<HtmlEscapedString> {
+  const positions = new Map(graph.nodes.map(node => [node.id, node]));
+  const { nodeWidth: w, nodeHeight: h } = graph;
+
+  return html`
+    <svg class="workflow-graph" width="${graph.width}" height="${graph.height}" viewBox="0 0 ${graph.width} ${graph.height}" role="img">
+      ${graph.edges.map(edge => {
+        const from = positions.get(edge.from);
+        const to = positions.get(edge.to);
+        if (!from || !to) return '';
+        const x1 = from.x + w;
+        const y1 = from.y + h / 2;
+        const x2 = to.x;
+        const y2 = to.y + h / 2;
+        const mid = (x1 + x2) / 2;
+        return html`<path d="M ${x1} ${y1} C ${mid} ${y1}, ${mid} ${y2}, ${x2} ${y2}" class="workflow-edge workflow-edge-${edge.on}"><title>${edge.from} ${edge.on === 'success' ? '成功' : '失败'} → ${edge.to}</title></path>`;
+      })}
+      ${graph.nodes.map(node => html`
+        <g class="workflow-node">
+          <title>${node.prompt}</title>
+          <rect x="${node.x}" y="${node.y}" width="${w}" height="${h}" rx="8" style="stroke: ${STATUS_COLORS[node.status ?? ''] ?? 'var(--border-color)'}"></rect>
+          <text x="${node.x + w / 2}" y="${node.y + h / 2}" dominant-baseline="middle" text-anchor="middle">${node.id.length > 16 ? node.id.slice(0, 15) + '…' : node.id}${node.trigger === 'any' ? ' ∨' : ''}</text>
+        </g>
+      `)}
+    </svg>
+  `;
+}
+
+/**
+ * 工作流列表（任务页）
+ */
+export function workflowCards(workflows: WorkflowInfo[]): HtmlEscapedString | Promise<HtmlEscapedString> {
+  if (workflows.length === 0) {
+    return html`<p style="color: var(--text-tertiary); font-size: 0.8rem;">暂无工作流，使用 <code>flashclaw workflow create &lt;file.json&gt;</code> 创建</p>`;
+  }
+
+  return html`
+    ${workflows.map(wf => html`
+      <div class="workflow-card">
+        <div class="workflow-card-header">
+          <div>
+            <strong>${wf.name}</strong> <code>${wf.id}</code>
+            <div class="workflow-meta">
+              群组 ${wf.groupFolder} ·
+              ${wf.schedule ? html`${wf.schedule.type} ${wf.schedule.value} ${statusBadge(wf.schedule.status)}` : '仅手动运行'}
+              ${wf.schedule?.nextRun ? html` · 下次 ${new Date(wf.schedule.nextRun).toLocaleString('zh-CN')}` : ''}
+            </div>
+            <div class="workflow-meta">
+              ${wf.running
+                ? statusBadge('running')
+                : wf.lastRun
+                  ? html`上次运行 ${new Date(wf.lastRun.startedAt).toLocaleString('zh-CN')} ${statusBadge(wf.lastRun.status)}`
+                  : '尚未运行'}
+            </div>
+          </div>
+          <button class="outline small" ${wf.running ? 'disabled' : ''} hx-post="/api/workflows/${wf.id}/run" hx-swap="none" hx-on::after-request="htmx.trigger('#workflow-list', 'refresh')">立即运行</button>
+        </div>
+        <div class="workflow-graph-wrap">${workflowGraph(wf.graph)}</div>
+        ${wf.lastRun?.error && !wf.running ? html`<div class="workflow-error">${wf.lastRun.error}</div>` : ''}
+      </div>
+    `)}
+  `;
+}
@@ -0,0 +1,450 @@
+/**
+ * FlashClaw Webhook 渠道插件
+ *
+ * 让内部系统（CI、监控、工单等）通过 HTTP 与 Agent 对话，无需单独写渠道插件：
+ * - 入站：POST /webhook/<source>，JSON 请求体，每个来源独立的 HMAC 密钥签名
+ * - 出站：来源配置了 callbackUrl 时签名后 POST 到回调地址，否则暂存，由来源调用 /webhook/<source>/poll 取回
+ *
+ * 签名：
+ *   X-FlashClaw-Timestamp: <Unix 秒>
+ *   X-FlashClaw-Signature: sha256=<hex(HMAC-SHA256(secret, `${timestamp}.${rawBody}`))>
+ *   时间戳与服务器相差超过 5 分钟的请求会被拒绝（防重放），回调请求使用相同的签名方式
+ *
+ * 会话：chatId 为 webhook.<source>.<hash> 或 webhook.<source>.<conversation>.<hash>，同一 conversation 共享上下文
+ *   <hash> 是来源名和会话 ID 的短哈希，保证按 chatId 末 8 位生成的群组目录互不冲突
+ *
+ * 配置：
+ *   WEBHOOK_PORT     - 监听端口（默认 3200）
+ *   WEBHOOK_HOST     - 监听地址（默认 127.0.0.1）
+ *   WEBHOOK_SOURCES  - 可选，来源配置 JSON；未设置时读取 ~/.flashclaw/config/webhooks.json
+ *
+ * webhooks.json 示例（值支持 ${VAR} 环境变量替换）：
+ *   { "sources": { "ci": { "secret": "${CI_WEBHOOK_SECRET}", "callbackUrl": "https://ci.internal/flashclaw" },
+ *                  "monitor": { "secret": "..." } } }
+ */
+
+import fs from 'fs';
+import http from 'http';
+import path from 'path';
+import { createHash, createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { createLogger } from '../../src/logger.js';
+import { paths } from '../../src/paths.js';
+import { substituteEnvVarsDeep } from '../../src/utils/env-substitute.js';
+import type {
+  ChannelPlugin,
+  PluginConfig,
+  MessageHandler,
+  Message,
+  SendMessageResult,
+} from '../../src/plugins/types.js';
+
+const logger = createLogger('WebhookPlugin');
+
+const PLATFORM = 'webhook';
+// 来源名和会话 ID 只允许字母数字、下划线和连字符（会出现在 chatId 和群组目录名中）
+const ID_RE = /^[A-Za-z0-9_-]{1,64}$/;
+// 签名时间戳允许的偏差（秒）
+const SIGNATURE_TOLERANCE_SEC = 300;
+// 请求体大小上限
+const MAX_BODY_BYTES = 1024 * 1024;
+// 回调请求超时
+const CALLBACK_TIMEOUT_MS = 10000;
+// 每个来源最多暂存的回复数（超出丢弃最旧的）
+const MAX_PENDING_REPLIES = 100;
+// 记住已回调的消息数（用于 updateMessage）
+const MAX_DELIVERED_IDS = 500;
+// 入站消息去重 TTL（覆盖签名时间戳前后的有效期，防止原样重放）
+const DEDUP_TTL_MS = 2 * SIGNATURE_TOLERANCE_SEC * 1000;
+
+export interface WebhookSource {
+  secret: string;
+  /** 回复回调地址；不配置时回复暂存等待轮询 */
+  callbackUrl?: string;
+}
+
+/** 发给来源的回复（回调请求体 / 轮询结果） */
+export interface WebhookReply {
+  id: string;
+  source: string;
+  conversation?: string;
+  chatId: string;
+  text: string;
+  timestamp: string;
+  /** 更新之前发出的回复时，指向被替换的回复 ID（如 "正在思考..." 占位消息） */
+  replaces?: string;
+}
+
+class HttpError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * 计算签名（入站校验和回调签名共用，也可供调用方参考实现）
+ */
+export function signWebhook(secret: string, timestamp: string, body: string): string {
+  return 'sha256=' + createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+function verifySignature(secret: string, timestamp: string | undefined, signature: string | undefined, body: string): boolean {
+  if (!timestamp || !signature || !/^\d+$/.test(timestamp)) return false;
+  if (Math.abs(Date.now() / 1000 - Number(timestamp)) > SIGNATURE_TOLERANCE_SEC) return false;
+  const expected = Buffer.from(signWebhook(secret, timestamp, body));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * 解析来源配置（对象或 JSON 字符串），忽略无效条目
+ */
+function parseSources(raw: unknown): Map<string, WebhookSource> {
+  const parsed = typeof raw === 'string' ? JSON.parse(raw) : raw;
+  const entries = (parsed && typeof parsed === 'object' && 'sources' in parsed ? (parsed as { sources: unknown }).sources : parsed) ?? {};
+  const sources = new Map<string, WebhookSource>();
+
+  for (const [name, value] of Object.entries(substituteEnvVarsDeep(entries as Record<string, unknown>))) {
+    const source = value as Partial<WebhookSource> | null;
+    if (!ID_RE.test(name) || typeof source?.secret !== 'string' || !source.secret) {
+      logger.warn({ source: name }, 'Webhook 来源配置无效（名称只能包含字母数字、_、-，且必须配置 secret），已忽略');
+      continue;
+    }
+    sources.set(name, {
+      secret: source.secret,
+      callbackUrl: typeof source.callbackUrl === 'string' && source.callbackUrl ? source.callbackUrl : undefined,
+    });
+  }
+  return sources;
+}
+
+/**
+ * 会话 chatId（末段为短哈希，核心按 chatId 末 8 位生成群组目录时不会冲突）
+ */
+export function webhookChatId(source: string, conversation?: string): string {
+  const key = conversation ? `${source}.${conversation}` : source;
+  return `${PLATFORM}.${key}.${createHash('sha256').update(key).digest('hex').slice(0, 8)}`;
+}
+
+function parseChatId(chatId: string): { source: string; conversation?: string } | null {
+  const [prefix, source, ...rest] = chatId.split('.');
+  if (prefix !== PLATFORM || !source || rest.length < 1 || rest.length > 2) return null;
+  const conversation = rest.length === 2 ? rest[0] : undefined;
+  return webhookChatId(source, conversation) === chatId ? { source, conversation } : null;
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, '请求体过大'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+    req.on('error', reject);
+  });
+}
+
+function sendJson(res: http.ServerResponse, status: number, data: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(data));
+}
+
+// ============================================================================
+// 插件实现
+// ============================================================================
+
+const plugin = {
+  name: 'webhook',
+  version: '1.0.0',
+
+  // 内部状态
+  _server: null as http.Server | null,
+  _handler: null as MessageHandler | null,
+  _host: '127.0.0.1',
+  _port: 3200,
+  _sources: new Map<string, WebhookSource>(),
+  _pending: new Map<string, WebhookReply[]>(),
+  _delivered: new Map<string, WebhookReply>(),
+  _seenMessages: new Map<string, number>(),
+
+  async init(config: PluginConfig): Promise<void> {
+    let rawSources: unknown = config.sources;
+    if (!rawSources) {
+      const file = path.join(paths.config(), 'webhooks.json');
+      if (fs.existsSync(file)) {
+        rawSources = fs.readFileSync(file, 'utf-8');
+      }
+    }
+
+    try {
+      this._sources = rawSources ? parseSources(rawSources) : new Map();
+    } catch (err) {
+      throw new Error(`Webhook 来源配置解析失败: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    if (this._sources.size === 0) {
+      throw new Error(
+        'Webhook 来源未配置。\n'
+        + '  在 ~/.flashclaw/config/webhooks.json 中添加: { "sources": { "ci": { "secret": "随机密钥" } } }\n'
+        + '  或设置环境变量 WEBHOOK_SOURCES（同样格式的 JSON）',
+      );
+    }
+
+    this._host = String(config.host || '127.0.0.1');
+    this._port = config.port !== undefined ? Number(config.port) : 3200;
+    logger.info({ sources: [...this._sources.keys()] }, '⚡ Webhook 插件已初始化');
+  },
+
+  onMessage(handler: MessageHandler): void {
+    this._handler = handler;
+  },
+
+  async start(): Promise<void> {
+    const server = http.createServer((req, res) => {
+      this._handleRequest(req, res).catch((err: unknown) => {
+        if (err instanceof HttpError) {
+          sendJson(res, err.status, { error: err.message });
+          return;
+        }
+        logger.error({ err, url: req.url }, '处理 Webhook 请求失败');
+        sendJson(res, 500, { error: '内部错误' });
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this._port, this._host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    const address = server.address();
+    if (address && typeof address === 'object') {
+      this._port = address.port;
+    }
+    this._server = server;
+    logger.info({ url: `http://${this._host}:${this._port}/webhook/<source>` }, '⚡ Webhook 服务已启动');
+  },
+
+  async stop(): Promise<void> {
+    const server = this._server;
+    if (server) {
+      server.closeAllConnections();
+      await new Promise<void>(resolve => server.close(() => resolve()));
+      this._server = null;
+    }
+    this._pending.clear();
+    this._delivered.clear();
+    this._seenMessages.clear();
+    logger.info('⚡ Webhook 插件已停止');
+  },
+
+  async sendMessage(chatId: string, content: string): Promise<SendMessageResult> {
+    const target = parseChatId(chatId);
+    const source = target && this._sources.get(target.source);
+    if (!target || !source) {
+      return { success: false, error: `不是 Webhook 会话: ${chatId}` };
+    }
+
+    const reply: WebhookReply = {
+      id: `wh-out-${randomUUID()}`,
+      source: target.source,
+      conversation: target.conversation,
+      chatId,
+      text: content,
+      timestamp: new Date().toISOString(),
+    };
+
+    try {
+      await this._deliver(source, reply);
+      return { success: true, messageId: reply.id };
+    } catch (err) {
+      const error = err instanceof Error ? err.message : String(err);
+      logger.error({ chatId, err: error }, 'Webhook 回复投递失败');
+      return { success: false, error };
+    }
+  },
+
+  async updateMessage(messageId: string, content: string): Promise<void> {
+    // 还没被取走的回复直接替换内容
+    for (const replies of this._pending.values()) {
+      const pending = replies.find(r => r.id === messageId);
+      if (pending) {
+        pending.text = content;
+        return;
+      }
+    }
+
+    // 已回调的回复：发出一条替换它的新回复
+    const delivered = this._delivered.get(messageId);
+    const source = delivered && this._sources.get(delivered.source);
+    if (!delivered || !source) {
+      throw new Error(`Webhook 回复不存在或已被取走: ${messageId}`);
+    }
+    await this._deliver(source, {
+      ...delivered,
+      id: `wh-out-${randomUUID()}`,
+      text: content,
+      timestamp: new Date().toISOString(),
+      replaces: messageId,
+    });
+  },
+
+  async deleteMessage(messageId: string): Promise<void> {
+    for (const replies of this._pending.values()) {
+      const index = replies.findIndex(r => r.id === messageId);
+      if (index !== -1) {
+        replies.splice(index, 1);
+        return;
+      }
+    }
+  },
+
+  // ── 内部方法 ─────────────────────────────────────────────
+
+  /**
+   * 回调或暂存一条回复
+   */
+  async _deliver(source: WebhookSource, reply: WebhookReply): Promise<void> {
+    if (!source.callbackUrl) {
+      const replies = this._pending.get(reply.source) ?? [];
+      replies.push(reply);
+      if (replies.length > MAX_PENDING_REPLIES) {
+        replies.splice(0, replies.length - MAX_PENDING_REPLIES);
+      }
+      this._pending.set(reply.source, replies);
+      return;
+    }
+
+    const body = JSON.stringify(reply);
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const response = await fetch(source.callbackUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-FlashClaw-Timestamp': timestamp,
+        'X-FlashClaw-Signature': signWebhook(source.secret, timestamp, body),
+      },
+      body,
+      signal: AbortSignal.timeout(CALLBACK_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(`回调返回 HTTP ${response.status}`);
+    }
+
+    this._delivered.set(reply.id, reply);
+    if (this._delivered.size > MAX_DELIVERED_IDS) {
+      const oldest = this._delivered.keys().next().value;
+      if (oldest !== undefined) this._delivered.delete(oldest);
+    }
+  },
+
+  async _handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const match = url.pathname.match(/^\/webhook\/([^/]+)(\/poll)?\/?$/);
+    if (!match) {
+      throw new HttpError(404, 'Not Found');
+    }
+    if (req.method !== 'POST') {
+      throw new HttpError(405, '只支持 POST');
+    }
+
+    const sourceName = match[1];
+    const source = this._sources.get(sourceName);
+    if (!source) {
+      throw new HttpError(404, `未知来源: ${sourceName}`);
+    }
+
+    const rawBody = await readBody(req);
+    const timestamp = req.headers['x-flashclaw-timestamp'];
+    const signature = req.headers['x-flashclaw-signature'];
+    if (!verifySignature(source.secret, typeof timestamp === 'string' ? timestamp : undefined, typeof signature === 'string' ? signature : undefined, rawBody)) {
+      logger.warn({ source: sourceName }, 'Webhook 签名校验失败');
+      throw new HttpError(401, '签名无效或已过期');
+    }
+
+    let body: Record<string, unknown>;
+    try {
+      const parsed = rawBody ? JSON.parse(rawBody) : {};
+      if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) throw new Error('not an object');
+      body = parsed;
+    } catch {
+      throw new HttpError(400, '请求体必须是 JSON 对象');
+    }
+
+    const conversation = body.conversation;
+    if (conversation !== undefined && (typeof conversation !== 'string' || !ID_RE.test(conversation))) {
+      throw new HttpError(400, 'conversation 只能包含字母数字、_、-（最长 64）');
+    }
+
+    if (match[2]) {
+      sendJson(res, 200, { replies: this._takePending(sourceName, conversation) });
+      return;
+    }
+
+    const message = this._toMessage(sourceName, body, conversation);
+    // 按消息 ID 和签名去重：没有 id 的请求被原样重放时签名相同
+    if (this._isDuplicate(message.id) || this._isDuplicate(`sig:${sourceName}:${signature}`)) {
+      sendJson(res, 200, { accepted: false, duplicate: true, messageId: message.id });
+      return;
+    }
+
+    const handler = this._handler;
+    if (!handler) {
+      throw new HttpError(503, '渠道尚未就绪');
+    }
+    // 处理结果通过回调或轮询返回，这里不等待 Agent 运行
+    handler(message).catch(err => logger.error({ err, chatId: message.chatId }, '处理 Webhook 消息失败'));
+    sendJson(res, 202, { accepted: true, messageId: message.id, chatId: message.chatId });
+  },
+
+  _toMessage(source: string, body: Record<string, unknown>, conversation: string | undefined): Message {
+    const text = typeof body.text === 'string' ? body.text.trim() : '';
+    if (!text) {
+      throw new HttpError(400, '缺少 text');
+    }
+
+    const sender = (body.sender && typeof body.sender === 'object' ? body.sender : {}) as { id?: unknown; name?: unknown };
+    const senderId = typeof sender.id === 'string' && sender.id ? sender.id : source;
+    return {
+      id: typeof body.id === 'string' && body.id ? `wh-${source}-${body.id}` : `wh-${source}-${randomUUID()}`,
+      chatId: webhookChatId(source, conversation),
+      senderId,
+      senderName: typeof sender.name === 'string' && sender.name ? sender.name : senderId,
+      content: text,
+      timestamp: new Date().toISOString(),
+      // 来源都是明确发给 Agent 的消息，按私聊处理（无需 @ 触发）
+      chatType: 'p2p',
+      platform: PLATFORM,
+      raw: body,
+    };
+  },
+
+  _isDuplicate(messageId: string): boolean {
+    const now = Date.now();
+    for (const [id, ts] of this._seenMessages) {
+      if (now - ts > DEDUP_TTL_MS) this._seenMessages.delete(id);
+    }
+    if (this._seenMessages.has(messageId)) return true;
+    this._seenMessages.set(messageId, now);
+    return false;
+  },
+
+  /**
+   * 取走暂存的回复（指定 conversation 时只取该会话的）
+   */
+  _takePending(source: string, conversation: string | undefined): WebhookReply[] {
+    const replies = this._pending.get(source) ?? [];
+    const taken = replies.filter(r => conversation === undefined || r.conversation === conversation);
+    this._pending.set(source, replies.filter(r => !taken.includes(r)));
+    return taken;
+  },
+};
+
+export default plugin as ChannelPlugin & typeof plugin;
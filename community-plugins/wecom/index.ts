@@ -0,0 +1,662 @@
+/**
+ * FlashClaw 企业微信渠道插件
+ *
+ * 功能：
+ * - 自建应用：HTTP 回调接收单聊消息（加密校验），Markdown 回复，图片/文件上传发送，撤回消息（deleteMessage）
+ * - 工具调用审批：自建应用发送按钮交互模板卡片
+ * - 群聊：企业微信自建应用收不到群消息，群内 @ 需要配置智能机器人（WECOM_BOT_*），
+ *   机器人在群里被 @ 时回调，通过回调中的 response_url 回复 Markdown
+ *
+ * 企业微信消息不支持编辑，因此没有 "正在思考..." 提示和流式回复
+ * 回调地址需要能被企业微信服务器访问（公网域名或反向代理），并在应用后台配置可信 IP
+ *
+ * 配置环境变量：
+ *   WECOM_CORP_ID            - 企业 ID
+ *   WECOM_CORP_SECRET        - 自建应用 Secret
+ *   WECOM_AGENT_ID           - 自建应用 AgentId
+ *   WECOM_TOKEN              - 自建应用 "接收消息" 的 Token
+ *   WECOM_ENCODING_AES_KEY   - 自建应用 "接收消息" 的 EncodingAESKey
+ *   WECOM_BOT_TOKEN          - 可选，智能机器人回调 Token
+ *   WECOM_BOT_ENCODING_AES_KEY - 可选，智能机器人回调 EncodingAESKey
+ *   WECOM_PORT / WECOM_HOST  - 回调服务监听地址（默认 0.0.0.0:3400）
+ *
+ * 回调地址：自建应用 http(s)://<域名>/wecom/callback，智能机器人 http(s)://<域名>/wecom/bot
+ */
+
+import fs from 'fs';
+import http from 'http';
+import path from 'path';
+import { createLogger } from '../../src/logger.js';
+import type {
+  ApprovalPrompt,
+  Attachment,
+  ChannelPlugin,
+  PluginConfig,
+  MessageHandler,
+  Message,
+  SendMessageResult,
+} from '../../src/plugins/types.js';
+import { WeComCrypto, parseXmlFields, splitUtf8 } from './wecom-utils.js';
+
+const logger = createLogger('WeComPlugin');
+
+const API_BASE = 'https://qyapi.weixin.qq.com/cgi-bin';
+// 自建应用 Markdown 消息上限 2048 字节
+const APP_MAX_BYTES = 2048;
+// 智能机器人 Markdown 消息上限 20480 字节
+const BOT_MAX_BYTES = 20480;
+const MAX_BODY_BYTES = 1024 * 1024;
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+// 去重 TTL (5 分钟)：企业微信 5 秒内未收到响应会重试推送
+const DEDUP_TTL_MS = 5 * 60 * 1000;
+// response_url 有效期 1 小时，且只能使用一次
+const RESPONSE_URL_TTL_MS = 55 * 60 * 1000;
+const REQUEST_TIMEOUT_MS = 15000;
+
+/** 智能机器人回调消息（解密后的 JSON） */
+interface WeComBotMessage {
+  msgid: string;
+  aibotid?: string;
+  chatid?: string;
+  chattype: 'single' | 'group';
+  from: { userid: string };
+  response_url?: string;
+  msgtype: string;
+  text?: { content?: string };
+  image?: { url?: string };
+  mixed?: { msg_item?: Array<{ msgtype: string; text?: { content?: string }; image?: { url?: string } }> };
+  voice?: { content?: string };
+}
+
+interface ResponseUrl {
+  url: string;
+  expiresAt: number;
+}
+
+/**
+ * 会话 ID：自建应用单聊为 user:<userid>；智能机器人会话为 bot:<chatid>（单聊时为 userid）
+ */
+function parseChatId(chatId: string): { kind: 'user' | 'bot'; id: string } | null {
+  const match = chatId.match(/^(user|bot):(.+)$/);
+  if (!match) return null;
+  return { kind: match[1] as 'user' | 'bot', id: match[2] };
+}
+
+/**
+ * 群聊中的文本以 "@机器人名 " 开头，去掉开头的 @
+ */
+function stripLeadingMention(text: string): string {
+  return text.replace(/^\s*@\S+\s*/, '').trim();
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('请求体过大'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+    req.on('error', reject);
+  });
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+// ============================================================================
+// 插件实现
+// ============================================================================
+
+class WeComChannelPlugin implements ChannelPlugin {
+  name = 'wecom';
+  version = '1.0.0';
+
+  private server: http.Server | null = null;
+  private handler: MessageHandler | null = null;
+  private host = '0.0.0.0';
+  private port = 3400;
+  private corpId = '';
+  private corpSecret = '';
+  private agentId = 0;
+  private appCrypto: WeComCrypto | null = null;
+  private botCrypto: WeComCrypto | null = null;
+  private accessToken = '';
+  private accessTokenExpiresAt = 0;
+  private seenMessages = new Map<string, number>();
+  private responseUrls = new Map<string, ResponseUrl[]>();
+
+  async init(config: PluginConfig): Promise<void> {
+    const str = (key: string, env: string) => String(config[key] || process.env[env] || '').trim();
+
+    this.corpId = str('corpId', 'WECOM_CORP_ID');
+    this.corpSecret = str('corpSecret', 'WECOM_CORP_SECRET');
+    this.agentId = Number(str('agentId', 'WECOM_AGENT_ID')) || 0;
+    const token = str('token', 'WECOM_TOKEN');
+    const aesKey = str('encodingAesKey', 'WECOM_ENCODING_AES_KEY');
+    const botToken = str('botToken', 'WECOM_BOT_TOKEN');
+    const botAesKey = str('botEncodingAesKey', 'WECOM_BOT_ENCODING_AES_KEY');
+
+    const appConfigured = !!(this.corpId && this.corpSecret && this.agentId && token && aesKey);
+    const botConfigured = !!(botToken && botAesKey);
+    if (!appConfigured && !botConfigured) {
+      throw new Error(
+        '企业微信未配置。需要设置:\n'
+        + '  自建应用: WECOM_CORP_ID、WECOM_CORP_SECRET、WECOM_AGENT_ID、WECOM_TOKEN、WECOM_ENCODING_AES_KEY\n'
+        + '  和/或群聊智能机器人: WECOM_BOT_TOKEN、WECOM_BOT_ENCODING_AES_KEY',
+      );
+    }
+
+    if (appConfigured) {
+      this.appCrypto = new WeComCrypto(token, aesKey, this.corpId);
+    }
+    if (botConfigured) {
+      // 智能机器人回调的 receiveId 为空
+      this.botCrypto = new WeComCrypto(botToken, botAesKey);
+    }
+
+    this.host = str('host', 'WECOM_HOST') || '0.0.0.0';
+    this.port = config.port !== undefined ? Number(config.port) : Number(process.env.WECOM_PORT) || 3400;
+    logger.info({ app: appConfigured, bot: botConfigured }, '⚡ 企业微信插件已初始化');
+  }
+
+  onMessage(handler: MessageHandler): void {
+    this.handler = handler;
+  }
+
+  async start(): Promise<void> {
+    if (this.appCrypto) {
+      // 先验证凭证
+      await this.getAccessToken();
+    }
+
+    const server = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch((err: unknown) => {
+        logger.error({ err: errorMessage(err), url: req.url }, '处理企业微信回调失败');
+        if (!res.headersSent) {
+          res.writeHead(400);
+          res.end();
+        }
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.port, this.host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+    this.server = server;
+    logger.info({ host: this.host, port: this.port }, '⚡ 企业微信回调服务已启动');
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (server) {
+      server.closeAllConnections();
+      await new Promise<void>(resolve => server.close(() => resolve()));
+      this.server = null;
+    }
+    this.seenMessages.clear();
+    this.responseUrls.clear();
+    logger.info('⚡ 企业微信插件已停止');
+  }
+
+  async sendMessage(chatId: string, content: string): Promise<SendMessageResult> {
+    const target = parseChatId(chatId);
+    if (!target) {
+      return { success: false, error: `不是企业微信会话: ${chatId}` };
+    }
+
+    try {
+      if (target.kind === 'bot') {
+        await this.replyViaBot(chatId, content);
+        return { success: true };
+      }
+
+      let lastId: string | undefined;
+      for (const chunk of splitUtf8(content, APP_MAX_BYTES)) {
+        lastId = await this.sendAppMessage(target.id, { msgtype: 'markdown', markdown: { content: chunk } });
+      }
+      return { success: true, messageId: lastId };
+    } catch (err) {
+      logger.error({ chatId, err: errorMessage(err) }, '发送企业微信消息失败');
+      return { success: false, error: errorMessage(err) };
+    }
+  }
+
+  /**
+   * 撤回自建应用发出的消息（24 小时内）
+   */
+  async deleteMessage(messageId: string): Promise<void> {
+    if (!this.appCrypto) return;
+    try {
+      await this.api('/message/recall', { msgid: messageId });
+    } catch (err) {
+      logger.warn({ messageId, err: errorMessage(err) }, '撤回企业微信消息失败');
+    }
+  }
+
+  async sendImage(chatId: string, imageData: string | Buffer, caption?: string): Promise<SendMessageResult> {
+    const target = parseChatId(chatId);
+    if (target?.kind !== 'user') {
+      return { success: false, error: '企业微信智能机器人会话不支持发送图片' };
+    }
+
+    let buffer: Buffer;
+    let mimeType = 'image/png';
+    if (Buffer.isBuffer(imageData)) {
+      buffer = imageData;
+    } else if (imageData.startsWith('data:')) {
+      const match = imageData.match(/^data:([^;]+);base64,(.+)$/);
+      if (!match) return { success: false, error: '无效的 data URL' };
+      mimeType = match[1];
+      buffer = Buffer.from(match[2], 'base64');
+    } else if (fs.existsSync(imageData)) {
+      buffer = fs.readFileSync(imageData);
+    } else {
+      buffer = Buffer.from(imageData, 'base64');
+    }
+
+    try {
+      const ext = mimeType.split('/')[1] || 'png';
+      const mediaId = await this.uploadMedia('image', buffer, `image.${ext}`, mimeType);
+      const messageId = await this.sendAppMessage(target.id, { msgtype: 'image', image: { media_id: mediaId } });
+      if (caption?.trim()) {
+        await this.sendMessage(chatId, caption.trim());
+      }
+      return { success: true, messageId };
+    } catch (err) {
+      logger.error({ chatId, err: errorMessage(err) }, '发送企业微信图片失败');
+      return { success: false, error: errorMessage(err) };
+    }
+  }
+
+  async sendFile(chatId: string, filePath: string, fileName?: string): Promise<SendMessageResult> {
+    const target = parseChatId(chatId);
+    if (target?.kind !== 'user') {
+      return { success: false, error: '企业微信智能机器人会话不支持发送文件' };
+    }
+    if (!fs.existsSync(filePath)) {
+      return { success: false, error: `文件不存在: ${filePath}` };
+    }
+
+    try {
+      const name = fileName || path.basename(filePath);
+      const mediaId = await this.uploadMedia('file', fs.readFileSync(filePath), name, 'application/octet-stream');
+      const messageId = await this.sendAppMessage(target.id, { msgtype: 'file', file: { media_id: mediaId } });
+      return { success: true, messageId };
+    } catch (err) {
+      logger.error({ chatId, err: errorMessage(err) }, '发送企业微信文件失败');
+      return { success: false, error: errorMessage(err) };
+    }
+  }
+
+  /**
+   * 自建应用发送按钮交互卡片，点击后回调 template_card_event 转换为 /approve 或 /deny
+   * 智能机器人会话发送文本提示
+   */
+  async sendApprovalRequest(chatId: string, prompt: ApprovalPrompt): Promise<SendMessageResult> {
+    const target = parseChatId(chatId);
+    if (target?.kind !== 'user') {
+      return this.sendMessage(chatId, prompt.text);
+    }
+
+    try {
+      const messageId = await this.sendAppMessage(target.id, {
+        msgtype: 'template_card',
+        template_card: {
+          card_type: 'button_interaction',
+          main_title: { title: '🔐 工具调用需要确认', desc: `工具: ${prompt.toolName}` },
+          sub_title_text: `参数: ${prompt.paramsPreview}`.slice(0, 500),
+          task_id: `approval-${prompt.id}-${Date.now()}`,
+          button_list: [
+            { text: '允许', style: 1, key: `approve:${prompt.id}` },
+            { text: '拒绝', style: 2, key: `deny:${prompt.id}` },
+          ],
+        },
+      });
+      return { success: true, messageId };
+    } catch (err) {
+      logger.error({ chatId, err: errorMessage(err) }, '发送企业微信审批卡片失败');
+      return { success: false, error: errorMessage(err) };
+    }
+  }
+
+  // ─── 自建应用 API ─────────────────────────────────────────────────
+
+  private async getAccessToken(): Promise<string> {
+    if (this.accessToken && Date.now() < this.accessTokenExpiresAt) {
+      return this.accessToken;
+    }
+
+    const url = `${API_BASE}/gettoken?corpid=${encodeURIComponent(this.corpId)}&corpsecret=${encodeURIComponent(this.corpSecret)}`;
+    const response = await fetch(url, { signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+    const data = await response.json().catch(() => ({})) as { errcode?: number; errmsg?: string; access_token?: string; expires_in?: number };
+    if (data.errcode || !data.access_token) {
+      throw new Error(`获取企业微信 access_token 失败: ${data.errmsg || `HTTP ${response.status}`}`);
+    }
+
+    this.accessToken = data.access_token;
+    // 提前 5 分钟刷新
+    this.accessTokenExpiresAt = Date.now() + ((data.expires_in ?? 7200) - 300) * 1000;
+    return this.accessToken;
+  }
+
+  private async api<T = Record<string, unknown>>(apiPath: string, body: unknown): Promise<T> {
+    const token = encodeURIComponent(await this.getAccessToken());
+    const response = await fetch(`${API_BASE}${apiPath}?access_token=${token}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    const data = await response.json().catch(() => ({})) as T & { errcode?: number; errmsg?: string };
+    if (!response.ok || data.errcode) {
+      // access_token 失效时下次重新获取
+      if (data.errcode === 40014 || data.errcode === 42001) this.accessToken = '';
+      throw new Error(`${data.errcode ?? response.status}: ${data.errmsg || response.statusText}`);
+    }
+    return data;
+  }
+
+  private async sendAppMessage(userId: string, payload: Record<string, unknown>): Promise<string | undefined> {
+    const result = await this.api<{ msgid?: string }>('/message/send', {
+      touser: userId,
+      agentid: this.agentId,
+      ...payload,
+    });
+    return result.msgid;
+  }
+
+  private async uploadMedia(type: 'image' | 'file', buffer: Buffer, fileName: string, mimeType: string): Promise<string> {
+    const form = new FormData();
+    form.append('media', new Blob([new Uint8Array(buffer)], { type: mimeType }), fileName);
+    const token = encodeURIComponent(await this.getAccessToken());
+    const response = await fetch(`${API_BASE}/media/upload?access_token=${token}&type=${type}`, {
+      method: 'POST',
+      body: form,
+      signal: AbortSignal.timeout(60000),
+    });
+    const data = await response.json().catch(() => ({})) as { errcode?: number; errmsg?: string; media_id?: string };
+    if (data.errcode || !data.media_id) {
+      throw new Error(`上传企业微信临时素材失败: ${data.errmsg || `HTTP ${response.status}`}`);
+    }
+    return data.media_id;
+  }
+
+  // ─── 智能机器人回复 ───────────────────────────────────────────────
+
+  /**
+   * 使用会话中最近一条消息的 response_url 回复（每个 response_url 只能用一次）
+   */
+  private async replyViaBot(chatId: string, content: string): Promise<void> {
+    const now = Date.now();
+    const urls = (this.responseUrls.get(chatId) ?? []).filter(entry => entry.expiresAt > now);
+    const chunks = splitUtf8(content, BOT_MAX_BYTES);
+
+    for (let i = 0; i < chunks.length; i++) {
+      const entry = urls.pop();
+      if (!entry) {
+        if (i === 0) throw new Error('没有可用的 response_url（智能机器人只能回复最近 1 小时内收到的消息）');
+        logger.warn({ chatId, dropped: chunks.length - i }, 'response_url 已用完，剩余内容未发送');
+        break;
+      }
+      const response = await fetch(entry.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ msgtype: 'markdown', markdown: { content: chunks[i] } }),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      const data = await response.json().catch(() => ({})) as { errcode?: number; errmsg?: string };
+      if (!response.ok || data.errcode) {
+        throw new Error(`${data.errcode ?? response.status}: ${data.errmsg || response.statusText}`);
+      }
+    }
+    this.responseUrls.set(chatId, urls);
+  }
+
+  // ─── 回调 ─────────────────────────────────────────────────────────
+
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const crypto = url.pathname === '/wecom/callback' ? this.appCrypto
+      : url.pathname === '/wecom/bot' ? this.botCrypto
+        : null;
+    if (!crypto) {
+      res.writeHead(404);
+      res.end();
+      return;
+    }
+
+    const signature = url.searchParams.get('msg_signature') || '';
+    const timestamp = url.searchParams.get('timestamp') || '';
+    const nonce = url.searchParams.get('nonce') || '';
+
+    // 保存回调配置时的 URL 验证
+    if (req.method === 'GET') {
+      const echostr = url.searchParams.get('echostr') || '';
+      if (!crypto.verify(signature, timestamp, nonce, echostr)) {
+        res.writeHead(403);
+        res.end();
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'text/plain' });
+      res.end(crypto.decrypt(echostr));
+      return;
+    }
+    if (req.method !== 'POST') {
+      res.writeHead(405);
+      res.end();
+      return;
+    }
+
+    const body = await readBody(req);
+    const isBot = crypto === this.botCrypto;
+    // 自建应用回调为 XML，智能机器人回调为 JSON
+    const encrypt = isBot
+      ? String((JSON.parse(body) as { encrypt?: string }).encrypt ?? '')
+      : parseXmlFields(body).Encrypt ?? '';
+    if (!crypto.verify(signature, timestamp, nonce, encrypt)) {
+      logger.warn({ path: url.pathname }, '企业微信回调签名校验失败');
+      res.writeHead(403);
+      res.end();
+      return;
+    }
+
+    const plain = crypto.decrypt(encrypt);
+    // 立即应答（空响应表示不被动回复），处理过程较长时企业微信会重试
+    res.writeHead(200);
+    res.end();
+
+    const task = isBot
+      ? this.handleBotMessage(JSON.parse(plain) as WeComBotMessage)
+      : this.handleAppMessage(parseXmlFields(plain));
+    task.catch(err => logger.error({ err: errorMessage(err) }, '处理企业微信消息失败'));
+  }
+
+  private isDuplicate(key: string): boolean {
+    const now = Date.now();
+    for (const [id, ts] of this.seenMessages) {
+      if (now - ts > DEDUP_TTL_MS) this.seenMessages.delete(id);
+    }
+    if (this.seenMessages.has(key)) return true;
+    this.seenMessages.set(key, now);
+    return false;
+  }
+
+  private async downloadImage(url: string, decrypt?: WeComCrypto): Promise<Attachment | null> {
+    try {
+      const response = await fetch(url, { signal: AbortSignal.timeout(30000) });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      let buffer: Buffer = Buffer.from(await response.arrayBuffer());
+      if (buffer.length > MAX_IMAGE_BYTES) {
+        logger.warn({ bytes: buffer.length }, '企业微信图片过大，已忽略');
+        return null;
+      }
+      // 智能机器人收到的图片内容是加密的
+      if (decrypt) buffer = decrypt.decryptMedia(buffer);
+      const mimeType = decrypt ? 'image/jpeg' : response.headers.get('content-type')?.split(';')[0] || 'image/jpeg';
+      return { type: 'image', content: `data:${mimeType};base64,${buffer.toString('base64')}`, mimeType };
+    } catch (err) {
+      logger.warn({ err: errorMessage(err) }, '下载企业微信图片失败');
+      return null;
+    }
+  }
+
+  /**
+   * 自建应用消息（XML）：text / image / voice / event(template_card_event)
+   */
+  private async handleAppMessage(fields: Record<string, string>): Promise<void> {
+    if (!this.handler) return;
+
+    const userId = fields.FromUserName;
+    if (!userId) return;
+    const chatId = `user:${userId}`;
+    const timestamp = new Date((Number(fields.CreateTime) || Date.now() / 1000) * 1000).toISOString();
+
+    if (fields.MsgType === 'event') {
+      if (fields.Event !== 'template_card_event') return;
+      await this.handleApprovalEvent(fields, chatId, timestamp);
+      return;
+    }
+
+    const msgId = fields.MsgId || `${userId}-${fields.CreateTime}`;
+    if (this.isDuplicate(msgId)) return;
+
+    const attachments: Attachment[] = [];
+    let text = '';
+    switch (fields.MsgType) {
+      case 'text':
+        text = (fields.Content ?? '').trim();
+        break;
+      case 'image': {
+        const image = fields.PicUrl ? await this.downloadImage(fields.PicUrl) : null;
+        if (image) attachments.push(image);
+        break;
+      }
+      case 'voice':
+        // 开启语音识别后 Recognition 为识别文本
+        text = (fields.Recognition ?? '').trim() || '[语音]';
+        break;
+      default:
+        text = `[${fields.MsgType}]`;
+    }
+    if (!text && attachments.length === 0) return;
+
+    const message: Message = {
+      id: `wecom-${msgId}`,
+      chatId,
+      senderId: userId,
+      senderName: userId,
+      content: text || '[图片]',
+      timestamp,
+      chatType: 'p2p',
+      platform: 'wecom',
+      attachments: attachments.length > 0 ? attachments : undefined,
+      raw: fields,
+    };
+
+    logger.info({ chatId, msgType: fields.MsgType }, '>>> 收到企业微信消息');
+    await this.handler(message);
+  }
+
+  /**
+   * 审批卡片按钮：EventKey 为 approve:<id> / deny:<id>
+   */
+  private async handleApprovalEvent(fields: Record<string, string>, chatId: string, timestamp: string): Promise<void> {
+    const match = (fields.EventKey ?? '').match(/^(approve|deny):(\w+)$/);
+    if (!match || this.isDuplicate(`${fields.TaskId}:${fields.FromUserName}`)) return;
+    const approved = match[1] === 'approve';
+
+    // 把按钮替换为处理结果，避免重复点击
+    if (fields.ResponseCode) {
+      try {
+        await this.api('/message/update_template_card', {
+          userids: [fields.FromUserName],
+          agentid: this.agentId,
+          response_code: fields.ResponseCode,
+          button: { replace_name: approved ? '✅ 已允许' : '🚫 已拒绝' },
+        });
+      } catch (err) {
+        logger.debug({ err: errorMessage(err) }, '更新审批卡片失败');
+      }
+    }
+
+    await this.handler!({
+      id: `wecom-action-${fields.TaskId}-${fields.FromUserName}`,
+      chatId,
+      senderId: fields.FromUserName,
+      senderName: fields.FromUserName,
+      content: `/${match[1]} ${match[2]}`,
+      timestamp,
+      chatType: 'p2p',
+      platform: 'wecom',
+      raw: fields,
+    });
+  }
+
+  /**
+   * 智能机器人消息（JSON）：群聊中只有 @机器人 的消息会回调
+   */
+  private async handleBotMessage(data: WeComBotMessage): Promise<void> {
+    if (!this.handler || !data.msgid || !data.from?.userid) return;
+    if (this.isDuplicate(data.msgid)) return;
+
+    const isGroup = data.chattype === 'group';
+    const chatId = `bot:${isGroup && data.chatid ? data.chatid : data.from.userid}`;
+    if (data.response_url) {
+      const urls = this.responseUrls.get(chatId) ?? [];
+      urls.push({ url: data.response_url, expiresAt: Date.now() + RESPONSE_URL_TTL_MS });
+      // 只保留最近的几条
+      this.responseUrls.set(chatId, urls.slice(-10));
+    }
+
+    const attachments: Attachment[] = [];
+    const texts: string[] = [];
+    const items = data.msgtype === 'mixed' ? data.mixed?.msg_item ?? [] : [data];
+    for (const item of items) {
+      if (item.msgtype === 'text' && item.text?.content) {
+        texts.push(item.text.content);
+      } else if (item.msgtype === 'image' && item.image?.url) {
+        const image = await this.downloadImage(item.image.url, this.botCrypto!);
+        if (image) attachments.push(image);
+      }
+    }
+    if (data.msgtype === 'voice' && data.voice?.content) {
+      texts.push(data.voice.content);
+    }
+
+    const text = stripLeadingMention(texts.join('\n'));
+    if (!text && attachments.length === 0) return;
+
+    const message: Message = {
+      id: `wecom-bot-${data.msgid}`,
+      chatId,
+      senderId: data.from.userid,
+      senderName: data.from.userid,
+      content: text || '[图片]',
+      timestamp: new Date().toISOString(),
+      chatType: isGroup ? 'group' : 'p2p',
+      platform: 'wecom',
+      attachments: attachments.length > 0 ? attachments : undefined,
+      // 群聊中企业微信只回调 @机器人 的消息
+      mentions: isGroup ? [data.aibotid || 'bot'] : undefined,
+      raw: data,
+    };
+
+    logger.info({ chatId, msgtype: data.msgtype }, '>>> 收到企业微信机器人消息');
+    await this.handler(message);
+  }
+}
+
+const plugin: ChannelPlugin = new WeComChannelPlugin();
+export default plugin;
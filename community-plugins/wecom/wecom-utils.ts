@@ -0,0 +1,130 @@
+/**
+ * 企业微信回调辅助函数（消息加解密、签名校验、XML 解析、按字节拆分）
+ * 不依赖第三方库，便于单独测试
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes, timingSafeEqual } from 'crypto';
+
+/** PKCS#7 填充块大小（企业微信固定为 32） */
+const BLOCK_SIZE = 32;
+
+/**
+ * 回调消息加解密（与官方 WXBizMsgCrypt 一致）
+ */
+export class WeComCrypto {
+  private key: Buffer;
+  private iv: Buffer;
+
+  constructor(private token: string, encodingAesKey: string, private receiveId = '') {
+    if (encodingAesKey.length !== 43) {
+      throw new Error('EncodingAESKey 长度必须为 43 位');
+    }
+    this.key = Buffer.from(`${encodingAesKey}=`, 'base64');
+    this.iv = this.key.subarray(0, 16);
+  }
+
+  /**
+   * msg_signature = sha1(sort(token, timestamp, nonce, encrypt))
+   */
+  signature(timestamp: string, nonce: string, encrypt: string): string {
+    return createHash('sha1').update([this.token, timestamp, nonce, encrypt].sort().join('')).digest('hex');
+  }
+
+  verify(signature: string, timestamp: string, nonce: string, encrypt: string): boolean {
+    if (!signature) return false;
+    const expected = Buffer.from(this.signature(timestamp, nonce, encrypt));
+    const actual = Buffer.from(signature);
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+
+  /**
+   * 明文格式：16 字节随机串 + 4 字节消息长度（网络字节序）+ 消息 + receiveId
+   */
+  encrypt(message: string): string {
+    const body = Buffer.from(message, 'utf-8');
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(body.length, 0);
+    const plain = pkcs7Pad(Buffer.concat([randomBytes(16), length, body, Buffer.from(this.receiveId, 'utf-8')]));
+    const cipher = createCipheriv('aes-256-cbc', this.key, this.iv);
+    cipher.setAutoPadding(false);
+    return Buffer.concat([cipher.update(plain), cipher.final()]).toString('base64');
+  }
+
+  /**
+   * 解密并校验 receiveId（企业应用为 CorpID，智能机器人为空）
+   */
+  decrypt(encrypted: string): string {
+    const plain = pkcs7Unpad(this.decryptRaw(Buffer.from(encrypted, 'base64')));
+    if (plain.length < 20) throw new Error('解密结果长度无效');
+    const length = plain.readUInt32BE(16);
+    if (20 + length > plain.length) throw new Error('解密结果长度无效');
+    const message = plain.subarray(20, 20 + length).toString('utf-8');
+    const receiveId = plain.subarray(20 + length).toString('utf-8');
+    if (this.receiveId && receiveId !== this.receiveId) {
+      throw new Error('receiveId 不匹配');
+    }
+    return message;
+  }
+
+  /**
+   * 解密智能机器人消息中的图片/文件内容（整个文件 AES-256-CBC 加密，无随机串和长度前缀）
+   */
+  decryptMedia(data: Buffer): Buffer {
+    return pkcs7Unpad(this.decryptRaw(data));
+  }
+
+  private decryptRaw(data: Buffer): Buffer {
+    const decipher = createDecipheriv('aes-256-cbc', this.key, this.iv);
+    decipher.setAutoPadding(false);
+    return Buffer.concat([decipher.update(data), decipher.final()]);
+  }
+}
+
+function pkcs7Pad(data: Buffer): Buffer {
+  const pad = BLOCK_SIZE - (data.length % BLOCK_SIZE);
+  return Buffer.concat([data, Buffer.alloc(pad, pad)]);
+}
+
+function pkcs7Unpad(data: Buffer): Buffer {
+  const pad = data[data.length - 1];
+  if (pad < 1 || pad > BLOCK_SIZE) return data;
+  return data.subarray(0, data.length - pad);
+}
+
+/**
+ * 解析回调 XML 的顶层字段（<Tag><![CDATA[value]]></Tag> 或 <Tag>value</Tag>）
+ */
+export function parseXmlFields(xml: string): Record<string, string> {
+  const fields: Record<string, string> = {};
+  for (const match of xml.matchAll(/<(\w+)>(?:<!\[CDATA\[([\s\S]*?)\]\]>|([^<]*))<\/\1>/g)) {
+    if (!(match[1] in fields)) {
+      fields[match[1]] = match[2] ?? match[3] ?? '';
+    }
+  }
+  return fields;
+}
+
+/**
+ * 按 UTF-8 字节数拆分长文本（企业微信消息长度按字节限制），优先在换行处断开
+ */
+export function splitUtf8(text: string, maxBytes: number): string[] {
+  const chunks: string[] = [];
+  let rest = text;
+  while (Buffer.byteLength(rest, 'utf-8') > maxBytes) {
+    // 找到不超过 maxBytes 的最长前缀
+    let end = 0;
+    let bytes = 0;
+    for (const char of rest) {
+      const size = Buffer.byteLength(char, 'utf-8');
+      if (bytes + size > maxBytes) break;
+      bytes += size;
+      end += char.length;
+    }
+    const newline = rest.lastIndexOf('\n', end);
+    const cut = newline > end / 2 ? newline : Math.max(end, 1);
+    chunks.push(rest.slice(0, cut).trimEnd());
+    rest = rest.slice(cut).replace(/^\n/, '');
+  }
+  if (rest.trim() || chunks.length === 0) chunks.push(rest);
+  return chunks;
+}
@@ -11,6 +11,7 @@ import type {
   StreamEvent,
   ToolExecutor,
   HeartbeatCallback,
+  StreamEventCallback,
   PluginConfig,
   ImageBlock,
   TextBlock,
@@ -199,7 +200,7 @@ async function createMockResponse(messages: ChatMessage[], options?: ChatOptions
     const toolName = tools.find(t => t.name === 'send_message')?.name || tools[0].name;
     const toolInput = { content: `${MOCK_RESPONSE_PREFIX} TOOL: ${prompt}` };
     return buildMockMessage({
-      model,
+      model: options?.model ?? model,
       stopReason: 'tool_use',
       content: [
         {
@@ -213,7 +214,7 @@ async function createMockResponse(messages: ChatMessage[], options?: ChatOptions
   }
 
   return buildMockMessage({
-    model,
+    model: options?.model ?? model,
     stopReason: 'end_turn',
     content: [{ type: 'text', text: `${MOCK_RESPONSE_PREFIX}: ${prompt}` }],
   });
@@ -222,14 +223,15 @@ async function createMockResponse(messages: ChatMessage[], options?: ChatOptions
 async function streamFollowUp(
   messages: Anthropic.MessageParam[],
   options?: ChatOptions,
-  heartbeat?: HeartbeatCallback
+  heartbeat?: HeartbeatCallback,
+  onEvent?: StreamEventCallback
 ): Promise<Anthropic.Message> {
   if (!client) {
     throw new Error('Provider not initialized. Call init() first.');
   }
 
   const params: Anthropic.MessageCreateParams = {
-    model: model,
+    model: options?.model ?? model,
     max_tokens: options?.maxTokens ?? 4096,
     messages,
     stream: true,
@@ -279,6 +281,7 @@ async function streamFollowUp(
         const block = contentBlocks[event.index];
         if (block?.type === 'text') {
           block.text += delta.text;
+          onEvent?.({ type: 'text', text: delta.text });
         }
       } else if ('partial_json' in delta) {
         const parts = partialJsonParts.get(event.index);
@@ -297,6 +300,7 @@ async function streamFollowUp(
             block.input = {};
           }
         }
+        onEvent?.({ type: 'tool_use', id: block.id, name: block.name, input: block.input });
       }
     } else if (event.type === 'message_delta') {
       if (finalMessage) {
@@ -315,6 +319,7 @@ async function streamFollowUp(
   finalMessage.content = contentBlocks.filter(
     (block): block is Anthropic.TextBlock | Anthropic.ToolUseBlock => block != null
   );
+  onEvent?.({ type: 'done', message: finalMessage });
 
   return finalMessage;
 }
@@ -325,7 +330,8 @@ async function handleToolUseInternal(
   executeTool: ToolExecutor,
   options?: ChatOptions,
   depth: number = 0,
-  heartbeat?: HeartbeatCallback
+  heartbeat?: HeartbeatCallback,
+  onEvent?: StreamEventCallback
 ): Promise<string> {
   if (depth >= MAX_TOOL_CALL_DEPTH) {
     return extractText(response) || `[工具调用链过深（超过 ${MAX_TOOL_CALL_DEPTH} 轮），已强制终止]`;
@@ -380,10 +386,10 @@ async function handleToolUseInternal(
     newMessages = compressToolHistory(newMessages, KEEP_RECENT_TOOL_ROUNDS);
   }
 
-  const nextResponse = await streamFollowUp(newMessages, options, heartbeat);
+  const nextResponse = await streamFollowUp(newMessages, options, heartbeat, onEvent);
 
   if (nextResponse.stop_reason === 'tool_use') {
-    return handleToolUseInternal(nextResponse, newMessages, executeTool, options, depth + 1, heartbeat);
+    return handleToolUseInternal(nextResponse, newMessages, executeTool, options, depth + 1, heartbeat, onEvent);
   }
 
   return extractText(nextResponse);
@@ -432,7 +438,7 @@ const anthropicProvider: AIProviderPlugin = {
     }
 
     const params: Anthropic.MessageCreateParams = {
-      model: model,
+      model: options?.model ?? model,
       max_tokens: options?.maxTokens ?? 4096,
       messages: messages.map(msg => ({
         role: msg.role,
@@ -491,7 +497,7 @@ const anthropicProvider: AIProviderPlugin = {
     }
 
     const params: Anthropic.MessageCreateParams = {
-      model: model,
+      model: options?.model ?? model,
       max_tokens: options?.maxTokens ?? 4096,
       messages: messages.map(msg => ({
         role: msg.role,
@@ -601,7 +607,8 @@ const anthropicProvider: AIProviderPlugin = {
     messages: ChatMessage[],
     executeTool: ToolExecutor,
     options?: ChatOptions,
-    heartbeat?: HeartbeatCallback
+    heartbeat?: HeartbeatCallback,
+    onEvent?: StreamEventCallback
   ): Promise<string> {
     const anthropicResponse = response as Anthropic.Message;
 
@@ -628,7 +635,7 @@ const anthropicProvider: AIProviderPlugin = {
       content: msg.content,
     }));
 
-    return handleToolUseInternal(anthropicResponse, apiMessages, executeTool, options, 0, heartbeat);
+    return handleToolUseInternal(anthropicResponse, apiMessages, executeTool, options, 0, heartbeat, onEvent);
   },
 
   getModel(): string {
@@ -1,6 +1,6 @@
 /**
  * FlashClaw 插件 - 长期记忆管理
- * 提供 remember 和 recall 功能
+ * 提供 remember、recall、search 和 log 功能
  */
 
 import { ToolPlugin, ToolContext, ToolResult } from '../../src/plugins/types.js';
@@ -10,27 +10,44 @@ import { getMemoryManager } from '../../src/core/memory.js';
  * 记忆操作参数
  */
 interface MemoryParams {
-  /** 操作类型：remember（记住）、recall（回忆）或 log（追加每日日志） */
-  action: 'remember' | 'recall' | 'log';
+  /** 操作类型：remember（记住）、recall（回忆）、search（全文搜索）或 log（追加每日日志） */
+  action: 'remember' | 'recall' | 'search' | 'log';
   /** 记忆键（remember 必需，recall 可选） */
   key?: string;
   /** 记忆值（remember 必需）/ 日志内容（log 必需） */
   value?: string;
   /** 作用域：user（用户级别）或 global（全局共享，默认） */
   scope?: 'user' | 'global';
+  /** 搜索关键词（search 必需） */
+  query?: string;
+  /** 标签（remember 时写入，search 时过滤） */
+  tags?: string[];
+  /** 置信度 0-1（remember 可选） */
+  confidence?: number;
+  /** 多少天后过期（remember 可选） */
+  expiresInDays?: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function normalizeTags(tags: unknown): string[] | undefined {
+  if (typeof tags === 'string') return tags.split(/[,，]/).map(t => t.trim()).filter(Boolean);
+  if (Array.isArray(tags)) return tags.filter((t): t is string => typeof t === 'string');
+  return undefined;
 }
 
 const plugin: ToolPlugin = {
   name: 'memory',
-  version: '1.1.0',
-  description: '长期记忆管理，可以记住、回忆重要信息，以及写入每日日志',
+  version: '1.2.0',
+  description: '长期记忆管理，可以记住、回忆、搜索重要信息，以及写入每日日志',
   
   schema: {
     name: 'memory',
     description: `管理长期记忆和每日日志。
 
 **何时用 remember**: 保存持久事实（姓名、偏好、配置等），需要 key 和 value
-**何时用 recall**: 查询之前保存的事实
+**何时用 recall**: 按 key 查询之前保存的事实
+**何时用 search**: 不确定 key 时按关键词搜索记忆（支持中文）
 **何时用 log**: 记录事件、笔记、动态（"今天做了XX"、"开了会"、"学了XX"），自动按日期归档，无需 key
 
 示例：
@@ -39,6 +56,8 @@ const plugin: ToolPlugin = {
 - "我喜欢吃火锅" → remember(key="user_food", value="用户喜欢吃火锅")
 - "帮我记录今天开了会" → log(value="今天开了会")
 - "我叫什么" → recall(key="user_name")
+- "我之前说过喜欢吃什么" → search(query="喜欢吃")
+- "记住下周三前要交报告" → remember(key="report_deadline", value="下周三前要交报告", expiresInDays=10)
 
 key 命名建议：用 user_ 前缀表示用户信息，用 ai_ 前缀表示 AI 自身信息。`,
     input_schema: {
@@ -46,8 +65,8 @@ key 命名建议：用 user_ 前缀表示用户信息，用 ai_ 前缀表示 AI
       properties: {
         action: {
           type: 'string',
-          enum: ['remember', 'recall', 'log'],
-          description: 'remember 保存信息，recall 回忆信息，log 追加每日日志'
+          enum: ['remember', 'recall', 'search', 'log'],
+          description: 'remember 保存信息，recall 回忆信息，search 搜索记忆，log 追加每日日志'
         },
         key: {
           type: 'string',
@@ -61,6 +80,23 @@ key 命名建议：用 user_ 前缀表示用户信息，用 ai_ 前缀表示 AI
           type: 'string',
           enum: ['user', 'global'],
           description: '作用域。user=用户级别（适合个人偏好），global=全局级别（跨渠道共享，默认）'
+        },
+        query: {
+          type: 'string',
+          description: 'search 时的搜索关键词'
+        },
+        tags: {
+          type: 'array',
+          items: { type: 'string' },
+          description: '标签。remember 时写入，search 时按标签过滤'
+        },
+        confidence: {
+          type: 'number',
+          description: 'remember 时的置信度（0-1，默认 1），推测得到的信息可以填低一些'
+        },
+        expiresInDays: {
+          type: 'number',
+          description: 'remember 时设置多少天后过期（适合临时信息），不填则永久保存'
         }
       },
       required: ['action']
@@ -68,7 +104,8 @@ key 命名建议：用 user_ 前缀表示用户信息，用 ai_ 前缀表示 AI
   },
   
   async execute(params: unknown, context: ToolContext): Promise<ToolResult> {
-    const { action, key, value, scope = 'global' } = params as MemoryParams;
+    const { action, key, value, scope = 'global', query, confidence, expiresInDays } = params as MemoryParams;
+    const tags = normalizeTags((params as MemoryParams).tags);
     const mm = getMemoryManager();
 
     const isUserScope = scope === 'user';
@@ -90,11 +127,20 @@ key 命名建议：用 user_ 前缀表示用户信息，用 ai_ 前缀表示 AI
         };
       }
       
+      const options = {
+        tags,
+        sourceChat: context.chatId,
+        confidence: typeof confidence === 'number' ? confidence : undefined,
+        expiresAt: typeof expiresInDays === 'number' && expiresInDays > 0
+          ? new Date(Date.now() + expiresInDays * DAY_MS).toISOString()
+          : undefined,
+      };
+
       try {
         if (isUserScope) {
-          mm.rememberUser(context.userId, key, value);
+          mm.rememberUser(context.userId, key, value, options);
         } else {
-          mm.remember(key, value);
+          mm.remember(key, value, options);
         }
         return {
           success: true,
@@ -103,6 +149,8 @@ key 命名建议：用 user_ 前缀表示用户信息，用 ai_ 前缀表示 AI
             scope: scopeLabel,
             key,
             value,
+            ...(options.tags?.length ? { tags: options.tags } : {}),
+            ...(options.expiresAt ? { expiresAt: options.expiresAt } : {}),
             message: `已记住（${scopeLabel}级别）: ${key} = ${value}`
           }
         };
@@ -137,12 +185,15 @@ key 命名建议：用 user_ 前缀表示用户信息，用 ai_ 前缀表示 AI
               }
             };
           } else {
+            // 键不存在时按键名做全文搜索，返回相近的记忆
+            const similar = mm.searchMemories(key.replace(/_/g, ' '), { userId: context.userId, limit: 5 });
             return {
               success: true,
               data: {
                 action: 'recalled',
                 key,
                 value: null,
+                ...(similar.length > 0 ? { similar: similar.map(r => `${r.key}: ${r.value}`) } : {}),
                 message: `没有找到键为 "${key}" 的记忆`
               }
             };
@@ -184,6 +235,46 @@ key 命名建议：用 user_ 前缀表示用户信息，用 ai_ 前缀表示 AI
       }
     }
     
+    if (action === 'search') {
+      // 全文搜索（用户级别 + 全局）
+      const searchQuery = query || key || value || '';
+      if (!searchQuery.trim() && !tags?.length) {
+        return {
+          success: false,
+          error: 'search 操作需要提供 query 或 tags'
+        };
+      }
+
+      try {
+        const results = mm.searchMemories(searchQuery, {
+          userId: context.userId,
+          scope: (params as MemoryParams).scope,
+          tags,
+          limit: 10,
+        });
+        return {
+          success: true,
+          data: {
+            action: 'searched',
+            query: searchQuery,
+            results: results.map(r => ({
+              scope: r.scope === 'user' ? '用户' : '全局',
+              key: r.key,
+              value: r.value,
+              ...(r.tags.length > 0 ? { tags: r.tags } : {}),
+              updatedAt: r.updatedAt,
+            })),
+            message: results.length > 0 ? `找到 ${results.length} 条相关记忆` : `没有找到与 "${searchQuery}" 相关的记忆`
+          }
+        };
+      } catch (error) {
+        return {
+          success: false,
+          error: `搜索记忆失败: ${error instanceof Error ? error.message : String(error)}`
+        };
+      }
+    }
+    
     if (action === 'log') {
       // 追加每日日志
       if (!value || typeof value !== 'string') {
@@ -215,7 +306,7 @@ key 命名建议：用 user_ 前缀表示用户信息，用 ai_ 前缀表示 AI
     
     return {
       success: false,
-      error: 'action 必须是 remember、recall 或 log'
+      error: 'action 必须是 remember、recall、search 或 log'
     };
   }
 };
@@ -0,0 +1,343 @@
+/**
+ * Replay Provider 插件
+ * 录制/回放 AI 对话，用于离线、确定性的端到端测试
+ *
+ * - record: 包装真实 Provider（REPLAY_TARGET_PROVIDER），把请求和响应写入磁带文件
+ * - replay: 按规范化请求哈希从磁带返回响应，不访问网络
+ * - auto:   磁带中有则回放，没有则录制
+ *
+ * 工具调用（handleToolUse）整体录制：按顺序记录工具名/参数和最终文本，
+ * 回放时依次真实执行这些工具（保证副作用一致），再返回录制的最终文本。
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import type {
+  AIProviderPlugin,
+  ChatMessage,
+  ChatOptions,
+  StreamEvent,
+  ToolExecutor,
+  HeartbeatCallback,
+  StreamEventCallback,
+  PluginConfig,
+  TextBlock,
+} from '../../src/plugins/types.js';
+import { paths } from '../../src/paths.js';
+import { createLogger } from '../../src/logger.js';
+
+const logger = createLogger('ReplayProvider');
+
+// ==================== 类型定义 ====================
+
+export type ReplayMode = 'record' | 'replay' | 'auto';
+
+interface RecordedToolCall {
+  name: string;
+  input: unknown;
+  output?: string;
+  isError?: boolean;
+}
+
+export interface CassetteInteraction {
+  /** 规范化请求哈希（精确匹配） */
+  key?: string;
+  kind: 'chat' | 'stream' | 'tool';
+  /** 最后一条用户消息文本 */
+  prompt?: string;
+  /** 手写条目：replay 模式下哈希未命中时允许按 prompt 包含关系匹配 */
+  handWritten?: boolean;
+  recordedAt?: string;
+  /** kind=stream */
+  events?: StreamEvent[];
+  /** kind=chat */
+  response?: unknown;
+  /** kind=tool */
+  toolCalls?: RecordedToolCall[];
+  result?: string;
+}
+
+export interface Cassette {
+  version: 1;
+  model?: string;
+  interactions: CassetteInteraction[];
+}
+
+// ==================== 内部状态 ====================
+
+let mode: ReplayMode = 'replay';
+let cassettePath = '';
+let targetName = 'anthropic-provider';
+let model = 'replay-model';
+let cassette: Cassette = { version: 1, interactions: [] };
+/** 同一请求多次出现时按顺序取用 */
+const consumed = new Map<string, number>();
+
+// ==================== 请求规范化 ====================
+
+/** 每次运行都会变化的内容（时间戳、日期、数据目录），计算哈希前替换为占位符 */
+const VOLATILE_PATTERNS: Array<[RegExp, string]> = [
+  [/\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:?\d{2})?/g, '<time>'],
+  [/\d{4}\/\d{1,2}\/\d{1,2}[ ,]+\d{1,2}:\d{2}(?::\d{2})?/g, '<time>'],
+  [/\d{4}-\d{2}-\d{2}/g, '<date>'],
+];
+
+export function normalizeText(text: string): string {
+  let result = text.split(paths.home()).join('<home>');
+  for (const [pattern, placeholder] of VOLATILE_PATTERNS) {
+    result = result.replace(pattern, placeholder);
+  }
+  return result;
+}
+
+function contentToText(content: ChatMessage['content']): string {
+  if (typeof content === 'string') return content;
+  return content
+    .filter((block): block is TextBlock => block.type === 'text')
+    .map(block => block.text)
+    .join('');
+}
+
+function getLastUserText(messages: ChatMessage[]): string {
+  for (let i = messages.length - 1; i >= 0; i -= 1) {
+    if (messages[i].role === 'user') {
+      return normalizeText(contentToText(messages[i].content));
+    }
+  }
+  return '';
+}
+
+/**
+ * 计算规范化请求哈希
+ * 参与哈希：请求类型、系统提示词、消息、工具名（不含模型，换模型不影响回放）
+ */
+export function computeRequestKey(
+  kind: CassetteInteraction['kind'],
+  messages: ChatMessage[],
+  options?: ChatOptions,
+  response?: unknown
+): string {
+  const payload = JSON.stringify({
+    kind,
+    system: options?.system ?? '',
+    messages: messages.map(m => ({ role: m.role, content: m.content })),
+    tools: (options?.tools ?? []).map(t => t.name).sort(),
+    response: response ?? null,
+  });
+  return createHash('sha256').update(normalizeText(payload)).digest('hex').slice(0, 16);
+}
+
+// ==================== 磁带读写 ====================
+
+function defaultCassettePath(): string {
+  return join(paths.data(), 'cassettes', 'default.json');
+}
+
+function loadCassette(filePath: string): Cassette {
+  if (!existsSync(filePath)) {
+    return { version: 1, interactions: [] };
+  }
+  const raw = JSON.parse(readFileSync(filePath, 'utf-8')) as Partial<Cassette>;
+  return {
+    version: 1,
+    model: raw.model,
+    interactions: Array.isArray(raw.interactions) ? raw.interactions : [],
+  };
+}
+
+function saveCassette(): void {
+  mkdirSync(dirname(cassettePath), { recursive: true });
+  writeFileSync(cassettePath, JSON.stringify(cassette, null, 2) + '\n', 'utf-8');
+}
+
+function appendInteraction(interaction: CassetteInteraction): void {
+  cassette.model ??= replayProvider.getModel();
+  cassette.interactions.push({ ...interaction, recordedAt: new Date().toISOString() });
+  saveCassette();
+  logger.debug({ kind: interaction.kind, key: interaction.key }, '📼 已录制');
+}
+
+/**
+ * 查找录制的响应：先按哈希精确匹配；仅 replay 模式下对手写条目按最后一条用户消息包含关系匹配
+ * record/auto 模式只认哈希，避免宽松匹配让不同请求复用同一条录制
+ */
+function findInteraction(
+  kind: CassetteInteraction['kind'],
+  key: string,
+  prompt: string
+): CassetteInteraction | null {
+  const byKey = cassette.interactions.filter(i => i.kind === kind && i.key === key);
+  const candidates = byKey.length > 0
+    ? byKey
+    : mode === 'replay'
+      ? cassette.interactions.filter(i => i.kind === kind && i.handWritten && !!i.prompt && prompt.includes(normalizeText(i.prompt)))
+      : [];
+  if (candidates.length === 0) return null;
+
+  const counterKey = byKey.length > 0 ? `${kind}:${key}` : `${kind}:prompt:${candidates[0].prompt}`;
+  const index = consumed.get(counterKey) ?? 0;
+  consumed.set(counterKey, index + 1);
+  if (byKey.length === 0) {
+    logger.warn({ kind, key, prompt: candidates[0].prompt }, '📼 哈希未命中，按手写条目的提示词匹配');
+  }
+  // 超出录制次数时重复使用最后一条
+  return candidates[Math.min(index, candidates.length - 1)];
+}
+
+function requireInteraction(
+  kind: CassetteInteraction['kind'],
+  key: string,
+  prompt: string
+): CassetteInteraction {
+  const interaction = findInteraction(kind, key, prompt);
+  if (!interaction) {
+    const preview = prompt.length > 80 ? `${prompt.slice(0, 80)}...` : prompt;
+    throw new Error(`回放磁带中没有匹配的录制 (kind=${kind}, key=${key}, prompt="${preview}")，请使用 REPLAY_MODE=record 重新录制: ${cassettePath}`);
+  }
+  return interaction;
+}
+
+/** auto 模式下磁带中没有相同哈希的录制才录制 */
+function shouldRecord(kind: CassetteInteraction['kind'], key: string): boolean {
+  if (mode === 'record') return true;
+  if (mode === 'replay') return false;
+  return !cassette.interactions.some(i => i.kind === kind && i.key === key);
+}
+
+function getTarget(): AIProviderPlugin {
+  const target = global.__flashclaw_plugin_manager?.getProviderByName(targetName);
+  if (!target || target.name === replayProvider.name) {
+    throw new Error(`录制模式需要可用的目标 Provider: ${targetName}（REPLAY_TARGET_PROVIDER）`);
+  }
+  return target;
+}
+
+function stringifyResult(result: unknown): string {
+  return typeof result === 'string' ? result : JSON.stringify(result);
+}
+
+// ==================== Provider 实现 ====================
+
+const replayProvider: AIProviderPlugin = {
+  name: 'replay-provider',
+  version: '1.0.0',
+  description: '录制/回放 Provider - 录制真实对话为磁带，离线确定性回放',
+
+  async init(config: PluginConfig): Promise<void> {
+    // 仅在显式选择时启用，避免其他 Provider 初始化失败时被自动选为当前 Provider
+    if (process.env.AI_PROVIDER !== 'replay-provider') {
+      throw new Error('未启用（需设置 AI_PROVIDER=replay-provider）');
+    }
+
+    const configuredMode = (config.mode as string) || 'replay';
+    if (configuredMode !== 'record' && configuredMode !== 'replay' && configuredMode !== 'auto') {
+      throw new Error(`无效的 REPLAY_MODE: ${configuredMode}（可选 record / replay / auto）`);
+    }
+    mode = configuredMode;
+    cassettePath = (config.cassette as string) || defaultCassettePath();
+    targetName = (config.target as string) || 'anthropic-provider';
+    cassette = loadCassette(cassettePath);
+    consumed.clear();
+    model = cassette.model || process.env.AI_MODEL || 'replay-model';
+
+    logger.debug({ mode, cassette: cassettePath, interactions: cassette.interactions.length }, '📼 Replay Provider 已就绪');
+  },
+
+  async chat(messages: ChatMessage[], options?: ChatOptions): Promise<unknown> {
+    const key = computeRequestKey('chat', messages, options);
+    const prompt = getLastUserText(messages);
+
+    if (!shouldRecord('chat', key)) {
+      return requireInteraction('chat', key, prompt).response;
+    }
+
+    const response = await getTarget().chat(messages, options);
+    appendInteraction({ key, kind: 'chat', prompt, response });
+    return response;
+  },
+
+  async *chatStream(messages: ChatMessage[], options?: ChatOptions): AsyncGenerator<StreamEvent> {
+    const key = computeRequestKey('stream', messages, options);
+    const prompt = getLastUserText(messages);
+
+    if (!shouldRecord('stream', key)) {
+      const interaction = requireInteraction('stream', key, prompt);
+      for (const event of interaction.events ?? []) {
+        yield event;
+      }
+      return;
+    }
+
+    const events: StreamEvent[] = [];
+    for await (const event of getTarget().chatStream(messages, options)) {
+      events.push(event);
+      yield event;
+    }
+    appendInteraction({ key, kind: 'stream', prompt, events });
+  },
+
+  async handleToolUse(
+    response: unknown,
+    messages: ChatMessage[],
+    executeTool: ToolExecutor,
+    options?: ChatOptions,
+    heartbeat?: HeartbeatCallback,
+    onEvent?: StreamEventCallback
+  ): Promise<string> {
+    const key = computeRequestKey('tool', messages, options, response);
+    const prompt = getLastUserText(messages);
+
+    if (!shouldRecord('tool', key)) {
+      const interaction = requireInteraction('tool', key, prompt);
+      // 按录制顺序真实执行工具，保证发送消息、创建任务等副作用与录制时一致
+      for (const call of interaction.toolCalls ?? []) {
+        heartbeat?.();
+        try {
+          const output = stringifyResult(await executeTool(call.name, call.input));
+          if (call.output !== undefined && output !== call.output) {
+            logger.debug({ tool: call.name }, '📼 工具输出与录制不一致（已忽略）');
+          }
+        } catch (err) {
+          if (!call.isError) {
+            logger.warn({ tool: call.name, err: (err as Error).message }, '📼 回放时工具执行失败');
+          }
+        }
+      }
+      return interaction.result ?? '';
+    }
+
+    const toolCalls: RecordedToolCall[] = [];
+    const recordingExecutor: ToolExecutor = async (name, params) => {
+      try {
+        const result = await executeTool(name, params);
+        toolCalls.push({ name, input: params, output: stringifyResult(result) });
+        return result;
+      } catch (err) {
+        toolCalls.push({ name, input: params, output: (err as Error).message, isError: true });
+        throw err;
+      }
+    };
+
+    const result = await getTarget().handleToolUse(response, messages, recordingExecutor, options, heartbeat, onEvent);
+    appendInteraction({ key, kind: 'tool', prompt, toolCalls, result });
+    return result;
+  },
+
+  getModel(): string {
+    if (mode !== 'replay') {
+      const target = global.__flashclaw_plugin_manager?.getProviderByName(targetName);
+      if (target && target.name !== replayProvider.name) return target.getModel();
+    }
+    return model;
+  },
+
+  setModel(newModel: string): void {
+    model = newModel;
+    if (mode !== 'replay') {
+      global.__flashclaw_plugin_manager?.getProviderByName(targetName)?.setModel(newModel);
+    }
+  },
+};
+
+export default replayProvider;
@@ -0,0 +1,247 @@
+/**
+ * Agent Delegation
+ *
+ * 子 Agent 委派：父 Agent 把子任务交给另一个已注册的 Agent，
+ * 子 Agent 使用自己的人格、工具白名单和提示词模式，在独立会话中运行。
+ * 调用方可以等待结果、流式接收输出，或让子 Agent 在后台运行。
+ *
+ * 每次委派记录在 agent_delegations 表中（父运行 → 子运行），用于 Web UI 展示委派树。
+ * 限制：
+ * - 嵌套深度不超过 AGENT_DELEGATION_MAX_DEPTH（顶层运行为 0）
+ * - 同一顶层运行下所有子 Agent 累计 token 不超过 AGENT_DELEGATION_MAX_TOKENS
+ *
+ * Agent 注册表由 agent-manager 插件通过 global.__flashclaw_agent_registry 提供。
+ */
+
+import { runAgent } from './agent-runner.js';
+import { createDelegation, finishDelegation, getDelegation, sumDelegationTokens } from './db.js';
+import { AGENT_DELEGATION_MAX_DEPTH, AGENT_DELEGATION_MAX_TOKENS } from './config.js';
+import type { DelegationInfo, MultiAgentConfig, RegisteredGroup } from './types.js';
+import { createLogger } from './logger.js';
+
+const logger = createLogger('AgentDelegation');
+
+// ==================== 类型定义 ====================
+
+export interface DelegationRequest {
+  /** 目标 Agent ID */
+  agentId: string;
+  /** 子任务描述 */
+  task: string;
+  /** 发起方所在会话（子 Agent 的 send_message 发送到这里） */
+  chatJid: string;
+  groupFolder: string;
+  userId?: string;
+  /** 发起方的运行 ID 和 Agent */
+  parentRunId?: string;
+  parentAgentId?: string;
+  /** 发起方本身是子 Agent 时的委派信息 */
+  parent?: DelegationInfo;
+  /** 继续之前某次委派的子 Agent 会话（委派 ID） */
+  continueFrom?: string;
+  /** 覆盖 AGENT_DELEGATION_MAX_TOKENS */
+  maxTokens?: number;
+  /** 流式接收子 Agent 的输出 */
+  onToken?: (text: string) => void;
+}
+
+export interface DelegationResult {
+  id: string;
+  agentId: string;
+  status: 'success' | 'error';
+  result: string | null;
+  error: string | null;
+  /** 子 Agent 的运行 ID（运行追踪关闭时为空） */
+  childRunId: string | null;
+  usage?: { inputTokens: number; outputTokens: number };
+}
+
+export interface DelegationHandle {
+  id: string;
+  agent: MultiAgentConfig;
+  depth: number;
+  /** 子 Agent 运行结束（不会 reject） */
+  done: Promise<DelegationResult>;
+}
+
+interface AgentRegistryLike {
+  getAgentById: (id: string) => MultiAgentConfig | undefined;
+  getAllAgents?: () => MultiAgentConfig[];
+}
+
+// ==================== 委派 ====================
+
+/** 运行中的子 Agent 已消耗、尚未写入委派记录的 token（按顶层运行 ID 汇总） */
+const liveTokens = new Map<string, number>();
+
+function addLiveTokens(rootRunId: string, tokens: number): void {
+  const total = (liveTokens.get(rootRunId) ?? 0) + tokens;
+  if (total > 0) {
+    liveTokens.set(rootRunId, total);
+  } else {
+    liveTokens.delete(rootRunId);
+  }
+}
+
+/** 顶层运行下所有子 Agent 已用的 token（已结束的委派 + 运行中的子 Agent） */
+function getUsedTokens(rootRunId: string): number {
+  return sumDelegationTokens(rootRunId) + (liveTokens.get(rootRunId) ?? 0);
+}
+
+function getRegistry(): AgentRegistryLike | undefined {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  return (globalThis as any).__flashclaw_agent_registry as AgentRegistryLike | undefined;
+}
+
+function generateDelegationId(): string {
+  return `dlg-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * 启动子 Agent
+ * 校验目标 Agent、嵌套深度和 token 上限，不满足时抛出错误；子 Agent 在返回后异步运行
+ */
+export function spawnSubAgent(request: DelegationRequest): DelegationHandle {
+  const registry = getRegistry();
+  if (!registry) {
+    throw new Error('未加载 agent-manager 插件，无法委派子 Agent');
+  }
+
+  const agent = registry.getAgentById(request.agentId);
+  if (!agent) {
+    const available = registry.getAllAgents?.().map(a => a.id).join(', ');
+    throw new Error(`Agent "${request.agentId}" 不存在${available ? `。可用的 Agent: ${available}` : ''}`);
+  }
+  if (request.parentAgentId && request.parentAgentId === agent.id) {
+    throw new Error('不能把任务委派给自己');
+  }
+
+  const task = request.task.trim();
+  if (!task) {
+    throw new Error('子任务内容不能为空');
+  }
+
+  const depth = (request.parent?.depth ?? 0) + 1;
+  if (depth > AGENT_DELEGATION_MAX_DEPTH) {
+    throw new Error(`委派嵌套过深（最多 ${AGENT_DELEGATION_MAX_DEPTH} 层），请自己完成这个任务`);
+  }
+
+  const id = generateDelegationId();
+  const rootRunId = request.parent?.rootRunId ?? request.parentRunId ?? id;
+
+  const maxTokens = request.maxTokens ?? AGENT_DELEGATION_MAX_TOKENS;
+  if (maxTokens > 0) {
+    const used = getUsedTokens(rootRunId);
+    if (used >= maxTokens) {
+      throw new Error(`子 Agent 的 token 额度已用完（${used} / ${maxTokens}）`);
+    }
+  }
+
+  // 继续之前的会话时复用其群组目录（对话上下文按群组目录保存）
+  let sessionFolder = `subagent-${agent.id}-${id.slice(-6)}`;
+  if (request.continueFrom) {
+    const previous = getDelegation(request.continueFrom);
+    if (!previous || previous.chat_jid !== request.chatJid) {
+      throw new Error(`委派记录不存在: ${request.continueFrom}`);
+    }
+    if (previous.agent_id !== agent.id) {
+      throw new Error(`委派 ${request.continueFrom} 属于 Agent "${previous.agent_id}"，不能由 "${agent.id}" 继续`);
+    }
+    sessionFolder = previous.session_folder;
+  }
+
+  const startedAt = new Date().toISOString();
+  createDelegation({
+    id,
+    parent_run_id: request.parentRunId ?? null,
+    root_run_id: rootRunId,
+    parent_agent_id: request.parentAgentId ?? null,
+    agent_id: agent.id,
+    session_folder: sessionFolder,
+    chat_jid: request.chatJid,
+    group_folder: request.groupFolder,
+    depth,
+    task,
+    started_at: startedAt,
+  });
+
+  logger.info({ delegationId: id, agentId: agent.id, depth, parentRunId: request.parentRunId }, '🤝 委派子 Agent');
+
+  const group: RegisteredGroup = {
+    name: `${agent.name}（子任务）`,
+    folder: sessionFolder,
+    trigger: '@',
+    added_at: startedAt,
+  };
+
+  // 逐轮累计子 Agent 的用量（含工具链后续轮次和重试），运行中超出额度时中止
+  const spent = { inputTokens: 0, outputTokens: 0 };
+  const getSpentUsage = (): DelegationResult['usage'] =>
+    spent.inputTokens + spent.outputTokens > 0 ? { ...spent } : undefined;
+
+  const done = runAgent(group, {
+    prompt: task,
+    groupFolder: sessionFolder,
+    chatJid: request.chatJid,
+    isMain: false,
+    userId: request.userId,
+    platform: 'agent-internal',
+    agentId: agent.id,
+    delegation: { id, depth, rootRunId },
+    onToken: request.onToken,
+    onUsage: (usage) => {
+      spent.inputTokens += usage.inputTokens;
+      spent.outputTokens += usage.outputTokens;
+      addLiveTokens(rootRunId, usage.inputTokens + usage.outputTokens);
+      const used = getUsedTokens(rootRunId);
+      if (maxTokens > 0 && used > maxTokens) {
+        throw new Error(`子 Agent 的 token 额度已用完（${used} / ${maxTokens}）`);
+      }
+    },
+  }).then(
+    (output): DelegationResult => ({
+      id,
+      agentId: agent.id,
+      status: output.status,
+      result: output.result,
+      error: output.error ?? null,
+      childRunId: output.metrics?.runId ?? null,
+      usage: getSpentUsage() ?? output.metrics?.usage,
+    }),
+    (err): DelegationResult => ({
+      id,
+      agentId: agent.id,
+      status: 'error',
+      result: null,
+      error: err instanceof Error ? err.message : String(err),
+      childRunId: null,
+      usage: getSpentUsage(),
+    })
+  ).then(result => {
+    try {
+      finishDelegation(id, {
+        status: result.status,
+        child_run_id: result.childRunId,
+        result: result.result,
+        error: result.error,
+        input_tokens: result.usage?.inputTokens ?? null,
+        output_tokens: result.usage?.outputTokens ?? null,
+        finished_at: new Date().toISOString(),
+      });
+    } catch (err) {
+      logger.warn({ delegationId: id, err: String(err) }, '写入委派结果失败');
+    }
+    addLiveTokens(rootRunId, -(spent.inputTokens + spent.outputTokens));
+    logger.info({ delegationId: id, agentId: agent.id, status: result.status }, '🤝 子 Agent 完成');
+    return result;
+  });
+
+  return { id, agent, depth, done };
+}
+
+/**
+ * 委派子 Agent 并等待结果
+ */
+export async function delegateToAgent(request: DelegationRequest): Promise<DelegationResult> {
+  return spawnSubAgent(request).done;
+}
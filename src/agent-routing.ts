@@ -0,0 +1,273 @@
+/**
+ * Agent Routing
+ *
+ * 多 Agent 路由：根据渠道、群组、发送者、消息内容和时间选择处理消息的 Agent。
+ * agent-manager 插件和 `flashclaw agents route` 共用这里的解析和匹配逻辑。
+ *
+ * 匹配顺序：
+ * 1. 消息中显式 @Agent（按 ID 或名称，与 BOT_NAME 相同的 @ 不算）
+ * 2. 命中的绑定按 priority 从高到低；同优先级按精确程度（peer > group > channel > 其他条件），再按声明顺序
+ * 3. 回退到 default: true 的 Agent
+ *
+ * 一条绑定内的所有条件都满足才算命中。
+ */
+
+import { BOT_NAME, TIMEZONE } from './config.js';
+import { quietHoursEnd, parseQuietHours } from './task-policy.js';
+import type { AgentBinding, MultiAgentConfig } from './types.js';
+
+// ==================== 类型定义 ====================
+
+export const DEFAULT_AGENT: MultiAgentConfig = {
+  id: 'main',
+  name: 'FlashClaw',
+  soul: 'souls/default.md',
+  model: null,
+  tools: ['*'],
+  default: true,
+  promptMode: 'full',
+};
+
+export interface AgentsConfig {
+  agents: MultiAgentConfig[];
+  /** 发送者角色名单（角色名 → 用户 ID 列表），供绑定的 roles 条件使用 */
+  roles: Record<string, string[]>;
+}
+
+export interface RouteContext {
+  channel?: string;
+  group?: string;
+  /** 发送者 ID */
+  peer?: string;
+  /** 当前消息文本（用于 @Agent、关键词和正则） */
+  text?: string;
+  now?: Date;
+}
+
+export interface RoutingOptions {
+  roles?: Record<string, string[]>;
+  timeZone?: string;
+}
+
+export interface BindingCheck {
+  agentId: string;
+  /** 绑定在该 Agent bindings 中的下标 */
+  index: number;
+  binding: AgentBinding;
+  matched: boolean;
+  /** 每个条件的检查结果，如 "channel=feishu ✓" */
+  details: string[];
+}
+
+export interface RouteExplanation {
+  agent: MultiAgentConfig;
+  via: 'mention' | 'binding' | 'default';
+  reason: string;
+  /** via 为 binding 时命中的绑定 */
+  matched?: BindingCheck;
+  /** 所有绑定的检查结果（按匹配顺序） */
+  checks: BindingCheck[];
+}
+
+// ==================== 配置解析 ====================
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(v => typeof v === 'string');
+}
+
+function normalizeBinding(entry: unknown): AgentBinding | null {
+  if (!entry || typeof entry !== 'object') return null;
+  const raw = entry as Record<string, unknown>;
+  const binding: AgentBinding = {};
+
+  if (typeof raw.channel === 'string' && raw.channel) binding.channel = raw.channel;
+  if (typeof raw.group === 'string' && raw.group) binding.group = raw.group;
+  if (typeof raw.peer === 'string' && raw.peer) binding.peer = raw.peer;
+  if (isStringArray(raw.roles) && raw.roles.length > 0) binding.roles = raw.roles;
+  if (isStringArray(raw.keywords) && raw.keywords.length > 0) binding.keywords = raw.keywords;
+  if (typeof raw.pattern === 'string' && raw.pattern) binding.pattern = raw.pattern;
+  if (typeof raw.hours === 'string' && raw.hours) binding.hours = raw.hours;
+
+  // 没有任何条件的绑定不参与匹配（避免误把所有消息路由过去）
+  if (Object.keys(binding).length === 0) return null;
+
+  if (typeof raw.priority === 'number' && Number.isFinite(raw.priority)) binding.priority = raw.priority;
+  return binding;
+}
+
+/**
+ * 解析 agents.json 内容
+ * 无效条目被忽略；没有有效 Agent 时回退到默认 Agent，没有 default 时第一个 Agent 为默认
+ */
+export function parseAgentsConfig(parsed: unknown): AgentsConfig {
+  const raw = (parsed && typeof parsed === 'object' ? parsed : {}) as Record<string, unknown>;
+
+  const roles: Record<string, string[]> = {};
+  if (raw.roles && typeof raw.roles === 'object') {
+    for (const [name, members] of Object.entries(raw.roles as Record<string, unknown>)) {
+      if (isStringArray(members)) roles[name] = members;
+    }
+  }
+
+  if (!Array.isArray(raw.agents)) {
+    return { agents: [DEFAULT_AGENT], roles };
+  }
+
+  const validated: MultiAgentConfig[] = [];
+  const ids = new Set<string>();
+
+  for (const entry of raw.agents) {
+    if (!entry?.id || !entry.name) continue;
+    if (ids.has(entry.id)) continue;
+
+    ids.add(entry.id);
+    const bindings = Array.isArray(entry.bindings)
+      ? entry.bindings.map(normalizeBinding).filter((b: AgentBinding | null): b is AgentBinding => b !== null)
+      : [];
+    validated.push({
+      id: entry.id,
+      name: entry.name,
+      soul: entry.soul || 'souls/default.md',
+      model: entry.model ?? null,
+      tools: Array.isArray(entry.tools) ? entry.tools : ['*'],
+      default: entry.default === true,
+      bindings: bindings.length > 0 ? bindings : undefined,
+      promptMode: ['full', 'minimal', 'none'].includes(entry.promptMode) ? entry.promptMode : 'full',
+    });
+  }
+
+  if (validated.length === 0) {
+    return { agents: [DEFAULT_AGENT], roles };
+  }
+  if (!validated.some(a => a.default)) {
+    validated[0].default = true;
+  }
+  return { agents: validated, roles };
+}
+
+// ==================== 匹配 ====================
+
+export function matchWildcard(pattern: string, value: string): boolean {
+  if (pattern === '*') return true;
+  if (pattern === value) return true;
+  const regexStr = pattern
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*')
+    .replace(/\?/g, '.');
+  return new RegExp(`^${regexStr}$`).test(value);
+}
+
+/**
+ * 查找消息中第一个 @Agent（按 ID 或名称，不区分大小写）
+ */
+export function findMentionedAgent(agents: MultiAgentConfig[], text: string | undefined): { agent: MultiAgentConfig; label: string } | null {
+  if (!text || !text.includes('@')) return null;
+  const lower = text.toLowerCase();
+  const botName = BOT_NAME.toLowerCase();
+
+  let best: { agent: MultiAgentConfig; label: string; pos: number } | null = null;
+  for (const agent of agents) {
+    for (const label of [agent.id, agent.name]) {
+      const needle = `@${label.toLowerCase()}`;
+      if (label.toLowerCase() === botName) continue;
+
+      let pos = lower.indexOf(needle);
+      while (pos !== -1) {
+        // 英文名后面不能紧跟字母数字（@work 不匹配 @worker）
+        const next = lower[pos + needle.length];
+        if (next === undefined || !/[\w-]/.test(next)) break;
+        pos = lower.indexOf(needle, pos + 1);
+      }
+      if (pos !== -1 && (!best || pos < best.pos || (pos === best.pos && label.length > best.label.length))) {
+        best = { agent, label, pos };
+      }
+    }
+  }
+  return best ? { agent: best.agent, label: best.label } : null;
+}
+
+function specificity(binding: AgentBinding): number {
+  if (binding.peer) return 3;
+  if (binding.group) return 2;
+  if (binding.channel) return 1;
+  return 0;
+}
+
+/**
+ * 检查一条绑定的所有条件
+ */
+export function checkBinding(binding: AgentBinding, ctx: RouteContext, options: RoutingOptions = {}): { matched: boolean; details: string[] } {
+  const details: string[] = [];
+  let matched = true;
+  const record = (ok: boolean, text: string) => {
+    details.push(`${text} ${ok ? '✓' : '✗'}`);
+    if (!ok) matched = false;
+  };
+  const text = ctx.text ?? '';
+
+  if (binding.channel) {
+    record(binding.channel === '*' || binding.channel === ctx.channel, `channel=${binding.channel}`);
+  }
+  if (binding.group) {
+    record(ctx.group !== undefined && matchWildcard(binding.group, ctx.group), `group=${binding.group}`);
+  }
+  if (binding.peer) {
+    record(binding.peer === ctx.peer, `peer=${binding.peer}`);
+  }
+  if (binding.roles) {
+    const inRole = binding.roles.filter(role => ctx.peer !== undefined && (options.roles?.[role] ?? []).includes(ctx.peer));
+    record(inRole.length > 0, `roles=${binding.roles.join('|')}${inRole.length > 0 && binding.roles.length > 1 ? `（${inRole[0]}）` : ''}`);
+  }
+  if (binding.keywords) {
+    const hit = binding.keywords.find(k => k && text.toLowerCase().includes(k.toLowerCase()));
+    record(hit !== undefined, `keywords=${binding.keywords.join('|')}${hit ? `（${hit}）` : ''}`);
+  }
+  if (binding.pattern) {
+    let regex: RegExp | null = null;
+    try {
+      regex = new RegExp(binding.pattern, 'i');
+    } catch {
+      regex = null;
+    }
+    record(regex !== null && regex.test(text), `pattern=/${binding.pattern}/${regex ? '' : '（正则无效）'}`);
+  }
+  if (binding.hours) {
+    const valid = parseQuietHours(binding.hours) !== null;
+    const inside = valid && quietHoursEnd(binding.hours, ctx.now ?? new Date(), options.timeZone ?? TIMEZONE) !== null;
+    record(inside, `hours=${binding.hours}${valid ? '' : '（格式无效）'}`);
+  }
+
+  return { matched, details };
+}
+
+/**
+ * 选择 Agent 并说明原因
+ */
+export function explainRoute(agents: MultiAgentConfig[], ctx: RouteContext, options: RoutingOptions = {}): RouteExplanation {
+  const fallback = agents.find(a => a.default) || agents[0] || DEFAULT_AGENT;
+
+  const ordered: Array<BindingCheck & { priority: number; specificity: number; order: number }> = [];
+  let order = 0;
+  for (const agent of agents) {
+    (agent.bindings ?? []).forEach((binding, index) => {
+      const { matched, details } = checkBinding(binding, ctx, options);
+      ordered.push({ agentId: agent.id, index, binding, matched, details, priority: binding.priority ?? 0, specificity: specificity(binding), order: order++ });
+    });
+  }
+  ordered.sort((a, b) => b.priority - a.priority || b.specificity - a.specificity || a.order - b.order);
+  const checks: BindingCheck[] = ordered.map(({ agentId, index, binding, matched, details }) => ({ agentId, index, binding, matched, details }));
+
+  const mention = findMentionedAgent(agents, ctx.text);
+  if (mention) {
+    return { agent: mention.agent, via: 'mention', reason: `消息中 @${mention.label}`, checks };
+  }
+
+  const hit = checks.find(c => c.matched);
+  if (hit) {
+    const agent = agents.find(a => a.id === hit.agentId)!;
+    const priority = hit.binding.priority ? `，priority=${hit.binding.priority}` : '';
+    return { agent, via: 'binding', reason: `命中 ${agent.id} 的第 ${hit.index + 1} 条绑定${priority}`, matched: hit, checks };
+  }
+
+  return { agent: fallback, via: 'default', reason: '没有命中的绑定，使用默认 Agent', checks };
+}
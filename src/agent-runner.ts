@@ -22,14 +22,18 @@ import { paths } from './paths.js';
 import { RegisteredGroup } from './types.js';
 import { ChatMessage, ToolSchema, TextBlock, ImageBlock } from './core/api-client.js';
 import { pluginManager } from './plugins/manager.js';
-import { currentModelSupportsVision, getCurrentModelId, getModelContextWindow } from './core/model-capabilities.js';
+import { getCurrentModelId, getModelContextWindow, modelSupportsVision } from './core/model-capabilities.js';
 import { MemoryManager, getMemoryManager as getGlobalMemoryManager } from './core/memory.js';
 import { ToolContext, ToolResult as PluginToolResult } from './plugins/types.js';
 import { recordTokenUsage, checkCompactThreshold } from './session-tracker.js';
 import { createLogger } from './logger.js';
 import { checkContextSafety } from './core/context-guard.js';
 import { normalizeToolParams } from './tool-params.js';
-import type { MultiAgentConfig } from './types.js';
+import type { MultiAgentConfig, PromptMode, DelegationInfo } from './types.js';
+import { getToolPolicy, requestToolApproval, type ApprovalNotifier } from './tool-approval.js';
+import { RunTracer, generateRunId } from './run-trace.js';
+import { resolveProviderChain } from './provider-router.js';
+import { checkBudget, recordUsage } from './budget.js';
 
 const logger = createLogger('AgentRunner');
 
@@ -68,10 +72,14 @@ export interface AgentInput {
   chatJid: string;
   isMain: boolean;
   isScheduledTask?: boolean;
+  /** 定时任务的文字回复由调用方直接发送到会话（如监控任务），不再提示 Agent 使用 send_message */
+  deliversReply?: boolean;
   /** 用户 ID，用于用户级别记忆 */
   userId?: string;
   /** 消息来源平台（telegram / feishu 等） */
   platform?: string;
+  /** 当前消息原文（用于 Agent 路由的 @Agent、关键词和正则；未提供时使用 prompt） */
+  messageText?: string;
   /** 图片附件列表 */
   attachments?: ImageAttachment[];
   /** 流式输出回调（可选） */
@@ -80,6 +88,20 @@ export interface AgentInput {
   onToolUse?: (toolName: string, input: unknown) => void;
   /** 思考过程回调（可选，用于展示模型推理过程） */
   onThinking?: (text: string) => void;
+  /** 每轮模型调用的 token 用量回调（可选，含工具链后续轮次；抛错会中止本次运行） */
+  onUsage?: (usage: AgentUsageMetrics) => void;
+  /** 工具审批回调（可选，如 Web UI 对话框；未提供时通过渠道发送审批请求） */
+  onApprovalRequest?: ApprovalNotifier;
+  /** 指定 Agent ID（跳过 Agent 路由，需要 agent-manager 插件） */
+  agentId?: string;
+  /** 指定 Provider / 模型（"provider"、"provider/model" 或模型名，优先于路由规则） */
+  model?: string;
+  /** 工具白名单（在 Agent 白名单基础上进一步限制，支持 * 通配符） */
+  tools?: string[];
+  /** 提示词模式（默认使用 Agent 配置，未配置时为 full） */
+  promptMode?: PromptMode;
+  /** 子 Agent 委派信息（由 agent-delegation 设置） */
+  delegation?: DelegationInfo;
 }
 
 export interface AgentUsageMetrics {
@@ -91,6 +113,10 @@ export interface AgentRunMetrics {
   durationMs: number;
   model: string;
   usage?: AgentUsageMetrics;
+  /** 运行追踪 ID（可用 `flashclaw trace show <runId>` 查看） */
+  runId?: string;
+  /** 实际使用的 AI Provider 名称 */
+  provider?: string;
 }
 
 export interface AgentOutput {
@@ -99,6 +125,8 @@ export interface AgentOutput {
   newSessionId?: string;
   error?: string;
   metrics?: AgentRunMetrics;
+  /** 需要额外提示用户的消息（如预算告警） */
+  warnings?: string[];
 }
 
 // ==================== 工具系统 ====================
@@ -112,6 +140,12 @@ interface IpcContext {
   isMain: boolean;
   userId: string;
   platform?: string;
+  /** 工具审批通知器（可选） */
+  onApprovalRequest?: ApprovalNotifier;
+  /** 当前运行 ID 和 Agent（传给工具，用于子 Agent 委派） */
+  runId?: string;
+  agentId?: string;
+  delegation?: DelegationInfo;
 }
 
 /**
@@ -170,6 +204,12 @@ interface IntentRoute {
 const ALWAYS_INCLUDE_TOOLS = ['send_message'];
 
 const INTENT_ROUTES: IntentRoute[] = [
+  {
+    // 放在 memory-log 之前："聊天记录" 也包含 "记录"
+    label: 'conversation',
+    pattern: /(?:聊天记录|历史消息|之前聊过|上次(?:说|聊|讨论|提到)|讨论过|谁说过|conversation history)/i,
+    tools: ['conversation_search', 'memory_search', 'memory'],
+  },
   {
     label: 'memory-remember',
     pattern: /(?:记住|记下|remember|保存|存一下)(?!.*(?:提醒|闹钟|定时|每天|每周|每月|cron))/i,
@@ -183,7 +223,13 @@ const INTENT_ROUTES: IntentRoute[] = [
   {
     label: 'memory-recall',
     pattern: /(?:我是谁|我叫什么|我喜欢|你还记得|回忆|recall|之前说过|知道我|认识我)/i,
-    tools: ['memory_search'],
+    tools: ['memory_search', 'memory', 'conversation_search'],
+  },
+  {
+    // 放在 schedule 之前："有更新就提醒我" 应该创建监控任务
+    label: 'watch',
+    pattern: /(?:监控|盯着|有更新|有变化|变化时|更新了就|有货|降价|watch|monitor)/i,
+    tools: ['watch_task', 'list_tasks', 'cancel_task', 'pause_task', 'resume_task', 'web_fetch'],
   },
   {
     label: 'schedule',
@@ -193,7 +239,7 @@ const INTENT_ROUTES: IntentRoute[] = [
   {
     label: 'tasks',
     pattern: /(?:任务|tasks|有哪些任务|任务列表|查看任务)/i,
-    tools: ['list_tasks', 'cancel_task', 'pause_task', 'resume_task', 'schedule_task'],
+    tools: ['list_tasks', 'cancel_task', 'pause_task', 'resume_task', 'schedule_task', 'watch_task'],
   },
   {
     label: 'search',
@@ -253,13 +299,20 @@ function filterToolsByIntent(prompt: string, allTools: ToolSchema[]): IntentRout
   return { tools: allTools, intent: null };
 }
 
+/**
+ * 按工具白名单过滤（支持 * 通配符，通用工具始终保留）
+ */
+export function filterToolsByAllowlist<T extends { name: string }>(tools: T[], allowlist: string[]): T[] {
+  const patterns = allowlist.map(p => new RegExp(`^${p.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*')}$`));
+  return tools.filter(t => ALWAYS_INCLUDE_TOOLS.includes(t.name) || patterns.some(p => p.test(t.name)));
+}
 
 /**
  * 创建工具执行器
  * 完全依赖插件工具
  */
 export function createToolExecutor(ctx: IpcContext, memoryManager: MemoryManager) {
-  const { chatJid, groupFolder, userId, platform } = ctx;
+  const { chatJid, groupFolder, userId, platform, onApprovalRequest, runId, agentId, delegation } = ctx;
   const IPC_DIR = getIpcDir(groupFolder);
   const MESSAGES_DIR = path.join(IPC_DIR, 'messages');
 
@@ -268,6 +321,9 @@ export function createToolExecutor(ctx: IpcContext, memoryManager: MemoryManager
     chatId: chatJid,
     groupId: groupFolder,
     userId: userId,
+    runId,
+    agentId,
+    delegation,
     sendMessage: async (content: string) => {
       // 通过 IPC 发送消息到当前聊天
       const data = {
@@ -303,6 +359,29 @@ export function createToolExecutor(ctx: IpcContext, memoryManager: MemoryManager
     // 使用插件工具
     const toolInfo = pluginManager.getTool(name);
     if (toolInfo) {
+      // 审批策略检查
+      const policy = getToolPolicy(name);
+      if (policy === 'deny') {
+        logger.warn({ tool: name, chatJid }, '🔐 工具调用被策略禁止');
+        return { content: `Tool ${name} is denied by policy and cannot be used.`, isError: true };
+      }
+      if (policy === 'ask') {
+        setLiveState('waiting', `等待确认 ${name}`, groupFolder);
+        const decision = await requestToolApproval(
+          { toolName: name, params: normalizedParams, chatJid, groupFolder, userId, platform },
+          { notify: onApprovalRequest }
+        );
+        if (decision !== 'approved') {
+          return {
+            content: decision === 'timeout'
+              ? `Tool ${name} was not executed: user approval timed out.`
+              : `Tool ${name} was not executed: user denied the request.`,
+            isError: true
+          };
+        }
+        setLiveState('tool_use', `正在使用 ${name}`, groupFolder);
+      }
+
       const { plugin, isMultiTool } = toolInfo;
       try {
         // 多工具插件：execute(toolName, params, context)
@@ -399,13 +478,22 @@ async function sleep(ms: number): Promise<void> {
 /**
  * 获取群组的系统提示词
  */
-function getGroupSystemPrompt(group: RegisteredGroup, userId: string, isMain: boolean, isScheduledTask?: boolean, intent?: string | null, agentName?: string, agentSoul?: string): string {
+function getGroupSystemPrompt(group: RegisteredGroup, userId: string, isMain: boolean, isScheduledTask?: boolean, intent?: string | null, agentName?: string, agentSoul?: string, promptMode: PromptMode = 'full'): string {
   const memoryManager = getMemoryManager();
   
   // 获取当前时间（用于定时任务等需要时间计算的场景）
   const now = new Date();
   const currentTimeISO = now.toISOString();
   const currentTimeLocal = now.toLocaleString('zh-CN', { timeZone: TIMEZONE });
+
+  // 极简模式：只保留身份和时间
+  if (promptMode === 'none') {
+    let minimalPrompt = `你是 ${agentName || BOT_NAME}。当前时间: ${currentTimeLocal}（${TIMEZONE}）。请简洁地用中文回复。`;
+    if (isScheduledTask) {
+      minimalPrompt += '\n\n这是定时任务自动触发的执行，你的文字回复用户看不到，必须使用 send_message 工具发送消息。';
+    }
+    return minimalPrompt;
+  }
   
   // 读取群组的 CLAUDE.md 文件（如果存在）
   const groupDir = path.join(paths.groups(), group.folder);
@@ -456,12 +544,6 @@ function getGroupSystemPrompt(group: RegisteredGroup, userId: string, isMain: bo
     }
   }
   
-  // 预计算时间示例，帮助 AI 正确理解 ISO 时间
-  const in10Seconds = new Date(now.getTime() + 10000).toISOString();
-  const in30Seconds = new Date(now.getTime() + 30000).toISOString();
-  const in1Minute = new Date(now.getTime() + 60000).toISOString();
-  const in5Minutes = new Date(now.getTime() + 300000).toISOString();
-  
   // 注入 SOUL.md 人格设定（注入到系统提示词最前面）
   let soulPrefix = '';
   if (soulContent) {
@@ -485,8 +567,8 @@ function getGroupSystemPrompt(group: RegisteredGroup, userId: string, isMain: bo
     basePrompt += `\n\n---\n当前时间: ${currentTimeLocal}\n当前 ISO 时间: ${currentTimeISO}\n时区: ${TIMEZONE}`;
   } else {
     // 默认系统提示词（按意图动态裁剪，减少小模型上下文占用）
-    const needsScheduleHint = !intent || intent === 'schedule';
-    const needsScreenshotHint = !intent || intent === 'web';
+    const needsScheduleHint = promptMode === 'full' && (!intent || intent === 'schedule');
+    const needsScreenshotHint = promptMode === 'full' && (!intent || intent === 'web');
     
     const displayName = agentName || BOT_NAME;
     // 如果有 SOUL.md，身份由 SOUL.md 定义，不再注入默认身份声明
@@ -521,15 +603,11 @@ send_message({ image: "latest_screenshot", caption: "可选的说明文字" })
     if (needsScheduleHint) {
       promptSections += `
 
-## schedule_task 时间计算（重要！）
-创建一次性任务时，scheduleValue 必须使用 ISO 8601 格式。
-**请直接使用下面预计算好的 ISO 时间，不要自己转换：**
-- 10秒后 = ${in10Seconds}
-- 30秒后 = ${in30Seconds}
-- 1分钟后 = ${in1Minute}
-- 5分钟后 = ${in5Minutes}
-
-对于其他时间，按比例估算即可。例如20秒后约在10秒和30秒之间。`;
+## 定时任务时间（重要！）
+**不要自己计算时间**，直接把用户原话中的时间描述传给工具，系统会按时区精确换算：
+- schedule_task({ prompt: "...", when: "明天早上9点" })
+- reminder({ message: "...", time: "10分钟后" })
+支持 "3 小时后"、"每周一下午三点"、"每个工作日9:30"、"every other Friday at 5pm" 等说法。`;
     }
 
     promptSections += `
@@ -550,12 +628,14 @@ send_message({ image: "latest_screenshot", caption: "可选的说明文字" })
   }
   
   // 注入 USER.md 用户自我介绍（在 SOUL 之后、记忆之前）
-  if (userMdContent) {
+  if (userMdContent && promptMode === 'full') {
     basePrompt += `\n\n## 用户信息\n\n${userMdContent}`;
   }
   
-  // 构建包含长期记忆的系统提示词
-  let systemPrompt = memoryManager.buildSystemPrompt(group.folder, userId, basePrompt);
+  // 构建包含长期记忆的系统提示词（精简模式不注入记忆）
+  let systemPrompt = promptMode === 'full'
+    ? memoryManager.buildSystemPrompt(group.folder, userId, basePrompt)
+    : basePrompt;
   
   // 添加权限说明
   if (isMain) {
@@ -579,8 +659,17 @@ send_message({ image: "latest_screenshot", caption: "可选的说明文字" })
   return systemPrompt;
 }
 
+/**
+ * 单次运行结果（附带可用的 Provider 数量，用于切换备用 Provider）
+ */
+interface AgentAttempt {
+  output: AgentOutput;
+  providerCount: number;
+}
+
 /**
  * 运行 Agent（带重试）
+ * 同一 Provider 按 retryConfig 重试；遇到不可重试错误或重试耗尽时，切换到备用链中的下一个 Provider
  */
 export async function runAgent(
   group: RegisteredGroup,
@@ -588,8 +677,28 @@ export async function runAgent(
   retryConfig: RetryConfig = DEFAULT_RETRY_CONFIG
 ): Promise<AgentOutput> {
   let lastError: string | undefined;
+  let providerIndex = 0;
+  let attempt = 0;
+
+  // 预算预检：已用尽时直接拒绝，不调用模型
+  const budget = checkBudget({ groupFolder: group.folder, userId: input.userId });
+  if (!budget.allowed) {
+    logger.warn({
+      group: group.folder,
+      userId: input.userId,
+      exceeded: budget.exceeded
+    }, '💰 预算已用尽，拒绝请求');
+    return {
+      status: 'error',
+      result: null,
+      error: budget.message
+    };
+  }
+
+  // 当前用户消息只写入一次，重试和切换备用 Provider 时不重复记录（记忆中只存文本）
+  getMemoryManager().addMessage(group.folder, { role: 'user', content: input.prompt });
   
-  for (let attempt = 0; attempt <= retryConfig.maxRetries; attempt++) {
+  while (true) {
     if (attempt > 0) {
       const delay = calculateDelay(attempt - 1, retryConfig);
       logger.info({ 
@@ -601,28 +710,46 @@ export async function runAgent(
       await sleep(delay);
     }
     
-    const result = await runAgentOnce(group, input, attempt);
+    const { output: result, providerCount } = await runAgentOnce(group, input, attempt, providerIndex);
     
     if (result.status === 'success') {
       return result;
     }
     
     // Check if error is retryable
-    if (result.error && isRetryableError(result.error, retryConfig)) {
+    const retryable = !!result.error && isRetryableError(result.error, retryConfig);
+    if (retryable && attempt < retryConfig.maxRetries) {
       lastError = result.error;
+      attempt++;
       continue;
     }
     
-    // Non-retryable error, return immediately
-    return result;
+    // 不可重试或重试耗尽：切换到备用 Provider
+    if (providerIndex + 1 < providerCount) {
+      logger.warn({
+        group: group.folder,
+        provider: result.metrics?.provider,
+        error: result.error
+      }, '⚠️ Provider 调用失败，切换到备用 Provider');
+      providerIndex++;
+      attempt = 0;
+      lastError = undefined;
+      continue;
+    }
+    
+    if (!retryable) {
+      // Non-retryable error, return immediately
+      return result;
+    }
+    
+    // All retries exhausted
+    return {
+      status: 'error',
+      result: null,
+      error: `Agent failed after ${retryConfig.maxRetries + 1} attempts. Last error: ${result.error}`,
+      metrics: result.metrics
+    };
   }
-  
-  // All retries exhausted
-  return {
-    status: 'error',
-    result: null,
-    error: `Agent failed after ${retryConfig.maxRetries + 1} attempts. Last error: ${lastError}`
-  };
 }
 
 /**
@@ -631,17 +758,21 @@ export async function runAgent(
 async function runAgentOnce(
   group: RegisteredGroup,
   input: AgentInput,
-  attempt: number = 0
-): Promise<AgentOutput> {
+  attempt: number = 0,
+  providerIndex: number = 0
+): Promise<AgentAttempt> {
   const startTime = Date.now();
 
   // 从 pluginManager 获取 AI Provider
-  const apiProvider = pluginManager.getProvider();
-  if (!apiProvider) {
+  const defaultProvider = pluginManager.getProvider();
+  if (!defaultProvider) {
     return {
-      status: 'error',
-      result: null,
-      error: 'AI Provider not configured. Please install and configure a provider plugin.'
+      output: {
+        status: 'error',
+        result: null,
+        error: 'AI Provider not configured. Please install and configure a provider plugin.'
+      },
+      providerCount: 0
     };
   }
 
@@ -665,89 +796,11 @@ async function runAgentOnce(
     timeout
   }, 'Starting agent');
 
-  // 创建工具执行器
-  const toolExecutor = createToolExecutor(
-    {
-      chatJid: input.chatJid,
-      groupFolder: group.folder,
-      isMain: input.isMain,
-      userId: input.userId || input.chatJid,  // 使用 userId，如果没有则使用 chatJid
-      platform: input.platform
-    },
-    memoryManager
-  );
-
-  // 获取对话上下文
-  const context = memoryManager.getContext(group.folder);
-
-  // 检查当前模型是否支持图片输入
-  const supportsVision = currentModelSupportsVision();
-  const currentModel = getCurrentModelId();
-  
-  // 构建用户消息内容（支持图片附件）
-  let userContent: ChatMessage['content'];
-  
-  if (input.attachments && input.attachments.length > 0 && supportsVision) {
-    // 有图片附件，构建多内容块
-    const contentBlocks: (TextBlock | ImageBlock)[] = [];
-    
-    // 添加文本
-    if (input.prompt) {
-      contentBlocks.push({ type: 'text', text: input.prompt });
-    }
-    
-    // 添加图片
-    for (const attachment of input.attachments) {
-      if (attachment.type === 'image' && attachment.content) {
-        // 从 data URL 提取 base64 数据
-        let base64Data = attachment.content;
-        let mimeType = attachment.mimeType || 'image/png';
-        
-        if (attachment.content.startsWith('data:')) {
-          const match = attachment.content.match(/^data:([^;]+);base64,(.*)$/);
-          if (match) {
-            mimeType = match[1];
-            base64Data = match[2];
-          }
-        }
-        
-        contentBlocks.push({
-          type: 'image',
-          source: {
-            type: 'base64',
-            media_type: mimeType as 'image/png' | 'image/jpeg' | 'image/gif' | 'image/webp',
-            data: base64Data
-          }
-        });
-      }
-    }
-    
-    userContent = contentBlocks;
-    logger.info({ 
-      group: group.folder, 
-      model: currentModel,
-      textBlocks: contentBlocks.filter(b => b.type === 'text').length,
-      imageBlocks: contentBlocks.filter(b => b.type === 'image').length 
-    }, '📷 处理图片消息');
-  } else if (input.attachments && input.attachments.length > 0 && !supportsVision) {
-    // 模型不支持图片，只发送文本
-    userContent = input.prompt + `\n\n[用户发送了 ${input.attachments.length} 张图片，但当前模型 ${currentModel} 不支持图片输入]`;
-    logger.info({ 
-      group: group.folder, 
-      model: currentModel,
-      imageCount: input.attachments.length 
-    }, '⚠️ 当前模型不支持图片输入');
-  } else {
-    // 纯文本消息
-    userContent = input.prompt;
-  }
-  
-  // 添加当前用户消息
-  const userMessage: ChatMessage = { role: 'user', content: userContent };
-  memoryManager.addMessage(group.folder, { role: 'user', content: input.prompt }); // 记忆中只存文本
+  // 运行 ID 提前生成，工具（如子 Agent 委派）需要知道发起方的运行
+  const runId = generateRunId();
 
-  // 构建消息历史
-  const messages: ChatMessage[] = [...context, userMessage];
+  // 获取对话上下文（最新一条是 runAgent 已写入的当前用户消息，由下方 userMessage 携带图片等完整内容）
+  const context = memoryManager.getContext(group.folder).slice(0, -1);
 
   // 获取工具定义（插件工具 + 内置后备工具）
   let allTools = getAllTools();
@@ -755,27 +808,32 @@ async function runAgentOnce(
   // ==================== Agent 路由 + 工具白名单（可选，由 agent-manager 插件提供） ====================
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const agentRegistry = (globalThis as any).__flashclaw_agent_registry as {
-    resolveAgent: (ctx: { channel?: string; group?: string; peer?: string }) => MultiAgentConfig;
+    resolveAgent: (ctx: { channel?: string; group?: string; peer?: string; text?: string }) => MultiAgentConfig;
     getAgentById: (id: string) => MultiAgentConfig | undefined;
     filterToolsByAgent: <T extends { name: string }>(config: MultiAgentConfig, tools: T[]) => T[];
   } | undefined;
 
+  let resolvedAgentId: string | undefined;
   let resolvedAgentName: string | undefined;
   let resolvedAgentSoul: string | undefined;
+  let resolvedAgentModel: string | null | undefined;
+  let resolvedPromptMode: PromptMode | undefined;
 
   if (agentRegistry) {
     let agentConfig: MultiAgentConfig;
+    const pinned = input.agentId ? agentRegistry.getAgentById?.(input.agentId) : undefined;
+    if (input.agentId && !pinned) {
+      logger.warn({ agentId: input.agentId, group: group.folder }, '⚠️ 指定的 Agent 不存在，按路由规则选择');
+    }
 
-    // agent-internal 平台：从 group 名称中提取目标 Agent ID（格式: agent-{id}-{timestamp}）
-    if (input.platform === 'agent-internal' && group.folder.startsWith('agent-')) {
-      const targetId = group.folder.replace(/^agent-/, '').replace(/-\d+$/, '');
-      const target = agentRegistry.getAgentById?.(targetId);
-      agentConfig = target || agentRegistry.resolveAgent({ channel: input.platform, group: group.folder, peer: input.userId });
+    if (pinned) {
+      agentConfig = pinned;
     } else {
       agentConfig = agentRegistry.resolveAgent({
         channel: input.platform,
         group: group.folder,
         peer: input.userId,
+        text: input.messageText ?? input.prompt,
       });
     }
 
@@ -784,10 +842,36 @@ async function runAgentOnce(
       agentName: agentConfig.name,
       agentSoul: agentConfig.soul,
     }, '🎯 Agent 路由结果');
+    resolvedAgentId = agentConfig.id;
     resolvedAgentName = agentConfig.name;
     resolvedAgentSoul = agentConfig.soul;
+    resolvedAgentModel = agentConfig.model;
+    resolvedPromptMode = agentConfig.promptMode;
     allTools = agentRegistry.filterToolsByAgent(agentConfig, allTools);
+  } else if (input.agentId) {
+    logger.warn({ agentId: input.agentId }, '⚠️ 未加载 agent-manager 插件，忽略指定的 Agent');
+  }
+
+  // 调用方指定的工具白名单（如定时任务的 allowed_tools）
+  if (input.tools) {
+    allTools = filterToolsByAllowlist(allTools, input.tools);
   }
+
+  // 创建工具执行器
+  const toolExecutor = createToolExecutor(
+    {
+      chatJid: input.chatJid,
+      groupFolder: group.folder,
+      isMain: input.isMain,
+      userId: input.userId || input.chatJid,  // 使用 userId，如果没有则使用 chatJid
+      platform: input.platform,
+      onApprovalRequest: input.onApprovalRequest,
+      runId,
+      agentId: resolvedAgentId,
+      delegation: input.delegation
+    },
+    memoryManager
+  );
   
   // ==================== 意图路由 + 工具过滤 ====================
   // 根据用户消息关键词预筛选工具，减少小模型的选择负担
@@ -833,6 +917,18 @@ async function runAgentOnce(
         } catch (err) {
           logger.debug({ err }, '🎯 recall 意图：自动检索失败，回退到模型决策');
         }
+      } else {
+        // 未安装 memory_search 时使用内置全文索引
+        try {
+          const matches = getMemoryManager().searchMemories(input.prompt, { userId: input.userId || input.chatJid, limit: 5 });
+          if (matches.length > 0) {
+            const memoryContext = matches.map(r => `- ${r.key}: ${r.value}`).join('\n');
+            systemPromptExtra = `\n\n## 相关记忆（自动检索）\n以下是与用户问题相关的记忆，请基于这些信息回答：\n${memoryContext}`;
+            logger.debug({ results: matches.length }, '🎯 recall 意图：已从全文索引检索记忆');
+          }
+        } catch (err) {
+          logger.debug({ err }, '🎯 recall 意图：全文检索失败，回退到模型决策');
+        }
       }
     }
   }
@@ -844,15 +940,108 @@ async function runAgentOnce(
     toolNames: tools.map(t => t.name)
   }, '⚡ 工具列表');
 
+  // ==================== Provider 路由 + 备用链 ====================
+  // 按 config/providers.json 的路由规则、Agent 配置的 model 选择 Provider，失败时由 runAgent 切换到备用
+  const providerChain = resolveProviderChain({
+    group: group.folder,
+    agentId: resolvedAgentId,
+    agentModel: resolvedAgentModel,
+    modelOverride: input.model,
+    intent: detectedIntent,
+    channel: input.platform,
+  });
+  const providerChoice = providerChain[providerIndex] ?? { provider: defaultProvider, source: 'default' as const };
+  const apiProvider = providerChoice.provider;
+  const currentModel = providerChoice.model
+    ?? (providerChoice.source === 'default' ? getCurrentModelId() : apiProvider.getModel());
+  const providerCount = Math.max(providerChain.length, 1);
+
+  if (providerChoice.source !== 'default') {
+    logger.info({
+      group: group.folder,
+      provider: apiProvider.name,
+      model: currentModel,
+      source: providerChoice.source
+    }, '🔀 Provider 路由');
+  }
+
+  // 检查当前模型是否支持图片输入
+  const supportsVision = modelSupportsVision(currentModel);
+  
+  // 构建用户消息内容（支持图片附件）
+  let userContent: ChatMessage['content'];
+  
+  if (input.attachments && input.attachments.length > 0 && supportsVision) {
+    // 有图片附件，构建多内容块
+    const contentBlocks: (TextBlock | ImageBlock)[] = [];
+    
+    // 添加文本
+    if (input.prompt) {
+      contentBlocks.push({ type: 'text', text: input.prompt });
+    }
+    
+    // 添加图片
+    for (const attachment of input.attachments) {
+      if (attachment.type === 'image' && attachment.content) {
+        // 从 data URL 提取 base64 数据
+        let base64Data = attachment.content;
+        let mimeType = attachment.mimeType || 'image/png';
+        
+        if (attachment.content.startsWith('data:')) {
+          const match = attachment.content.match(/^data:([^;]+);base64,(.*)$/);
+          if (match) {
+            mimeType = match[1];
+            base64Data = match[2];
+          }
+        }
+        
+        contentBlocks.push({
+          type: 'image',
+          source: {
+            type: 'base64',
+            media_type: mimeType as 'image/png' | 'image/jpeg' | 'image/gif' | 'image/webp',
+            data: base64Data
+          }
+        });
+      }
+    }
+    
+    userContent = contentBlocks;
+    logger.info({ 
+      group: group.folder, 
+      model: currentModel,
+      textBlocks: contentBlocks.filter(b => b.type === 'text').length,
+      imageBlocks: contentBlocks.filter(b => b.type === 'image').length 
+    }, '📷 处理图片消息');
+  } else if (input.attachments && input.attachments.length > 0 && !supportsVision) {
+    // 模型不支持图片，只发送文本
+    userContent = input.prompt + `\n\n[用户发送了 ${input.attachments.length} 张图片，但当前模型 ${currentModel} 不支持图片输入]`;
+    logger.info({ 
+      group: group.folder, 
+      model: currentModel,
+      imageCount: input.attachments.length 
+    }, '⚠️ 当前模型不支持图片输入');
+  } else {
+    // 纯文本消息
+    userContent = input.prompt;
+  }
+  
+  // 当前用户消息（已在 runAgent 中写入记忆）
+  const userMessage: ChatMessage = { role: 'user', content: userContent };
+
+  // 构建消息历史
+  const messages: ChatMessage[] = [...context, userMessage];
+
   // 获取系统提示词（在意图检测之后，以便按意图裁剪提示词内容）
   const systemPrompt = getGroupSystemPrompt(
     group,
     input.userId || input.chatJid,
     input.isMain,
-    input.isScheduledTask,
+    input.isScheduledTask && !input.deliversReply,
     detectedIntent,
     resolvedAgentName,
-    resolvedAgentSoul
+    resolvedAgentSoul,
+    input.promptMode ?? resolvedPromptMode
   ) + systemPromptExtra;
 
   // ==================== 上下文窗口保护 ====================
@@ -878,9 +1067,13 @@ async function runAgentOnce(
     }, '🛡️ 上下文窗口空间不足，拒绝请求');
 
     return {
-      status: 'error',
-      result: null,
-      error: ctxCheck.error || '上下文窗口空间不足，请执行 /compact 压缩对话后重试。',
+      output: {
+        status: 'error',
+        result: null,
+        error: ctxCheck.error || '上下文窗口空间不足，请执行 /compact 压缩对话后重试。',
+        metrics: { durationMs: Date.now() - startTime, model: currentModel, provider: apiProvider.name },
+      },
+      providerCount,
     };
   }
 
@@ -896,7 +1089,7 @@ async function runAgentOnce(
     await memoryManager.compact(group.folder, apiProvider);
 
     // 压缩后重新获取上下文和消息
-    const compactedContext = memoryManager.getContext(group.folder);
+    const compactedContext = memoryManager.getContext(group.folder).slice(0, -1);
     const compactedMessages: ChatMessage[] = [...compactedContext, userMessage];
     // 用压缩后的消息替换原消息列表
     messages.length = 0;
@@ -935,23 +1128,74 @@ async function runAgentOnce(
   // 开始计时
   resetActivityTimeout();
 
+  const finalSystemPrompt = systemPromptExtra ? systemPrompt + systemPromptExtra : systemPrompt;
+
+  // 运行追踪：记录提示词、消息、流式事件和工具调用，便于事后回放
+  const tracer = new RunTracer({
+    runId,
+    chatJid: input.chatJid,
+    groupFolder: group.folder,
+    agentId: resolvedAgentId,
+    model: currentModel,
+    systemPrompt: finalSystemPrompt,
+    messages,
+    isScheduledTask: input.isScheduledTask,
+  });
+
+  // 整次运行的 token 用量（首轮 + 工具链后续每一轮）
+  const usage = { inputTokens: 0, outputTokens: 0, turns: 0 };
+  const addUsage = (turn: { input_tokens?: number; output_tokens?: number } | null | undefined): void => {
+    if (!turn) return;
+    const turnUsage = { inputTokens: turn.input_tokens || 0, outputTokens: turn.output_tokens || 0 };
+    usage.inputTokens += turnUsage.inputTokens;
+    usage.outputTokens += turnUsage.outputTokens;
+    usage.turns++;
+    input.onUsage?.(turnUsage);
+  };
+  const getUsageMetrics = (): AgentUsageMetrics | undefined =>
+    usage.turns > 0 ? { inputTokens: usage.inputTokens, outputTokens: usage.outputTokens } : undefined;
+  // 记录 token 使用（运行失败时已消耗的用量同样计入）
+  const recordRunUsage = (): string[] => {
+    if (usage.turns === 0) return [];
+    const session = recordTokenUsage(input.chatJid, {
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens
+    }, currentModel);
+    const warnings = recordUsage({
+      chatJid: input.chatJid,
+      groupFolder: group.folder,
+      userId: input.userId,
+      provider: apiProvider.name,
+      model: currentModel,
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens
+    });
+
+    logger.info({
+      chatId: input.chatJid,
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+      turns: usage.turns,
+      totalTokens: session.totalTokens
+    }, '📊 Token 统计');
+    return warnings;
+  };
+
   try {
     // 使用流式 API 获取响应（避免长时间等待导致超时）
     let responseText = '';
     let stopReason: string | null = null;
-    let usage: { input_tokens: number; output_tokens: number } | null = null;
     // 保存流式收集的完整消息对象（用于工具调用，避免重复 API 请求）
     let streamedMessage: unknown = null;
 
     logger.info({ group: group.folder }, '⚡ 开始流式请求');
     setLiveState('thinking', '正在思考...', group.folder);
 
-    const finalSystemPrompt = systemPromptExtra ? systemPrompt + systemPromptExtra : systemPrompt;
-
     for await (const event of apiProvider.chatStream(messages, {
       system: finalSystemPrompt,
       tools,
-      maxTokens: AI_MAX_OUTPUT_TOKENS
+      maxTokens: AI_MAX_OUTPUT_TOKENS,
+      model: providerChoice.model
     })) {
       // 每收到数据就重置超时计时器
       resetActivityTimeout();
@@ -960,6 +1204,8 @@ async function runAgentOnce(
         throw new Error(`Agent timed out after ${timeout}ms of inactivity`);
       }
 
+      tracer.recordStreamEvent(event);
+
       if (event.type === 'thinking') {
         input.onThinking?.(event.text);
         setLiveState('thinking', '正在思考...', group.folder);
@@ -983,7 +1229,7 @@ async function runAgentOnce(
         streamedMessage = event.message;
         const msg = event.message as Anthropic.Message;
         stopReason = msg.stop_reason || null;
-        usage = msg.usage || null;
+        addUsage(msg.usage);
       }
     }
 
@@ -999,21 +1245,6 @@ async function runAgentOnce(
       stopReason,
     }, '⚡ API 响应');
 
-    // 记录 token 使用
-    if (usage) {
-      const session = recordTokenUsage(input.chatJid, {
-        inputTokens: usage.input_tokens || 0,
-        outputTokens: usage.output_tokens || 0
-      }, getCurrentModelId());
-      
-      logger.info({
-        chatId: input.chatJid,
-        inputTokens: usage?.input_tokens,
-        outputTokens: usage?.output_tokens,
-        totalTokens: session.totalTokens
-      }, '📊 Token 统计');
-    }
-
     let result: string;
 
     // 检查是否有工具调用
@@ -1022,25 +1253,42 @@ async function runAgentOnce(
       // 直接使用流式收集的完整消息对象，不再重复发送 API 请求
       resetActivityTimeout();
 
+      let followUpStreamed = false;
       result = await apiProvider.handleToolUse(
         streamedMessage,
         messages,
         async (name, params) => {
           resetActivityTimeout(); // 工具执行时也重置超时
           input.onToolUse?.(name, params);
+          const toolStart = Date.now();
           const toolResult = await toolExecutor(name, params);
+          tracer.recordToolCall(name, params, toolResult.content, !!toolResult.isError, Date.now() - toolStart);
           if (toolResult.isError) {
             throw new Error(toolResult.content);
           }
           return toolResult.content;
         },
-        { system: finalSystemPrompt, tools, maxTokens: AI_MAX_OUTPUT_TOKENS },
+        { system: finalSystemPrompt, tools, maxTokens: AI_MAX_OUTPUT_TOKENS, model: providerChoice.model },
         // 心跳回调：工具链内每收到流式数据或执行工具时重置超时
-        () => resetActivityTimeout()
+        () => resetActivityTimeout(),
+        // 后续轮次事件：写入追踪、流式输出并累计 token 用量（工具进度由执行器的 onToolUse 通知）
+        (event) => {
+          tracer.recordStreamEvent(event);
+          if (event.type === 'thinking') {
+            input.onThinking?.(event.text);
+            setLiveState('thinking', '正在思考...', group.folder);
+          } else if (event.type === 'text') {
+            followUpStreamed = true;
+            input.onToken?.(event.text);
+            setLiveState('responding', '正在回复...', group.folder);
+          } else if (event.type === 'done') {
+            addUsage((event.message as Anthropic.Message).usage);
+          }
+        }
       );
 
-      // 工具调用后的最终文本通过 onToken 发送给 CLI（handleToolUse 内部的流式输出不经过 onToken）
-      if (result && input.onToken) {
+      // Provider 未流式输出后续轮次时（如 mock / 回放），最终文本一次性通过 onToken 发送
+      if (result && input.onToken && !followUpStreamed) {
         input.onToken(result);
       }
 
@@ -1050,6 +1298,8 @@ async function runAgentOnce(
       result = responseText;
     }
 
+    const budgetWarnings = recordRunUsage();
+
     // 保存助手回复到记忆
     memoryManager.addMessage(group.folder, { role: 'assistant', content: result });
 
@@ -1068,19 +1318,23 @@ async function runAgentOnce(
     }, 'Agent completed');
     setLiveState('idle', '', group.folder);
 
+    const usageMetrics = getUsageMetrics();
+    tracer.finish({ status: 'success', result, usage: usageMetrics });
+
     return {
-      status: 'success',
-      result,
-      metrics: {
-        durationMs: duration,
-        model: getCurrentModelId(),
-        usage: usage
-          ? {
-              inputTokens: usage.input_tokens || 0,
-              outputTokens: usage.output_tokens || 0,
-            }
-          : undefined,
+      output: {
+        status: 'success',
+        result,
+        metrics: {
+          durationMs: duration,
+          model: currentModel,
+          usage: usageMetrics,
+          runId: tracer.enabled ? tracer.runId : undefined,
+          provider: apiProvider.name,
+        },
+        warnings: budgetWarnings.length > 0 ? budgetWarnings : undefined,
       },
+      providerCount,
     };
 
   } catch (err) {
@@ -1091,19 +1345,29 @@ async function runAgentOnce(
 
     logger.error({
       group: group.folder,
+      provider: apiProvider.name,
       duration,
       error: errorMessage
     }, 'Agent error');
     setLiveState('error', errorMessage, group.folder);
+    recordRunUsage();
+    const usageMetrics = getUsageMetrics();
+    tracer.finish({ status: 'error', error: errorMessage, usage: usageMetrics });
 
     return {
-      status: 'error',
-      result: null,
-      error: errorMessage,
-      metrics: {
-        durationMs: duration,
-        model: getCurrentModelId(),
+      output: {
+        status: 'error',
+        result: null,
+        error: errorMessage,
+        metrics: {
+          durationMs: duration,
+          model: currentModel,
+          usage: usageMetrics,
+          runId: tracer.enabled ? tracer.runId : undefined,
+          provider: apiProvider.name,
+        },
       },
+      providerCount,
     };
   }
 }
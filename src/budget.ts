@@ -0,0 +1,300 @@
+/**
+ * Token / 费用预算
+ *
+ * - 每次模型调用的 token 用量写入 token_usage 表（按价格表估算费用）
+ * - 按 全局 / 群组 / 用户 设置每日、每月的 token 或费用上限（config/budgets.json）
+ * - runAgent 调用前预检，预算用尽时直接拒绝；用量首次超过 warnAt（默认 80%）时提示
+ *
+ * 配置示例：
+ * {
+ *   "currency": "USD",
+ *   "warnAt": 0.8,
+ *   "global": { "monthly": { "cost": 50 } },
+ *   "groups": { "*": { "daily": { "tokens": 500000 } }, "main": { "daily": { "tokens": 2000000 } } },
+ *   "users": { "*": { "daily": { "cost": 1 } } },
+ *   "pricing": { "qwen2.5:*": { "input": 0, "output": 0 } }
+ * }
+ *
+ * groups / users 中的 "*" 为默认值，对每个群组 / 用户单独计算。
+ * 每日、每月按 TIMEZONE 时区划分。
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { CronExpressionParser } from 'cron-parser';
+import { paths } from './paths.js';
+import { TIMEZONE } from './config.js';
+import { logTokenUsage, sumTokenUsage, getTokenUsageByModel, type TokenUsageFilter } from './db.js';
+import { estimateCost, type PricingOverrides } from './core/pricing.js';
+import { substituteEnvVarsDeep } from './utils/env-substitute.js';
+import { createLogger } from './logger.js';
+import type { TokenUsageSummary } from './types.js';
+
+const logger = createLogger('Budget');
+
+// ==================== 类型定义 ====================
+
+export interface BudgetLimit {
+  /** token 上限（输入 + 输出） */
+  tokens?: number;
+  /** 费用上限（与价格表同一货币） */
+  cost?: number;
+}
+
+export interface BudgetPeriods {
+  daily?: BudgetLimit;
+  monthly?: BudgetLimit;
+}
+
+/**
+ * config/budgets.json
+ */
+export interface BudgetConfig {
+  /** 费用显示的货币单位（默认 USD，需与价格表一致） */
+  currency?: string;
+  /** 告警阈值（0-1，默认 0.8） */
+  warnAt?: number;
+  global?: BudgetPeriods;
+  /** 按群组文件夹，"*" 为默认值 */
+  groups?: Record<string, BudgetPeriods>;
+  /** 按用户 ID，"*" 为默认值 */
+  users?: Record<string, BudgetPeriods>;
+  /** 价格覆盖（模型 ID → 每百万 token 价格） */
+  pricing?: PricingOverrides;
+}
+
+export type BudgetScope = 'global' | 'group' | 'user';
+export type BudgetPeriod = 'daily' | 'monthly';
+export type BudgetMetric = 'tokens' | 'cost';
+
+export interface BudgetStatus {
+  scope: BudgetScope;
+  /** 群组文件夹或用户 ID（global 为空） */
+  id?: string;
+  period: BudgetPeriod;
+  metric: BudgetMetric;
+  used: number;
+  limit: number;
+}
+
+export interface BudgetTarget {
+  groupFolder: string;
+  userId?: string;
+}
+
+export interface BudgetCheckResult {
+  allowed: boolean;
+  /** 第一个已用尽的预算 */
+  exceeded?: BudgetStatus;
+  /** 拒绝原因（allowed 为 false 时） */
+  message?: string;
+  statuses: BudgetStatus[];
+}
+
+export interface UsageEntry {
+  chatJid: string;
+  groupFolder: string;
+  userId?: string;
+  provider?: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+const DEFAULT_WARN_AT = 0.8;
+const PERIODS: BudgetPeriod[] = ['daily', 'monthly'];
+const METRICS: BudgetMetric[] = ['tokens', 'cost'];
+
+// ==================== 配置 ====================
+
+/**
+ * 读取 config/budgets.json（不存在时返回空配置，即不限额）
+ */
+export function loadBudgetConfig(): BudgetConfig {
+  const configFile = paths.budgetsConfig();
+  try {
+    if (existsSync(configFile)) {
+      return substituteEnvVarsDeep(JSON.parse(readFileSync(configFile, 'utf-8'))) as BudgetConfig;
+    }
+  } catch (err) {
+    logger.warn({ err, file: configFile }, '⚠️ 读取预算配置失败，已忽略');
+  }
+  return {};
+}
+
+/**
+ * 获取统计周期的起始时间（TIMEZONE 时区的今日 0 点 / 本月 1 日 0 点）
+ * 与调度器一样用 cron 表达式按时区计算，夏令时切换也能得到正确的边界
+ */
+export function getPeriodStart(period: BudgetPeriod, now: Date = new Date(), timeZone: string = TIMEZONE): string {
+  const expression = period === 'daily' ? '0 0 * * *' : '0 0 1 * *';
+  // prev() 不包含当前时刻，向后偏移 1ms 使恰好处于边界时归入新周期
+  const interval = CronExpressionParser.parse(expression, { tz: timeZone, currentDate: new Date(now.getTime() + 1) });
+  return interval.prev().toDate().toISOString();
+}
+
+function hasDb(): boolean {
+  return !!global.__flashclaw_db;
+}
+
+/**
+ * 收集适用于目标的预算项：[scope, id, periods, 统计过滤条件]
+ */
+function collectBudgets(target: BudgetTarget, config: BudgetConfig): Array<[BudgetScope, string | undefined, BudgetPeriods, TokenUsageFilter]> {
+  const budgets: Array<[BudgetScope, string | undefined, BudgetPeriods, TokenUsageFilter]> = [];
+  if (config.global) {
+    budgets.push(['global', undefined, config.global, {}]);
+  }
+  const groupBudget = config.groups?.[target.groupFolder] ?? config.groups?.['*'];
+  if (groupBudget) {
+    budgets.push(['group', target.groupFolder, groupBudget, { groupFolder: target.groupFolder }]);
+  }
+  const userBudget = target.userId ? (config.users?.[target.userId] ?? config.users?.['*']) : undefined;
+  if (userBudget && target.userId) {
+    budgets.push(['user', target.userId, userBudget, { userId: target.userId }]);
+  }
+  return budgets;
+}
+
+/**
+ * 计算目标适用的所有预算的当前用量
+ */
+export function getBudgetStatuses(target: BudgetTarget, config: BudgetConfig = loadBudgetConfig()): BudgetStatus[] {
+  if (!hasDb()) return [];
+
+  const statuses: BudgetStatus[] = [];
+  const now = new Date();
+  for (const [scope, id, periods, filter] of collectBudgets(target, config)) {
+    for (const period of PERIODS) {
+      const limits = periods[period];
+      if (!limits) continue;
+      const limited = METRICS.filter(metric => typeof limits[metric] === 'number' && limits[metric]! >= 0);
+      if (limited.length === 0) continue;
+
+      const totals = sumTokenUsage(getPeriodStart(period, now), filter);
+      for (const metric of limited) {
+        statuses.push({ scope, id, period, metric, used: totals[metric], limit: limits[metric]! });
+      }
+    }
+  }
+  return statuses;
+}
+
+// ==================== 文案 ====================
+
+export function formatCost(value: number, currency: string = 'USD'): string {
+  return `${value.toFixed(value < 1 ? 4 : 2)} ${currency}`;
+}
+
+function formatAmount(metric: BudgetMetric, value: number, currency: string): string {
+  return metric === 'tokens' ? Math.round(value).toLocaleString() : formatCost(value, currency);
+}
+
+/**
+ * 预算名称，如 "群组 main 的每日 token 预算"
+ */
+export function describeBudget(status: BudgetStatus): string {
+  const owner = status.scope === 'global'
+    ? '全局'
+    : status.scope === 'group' ? `群组 ${status.id} 的` : '你的';
+  const period = status.period === 'daily' ? '每日' : '每月';
+  const metric = status.metric === 'tokens' ? ' token ' : '费用';
+  return `${owner}${period}${metric}预算`;
+}
+
+export function formatBudgetStatus(status: BudgetStatus, currency: string = 'USD'): string {
+  const percent = status.limit > 0 ? Math.round((status.used / status.limit) * 100) : 100;
+  return `${formatAmount(status.metric, status.used, currency)} / ${formatAmount(status.metric, status.limit, currency)} (${percent}%)`;
+}
+
+// ==================== 预检与记录 ====================
+
+/**
+ * 调用模型前检查预算
+ */
+export function checkBudget(target: BudgetTarget): BudgetCheckResult {
+  const config = loadBudgetConfig();
+  const statuses = getBudgetStatuses(target, config);
+  const exceeded = statuses.find(s => s.used >= s.limit);
+  if (!exceeded) {
+    return { allowed: true, statuses };
+  }
+
+  const currency = config.currency || 'USD';
+  const resetHint = exceeded.period === 'daily' ? '明天' : '下个月';
+  return {
+    allowed: false,
+    exceeded,
+    statuses,
+    message: `已用尽${describeBudget(exceeded)}（${formatBudgetStatus(exceeded, currency)}），请${resetHint}再试或联系管理员调整预算。`,
+  };
+}
+
+/**
+ * 记录一次模型调用的用量
+ * @returns 本次调用后首次超过告警阈值的预算提示
+ */
+export function recordUsage(entry: UsageEntry): string[] {
+  if (!hasDb()) return [];
+
+  const config = loadBudgetConfig();
+  const target = { groupFolder: entry.groupFolder, userId: entry.userId };
+  const tokens = entry.inputTokens + entry.outputTokens;
+  const cost = estimateCost(entry.model, entry, config.pricing);
+
+  try {
+    const before = getBudgetStatuses(target, config);
+    logTokenUsage({
+      chat_jid: entry.chatJid,
+      group_folder: entry.groupFolder,
+      user_id: entry.userId ?? null,
+      provider: entry.provider ?? null,
+      model: entry.model,
+      input_tokens: entry.inputTokens,
+      output_tokens: entry.outputTokens,
+      cost,
+      created_at: new Date().toISOString(),
+    });
+
+    const warnAt = config.warnAt ?? DEFAULT_WARN_AT;
+    const currency = config.currency || 'USD';
+    const warnings: string[] = [];
+    for (const status of before) {
+      const after = { ...status, used: status.used + (status.metric === 'tokens' ? tokens : cost) };
+      if (status.limit > 0 && status.used < status.limit * warnAt && after.used >= status.limit * warnAt) {
+        warnings.push(`⚠️ ${describeBudget(after)}已使用 ${formatBudgetStatus(after, currency)}`);
+      }
+    }
+    if (warnings.length > 0) {
+      logger.warn({ group: entry.groupFolder, userId: entry.userId, warnings }, '💰 预算即将用尽');
+    }
+    return warnings;
+  } catch (err) {
+    logger.warn({ err }, '💰 记录 token 用量失败');
+    return [];
+  }
+}
+
+// ==================== 用量统计 ====================
+
+export interface UsageBreakdown {
+  period: BudgetPeriod;
+  since: string;
+  byModel: TokenUsageSummary[];
+  totalTokens: number;
+  totalCost: number;
+}
+
+/**
+ * 按模型统计今日 / 本月用量（用于 /usage）
+ */
+export function getUsageBreakdown(period: BudgetPeriod, filter: TokenUsageFilter = {}): UsageBreakdown {
+  const since = getPeriodStart(period);
+  const byModel = hasDb() ? getTokenUsageByModel(since, filter) : [];
+  return {
+    period,
+    since,
+    byModel,
+    totalTokens: byModel.reduce((sum, m) => sum + m.input_tokens + m.output_tokens, 0),
+    totalCost: byModel.reduce((sum, m) => sum + m.cost, 0),
+  };
+}
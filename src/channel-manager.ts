@@ -4,8 +4,9 @@
  */
 
 import { pluginManager } from './plugins/manager.js';
-import { ChannelPlugin, Message, MessageHandler, SendMessageResult } from './plugins/types.js';
+import { ApprovalPrompt, ChannelPlugin, ChannelStreamingOptions, Message, MessageHandler, SendMessageResult } from './plugins/types.js';
 import { createLogger } from './logger.js';
+import { STREAM_REPLY_CHANNELS, STREAM_REPLY_INTERVAL_MS } from './config.js';
 
 const logger = createLogger('ChannelManager');
 
@@ -82,6 +83,32 @@ export class ChannelManager {
     }
   }
   
+  /**
+   * 渠道是否支持编辑已发送的消息（未指定平台时任一渠道支持即可）
+   */
+  supportsMessageUpdate(platform?: string): boolean {
+    if (!platform) return this.channels.some(c => c.updateMessage);
+    return !!this.channels.find(c => c.name === platform)?.updateMessage;
+  }
+
+  /**
+   * 获取渠道的流式回复参数
+   * 渠道需要声明 streaming 并实现 updateMessage，且在 STREAM_REPLY_CHANNELS 中启用
+   */
+  getStreamingOptions(platform?: string): ChannelStreamingOptions | null {
+    if (!platform) return null;
+    const channel = this.channels.find(c => c.name === platform);
+    if (!channel?.streaming || !channel.updateMessage) return null;
+
+    const enabled = STREAM_REPLY_CHANNELS.includes('*') || STREAM_REPLY_CHANNELS.includes(platform);
+    if (!enabled || STREAM_REPLY_CHANNELS.includes('none')) return null;
+
+    return {
+      ...channel.streaming,
+      editIntervalMs: Math.max(channel.streaming.editIntervalMs, STREAM_REPLY_INTERVAL_MS),
+    };
+  }
+
   async deleteMessage(messageId: string, platform?: string): Promise<void> {
     if (platform) {
       const channel = this.channels.find(c => c.name === platform);
@@ -130,6 +157,23 @@ export class ChannelManager {
     return await this.sendMessage(chatId, caption || '[图片无法显示]', platform);
   }
   
+  async sendApprovalRequest(chatId: string, prompt: ApprovalPrompt, platform?: string): Promise<SendMessageResult> {
+    // 优先使用渠道自带的按钮式审批，不支持时降级为纯文本（/approve、/deny 命令应答）
+    const channel = platform ? this.channels.find(c => c.name === platform) : undefined;
+    if (channel?.sendApprovalRequest) {
+      try {
+        const result = await channel.sendApprovalRequest(chatId, prompt);
+        if (result.success) {
+          return result;
+        }
+        logger.debug({ channel: channel.name, chatId, error: result.error }, '渠道发送审批卡片未成功，降级为文本');
+      } catch (err) {
+        logger.debug({ channel: channel.name, chatId, err }, '渠道发送审批卡片异常，降级为文本');
+      }
+    }
+    return await this.sendMessage(chatId, prompt.text, platform);
+  }
+  
   getEnabledPlatforms(): string[] {
     return this.enabledPlatforms;
   }
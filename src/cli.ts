@@ -103,6 +103,17 @@ ${bold('命令:')}
   ${cyan('daemon <action>')}             后台服务管理 (install|uninstall|status|start|stop)
   ${cyan('config list-backups')}         列出配置备份
   ${cyan('config restore [n]')}          恢复配置备份（n=1-5，默认1）
+  ${cyan('trace list')}                  列出最近的 Agent 运行
+  ${cyan('trace show <runId>')}          回放 Agent 运行详情
+  ${cyan('workflow list')}               列出工作流
+  ${cyan('workflow show <id>')}           查看工作流步骤图和运行记录
+  ${cyan('workflow create <file>')}       从 JSON 文件创建工作流
+  ${cyan('workflow run <id>')}            立即运行工作流
+  ${cyan('workflow delete <id>')}         删除工作流
+  ${cyan('calendar export')}             导出定时任务为 .ics 日历
+  ${cyan('calendar import <file>')}      把日历提醒导入为提醒任务
+  ${cyan('agents list')}                 列出多 Agent 配置和绑定规则
+  ${cyan('agents route')}                模拟消息路由 (--channel --group --peer --text)
   ${cyan('version')}                     显示版本
   ${cyan('help')}                        显示帮助
 
@@ -548,6 +559,30 @@ async function main(): Promise<void> {
       await daemonCommand(action);
       break;
     }
+
+    case 'trace': {
+      const { traceCommand } = await import('./commands/trace.js');
+      await traceCommand(subcommand || '', args, flags);
+      break;
+    }
+
+    case 'workflow': {
+      const { workflowCommand } = await import('./commands/workflow.js');
+      await workflowCommand(subcommand || '', args, flags);
+      break;
+    }
+
+    case 'calendar': {
+      const { calendarCommand } = await import('./commands/calendar.js');
+      await calendarCommand(subcommand || '', args, flags);
+      break;
+    }
+
+    case 'agents': {
+      const { agentsCommand } = await import('./commands/agents.js');
+      await agentsCommand(subcommand || '', args, flags);
+      break;
+    }
       
     case 'plugins':
       await handlePluginsCommand(subcommand, args, flags);
@@ -7,6 +7,22 @@
 
 import pino from 'pino';
 import { listSouls, useSoul, resetSoul, getSoulSummary } from './soul-manager.js';
+import { resolveToolApproval, getPendingApprovals, canRespondToApproval } from './tool-approval.js';
+import {
+  loadBudgetConfig,
+  getBudgetStatuses,
+  getUsageBreakdown,
+  describeBudget,
+  formatBudgetStatus,
+  formatCost,
+  type BudgetPeriod
+} from './budget.js';
+import { MAIN_GROUP_FOLDER, MEMORY_STALE_DAYS, TIMEZONE } from './config.js';
+import { getMemoryManager, type MemoryEntry } from './core/memory.js';
+import { searchMessages, getTaskRunLogs, type MessageSearchFilter } from './db.js';
+import type { MessageSearchResult, TaskRunLog } from './types.js';
+import { parseSchedule, previewRuns } from './schedule-parser.js';
+import { parseDateBound } from './utils/date-range.js';
 
 const logger = pino({
   level: process.env.LOG_LEVEL || 'info',
@@ -47,6 +63,12 @@ export interface TaskInfo {
   scheduleType: string;
   nextRun?: string;
   status: string;
+  /** 连续成功次数 */
+  successStreak?: number;
+  /** 连续失败次数 */
+  failureStreak?: number;
+  /** 本轮连续失败开始时间 */
+  failingSince?: string;
 }
 
 /**
@@ -109,7 +131,7 @@ export function handleCommand(content: string, context: CommandContext): Command
 
     case 'tasks':
     case '任务':
-      return handleTasks(context);
+      return handleTasks(context, args);
 
     case 'ping':
       return handlePing();
@@ -122,6 +144,26 @@ export function handleCommand(content: string, context: CommandContext): Command
     case '人格':
       return handleSoul(context, args);
 
+    case 'approve':
+    case '同意':
+      return handleApproval(context, args, true);
+
+    case 'deny':
+    case '拒绝':
+      return handleApproval(context, args, false);
+
+    case 'usage':
+    case '用量':
+      return handleUsage(context, args);
+
+    case 'memory':
+    case '记忆':
+      return handleMemory(context, args);
+
+    case 'search':
+    case '搜索':
+      return handleSearch(context, args);
+
     default:
       return {
         isCommand: true,
@@ -144,8 +186,17 @@ function handleHelp(): CommandResult {
 \`/compact\` - 压缩会话上下文
 \`/soul\` - 查看/切换人格
 \`/tasks\` - 查看定时任务
+\`/tasks history <id>\` - 查看任务运行记录
+\`/tasks preview <时间>\` - 预览时间描述的解析结果
+\`/usage [me|all]\` - 查看 token 用量和预算
+\`/memory review\` - 复查过期或矛盾的长期记忆
+\`/search <关键词>\` - 搜索聊天记录
 \`/ping\` - 测试机器人响应
 
+🔐 **工具审批**
+\`/approve [id]\` - 允许待确认的工具调用
+\`/deny [id]\` - 拒绝待确认的工具调用
+
 💡 **提示**
 • 私聊直接发消息即可对话
 • 群聊需要 @机器人 触发响应
@@ -250,7 +301,15 @@ function handleReset(context: CommandContext): CommandResult {
 /**
  * /tasks - 显示定时任务
  */
-function handleTasks(context: CommandContext): CommandResult {
+function handleTasks(context: CommandContext, args: string[] = []): CommandResult {
+  const sub = args[0]?.toLowerCase();
+  if (sub === 'history' || sub === '记录') {
+    return handleTaskHistory(context, args.slice(1));
+  }
+  if (sub === 'preview' || sub === '预览') {
+    return handleTaskPreview(args.slice(1).join(' '));
+  }
+
   const tasks = context.getTasks?.() || [];
   
   if (tasks.length === 0) {
@@ -272,9 +331,14 @@ function handleTasks(context: CommandContext): CommandResult {
     if (task.nextRun) {
       tasksText += `   ⏰ 下次: ${new Date(task.nextRun).toLocaleString('zh-CN')}\n`;
     }
+    if (task.failureStreak && task.failureStreak > 0) {
+      tasksText += `   ⚠️ 连续失败 ${task.failureStreak} 次\n`;
+    }
     tasksText += `\n`;
   }
 
+  tasksText += `_发送 /tasks history <id> 查看运行记录_`;
+
   return {
     isCommand: true,
     shouldRespond: true,
@@ -282,6 +346,131 @@ function handleTasks(context: CommandContext): CommandResult {
   };
 }
 
+/** /tasks preview 显示的执行次数 */
+const TASK_PREVIEW_RUNS = 3;
+
+/**
+ * /tasks preview <时间描述> - 预览自然语言时间会被解析成怎样的调度
+ */
+function handleTaskPreview(input: string): CommandResult {
+  if (!input.trim()) {
+    return {
+      isCommand: true,
+      shouldRespond: true,
+      response: `🕐 用法: /tasks preview <时间描述>\n\n例如: /tasks preview 每周一下午三点`
+    };
+  }
+
+  const { schedule, error } = parseSchedule(input);
+  if (!schedule) {
+    return {
+      isCommand: true,
+      shouldRespond: true,
+      response: `❌ ${error}\n\n可以试试 "明天早上9点"、"每个工作日9:30"、"3 小时后"`
+    };
+  }
+
+  const typeLabel = schedule.type === 'once' ? '一次性' : schedule.type === 'cron' ? 'cron' : '固定间隔';
+  let text = `🕐 **时间预览**\n\n`;
+  text += `输入: ${input}\n`;
+  text += `解析: ${schedule.description}\n`;
+  text += `类型: ${typeLabel} \`${schedule.value}\`\n`;
+  text += `时区: ${TIMEZONE}\n\n`;
+  text += schedule.type === 'once' ? `执行时间:\n` : `接下来 ${TASK_PREVIEW_RUNS} 次:\n`;
+  for (const run of previewRuns(schedule, TASK_PREVIEW_RUNS)) {
+    text += `   ⏰ ${run.toLocaleString('zh-CN', { timeZone: TIMEZONE })}\n`;
+  }
+
+  return {
+    isCommand: true,
+    shouldRespond: true,
+    response: text.trimEnd()
+  };
+}
+
+/** /tasks history 默认和最多显示的记录条数 */
+const TASK_HISTORY_DEFAULT = 5;
+const TASK_HISTORY_MAX = 20;
+
+function formatDuration(ms: number): string {
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${ms}ms`;
+}
+
+function formatRunOutput(log: TaskRunLog): string {
+  const text = (log.status === 'success' ? log.result : log.error) || '';
+  const oneLine = text.replace(/\s+/g, ' ').trim();
+  return oneLine.length > 100 ? `${oneLine.slice(0, 100)}...` : oneLine;
+}
+
+/**
+ * /tasks history <id> [n] - 查看任务最近的运行记录（id 可只输入末尾几位）
+ */
+function handleTaskHistory(context: CommandContext, args: string[]): CommandResult {
+  const [idArg, limitArg] = args;
+  if (!idArg) {
+    return {
+      isCommand: true,
+      shouldRespond: true,
+      response: `📜 用法: /tasks history <任务ID> [条数]\n\n任务 ID 可只输入 /tasks 中显示的末尾几位`
+    };
+  }
+
+  // 只在当前会话可见的任务中查找
+  const tasks = context.getTasks?.() || [];
+  const matches = tasks.filter(t => t.id === idArg || t.id.endsWith(idArg));
+  if (matches.length !== 1) {
+    return {
+      isCommand: true,
+      shouldRespond: true,
+      response: matches.length === 0
+        ? `❌ 未找到任务: ${idArg}\n\n使用 /tasks 查看任务列表`
+        : `⚠️ 有 ${matches.length} 个任务匹配 ${idArg}，请输入更完整的 ID`
+    };
+  }
+
+  const task = matches[0];
+  const limit = Math.min(Math.max(parseInt(limitArg || '', 10) || TASK_HISTORY_DEFAULT, 1), TASK_HISTORY_MAX);
+  let logs: TaskRunLog[];
+  try {
+    logs = getTaskRunLogs(task.id, limit);
+  } catch (error) {
+    logger.warn({ error, taskId: task.id }, '读取任务运行记录失败');
+    return {
+      isCommand: true,
+      shouldRespond: true,
+      response: `⚠️ 任务运行记录暂不可用`
+    };
+  }
+
+  let text = `📜 **任务运行记录** (${task.id.slice(-6)})\n\n`;
+  text += `${task.prompt.slice(0, 50)}${task.prompt.length > 50 ? '...' : ''}\n`;
+  if (task.failureStreak && task.failureStreak > 0) {
+    const since = task.failingSince ? `，自 ${new Date(task.failingSince).toLocaleString('zh-CN')} 起` : '';
+    text += `⚠️ 连续失败 ${task.failureStreak} 次${since}\n`;
+  } else if (task.successStreak && task.successStreak > 0) {
+    text += `✅ 连续成功 ${task.successStreak} 次\n`;
+  }
+  text += `\n`;
+
+  if (logs.length === 0) {
+    text += `_暂无运行记录_`;
+  }
+  for (const log of logs) {
+    const icon = log.status === 'success' ? '✅' : '❌';
+    text += `${icon} ${new Date(log.run_at).toLocaleString('zh-CN')} · ${formatDuration(log.duration_ms)}\n`;
+    const output = formatRunOutput(log);
+    if (output) {
+      text += `   ${output}\n`;
+    }
+  }
+
+  return {
+    isCommand: true,
+    shouldRespond: true,
+    response: text.trimEnd()
+  };
+}
+
 /**
  * /ping - 测试响应
  */
@@ -374,6 +563,343 @@ function handleSoul(context: CommandContext, args: string[]): CommandResult {
   }
 }
 
+/**
+ * /approve, /deny - 应答工具调用审批
+ * 未指定 ID 时，如果当前会话只有一个待审批请求则直接应答
+ * 只有发起请求的用户或主会话中的用户可以应答
+ */
+function handleApproval(context: CommandContext, args: string[], approved: boolean): CommandResult {
+  const pending = getPendingApprovals(context.chatId);
+  let id = args[0]?.toLowerCase();
+
+  if (!id) {
+    if (pending.length === 0) {
+      return {
+        isCommand: true,
+        shouldRespond: true,
+        response: `ℹ️ 当前没有待确认的工具调用`
+      };
+    }
+    if (pending.length > 1) {
+      const list = pending.map(p => `• \`${p.id}\` - ${p.toolName}`).join('\n');
+      return {
+        isCommand: true,
+        shouldRespond: true,
+        response: `⚠️ 有 ${pending.length} 个待确认的工具调用，请指定 ID\n\n${list}`
+      };
+    }
+    id = pending[0].id;
+  }
+
+  const target = pending.find(p => p.id === id);
+  if (target && !canRespondToApproval(target, context.userId)) {
+    return {
+      isCommand: true,
+      shouldRespond: true,
+      response: `⛔ 只有发起请求的用户可以确认工具调用 "${id}"`
+    };
+  }
+
+  const request = resolveToolApproval(id, approved, context.chatId, context.userId);
+  if (!request) {
+    return {
+      isCommand: true,
+      shouldRespond: true,
+      response: `❌ 未找到待确认的工具调用 "${id}"（可能已超时或已处理）`
+    };
+  }
+
+  return {
+    isCommand: true,
+    shouldRespond: true,
+    response: approved
+      ? `✅ 已允许执行 \`${request.toolName}\``
+      : `🚫 已拒绝执行 \`${request.toolName}\``
+  };
+}
+
+/**
+ * /usage - 查看 token 用量、费用和预算
+ * /usage      当前群组
+ * /usage me   当前用户
+ * /usage all  全局（仅主会话）
+ */
+function handleUsage(context: CommandContext, args: string[]): CommandResult {
+  const scope = args[0]?.toLowerCase() || 'group';
+  let filter: { groupFolder?: string; userId?: string };
+  let title: string;
+
+  if (scope === 'me' || scope === '我') {
+    filter = { userId: context.userId };
+    title = '我的用量';
+  } else if (scope === 'all' || scope === '全部') {
+    if (context.groupFolder !== MAIN_GROUP_FOLDER) {
+      return {
+        isCommand: true,
+        shouldRespond: true,
+        response: `⚠️ 全局用量仅可在主会话中查看`
+      };
+    }
+    filter = {};
+    title = '全局用量';
+  } else {
+    if (!context.groupFolder) {
+      return {
+        isCommand: true,
+        shouldRespond: true,
+        response: `⚠️ 用量命令需要在会话中使用`
+      };
+    }
+    filter = { groupFolder: context.groupFolder };
+    title = '群组用量';
+  }
+
+  const config = loadBudgetConfig();
+  const currency = config.currency || 'USD';
+  let text = `📊 **${title}**\n`;
+
+  const periods: BudgetPeriod[] = ['daily', 'monthly'];
+  for (const period of periods) {
+    const breakdown = getUsageBreakdown(period, filter);
+    text += `\n**${period === 'daily' ? '今日' : '本月'}**\n`;
+    if (breakdown.byModel.length === 0) {
+      text += `_暂无记录_\n`;
+      continue;
+    }
+    for (const item of breakdown.byModel) {
+      const tokens = item.input_tokens + item.output_tokens;
+      text += `• ${item.model}: ${tokens.toLocaleString()} tokens (${item.requests} 次) · ${formatCost(item.cost, currency)}\n`;
+    }
+    text += `合计: ${breakdown.totalTokens.toLocaleString()} tokens · ${formatCost(breakdown.totalCost, currency)}\n`;
+  }
+
+  if (context.groupFolder) {
+    const statuses = getBudgetStatuses({ groupFolder: context.groupFolder, userId: context.userId }, config);
+    if (statuses.length > 0) {
+      text += `\n💰 **预算**\n`;
+      for (const status of statuses) {
+        text += `• ${describeBudget(status)}: ${formatBudgetStatus(status, currency)}\n`;
+      }
+    }
+  }
+
+  return {
+    isCommand: true,
+    shouldRespond: true,
+    response: text.trimEnd()
+  };
+}
+
+/** /search 最多列出的结果条数 */
+const SEARCH_RESULT_LIMIT = 10;
+
+/**
+ * /search - 搜索聊天记录
+ * /search <关键词> [from:发送者] [since:2026-01-01] [until:2026-01-31] [platform:telegram]
+ * 主会话搜索所有会话，其他会话只搜索当前会话
+ */
+function handleSearch(context: CommandContext, args: string[]): CommandResult {
+  const filter: MessageSearchFilter = { limit: SEARCH_RESULT_LIMIT };
+  const words: string[] = [];
+
+  for (const arg of args) {
+    const match = arg.match(/^(from|since|until|platform):(.+)$/i);
+    if (!match) {
+      words.push(arg);
+      continue;
+    }
+    const [, name, value] = match;
+    switch (name.toLowerCase()) {
+      case 'from':
+        filter.sender = value;
+        break;
+      case 'platform':
+        filter.platform = value;
+        break;
+      case 'since':
+      case 'until': {
+        const iso = parseDateBound(value, name.toLowerCase() === 'until');
+        if (!iso) {
+          return {
+            isCommand: true,
+            shouldRespond: true,
+            response: `⚠️ 无法识别的日期: ${value}（格式如 2026-01-31）`
+          };
+        }
+        if (name.toLowerCase() === 'since') filter.since = iso;
+        else filter.until = iso;
+        break;
+      }
+    }
+  }
+
+  const query = words.join(' ').trim();
+  if (!query) {
+    return {
+      isCommand: true,
+      shouldRespond: true,
+      response: `🔎 用法: /search <关键词> [from:发送者] [since:2026-01-01] [until:2026-01-31] [platform:telegram]`
+    };
+  }
+
+  const isMain = context.groupFolder === MAIN_GROUP_FOLDER;
+  if (!isMain) {
+    filter.chatJid = context.chatId;
+  }
+
+  let results: MessageSearchResult[];
+  try {
+    results = searchMessages(query, filter);
+  } catch (error) {
+    logger.warn({ error, chatId: context.chatId }, '搜索聊天记录失败');
+    return {
+      isCommand: true,
+      shouldRespond: true,
+      response: `⚠️ 聊天记录搜索暂不可用`
+    };
+  }
+
+  if (results.length === 0) {
+    return {
+      isCommand: true,
+      shouldRespond: true,
+      response: `🔎 没有找到与 "${query}" 相关的聊天记录`
+    };
+  }
+
+  let text = `🔎 **搜索结果**: ${query}（${results.length} 条${isMain ? '，所有会话' : ''}）\n\n`;
+  for (const result of results) {
+    const time = new Date(result.timestamp).toLocaleString('zh-CN');
+    const chat = isMain ? `${result.chat_name || result.chat_jid} · ` : '';
+    text += `• [${time}] ${chat}${result.sender_name || result.sender}: ${result.snippet}\n`;
+  }
+
+  return {
+    isCommand: true,
+    shouldRespond: true,
+    response: text.trimEnd()
+  };
+}
+
+/** /memory review 最多列出的待复查记忆条数 */
+const MEMORY_REVIEW_LIMIT = 20;
+
+/**
+ * /memory - 复查长期记忆
+ * /memory review        列出互相矛盾和长期未更新的记忆（自己的记忆；主会话还包括全局记忆）
+ * /memory keep <key>    确认记忆仍然有效
+ * /memory delete <key>  删除记忆
+ */
+function handleMemory(context: CommandContext, args: string[]): CommandResult {
+  const action = args[0]?.toLowerCase() || 'review';
+  const key = args.slice(1).join(' ').trim();
+  const isMain = context.groupFolder === MAIN_GROUP_FOLDER;
+  const mm = getMemoryManager();
+
+  if (action === 'review' || action === '复查') {
+    const scopes: Array<{ label: string; userId?: string }> = [{ label: '我的记忆', userId: context.userId }];
+    if (isMain) {
+      scopes.push({ label: '全局记忆' });
+    }
+
+    let text = `🧠 **记忆复查**\n`;
+    let found = false;
+    for (const { label, userId } of scopes) {
+      const conflicts = mm.getMemoryConflicts(userId);
+      const stale = mm.getStaleMemories({ userId, staleDays: MEMORY_STALE_DAYS });
+      if (conflicts.length === 0 && stale.length === 0) continue;
+      found = true;
+
+      text += `\n**${label}**\n`;
+      for (const conflict of conflicts) {
+        const values = conflict.keys
+          .map(k => mm.getMemoryEntry(k, userId))
+          .filter((e): e is MemoryEntry => e !== null)
+          .map(e => `  • \`${e.key}\`: ${e.value}`);
+        text += `⚠️ 矛盾（${conflict.reason}）\n${values.join('\n')}\n`;
+      }
+      for (const entry of stale.slice(0, MEMORY_REVIEW_LIMIT)) {
+        const reason = (entry.confidence ?? 1) < 0.5 ? `置信度 ${entry.confidence}` : `${entry.updatedAt.slice(0, 10)} 后未更新`;
+        text += `🕰️ \`${entry.key}\`: ${entry.value}（${reason}）\n`;
+      }
+      if (stale.length > MEMORY_REVIEW_LIMIT) {
+        text += `_另有 ${stale.length - MEMORY_REVIEW_LIMIT} 条未列出_\n`;
+      }
+    }
+
+    if (!found) {
+      return {
+        isCommand: true,
+        shouldRespond: true,
+        response: `✅ 没有需要复查的记忆`
+      };
+    }
+
+    text += `\n使用 \`/memory keep <key>\` 确认保留，\`/memory delete <key>\` 删除`;
+    return {
+      isCommand: true,
+      shouldRespond: true,
+      response: text
+    };
+  }
+
+  if (!['keep', 'delete', '保留', '删除'].includes(action)) {
+    return {
+      isCommand: true,
+      shouldRespond: true,
+      response: `❌ 未知操作: ${action}\n\n用法: /memory review | /memory keep <key> | /memory delete <key>`
+    };
+  }
+
+  if (!key) {
+    return {
+      isCommand: true,
+      shouldRespond: true,
+      response: `⚠️ 请指定记忆键，如 \`/memory ${action} user_city\``
+    };
+  }
+
+  // 优先匹配自己的记忆，其次是全局记忆（仅主会话可修改）
+  let userId: string | undefined = context.userId;
+  if (!mm.getMemoryEntry(key, userId)) {
+    if (!mm.getMemoryEntry(key)) {
+      return {
+        isCommand: true,
+        shouldRespond: true,
+        response: `❌ 未找到记忆 "${key}"`
+      };
+    }
+    if (!isMain) {
+      return {
+        isCommand: true,
+        shouldRespond: true,
+        response: `⚠️ "${key}" 是全局记忆，仅可在主会话中修改`
+      };
+    }
+    userId = undefined;
+  }
+
+  if (action === 'keep' || action === '保留') {
+    mm.confirmMemory(key, userId);
+    return {
+      isCommand: true,
+      shouldRespond: true,
+      response: `✅ 已确认保留记忆 \`${key}\``
+    };
+  }
+
+  if (userId) {
+    mm.forgetUser(userId, key);
+  } else {
+    mm.forget(key);
+  }
+  return {
+    isCommand: true,
+    shouldRespond: true,
+    response: `🗑️ 已删除记忆 \`${key}\``
+  };
+}
+
 /**
  * /compact - 压缩会话上下文
  * /compact fast - 规则摘要模式（不调用 AI，适合小模型）
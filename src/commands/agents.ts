@@ -0,0 +1,136 @@
+/**
+ * FlashClaw 多 Agent 命令
+ * 查看 agents.json 中的 Agent，或模拟一条消息的路由过程（dry-run）
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { paths } from '../paths.js';
+import { parseAgentsConfig, explainRoute, type AgentsConfig, type RouteContext } from '../agent-routing.js';
+import type { AgentBinding } from '../types.js';
+
+// ==================== ANSI 颜色（与其他命令保持一致） ====================
+const colors = {
+  green: '\x1b[32m', yellow: '\x1b[33m', red: '\x1b[31m',
+  cyan: '\x1b[36m', gray: '\x1b[90m', reset: '\x1b[0m', bold: '\x1b[1m', dim: '\x1b[2m',
+} as const;
+
+const green = (t: string) => `${colors.green}${t}${colors.reset}`;
+const red = (t: string) => `${colors.red}${t}${colors.reset}`;
+const cyan = (t: string) => `${colors.cyan}${t}${colors.reset}`;
+const bold = (t: string) => `${colors.bold}${t}${colors.reset}`;
+const dim = (t: string) => `${colors.dim}${t}${colors.reset}`;
+
+type AgentsAction = 'list' | 'route';
+const VALID_ACTIONS: AgentsAction[] = ['list', 'route'];
+
+function loadConfig(): { config: AgentsConfig; file: string; exists: boolean } {
+  const file = path.join(paths.home(), 'agents.json');
+  if (!fs.existsSync(file)) {
+    return { config: parseAgentsConfig({}), file, exists: false };
+  }
+  try {
+    return { config: parseAgentsConfig(JSON.parse(fs.readFileSync(file, 'utf-8'))), file, exists: true };
+  } catch (err) {
+    console.log(red('✗') + ` 无法解析 ${file}: ${err instanceof Error ? err.message : String(err)}`);
+    process.exit(1);
+  }
+}
+
+function formatBinding(binding: AgentBinding): string {
+  const parts: string[] = [];
+  if (binding.channel) parts.push(`channel=${binding.channel}`);
+  if (binding.group) parts.push(`group=${binding.group}`);
+  if (binding.peer) parts.push(`peer=${binding.peer}`);
+  if (binding.roles) parts.push(`roles=${binding.roles.join('|')}`);
+  if (binding.keywords) parts.push(`keywords=${binding.keywords.join('|')}`);
+  if (binding.pattern) parts.push(`pattern=/${binding.pattern}/`);
+  if (binding.hours) parts.push(`hours=${binding.hours}`);
+  if (binding.priority) parts.push(`priority=${binding.priority}`);
+  return parts.join(', ');
+}
+
+// ==================== 子命令 ====================
+
+function listAgents(): void {
+  const { config, file, exists } = loadConfig();
+  console.log(`\n${bold('Agent 列表')} ${dim(exists ? file : '（未找到 agents.json，使用默认 Agent）')}\n`);
+  for (const agent of config.agents) {
+    console.log(`  ${bold(agent.id)} ${agent.name}${agent.default ? ` ${green('[默认]')}` : ''}  ${dim(agent.soul)}`);
+    for (const binding of agent.bindings ?? []) {
+      console.log(`    ${dim('↳')} ${formatBinding(binding)}`);
+    }
+  }
+  const roleNames = Object.keys(config.roles);
+  if (roleNames.length > 0) {
+    console.log(`\n${bold('角色:')} ${roleNames.map(r => `${r}(${config.roles[r].length})`).join(', ')}`);
+  }
+  console.log('');
+}
+
+function routeMessage(flags: Record<string, string | boolean>): void {
+  const str = (key: string) => (typeof flags[key] === 'string' ? flags[key] as string : undefined);
+
+  let now: Date | undefined;
+  if (str('at')) {
+    now = new Date(str('at')!);
+    if (isNaN(now.getTime())) {
+      console.log(red('✗') + ` 无效的时间: ${str('at')}`);
+      process.exit(1);
+    }
+  }
+
+  const ctx: RouteContext = { channel: str('channel'), group: str('group'), peer: str('peer'), text: str('text'), now };
+  const { config } = loadConfig();
+  const result = explainRoute(config.agents, ctx, { roles: config.roles });
+
+  const input = [
+    ctx.channel && `channel=${ctx.channel}`,
+    ctx.group && `group=${ctx.group}`,
+    ctx.peer && `peer=${ctx.peer}`,
+    ctx.text && `text="${ctx.text}"`,
+    now && `at=${now.toISOString()}`,
+  ].filter(Boolean).join(' ');
+  console.log(`\n${bold('路由模拟')} ${dim(input || '（无条件）')}\n`);
+
+  if (result.checks.length > 0) {
+    console.log(bold('绑定检查（按匹配顺序）:'));
+    for (const check of result.checks) {
+      const mark = check.matched ? green('✓') : red('✗');
+      const chosen = result.matched === check ? cyan(' ← 命中') : '';
+      console.log(`  ${mark} ${check.agentId}#${check.index + 1}  ${dim(check.details.join('  '))}${chosen}`);
+    }
+    console.log('');
+  }
+
+  console.log(`${green('→')} ${bold(result.agent.id)} ${result.agent.name}`);
+  console.log(`  ${dim(result.reason)}\n`);
+}
+
+// ==================== 入口 ====================
+
+export async function agentsCommand(
+  action: string,
+  _args: string[],
+  flags: Record<string, string | boolean>
+): Promise<void> {
+  if (!VALID_ACTIONS.includes(action as AgentsAction)) {
+    console.log(red('✗') + ` 未知操作: ${action}`);
+    console.log(`\n${bold('可用操作:')}`);
+    console.log(`  ${cyan('list')}              列出 agents.json 中的 Agent 和绑定规则`);
+    console.log(`  ${cyan('route')}             模拟消息路由，说明命中了哪条绑定 (--channel, --group, --peer, --text, --at <时间>)`);
+    console.log(`\n${bold('示例:')}`);
+    console.log(`  flashclaw agents list`);
+    console.log(`  flashclaw agents route --channel feishu --group work-dev --peer ou_123 --text "帮我查一下报错"\n`);
+    process.exit(1);
+  }
+
+  switch (action as AgentsAction) {
+    case 'list':
+      listAgents();
+      break;
+    case 'route':
+      routeMessage(flags);
+      break;
+  }
+}
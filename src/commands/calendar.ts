@@ -0,0 +1,128 @@
+/**
+ * FlashClaw 日历命令
+ * 把定时任务导出为 .ics，或把日历中带提醒的事件导入为提醒任务
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { initDatabase, getAllTasks, getTasksForGroup } from '../db.js';
+import { MAIN_GROUP_FOLDER } from '../config.js';
+import { paths } from '../paths.js';
+import { loadJson } from '../utils.js';
+import { exportTasksToIcs, importIcsReminders } from '../task-calendar.js';
+import type { RegisteredGroup } from '../types.js';
+
+// ==================== ANSI 颜色（与其他命令保持一致） ====================
+const colors = {
+  green: '\x1b[32m', yellow: '\x1b[33m', red: '\x1b[31m',
+  cyan: '\x1b[36m', gray: '\x1b[90m', reset: '\x1b[0m', bold: '\x1b[1m', dim: '\x1b[2m',
+} as const;
+
+const green = (t: string) => `${colors.green}${t}${colors.reset}`;
+const yellow = (t: string) => `${colors.yellow}${t}${colors.reset}`;
+const red = (t: string) => `${colors.red}${t}${colors.reset}`;
+const cyan = (t: string) => `${colors.cyan}${t}${colors.reset}`;
+const bold = (t: string) => `${colors.bold}${t}${colors.reset}`;
+const dim = (t: string) => `${colors.dim}${t}${colors.reset}`;
+
+type CalendarAction = 'export' | 'import';
+const VALID_ACTIONS: CalendarAction[] = ['export', 'import'];
+
+/**
+ * 通过 IPC 通知运行中的服务（服务未运行时，下次启动处理）
+ */
+function sendIpc(data: object): void {
+  const dir = path.join(paths.data(), 'ipc', MAIN_GROUP_FOLDER, 'tasks');
+  fs.mkdirSync(dir, { recursive: true });
+  const filepath = path.join(dir, `${Date.now()}-${Math.random().toString(36).slice(2, 8)}.json`);
+  fs.writeFileSync(`${filepath}.tmp`, JSON.stringify(data, null, 2));
+  fs.renameSync(`${filepath}.tmp`, filepath);
+}
+
+// ==================== 子命令 ====================
+
+function exportCalendar(flags: Record<string, string | boolean>): void {
+  const group = typeof flags['group'] === 'string' ? flags['group'] : undefined;
+  const tasks = group ? getTasksForGroup(group) : getAllTasks();
+  const ics = exportTasksToIcs(tasks, { name: group ? `FlashClaw - ${group}` : undefined });
+
+  if (typeof flags['out'] !== 'string') {
+    process.stdout.write(ics);
+    return;
+  }
+
+  const file = path.resolve(flags['out']);
+  fs.writeFileSync(file, ics);
+  const count = (ics.match(/^BEGIN:VEVENT/gm) ?? []).length;
+  console.log(green('✓') + ` 已导出 ${count} 个任务到 ${cyan(file)}`);
+}
+
+function importCalendar(file: string | undefined, flags: Record<string, string | boolean>): void {
+  if (!file) {
+    console.log(`\n用法: ${cyan('flashclaw calendar import <file.ics> [--group <folder>]')}`);
+    process.exit(1);
+  }
+
+  let text: string;
+  try {
+    text = fs.readFileSync(path.resolve(file), 'utf-8');
+  } catch (err) {
+    console.log(red('✗') + ` 无法读取日历文件: ${err instanceof Error ? err.message : String(err)}`);
+    process.exit(1);
+  }
+
+  // 提醒发送到群组对应的会话
+  const folder = typeof flags['group'] === 'string' ? flags['group'] : MAIN_GROUP_FOLDER;
+  const groups = loadJson<Record<string, RegisteredGroup>>(path.join(paths.data(), 'registered_groups.json'), {});
+  const chatJid = Object.keys(groups).find(jid => groups[jid].folder === folder && jid !== '__main_template__');
+  if (!chatJid) {
+    console.log(red('✗') + ` 未找到群组: ${folder}`);
+    console.log(dim('  请先在该群组中和机器人对话完成注册'));
+    process.exit(1);
+  }
+
+  const { created, skipped } = importIcsReminders(text, { groupFolder: folder, chatJid });
+  if (created.length > 0) {
+    sendIpc({ type: 'wake_scheduler' });
+  }
+
+  console.log(`\n${bold('日历导入')} ${dim(`→ ${folder}`)}\n`);
+  for (const task of created) {
+    const message = task.prompt.split('⏰ 提醒：')[1] ?? task.prompt;
+    console.log(`  ${green('+')} ${message}  ${dim(`${task.schedule_type} ${task.schedule_type === 'once' ? task.next_run : task.schedule_value}`)}`);
+  }
+  for (const item of skipped) {
+    console.log(`  ${yellow('-')} ${item.summary}  ${dim(item.reason)}`);
+  }
+  console.log(`\n${green('✓')} 新建 ${created.length} 个提醒任务，跳过 ${skipped.length} 个\n`);
+}
+
+// ==================== 入口 ====================
+
+export async function calendarCommand(
+  action: string,
+  args: string[],
+  flags: Record<string, string | boolean>
+): Promise<void> {
+  if (!VALID_ACTIONS.includes(action as CalendarAction)) {
+    console.log(red('✗') + ` 未知操作: ${action}`);
+    console.log(`\n${bold('可用操作:')}`);
+    console.log(`  ${cyan('export')}            导出活跃任务为 .ics (--group <folder>, --out <file>，默认输出到终端)`);
+    console.log(`  ${cyan('import <file>')}     把带提醒的日历事件导入为提醒任务 (--group <folder>，默认 main)`);
+    console.log(`\n${bold('示例:')}`);
+    console.log(`  flashclaw calendar export --group main --out tasks.ics`);
+    console.log(`  flashclaw calendar import ./work.ics\n`);
+    process.exit(1);
+  }
+
+  initDatabase();
+
+  switch (action as CalendarAction) {
+    case 'export':
+      exportCalendar(flags);
+      break;
+    case 'import':
+      importCalendar(args[0], flags);
+      break;
+  }
+}
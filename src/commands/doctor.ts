@@ -67,8 +67,10 @@ export async function doctorCommand(): Promise<void> {
   // 8. 已加载插件数量
   results.push(await checkPlugins());
 
-  // 9. 飞书配置
+  // 9. 飞书 / 钉钉 / 企业微信配置
   results.push(checkFeishuConfig());
+  results.push(checkDingTalkConfig());
+  results.push(checkWeComConfig());
 
   // 10. 用户插件配置检查（通用：读取 plugin.json 的 config 字段）
   const userPluginResults = await checkUserPluginConfigs(paths.userPlugins());
@@ -252,6 +254,49 @@ function checkFeishuConfig(): CheckResult {
   return { status: 'warn', label: '飞书配置', detail: '未配置 (可选)' };
 }
 
+function checkDingTalkConfig(): CheckResult {
+  const appKey = process.env.DINGTALK_APP_KEY;
+  const appSecret = process.env.DINGTALK_APP_SECRET;
+
+  if (appKey && appSecret) {
+    return { status: 'ok', label: '钉钉配置', detail: `AppKey: ${appKey.slice(0, 8)}...` };
+  }
+  if (appKey || appSecret) {
+    return { status: 'warn', label: '钉钉配置', detail: `缺少 ${appKey ? 'DINGTALK_APP_SECRET' : 'DINGTALK_APP_KEY'}` };
+  }
+  return { status: 'warn', label: '钉钉配置', detail: '未配置 (可选)' };
+}
+
+function checkWeComConfig(): CheckResult {
+  // 自建应用（单聊）和智能机器人（群聊 @）可以只配置其一
+  const appEnvs = ['WECOM_CORP_ID', 'WECOM_CORP_SECRET', 'WECOM_AGENT_ID', 'WECOM_TOKEN', 'WECOM_ENCODING_AES_KEY'];
+  const botEnvs = ['WECOM_BOT_TOKEN', 'WECOM_BOT_ENCODING_AES_KEY'];
+  const missing = (envs: string[]) => envs.filter(name => !process.env[name]);
+  const appMissing = missing(appEnvs);
+  const botMissing = missing(botEnvs);
+  const appStarted = appMissing.length < appEnvs.length;
+  const botStarted = botMissing.length < botEnvs.length;
+
+  if (!appStarted && !botStarted) {
+    return { status: 'warn', label: '企业微信配置', detail: '未配置 (可选)' };
+  }
+
+  const problems: string[] = [];
+  if (appStarted && appMissing.length > 0) problems.push(`缺少 ${appMissing.join(', ')}`);
+  if (botStarted && botMissing.length > 0) problems.push(`缺少 ${botMissing.join(', ')}`);
+  for (const name of ['WECOM_ENCODING_AES_KEY', 'WECOM_BOT_ENCODING_AES_KEY']) {
+    const value = process.env[name];
+    if (value && value.length !== 43) problems.push(`${name} 应为 43 位`);
+  }
+  if (problems.length > 0) {
+    return { status: 'warn', label: '企业微信配置', detail: problems.join('; ') };
+  }
+
+  const modes = [appStarted && '自建应用', botStarted && '智能机器人'].filter(Boolean).join(' + ');
+  const corpId = process.env.WECOM_CORP_ID;
+  return { status: 'ok', label: '企业微信配置', detail: corpId ? `${modes}, Corp ID: ${corpId.slice(0, 8)}...` : modes };
+}
+
 /**
  * 通用：检查用户已安装插件的环境变量配置
  * 读取每个插件的 plugin.json config 字段，检查 required env 是否已设置
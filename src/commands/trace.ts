@@ -0,0 +1,220 @@
+/**
+ * FlashClaw 运行追踪命令
+ * 查看 Agent 运行记录，按时间顺序回放流式事件和工具调用
+ */
+
+import { initDatabase, getAgentRun, findAgentRuns, getAgentRunEvents, getRecentAgentRuns } from '../db.js';
+import type { AgentRunTrace, AgentRunEvent } from '../types.js';
+
+// ==================== ANSI 颜色（与其他命令保持一致） ====================
+const colors = {
+  green: '\x1b[32m', yellow: '\x1b[33m', red: '\x1b[31m',
+  cyan: '\x1b[36m', gray: '\x1b[90m', reset: '\x1b[0m', bold: '\x1b[1m', dim: '\x1b[2m',
+} as const;
+
+const green = (t: string) => `${colors.green}${t}${colors.reset}`;
+const yellow = (t: string) => `${colors.yellow}${t}${colors.reset}`;
+const red = (t: string) => `${colors.red}${t}${colors.reset}`;
+const cyan = (t: string) => `${colors.cyan}${t}${colors.reset}`;
+const gray = (t: string) => `${colors.gray}${t}${colors.reset}`;
+const bold = (t: string) => `${colors.bold}${t}${colors.reset}`;
+const dim = (t: string) => `${colors.dim}${t}${colors.reset}`;
+
+/** 回放时单条事件的最大显示长度（--full 时不截断） */
+const PREVIEW_CHARS = 500;
+
+type TraceAction = 'show' | 'list';
+const VALID_ACTIONS: TraceAction[] = ['show', 'list'];
+
+// ==================== 格式化 ====================
+
+function parseData(event: AgentRunEvent): unknown {
+  if (event.data === null) return null;
+  try {
+    return JSON.parse(event.data);
+  } catch {
+    return event.data;
+  }
+}
+
+function clip(text: string, full: boolean): string {
+  if (full || text.length <= PREVIEW_CHARS) return text;
+  return `${text.slice(0, PREVIEW_CHARS)}${dim(`... (+${text.length - PREVIEW_CHARS} 字符)`)}`;
+}
+
+function stringify(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function formatStatus(status: AgentRunTrace['status']): string {
+  if (status === 'success') return green('成功');
+  if (status === 'error') return red('失败');
+  return yellow('运行中');
+}
+
+function formatTokens(run: AgentRunTrace): string {
+  if (run.input_tokens === null && run.output_tokens === null) return '-';
+  return `${run.input_tokens ?? 0} in / ${run.output_tokens ?? 0} out`;
+}
+
+function formatEvent(event: AgentRunEvent, full: boolean): string {
+  const time = gray(`+${(event.elapsed_ms / 1000).toFixed(2)}s`.padStart(9));
+  const data = parseData(event) as Record<string, unknown> | string | null;
+
+  switch (event.type) {
+    case 'thinking':
+      return `${time} ${dim('💭 思考')}  ${dim(clip(String(data ?? ''), full))}`;
+    case 'text':
+      return `${time} 💬 文本  ${clip(String(data ?? ''), full)}`;
+    case 'tool_use': {
+      const d = (data ?? {}) as Record<string, unknown>;
+      return `${time} ${cyan('🔧 调用')}  ${bold(String(d.name ?? '?'))} ${clip(stringify(d.input ?? {}), full)}`;
+    }
+    case 'tool_call': {
+      const d = (data ?? {}) as Record<string, unknown>;
+      const mark = d.isError ? red('✗') : green('✓');
+      return `${time} ${cyan('📦 结果')}  ${mark} ${bold(String(d.name ?? '?'))} ${gray(`${d.durationMs ?? 0}ms`)}\n`
+        + `           ${dim('输入:')} ${clip(stringify(d.input ?? {}), full)}\n`
+        + `           ${dim('输出:')} ${clip(String(d.output ?? ''), full)}`;
+    }
+    case 'done': {
+      const d = (data ?? {}) as Record<string, unknown>;
+      return `${time} ${green('🏁 完成')}  stop_reason=${String(d.stop_reason ?? '-')}`;
+    }
+    default:
+      return `${time} ${event.type}  ${clip(stringify(data), full)}`;
+  }
+}
+
+// ==================== 子命令 ====================
+
+function resolveRun(runId: string): AgentRunTrace | null {
+  const exact = getAgentRun(runId);
+  if (exact) return exact;
+
+  const matches = findAgentRuns(runId, 5);
+  if (matches.length === 1) return matches[0];
+  if (matches.length > 1) {
+    console.log(yellow('⚠') + ` 匹配到多条运行记录，请输入更完整的 ID:`);
+    for (const run of matches) {
+      console.log(`  ${cyan(run.id)}  ${dim(run.started_at)}`);
+    }
+    process.exit(1);
+  }
+  return null;
+}
+
+function showTrace(runId: string | undefined, flags: Record<string, string | boolean>): void {
+  if (!runId) {
+    console.log(`\n用法: ${cyan('flashclaw trace show <runId>')}`);
+    process.exit(1);
+  }
+
+  const run = resolveRun(runId);
+  if (!run) {
+    console.log(red('✗') + ` 未找到运行记录: ${runId}`);
+    console.log(`\n使用 ${cyan('flashclaw trace list')} 查看最近的运行`);
+    process.exit(1);
+  }
+
+  const events = getAgentRunEvents(run.id);
+
+  if (flags['json']) {
+    console.log(JSON.stringify({
+      ...run,
+      messages: run.messages ? JSON.parse(run.messages) : null,
+      events: events.map(e => ({ ...e, data: parseData(e) })),
+    }, null, 2));
+    return;
+  }
+
+  const full = !!flags['full'];
+  console.log(`\n${bold('⚡ 运行追踪')} ${cyan(run.id)}\n`);
+  console.log(`  状态:       ${formatStatus(run.status)}`);
+  console.log(`  会话:       ${run.chat_jid} ${dim(`(${run.group_folder})`)}`);
+  if (run.agent_id) {
+    console.log(`  Agent:      ${run.agent_id}`);
+  }
+  console.log(`  模型:       ${run.model}`);
+  console.log(`  提示词哈希: ${run.system_prompt_hash ?? '-'}`);
+  console.log(`  开始时间:   ${run.started_at}`);
+  console.log(`  耗时:       ${run.duration_ms !== null ? `${run.duration_ms}ms` : '-'}`);
+  console.log(`  Token:      ${formatTokens(run)}`);
+  if (run.is_scheduled_task) {
+    console.log(`  来源:       定时任务`);
+  }
+
+  if (run.messages) {
+    try {
+      const messages = JSON.parse(run.messages) as unknown[];
+      console.log(`  输入消息:   ${messages.length} 条`);
+    } catch { /* ignore */ }
+  }
+
+  console.log(`\n${bold('事件回放:')}`);
+  if (events.length === 0) {
+    console.log(dim('  (无事件)'));
+  }
+  for (const event of events) {
+    console.log(formatEvent(event, full));
+  }
+
+  if (run.error) {
+    console.log(`\n${red('错误:')} ${run.error}`);
+  } else if (run.result) {
+    console.log(`\n${bold('最终回复:')}\n${clip(run.result, full)}`);
+  }
+  if (!full) {
+    console.log(dim(`\n使用 --full 查看完整内容，--json 导出原始数据`));
+  }
+  console.log('');
+}
+
+function listTraces(flags: Record<string, string | boolean>): void {
+  const limit = typeof flags['limit'] === 'string' ? parseInt(flags['limit'], 10) || 20 : 20;
+  const chat = typeof flags['chat'] === 'string' ? flags['chat'] : undefined;
+  const runs = getRecentAgentRuns(limit, chat);
+
+  if (runs.length === 0) {
+    console.log(dim('\n暂无运行记录\n'));
+    return;
+  }
+
+  console.log(`\n${bold('最近的 Agent 运行:')}\n`);
+  for (const run of runs) {
+    const duration = run.duration_ms !== null ? `${(run.duration_ms / 1000).toFixed(1)}s` : '-';
+    console.log(`  ${cyan(run.id)}  ${formatStatus(run.status)}  ${dim(run.started_at)}`);
+    console.log(`    ${run.chat_jid}  ${gray(run.model)}  ${gray(duration)}  ${gray(formatTokens(run))}`);
+  }
+  console.log(`\n使用 ${cyan('flashclaw trace show <runId>')} 回放运行\n`);
+}
+
+// ==================== 入口 ====================
+
+export async function traceCommand(
+  action: string,
+  args: string[],
+  flags: Record<string, string | boolean>
+): Promise<void> {
+  if (!VALID_ACTIONS.includes(action as TraceAction)) {
+    console.log(red('✗') + ` 未知操作: ${action}`);
+    console.log(`\n${bold('可用操作:')}`);
+    console.log(`  ${cyan('list')}            列出最近的运行 (--limit n, --chat <jid>)`);
+    console.log(`  ${cyan('show <runId>')}    回放运行详情 (--full, --json)`);
+    console.log(`\n${bold('示例:')}`);
+    console.log(`  flashclaw trace list --limit 10`);
+    console.log(`  flashclaw trace show run-1712345678901-abc123\n`);
+    process.exit(1);
+  }
+
+  initDatabase();
+
+  switch (action as TraceAction) {
+    case 'list':
+      listTraces(flags);
+      break;
+    case 'show':
+      showTrace(args[0], flags);
+      break;
+  }
+}
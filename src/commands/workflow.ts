@@ -0,0 +1,253 @@
+/**
+ * FlashClaw 工作流命令
+ * 创建、查看、删除和手动运行多步骤工作流
+ */
+
+import fs from 'fs';
+import path from 'path';
+import {
+  initDatabase,
+  deleteWorkflow,
+  getAllWorkflows,
+  getWorkflow,
+  getWorkflowRuns,
+  getWorkflowStepRuns,
+  getWorkflowSteps,
+  getWorkflowTask,
+} from '../db.js';
+import { MAIN_GROUP_FOLDER } from '../config.js';
+import { paths } from '../paths.js';
+import { layerWorkflowSteps, parseEdges, parseWorkflowDefinition, saveWorkflowDefinition, toGraph } from '../workflow.js';
+import type { WorkflowRun, WorkflowStepRun } from '../types.js';
+
+// ==================== ANSI 颜色（与其他命令保持一致） ====================
+const colors = {
+  green: '\x1b[32m', yellow: '\x1b[33m', red: '\x1b[31m',
+  cyan: '\x1b[36m', gray: '\x1b[90m', reset: '\x1b[0m', bold: '\x1b[1m', dim: '\x1b[2m',
+} as const;
+
+const green = (t: string) => `${colors.green}${t}${colors.reset}`;
+const yellow = (t: string) => `${colors.yellow}${t}${colors.reset}`;
+const red = (t: string) => `${colors.red}${t}${colors.reset}`;
+const cyan = (t: string) => `${colors.cyan}${t}${colors.reset}`;
+const gray = (t: string) => `${colors.gray}${t}${colors.reset}`;
+const bold = (t: string) => `${colors.bold}${t}${colors.reset}`;
+const dim = (t: string) => `${colors.dim}${t}${colors.reset}`;
+
+type WorkflowAction = 'list' | 'show' | 'create' | 'delete' | 'run';
+const VALID_ACTIONS: WorkflowAction[] = ['list', 'show', 'create', 'delete', 'run'];
+
+// ==================== 格式化 ====================
+
+function formatRunStatus(status: WorkflowRun['status']): string {
+  if (status === 'success') return green('成功');
+  if (status === 'error') return red('失败');
+  return yellow('运行中');
+}
+
+function stepMark(status: WorkflowStepRun['status'] | undefined): string {
+  switch (status) {
+    case 'success': return green('✓');
+    case 'error': return red('✗');
+    case 'skipped': return gray('-');
+    case 'running': return yellow('…');
+    default: return gray('·');
+  }
+}
+
+function formatSchedule(workflowId: string): string {
+  const task = getWorkflowTask(workflowId);
+  if (!task) return dim('手动');
+  const paused = task.status === 'paused' ? yellow(' (已暂停)') : '';
+  return `${task.schedule_type} ${task.schedule_value}${paused}`;
+}
+
+/**
+ * 通过 IPC 通知运行中的服务（服务未运行时，下次启动处理）
+ */
+function sendIpc(data: object): void {
+  const dir = path.join(paths.data(), 'ipc', MAIN_GROUP_FOLDER, 'tasks');
+  fs.mkdirSync(dir, { recursive: true });
+  const filepath = path.join(dir, `${Date.now()}-${Math.random().toString(36).slice(2, 8)}.json`);
+  fs.writeFileSync(`${filepath}.tmp`, JSON.stringify(data, null, 2));
+  fs.renameSync(`${filepath}.tmp`, filepath);
+}
+
+// ==================== 子命令 ====================
+
+function requireWorkflow(id: string | undefined, usage: string) {
+  if (!id) {
+    console.log(`\n用法: ${cyan(usage)}`);
+    process.exit(1);
+  }
+  const workflow = getWorkflow(id);
+  if (!workflow) {
+    console.log(red('✗') + ` 未找到工作流: ${id}`);
+    console.log(`\n使用 ${cyan('flashclaw workflow list')} 查看所有工作流`);
+    process.exit(1);
+  }
+  return workflow;
+}
+
+function listWorkflows(): void {
+  const workflows = getAllWorkflows();
+  if (workflows.length === 0) {
+    console.log(dim('\n暂无工作流'));
+    console.log(`\n使用 ${cyan('flashclaw workflow create <file.json>')} 创建\n`);
+    return;
+  }
+
+  console.log(`\n${bold('工作流:')}\n`);
+  for (const workflow of workflows) {
+    const steps = getWorkflowSteps(workflow.id);
+    const [lastRun] = getWorkflowRuns(workflow.id, 1);
+    const last = lastRun ? `${formatRunStatus(lastRun.status)} ${dim(lastRun.started_at)}` : dim('未运行');
+    console.log(`  ${cyan(workflow.id)}  ${workflow.name}  ${gray(`${steps.length} 步`)}`);
+    console.log(`    ${gray('群组')} ${workflow.group_folder}  ${gray('触发')} ${formatSchedule(workflow.id)}  ${gray('上次')} ${last}`);
+  }
+  console.log('');
+}
+
+function showWorkflow(id: string | undefined, flags: Record<string, string | boolean>): void {
+  const workflow = requireWorkflow(id, 'flashclaw workflow show <id>');
+  const steps = getWorkflowSteps(workflow.id);
+  const runs = getWorkflowRuns(workflow.id, typeof flags['limit'] === 'string' ? parseInt(flags['limit'], 10) || 5 : 5);
+
+  if (flags['json']) {
+    console.log(JSON.stringify({
+      ...workflow,
+      schedule: getWorkflowTask(workflow.id) ?? null,
+      steps: steps.map(s => ({ ...s, on_success: parseEdges(s.on_success), on_failure: parseEdges(s.on_failure) })),
+      runs: runs.map(run => ({ ...run, steps: getWorkflowStepRuns(run.id) })),
+    }, null, 2));
+    return;
+  }
+
+  const lastStepRuns = runs[0] ? new Map(getWorkflowStepRuns(runs[0].id).map(r => [r.step_id, r])) : new Map<string, WorkflowStepRun>();
+
+  console.log(`\n${bold('⚡ 工作流')} ${cyan(workflow.id)}\n`);
+  console.log(`  名称:   ${workflow.name}`);
+  if (workflow.description) {
+    console.log(`  描述:   ${workflow.description}`);
+  }
+  console.log(`  群组:   ${workflow.group_folder}`);
+  console.log(`  触发:   ${formatSchedule(workflow.id)}`);
+
+  console.log(`\n${bold('步骤:')} ${dim('（标记为最近一次运行的状态）')}`);
+  const byId = new Map(steps.map(s => [s.id, s]));
+  const layers = layerWorkflowSteps(toGraph(steps)) ?? [steps.map(s => s.id)];
+  layers.forEach((layer, depth) => {
+    for (const stepId of layer) {
+      const step = byId.get(stepId)!;
+      const edges: string[] = [];
+      const onSuccess = parseEdges(step.on_success);
+      const onFailure = parseEdges(step.on_failure);
+      if (onSuccess.length > 0) edges.push(green(`成功 → ${onSuccess.join(', ')}`));
+      if (onFailure.length > 0) edges.push(red(`失败 → ${onFailure.join(', ')}`));
+      const rule = step.trigger_rule === 'any' ? gray(' [any]') : '';
+      console.log(`  ${gray(`L${depth + 1}`)} ${stepMark(lastStepRuns.get(step.id)?.status)} ${bold(step.id)}${rule}  ${edges.join('  ')}`);
+      console.log(`        ${dim(step.prompt.replace(/\s+/g, ' ').slice(0, 80))}`);
+    }
+  });
+
+  console.log(`\n${bold('最近运行:')}`);
+  if (runs.length === 0) {
+    console.log(dim('  (暂无)'));
+  }
+  for (const run of runs) {
+    const stepRuns = new Map(getWorkflowStepRuns(run.id).map(r => [r.step_id, r]));
+    const marks = steps.map(s => `${stepMark(stepRuns.get(s.id)?.status)}${s.id}`).join(' ');
+    console.log(`  ${dim(run.started_at)}  ${formatRunStatus(run.status)}  ${gray(run.trigger)}  ${marks}`);
+    if (run.error) {
+      console.log(`    ${red(run.error.slice(0, 200))}`);
+    }
+  }
+  console.log(dim(`\n使用 --json 导出完整定义和运行结果\n`));
+}
+
+function createWorkflow(file: string | undefined): void {
+  if (!file) {
+    console.log(`\n用法: ${cyan('flashclaw workflow create <file.json>')}`);
+    process.exit(1);
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(path.resolve(file), 'utf-8'));
+  } catch (err) {
+    console.log(red('✗') + ` 无法读取工作流文件: ${err instanceof Error ? err.message : String(err)}`);
+    process.exit(1);
+  }
+
+  const { definition, errors } = parseWorkflowDefinition(raw);
+  if (!definition) {
+    console.log(red('✗') + ' 工作流定义无效:');
+    for (const error of errors) {
+      console.log(`  - ${error}`);
+    }
+    process.exit(1);
+  }
+
+  const existed = !!getWorkflow(definition.id!);
+  const workflow = saveWorkflowDefinition(definition);
+  sendIpc({ type: 'wake_scheduler' });
+
+  console.log(green('✓') + ` 工作流已${existed ? '更新' : '创建'}: ${cyan(workflow.id)} (${definition.steps.length} 步，触发: ${formatSchedule(workflow.id)})`);
+  console.log(`\n使用 ${cyan(`flashclaw workflow run ${workflow.id}`)} 立即运行\n`);
+}
+
+function removeWorkflow(id: string | undefined): void {
+  const workflow = requireWorkflow(id, 'flashclaw workflow delete <id>');
+  deleteWorkflow(workflow.id);
+  sendIpc({ type: 'wake_scheduler' });
+  console.log(green('✓') + ` 工作流已删除: ${workflow.id}`);
+}
+
+function runWorkflow(id: string | undefined): void {
+  const workflow = requireWorkflow(id, 'flashclaw workflow run <id>');
+  sendIpc({ type: 'run_workflow', workflowId: workflow.id });
+  console.log(green('✓') + ` 已请求运行工作流 ${cyan(workflow.id)}（由运行中的 FlashClaw 服务执行）`);
+  console.log(`\n使用 ${cyan(`flashclaw workflow show ${workflow.id}`)} 查看运行结果\n`);
+}
+
+// ==================== 入口 ====================
+
+export async function workflowCommand(
+  action: string,
+  args: string[],
+  flags: Record<string, string | boolean>
+): Promise<void> {
+  if (!VALID_ACTIONS.includes(action as WorkflowAction)) {
+    console.log(red('✗') + ` 未知操作: ${action}`);
+    console.log(`\n${bold('可用操作:')}`);
+    console.log(`  ${cyan('list')}              列出所有工作流`);
+    console.log(`  ${cyan('show <id>')}         查看步骤图和最近运行 (--limit n, --json)`);
+    console.log(`  ${cyan('create <file>')}     从 JSON 文件创建工作流（同 ID 则更新）`);
+    console.log(`  ${cyan('delete <id>')}       删除工作流及其运行记录`);
+    console.log(`  ${cyan('run <id>')}          立即运行工作流`);
+    console.log(`\n${bold('示例:')}`);
+    console.log(`  flashclaw workflow create ./daily-report.json`);
+    console.log(`  flashclaw workflow run daily-report\n`);
+    process.exit(1);
+  }
+
+  initDatabase();
+
+  switch (action as WorkflowAction) {
+    case 'list':
+      listWorkflows();
+      break;
+    case 'show':
+      showWorkflow(args[0], flags);
+      break;
+    case 'create':
+      createWorkflow(args[0]);
+      break;
+    case 'delete':
+      removeWorkflow(args[0]);
+      break;
+    case 'run':
+      runWorkflow(args[0]);
+      break;
+  }
+}
@@ -44,12 +44,52 @@ export const DATA_DIR = paths.data();
 export const AGENT_TIMEOUT = parseInt(process.env.AGENT_TIMEOUT || '300000', 10); // 5 minutes default
 /** AI 单次响应最大输出 token 数 */
 export const AI_MAX_OUTPUT_TOKENS = parseInt(process.env.AI_MAX_OUTPUT_TOKENS || '4096', 10);
+/** 工具调用审批（ask 策略）等待用户确认的超时时间 */
+export const TOOL_APPROVAL_TIMEOUT_MS = parseInt(process.env.TOOL_APPROVAL_TIMEOUT_MS || '120000', 10);
+/** 子 Agent 委派的最大嵌套深度（1 表示子 Agent 不能再委派） */
+export const AGENT_DELEGATION_MAX_DEPTH = parseInt(process.env.AGENT_DELEGATION_MAX_DEPTH || '2', 10);
+/** 同一次顶层运行下所有子 Agent 累计可用的 token 数（0 表示不限制） */
+export const AGENT_DELEGATION_MAX_TOKENS = parseInt(process.env.AGENT_DELEGATION_MAX_TOKENS || '100000', 10);
+/** 是否持久化记录 Agent 运行追踪（agent_runs 表） */
+export const AGENT_TRACE_ENABLED = process.env.AGENT_TRACE_ENABLED !== 'false';
+/** 运行追踪保留天数（0 表示不清理） */
+export const AGENT_TRACE_RETENTION_DAYS = parseInt(process.env.AGENT_TRACE_RETENTION_DAYS || '14', 10);
 
 // ==================== Scheduler Configuration ====================
 export const MAX_CONCURRENT_TASKS = parseInt(process.env.MAX_CONCURRENT_TASKS || '3', 10);
 export const DEFAULT_TASK_TIMEOUT_MS = parseInt(process.env.DEFAULT_TASK_TIMEOUT_MS || '300000', 10);
 export const RETRY_BASE_DELAY_MS = parseInt(process.env.RETRY_BASE_DELAY_MS || '60000', 10);
 export const MAX_RETRY_DELAY_MS = parseInt(process.env.MAX_RETRY_DELAY_MS || '3600000', 10);
+/** 任务最终失败（重试用尽）时的通知目标：chat / main / webhook / none，可用逗号组合 */
+export const TASK_FAILURE_NOTIFY = process.env.TASK_FAILURE_NOTIFY || 'chat';
+/** 失败通知 webhook 地址（通知目标包含 webhook 时使用） */
+export const TASK_FAILURE_WEBHOOK_URL = process.env.TASK_FAILURE_WEBHOOK_URL || '';
+/** 持续失败期间重复提醒的间隔（小时） */
+export const TASK_FAILURE_REMIND_HOURS = parseInt(process.env.TASK_FAILURE_REMIND_HOURS || '24', 10);
+/** 单次运行记录保存的最大输出字符数 */
+export const TASK_RUN_OUTPUT_MAX_CHARS = parseInt(process.env.TASK_RUN_OUTPUT_MAX_CHARS || '20000', 10);
+/** 每个任务保留的运行记录条数 */
+export const TASK_RUN_LOG_MAX_PER_TASK = parseInt(process.env.TASK_RUN_LOG_MAX_PER_TASK || '100', 10);
+/** 运行记录保留天数（0 表示不按时间清理） */
+export const TASK_RUN_LOG_RETENTION_DAYS = parseInt(process.env.TASK_RUN_LOG_RETENTION_DAYS || '30', 10);
+/** 离线期间错过的任务默认补跑策略：run_once / run_all / skip / skip_if_older */
+export const TASK_CATCH_UP_POLICY = process.env.TASK_CATCH_UP_POLICY || 'run_once';
+/** skip_if_older 策略下，错过超过多少分钟就跳过 */
+export const TASK_CATCH_UP_MAX_AGE_MINUTES = parseInt(process.env.TASK_CATCH_UP_MAX_AGE_MINUTES || '60', 10);
+/** run_all 策略下最多补跑的次数 */
+export const TASK_CATCH_UP_MAX_RUNS = parseInt(process.env.TASK_CATCH_UP_MAX_RUNS || '10', 10);
+/** 补跑和免打扰结束后的任务在该秒数内随机错开，避免同时触发 */
+export const TASK_JITTER_SECONDS = parseInt(process.env.TASK_JITTER_SECONDS || '30', 10);
+/** 默认免打扰时段（如 22:00-08:00，群组可单独配置 quietHours；为空表示不启用） */
+export const TASK_QUIET_HOURS = process.env.TASK_QUIET_HOURS || '';
+/** 调度器租约和任务认领的有效期（毫秒），多个实例共用数据库时只有租约持有者执行任务 */
+export const SCHEDULER_LEASE_TTL_MS = parseInt(process.env.SCHEDULER_LEASE_TTL_MS || '30000', 10);
+
+// ==================== Memory Configuration ====================
+/** 长期记忆整理任务的 cron 表达式（off 表示关闭） */
+export const MEMORY_CONSOLIDATION_CRON = process.env.MEMORY_CONSOLIDATION_CRON || '0 4 * * *';
+/** 超过多少天未更新的记忆在 /memory review 中列为待复查 */
+export const MEMORY_STALE_DAYS = parseInt(process.env.MEMORY_STALE_DAYS || '180', 10);
 
 // ==================== Message Queue Configuration ====================
 export const MESSAGE_QUEUE_MAX_SIZE = parseInt(process.env.MESSAGE_QUEUE_MAX_SIZE || '100', 10);
@@ -66,6 +106,14 @@ export const MAX_IPC_MESSAGE_CHARS = parseInt(process.env.MAX_IPC_MESSAGE_CHARS
 export const MAX_IPC_CHAT_ID_CHARS = parseInt(process.env.MAX_IPC_CHAT_ID_CHARS || '256', 10);
 export const MAX_IMAGE_BYTES = parseInt(process.env.MAX_IMAGE_BYTES || String(10 * 1024 * 1024), 10);
 
+// ==================== Streaming Replies ====================
+/** 逐步编辑回复的渠道（逗号分隔，* 表示所有声明了流式能力的渠道，none 关闭） */
+export const STREAM_REPLY_CHANNELS = (process.env.STREAM_REPLY_CHANNELS ?? '*').split(',').map(s => s.trim()).filter(Boolean);
+/** 流式回复中显示工具调用进度（🔧 web_search…） */
+export const STREAM_REPLY_TOOL_PROGRESS = process.env.STREAM_REPLY_TOOL_PROGRESS !== 'false';
+/** 两次编辑的最小间隔（毫秒），渠道声明的间隔更长时以渠道为准 */
+export const STREAM_REPLY_INTERVAL_MS = parseInt(process.env.STREAM_REPLY_INTERVAL_MS || '1000', 10);
+
 // ==================== Timezone ====================
 // Timezone for scheduled tasks (cron expressions, etc.)
 // Uses system timezone by default
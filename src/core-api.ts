@@ -14,11 +14,13 @@ import { createLogger } from './logger.js';
 import { pluginManager } from './plugins/manager.js';
 import { getSessionStats, resetSession as resetTrackerSession, checkCompactThreshold, getContextWindowSize, getActiveSessionCount } from './session-tracker.js';
 import { getMemoryManager } from './core/memory.js';
-import { getAllTasks, getChatHistory, getMessageStats } from './db.js';
+import { getAllTasks, getChatHistory, getDelegation, getMessageStats, getTokenUsageByModel, getTokenUsageGrouped, searchMessages, type MessageSearchFilter, type TokenUsageFilter } from './db.js';
 import { getCurrentModelId } from './core/model-capabilities.js';
 import { getSchedulerStatus } from './task-scheduler.js';
-import type { RegisteredGroup } from './types.js';
+import type { AgentDelegation, RegisteredGroup, TokenUsageBucket, TokenUsageSummary } from './types.js';
 import type { AgentRunMetrics } from './agent-runner.js';
+import { resolveToolApproval, getPendingApprovals, type ApprovalNotifier, type ApprovalRequest } from './tool-approval.js';
+import { spawnSubAgent, type DelegationHandle, type DelegationRequest } from './agent-delegation.js';
 
 const logger = createLogger('CoreAPI');
 
@@ -32,11 +34,15 @@ export interface ChatParams {
   onToken?: (chunk: string) => void;
   onToolUse?: (name: string, input: unknown) => void;
   onThinking?: (text: string) => void;
+  /** 工具审批回调（未提供时通过渠道发送审批请求） */
+  onApprovalRequest?: ApprovalNotifier;
 }
 
 export interface ChatResult {
   response: string;
   metrics?: AgentRunMetrics;
+  /** 需要额外提示用户的消息（如预算告警） */
+  warnings?: string[];
 }
 
 export interface ServiceStatus {
@@ -51,11 +57,62 @@ export interface ServiceStatus {
   model: string | null;
 }
 
+export interface ConversationSearchHit {
+  chatId: string;
+  chatName?: string;
+  messageId: string;
+  senderId: string;
+  senderName: string;
+  platform?: string;
+  content: string;
+  /** 命中位置附近的摘要 */
+  snippet: string;
+  time: string;
+}
+
 export interface CommandResult {
   handled: boolean;
   response?: string;
 }
 
+export interface SessionInfo {
+  messageCount: number;
+  tokenCount: number;
+  inputTokens: number;
+  outputTokens: number;
+  maxTokens: number;
+  model: string;
+  startedAt?: string;
+  lastActivityAt?: string;
+  usagePercent: number;
+  /** 该会话的历史累计用量（token_usage 表，不受 /new 重置影响；数据库未初始化时为空） */
+  lifetime?: {
+    requests: number;
+    tokens: number;
+    cost: number;
+  };
+}
+
+/** 用量报表范围：今日 / 近 7 天 / 近 30 天 / 本月 */
+export type UsageReportRange = 'today' | '7d' | '30d' | 'month';
+
+export interface UsageReport {
+  range: UsageReportRange;
+  since: string;
+  totals: {
+    requests: number;
+    inputTokens: number;
+    outputTokens: number;
+    totalTokens: number;
+    cost: number;
+  };
+  byModel: TokenUsageSummary[];
+  byGroup: TokenUsageBucket[];
+  byProvider: TokenUsageBucket[];
+  /** 按天汇总（服务器本地日期），用于历史图表 */
+  daily: TokenUsageBucket[];
+}
+
 // ==================== 内部引用（由 index.ts 注入） ====================
 
 interface CoreDependencies {
@@ -66,7 +123,8 @@ interface CoreDependencies {
     onToken?: (chunk: string) => void;
     onToolUse?: (name: string, input: unknown) => void;
     onThinking?: (text: string) => void;
-  }) => Promise<{ result: string | null; metrics?: AgentRunMetrics }>;
+    onApprovalRequest?: ApprovalNotifier;
+  }) => Promise<{ result: string | null; metrics?: AgentRunMetrics; warnings?: string[] }>;
   getRegisteredGroups: () => Record<string, RegisteredGroup>;
   getSessions: () => Record<string, string>;
   resetSession: (groupFolder: string) => void;
@@ -148,6 +206,30 @@ export function getHistory(chatId: string, limit = 50): Array<{ role: string; co
   }
 }
 
+/**
+ * 搜索所有会话的聊天记录
+ * @param query 检索词（中文、英文均可）
+ * @param filter 可选，按会话 / 发送者 / 时间范围 / 平台过滤
+ */
+export function searchConversations(query: string, filter: MessageSearchFilter = {}): ConversationSearchHit[] {
+  try {
+    return searchMessages(query, filter).map(m => ({
+      chatId: m.chat_jid,
+      chatName: m.chat_name || undefined,
+      messageId: m.id,
+      senderId: m.sender,
+      senderName: m.sender_name,
+      platform: m.platform || undefined,
+      content: m.content,
+      snippet: m.snippet,
+      time: m.timestamp,
+    }));
+  } catch (error) {
+    logger.warn({ error: error instanceof Error ? error.message : String(error) }, '搜索聊天记录失败');
+    return [];
+  }
+}
+
 // ==================== 会话管理 ====================
 
 /**
@@ -215,39 +297,100 @@ export async function compactSession(chatId: string, groupName: string, userId?:
 
 // ==================== 会话统计 ====================
 
+function hasDb(): boolean {
+  return !!global.__flashclaw_db;
+}
+
 /**
  * 获取会话统计（/status 命令用）
  */
-export function getSessionInfo(chatId: string): {
-  messageCount: number;
-  tokenCount: number;
-  maxTokens: number;
-  model: string;
-  startedAt?: string;
-  usagePercent: number;
-} | null {
+export function getSessionInfo(chatId: string): SessionInfo | null {
+  // 插件加载期间或测试中数据库可能尚未初始化，此时只返回内存中的统计
+  const dbReady = hasDb();
+  const lifetimeUsage = dbReady ? getTokenUsageByModel(new Date(0).toISOString(), { chatJid: chatId }) : null;
+  const lifetime = lifetimeUsage
+    ? {
+        requests: lifetimeUsage.reduce((sum, m) => sum + m.requests, 0),
+        tokens: lifetimeUsage.reduce((sum, m) => sum + m.input_tokens + m.output_tokens, 0),
+        cost: lifetimeUsage.reduce((sum, m) => sum + m.cost, 0),
+      }
+    : undefined;
+
   const trackerStats = getSessionStats(chatId);
   if (trackerStats) {
     return {
       messageCount: trackerStats.messageCount,
       tokenCount: trackerStats.tokenCount,
+      inputTokens: trackerStats.inputTokens,
+      outputTokens: trackerStats.outputTokens,
       maxTokens: trackerStats.maxTokens,
       model: trackerStats.model,
       startedAt: trackerStats.startedAt,
+      lastActivityAt: trackerStats.lastActivityAt,
       usagePercent: trackerStats.usagePercent,
+      lifetime,
     };
   }
   
   // 回退到历史记录
-  const history = getChatHistory(chatId, 1000);
+  const history = dbReady ? getChatHistory(chatId, 1000) : [];
   const model = getCurrentModelId();
   return {
     messageCount: history.length,
     tokenCount: 0,
+    inputTokens: 0,
+    outputTokens: 0,
     maxTokens: getContextWindowSize(model),
     model,
     startedAt: history.length > 0 ? history[0].timestamp : undefined,
     usagePercent: 0,
+    lifetime,
+  };
+}
+
+function getUsageRangeStart(range: UsageReportRange, now: Date = new Date()): string {
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  switch (range) {
+    case 'today':
+      return today.toISOString();
+    case 'month':
+      return new Date(now.getFullYear(), now.getMonth(), 1).toISOString();
+    case '30d':
+      return new Date(today.getTime() - 29 * 24 * 60 * 60 * 1000).toISOString();
+    case '7d':
+    default:
+      return new Date(today.getTime() - 6 * 24 * 60 * 60 * 1000).toISOString();
+  }
+}
+
+/**
+ * 获取用量报表（按模型、群组、Provider、日期汇总）
+ * @param range 统计范围（默认近 7 天）
+ * @param filter 可选，按群组 / 用户 / 会话过滤
+ */
+export function getUsageReport(
+  range: UsageReportRange = '7d',
+  filter: Pick<TokenUsageFilter, 'groupFolder' | 'userId' | 'chatJid'> = {}
+): UsageReport {
+  const since = getUsageRangeStart(range);
+  const byModel = getTokenUsageByModel(since, filter);
+  const inputTokens = byModel.reduce((sum, m) => sum + m.input_tokens, 0);
+  const outputTokens = byModel.reduce((sum, m) => sum + m.output_tokens, 0);
+
+  return {
+    range,
+    since,
+    totals: {
+      requests: byModel.reduce((sum, m) => sum + m.requests, 0),
+      inputTokens,
+      outputTokens,
+      totalTokens: inputTokens + outputTokens,
+      cost: byModel.reduce((sum, m) => sum + m.cost, 0),
+    },
+    byModel,
+    byGroup: getTokenUsageGrouped(since, 'group', filter),
+    byProvider: getTokenUsageGrouped(since, 'provider', filter),
+    daily: getTokenUsageGrouped(since, 'day', filter),
   };
 }
 
@@ -314,14 +457,50 @@ export async function chat(params: ChatParams): Promise<ChatResult> {
     onToken: params.onToken,
     onToolUse: params.onToolUse,
     onThinking: params.onThinking,
+    onApprovalRequest: params.onApprovalRequest,
   });
 
   return {
     response: agentResult.result || '',
     metrics: agentResult.metrics,
+    warnings: agentResult.warnings,
   };
 }
 
+// ==================== 工具审批 ====================
+
+/**
+ * 应答工具调用审批（Web UI 对话框、渠道按钮回调等）
+ * @returns 是否应答成功（请求不存在、已超时或会话不匹配时返回 false）
+ */
+export function resolveApproval(id: string, approved: boolean, chatId?: string): boolean {
+  return resolveToolApproval(id, approved, chatId) !== null;
+}
+
+/**
+ * 获取待审批的工具调用
+ */
+export function getApprovals(chatId?: string): ApprovalRequest[] {
+  return getPendingApprovals(chatId);
+}
+
+// ==================== 子 Agent 委派 ====================
+
+/**
+ * 把子任务委派给另一个已注册的 Agent（agent-manager 插件的 agent_delegate 工具使用）
+ * 参数校验失败（Agent 不存在、嵌套过深、token 额度用完等）时抛出错误
+ */
+export function delegate(request: DelegationRequest): DelegationHandle {
+  return spawnSubAgent(request);
+}
+
+/**
+ * 获取委派记录（包含子 Agent 的状态和结果）
+ */
+export function getDelegationRecord(id: string): AgentDelegation | undefined {
+  return getDelegation(id);
+}
+
 // ==================== 全局单例 ====================
 
 declare global {
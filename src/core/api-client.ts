@@ -92,6 +92,8 @@ export interface ChatOptions {
   temperature?: number;
   /** 停止序列 */
   stopSequences?: string[];
+  /** 本次请求使用的模型（覆盖 Provider 当前模型） */
+  model?: string;
 }
 
 /**
@@ -113,6 +115,11 @@ export type ToolExecutor = (name: string, params: unknown) => Promise<unknown>;
  */
 export type HeartbeatCallback = () => void;
 
+/**
+ * 工具链后续轮次的事件回调 - 每轮后续请求的文本增量、工具调用和完成消息（含 usage）
+ */
+export type StreamEventCallback = (event: StreamEvent) => void;
+
 // ==================== Mock API (E2E) ====================
 
 const MOCK_RESPONSE_PREFIX = process.env.FLASHCLAW_MOCK_RESPONSE_PREFIX || 'MOCK';
@@ -412,14 +419,15 @@ export class ApiClient {
     messages: ChatMessage[],
     executeTool: ToolExecutor,
     options?: ChatOptions,
-    heartbeat?: HeartbeatCallback
+    heartbeat?: HeartbeatCallback,
+    onEvent?: StreamEventCallback
   ): Promise<string> {
     // 将 ChatMessage[] 转换为 Anthropic.MessageParam[] 后调用内部方法
     const apiMessages: Anthropic.MessageParam[] = messages.map(msg => ({
       role: msg.role as 'user' | 'assistant',
       content: msg.content,
     }));
-    return this.handleToolUseInternal(response, apiMessages, executeTool, options, 0, heartbeat);
+    return this.handleToolUseInternal(response, apiMessages, executeTool, options, 0, heartbeat, onEvent);
   }
   
   /** 最大工具调用递归深度，防止无限递归导致栈溢出 */
@@ -524,7 +532,8 @@ export class ApiClient {
     executeTool: ToolExecutor,
     options?: ChatOptions,
     depth: number = 0,
-    heartbeat?: HeartbeatCallback
+    heartbeat?: HeartbeatCallback,
+    onEvent?: StreamEventCallback
   ): Promise<string> {
     // 防止无限递归
     if (depth >= ApiClient.MAX_TOOL_CALL_DEPTH) {
@@ -590,11 +599,11 @@ export class ApiClient {
     }
     
     // 使用流式请求发送后续工具链调用（避免长时间无活动导致超时）
-    const nextResponse = await this.streamFollowUp(newMessages, options, heartbeat);
+    const nextResponse = await this.streamFollowUp(newMessages, options, heartbeat, onEvent);
     
     // 递归处理多轮工具调用，保持完整消息结构
     if (nextResponse.stop_reason === 'tool_use') {
-      return this.handleToolUseInternal(nextResponse, newMessages, executeTool, options, depth + 1, heartbeat);
+      return this.handleToolUseInternal(nextResponse, newMessages, executeTool, options, depth + 1, heartbeat, onEvent);
     }
     
     return this.extractText(nextResponse);
@@ -607,7 +616,8 @@ export class ApiClient {
   private async streamFollowUp(
     messages: Anthropic.MessageParam[],
     options?: ChatOptions,
-    heartbeat?: HeartbeatCallback
+    heartbeat?: HeartbeatCallback,
+    onEvent?: StreamEventCallback
   ): Promise<Anthropic.Message> {
     const params: Anthropic.MessageCreateParams = {
       model: this.model,
@@ -656,6 +666,7 @@ export class ApiClient {
           const block = contentBlocks[event.index];
           if (block?.type === 'text') {
             block.text += delta.text;
+            onEvent?.({ type: 'text', text: delta.text });
           }
         } else if ('partial_json' in delta) {
           const parts = partialJsonParts.get(event.index);
@@ -674,6 +685,7 @@ export class ApiClient {
               block.input = {};
             }
           }
+          onEvent?.({ type: 'tool_use', id: block.id, name: block.name, input: block.input });
         }
       } else if (event.type === 'message_delta') {
         if (finalMessage) {
@@ -693,6 +705,7 @@ export class ApiClient {
     finalMessage.content = contentBlocks.filter(
       (block): block is Anthropic.TextBlock | Anthropic.ToolUseBlock => block != null
     );
+    onEvent?.({ type: 'done', message: finalMessage });
     
     return finalMessage;
   }
@@ -785,7 +798,8 @@ class MockApiClient extends ApiClient {
     _messages: ChatMessage[],
     executeTool: ToolExecutor,
     _options?: ChatOptions,
-    _heartbeat?: HeartbeatCallback
+    _heartbeat?: HeartbeatCallback,
+    _onEvent?: StreamEventCallback
   ): Promise<string> {
     const toolUseBlocks = response.content.filter(
       (block): block is Anthropic.ToolUseBlock => block.type === 'tool_use'
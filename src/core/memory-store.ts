@@ -0,0 +1,579 @@
+/**
+ * FlashClaw 长期记忆存储（SQLite + FTS5）
+ *
+ * - memories：当前生效的记忆（全局 / 用户级别），带标签、来源会话、置信度、过期时间和版本号
+ * - memory_versions：每次修改 / 删除前的旧版本快照
+ * - memory_fts：全文索引（rowid = memories.id）
+ * - memory_conflicts：整理任务发现的互相矛盾的记忆，等待用户确认
+ *
+ * 中文分词规则见 utils/fts.ts。
+ */
+
+import Database from 'better-sqlite3';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { buildFtsQuery, segmentForFts } from '../utils/fts.js';
+
+// ==================== 类型定义 ====================
+
+/** 记忆作用域：global（全局共享）或 user（用户级别） */
+export type MemoryScope = 'global' | 'user';
+
+/**
+ * 记忆写入选项
+ */
+export interface MemoryWriteOptions {
+  /** 标签 */
+  tags?: string[];
+  /** 来源会话 ID */
+  sourceChat?: string;
+  /** 置信度（0-1，默认 1） */
+  confidence?: number;
+  /** 过期时间（ISO 字符串，null 表示清除过期时间） */
+  expiresAt?: string | null;
+  /** 有效天数（优先于 expiresAt，从写入时刻起算） */
+  ttlDays?: number;
+}
+
+/**
+ * 记忆记录
+ */
+export interface MemoryRecord {
+  id: number;
+  scope: MemoryScope;
+  /** 用户 ID（全局记忆为空字符串） */
+  owner: string;
+  key: string;
+  value: string;
+  tags: string[];
+  sourceChat?: string;
+  confidence: number;
+  expiresAt?: string;
+  version: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * 写入参数
+ */
+export interface MemoryUpsertInput extends MemoryWriteOptions {
+  scope: MemoryScope;
+  owner?: string;
+  key: string;
+  value: string;
+  /** 导入时保留原始时间 */
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+/**
+ * 历史版本
+ */
+export interface MemoryVersion {
+  version: number;
+  value: string;
+  tags: string[];
+  sourceChat?: string;
+  confidence: number;
+  expiresAt?: string;
+  /** 该版本写入时间 */
+  updatedAt: string;
+  /** 被替换 / 删除的时间 */
+  replacedAt: string;
+  change: 'update' | 'delete' | 'expire';
+}
+
+/**
+ * 搜索选项
+ */
+export interface MemorySearchOptions {
+  /** 只搜索指定作用域（默认全局 + userId 对应的用户记忆） */
+  scope?: MemoryScope;
+  /** 用户 ID（不提供时只搜索全局记忆） */
+  userId?: string;
+  /** 必须包含其中任一标签 */
+  tags?: string[];
+  /** 最大返回条数（默认 10） */
+  limit?: number;
+}
+
+export interface MemorySearchResult extends MemoryRecord {
+  /** 相关度（越大越相关） */
+  score: number;
+}
+
+/**
+ * 记忆冲突（同一作用域下互相矛盾的几条记忆）
+ */
+export interface MemoryConflict {
+  id: number;
+  scope: MemoryScope;
+  owner: string;
+  keys: string[];
+  reason: string;
+  createdAt: string;
+}
+
+interface MemoryRow {
+  id: number;
+  scope: MemoryScope;
+  owner: string;
+  key: string;
+  value: string;
+  tags: string;
+  source_chat: string | null;
+  confidence: number;
+  expires_at: string | null;
+  version: number;
+  created_at: string;
+  updated_at: string;
+}
+
+interface MemoryVersionRow {
+  version: number;
+  value: string;
+  tags: string;
+  source_chat: string | null;
+  confidence: number;
+  expires_at: string | null;
+  updated_at: string;
+  replaced_at: string;
+  change: MemoryVersion['change'];
+}
+
+interface MemoryConflictRow {
+  id: number;
+  scope: MemoryScope;
+  owner: string;
+  keys: string;
+  reason: string;
+  created_at: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ==================== 存储实现 ====================
+
+function parseTags(raw: string | null): string[] {
+  if (!raw) return [];
+  try {
+    const tags = JSON.parse(raw);
+    return Array.isArray(tags) ? tags.filter((t): t is string => typeof t === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+function normalizeTags(tags: string[] | undefined): string[] {
+  if (!tags) return [];
+  return Array.from(new Set(tags.map(t => t.trim()).filter(Boolean)));
+}
+
+function toRecord(row: MemoryRow): MemoryRecord {
+  return {
+    id: row.id,
+    scope: row.scope,
+    owner: row.owner,
+    key: row.key,
+    value: row.value,
+    tags: parseTags(row.tags),
+    sourceChat: row.source_chat ?? undefined,
+    confidence: row.confidence,
+    expiresAt: row.expires_at ?? undefined,
+    version: row.version,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * 长期记忆存储
+ */
+export class MemoryStore {
+  private db: Database.Database;
+
+  constructor(dbPath: string) {
+    fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+    this.db = new Database(dbPath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS memories (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        scope TEXT NOT NULL,
+        owner TEXT NOT NULL DEFAULT '',
+        key TEXT NOT NULL,
+        value TEXT NOT NULL,
+        tags TEXT NOT NULL DEFAULT '[]',
+        source_chat TEXT,
+        confidence REAL NOT NULL DEFAULT 1,
+        expires_at TEXT,
+        version INTEGER NOT NULL DEFAULT 1,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        UNIQUE (scope, owner, key)
+      );
+      CREATE INDEX IF NOT EXISTS idx_memories_expires ON memories(expires_at);
+
+      CREATE TABLE IF NOT EXISTS memory_versions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        scope TEXT NOT NULL,
+        owner TEXT NOT NULL DEFAULT '',
+        key TEXT NOT NULL,
+        version INTEGER NOT NULL,
+        value TEXT NOT NULL,
+        tags TEXT NOT NULL DEFAULT '[]',
+        source_chat TEXT,
+        confidence REAL NOT NULL DEFAULT 1,
+        expires_at TEXT,
+        updated_at TEXT NOT NULL,
+        replaced_at TEXT NOT NULL,
+        change TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_memory_versions_key ON memory_versions(scope, owner, key, version);
+
+      CREATE VIRTUAL TABLE IF NOT EXISTS memory_fts USING fts5(key, value, tags, tokenize = 'unicode61 remove_diacritics 2');
+
+      CREATE TABLE IF NOT EXISTS memory_conflicts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        scope TEXT NOT NULL,
+        owner TEXT NOT NULL DEFAULT '',
+        keys TEXT NOT NULL,
+        reason TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        resolved_at TEXT
+      );
+
+      CREATE TABLE IF NOT EXISTS memory_meta (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+      );
+    `);
+  }
+
+  /**
+   * 读取单条记忆（已过期的视为不存在）
+   */
+  get(scope: MemoryScope, owner: string, key: string, now: string = new Date().toISOString()): MemoryRecord | null {
+    const row = this.db.prepare(`
+      SELECT * FROM memories
+      WHERE scope = ? AND owner = ? AND key = ? AND (expires_at IS NULL OR expires_at > ?)
+    `).get(scope, owner, key, now) as MemoryRow | undefined;
+    return row ? toRecord(row) : null;
+  }
+
+  /**
+   * 列出作用域下所有未过期的记忆（按创建时间排序）
+   */
+  list(scope: MemoryScope, owner: string = '', now: string = new Date().toISOString()): MemoryRecord[] {
+    const rows = this.db.prepare(`
+      SELECT * FROM memories
+      WHERE scope = ? AND owner = ? AND (expires_at IS NULL OR expires_at > ?)
+      ORDER BY created_at, id
+    `).all(scope, owner, now) as MemoryRow[];
+    return rows.map(toRecord);
+  }
+
+  /**
+   * 所有未过期的记忆（全局 + 所有用户）
+   */
+  all(now: string = new Date().toISOString()): MemoryRecord[] {
+    const rows = this.db.prepare(`
+      SELECT * FROM memories
+      WHERE expires_at IS NULL OR expires_at > ?
+      ORDER BY scope, owner, created_at, id
+    `).all(now) as MemoryRow[];
+    return rows.map(toRecord);
+  }
+
+  /**
+   * 最近更新的记忆（全局 + 所有用户）
+   */
+  recent(limit: number = 10, now: string = new Date().toISOString()): MemoryRecord[] {
+    const rows = this.db.prepare(`
+      SELECT * FROM memories
+      WHERE expires_at IS NULL OR expires_at > ?
+      ORDER BY updated_at DESC, id DESC
+      LIMIT ?
+    `).all(now, limit) as MemoryRow[];
+    return rows.map(toRecord);
+  }
+
+  /**
+   * 列出有记忆的用户 ID
+   */
+  listOwners(scope: MemoryScope = 'user'): string[] {
+    const rows = this.db.prepare(`SELECT DISTINCT owner FROM memories WHERE scope = ? ORDER BY owner`).all(scope) as Array<{ owner: string }>;
+    return rows.map(r => r.owner);
+  }
+
+  /**
+   * 写入记忆；内容或元数据有变化时保存旧版本并递增版本号
+   */
+  upsert(input: MemoryUpsertInput): MemoryRecord {
+    const owner = input.scope === 'global' ? '' : (input.owner ?? '');
+    const now = new Date().toISOString();
+
+    const write = this.db.transaction((): MemoryRecord => {
+      const existing = this.db.prepare(`SELECT * FROM memories WHERE scope = ? AND owner = ? AND key = ?`)
+        .get(input.scope, owner, input.key) as MemoryRow | undefined;
+
+      const tags = input.tags !== undefined ? normalizeTags(input.tags) : parseTags(existing?.tags ?? null);
+      const sourceChat = input.sourceChat ?? existing?.source_chat ?? null;
+      const confidence = input.confidence !== undefined
+        ? Math.min(1, Math.max(0, input.confidence))
+        : (existing?.confidence ?? 1);
+      const expiresAt = typeof input.ttlDays === 'number' && input.ttlDays > 0
+        ? new Date(Date.parse(now) + input.ttlDays * DAY_MS).toISOString()
+        : input.expiresAt !== undefined ? input.expiresAt : (existing?.expires_at ?? null);
+      const updatedAt = input.updatedAt ?? now;
+
+      if (!existing) {
+        // 删除后重新写入时，版本号接着历史版本继续递增
+        const last = this.db.prepare(`SELECT MAX(version) AS version FROM memory_versions WHERE scope = ? AND owner = ? AND key = ?`)
+          .get(input.scope, owner, input.key) as { version: number | null };
+        const result = this.db.prepare(`
+          INSERT INTO memories (scope, owner, key, value, tags, source_chat, confidence, expires_at, version, created_at, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `).run(input.scope, owner, input.key, input.value, JSON.stringify(tags), sourceChat, confidence, expiresAt, (last.version ?? 0) + 1, input.createdAt ?? updatedAt, updatedAt);
+        const id = Number(result.lastInsertRowid);
+        this.indexRecord(id, input.key, input.value, tags);
+        return toRecord(this.db.prepare(`SELECT * FROM memories WHERE id = ?`).get(id) as MemoryRow);
+      }
+
+      const unchanged = existing.value === input.value &&
+        existing.tags === JSON.stringify(tags) &&
+        existing.source_chat === sourceChat &&
+        existing.confidence === confidence &&
+        existing.expires_at === expiresAt;
+      if (unchanged) {
+        return toRecord(existing);
+      }
+
+      this.saveVersion(existing, 'update', now);
+      this.db.prepare(`
+        UPDATE memories
+        SET value = ?, tags = ?, source_chat = ?, confidence = ?, expires_at = ?, version = version + 1, updated_at = ?
+        WHERE id = ?
+      `).run(input.value, JSON.stringify(tags), sourceChat, confidence, expiresAt, updatedAt, existing.id);
+      this.indexRecord(existing.id, input.key, input.value, tags);
+      return toRecord(this.db.prepare(`SELECT * FROM memories WHERE id = ?`).get(existing.id) as MemoryRow);
+    });
+
+    return write();
+  }
+
+  /**
+   * 删除记忆（保留历史版本）
+   */
+  delete(scope: MemoryScope, owner: string, key: string): boolean {
+    const remove = this.db.transaction((): boolean => {
+      const existing = this.db.prepare(`SELECT * FROM memories WHERE scope = ? AND owner = ? AND key = ?`)
+        .get(scope, owner, key) as MemoryRow | undefined;
+      if (!existing) return false;
+      this.removeRow(existing, 'delete', new Date().toISOString());
+      return true;
+    });
+    return remove();
+  }
+
+  /**
+   * 清理已过期的记忆
+   * @returns 被清理的记忆
+   */
+  purgeExpired(now: string = new Date().toISOString()): MemoryRecord[] {
+    const purge = this.db.transaction((): MemoryRecord[] => {
+      const rows = this.db.prepare(`SELECT * FROM memories WHERE expires_at IS NOT NULL AND expires_at <= ?`).all(now) as MemoryRow[];
+      for (const row of rows) {
+        this.removeRow(row, 'expire', now);
+      }
+      return rows.map(toRecord);
+    });
+    return purge();
+  }
+
+  /**
+   * 确认记忆仍然有效：只刷新更新时间，不产生新版本
+   */
+  touch(scope: MemoryScope, owner: string, key: string): boolean {
+    const result = this.db.prepare(`UPDATE memories SET updated_at = ? WHERE scope = ? AND owner = ? AND key = ?`)
+      .run(new Date().toISOString(), scope, owner, key);
+    return result.changes > 0;
+  }
+
+  /**
+   * 列出长期未更新或置信度偏低的记忆（不含已过期的）
+   *
+   * @param updatedBefore - 早于该时间未更新即视为陈旧
+   * @param minConfidence - 低于该置信度也视为待复查
+   */
+  stale(scope: MemoryScope, owner: string, updatedBefore: string, minConfidence: number): MemoryRecord[] {
+    const rows = this.db.prepare(`
+      SELECT * FROM memories
+      WHERE scope = ? AND owner = ? AND (expires_at IS NULL OR expires_at > ?)
+        AND (updated_at < ? OR confidence < ?)
+      ORDER BY updated_at, id
+    `).all(scope, owner, new Date().toISOString(), updatedBefore, minConfidence) as MemoryRow[];
+    return rows.map(toRecord);
+  }
+
+  /**
+   * 记录一组互相矛盾的记忆（同一组 key 已有未处理的记录时跳过）
+   *
+   * @returns 是否新增了记录
+   */
+  addConflict(scope: MemoryScope, owner: string, keys: string[], reason: string): boolean {
+    const normalized = JSON.stringify(Array.from(new Set(keys)).sort());
+    const existing = this.db.prepare(`
+      SELECT id FROM memory_conflicts
+      WHERE scope = ? AND owner = ? AND keys = ? AND resolved_at IS NULL
+    `).get(scope, owner, normalized);
+    if (existing) return false;
+    this.db.prepare(`
+      INSERT INTO memory_conflicts (scope, owner, keys, reason, created_at)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(scope, owner, normalized, reason, new Date().toISOString());
+    return true;
+  }
+
+  /**
+   * 列出未处理的记忆冲突
+   */
+  conflicts(scope: MemoryScope, owner: string = ''): MemoryConflict[] {
+    const rows = this.db.prepare(`
+      SELECT id, scope, owner, keys, reason, created_at FROM memory_conflicts
+      WHERE scope = ? AND owner = ? AND resolved_at IS NULL
+      ORDER BY id
+    `).all(scope, owner) as MemoryConflictRow[];
+    return rows.map(row => ({
+      id: row.id,
+      scope: row.scope,
+      owner: row.owner,
+      keys: parseTags(row.keys),
+      reason: row.reason,
+      createdAt: row.created_at,
+    }));
+  }
+
+  /**
+   * 将涉及指定 key 的冲突标记为已处理
+   *
+   * @returns 处理的冲突数
+   */
+  resolveConflicts(scope: MemoryScope, owner: string, key: string): number {
+    const result = this.db.prepare(`
+      UPDATE memory_conflicts SET resolved_at = ?
+      WHERE scope = ? AND owner = ? AND resolved_at IS NULL
+        AND EXISTS (SELECT 1 FROM json_each(memory_conflicts.keys) WHERE json_each.value = ?)
+    `).run(new Date().toISOString(), scope, owner, key);
+    return result.changes;
+  }
+
+  /**
+   * 全文搜索（查询为空时按标签过滤，按更新时间倒序）
+   */
+  search(query: string, options: MemorySearchOptions = {}): MemorySearchResult[] {
+    const limit = options.limit ?? 10;
+    const conditions: string[] = ['(m.expires_at IS NULL OR m.expires_at > ?)'];
+    const params: unknown[] = [new Date().toISOString()];
+
+    if (options.scope === 'global') {
+      conditions.push(`m.scope = 'global'`);
+    } else if (options.scope === 'user') {
+      conditions.push(`m.scope = 'user' AND m.owner = ?`);
+      params.push(options.userId ?? '');
+    } else if (options.userId) {
+      conditions.push(`(m.scope = 'global' OR (m.scope = 'user' AND m.owner = ?))`);
+      params.push(options.userId);
+    } else {
+      conditions.push(`m.scope = 'global'`);
+    }
+
+    const tags = normalizeTags(options.tags);
+    if (tags.length > 0) {
+      conditions.push(`EXISTS (SELECT 1 FROM json_each(m.tags) WHERE json_each.value IN (${tags.map(() => '?').join(', ')}))`);
+      params.push(...tags);
+    }
+
+    const ftsQuery = buildFtsQuery(query);
+    if (!ftsQuery) {
+      if (tags.length === 0) return [];
+      const rows = this.db.prepare(`
+        SELECT m.* FROM memories m
+        WHERE ${conditions.join(' AND ')}
+        ORDER BY m.updated_at DESC
+        LIMIT ?
+      `).all(...params, limit) as MemoryRow[];
+      return rows.map(row => ({ ...toRecord(row), score: row.confidence }));
+    }
+
+    const rows = this.db.prepare(`
+      SELECT m.*, bm25(memory_fts, 2.0, 1.0, 1.0) AS rank
+      FROM memory_fts
+      JOIN memories m ON m.id = memory_fts.rowid
+      WHERE memory_fts MATCH ? AND ${conditions.join(' AND ')}
+      ORDER BY rank, m.updated_at DESC
+      LIMIT ?
+    `).all(ftsQuery, ...params, limit) as Array<MemoryRow & { rank: number }>;
+
+    return rows.map(row => ({ ...toRecord(row), score: -row.rank * row.confidence }));
+  }
+
+  /**
+   * 获取历史版本（新 → 旧）
+   */
+  history(scope: MemoryScope, owner: string, key: string): MemoryVersion[] {
+    const rows = this.db.prepare(`
+      SELECT version, value, tags, source_chat, confidence, expires_at, updated_at, replaced_at, change
+      FROM memory_versions
+      WHERE scope = ? AND owner = ? AND key = ?
+      ORDER BY id DESC
+    `).all(scope, owner, key) as MemoryVersionRow[];
+    return rows.map(row => ({
+      version: row.version,
+      value: row.value,
+      tags: parseTags(row.tags),
+      sourceChat: row.source_chat ?? undefined,
+      confidence: row.confidence,
+      expiresAt: row.expires_at ?? undefined,
+      updatedAt: row.updated_at,
+      replacedAt: row.replaced_at,
+      change: row.change,
+    }));
+  }
+
+  getMeta(key: string): string | undefined {
+    const row = this.db.prepare(`SELECT value FROM memory_meta WHERE key = ?`).get(key) as { value: string } | undefined;
+    return row?.value;
+  }
+
+  setMeta(key: string, value: string): void {
+    this.db.prepare(`
+      INSERT INTO memory_meta (key, value) VALUES (?, ?)
+      ON CONFLICT(key) DO UPDATE SET value = excluded.value
+    `).run(key, value);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private indexRecord(id: number, key: string, value: string, tags: string[]): void {
+    this.db.prepare(`DELETE FROM memory_fts WHERE rowid = ?`).run(id);
+    this.db.prepare(`INSERT INTO memory_fts (rowid, key, value, tags) VALUES (?, ?, ?, ?)`)
+      .run(id, segmentForFts(key), segmentForFts(value), segmentForFts(tags.join(' ')));
+  }
+
+  private saveVersion(row: MemoryRow, change: MemoryVersion['change'], replacedAt: string): void {
+    this.db.prepare(`
+      INSERT INTO memory_versions (scope, owner, key, version, value, tags, source_chat, confidence, expires_at, updated_at, replaced_at, change)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(row.scope, row.owner, row.key, row.version, row.value, row.tags, row.source_chat, row.confidence, row.expires_at, row.updated_at, replacedAt, change);
+  }
+
+  private removeRow(row: MemoryRow, change: MemoryVersion['change'], now: string): void {
+    this.saveVersion(row, change, now);
+    this.db.prepare(`DELETE FROM memories WHERE id = ?`).run(row.id);
+    this.db.prepare(`DELETE FROM memory_fts WHERE rowid = ?`).run(row.id);
+  }
+}
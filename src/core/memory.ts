@@ -3,7 +3,8 @@
  * 
  * 三层记忆架构：
  * 1. 短期记忆 - 最近 N 条消息，保存在内存中
- * 2. 长期记忆 - 重要信息，保存在 data/memory/{group}.md 文件
+ * 2. 长期记忆 - 重要信息，保存在 data/memory/memory.db（SQLite + FTS5），
+ *    同时导出为 global.md / users/{userId}.md 便于查看和备份
  * 3. 上下文压缩 - 超长对话时自动摘要，减少 token 消耗
  * 
  * 参考 OpenClaw 的 session-memory 设计
@@ -13,6 +14,18 @@ import * as fs from 'node:fs';
 import * as path from 'node:path';
 import type { ApiClient, ChatMessage, MessageContent, TextBlock } from './api-client.js';
 import type { AIProviderPlugin, ChatOptions } from '../plugins/types.js';
+import {
+  MemoryStore,
+  type MemoryScope,
+  type MemoryRecord,
+  type MemoryWriteOptions,
+  type MemorySearchOptions,
+  type MemorySearchResult,
+  type MemoryVersion,
+  type MemoryConflict,
+} from './memory-store.js';
+
+export type { MemoryScope, MemoryWriteOptions, MemorySearchOptions, MemorySearchResult, MemoryVersion, MemoryConflict } from './memory-store.js';
 
 /**
  * 兼容 ApiClient 和 AIProviderPlugin 的类型
@@ -41,6 +54,7 @@ function extractResponseText(response: unknown, client: AIClient): string {
 import { createLogger } from '../logger.js';
 
 const logger = createLogger('MemoryManager');
+const DAY_MS = 24 * 60 * 60 * 1000;
 const CJK_CHAR_REGEX = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
 
 function countCjkChars(text: string): number {
@@ -89,6 +103,16 @@ export interface MemoryEntry {
   createdAt: string;
   /** 更新时间 */
   updatedAt: string;
+  /** 标签 */
+  tags?: string[];
+  /** 来源会话 ID */
+  sourceChat?: string;
+  /** 置信度（0-1） */
+  confidence?: number;
+  /** 过期时间 */
+  expiresAt?: string;
+  /** 版本号（每次修改 +1） */
+  version?: number;
 }
 
 /**
@@ -111,6 +135,16 @@ export interface DailyLogAppendResult {
   filePath: string;
 }
 
+/**
+ * 记忆变更事件（供向量索引等插件增量更新）
+ */
+export type MemoryChangeEvent =
+  | { type: 'remember'; scope: MemoryScope; owner: string; key: string; value: string }
+  | { type: 'forget'; scope: MemoryScope; owner: string; key: string }
+  | { type: 'daily-log'; date: string; content: string };
+
+export type MemoryChangeListener = (event: MemoryChangeEvent) => void;
+
 // ==================== 记忆管理器实现 ====================
 
 /**
@@ -144,11 +178,11 @@ export class MemoryManager {
   /** 短期记忆存储：groupId -> 消息列表 */
   private shortTermMemory: Map<string, ChatMessage[]> = new Map();
   
-  /** 全局长期记忆缓存（跨渠道共享） */
-  private globalMemoryCache: Map<string, MemoryEntry> | null = null;
-  
-  /** 用户级别记忆缓存：userId -> 记忆条目映射 */
-  private userMemoryCache: Map<string, Map<string, MemoryEntry>> = new Map();
+  /** 长期记忆存储（首次访问时打开） */
+  private store: MemoryStore | null = null;
+
+  /** 记忆变更监听器 */
+  private changeListeners: Set<MemoryChangeListener> = new Set();
   
   /** 压缩摘要缓存：groupId -> 摘要 */
   private summaryCache: Map<string, string> = new Map();
@@ -313,16 +347,6 @@ export class MemoryManager {
       }
       logger.debug({ evicted: toRemove }, '清理不活跃的短期记忆');
     }
-    
-    // 清理用户记忆缓存
-    if (this.userMemoryCache.size > maxEntries) {
-      const toRemove = this.userMemoryCache.size - maxEntries;
-      const keys = this.userMemoryCache.keys();
-      for (let i = 0; i < toRemove; i++) {
-        const key = keys.next().value;
-        if (key !== undefined) this.userMemoryCache.delete(key);
-      }
-    }
   }
   
   // ==================== 长期记忆 ====================
@@ -332,23 +356,10 @@ export class MemoryManager {
    *
    * @param key - 记忆键
    * @param value - 记忆值
+   * @param options - 标签、来源会话、置信度、过期时间
    */
-  remember(key: string, value: string): void {
-    this.loadGlobalMemory();
-
-    const cache = this.globalMemoryCache!;
-    const now = new Date().toISOString();
-
-    const existing = cache.get(key);
-    const entry: MemoryEntry = {
-      key,
-      value,
-      createdAt: existing?.createdAt ?? now,
-      updatedAt: now,
-    };
-
-    cache.set(key, entry);
-    this.saveGlobalMemory();
+  remember(key: string, value: string, options: MemoryWriteOptions = {}): void {
+    this.writeMemory('global', '', key, value, options);
   }
 
   /**
@@ -357,43 +368,21 @@ export class MemoryManager {
    * @param key - 记忆键（可选，不提供则返回所有记忆）
    */
   recall(key?: string): string {
-    this.loadGlobalMemory();
-
-    const cache = this.globalMemoryCache!;
-
-    if (key) {
-      return cache.get(key)?.value ?? '';
-    }
-
-    if (cache.size === 0) {
-      return '';
-    }
-
-    const lines: string[] = [];
-    for (const [k, entry] of cache) {
-      lines.push(`- ${k}: ${entry.value}`);
-    }
-    return lines.join('\n');
+    return this.readMemory('global', '', key);
   }
 
   /**
    * 删除全局记忆
    */
   forget(key: string): void {
-    this.loadGlobalMemory();
-
-    const cache = this.globalMemoryCache!;
-    if (cache.delete(key)) {
-      this.saveGlobalMemory();
-    }
+    this.deleteMemory('global', '', key);
   }
 
   /**
    * 获取全局记忆键列表
    */
   getMemoryKeys(): string[] {
-    this.loadGlobalMemory();
-    return Array.from(this.globalMemoryCache!.keys());
+    return this.getStore().list('global').map(r => r.key);
   }
   
   // ==================== 用户级别记忆 ====================
@@ -404,25 +393,10 @@ export class MemoryManager {
    * @param userId - 用户 ID
    * @param key - 记忆键
    * @param value - 记忆值
+   * @param options - 标签、来源会话、置信度、过期时间
    */
-  rememberUser(userId: string, key: string, value: string): void {
-    if (!this.userMemoryCache.has(userId)) {
-      this.loadUserMemory(userId);
-    }
-    
-    const cache = this.userMemoryCache.get(userId)!;
-    const now = new Date().toISOString();
-    
-    const existing = cache.get(key);
-    const entry: MemoryEntry = {
-      key,
-      value,
-      createdAt: existing?.createdAt ?? now,
-      updatedAt: now,
-    };
-    
-    cache.set(key, entry);
-    this.saveUserMemory(userId);
+  rememberUser(userId: string, key: string, value: string, options: MemoryWriteOptions = {}): void {
+    this.writeMemory('user', userId, key, value, options);
   }
   
   /**
@@ -433,86 +407,199 @@ export class MemoryManager {
    * @returns 记忆值或格式化的所有记忆
    */
   recallUser(userId: string, key?: string): string {
-    if (!this.userMemoryCache.has(userId)) {
-      this.loadUserMemory(userId);
-    }
-    
-    const cache = this.userMemoryCache.get(userId)!;
-    
-    if (key) {
-      return cache.get(key)?.value ?? '';
-    }
-    
-    if (cache.size === 0) {
-      return '';
-    }
-    
-    const lines: string[] = [];
-    for (const [k, entry] of cache) {
-      lines.push(`- ${k}: ${entry.value}`);
-    }
-    return lines.join('\n');
+    return this.readMemory('user', userId, key);
   }
   
   /**
    * 删除用户级别记忆
    */
   forgetUser(userId: string, key: string): void {
-    if (!this.userMemoryCache.has(userId)) {
-      this.loadUserMemory(userId);
-    }
-    
-    const cache = this.userMemoryCache.get(userId)!;
-    if (cache.delete(key)) {
-      this.saveUserMemory(userId);
-    }
+    this.deleteMemory('user', userId, key);
   }
-  
+
+  // ==================== 检索与历史 ====================
+
   /**
-   * 获取用户文件路径
+   * 获取单条记忆的完整信息（标签、来源、置信度、版本等）
+   *
+   * @param key - 记忆键
+   * @param userId - 用户 ID（提供时读取用户级别记忆，否则读取全局记忆）
    */
-  private getUserMemoryFilePath(userId: string): string {
-    const safeId = userId.replace(/[^a-zA-Z0-9_-]/g, '_');
-    return path.join(this.config.memoryDir, 'users', `${safeId}.md`);
+  getMemoryEntry(key: string, userId?: string): MemoryEntry | null {
+    const record = userId
+      ? this.getStore().get('user', userId, key)
+      : this.getStore().get('global', '', key);
+    return record ? toMemoryEntry(record) : null;
   }
-  
+
   /**
-   * 加载用户级别记忆
+   * 全文搜索长期记忆（FTS5，支持中文）
+   *
+   * @param query - 自然语言查询
+   * @param options - 作用域、用户 ID、标签过滤、返回条数
    */
-  private loadUserMemory(userId: string): void {
-    const cache = new Map<string, MemoryEntry>();
-    this.userMemoryCache.set(userId, cache);
-    
-    const filePath = this.getUserMemoryFilePath(userId);
-    if (!fs.existsSync(filePath)) {
-      return;
+  searchMemories(query: string, options: MemorySearchOptions = {}): MemorySearchResult[] {
+    return this.getStore().search(query, options);
+  }
+
+  /**
+   * 最近更新的长期记忆（全局 + 所有用户，供 Web UI 展示）
+   */
+  getRecentMemories(limit = 10): MemorySearchResult[] {
+    return this.getStore().recent(limit).map(r => ({ ...r, score: r.confidence }));
+  }
+
+  /**
+   * 获取记忆的历史版本（新 → 旧，不含当前值）
+   */
+  getMemoryHistory(key: string, userId?: string): MemoryVersion[] {
+    return userId
+      ? this.getStore().history('user', userId, key)
+      : this.getStore().history('global', '', key);
+  }
+
+  /**
+   * 列出所有未过期的长期记忆（全局 + 所有用户）
+   */
+  listMemories(): MemorySearchResult[] {
+    return this.getStore().all().map(r => ({ ...r, score: r.confidence }));
+  }
+
+  // ==================== 复查与整理 ====================
+
+  /**
+   * 列出待复查的记忆：长期未更新或置信度偏低
+   *
+   * @param options.userId - 用户 ID（提供时检查用户级别记忆，否则检查全局记忆）
+   * @param options.staleDays - 超过多少天未更新视为陈旧（默认 180）
+   * @param options.minConfidence - 低于该置信度视为待复查（默认 0.5）
+   */
+  getStaleMemories(options: { userId?: string; staleDays?: number; minConfidence?: number } = {}): MemoryEntry[] {
+    const { userId, staleDays = 180, minConfidence = 0.5 } = options;
+    const updatedBefore = new Date(Date.now() - staleDays * DAY_MS).toISOString();
+    const records = userId
+      ? this.getStore().stale('user', userId, updatedBefore, minConfidence)
+      : this.getStore().stale('global', '', updatedBefore, minConfidence);
+    return records.map(toMemoryEntry);
+  }
+
+  /**
+   * 列出未处理的记忆冲突
+   *
+   * @param userId - 用户 ID（提供时列出用户级别冲突，否则列出全局冲突）
+   */
+  getMemoryConflicts(userId?: string): MemoryConflict[] {
+    return userId
+      ? this.getStore().conflicts('user', userId)
+      : this.getStore().conflicts('global');
+  }
+
+  /**
+   * 记录一组互相矛盾的记忆，等待用户通过 /memory review 确认
+   *
+   * @returns 是否新增了记录（同一组 key 已有未处理的记录时返回 false）
+   */
+  recordMemoryConflict(keys: string[], reason: string, userId?: string): boolean {
+    return userId
+      ? this.getStore().addConflict('user', userId, keys, reason)
+      : this.getStore().addConflict('global', '', keys, reason);
+  }
+
+  /**
+   * 确认记忆仍然有效：刷新更新时间（置信度偏低的提升为 1），并关闭涉及它的冲突
+   *
+   * @returns 记忆是否存在
+   */
+  confirmMemory(key: string, userId?: string): boolean {
+    const scope: MemoryScope = userId ? 'user' : 'global';
+    const owner = userId ?? '';
+    const store = this.getStore();
+    const record = store.get(scope, owner, key);
+    if (record && record.confidence < 1) {
+      this.writeMemory(scope, owner, key, record.value, { confidence: 1 });
+    } else if (record) {
+      store.touch(scope, owner, key);
     }
-    
-    try {
-      const content = fs.readFileSync(filePath, 'utf-8');
-      const entries = this.parseMemoryFile(content);
-      for (const entry of entries) {
-        cache.set(entry.key, entry);
-      }
-    } catch (error) {
-      logger.error({ path: filePath, error }, '加载用户记忆文件失败');
+    store.resolveConflicts(scope, owner, key);
+    return record !== null;
+  }
+
+  /**
+   * 清理已过期的记忆，并同步 Markdown 文件
+   *
+   * @returns 清理的条数
+   */
+  purgeExpiredMemories(): number {
+    const expired = this.getStore().purgeExpired();
+    const scopes = new Map<string, { scope: MemoryScope; owner: string }>();
+    for (const record of expired) {
+      scopes.set(`${record.scope}:${record.owner}`, { scope: record.scope, owner: record.owner });
     }
+    for (const { scope, owner } of scopes.values()) {
+      this.exportScope(scope, owner);
+    }
+    for (const record of expired) {
+      this.getStore().resolveConflicts(record.scope, record.owner, record.key);
+      this.emitChange({ type: 'forget', scope: record.scope, owner: record.owner, key: record.key });
+    }
+    return expired.length;
   }
-  
+
   /**
-   * 保存用户级别记忆（原子写入）
+   * 获取记忆目录
    */
-  private saveUserMemory(userId: string): void {
-    const cache = this.userMemoryCache.get(userId);
-    if (!cache) return;
+  getMemoryDir(): string {
+    return this.config.memoryDir;
+  }
 
-    const filePath = this.getUserMemoryFilePath(userId);
-    const content = this.formatMemoryFile(`用户 ${userId}`, cache);
+  /**
+   * 监听长期记忆和每日日志的变更
+   *
+   * @returns 取消监听的函数
+   */
+  onChange(listener: MemoryChangeListener): () => void {
+    this.changeListeners.add(listener);
+    return () => {
+      this.changeListeners.delete(listener);
+    };
+  }
 
-    try {
-      this.atomicWriteFile(filePath, content);
-    } catch (error) {
-      logger.error({ path: filePath, error }, '保存用户记忆文件失败');
+  private emitChange(event: MemoryChangeEvent): void {
+    for (const listener of this.changeListeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        logger.warn({ error, type: event.type }, '记忆变更监听器执行失败');
+      }
+    }
+  }
+
+  private writeMemory(scope: MemoryScope, owner: string, key: string, value: string, options: MemoryWriteOptions): void {
+    this.getStore().upsert({ scope, owner, key, value, ...options });
+    this.exportScope(scope, owner);
+    this.emitChange({ type: 'remember', scope, owner, key, value });
+  }
+
+  private readMemory(scope: MemoryScope, owner: string, key?: string): string {
+    const store = this.getStore();
+
+    if (key) {
+      return store.get(scope, owner, key)?.value ?? '';
+    }
+
+    const records = store.list(scope, owner);
+    if (records.length === 0) {
+      return '';
+    }
+
+    return records.map(r => `- ${r.key}: ${r.value}`).join('\n');
+  }
+
+  private deleteMemory(scope: MemoryScope, owner: string, key: string): void {
+    if (this.getStore().delete(scope, owner, key)) {
+      this.getStore().resolveConflicts(scope, owner, key);
+      this.exportScope(scope, owner);
+      this.emitChange({ type: 'forget', scope, owner, key });
     }
   }
   
@@ -886,6 +973,7 @@ ${conversationText}
 
     // 日志有更新，清空缓存
     this.dailyLogsCache = null;
+    this.emitChange({ type: 'daily-log', date: today, content });
 
     return {
       date: today,
@@ -985,6 +1073,30 @@ ${conversationText}
     fs.renameSync(tmpPath, filePath);
   }
   
+  /**
+   * 获取长期记忆存储（首次访问时打开数据库，并导入有变化的 Markdown 文件）
+   */
+  private getStore(): MemoryStore {
+    if (this.store) {
+      return this.store;
+    }
+
+    this.store = new MemoryStore(path.join(this.config.memoryDir, 'memory.db'));
+    try {
+      const imported = this.importMarkdown();
+      if (imported > 0) {
+        logger.info({ imported }, '🧠 已从 Markdown 文件导入长期记忆');
+      }
+      const expired = this.purgeExpiredMemories();
+      if (expired > 0) {
+        logger.debug({ expired }, '🧠 已清理过期记忆');
+      }
+    } catch (error) {
+      logger.error({ error }, '导入记忆文件失败');
+    }
+    return this.store;
+  }
+
   /**
    * 获取全局记忆文件路径
    */
@@ -993,45 +1105,108 @@ ${conversationText}
   }
 
   /**
-   * 加载全局长期记忆
+   * 获取用户文件路径
    */
-  private loadGlobalMemory(): void {
-    if (this.globalMemoryCache) {
-      return;
+  private getUserMemoryFilePath(userId: string): string {
+    const safeId = userId.replace(/[^a-zA-Z0-9_-]/g, '_');
+    return path.join(this.config.memoryDir, 'users', `${safeId}.md`);
+  }
+
+  /**
+   * 从 Markdown 文件导入长期记忆（global.md、users/*.md）
+   * 只导入上次同步后有变化的文件；已存在的键按文件内容更新（产生新版本），
+   * 文件中已删除的条目同步从数据库删除（Markdown 文件仍是可编辑的数据源）
+   *
+   * @param force - 忽略同步记录，重新导入所有文件
+   * @returns 导入的文件数
+   */
+  importMarkdown(force = false): number {
+    const store = this.store ?? this.getStore();
+    const files: Array<{ filePath: string; scope: MemoryScope; owner?: string }> = [
+      { filePath: this.getGlobalMemoryFilePath(), scope: 'global' },
+    ];
+    const usersDir = path.join(this.config.memoryDir, 'users');
+    if (fs.existsSync(usersDir)) {
+      for (const file of fs.readdirSync(usersDir).filter(f => f.endsWith('.md'))) {
+        files.push({ filePath: path.join(usersDir, file), scope: 'user' });
+      }
     }
 
-    const cache = new Map<string, MemoryEntry>();
-    this.globalMemoryCache = cache;
+    let imported = 0;
+    for (const { filePath, scope } of files) {
+      if (!fs.existsSync(filePath)) continue;
 
-    const filePath = this.getGlobalMemoryFilePath();
-    if (!fs.existsSync(filePath)) {
-      return;
-    }
+      const metaKey = `markdown:${path.relative(this.config.memoryDir, filePath)}`;
+      const mtime = String(fs.statSync(filePath).mtimeMs);
+      if (!force && store.getMeta(metaKey) === mtime) continue;
 
-    try {
-      const content = fs.readFileSync(filePath, 'utf-8');
-      const entries = this.parseMemoryFile(content);
-      for (const entry of entries) {
-        cache.set(entry.key, entry);
+      try {
+        const content = fs.readFileSync(filePath, 'utf-8');
+        // 用户 ID 以文件标题为准（文件名中的特殊字符已被替换）
+        const owner = scope === 'user'
+          ? (content.match(/^# 用户 (.+) 的长期记忆$/m)?.[1] ?? path.basename(filePath, '.md'))
+          : '';
+        const entries = this.parseMemoryFile(content);
+        for (const entry of entries) {
+          store.upsert({
+            scope,
+            owner,
+            key: entry.key,
+            value: entry.value,
+            tags: entry.tags,
+            sourceChat: entry.sourceChat,
+            confidence: entry.confidence,
+            expiresAt: entry.expiresAt ?? null,
+            createdAt: entry.createdAt,
+            updatedAt: entry.updatedAt,
+          });
+        }
+        const keys = new Set(entries.map(entry => entry.key));
+        for (const record of store.list(scope, owner)) {
+          if (!keys.has(record.key) && store.delete(scope, owner, record.key)) {
+            store.resolveConflicts(scope, owner, record.key);
+            this.emitChange({ type: 'forget', scope, owner, key: record.key });
+          }
+        }
+        store.setMeta(metaKey, mtime);
+        imported++;
+      } catch (error) {
+        logger.error({ path: filePath, error }, '导入记忆文件失败');
       }
-    } catch (error) {
-      logger.error({ path: filePath, error }, '加载全局记忆文件失败');
     }
+    return imported;
   }
 
   /**
-   * 保存全局长期记忆（原子写入）
+   * 将所有长期记忆导出为 Markdown 文件
+   *
+   * @returns 写入的文件路径
    */
-  private saveGlobalMemory(): void {
-    if (!this.globalMemoryCache) return;
+  exportMarkdown(): string[] {
+    const store = this.getStore();
+    const written = [this.exportScope('global', '')];
+    for (const userId of store.listOwners('user')) {
+      written.push(this.exportScope('user', userId));
+    }
+    return written.filter((p): p is string => !!p);
+  }
 
-    const filePath = this.getGlobalMemoryFilePath();
-    const content = this.formatMemoryFile('global', this.globalMemoryCache);
+  /**
+   * 导出单个作用域的 Markdown 文件（原子写入），并记录同步时间避免被重复导入
+   */
+  private exportScope(scope: MemoryScope, owner: string): string | null {
+    const store = this.getStore();
+    const filePath = scope === 'global' ? this.getGlobalMemoryFilePath() : this.getUserMemoryFilePath(owner);
+    const entries = store.list(scope, owner).map(toMemoryEntry);
+    const content = this.formatMemoryFile(scope === 'global' ? 'global' : `用户 ${owner}`, entries);
 
     try {
       this.atomicWriteFile(filePath, content);
+      store.setMeta(`markdown:${path.relative(this.config.memoryDir, filePath)}`, String(fs.statSync(filePath).mtimeMs));
+      return filePath;
     } catch (error) {
-      logger.error({ path: filePath, error }, '保存全局记忆文件失败');
+      logger.error({ path: filePath, error }, '导出记忆文件失败');
+      return null;
     }
   }
   
@@ -1044,53 +1219,55 @@ ${conversationText}
     // 解析 Markdown 格式的记忆条目
     // 格式：### key
     //       value
+    //       <!-- meta: {"tags":[...],"confidence":0.8,...} -->（可选）
     //       <!-- created: ISO, updated: ISO -->
 
     const lines = content.split('\n');
-    let currentKey: string | null = null;
+    let current: MemoryEntry | null = null;
     let currentValue: string[] = [];
-    let currentCreated = '';
-    let currentUpdated = '';
+
+    const flush = () => {
+      if (!current) return;
+      entries.push({ ...current, value: currentValue.join('\n').trim() });
+    };
 
     for (const line of lines) {
       const keyMatch = line.match(/^### (.+)$/);
       if (keyMatch) {
-        if (currentKey) {
-          entries.push({
-            key: currentKey,
-            value: currentValue.join('\n').trim(),
-            createdAt: currentCreated || new Date().toISOString(),
-            updatedAt: currentUpdated || new Date().toISOString(),
-          });
-        }
-
-        currentKey = keyMatch[1].trim();
+        flush();
+        const now = new Date().toISOString();
+        current = { key: keyMatch[1].trim(), value: '', createdAt: now, updatedAt: now };
         currentValue = [];
-        currentCreated = '';
-        currentUpdated = '';
+        continue;
+      }
+
+      const extraMatch = line.match(/^<!-- meta: (.+) -->$/);
+      if (extraMatch && current) {
+        try {
+          const meta = JSON.parse(extraMatch[1]) as Partial<MemoryEntry>;
+          if (Array.isArray(meta.tags)) current.tags = meta.tags;
+          if (typeof meta.sourceChat === 'string') current.sourceChat = meta.sourceChat;
+          if (typeof meta.confidence === 'number') current.confidence = meta.confidence;
+          if (typeof meta.expiresAt === 'string') current.expiresAt = meta.expiresAt;
+        } catch {
+          // 元数据损坏时忽略，只导入内容
+        }
         continue;
       }
 
       const metaMatch = line.match(/<!-- created: (.+), updated: (.+) -->/);
-      if (metaMatch) {
-        currentCreated = metaMatch[1];
-        currentUpdated = metaMatch[2];
+      if (metaMatch && current) {
+        current.createdAt = metaMatch[1];
+        current.updatedAt = metaMatch[2];
         continue;
       }
 
-      if (currentKey) {
+      if (current) {
         currentValue.push(line);
       }
     }
 
-    if (currentKey) {
-      entries.push({
-        key: currentKey,
-        value: currentValue.join('\n').trim(),
-        createdAt: currentCreated || new Date().toISOString(),
-        updatedAt: currentUpdated || new Date().toISOString(),
-      });
-    }
+    flush();
 
     return entries;
   }
@@ -1098,25 +1275,41 @@ ${conversationText}
   /**
    * 格式化记忆文件
    */
-  private formatMemoryFile(groupId: string, cache: Map<string, MemoryEntry>): string {
+  private formatMemoryFile(title: string, entries: MemoryEntry[]): string {
     const lines: string[] = [
-      `# ${groupId} 的长期记忆`,
+      `# ${title} 的长期记忆`,
       '',
       `> 最后更新: ${new Date().toISOString()}`,
       '',
     ];
     
-    for (const [key, entry] of cache) {
-      lines.push(`### ${key}`);
+    for (const entry of entries) {
+      lines.push(`### ${entry.key}`);
       lines.push('');
       lines.push(entry.value);
       lines.push('');
+      const meta: Partial<MemoryEntry> = {};
+      if (entry.tags && entry.tags.length > 0) meta.tags = entry.tags;
+      if (entry.sourceChat) meta.sourceChat = entry.sourceChat;
+      if (entry.confidence !== undefined && entry.confidence !== 1) meta.confidence = entry.confidence;
+      if (entry.expiresAt) meta.expiresAt = entry.expiresAt;
+      if (Object.keys(meta).length > 0) {
+        lines.push(`<!-- meta: ${JSON.stringify(meta)} -->`);
+      }
       lines.push(`<!-- created: ${entry.createdAt}, updated: ${entry.updatedAt} -->`);
       lines.push('');
     }
     
     return lines.join('\n');
   }
+
+  /**
+   * 关闭长期记忆数据库
+   */
+  close(): void {
+    this.store?.close();
+    this.store = null;
+  }
   
   // ==================== 会话导出 ====================
   
@@ -1184,6 +1377,20 @@ ${conversationText}
   }
 }
 
+function toMemoryEntry(record: MemoryRecord): MemoryEntry {
+  return {
+    key: record.key,
+    value: record.value,
+    createdAt: record.createdAt,
+    updatedAt: record.updatedAt,
+    tags: record.tags,
+    sourceChat: record.sourceChat,
+    confidence: record.confidence,
+    expiresAt: record.expiresAt,
+    version: record.version,
+  };
+}
+
 // ==================== 工厂函数 ====================
 
 // 使用全局变量存储单例，确保 jiti 动态加载的模块也能访问同一个实例
@@ -0,0 +1,108 @@
+/**
+ * 模型价格表
+ * 用于估算 token 费用（预算控制、/usage 统计）
+ *
+ * 价格单位：美元 / 百万 token，为公开标价的参考值；
+ * 实际价格以服务商为准，可在 ~/.flashclaw/config/budgets.json 的 pricing 中覆盖。
+ */
+
+/**
+ * 模型价格定义
+ */
+export interface ModelPricing {
+  /** 模型 ID（可以是模式匹配，按顺序取第一个匹配） */
+  pattern: string | RegExp;
+  /** 输入价格（每百万 token） */
+  input: number;
+  /** 输出价格（每百万 token） */
+  output: number;
+}
+
+/**
+ * 价格覆盖（模型 ID → 价格，支持 * 通配符）
+ */
+export type PricingOverrides = Record<string, { input: number; output: number }>;
+
+/**
+ * 已知模型价格
+ * 注意：更具体的模式要放在前面（如 gpt-4o-mini 在 gpt-4o 之前）
+ */
+const MODEL_PRICING: ModelPricing[] = [
+  // Anthropic Claude 系列
+  { pattern: /opus-4|3-opus/i, input: 15, output: 75 },
+  { pattern: /sonnet/i, input: 3, output: 15 },
+  { pattern: /haiku-4/i, input: 1, output: 5 },
+  { pattern: /3-5-haiku/i, input: 0.8, output: 4 },
+  { pattern: /haiku/i, input: 0.25, output: 1.25 },
+
+  // OpenAI 系列
+  { pattern: /^gpt-4o-mini/i, input: 0.15, output: 0.6 },
+  { pattern: /^gpt-4o/i, input: 2.5, output: 10 },
+  { pattern: /^gpt-4\.1-nano/i, input: 0.1, output: 0.4 },
+  { pattern: /^gpt-4\.1-mini/i, input: 0.4, output: 1.6 },
+  { pattern: /^gpt-4\.1/i, input: 2, output: 8 },
+  { pattern: /^gpt-3\.5/i, input: 0.5, output: 1.5 },
+  { pattern: /^o4-mini|^o3-mini/i, input: 1.1, output: 4.4 },
+
+  // Google Gemini 系列
+  { pattern: /^gemini-2\.5-pro/i, input: 1.25, output: 10 },
+  { pattern: /^gemini-2\.5-flash/i, input: 0.3, output: 2.5 },
+  { pattern: /^gemini-2\.0-flash/i, input: 0.1, output: 0.4 },
+
+  // DeepSeek 系列
+  { pattern: /^deepseek-reasoner/i, input: 0.55, output: 2.19 },
+  { pattern: /^deepseek/i, input: 0.27, output: 1.1 },
+
+  // MiniMax 系列
+  { pattern: /^MiniMax-M2/i, input: 0.3, output: 1.2 },
+];
+
+function matchModel(pattern: string | RegExp, modelId: string): boolean {
+  if (pattern instanceof RegExp) {
+    return pattern.test(modelId);
+  }
+  if (pattern.includes('*')) {
+    const regexStr = pattern
+      .replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+      .replace(/\*/g, '.*');
+    return new RegExp(`^${regexStr}$`, 'i').test(modelId);
+  }
+  return pattern.toLowerCase() === modelId.toLowerCase();
+}
+
+/**
+ * 查找模型价格（先查覆盖配置，再查内置价格表）
+ * @returns 未知模型（如本地 Ollama 模型）返回 null
+ */
+export function findModelPricing(modelId: string, overrides?: PricingOverrides): { input: number; output: number } | null {
+  const normalized = modelId.trim();
+
+  if (overrides) {
+    for (const [pattern, price] of Object.entries(overrides)) {
+      if (matchModel(pattern, normalized)) {
+        return price;
+      }
+    }
+  }
+
+  for (const price of MODEL_PRICING) {
+    if (matchModel(price.pattern, normalized)) {
+      return { input: price.input, output: price.output };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * 估算一次调用的费用（未知模型按 0 计算）
+ */
+export function estimateCost(
+  modelId: string,
+  usage: { inputTokens: number; outputTokens: number },
+  overrides?: PricingOverrides
+): number {
+  const price = findModelPricing(modelId, overrides);
+  if (!price) return 0;
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+}
@@ -1,8 +1,9 @@
 import Database from 'better-sqlite3';
 import fs from 'fs';
 import path from 'path';
-import { NewMessage, ScheduledTask, TaskRunLog } from './types.js';
+import { NewMessage, MessageSearchResult, ScheduledTask, TaskRunLog, SchedulerLease, TaskClaim, AgentRunTrace, AgentDelegation, AgentRunEvent, TokenUsageRecord, TokenUsageSummary, TokenUsageBucket, SessionUsageRow, Workflow, WorkflowStep, WorkflowRun, WorkflowStepRun } from './types.js';
 import { paths } from './paths.js';
+import { buildFtsQuery, buildSnippet, segmentForFts } from './utils/fts.js';
 
 /**
  * Generic message input for storing messages from any platform
@@ -15,6 +16,8 @@ export interface MessageInput {
   content: string;
   timestamp: string;
   isFromMe: boolean;
+  /** 来源平台（feishu、telegram、web-ui 等） */
+  platform?: string;
 }
 
 // 使用全局变量存储数据库实例，确保 jiti 动态加载的插件也能访问
@@ -59,6 +62,12 @@ export function initDatabase(): void {
     );
     CREATE INDEX IF NOT EXISTS idx_timestamp ON messages(timestamp);
 
+    -- 消息全文索引（rowid = messages.rowid，CJK 逐字切分后写入，见 utils/fts.ts）
+    CREATE VIRTUAL TABLE IF NOT EXISTS messages_fts USING fts5(content, sender_name, tokenize = 'unicode61 remove_diacritics 2');
+    CREATE TRIGGER IF NOT EXISTS messages_fts_delete AFTER DELETE ON messages BEGIN
+      DELETE FROM messages_fts WHERE rowid = old.rowid;
+    END;
+
     CREATE TABLE IF NOT EXISTS scheduled_tasks (
       id TEXT PRIMARY KEY,
       group_folder TEXT NOT NULL,
@@ -86,15 +95,182 @@ export function initDatabase(): void {
       FOREIGN KEY (task_id) REFERENCES scheduled_tasks(id)
     );
     CREATE INDEX IF NOT EXISTS idx_task_run_logs ON task_run_logs(task_id, run_at);
+
+    CREATE TABLE IF NOT EXISTS scheduler_lease (
+      name TEXT PRIMARY KEY,
+      holder TEXT NOT NULL,
+      acquired_at TEXT NOT NULL,
+      heartbeat_at TEXT NOT NULL,
+      expires_at TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS task_claims (
+      task_id TEXT PRIMARY KEY,
+      holder TEXT NOT NULL,
+      claimed_at TEXT NOT NULL,
+      heartbeat_at TEXT NOT NULL,
+      expires_at TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS agent_runs (
+      id TEXT PRIMARY KEY,
+      chat_jid TEXT NOT NULL,
+      group_folder TEXT NOT NULL,
+      agent_id TEXT,
+      model TEXT NOT NULL,
+      system_prompt_hash TEXT,
+      messages TEXT,
+      status TEXT NOT NULL DEFAULT 'running',
+      result TEXT,
+      error TEXT,
+      input_tokens INTEGER,
+      output_tokens INTEGER,
+      started_at TEXT NOT NULL,
+      finished_at TEXT,
+      duration_ms INTEGER,
+      is_scheduled_task INTEGER DEFAULT 0
+    );
+    CREATE INDEX IF NOT EXISTS idx_agent_runs_chat ON agent_runs(chat_jid, started_at);
+    CREATE INDEX IF NOT EXISTS idx_agent_runs_started ON agent_runs(started_at);
+
+    CREATE TABLE IF NOT EXISTS agent_delegations (
+      id TEXT PRIMARY KEY,
+      parent_run_id TEXT,
+      root_run_id TEXT NOT NULL,
+      child_run_id TEXT,
+      parent_agent_id TEXT,
+      agent_id TEXT NOT NULL,
+      session_folder TEXT NOT NULL,
+      chat_jid TEXT NOT NULL,
+      group_folder TEXT NOT NULL,
+      depth INTEGER NOT NULL,
+      task TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'running',
+      result TEXT,
+      error TEXT,
+      input_tokens INTEGER,
+      output_tokens INTEGER,
+      started_at TEXT NOT NULL,
+      finished_at TEXT
+    );
+    CREATE INDEX IF NOT EXISTS idx_agent_delegations_parent ON agent_delegations(parent_run_id);
+    CREATE INDEX IF NOT EXISTS idx_agent_delegations_root ON agent_delegations(root_run_id);
+    CREATE INDEX IF NOT EXISTS idx_agent_delegations_child ON agent_delegations(child_run_id);
+
+    CREATE TABLE IF NOT EXISTS agent_run_events (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      run_id TEXT NOT NULL,
+      seq INTEGER NOT NULL,
+      type TEXT NOT NULL,
+      elapsed_ms INTEGER NOT NULL,
+      data TEXT,
+      FOREIGN KEY (run_id) REFERENCES agent_runs(id)
+    );
+    CREATE INDEX IF NOT EXISTS idx_agent_run_events ON agent_run_events(run_id, seq);
+
+    CREATE TABLE IF NOT EXISTS token_usage (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      chat_jid TEXT NOT NULL,
+      group_folder TEXT NOT NULL,
+      user_id TEXT,
+      provider TEXT,
+      model TEXT NOT NULL,
+      input_tokens INTEGER NOT NULL DEFAULT 0,
+      output_tokens INTEGER NOT NULL DEFAULT 0,
+      cost REAL NOT NULL DEFAULT 0,
+      created_at TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_token_usage_created ON token_usage(created_at);
+    CREATE INDEX IF NOT EXISTS idx_token_usage_group ON token_usage(group_folder, created_at);
+    CREATE INDEX IF NOT EXISTS idx_token_usage_user ON token_usage(user_id, created_at);
+
+    CREATE TABLE IF NOT EXISTS session_usage (
+      chat_jid TEXT PRIMARY KEY,
+      message_count INTEGER NOT NULL DEFAULT 0,
+      input_tokens INTEGER NOT NULL DEFAULT 0,
+      output_tokens INTEGER NOT NULL DEFAULT 0,
+      model TEXT NOT NULL,
+      started_at TEXT NOT NULL,
+      last_activity_at TEXT NOT NULL,
+      compact_suggested INTEGER NOT NULL DEFAULT 0
+    );
+
+    CREATE TABLE IF NOT EXISTS workflows (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      description TEXT,
+      group_folder TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS workflow_steps (
+      workflow_id TEXT NOT NULL,
+      id TEXT NOT NULL,
+      prompt TEXT NOT NULL,
+      on_success TEXT NOT NULL DEFAULT '[]',
+      on_failure TEXT NOT NULL DEFAULT '[]',
+      trigger_rule TEXT NOT NULL DEFAULT 'all',
+      context_mode TEXT NOT NULL DEFAULT 'isolated',
+      timeout_ms INTEGER NOT NULL DEFAULT 300000,
+      position INTEGER NOT NULL DEFAULT 0,
+      PRIMARY KEY (workflow_id, id),
+      FOREIGN KEY (workflow_id) REFERENCES workflows(id)
+    );
+
+    CREATE TABLE IF NOT EXISTS workflow_runs (
+      id TEXT PRIMARY KEY,
+      workflow_id TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'running',
+      trigger TEXT NOT NULL,
+      started_at TEXT NOT NULL,
+      finished_at TEXT,
+      error TEXT,
+      FOREIGN KEY (workflow_id) REFERENCES workflows(id)
+    );
+    CREATE INDEX IF NOT EXISTS idx_workflow_runs ON workflow_runs(workflow_id, started_at);
+
+    CREATE TABLE IF NOT EXISTS workflow_step_runs (
+      run_id TEXT NOT NULL,
+      step_id TEXT NOT NULL,
+      status TEXT NOT NULL,
+      prompt TEXT,
+      result TEXT,
+      error TEXT,
+      started_at TEXT,
+      finished_at TEXT,
+      duration_ms INTEGER,
+      PRIMARY KEY (run_id, step_id),
+      FOREIGN KEY (run_id) REFERENCES workflow_runs(id)
+    );
   `);
 
   // 数据库迁移：添加缺失的列（已存在则跳过）
   const migrations: [string, string][] = [
     ['sender_name', `ALTER TABLE messages ADD COLUMN sender_name TEXT`],
+    ['platform', `ALTER TABLE messages ADD COLUMN platform TEXT`],
     ['context_mode', `ALTER TABLE scheduled_tasks ADD COLUMN context_mode TEXT DEFAULT 'isolated'`],
     ['retry_count', `ALTER TABLE scheduled_tasks ADD COLUMN retry_count INTEGER DEFAULT 0`],
     ['max_retries', `ALTER TABLE scheduled_tasks ADD COLUMN max_retries INTEGER DEFAULT 3`],
     ['timeout_ms', `ALTER TABLE scheduled_tasks ADD COLUMN timeout_ms INTEGER DEFAULT 300000`],
+    ['kind', `ALTER TABLE scheduled_tasks ADD COLUMN kind TEXT DEFAULT 'agent'`],
+    ['workflow_id', `ALTER TABLE scheduled_tasks ADD COLUMN workflow_id TEXT`],
+    ['notify_on_failure', `ALTER TABLE scheduled_tasks ADD COLUMN notify_on_failure TEXT`],
+    ['success_streak', `ALTER TABLE scheduled_tasks ADD COLUMN success_streak INTEGER DEFAULT 0`],
+    ['failure_streak', `ALTER TABLE scheduled_tasks ADD COLUMN failure_streak INTEGER DEFAULT 0`],
+    ['failing_since', `ALTER TABLE scheduled_tasks ADD COLUMN failing_since TEXT`],
+    ['failure_notified_at', `ALTER TABLE scheduled_tasks ADD COLUMN failure_notified_at TEXT`],
+    ['catch_up_policy', `ALTER TABLE scheduled_tasks ADD COLUMN catch_up_policy TEXT`],
+    ['catch_up_max_age_minutes', `ALTER TABLE scheduled_tasks ADD COLUMN catch_up_max_age_minutes INTEGER`],
+    ['urgent', `ALTER TABLE scheduled_tasks ADD COLUMN urgent INTEGER DEFAULT 0`],
+    ['watch_config', `ALTER TABLE scheduled_tasks ADD COLUMN watch_config TEXT`],
+    ['watch_snapshot', `ALTER TABLE scheduled_tasks ADD COLUMN watch_snapshot TEXT`],
+    ['watch_hash', `ALTER TABLE scheduled_tasks ADD COLUMN watch_hash TEXT`],
+    ['watch_triggered_at', `ALTER TABLE scheduled_tasks ADD COLUMN watch_triggered_at TEXT`],
+    ['agent_id', `ALTER TABLE scheduled_tasks ADD COLUMN agent_id TEXT`],
+    ['model', `ALTER TABLE scheduled_tasks ADD COLUMN model TEXT`],
+    ['allowed_tools', `ALTER TABLE scheduled_tasks ADD COLUMN allowed_tools TEXT`],
+    ['prompt_mode', `ALTER TABLE scheduled_tasks ADD COLUMN prompt_mode TEXT`],
   ];
   
   for (const [name, sql] of migrations) {
@@ -118,6 +294,26 @@ export function initDatabase(): void {
       console.warn(`[DB Migration] idx_due_tasks: ${msg}`);
     }
   }
+
+  backfillMessageIndex(database);
+}
+
+/**
+ * 为全文索引建立之前存入的消息补建索引（仅在索引为空时执行一次）
+ */
+function backfillMessageIndex(database: Database.Database): void {
+  const indexed = database.prepare(`SELECT rowid FROM messages_fts LIMIT 1`).get();
+  if (indexed) return;
+
+  const rows = database.prepare(`SELECT rowid, content, sender_name FROM messages WHERE content IS NOT NULL`).all() as Array<{ rowid: number; content: string; sender_name: string | null }>;
+  if (rows.length === 0) return;
+
+  const insert = database.prepare(`INSERT INTO messages_fts (rowid, content, sender_name) VALUES (?, ?, ?)`);
+  database.transaction(() => {
+    for (const row of rows) {
+      insert.run(row.rowid, segmentForFts(row.content), segmentForFts(row.sender_name ?? ''));
+    }
+  })();
 }
 
 /**
@@ -194,8 +390,26 @@ export function setLastGroupSync(): void {
  * Only call this for registered groups where message history is needed.
  */
 export function storeMessage(msg: MessageInput): void {
-  getDb().prepare(`INSERT OR REPLACE INTO messages (id, chat_jid, sender, sender_name, content, timestamp, is_from_me) VALUES (?, ?, ?, ?, ?, ?, ?)`)
-    .run(msg.id, msg.chatId, msg.senderId, msg.senderName, msg.content, msg.timestamp, msg.isFromMe ? 1 : 0);
+  const db = getDb();
+  db.transaction(() => {
+    // 用 UPSERT 而非 INSERT OR REPLACE，保持 rowid 不变，全文索引才能按 rowid 更新
+    const row = db.prepare(`
+      INSERT INTO messages (id, chat_jid, sender, sender_name, content, timestamp, is_from_me, platform)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(id, chat_jid) DO UPDATE SET
+        sender = excluded.sender,
+        sender_name = excluded.sender_name,
+        content = excluded.content,
+        timestamp = excluded.timestamp,
+        is_from_me = excluded.is_from_me,
+        platform = COALESCE(excluded.platform, platform)
+      RETURNING rowid
+    `).get(msg.id, msg.chatId, msg.senderId, msg.senderName, msg.content, msg.timestamp, msg.isFromMe ? 1 : 0, msg.platform ?? null) as { rowid: number };
+
+    db.prepare(`DELETE FROM messages_fts WHERE rowid = ?`).run(row.rowid);
+    db.prepare(`INSERT INTO messages_fts (rowid, content, sender_name) VALUES (?, ?, ?)`)
+      .run(row.rowid, segmentForFts(msg.content), segmentForFts(msg.senderName ?? ''));
+  })();
 }
 
 export function getNewMessages(jids: string[], lastTimestamp: string, botPrefix: string): { messages: NewMessage[]; newTimestamp: string } {
@@ -235,8 +449,8 @@ export function createTask(task: Omit<ScheduledTask, 'last_run' | 'last_result'>
   const db = getDb();
   db.transaction(() => {
     db.prepare(`
-      INSERT INTO scheduled_tasks (id, group_folder, chat_jid, prompt, schedule_type, schedule_value, context_mode, next_run, status, created_at, retry_count, max_retries, timeout_ms)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO scheduled_tasks (id, group_folder, chat_jid, prompt, schedule_type, schedule_value, context_mode, next_run, status, created_at, retry_count, max_retries, timeout_ms, kind, workflow_id, notify_on_failure, catch_up_policy, catch_up_max_age_minutes, urgent, watch_config, agent_id, model, allowed_tools, prompt_mode)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `).run(
       task.id,
       task.group_folder,
@@ -250,7 +464,18 @@ export function createTask(task: Omit<ScheduledTask, 'last_run' | 'last_result'>
       task.created_at,
       task.retry_count ?? 0,
       task.max_retries ?? 3,
-      task.timeout_ms ?? 300000
+      task.timeout_ms ?? 300000,
+      task.kind ?? 'agent',
+      task.workflow_id ?? null,
+      task.notify_on_failure ?? null,
+      task.catch_up_policy ?? null,
+      task.catch_up_max_age_minutes ?? null,
+      task.urgent ?? 0,
+      task.watch_config ?? null,
+      task.agent_id ?? null,
+      task.model ?? null,
+      task.allowed_tools ?? null,
+      task.prompt_mode ?? null
     );
   })();
 }
@@ -267,7 +492,7 @@ export function getAllTasks(): ScheduledTask[] {
   return getDb().prepare('SELECT * FROM scheduled_tasks ORDER BY created_at DESC').all() as ScheduledTask[];
 }
 
-export function updateTask(id: string, updates: Partial<Pick<ScheduledTask, 'prompt' | 'schedule_type' | 'schedule_value' | 'next_run' | 'status' | 'retry_count' | 'max_retries' | 'timeout_ms'>>): void {
+export function updateTask(id: string, updates: Partial<Pick<ScheduledTask, 'prompt' | 'schedule_type' | 'schedule_value' | 'next_run' | 'status' | 'retry_count' | 'max_retries' | 'timeout_ms' | 'group_folder' | 'notify_on_failure' | 'failure_notified_at' | 'catch_up_policy' | 'catch_up_max_age_minutes' | 'urgent' | 'agent_id' | 'model' | 'allowed_tools' | 'prompt_mode'>>): void {
   const fields: string[] = [];
   const values: unknown[] = [];
 
@@ -279,6 +504,16 @@ export function updateTask(id: string, updates: Partial<Pick<ScheduledTask, 'pro
   if (updates.retry_count !== undefined) { fields.push('retry_count = ?'); values.push(updates.retry_count); }
   if (updates.max_retries !== undefined) { fields.push('max_retries = ?'); values.push(updates.max_retries); }
   if (updates.timeout_ms !== undefined) { fields.push('timeout_ms = ?'); values.push(updates.timeout_ms); }
+  if (updates.group_folder !== undefined) { fields.push('group_folder = ?'); values.push(updates.group_folder); }
+  if (updates.notify_on_failure !== undefined) { fields.push('notify_on_failure = ?'); values.push(updates.notify_on_failure); }
+  if (updates.failure_notified_at !== undefined) { fields.push('failure_notified_at = ?'); values.push(updates.failure_notified_at); }
+  if (updates.catch_up_policy !== undefined) { fields.push('catch_up_policy = ?'); values.push(updates.catch_up_policy); }
+  if (updates.catch_up_max_age_minutes !== undefined) { fields.push('catch_up_max_age_minutes = ?'); values.push(updates.catch_up_max_age_minutes); }
+  if (updates.urgent !== undefined) { fields.push('urgent = ?'); values.push(updates.urgent); }
+  if (updates.agent_id !== undefined) { fields.push('agent_id = ?'); values.push(updates.agent_id); }
+  if (updates.model !== undefined) { fields.push('model = ?'); values.push(updates.model); }
+  if (updates.allowed_tools !== undefined) { fields.push('allowed_tools = ?'); values.push(updates.allowed_tools); }
+  if (updates.prompt_mode !== undefined) { fields.push('prompt_mode = ?'); values.push(updates.prompt_mode); }
 
   if (fields.length === 0) return;
 
@@ -286,11 +521,24 @@ export function updateTask(id: string, updates: Partial<Pick<ScheduledTask, 'pro
   getDb().prepare(`UPDATE scheduled_tasks SET ${fields.join(', ')} WHERE id = ?`).run(...values);
 }
 
+/**
+ * 保存监控任务的检查结果
+ * @param triggeredAt 本次触发时间（未触发时不更新）
+ */
+export function updateWatchState(id: string, snapshot: string, hash: string, triggeredAt?: string): void {
+  getDb().prepare(`
+    UPDATE scheduled_tasks
+    SET watch_snapshot = ?, watch_hash = ?, watch_triggered_at = COALESCE(?, watch_triggered_at)
+    WHERE id = ?
+  `).run(snapshot, hash, triggeredAt ?? null, id);
+}
+
 export function deleteTask(id: string): void {
   const db = getDb();
   // 使用事务确保级联删除的原子性
   db.transaction(() => {
     db.prepare('DELETE FROM task_run_logs WHERE task_id = ?').run(id);
+    db.prepare('DELETE FROM task_claims WHERE task_id = ?').run(id);
     db.prepare('DELETE FROM scheduled_tasks WHERE id = ?').run(id);
   })();
 }
@@ -298,8 +546,8 @@ export function deleteTask(id: string): void {
 /**
  * 获取到期任务
  * 
- * 注意：Node.js 单线程 + better-sqlite3 同步 API 天然保证不会有并发读写竞态。
- * 调度器层面通过 running flag 防止同一任务重复执行（见 task-scheduler.ts）。
+ * 注意：Node.js 单线程 + better-sqlite3 同步 API 保证进程内不会有并发读写竞态。
+ * 多个进程共用数据库时，由调度器租约和任务认领防止同一任务重复执行（见 task-scheduler.ts）。
  */
 export function getDueTasks(): ScheduledTask[] {
   const now = new Date().toISOString();
@@ -371,11 +619,155 @@ export function updateTaskAfterRun(id: string, nextRun: string | null, lastResul
   `).run(nextRun, now, lastResult, nextRun, id);
 }
 
-export function logTaskRun(log: TaskRunLog): void {
-  getDb().prepare(`
-    INSERT INTO task_run_logs (task_id, run_at, duration_ms, status, result, error)
-    VALUES (?, ?, ?, ?, ?, ?)
-  `).run(log.task_id, log.run_at, log.duration_ms, log.status, log.result, log.error);
+// ==================== 调度器租约与任务认领 ====================
+
+const SCHEDULER_LEASE_NAME = 'scheduler';
+
+/**
+ * 获取或续期调度器租约
+ * 租约空闲、已过期或本来就由 holder 持有时成功；续期不改变 acquired_at
+ */
+export function acquireSchedulerLease(holder: string, ttlMs: number, now = new Date()): boolean {
+  const at = now.toISOString();
+  const expiresAt = new Date(now.getTime() + ttlMs).toISOString();
+  const result = getDb().prepare(`
+    INSERT INTO scheduler_lease (name, holder, acquired_at, heartbeat_at, expires_at)
+    VALUES (?, ?, ?, ?, ?)
+    ON CONFLICT(name) DO UPDATE SET
+      acquired_at = CASE WHEN scheduler_lease.holder = excluded.holder THEN scheduler_lease.acquired_at ELSE excluded.acquired_at END,
+      holder = excluded.holder,
+      heartbeat_at = excluded.heartbeat_at,
+      expires_at = excluded.expires_at
+    WHERE scheduler_lease.holder = excluded.holder OR scheduler_lease.expires_at <= excluded.heartbeat_at
+  `).run(SCHEDULER_LEASE_NAME, holder, at, at, expiresAt);
+  return result.changes > 0;
+}
+
+/**
+ * 释放调度器租约（仅持有者可释放）
+ */
+export function releaseSchedulerLease(holder: string): void {
+  getDb().prepare(`DELETE FROM scheduler_lease WHERE name = ? AND holder = ?`).run(SCHEDULER_LEASE_NAME, holder);
+}
+
+export function getSchedulerLease(): SchedulerLease | undefined {
+  return getDb().prepare(`SELECT * FROM scheduler_lease WHERE name = ?`).get(SCHEDULER_LEASE_NAME) as SchedulerLease | undefined;
+}
+
+/**
+ * 认领任务执行权
+ * 任务未被认领、认领已过期（执行者崩溃）或本来就由 holder 认领时成功
+ * @returns 是否认领成功；接管过期认领时返回原认领记录
+ */
+export function claimTask(taskId: string, holder: string, ttlMs: number, now = new Date()): { claimed: boolean; stale?: TaskClaim } {
+  const db = getDb();
+  const at = now.toISOString();
+  const expiresAt = new Date(now.getTime() + ttlMs).toISOString();
+
+  // IMMEDIATE 事务：读取和写入之间不会被其他进程插入
+  return db.transaction(() => {
+    const existing = db.prepare(`SELECT * FROM task_claims WHERE task_id = ?`).get(taskId) as TaskClaim | undefined;
+    if (existing && existing.holder !== holder && existing.expires_at > at) {
+      return { claimed: false };
+    }
+    db.prepare(`
+      INSERT OR REPLACE INTO task_claims (task_id, holder, claimed_at, heartbeat_at, expires_at)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(taskId, holder, at, at, expiresAt);
+    return existing && existing.holder !== holder ? { claimed: true, stale: existing } : { claimed: true };
+  }).immediate();
+}
+
+/**
+ * 续期 holder 持有的所有任务认领
+ * @returns 续期的认领数量
+ */
+export function heartbeatTaskClaims(holder: string, ttlMs: number, now = new Date()): number {
+  const expiresAt = new Date(now.getTime() + ttlMs).toISOString();
+  return getDb().prepare(`
+    UPDATE task_claims SET heartbeat_at = ?, expires_at = ? WHERE holder = ?
+  `).run(now.toISOString(), expiresAt, holder).changes;
+}
+
+/**
+ * 释放任务认领（仅认领者可释放）
+ */
+export function releaseTaskClaim(taskId: string, holder: string): void {
+  getDb().prepare(`DELETE FROM task_claims WHERE task_id = ? AND holder = ?`).run(taskId, holder);
+}
+
+export function getTaskClaims(): TaskClaim[] {
+  return getDb().prepare(`SELECT * FROM task_claims ORDER BY claimed_at`).all() as TaskClaim[];
+}
+
+/**
+ * 截断过长的运行输出（保留开头，并注明原始长度）
+ */
+function limitRunOutput(text: string | null, maxChars: number | undefined): string | null {
+  if (text === null || !maxChars || text.length <= maxChars) return text;
+  return `${text.slice(0, maxChars)}\n...(输出已截断，原始 ${text.length} 字符)`;
+}
+
+/**
+ * 记录任务运行
+ * @param options.maxOutputChars 结果/错误超过该长度时截断
+ * @param options.keepPerTask 只保留该任务最近的 n 条记录
+ */
+export function logTaskRun(log: TaskRunLog, options: { maxOutputChars?: number; keepPerTask?: number } = {}): void {
+  const db = getDb();
+  db.transaction(() => {
+    db.prepare(`
+      INSERT INTO task_run_logs (task_id, run_at, duration_ms, status, result, error)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(
+      log.task_id,
+      log.run_at,
+      log.duration_ms,
+      log.status,
+      limitRunOutput(log.result, options.maxOutputChars),
+      limitRunOutput(log.error, options.maxOutputChars)
+    );
+    if (options.keepPerTask && options.keepPerTask > 0) {
+      db.prepare(`
+        DELETE FROM task_run_logs
+        WHERE task_id = ? AND id NOT IN (
+          SELECT id FROM task_run_logs WHERE task_id = ? ORDER BY run_at DESC, id DESC LIMIT ?
+        )
+      `).run(log.task_id, log.task_id, options.keepPerTask);
+    }
+  })();
+}
+
+/**
+ * 更新任务的连续成功/失败次数（成功时同时清除本轮失败通知状态）
+ * @returns 更新后的任务
+ */
+export function recordTaskOutcome(id: string, success: boolean, at: string): ScheduledTask | undefined {
+  const db = getDb();
+  if (success) {
+    db.prepare(`
+      UPDATE scheduled_tasks
+      SET success_streak = COALESCE(success_streak, 0) + 1, failure_streak = 0,
+          failing_since = NULL, failure_notified_at = NULL
+      WHERE id = ?
+    `).run(id);
+  } else {
+    db.prepare(`
+      UPDATE scheduled_tasks
+      SET failure_streak = COALESCE(failure_streak, 0) + 1, success_streak = 0,
+          failing_since = COALESCE(failing_since, ?)
+      WHERE id = ?
+    `).run(at, id);
+  }
+  return getTaskById(id);
+}
+
+/**
+ * 删除早于 cutoff 的任务运行记录
+ * @returns 删除的记录数
+ */
+export function deleteTaskRunLogsBefore(cutoff: string): number {
+  return getDb().prepare('DELETE FROM task_run_logs WHERE run_at < ?').run(cutoff).changes;
 }
 
 export function getTaskRunLogs(taskId: string, limit = 10): TaskRunLog[] {
@@ -388,6 +780,459 @@ export function getTaskRunLogs(taskId: string, limit = 10): TaskRunLog[] {
   `).all(taskId, limit) as TaskRunLog[];
 }
 
+// ==================== 工作流 ====================
+
+/**
+ * 保存工作流定义（同 ID 时替换全部步骤）
+ */
+export function saveWorkflow(workflow: Workflow, steps: WorkflowStep[]): void {
+  const db = getDb();
+  const insertStep = db.prepare(`
+    INSERT INTO workflow_steps (workflow_id, id, prompt, on_success, on_failure, trigger_rule, context_mode, timeout_ms, position)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  db.transaction(() => {
+    db.prepare(`
+      INSERT INTO workflows (id, name, description, group_folder, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT(id) DO UPDATE SET
+        name = excluded.name,
+        description = excluded.description,
+        group_folder = excluded.group_folder,
+        updated_at = excluded.updated_at
+    `).run(workflow.id, workflow.name, workflow.description, workflow.group_folder, workflow.created_at, workflow.updated_at);
+    db.prepare('DELETE FROM workflow_steps WHERE workflow_id = ?').run(workflow.id);
+    for (const step of steps) {
+      insertStep.run(
+        workflow.id,
+        step.id,
+        step.prompt,
+        step.on_success,
+        step.on_failure,
+        step.trigger_rule,
+        step.context_mode,
+        step.timeout_ms,
+        step.position
+      );
+    }
+  })();
+}
+
+export function getWorkflow(id: string): Workflow | undefined {
+  return getDb().prepare('SELECT * FROM workflows WHERE id = ?').get(id) as Workflow | undefined;
+}
+
+export function getAllWorkflows(): Workflow[] {
+  return getDb().prepare('SELECT * FROM workflows ORDER BY created_at DESC').all() as Workflow[];
+}
+
+export function getWorkflowSteps(workflowId: string): WorkflowStep[] {
+  return getDb().prepare('SELECT * FROM workflow_steps WHERE workflow_id = ? ORDER BY position').all(workflowId) as WorkflowStep[];
+}
+
+/**
+ * 获取触发工作流的定时任务
+ */
+export function getWorkflowTask(workflowId: string): ScheduledTask | undefined {
+  return getDb().prepare(`SELECT * FROM scheduled_tasks WHERE kind = 'workflow' AND workflow_id = ?`).get(workflowId) as ScheduledTask | undefined;
+}
+
+/**
+ * 删除工作流及其步骤、运行记录和触发任务
+ */
+export function deleteWorkflow(id: string): void {
+  const db = getDb();
+  db.transaction(() => {
+    db.prepare(`
+      DELETE FROM workflow_step_runs
+      WHERE run_id IN (SELECT id FROM workflow_runs WHERE workflow_id = ?)
+    `).run(id);
+    db.prepare('DELETE FROM workflow_runs WHERE workflow_id = ?').run(id);
+    db.prepare('DELETE FROM workflow_steps WHERE workflow_id = ?').run(id);
+    db.prepare(`
+      DELETE FROM task_run_logs
+      WHERE task_id IN (SELECT id FROM scheduled_tasks WHERE kind = 'workflow' AND workflow_id = ?)
+    `).run(id);
+    db.prepare(`DELETE FROM scheduled_tasks WHERE kind = 'workflow' AND workflow_id = ?`).run(id);
+    db.prepare('DELETE FROM workflows WHERE id = ?').run(id);
+  })();
+}
+
+export function createWorkflowRun(run: Pick<WorkflowRun, 'id' | 'workflow_id' | 'trigger' | 'started_at'>): void {
+  getDb().prepare(`
+    INSERT INTO workflow_runs (id, workflow_id, status, trigger, started_at)
+    VALUES (?, ?, 'running', ?, ?)
+  `).run(run.id, run.workflow_id, run.trigger, run.started_at);
+}
+
+export function finishWorkflowRun(id: string, status: WorkflowRun['status'], error: string | null): void {
+  getDb().prepare(`
+    UPDATE workflow_runs SET status = ?, error = ?, finished_at = ? WHERE id = ?
+  `).run(status, error, new Date().toISOString(), id);
+}
+
+export function saveWorkflowStepRun(stepRun: WorkflowStepRun): void {
+  getDb().prepare(`
+    INSERT INTO workflow_step_runs (run_id, step_id, status, prompt, result, error, started_at, finished_at, duration_ms)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(run_id, step_id) DO UPDATE SET
+      status = excluded.status,
+      prompt = excluded.prompt,
+      result = excluded.result,
+      error = excluded.error,
+      started_at = excluded.started_at,
+      finished_at = excluded.finished_at,
+      duration_ms = excluded.duration_ms
+  `).run(
+    stepRun.run_id,
+    stepRun.step_id,
+    stepRun.status,
+    stepRun.prompt,
+    stepRun.result,
+    stepRun.error,
+    stepRun.started_at,
+    stepRun.finished_at,
+    stepRun.duration_ms
+  );
+}
+
+export function getWorkflowRun(id: string): WorkflowRun | undefined {
+  return getDb().prepare('SELECT * FROM workflow_runs WHERE id = ?').get(id) as WorkflowRun | undefined;
+}
+
+export function getWorkflowRuns(workflowId: string, limit = 10): WorkflowRun[] {
+  return getDb().prepare(`
+    SELECT * FROM workflow_runs
+    WHERE workflow_id = ?
+    ORDER BY started_at DESC
+    LIMIT ?
+  `).all(workflowId, limit) as WorkflowRun[];
+}
+
+export function getWorkflowStepRuns(runId: string): WorkflowStepRun[] {
+  return getDb().prepare('SELECT * FROM workflow_step_runs WHERE run_id = ?').all(runId) as WorkflowStepRun[];
+}
+
+// ==================== Agent 运行追踪 ====================
+
+export function createAgentRun(run: Pick<AgentRunTrace, 'id' | 'chat_jid' | 'group_folder' | 'agent_id' | 'model' | 'system_prompt_hash' | 'messages' | 'started_at' | 'is_scheduled_task'>): void {
+  getDb().prepare(`
+    INSERT INTO agent_runs (id, chat_jid, group_folder, agent_id, model, system_prompt_hash, messages, status, started_at, is_scheduled_task)
+    VALUES (?, ?, ?, ?, ?, ?, ?, 'running', ?, ?)
+  `).run(
+    run.id,
+    run.chat_jid,
+    run.group_folder,
+    run.agent_id,
+    run.model,
+    run.system_prompt_hash,
+    run.messages,
+    run.started_at,
+    run.is_scheduled_task
+  );
+}
+
+/**
+ * 结束运行并批量写入事件
+ */
+export function finishAgentRun(
+  id: string,
+  outcome: Pick<AgentRunTrace, 'status' | 'result' | 'error' | 'input_tokens' | 'output_tokens' | 'finished_at' | 'duration_ms'>,
+  events: AgentRunEvent[]
+): void {
+  const db = getDb();
+  const insertEvent = db.prepare(`
+    INSERT INTO agent_run_events (run_id, seq, type, elapsed_ms, data)
+    VALUES (?, ?, ?, ?, ?)
+  `);
+  db.transaction(() => {
+    for (const event of events) {
+      insertEvent.run(event.run_id, event.seq, event.type, event.elapsed_ms, event.data);
+    }
+    db.prepare(`
+      UPDATE agent_runs
+      SET status = ?, result = ?, error = ?, input_tokens = ?, output_tokens = ?, finished_at = ?, duration_ms = ?
+      WHERE id = ?
+    `).run(
+      outcome.status,
+      outcome.result,
+      outcome.error,
+      outcome.input_tokens,
+      outcome.output_tokens,
+      outcome.finished_at,
+      outcome.duration_ms,
+      id
+    );
+  })();
+}
+
+export function getAgentRun(id: string): AgentRunTrace | undefined {
+  return getDb().prepare('SELECT * FROM agent_runs WHERE id = ?').get(id) as AgentRunTrace | undefined;
+}
+
+/**
+ * 按 ID 片段查找运行记录（CLI 中可以只输入末尾几位）
+ */
+export function findAgentRuns(idFragment: string, limit = 10): AgentRunTrace[] {
+  return getDb().prepare(`
+    SELECT * FROM agent_runs
+    WHERE id LIKE ? ESCAPE '\\'
+    ORDER BY started_at DESC
+    LIMIT ?
+  `).all(`%${idFragment.replace(/[\\%_]/g, '\\$&')}%`, limit) as AgentRunTrace[];
+}
+
+export function getAgentRunEvents(runId: string): AgentRunEvent[] {
+  return getDb().prepare(`
+    SELECT run_id, seq, type, elapsed_ms, data
+    FROM agent_run_events
+    WHERE run_id = ?
+    ORDER BY seq
+  `).all(runId) as AgentRunEvent[];
+}
+
+export function getRecentAgentRuns(limit = 20, chatJid?: string): AgentRunTrace[] {
+  if (chatJid) {
+    return getDb().prepare(`
+      SELECT * FROM agent_runs
+      WHERE chat_jid = ?
+      ORDER BY started_at DESC
+      LIMIT ?
+    `).all(chatJid, limit) as AgentRunTrace[];
+  }
+  return getDb().prepare(`
+    SELECT * FROM agent_runs
+    ORDER BY started_at DESC
+    LIMIT ?
+  `).all(limit) as AgentRunTrace[];
+}
+
+/**
+ * 删除指定时间之前的运行记录
+ * @returns 删除的运行数量
+ */
+export function deleteAgentRunsBefore(beforeIso: string): number {
+  const db = getDb();
+  let deleted = 0;
+  db.transaction(() => {
+    db.prepare(`
+      DELETE FROM agent_run_events
+      WHERE run_id IN (SELECT id FROM agent_runs WHERE started_at < ?)
+    `).run(beforeIso);
+    deleted = db.prepare('DELETE FROM agent_runs WHERE started_at < ?').run(beforeIso).changes;
+    db.prepare('DELETE FROM agent_delegations WHERE started_at < ?').run(beforeIso);
+  })();
+  return deleted;
+}
+
+// ==================== 子 Agent 委派 ====================
+
+export function createDelegation(delegation: Pick<AgentDelegation, 'id' | 'parent_run_id' | 'root_run_id' | 'parent_agent_id' | 'agent_id' | 'session_folder' | 'chat_jid' | 'group_folder' | 'depth' | 'task' | 'started_at'>): void {
+  getDb().prepare(`
+    INSERT INTO agent_delegations (id, parent_run_id, root_run_id, parent_agent_id, agent_id, session_folder, chat_jid, group_folder, depth, task, status, started_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'running', ?)
+  `).run(
+    delegation.id,
+    delegation.parent_run_id,
+    delegation.root_run_id,
+    delegation.parent_agent_id,
+    delegation.agent_id,
+    delegation.session_folder,
+    delegation.chat_jid,
+    delegation.group_folder,
+    delegation.depth,
+    delegation.task,
+    delegation.started_at
+  );
+}
+
+export function finishDelegation(
+  id: string,
+  outcome: Pick<AgentDelegation, 'status' | 'child_run_id' | 'result' | 'error' | 'input_tokens' | 'output_tokens' | 'finished_at'>
+): void {
+  getDb().prepare(`
+    UPDATE agent_delegations
+    SET status = ?, child_run_id = ?, result = ?, error = ?, input_tokens = ?, output_tokens = ?, finished_at = ?
+    WHERE id = ?
+  `).run(
+    outcome.status,
+    outcome.child_run_id,
+    outcome.result,
+    outcome.error,
+    outcome.input_tokens,
+    outcome.output_tokens,
+    outcome.finished_at,
+    id
+  );
+}
+
+export function getDelegation(id: string): AgentDelegation | undefined {
+  return getDb().prepare('SELECT * FROM agent_delegations WHERE id = ?').get(id) as AgentDelegation | undefined;
+}
+
+/**
+ * 获取某次运行直接发起的委派
+ */
+export function getChildDelegations(parentRunId: string): AgentDelegation[] {
+  return getDb().prepare(`
+    SELECT * FROM agent_delegations WHERE parent_run_id = ? ORDER BY started_at
+  `).all(parentRunId) as AgentDelegation[];
+}
+
+/**
+ * 统计一棵委派树已消耗的 token
+ */
+export function sumDelegationTokens(rootRunId: string): number {
+  const row = getDb().prepare(`
+    SELECT COALESCE(SUM(COALESCE(input_tokens, 0) + COALESCE(output_tokens, 0)), 0) AS tokens
+    FROM agent_delegations WHERE root_run_id = ?
+  `).get(rootRunId) as { tokens: number };
+  return row.tokens;
+}
+
+// ==================== Token 用量 ====================
+
+export function logTokenUsage(record: TokenUsageRecord): void {
+  getDb().prepare(`
+    INSERT INTO token_usage (chat_jid, group_folder, user_id, provider, model, input_tokens, output_tokens, cost, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    record.chat_jid,
+    record.group_folder,
+    record.user_id,
+    record.provider,
+    record.model,
+    record.input_tokens,
+    record.output_tokens,
+    record.cost,
+    record.created_at
+  );
+}
+
+export interface TokenUsageFilter {
+  groupFolder?: string;
+  userId?: string;
+  chatJid?: string;
+  /** 截止时间（不含） */
+  until?: string;
+}
+
+function buildUsageWhere(since: string, filter: TokenUsageFilter): { where: string; params: string[] } {
+  const conditions = ['created_at >= ?'];
+  const params = [since];
+  if (filter.until) {
+    conditions.push('created_at < ?');
+    params.push(filter.until);
+  }
+  if (filter.chatJid) {
+    conditions.push('chat_jid = ?');
+    params.push(filter.chatJid);
+  }
+  if (filter.groupFolder) {
+    conditions.push('group_folder = ?');
+    params.push(filter.groupFolder);
+  }
+  if (filter.userId) {
+    conditions.push('user_id = ?');
+    params.push(filter.userId);
+  }
+  return { where: conditions.join(' AND '), params };
+}
+
+/**
+ * 统计指定时间之后的 token 和费用合计
+ */
+export function sumTokenUsage(since: string, filter: TokenUsageFilter = {}): { tokens: number; cost: number } {
+  const { where, params } = buildUsageWhere(since, filter);
+  const row = getDb().prepare(`
+    SELECT COALESCE(SUM(input_tokens + output_tokens), 0) AS tokens, COALESCE(SUM(cost), 0) AS cost
+    FROM token_usage
+    WHERE ${where}
+  `).get(...params) as { tokens: number; cost: number };
+  return row;
+}
+
+/**
+ * 按模型汇总指定时间之后的用量
+ */
+export function getTokenUsageByModel(since: string, filter: TokenUsageFilter = {}): TokenUsageSummary[] {
+  const { where, params } = buildUsageWhere(since, filter);
+  return getDb().prepare(`
+    SELECT model, COUNT(*) AS requests, SUM(input_tokens) AS input_tokens, SUM(output_tokens) AS output_tokens, SUM(cost) AS cost
+    FROM token_usage
+    WHERE ${where}
+    GROUP BY model
+    ORDER BY cost DESC, input_tokens + output_tokens DESC
+  `).all(...params) as TokenUsageSummary[];
+}
+
+const USAGE_GROUP_COLUMNS = {
+  day: `date(created_at, 'localtime')`,
+  group: 'group_folder',
+  provider: `COALESCE(provider, '')`,
+} as const;
+
+/**
+ * 按日期 / 群组 / Provider 汇总用量（日期按服务器本地时间）
+ */
+export function getTokenUsageGrouped(
+  since: string,
+  groupBy: keyof typeof USAGE_GROUP_COLUMNS,
+  filter: TokenUsageFilter = {}
+): TokenUsageBucket[] {
+  const { where, params } = buildUsageWhere(since, filter);
+  const column = USAGE_GROUP_COLUMNS[groupBy];
+  return getDb().prepare(`
+    SELECT ${column} AS key, COUNT(*) AS requests, SUM(input_tokens) AS input_tokens, SUM(output_tokens) AS output_tokens, SUM(cost) AS cost
+    FROM token_usage
+    WHERE ${where}
+    GROUP BY key
+    ORDER BY key
+  `).all(...params) as TokenUsageBucket[];
+}
+
+// ==================== 会话用量 ====================
+
+export function saveSessionUsage(row: SessionUsageRow): void {
+  getDb().prepare(`
+    INSERT INTO session_usage (chat_jid, message_count, input_tokens, output_tokens, model, started_at, last_activity_at, compact_suggested)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(chat_jid) DO UPDATE SET
+      message_count = excluded.message_count,
+      input_tokens = excluded.input_tokens,
+      output_tokens = excluded.output_tokens,
+      model = excluded.model,
+      started_at = excluded.started_at,
+      last_activity_at = excluded.last_activity_at,
+      compact_suggested = excluded.compact_suggested
+  `).run(
+    row.chat_jid,
+    row.message_count,
+    row.input_tokens,
+    row.output_tokens,
+    row.model,
+    row.started_at,
+    row.last_activity_at,
+    row.compact_suggested
+  );
+}
+
+export function getAllSessionUsage(): SessionUsageRow[] {
+  return getDb().prepare('SELECT * FROM session_usage').all() as SessionUsageRow[];
+}
+
+export function deleteSessionUsage(chatJid: string): void {
+  getDb().prepare('DELETE FROM session_usage WHERE chat_jid = ?').run(chatJid);
+}
+
+/**
+ * 删除指定时间之前无活动的会话
+ * @returns 删除的会话数量
+ */
+export function deleteSessionUsageBefore(beforeIso: string): number {
+  return getDb().prepare('DELETE FROM session_usage WHERE last_activity_at < ?').run(beforeIso).changes;
+}
+
 /**
  * 获取聊天历史记录（用于上下文）
  * @param chatJid 聊天 ID
@@ -414,6 +1259,82 @@ export function getChatHistory(chatJid: string, limit = 50, beforeTimestamp?: st
   `).all(chatJid, limit).reverse() as NewMessage[];
 }
 
+export interface MessageSearchFilter {
+  /** 只搜索指定会话 */
+  chatJid?: string;
+  /** 只搜索这些会话（与 chatJid 同时提供时取 chatJid） */
+  chatJids?: string[];
+  /** 发送者 ID 或名称（名称模糊匹配） */
+  sender?: string;
+  /** 起始时间（含） */
+  since?: string;
+  /** 截止时间（不含） */
+  until?: string;
+  /** 来源平台 */
+  platform?: string;
+  /** 最大返回条数（默认 20） */
+  limit?: number;
+}
+
+/**
+ * 全文搜索聊天记录（中文按字切分、二元组短语匹配）
+ * 优先要求所有检索词都命中，没有结果时放宽为任一命中；按相关度、时间倒序排列
+ */
+export function searchMessages(query: string, filter: MessageSearchFilter = {}): MessageSearchResult[] {
+  // 斜杠命令（包括 /search 本身）不参与搜索
+  const conditions: string[] = [`m.content NOT LIKE '/%'`];
+  const params: unknown[] = [];
+
+  if (filter.chatJid) {
+    conditions.push('m.chat_jid = ?');
+    params.push(filter.chatJid);
+  } else if (filter.chatJids) {
+    if (filter.chatJids.length === 0) return [];
+    conditions.push(`m.chat_jid IN (${filter.chatJids.map(() => '?').join(', ')})`);
+    params.push(...filter.chatJids);
+  }
+  if (filter.sender) {
+    conditions.push('(m.sender = ? OR m.sender_name LIKE ?)');
+    params.push(filter.sender, `%${filter.sender}%`);
+  }
+  if (filter.since) {
+    conditions.push('m.timestamp >= ?');
+    params.push(filter.since);
+  }
+  if (filter.until) {
+    conditions.push('m.timestamp < ?');
+    params.push(filter.until);
+  }
+  if (filter.platform) {
+    conditions.push('m.platform = ?');
+    params.push(filter.platform);
+  }
+
+  const statement = getDb().prepare(`
+    SELECT m.id, m.chat_jid, m.sender, m.sender_name, m.content, m.timestamp, m.platform, c.name AS chat_name
+    FROM messages_fts
+    JOIN messages m ON m.rowid = messages_fts.rowid
+    LEFT JOIN chats c ON c.jid = m.chat_jid
+    WHERE messages_fts MATCH ? AND ${conditions.join(' AND ')}
+    ORDER BY bm25(messages_fts), m.timestamp DESC
+    LIMIT ?
+  `);
+
+  const limit = filter.limit ?? 20;
+  let previous: string | null = null;
+  for (const matchAll of [true, false]) {
+    const ftsQuery = buildFtsQuery(query, { matchAll });
+    if (!ftsQuery) return [];
+    if (ftsQuery === previous) break;
+    previous = ftsQuery;
+    const rows = statement.all(ftsQuery, ...params, limit) as Array<Omit<MessageSearchResult, 'snippet'>>;
+    if (rows.length > 0) {
+      return rows.map(row => ({ ...row, snippet: buildSnippet(row.content, query) }));
+    }
+  }
+  return [];
+}
+
 /**
  * 获取消息统计
  */
@@ -50,7 +50,8 @@ import {
   MESSAGE_QUEUE_MAX_SIZE,
   MESSAGE_QUEUE_MAX_CONCURRENT,
   MESSAGE_QUEUE_PROCESSING_TIMEOUT_MS,
-  MESSAGE_QUEUE_MAX_RETRIES
+  MESSAGE_QUEUE_MAX_RETRIES,
+  STREAM_REPLY_TOOL_PROGRESS
 } from './config.js';
 import { RegisteredGroup, Session } from './types.js';
 import {
@@ -63,13 +64,19 @@ import {
   getAllTasks,
   getAllChats
 } from './db.js';
-import { startSchedulerLoop, stopScheduler, wake } from './task-scheduler.js';
+import { startSchedulerLoop, stopScheduler, triggerWorkflow, wake, pruneTaskRunLogs } from './task-scheduler.js';
+import { parseQuietHours } from './task-policy.js';
+import { ensureMemoryConsolidationTask } from './memory-consolidation.js';
 import { startHealthServer, stopHealthServer } from './health.js';
 import { runAgent, writeTasksSnapshot, writeGroupsSnapshot, AvailableGroup, AgentRunMetrics } from './agent-runner.js';
 import { loadJson, saveJson } from './utils.js';
 import { MessageQueue, QueuedMessage } from './message-queue.js';
+import { StreamingReply } from './stream-reply.js';
+import { matchWildcard } from './agent-routing.js';
+import { pruneRunTraces } from './run-trace.js';
+import { setApprovalNotifier, clearPendingApprovals, type ApprovalNotifier } from './tool-approval.js';
 import { isCommand, handleCommand, CommandContext, shouldSuggestCompact, getCompactSuggestion } from './commands.js';
-import { getSessionStats as getTrackerStats, resetSession as resetTrackerSession, checkCompactThreshold, getContextWindowSize, shutdownSessionTracker } from './session-tracker.js';
+import { getSessionStats as getTrackerStats, resetSession as resetTrackerSession, checkCompactThreshold, getContextWindowSize, initSessionTracker, shutdownSessionTracker } from './session-tracker.js';
 import Database from 'better-sqlite3';
 
 // 声明全局数据库变量类型（与 db.ts 保持一致）
@@ -173,6 +180,22 @@ function getAvailableGroups(): AvailableGroup[] {
 }
 
 // ==================== 消息处理 ====================
+/**
+ * 判断发送者是否在群组的允许名单中
+ * 名单项可加 "<平台>:" 前缀只对该渠道生效（如 "email:*@example.com"），不带前缀的对所有渠道生效；
+ * 没有适用于当前渠道的名单项时不限制
+ */
+export function isSenderAllowed(group: Pick<RegisteredGroup, 'allowedSenders'>, senderId: string, platform?: string): boolean {
+  const patterns = (group.allowedSenders ?? []).flatMap(entry => {
+    const scoped = entry.match(/^([a-z][\w-]*):(.+)$/i);
+    if (!scoped) return [entry];
+    return scoped[1].toLowerCase() === platform?.toLowerCase() ? [scoped[2]] : [];
+  });
+  if (patterns.length === 0) return true;
+  const sender = senderId.toLowerCase();
+  return patterns.some(pattern => matchWildcard(pattern.toLowerCase(), sender));
+}
+
 /**
  * 判断是否应该触发 Agent
  */
@@ -434,6 +457,14 @@ async function processQueuedMessage(queuedMsg: QueuedMessage<Message>): Promise<
     imageCount: imageAttachments.length
   }, '⚡ 处理消息');
 
+  // 流式回复：渠道支持编辑消息时，随生成逐步更新同一条回复
+  const streamingOptions = channelManager.getStreamingOptions(msg.platform);
+  const stream = streamingOptions ? new StreamingReply({
+    send: async (text) => (await channelManager.sendMessage(chatId, text, msg.platform)).messageId,
+    update: (messageId, text) => channelManager.updateMessage(messageId, text, msg.platform),
+    remove: (messageId) => channelManager.deleteMessage(messageId, msg.platform),
+  }, { ...streamingOptions, prefix: `${BOT_NAME}: `, toolProgress: STREAM_REPLY_TOOL_PROGRESS }) : null;
+
   // "正在思考..." 提示功能
   let placeholderMessageId: string | undefined;
   let thinkingDone = false;
@@ -441,6 +472,12 @@ async function processQueuedMessage(queuedMsg: QueuedMessage<Message>): Promise<
   // 设置定时器，超过阈值时发送"正在思考..."
   const thinkingTimer = THINKING_THRESHOLD_MS > 0 ? setTimeout(async () => {
     if (thinkingDone) return;
+    if (stream) {
+      stream.setStatus('正在思考...');
+      return;
+    }
+    // 不能编辑消息的渠道（如邮件）不发占位消息，否则会多出一条"正在思考..."
+    if (!channelManager.supportsMessageUpdate(msg.platform)) return;
     try {
       const result = await channelManager.sendMessage(chatId, `${BOT_NAME}: 正在思考...`, msg.platform);
       if (result.success && result.messageId) {
@@ -456,7 +493,10 @@ async function processQueuedMessage(queuedMsg: QueuedMessage<Message>): Promise<
     const agentResult = await executeAgent(group, prompt, chatId, {
       attachments: imageAttachments.length > 0 ? imageAttachments : undefined,
       userId: msg.senderId,  // 传递用户 ID 用于用户级别记忆
-      platform: msg.platform
+      platform: msg.platform,
+      messageText: msg.content,
+      onToken: stream ? (text) => stream.push(text) : undefined,
+      onToolUse: stream ? (name) => stream.toolUse(name) : undefined
     });
     const response = agentResult.result;
     thinkingDone = true;
@@ -473,8 +513,12 @@ async function processQueuedMessage(queuedMsg: QueuedMessage<Message>): Promise<
       
       const finalText = `${BOT_NAME}: ${response}`;
       
-      // 如果有占位消息，更新它；否则发送新消息
-      if (placeholderMessageId) {
+      // 流式回复以最终内容校正预览消息；否则更新占位消息或发送新消息
+      if (stream) {
+        if (!(await stream.finish(response))) {
+          await sendMessage(chatId, finalText, msg.platform);
+        }
+      } else if (placeholderMessageId) {
         try {
           await channelManager.updateMessage(placeholderMessageId, finalText, msg.platform);
           logger.info({ chatId, messageId: placeholderMessageId }, '⚡ 消息已更新');
@@ -492,6 +536,11 @@ async function processQueuedMessage(queuedMsg: QueuedMessage<Message>): Promise<
         await sendMessage(chatId, finalText, msg.platform);
       }
       
+      // 预算告警（用量首次超过告警阈值）
+      for (const warning of agentResult.warnings ?? []) {
+        await sendMessage(chatId, warning, msg.platform);
+      }
+
       // 检查是否需要提示用户压缩会话（70% 阈值）
       const usagePercent = checkCompactThreshold(chatId);
       if (usagePercent !== null) {
@@ -502,6 +551,8 @@ async function processQueuedMessage(queuedMsg: QueuedMessage<Message>): Promise<
           logger.info({ chatId, usagePercent }, '⚠️ 上下文使用率提示已发送');
         }
       }
+    } else if (stream) {
+      await stream.discard();
     } else if (placeholderMessageId) {
       // 没有响应，删除占位消息
       try {
@@ -550,8 +601,12 @@ async function processQueuedMessage(queuedMsg: QueuedMessage<Message>): Promise<
 
     const errorText = `${BOT_NAME}: ❌ ${errorDisplay}`;
 
-    // 更新占位消息或发送新消息
-    if (placeholderMessageId) {
+    // 替换流式预览、更新占位消息或发送新消息
+    if (stream) {
+      if (!(await stream.finish(`❌ ${errorDisplay}`))) {
+        await sendMessage(chatId, errorText, msg.platform);
+      }
+    } else if (placeholderMessageId) {
       try {
         await channelManager.updateMessage(placeholderMessageId, errorText, msg.platform);
       } catch (updateErr) {
@@ -583,11 +638,18 @@ async function handleIncomingMessage(msg: Message): Promise<void> {
 
   // 获取群组配置
   let group = registeredGroups[chatId];
+
+  // 发送者名单检查（未注册的会话按 main 群组中适用于该渠道的名单检查，陌生人不会触发自动注册）
+  const mainGroup = Object.values(registeredGroups).find(g => g.folder === MAIN_GROUP_FOLDER);
+  const senderPolicy = group ?? mainGroup;
+  if (senderPolicy && !isSenderAllowed(senderPolicy, msg.senderId, msg.platform)) {
+    logger.warn({ chatId, senderId: msg.senderId, platform: msg.platform }, '发送者不在允许名单中，忽略');
+    return;
+  }
   
   // 自动注册新会话（参考 openclaw 的动态 session key 设计）
   if (!group) {
-    // 查找 main 群组配置作为模板
-    const mainGroup = Object.values(registeredGroups).find(g => g.folder === MAIN_GROUP_FOLDER);
+    // 使用 main 群组配置作为模板
     if (mainGroup) {
       // 根据聊天类型生成名称和文件夹
       const chatName = msg.chatType === 'p2p' 
@@ -641,7 +703,8 @@ async function handleIncomingMessage(msg: Message): Promise<void> {
     senderName: msg.senderName,
     content: msg.content,
     timestamp: msg.timestamp,
-    isFromMe: false
+    isFromMe: false,
+    platform: msg.platform
   });
 
   // 检查触发条件
@@ -672,12 +735,12 @@ async function handleIncomingMessage(msg: Message): Promise<void> {
             startedAt: trackerStats.startedAt
           };
         }
-        // 回退到历史记录（服务重启后 tracker 数据会丢失）
+        // 回退到历史记录（该会话尚未产生 token 统计）
         const history = getChatHistory(chatId, 1000);
         const model = DEFAULT_AI_MODEL;
         return {
           messageCount: history.length,
-          tokenCount: 0, // 服务重启后需要重新统计
+          tokenCount: 0, // 尚无 token 统计
           maxTokens: getContextWindowSize(model),
           model,
           startedAt: history.length > 0 ? history[0].timestamp : undefined
@@ -695,13 +758,17 @@ async function handleIncomingMessage(msg: Message): Promise<void> {
         // 获取该会话的任务
         const tasks = getAllTasks();
         return tasks
+          .filter(t => t.kind !== 'memory-consolidation')
           .filter(t => t.chat_jid === chatId || group.folder === MAIN_GROUP_FOLDER)
           .map(t => ({
             id: t.id,
             prompt: t.prompt,
             scheduleType: t.schedule_type,
             nextRun: t.next_run || undefined,
-            status: t.status
+            status: t.status,
+            successStreak: t.success_streak,
+            failureStreak: t.failure_streak,
+            failingSince: t.failing_since || undefined
           }));
       },
       compactSession: async () => {
@@ -798,14 +865,17 @@ interface ExecuteAgentOptions {
   attachments?: { type: 'image'; content: string; mimeType?: string }[];
   userId?: string;  // 用户 ID，用于用户级别记忆
   platform?: string;  // 消息来源平台
+  messageText?: string;  // 当前消息原文（用于 Agent 路由）
   onToken?: (chunk: string) => void;  // 流式输出回调
   onToolUse?: (name: string, input: unknown) => void;  // 工具调用回调
   onThinking?: (text: string) => void;  // 思考过程回调
+  onApprovalRequest?: ApprovalNotifier;  // 工具审批回调（未提供时通过渠道发送）
 }
 
 interface ExecuteAgentResult {
   result: string | null;
   metrics?: AgentRunMetrics;
+  warnings?: string[];
 }
 
 async function executeAgent(group: RegisteredGroup, prompt: string, chatId: string, options?: ExecuteAgentOptions): Promise<ExecuteAgentResult> {
@@ -813,7 +883,7 @@ async function executeAgent(group: RegisteredGroup, prompt: string, chatId: stri
   const sessionId = sessions[group.folder];
 
   // 更新任务快照
-  const tasks = getAllTasks();
+  const tasks = getAllTasks().filter(t => t.kind !== 'memory-consolidation');
   writeTasksSnapshot(group.folder, isMain, tasks.map(t => ({
     id: t.id,
     groupFolder: t.group_folder,
@@ -837,10 +907,12 @@ async function executeAgent(group: RegisteredGroup, prompt: string, chatId: stri
       isMain,
       userId: options?.userId || chatId,  // 用户级别记忆
       platform: options?.platform,
+      messageText: options?.messageText,
       attachments: options?.attachments,
       onToken: options?.onToken,
       onToolUse: options?.onToolUse,
       onThinking: options?.onThinking,
+      onApprovalRequest: options?.onApprovalRequest,
     });
 
     if (output.newSessionId) {
@@ -853,7 +925,7 @@ async function executeAgent(group: RegisteredGroup, prompt: string, chatId: stri
       throw new Error(`Agent 错误: ${output.error}`);
     }
 
-    return { result: output.result, metrics: output.metrics };
+    return { result: output.result, metrics: output.metrics, warnings: output.warnings };
   } catch (err) {
     logger.error({ group: group.folder, err }, 'Agent 执行失败');
     throw err;
@@ -1053,6 +1125,19 @@ const IpcRegisterGroupSchema = IpcBaseSchema.extend({
     timeout: z.number().int().min(1000).max(3600000).optional(),
     env: z.record(z.string(), z.string()).optional(),
   }).optional(),
+  quietHours: z.string().max(20).refine(v => parseQuietHours(v) !== null, '免打扰时段格式应为 HH:MM-HH:MM').optional(),
+  allowedSenders: z.array(z.string().min(1).max(256)).max(200).optional(),
+});
+
+/** run_workflow IPC schema（flashclaw workflow run） */
+const IpcRunWorkflowSchema = IpcBaseSchema.extend({
+  type: z.literal('run_workflow'),
+  workflowId: z.string().min(1).max(100),
+});
+
+/** wake_scheduler IPC schema（CLI 修改任务后通知调度器重新计算定时器） */
+const IpcWakeSchedulerSchema = IpcBaseSchema.extend({
+  type: z.literal('wake_scheduler'),
 });
 
 /** 联合 IPC schema */
@@ -1062,6 +1147,8 @@ const IpcMessageSchema = z.discriminatedUnion('type', [
   IpcTaskActionSchema.extend({ type: z.literal('resume_task') }),
   IpcTaskActionSchema.extend({ type: z.literal('cancel_task') }),
   IpcRegisterGroupSchema,
+  IpcRunWorkflowSchema,
+  IpcWakeSchedulerSchema,
 ]);
 
 type IpcMessage = z.infer<typeof IpcMessageSchema>;
@@ -1155,7 +1242,7 @@ async function processTaskIpc(
 
     case 'pause_task': {
       const task = getTask(data.taskId);
-      if (task && (isMain || task.group_folder === sourceGroup)) {
+      if (task && task.kind !== 'memory-consolidation' && (isMain || task.group_folder === sourceGroup)) {
         updateTask(data.taskId, { status: 'paused' });
         logger.info({ taskId: data.taskId, sourceGroup }, '任务已暂停');
       } else {
@@ -1166,7 +1253,7 @@ async function processTaskIpc(
 
     case 'resume_task': {
       const task = getTask(data.taskId);
-      if (task && (isMain || task.group_folder === sourceGroup)) {
+      if (task && task.kind !== 'memory-consolidation' && (isMain || task.group_folder === sourceGroup)) {
         updateTask(data.taskId, { status: 'active' });
         logger.info({ taskId: data.taskId, sourceGroup }, '任务已恢复');
       } else {
@@ -1177,7 +1264,7 @@ async function processTaskIpc(
 
     case 'cancel_task': {
       const task = getTask(data.taskId);
-      if (task && (isMain || task.group_folder === sourceGroup)) {
+      if (task && task.kind !== 'memory-consolidation' && (isMain || task.group_folder === sourceGroup)) {
         deleteTask(data.taskId);
         logger.info({ taskId: data.taskId, sourceGroup }, '任务已取消');
       } else {
@@ -1197,10 +1284,29 @@ async function processTaskIpc(
         folder: data.folder,
         trigger: data.trigger,
         added_at: new Date().toISOString(),
-        agentConfig: data.agentConfig
+        agentConfig: data.agentConfig,
+        quietHours: data.quietHours,
+        allowedSenders: data.allowedSenders
       });
       break;
     }
+
+    case 'run_workflow': {
+      if (!isMain) {
+        logger.warn({ sourceGroup, workflowId: data.workflowId }, '未授权的 run_workflow 被阻止');
+        break;
+      }
+      // 不等待运行结束，避免阻塞 IPC 处理
+      triggerWorkflow(data.workflowId)
+        .then(summary => logger.info({ workflowId: data.workflowId, runId: summary.runId, status: summary.status }, '⚡ 手动运行工作流结束'))
+        .catch(err => logger.error({ workflowId: data.workflowId, err: String(err) }, '手动运行工作流失败'));
+      break;
+    }
+
+    case 'wake_scheduler': {
+      wake();
+      break;
+    }
   }
 }
 
@@ -1248,8 +1354,10 @@ export async function main(): Promise<void> {
   const hasAnthropicKey = !!(process.env.ANTHROPIC_AUTH_TOKEN || process.env.ANTHROPIC_API_KEY);
   const hasOpenAIKey = !!(process.env.OPENAI_API_KEY);
   const hasApiKey = aiProvider === 'openai-provider' ? hasOpenAIKey : hasAnthropicKey;
+  // 回放模式完全离线，不需要 API Key
+  const isOfflineReplay = aiProvider === 'replay-provider' && (process.env.REPLAY_MODE || 'replay') === 'replay';
   
-  if (!hasApiKey) {
+  if (!hasApiKey && !isOfflineReplay) {
     const envPath = paths.env();
     const envExists = fs.existsSync(envPath);
     const isOpenAI = aiProvider === 'openai-provider';
@@ -1279,6 +1387,9 @@ ${envExists
   // 初始化数据库（必须在加载插件之前，因为插件可能依赖数据库）
   initDatabase();
   logger.debug('⚡ 数据库已初始化');
+  pruneRunTraces();
+  pruneTaskRunLogs();
+  initSessionTracker();
   
   // 加载插件（在数据库初始化之后）
   let totalPluginDirs = 0;
@@ -1380,6 +1491,14 @@ ${envExists
   const enabledPlatforms = channelManager.getEnabledPlatforms();
   logger.debug({ platforms: enabledPlatforms }, '⚡ 渠道管理器已初始化');
 
+  // 工具审批请求默认通过来源渠道发送
+  setApprovalNotifier(async (request, prompt) => {
+    const result = await channelManager.sendApprovalRequest(request.chatJid, prompt, request.platform);
+    if (!result.success) {
+      throw new Error(result.error || '审批请求发送失败');
+    }
+  });
+
   // 加载状态
   loadState();
 
@@ -1414,7 +1533,8 @@ ${envExists
   messageQueue.start();
   logger.debug('⚡ 消息队列已初始化');
 
-  // 启动任务调度器
+  // 启动任务调度器（先登记内置的记忆整理任务）
+  ensureMemoryConsolidationTask();
   startSchedulerLoop({
     sendMessage: (chatId, text) => sendMessage(chatId, text),
     registeredGroups: () => registeredGroups,
@@ -1466,8 +1586,9 @@ async function gracefulShutdown(signal: string): Promise<void> {
     logger.info('⚡ 等待当前任务完成...');
     await new Promise(resolve => setTimeout(resolve, 2000));
     
-    // 3. 停止消息队列
+    // 3. 停止消息队列（拒绝所有待审批的工具调用，避免 Agent 挂起）
     logger.info('⚡ 停止消息队列...');
+    clearPendingApprovals();
     messageQueue?.stop();
     
     // 4. 停止任务调度器
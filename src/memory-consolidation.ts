@@ -0,0 +1,360 @@
+/**
+ * 长期记忆整理
+ *
+ * 由任务调度器定期执行（系统任务 system-memory-consolidation，默认每天 04:00）：
+ * 1. 清理已过期的记忆
+ * 2. 在同一作用域（全局 / 单个用户）内按字词重合度找出相近的记忆
+ * 3. 交给 AI 判断：重复的合并为一条，互相矛盾的记录为冲突
+ * 4. 冲突不自动处理，等待用户通过 /memory review 确认或删除
+ *
+ * 通过 MEMORY_CONSOLIDATION_CRON 调整执行时间，设为 off 关闭。
+ */
+
+import { CronExpressionParser } from 'cron-parser';
+import { createTask, deleteTask, getTaskById, updateTask } from './db.js';
+import { MAIN_GROUP_FOLDER, MEMORY_CONSOLIDATION_CRON, TIMEZONE } from './config.js';
+import { getMemoryManager, type MemoryScope, type MemorySearchResult } from './core/memory.js';
+import { pluginManager } from './plugins/manager.js';
+import type { AIProviderPlugin } from './plugins/types.js';
+import { recordUsage } from './budget.js';
+import { ftsTerms } from './utils/fts.js';
+import { createLogger } from './logger.js';
+
+const logger = createLogger('MemoryConsolidation');
+
+// ==================== 配置常量 ====================
+
+/** 系统任务 ID */
+export const MEMORY_CONSOLIDATION_TASK_ID = 'system-memory-consolidation';
+
+/** 字词重合度（Jaccard）达到该值才视为相近 */
+const DEFAULT_SIMILARITY = 0.35;
+/** 每次最多交给 AI 判断的分组数 */
+const MAX_GROUPS_PER_RUN = 20;
+/** 单个分组的最大条数 */
+const MAX_GROUP_SIZE = 8;
+
+// ==================== 类型定义 ====================
+
+export interface ConsolidationOptions {
+  /** AI Provider（默认使用当前 Provider） */
+  provider?: AIProviderPlugin | null;
+  /** 相似度阈值（0-1） */
+  similarity?: number;
+  /** 用量记账的会话 ID */
+  chatJid?: string;
+}
+
+export interface ConsolidationResult {
+  /** 清理的过期记忆数 */
+  expired: number;
+  /** 交给 AI 判断的分组数 */
+  groups: number;
+  /** 合并操作数 */
+  merged: number;
+  /** 因合并删除的记忆数 */
+  removed: number;
+  /** 新记录的冲突数 */
+  conflicts: number;
+}
+
+interface MemoryItem {
+  key: string;
+  value: string;
+}
+
+interface CandidateGroup {
+  scope: MemoryScope;
+  owner: string;
+  records: MemorySearchResult[];
+}
+
+interface ConsolidationPlan {
+  merges?: Array<{ group?: number; keys?: string[]; key?: string; value?: string }>;
+  conflicts?: Array<{ group?: number; keys?: string[]; reason?: string }>;
+}
+
+// ==================== 相似度分组 ====================
+
+/**
+ * 分词：与 FTS 检索相同的规则（英文按单词小写，CJK 文本拆成相邻二元组）
+ */
+function tokenSet(text: string): Set<string> {
+  return new Set(ftsTerms(text));
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const token of a) {
+    if (b.has(token)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * 找出相近的记忆分组（并查集，两两相似的传递合并）
+ *
+ * @returns 每组的下标（只返回 2 条及以上的分组）
+ */
+export function findSimilarGroups(items: MemoryItem[], threshold: number = DEFAULT_SIMILARITY): number[][] {
+  const tokens = items.map(item => tokenSet(`${item.key} ${item.value}`));
+  const parent = items.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+
+  for (let i = 0; i < items.length; i++) {
+    for (let j = i + 1; j < items.length; j++) {
+      if (jaccard(tokens[i], tokens[j]) >= threshold) {
+        parent[find(j)] = find(i);
+      }
+    }
+  }
+
+  const groups = new Map<number, number[]>();
+  items.forEach((_, i) => {
+    const root = find(i);
+    const group = groups.get(root) ?? [];
+    group.push(i);
+    groups.set(root, group);
+  });
+
+  return Array.from(groups.values())
+    .filter(group => group.length > 1)
+    .map(group => group.slice(0, MAX_GROUP_SIZE));
+}
+
+function collectCandidateGroups(threshold: number): CandidateGroup[] {
+  const byScope = new Map<string, MemorySearchResult[]>();
+  for (const record of getMemoryManager().listMemories()) {
+    const bucket = `${record.scope}:${record.owner}`;
+    const records = byScope.get(bucket) ?? [];
+    records.push(record);
+    byScope.set(bucket, records);
+  }
+
+  const groups: CandidateGroup[] = [];
+  for (const records of byScope.values()) {
+    for (const indexes of findSimilarGroups(records, threshold)) {
+      groups.push({
+        scope: records[0].scope,
+        owner: records[0].owner,
+        records: indexes.map(i => records[i]),
+      });
+    }
+  }
+  return groups.slice(0, MAX_GROUPS_PER_RUN);
+}
+
+// ==================== AI 判断 ====================
+
+function buildPrompt(groups: CandidateGroup[]): string {
+  const sections = groups.map((group, i) => {
+    const lines = group.records.map(r => `- ${r.key}: ${r.value}（更新于 ${r.updatedAt.slice(0, 10)}，置信度 ${r.confidence}）`);
+    return `### 第 ${i + 1} 组\n${lines.join('\n')}`;
+  });
+
+  return `以下是用户长期记忆中内容相近的几组条目。请逐组判断：
+1. 表达同一件事的重复条目：合并为一条，给出保留的 key 和合并后的 value（保留所有有效信息，以较新的为准）
+2. 互相矛盾、无法判断哪条正确的条目：列为冲突，说明原因
+3. 只是相关、并不重复也不矛盾的条目：不要处理
+
+${sections.join('\n\n')}
+
+只输出 JSON，不要输出其他内容，格式：
+{"merges":[{"group":1,"keys":["被合并的 key"],"key":"保留的 key","value":"合并后的值"}],"conflicts":[{"group":1,"keys":["矛盾的 key"],"reason":"原因"}]}`;
+}
+
+function extractText(response: unknown): string {
+  const msg = response as { content?: Array<{ type: string; text?: string }> };
+  if (!msg?.content) return '';
+  return msg.content
+    .filter(block => block.type === 'text')
+    .map(block => block.text || '')
+    .join('');
+}
+
+/**
+ * 从 AI 回复中解析 JSON（容忍代码块和前后说明文字）
+ */
+export function parseConsolidationPlan(text: string): ConsolidationPlan {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    return {};
+  }
+  try {
+    const plan = JSON.parse(text.slice(start, end + 1)) as ConsolidationPlan;
+    return {
+      merges: Array.isArray(plan.merges) ? plan.merges : [],
+      conflicts: Array.isArray(plan.conflicts) ? plan.conflicts : [],
+    };
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * 校验 AI 给出的 key：必须属于该分组，去重后至少 2 条
+ */
+function validKeys(group: CandidateGroup | undefined, keys: unknown): string[] | null {
+  if (!group || !Array.isArray(keys)) return null;
+  const known = new Set(group.records.map(r => r.key));
+  const valid = Array.from(new Set(keys.filter((k): k is string => typeof k === 'string' && known.has(k))));
+  return valid.length >= 2 ? valid : null;
+}
+
+// ==================== 整理 ====================
+
+/**
+ * 执行一次记忆整理
+ */
+export async function consolidateMemories(options: ConsolidationOptions = {}): Promise<ConsolidationResult> {
+  const mm = getMemoryManager();
+  const result: ConsolidationResult = { expired: mm.purgeExpiredMemories(), groups: 0, merged: 0, removed: 0, conflicts: 0 };
+
+  const groups = collectCandidateGroups(options.similarity ?? DEFAULT_SIMILARITY);
+  result.groups = groups.length;
+  if (groups.length === 0) {
+    return result;
+  }
+
+  const provider = options.provider === undefined ? pluginManager.getProvider() : options.provider;
+  if (!provider) {
+    logger.warn({ groups: groups.length }, '🧠 未配置 AI Provider，跳过相近记忆的合并');
+    return result;
+  }
+
+  const response = await provider.chat(
+    [{ role: 'user', content: buildPrompt(groups) }],
+    {
+      system: '你是一个记忆整理助手，负责合并重复的记忆并找出互相矛盾的记忆。只输出 JSON。',
+      maxTokens: 2048,
+      temperature: 0,
+    }
+  );
+
+  const usage = (response as { usage?: { input_tokens?: number; output_tokens?: number } }).usage;
+  if (usage) {
+    recordUsage({
+      chatJid: options.chatJid || MEMORY_CONSOLIDATION_TASK_ID,
+      groupFolder: MAIN_GROUP_FOLDER,
+      provider: provider.name,
+      model: provider.getModel(),
+      inputTokens: usage.input_tokens || 0,
+      outputTokens: usage.output_tokens || 0,
+    });
+  }
+
+  const plan = parseConsolidationPlan(extractText(response));
+  const touched = new Set<string>();
+
+  for (const merge of plan.merges ?? []) {
+    const group = groups[(merge.group ?? 0) - 1];
+    const keys = validKeys(group, merge.keys);
+    if (!group || !keys || typeof merge.value !== 'string' || !merge.value.trim()) continue;
+    if (keys.some(k => touched.has(`${group.scope}:${group.owner}:${k}`))) continue;
+
+    const target = typeof merge.key === 'string' && merge.key.trim() ? merge.key.trim() : keys[0];
+    const sources = group.records.filter(r => keys.includes(r.key));
+    const writeOptions = {
+      tags: Array.from(new Set(sources.flatMap(r => r.tags))),
+      confidence: Math.max(...sources.map(r => r.confidence)),
+    };
+
+    if (group.scope === 'user') {
+      mm.rememberUser(group.owner, target, merge.value.trim(), writeOptions);
+    } else {
+      mm.remember(target, merge.value.trim(), writeOptions);
+    }
+    for (const key of keys) {
+      touched.add(`${group.scope}:${group.owner}:${key}`);
+      if (key === target) continue;
+      if (group.scope === 'user') {
+        mm.forgetUser(group.owner, key);
+      } else {
+        mm.forget(key);
+      }
+      result.removed++;
+    }
+    result.merged++;
+  }
+
+  for (const conflict of plan.conflicts ?? []) {
+    const group = groups[(conflict.group ?? 0) - 1];
+    const keys = validKeys(group, conflict.keys);
+    if (!group || !keys || keys.some(k => touched.has(`${group.scope}:${group.owner}:${k}`))) continue;
+
+    const reason = typeof conflict.reason === 'string' && conflict.reason.trim() ? conflict.reason.trim() : '内容互相矛盾';
+    if (mm.recordMemoryConflict(keys, reason, group.scope === 'user' ? group.owner : undefined)) {
+      result.conflicts++;
+    }
+  }
+
+  logger.info({ ...result }, '🧠 长期记忆整理完成');
+  return result;
+}
+
+/**
+ * 整理结果摘要（写入任务运行日志）
+ */
+export function formatConsolidationResult(result: ConsolidationResult): string {
+  return `清理过期 ${result.expired} 条，检查相近分组 ${result.groups} 组，合并 ${result.merged} 次（删除 ${result.removed} 条），新发现冲突 ${result.conflicts} 处`;
+}
+
+// ==================== 系统任务 ====================
+
+/**
+ * 按 MEMORY_CONSOLIDATION_CRON 创建 / 更新 / 移除记忆整理任务
+ *
+ * @param cron - cron 表达式，off 表示关闭
+ */
+export function ensureMemoryConsolidationTask(cron: string = MEMORY_CONSOLIDATION_CRON): void {
+  const existing = getTaskById(MEMORY_CONSOLIDATION_TASK_ID);
+
+  if (!cron || cron === 'off') {
+    if (existing) {
+      deleteTask(MEMORY_CONSOLIDATION_TASK_ID);
+      logger.info('🧠 记忆整理任务已关闭');
+    }
+    return;
+  }
+
+  let nextRun: string | null;
+  try {
+    nextRun = CronExpressionParser.parse(cron, { tz: TIMEZONE }).next().toISOString();
+  } catch {
+    logger.warn({ cron }, '无效的 MEMORY_CONSOLIDATION_CRON，记忆整理任务未启用');
+    return;
+  }
+
+  if (!existing) {
+    createTask({
+      id: MEMORY_CONSOLIDATION_TASK_ID,
+      group_folder: MAIN_GROUP_FOLDER,
+      chat_jid: '',
+      prompt: '整理长期记忆：清理过期条目，合并重复条目，标记互相矛盾的条目',
+      schedule_type: 'cron',
+      schedule_value: cron,
+      context_mode: 'isolated',
+      next_run: nextRun,
+      status: 'active',
+      created_at: new Date().toISOString(),
+      retry_count: 0,
+      max_retries: 1,
+      kind: 'memory-consolidation'
+    });
+    logger.debug({ cron }, '🧠 已创建记忆整理任务');
+    return;
+  }
+
+  if (existing.schedule_value !== cron) {
+    updateTask(MEMORY_CONSOLIDATION_TASK_ID, { schedule_type: 'cron', schedule_value: cron, next_run: nextRun });
+    logger.debug({ cron }, '🧠 已更新记忆整理任务的执行时间');
+  }
+}
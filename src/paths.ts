@@ -52,6 +52,20 @@ export const paths = {
     return join(getFlashClawHome(), 'config', 'plugins.json');
   },
 
+  /**
+   * Providers configuration file (~/.flashclaw/config/providers.json)
+   */
+  providersConfig(): string {
+    return join(getFlashClawHome(), 'config', 'providers.json');
+  },
+
+  /**
+   * Budgets configuration file (~/.flashclaw/config/budgets.json)
+   */
+  budgetsConfig(): string {
+    return join(getFlashClawHome(), 'config', 'budgets.json');
+  },
+
   /**
    * Data directory (~/.flashclaw/data)
    */
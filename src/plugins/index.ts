@@ -12,6 +12,8 @@ export {
   MessageHandler,
   ToolSchema,
   PluginManifest,
+  ToolPolicy,
+  ApprovalPrompt,
   ToolPlugin,
   ChannelPlugin,
   Plugin,
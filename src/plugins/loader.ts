@@ -13,6 +13,7 @@ import {
   Plugin,
   PluginManifest,
   PluginConfig,
+  ToolPolicy,
   isToolPlugin,
   isChannelPlugin,
   isAIProviderPlugin,
@@ -40,9 +41,11 @@ if (existsSync(appNodeModules)) {
   }
 }
 
-interface PluginsConfig {
+export interface PluginsConfig {
   plugins: Record<string, { enabled: boolean }>;
   hotReload?: boolean;
+  // 工具审批策略覆盖：工具名 -> allow / ask / deny（优先级高于 plugin.json）
+  toolPolicies?: Record<string, ToolPolicy>;
 }
 
 /**
@@ -52,7 +55,7 @@ interface PluginsConfig {
  * - ${VAR} - 从环境变量获取值
  * - ${VAR:-default} - 有默认值的环境变量
  */
-function loadPluginsConfig(): PluginsConfig {
+export function loadPluginsConfig(): PluginsConfig {
   try {
     const configFile = paths.pluginsConfig();
     if (existsSync(configFile)) {
@@ -341,7 +344,7 @@ export async function loadPlugin(pluginPath: string): Promise<string | null> {
   }
 
   // 注册到管理器
-  if (!pluginManager.register(plugin)) {
+  if (!pluginManager.register(plugin, manifest.toolPolicies)) {
     return null;
   }
 
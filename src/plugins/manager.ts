@@ -9,6 +9,7 @@ import {
   ChannelPlugin,
   AIProviderPlugin,
   ToolSchema,
+  ToolPolicy,
   isToolPlugin,
   isChannelPlugin,
   isAIProviderPlugin,
@@ -22,6 +23,8 @@ interface PluginEntry {
   plugin: Plugin;
   type: 'tool' | 'channel' | 'provider';
   loadedAt: Date;
+  // plugin.json 中声明的工具审批策略
+  toolPolicies?: Record<string, ToolPolicy>;
 }
 
 /**
@@ -38,9 +41,10 @@ export class PluginManager {
   /**
    * 注册插件
    * @param plugin 插件实例
+   * @param toolPolicies plugin.json 中声明的工具审批策略（可选）
    * @returns 是否注册成功
    */
-  register(plugin: Plugin): boolean {
+  register(plugin: Plugin, toolPolicies?: Record<string, ToolPolicy>): boolean {
     const name = plugin.name;
 
     // 检查是否已存在
@@ -69,6 +73,7 @@ export class PluginManager {
       plugin,
       type,
       loadedAt: new Date(),
+      toolPolicies,
     });
 
     logger.debug({ plugin: name, type, version: plugin.version }, '⚡ 已注册插件');
@@ -175,6 +180,21 @@ export class PluginManager {
     return null;
   }
 
+  /**
+   * 获取插件清单中声明的工具审批策略
+   * @param toolName 工具名称
+   * @returns 声明的策略，未声明返回 undefined
+   */
+  getToolPolicy(toolName: string): ToolPolicy | undefined {
+    for (const entry of this.plugins.values()) {
+      const policy = entry.toolPolicies?.[toolName];
+      if (policy) {
+        return policy;
+      }
+    }
+    return undefined;
+  }
+
   /**
    * 获取指定渠道插件
    * @param name 渠道名称
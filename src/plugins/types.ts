@@ -3,6 +3,8 @@
  * 乐高式架构 - 放进去就能用
  */
 
+import type { DelegationInfo } from '../types.js';
+
 // 插件配置
 export interface PluginConfig {
   [key: string]: unknown;
@@ -15,6 +17,9 @@ export interface ToolContext {
   userId: string;  // 用户 ID，用于用户级别记忆
   sendMessage: (content: string) => Promise<void>;
   sendImage: (imageData: string, caption?: string) => Promise<void>;  // 发送图片（data URL 或 base64）
+  runId?: string;  // 当前 Agent 运行 ID（定时任务等非 Agent 调用时为空）
+  agentId?: string;  // 当前运行的 Agent ID（需要 agent-manager 插件）
+  delegation?: DelegationInfo;  // 当前运行是子 Agent 时的委派信息
 }
 
 // 工具执行结果
@@ -79,6 +84,28 @@ export interface PluginManifest {
     default?: unknown;
   }>;
   dependencies?: string[];
+  // 工具调用审批策略：工具名 -> allow / ask / deny（未声明的工具默认 allow）
+  toolPolicies?: Record<string, ToolPolicy>;
+}
+
+// 工具调用审批策略
+// - allow: 直接执行
+// - ask: 执行前通过来源渠道请求用户确认
+// - deny: 禁止执行
+export type ToolPolicy = 'allow' | 'ask' | 'deny';
+
+// 工具调用审批请求（发给渠道插件展示）
+export interface ApprovalPrompt {
+  /** 审批 ID（用户通过 /approve <id> 或 /deny <id> 应答） */
+  id: string;
+  /** 待执行的工具名 */
+  toolName: string;
+  /** 参数摘要（已截断） */
+  paramsPreview: string;
+  /** 过期时间（ISO） */
+  expiresAt: string;
+  /** 纯文本提示（不支持按钮的渠道直接发送此文本） */
+  text: string;
 }
 
 // 工具插件接口
@@ -115,6 +142,13 @@ export interface SendMessageResult {
   error?: string;
 }
 
+// 流式回复能力（渠道声明后，回复会随生成逐步编辑同一条消息）
+export interface ChannelStreamingOptions {
+  editIntervalMs: number;  // 同一条消息两次编辑的最小间隔（平台频率限制）
+  maxLength: number;       // 单条消息长度上限，超出后续写到新消息
+  maxEdits?: number;       // 单条消息最多编辑次数（如飞书 20 次）
+}
+
 // 渠道插件接口
 export interface ChannelPlugin {
   name: string;
@@ -132,6 +166,10 @@ export interface ChannelPlugin {
   deleteMessage?(messageId: string): Promise<void>;
   sendImage?(chatId: string, imageData: string | Buffer, caption?: string): Promise<SendMessageResult>;
   sendFile?(chatId: string, filePath: string, fileName?: string): Promise<SendMessageResult>;
+  // 发送工具调用审批请求（带确认/拒绝按钮），按钮回调应转换为 /approve <id> 或 /deny <id> 消息
+  sendApprovalRequest?(chatId: string, prompt: ApprovalPrompt): Promise<SendMessageResult>;
+  // 流式回复能力（需要同时实现 updateMessage）
+  streaming?: ChannelStreamingOptions;
 
   reload?(): Promise<void>;
 }
@@ -191,6 +229,8 @@ export interface ChatOptions {
   temperature?: number;
   /** 停止序列 */
   stopSequences?: string[];
+  /** 本次请求使用的模型（覆盖 Provider 当前模型） */
+  model?: string;
 }
 
 // 流式事件类型
@@ -209,6 +249,12 @@ export type ToolExecutor = (name: string, params: unknown) => Promise<unknown>;
  */
 export type HeartbeatCallback = () => void;
 
+/**
+ * 工具链后续轮次的事件回调 - Provider 在 handleToolUse 内每轮模型调用时触发
+ * 让外层能流式输出后续轮次的文本、记录追踪并累计 token 用量（done 事件携带该轮 usage）
+ */
+export type StreamEventCallback = (event: StreamEvent) => void;
+
 // AI Provider 插件接口
 export interface AIProviderPlugin {
   name: string;
@@ -227,7 +273,8 @@ export interface AIProviderPlugin {
     messages: ChatMessage[],
     executeTool: ToolExecutor,
     options?: ChatOptions,
-    heartbeat?: HeartbeatCallback
+    heartbeat?: HeartbeatCallback,
+    onEvent?: StreamEventCallback
   ): Promise<string>;
 
   // 获取当前模型
@@ -0,0 +1,215 @@
+/**
+ * Provider Router
+ *
+ * 为每次 Agent 运行选择 AI Provider / 模型，并给出备用链：
+ * 0. 调用方显式指定的模型（如定时任务的 model 覆盖）
+ * 1. config/providers.json 的 routes（按顺序，第一条匹配的规则生效，可按 group / agent / intent / channel 匹配）
+ * 2. Agent 配置的 model（MultiAgentConfig.model）
+ * 3. 默认 Provider（AI_PROVIDER）
+ *
+ * 主 Provider 失败（不可重试或重试耗尽）后，依次尝试 fallback 中的 Provider。
+ *
+ * Provider 描述格式："provider-name" 或 "provider-name/model-id"；
+ * Agent 和任务的 model 还可以直接写模型 ID（使用默认 Provider）。
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { pluginManager } from './plugins/manager.js';
+import type { AIProviderPlugin } from './plugins/types.js';
+import { paths } from './paths.js';
+import { substituteEnvVarsDeep } from './utils/env-substitute.js';
+import { createLogger } from './logger.js';
+
+const logger = createLogger('ProviderRouter');
+
+/**
+ * Provider 目标（名称 + 可选模型）
+ */
+export interface ProviderTarget {
+  provider: string;
+  model?: string;
+}
+
+/**
+ * 路由规则：所有填写的条件都匹配时生效（group / agent / channel 支持 * 通配符）
+ */
+export interface ProviderRouteRule {
+  group?: string;
+  agent?: string;
+  intent?: string;
+  channel?: string;
+  /** 目标 Provider（省略时使用默认 Provider） */
+  provider?: string;
+  model?: string;
+}
+
+/**
+ * config/providers.json
+ */
+export interface ProvidersConfig {
+  /** 备用链（按顺序），也可通过 AI_PROVIDER_FALLBACK 环境变量配置（逗号分隔） */
+  fallback?: Array<string | ProviderTarget>;
+  routes?: ProviderRouteRule[];
+}
+
+/**
+ * 路由上下文
+ */
+export interface ProviderRouteContext {
+  group: string;
+  agentId?: string;
+  /** MultiAgentConfig.model */
+  agentModel?: string | null;
+  /** 显式指定的 Provider / 模型（优先于路由规则） */
+  modelOverride?: string | null;
+  intent?: string | null;
+  channel?: string;
+}
+
+/**
+ * 路由结果
+ */
+export interface ProviderChoice {
+  provider: AIProviderPlugin;
+  /** 指定模型（未指定时使用 Provider 当前模型） */
+  model?: string;
+  /** 选择原因 */
+  source: 'override' | 'route' | 'agent' | 'default' | 'fallback';
+}
+
+/**
+ * 读取 config/providers.json（不存在时返回空配置）
+ */
+export function loadProvidersConfig(): ProvidersConfig {
+  const configFile = paths.providersConfig();
+  let config: ProvidersConfig = {};
+  try {
+    if (existsSync(configFile)) {
+      config = substituteEnvVarsDeep(JSON.parse(readFileSync(configFile, 'utf-8'))) as ProvidersConfig;
+    }
+  } catch (err) {
+    logger.warn({ err, file: configFile }, '⚠️ 读取 Provider 路由配置失败，已忽略');
+  }
+
+  if (!config.fallback && process.env.AI_PROVIDER_FALLBACK) {
+    config.fallback = process.env.AI_PROVIDER_FALLBACK.split(',').map(s => s.trim()).filter(Boolean);
+  }
+  return config;
+}
+
+function getDefaultProviderName(): string {
+  return process.env.AI_PROVIDER || 'anthropic-provider';
+}
+
+/**
+ * 解析 Provider 描述
+ * - 已注册的 Provider 名称 → 该 Provider
+ * - "provider/model" 且前缀是已注册 Provider → 该 Provider + 模型
+ * - 其他 → 默认 Provider + 模型
+ */
+export function parseProviderSpec(spec: string): ProviderTarget {
+  const trimmed = spec.trim();
+  if (pluginManager.getProviderByName(trimmed)) {
+    return { provider: trimmed };
+  }
+  const slash = trimmed.indexOf('/');
+  if (slash > 0) {
+    const prefix = trimmed.slice(0, slash);
+    if (pluginManager.getProviderByName(prefix)) {
+      return { provider: prefix, model: trimmed.slice(slash + 1) || undefined };
+    }
+  }
+  return { provider: getDefaultProviderName(), model: trimmed };
+}
+
+function splitProviderTarget(spec: string): ProviderTarget {
+  const trimmed = spec.trim();
+  const slash = trimmed.indexOf('/');
+  if (slash <= 0) return { provider: trimmed };
+  return { provider: trimmed.slice(0, slash), model: trimmed.slice(slash + 1) || undefined };
+}
+
+function matchPattern(pattern: string | undefined, value: string | null | undefined): boolean {
+  if (pattern === undefined) return true;
+  if (!value) return false;
+  if (pattern === '*' || pattern === value) return true;
+  const regexStr = pattern
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*')
+    .replace(/\?/g, '.');
+  return new RegExp(`^${regexStr}$`).test(value);
+}
+
+/**
+ * 查找第一条匹配的路由规则
+ */
+export function matchRouteRule(rules: ProviderRouteRule[], ctx: ProviderRouteContext): ProviderRouteRule | null {
+  for (const rule of rules) {
+    if (!rule.provider && !rule.model) continue;
+    if (
+      matchPattern(rule.group, ctx.group) &&
+      matchPattern(rule.agent, ctx.agentId) &&
+      matchPattern(rule.intent, ctx.intent) &&
+      matchPattern(rule.channel, ctx.channel)
+    ) {
+      return rule;
+    }
+  }
+  return null;
+}
+
+function toChoice(target: ProviderTarget, source: ProviderChoice['source']): ProviderChoice | null {
+  const provider = pluginManager.getProviderByName(target.provider);
+  if (!provider) {
+    logger.warn({ provider: target.provider, source }, '⚠️ 路由指定的 Provider 未加载，已跳过');
+    return null;
+  }
+  return { provider, model: target.model, source };
+}
+
+/**
+ * 计算本次运行的 Provider 链（主 Provider + 备用）
+ */
+export function resolveProviderChain(ctx: ProviderRouteContext): ProviderChoice[] {
+  const config = loadProvidersConfig();
+  const chain: ProviderChoice[] = [];
+  const seen = new Set<string>();
+
+  const push = (choice: ProviderChoice | null) => {
+    if (!choice) return;
+    const key = `${choice.provider.name}/${choice.model ?? ''}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    chain.push(choice);
+  };
+
+  // 主 Provider：显式覆盖优先，其次是路由规则和 Agent 模型
+  if (ctx.modelOverride) {
+    push(toChoice(parseProviderSpec(ctx.modelOverride), 'override'));
+  }
+  if (chain.length === 0) {
+    const rule = matchRouteRule(config.routes ?? [], ctx);
+    if (rule) {
+      const target = rule.provider
+        ? { provider: rule.provider, model: rule.model }
+        : { provider: getDefaultProviderName(), model: rule.model };
+      push(toChoice(target, 'route'));
+    } else if (ctx.agentModel) {
+      push(toChoice(parseProviderSpec(ctx.agentModel), 'agent'));
+    }
+  }
+
+  if (chain.length === 0) {
+    const current = pluginManager.getProvider();
+    if (current) {
+      push({ provider: current, source: 'default' });
+    }
+  }
+
+  // 备用链（字符串形式固定为 "provider" 或 "provider/model"）
+  for (const entry of config.fallback ?? []) {
+    push(toChoice(typeof entry === 'string' ? splitProviderTarget(entry) : entry, 'fallback'));
+  }
+
+  return chain;
+}
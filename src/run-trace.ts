@@ -0,0 +1,218 @@
+/**
+ * Run Trace
+ *
+ * 持久化记录每次 Agent 运行：系统提示词哈希、输入消息、流式事件、
+ * 工具输入输出、token 用量和耗时，用于事后排查回答质量问题。
+ *
+ * 事件先缓存在内存中，运行结束时一次性写入 SQLite（agent_runs / agent_run_events）。
+ * 追踪失败只记录日志，不影响 Agent 运行。
+ */
+
+import { createHash } from 'crypto';
+import { createAgentRun, finishAgentRun, deleteAgentRunsBefore } from './db.js';
+import { AGENT_TRACE_ENABLED, AGENT_TRACE_RETENTION_DAYS } from './config.js';
+import type { AgentRunEvent } from './types.js';
+import { createLogger } from './logger.js';
+
+const logger = createLogger('RunTrace');
+
+/** 单个事件数据最大长度（超出截断） */
+const MAX_EVENT_DATA_CHARS = 20000;
+/** 连续合并的流式事件类型（逐 token 推送，合并后再存储） */
+const MERGEABLE_EVENT_TYPES = new Set(['text', 'thinking']);
+
+export interface RunTraceInfo {
+  /** 预先生成的运行 ID（未提供时自动生成） */
+  runId?: string;
+  chatJid: string;
+  groupFolder: string;
+  agentId?: string;
+  model: string;
+  systemPrompt: string;
+  messages: unknown[];
+  isScheduledTask?: boolean;
+}
+
+export interface RunTraceOutcome {
+  status: 'success' | 'error';
+  result?: string | null;
+  error?: string | null;
+  usage?: { inputTokens: number; outputTokens: number } | null;
+}
+
+/**
+ * 生成运行 ID
+ */
+export function generateRunId(): string {
+  return `run-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * 计算系统提示词哈希（用于比对不同运行的提示词是否一致）
+ */
+export function hashSystemPrompt(systemPrompt: string): string {
+  return createHash('sha256').update(systemPrompt).digest('hex').slice(0, 16);
+}
+
+/**
+ * 序列化事件数据：去掉图片 base64，超长截断
+ */
+function serialize(data: unknown): string | null {
+  if (data === undefined) return null;
+  let json: string;
+  try {
+    json = JSON.stringify(data, (key, value) => {
+      if (key === 'data' && typeof value === 'string' && value.length > 1000) {
+        return `[base64 ${value.length} chars]`;
+      }
+      return value;
+    });
+  } catch {
+    json = JSON.stringify(String(data));
+  }
+  if (json === undefined) return null;
+  return json.length > MAX_EVENT_DATA_CHARS
+    ? JSON.stringify({ truncated: true, preview: json.slice(0, MAX_EVENT_DATA_CHARS) })
+    : json;
+}
+
+/**
+ * 单次运行的追踪器
+ */
+export class RunTracer {
+  readonly runId: string;
+  private readonly startedAt = Date.now();
+  private readonly events: AgentRunEvent[] = [];
+  private pendingMerge: { type: string; elapsed: number; text: string } | null = null;
+  private active: boolean;
+  private finished = false;
+
+  constructor(info: RunTraceInfo, enabled = AGENT_TRACE_ENABLED) {
+    this.runId = info.runId ?? generateRunId();
+    this.active = enabled && !!global.__flashclaw_db;
+    if (!this.active) return;
+
+    try {
+      createAgentRun({
+        id: this.runId,
+        chat_jid: info.chatJid,
+        group_folder: info.groupFolder,
+        agent_id: info.agentId ?? null,
+        model: info.model,
+        system_prompt_hash: hashSystemPrompt(info.systemPrompt),
+        messages: serialize(info.messages),
+        started_at: new Date(this.startedAt).toISOString(),
+        is_scheduled_task: info.isScheduledTask ? 1 : 0,
+      });
+    } catch (err) {
+      logger.warn({ err, runId: this.runId }, '创建运行追踪失败，本次运行不记录');
+      this.active = false;
+    }
+  }
+
+  get enabled(): boolean {
+    return this.active;
+  }
+
+  /**
+   * 记录事件（StreamEvent 或工具调用）
+   * 连续的 text / thinking 事件会合并为一条
+   */
+  record(type: string, data?: unknown): void {
+    if (!this.active || this.finished) return;
+
+    if (MERGEABLE_EVENT_TYPES.has(type) && typeof data === 'string') {
+      if (this.pendingMerge?.type === type) {
+        this.pendingMerge.text += data;
+        return;
+      }
+      this.flushMerge();
+      this.pendingMerge = { type, elapsed: Date.now() - this.startedAt, text: data };
+      return;
+    }
+
+    this.flushMerge();
+    this.push(type, Date.now() - this.startedAt, serialize(data));
+  }
+
+  /**
+   * 记录 Provider 流式事件
+   */
+  recordStreamEvent(event: { type: string; [key: string]: unknown }): void {
+    if (event.type === 'text' || event.type === 'thinking') {
+      this.record(event.type, event.text);
+    } else if (event.type === 'done') {
+      this.record('done', event.message);
+    } else {
+      const { type, ...data } = event;
+      this.record(type, data);
+    }
+  }
+
+  /**
+   * 记录一次工具调用（输入、输出、耗时）
+   */
+  recordToolCall(name: string, input: unknown, output: string, isError: boolean, durationMs: number): void {
+    this.record('tool_call', { name, input, output, isError, durationMs });
+  }
+
+  /**
+   * 结束追踪并写入数据库
+   */
+  finish(outcome: RunTraceOutcome): void {
+    if (!this.active || this.finished) return;
+    this.finished = true;
+    this.flushMerge();
+
+    const finishedAt = Date.now();
+    try {
+      finishAgentRun(this.runId, {
+        status: outcome.status,
+        result: outcome.result ?? null,
+        error: outcome.error ?? null,
+        input_tokens: outcome.usage?.inputTokens ?? null,
+        output_tokens: outcome.usage?.outputTokens ?? null,
+        finished_at: new Date(finishedAt).toISOString(),
+        duration_ms: finishedAt - this.startedAt,
+      }, this.events);
+    } catch (err) {
+      logger.warn({ err, runId: this.runId }, '写入运行追踪失败');
+    }
+  }
+
+  private flushMerge(): void {
+    if (!this.pendingMerge) return;
+    const { type, elapsed, text } = this.pendingMerge;
+    this.pendingMerge = null;
+    this.push(type, elapsed, serialize(text));
+  }
+
+  private push(type: string, elapsed: number, data: string | null): void {
+    this.events.push({
+      run_id: this.runId,
+      seq: this.events.length,
+      type,
+      elapsed_ms: elapsed,
+      data,
+    });
+  }
+}
+
+/**
+ * 清理过期的运行追踪
+ * @returns 删除的运行数量
+ */
+export function pruneRunTraces(retentionDays = AGENT_TRACE_RETENTION_DAYS): number {
+  if (retentionDays <= 0) return 0;
+  const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000).toISOString();
+  try {
+    const deleted = deleteAgentRunsBefore(cutoff);
+    if (deleted > 0) {
+      logger.info({ deleted, retentionDays }, '🧹 已清理过期运行追踪');
+    }
+    return deleted;
+  } catch (err) {
+    logger.warn({ err }, '清理运行追踪失败');
+    return 0;
+  }
+}
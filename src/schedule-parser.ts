@@ -0,0 +1,604 @@
+/**
+ * 自然语言时间解析
+ *
+ * 把 "明天早上9点"、"每周一下午三点"、"every other Friday at 5pm"、"3 小时后" 这类描述
+ * 确定性地转换为定时任务的调度配置（once / cron / interval），所有时间按 TIMEZONE 计算。
+ * 小模型容易算错时间，schedule_task、reminder 和 /tasks preview 都通过这里换算。
+ */
+
+import { CronExpressionParser } from 'cron-parser';
+import { TIMEZONE } from './config.js';
+
+// ==================== 类型定义 ====================
+
+export interface ParsedSchedule {
+  type: 'once' | 'cron' | 'interval';
+  /** once: ISO 时间；cron: cron 表达式；interval: 毫秒数 */
+  value: string;
+  /** 首次执行时间（ISO） */
+  firstRun: string;
+  /** 中文描述，如 "每周一 15:00" */
+  description: string;
+}
+
+export interface ScheduleParseOptions {
+  now?: Date;
+  timezone?: string;
+}
+
+export interface TimeOfDay {
+  hour: number;
+  minute: number;
+  /** "晚上12点" 这类跨到次日的时间 */
+  nextDay?: boolean;
+}
+
+/** 当地日历日期 */
+export interface CivilDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+// ==================== 词表 ====================
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+const WEEK = 7 * DAY;
+
+/** 只给出日期或"每天"时的默认时间 */
+const DEFAULT_TIME: TimeOfDay = { hour: 9, minute: 0 };
+
+const CN_DIGITS: Record<string, number> = { 零: 0, 一: 1, 二: 2, 两: 2, 三: 3, 四: 4, 五: 5, 六: 6, 七: 7, 八: 8, 九: 9 };
+
+const CN_WEEKDAYS: Record<string, number> = { 日: 0, 天: 0, 一: 1, 二: 2, 三: 3, 四: 4, 五: 5, 六: 6 };
+
+const EN_WEEKDAYS: Record<string, number> = {
+  sunday: 0, sun: 0,
+  monday: 1, mon: 1,
+  tuesday: 2, tues: 2, tue: 2,
+  wednesday: 3, wed: 3,
+  thursday: 4, thurs: 4, thur: 4, thu: 4,
+  friday: 5, fri: 5,
+  saturday: 6, sat: 6,
+};
+
+const EN_MONTHS: Record<string, number> = {
+  january: 1, jan: 1, february: 2, feb: 2, march: 3, mar: 3, april: 4, apr: 4,
+  may: 5, june: 6, jun: 6, july: 7, jul: 7, august: 8, aug: 8,
+  september: 9, sept: 9, sep: 9, october: 10, oct: 10, november: 11, nov: 11, december: 12, dec: 12,
+};
+
+/** 时段词：调整小时数，没有具体时间时使用默认小时 */
+const PERIODS: Array<{ pattern: RegExp; pm: boolean; defaultHour: number }> = [
+  { pattern: /凌晨|半夜/, pm: false, defaultHour: 0 },
+  { pattern: /早上|早晨|清晨|明早|今早|\bmorning\b/, pm: false, defaultHour: 8 },
+  { pattern: /上午/, pm: false, defaultHour: 9 },
+  { pattern: /中午|\bnoon\b/, pm: false, defaultHour: 12 },
+  { pattern: /下午|\bafternoon\b/, pm: true, defaultHour: 15 },
+  { pattern: /傍晚/, pm: true, defaultHour: 18 },
+  { pattern: /晚上|今晚|明晚|夜里|夜间|\bevening\b|\btonight\b/, pm: true, defaultHour: 20 },
+];
+
+const UNIT_MS: Array<{ pattern: RegExp; ms: number; label: string }> = [
+  { pattern: /^(秒钟?|s|secs?|seconds?)$/, ms: SECOND, label: '秒' },
+  { pattern: /^(分钟|分|m|mins?|minutes?)$/, ms: MINUTE, label: '分钟' },
+  { pattern: /^(小时|钟头|时|h|hrs?|hours?)$/, ms: HOUR, label: '小时' },
+  { pattern: /^(天|日|d|days?)$/, ms: DAY, label: '天' },
+  { pattern: /^(周|星期|礼拜|w|weeks?)$/, ms: WEEK, label: '周' },
+];
+
+const DURATION_UNITS = '秒钟|秒|分钟|分|小时|钟头|天|日|周|星期|礼拜|seconds?|secs?|minutes?|mins?|hours?|hrs?|days?|weeks?';
+
+// ==================== 时区工具 ====================
+
+/**
+ * 某一时刻在指定时区的当地日期和时间
+ */
+export function zonedParts(date: Date, timeZone: string): CivilDate & { hour: number; minute: number; second: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric', month: 'numeric', day: 'numeric',
+    hour: 'numeric', minute: 'numeric', second: 'numeric',
+  }).formatToParts(date);
+  const get = (type: string) => parseInt(parts.find(p => p.type === type)?.value ?? '0', 10);
+  return { year: get('year'), month: get('month'), day: get('day'), hour: get('hour'), minute: get('minute'), second: get('second') };
+}
+
+/**
+ * 把当地时间转换为 UTC 时间（处理夏令时切换）
+ */
+export function zonedToDate(date: CivilDate, time: TimeOfDay, timeZone: string): Date {
+  const guess = Date.UTC(date.year, date.month - 1, date.day, time.hour, time.minute);
+  const offsetAt = (ms: number) => {
+    const p = zonedParts(new Date(ms), timeZone);
+    return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - Math.floor(ms / 1000) * 1000;
+  };
+  const offset = offsetAt(guess);
+  const result = guess - offset;
+  const corrected = offsetAt(result);
+  return new Date(corrected === offset ? result : guess - corrected);
+}
+
+function addDays(date: CivilDate, days: number): CivilDate {
+  const d = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+  return { year: d.getUTCFullYear(), month: d.getUTCMonth() + 1, day: d.getUTCDate() };
+}
+
+export function weekdayOf(date: CivilDate): number {
+  return new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay();
+}
+
+function isValidDate(date: CivilDate): boolean {
+  const d = new Date(Date.UTC(date.year, date.month - 1, date.day));
+  return d.getUTCMonth() === date.month - 1 && d.getUTCDate() === date.day;
+}
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0');
+}
+
+function formatTime(time: TimeOfDay): string {
+  return `${pad(time.hour)}:${pad(time.minute)}`;
+}
+
+function formatDateTime(date: Date, timeZone: string): string {
+  return date.toLocaleString('zh-CN', { timeZone, hour12: false });
+}
+
+// ==================== 文本预处理 ====================
+
+/**
+ * 中文数字转阿拉伯数字（支持 0-99，如 "十二"、"二十三"、"两"）
+ */
+function parseChineseNumber(text: string): number | null {
+  if (/^\d+$/.test(text)) return parseInt(text, 10);
+  if (!/^[零一二两三四五六七八九十]+$/.test(text)) return null;
+  const tenIndex = text.indexOf('十');
+  if (tenIndex === -1) {
+    return text.length === 1 ? CN_DIGITS[text] : null;
+  }
+  const tens = tenIndex === 0 ? 1 : CN_DIGITS[text.slice(0, tenIndex)];
+  const onesText = text.slice(tenIndex + 1);
+  const ones = onesText ? CN_DIGITS[onesText] : 0;
+  if (tens === undefined || ones === undefined || onesText.length > 1) return null;
+  return tens * 10 + ones;
+}
+
+function normalize(text: string): string {
+  return text
+    .trim()
+    .toLowerCase()
+    // 全角字符转半角
+    .replace(/[！-～]/g, ch => String.fromCharCode(ch.charCodeAt(0) - 0xfee0))
+    .replace(/　/g, ' ')
+    .replace(/\s+/g, ' ');
+}
+
+/**
+ * 把单位前的中文数字转成阿拉伯数字（"下午三点半" → "下午3点半"）
+ * 星期已在此之前提取，避免 "周三十点" 被读成 30 点
+ */
+function convertChineseNumbers(text: string): string {
+  return text.replace(/[零一二两三四五六七八九十]+(?=\s*(个|点|时|分|秒|小时|钟|天|日|号|周|星期|礼拜|月|年|刻))/g, match => {
+    const n = parseChineseNumber(match);
+    return n === null ? match : String(n);
+  });
+}
+
+// ==================== 星期 ====================
+
+interface WeekdayMatch {
+  days: number[];
+  /**
+   * every: 每周；other: 隔周；nextWeek: 下周（周一为一周开始）；
+   * this: 本周；next: 英文 next X（最近一个，不含今天）；null: 最近一个
+   */
+  mode: 'every' | 'other' | 'nextWeek' | 'this' | 'next' | null;
+  /** 下周 = 1，下下周 = 2 */
+  weeksAhead: number;
+}
+
+const EN_DAY_NAMES = Object.keys(EN_WEEKDAYS).sort((a, b) => b.length - a.length).join('|');
+
+/**
+ * 提取星期描述，返回星期和去掉星期后的文本
+ */
+function extractWeekdays(text: string): { match: WeekdayMatch | null; rest: string } {
+  // 工作日 / 周末
+  const workday = text.match(/每个?工作日|工作日|\b(?:every |on )?weekdays?\b/);
+  if (workday) {
+    return { match: { days: [1, 2, 3, 4, 5], mode: 'every', weeksAhead: 0 }, rest: text.replace(workday[0], ' ') };
+  }
+  const weekend = text.match(/(每个?|这个?|本|下下?个?)?周末|\b(every |this |next )?weekend(s?)\b/);
+  if (weekend) {
+    const prefix = weekend[1] ?? weekend[2] ?? '';
+    const every = /每|every/.test(prefix) || weekend[3] === 's';
+    const match: WeekdayMatch = every
+      ? { days: [0, 6], mode: 'every', weeksAhead: 0 }
+      : /下|next/.test(prefix)
+        ? { days: [6], mode: 'nextWeek', weeksAhead: (prefix.match(/下/g) ?? []).length || 1 }
+        : { days: [6], mode: /这|本|this/.test(prefix) ? 'this' : null, weeksAhead: 0 };
+    return { match, rest: text.replace(weekend[0], ' ') };
+  }
+
+  // 中文：每周一三五、下周二、隔周五、星期天
+  const normalized = text.replace(/(每隔一周|每两周|每2周|隔周)的?(?=周|星期|礼拜)/, '隔');
+  const cn = normalized.match(/(每隔|隔|每个?|下下?个?|这个?|本)?(?:周|星期|礼拜)([一二三四五六日天](?:[、,和及与]?[一二三四五六日天])*)/);
+  if (cn) {
+    let list = cn[2];
+    // "周一三点" 是周一 3 点，不是周一和周三
+    const after = normalized.slice((cn.index ?? 0) + cn[0].length);
+    if (list.replace(/[、,和及与]/g, '').length > 1 && /^\s*[点时]/.test(after)) {
+      list = list.slice(0, -1);
+    }
+    const consumed = cn[0].slice(0, cn[0].length - (cn[2].length - list.length));
+    const prefix = cn[1] ?? '';
+    const mode: WeekdayMatch['mode'] = prefix.includes('隔') ? 'other'
+      : prefix.startsWith('每') ? 'every'
+      : prefix.startsWith('下') ? 'nextWeek'
+      : prefix ? 'this' : null;
+    const days = [...new Set([...list.replace(/[、,和及与]/g, '')].map(c => CN_WEEKDAYS[c]))];
+    return { match: { days, mode, weeksAhead: (prefix.match(/下/g) ?? []).length }, rest: normalized.replace(consumed, ' ') };
+  }
+
+  // 英文：every other friday、on mondays and thursdays、next tue
+  const en = text.match(new RegExp(`\\b(every other|every|next|this|on)?\\s*\\b(?:${EN_DAY_NAMES})s?\\b(?:\\s*(?:,|and|&)\\s*(?:${EN_DAY_NAMES})s?\\b)*`));
+  if (en) {
+    const names = [...en[0].matchAll(new RegExp(`\\b(${EN_DAY_NAMES})(s?)\\b`, 'g'))];
+    const plural = names.some(n => n[2] === 's');
+    const prefix = en[1] ?? '';
+    const mode: WeekdayMatch['mode'] = prefix === 'every other' ? 'other'
+      : prefix === 'every' || plural ? 'every'
+      : prefix === 'next' ? 'next'
+      : prefix === 'this' ? 'this' : null;
+    const days = [...new Set(names.map(n => EN_WEEKDAYS[n[1]]))];
+    return { match: { days, mode, weeksAhead: 0 }, rest: text.replace(en[0], ' ') };
+  }
+
+  return { match: null, rest: text };
+}
+
+// ==================== 时刻 ====================
+
+/**
+ * 解析一天中的时间（"下午3点半"、"9:30"、"5pm"、"中午"）
+ * @returns 没有写时间时返回 null；写了但不合法（"25点"、"7:61"）时返回 'invalid'
+ */
+function parseTimeOfDay(text: string): TimeOfDay | 'invalid' | null {
+  const period = PERIODS.find(p => p.pattern.test(text));
+  let hour: number | null = null;
+  let minute = 0;
+  let meridiem: 'am' | 'pm' | null = null;
+
+  const cn = text.match(/(\d{1,2})\s*[点时](?:\s*(\d)\s*刻|\s*(半)|\s*整|\s*(\d{1,2})\s*分?)?/);
+  const en = text.match(/\b(\d{1,2})(?::(\d{2}))?\s*(am|pm|a\.m\.|p\.m\.)/);
+  const clock = text.match(/\b(\d{1,2}):(\d{2})\b/);
+  const at = text.match(/\bat (\d{1,2})\b/);
+
+  if (cn) {
+    hour = parseInt(cn[1], 10);
+    if (cn[2]) minute = parseInt(cn[2], 10) * 15;
+    else if (cn[3]) minute = 30;
+    else if (cn[4]) minute = parseInt(cn[4], 10);
+  } else if (en) {
+    hour = parseInt(en[1], 10);
+    minute = en[2] ? parseInt(en[2], 10) : 0;
+    meridiem = en[3].startsWith('p') ? 'pm' : 'am';
+  } else if (clock) {
+    hour = parseInt(clock[1], 10);
+    minute = parseInt(clock[2], 10);
+  } else if (at) {
+    hour = parseInt(at[1], 10);
+  } else if (/\bmidnight\b/.test(text)) {
+    return { hour: 0, minute: 0, nextDay: true };
+  }
+
+  if (hour === null) {
+    return period ? { hour: period.defaultHour, minute: 0 } : null;
+  }
+  if (hour > 24 || minute > 59 || (hour === 24 && minute > 0)) return 'invalid';
+  if (meridiem && (hour === 0 || hour > 12)) return 'invalid';
+
+  if (meridiem === 'pm' && hour < 12) hour += 12;
+  if (meridiem === 'am' && hour === 12) hour = 0;
+  if (!meridiem && period) {
+    // "晚上12点" 是午夜，"中午1点" 是 13 点
+    if (period.pm && hour === 12 && period.defaultHour >= 20) return { hour: 0, minute, nextDay: true };
+    if (period.pm && hour < 12) hour += 12;
+    if (period.defaultHour === 12 && hour <= 2) hour += 12;
+    if (period.defaultHour === 0 && hour === 12) hour = 0;
+  }
+  if (hour === 24) return { hour: 0, minute, nextDay: true };
+  return { hour, minute };
+}
+
+// ==================== 时长 ====================
+
+function unitMs(unit: string): { ms: number; label: string } | null {
+  const found = UNIT_MS.find(u => u.pattern.test(unit));
+  return found ? { ms: found.ms, label: found.label } : null;
+}
+
+/**
+ * 解析时长（"30分钟"、"1.5小时"、"2h"、"半小时"），返回毫秒数
+ */
+export function parseDuration(text: string): number | null {
+  const value = convertChineseNumbers(normalize(text));
+  if (/^半\s*(个)?\s*(小时|钟头)$|^half an? hour$/.test(value)) return 30 * MINUTE;
+  const halfMore = value.match(/^(\d+)\s*个半\s*(小时|钟头)$/);
+  if (halfMore) return (parseInt(halfMore[1], 10) + 0.5) * HOUR;
+  const match = value.match(new RegExp(`^(\\d+(?:\\.\\d+)?|an?)\\s*个?\\s*(${DURATION_UNITS}|s|m|h|d|w)$`));
+  if (!match) return null;
+  const unit = unitMs(match[2]);
+  if (!unit) return null;
+  const num = /^an?$/.test(match[1]) ? 1 : parseFloat(match[1]);
+  return Math.round(num * unit.ms);
+}
+
+function describeInterval(ms: number): string {
+  for (const unit of [...UNIT_MS].reverse()) {
+    if (ms % unit.ms === 0) return `每 ${ms / unit.ms} ${unit.label}`;
+  }
+  return `每 ${ms} 毫秒`;
+}
+
+// ==================== 日期 ====================
+
+interface DateMatch {
+  date: CivilDate;
+  /** 没写年份（已过则顺延到明年） */
+  yearless: boolean;
+  /** 只写了几号（已过则顺延到下个月） */
+  dayOnly: boolean;
+}
+
+function parseDate(text: string, today: CivilDate): DateMatch | null {
+  // 2026-03-05 / 2026/3/5 / 2026年3月5日
+  const full = text.match(/(\d{4})\s*[年/.-]\s*(\d{1,2})\s*[月/.-]\s*(\d{1,2})\s*[日号]?/);
+  if (full) {
+    return { date: { year: +full[1], month: +full[2], day: +full[3] }, yearless: false, dayOnly: false };
+  }
+  // 3月5日 / 3-5 / 3/5
+  const monthDay = text.match(/(?<![\d:])(\d{1,2})\s*(?:月\s*(\d{1,2})\s*[日号]?|[/-](\d{1,2})(?![\d:]))/);
+  if (monthDay) {
+    return { date: { year: today.year, month: +monthDay[1], day: +(monthDay[2] ?? monthDay[3]) }, yearless: true, dayOnly: false };
+  }
+  // march 5 / 5 march / mar 5th
+  const monthNames = Object.keys(EN_MONTHS).sort((a, b) => b.length - a.length).join('|');
+  const enDate = text.match(new RegExp(`\\b(${monthNames})\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b|\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?(${monthNames})\\b`));
+  if (enDate) {
+    const month = EN_MONTHS[enDate[1] ?? enDate[4]];
+    const day = +(enDate[2] ?? enDate[3]);
+    return { date: { year: today.year, month, day }, yearless: true, dayOnly: false };
+  }
+  // 15号
+  const dayOnly = text.match(/(?<![\d月])(\d{1,2})\s*[号日](?!\s*[后以之])/);
+  if (dayOnly) {
+    return { date: { year: today.year, month: today.month, day: +dayOnly[1] }, yearless: false, dayOnly: true };
+  }
+  return null;
+}
+
+function relativeDayOffset(text: string): number | null {
+  if (/大后天/.test(text)) return 3;
+  if (/后天|\bday after tomorrow\b/.test(text)) return 2;
+  if (/明天|明日|明早|明晚|\btomorrow\b/.test(text)) return 1;
+  if (/今天|今日|今早|今晚|\btoday\b|\btonight\b/.test(text)) return 0;
+  return null;
+}
+
+// ==================== 结果构造 ====================
+
+function onceResult(date: Date, now: Date, timeZone: string): { schedule?: ParsedSchedule; error?: string } {
+  if (date.getTime() <= now.getTime()) {
+    return { error: `时间已过: ${formatDateTime(date, timeZone)}` };
+  }
+  const iso = date.toISOString();
+  return { schedule: { type: 'once', value: iso, firstRun: iso, description: `一次性 ${formatDateTime(date, timeZone)}` } };
+}
+
+function cronResult(expression: string, description: string, now: Date, timeZone: string): { schedule?: ParsedSchedule; error?: string } {
+  const next = CronExpressionParser.parse(expression, { tz: timeZone, currentDate: now }).next().toISOString();
+  if (!next) {
+    return { error: '无法计算下次执行时间' };
+  }
+  return { schedule: { type: 'cron', value: expression, firstRun: next, description } };
+}
+
+/**
+ * 从今天起下一个（或今天）符合星期和时间的时刻
+ */
+function nextWeekdayAt(days: number[], time: TimeOfDay, today: CivilDate, now: Date, timeZone: string, minDays = 0): Date {
+  for (let offset = minDays; offset < minDays + 8; offset++) {
+    const date = addDays(today, offset);
+    if (!days.includes(weekdayOf(date))) continue;
+    const candidate = zonedToDate(date, time, timeZone);
+    if (candidate.getTime() > now.getTime()) return candidate;
+  }
+  return zonedToDate(addDays(today, minDays + 7), time, timeZone);
+}
+
+function describeWeekdays(days: number[]): string {
+  const sorted = [...days].sort((a, b) => (a || 7) - (b || 7));
+  if (sorted.join(',') === '1,2,3,4,5') return '工作日';
+  if (sorted.join(',') === '6,0') return '每周末';
+  const names = sorted.map(d => '日一二三四五六'[d]);
+  return `每周${names.join('、')}`;
+}
+
+// ==================== 公开接口 ====================
+
+/**
+ * 解析自然语言时间描述
+ * @returns schedule 为解析结果；无法识别或时间已过时返回 error
+ */
+export function parseSchedule(text: string, options: ScheduleParseOptions = {}): { schedule?: ParsedSchedule; error?: string } {
+  const now = options.now ?? new Date();
+  const timeZone = options.timezone ?? TIMEZONE;
+  const raw = normalize(text);
+  if (!raw) return { error: '时间描述为空' };
+
+  // 已是 ISO 时间
+  if (/^\d{4}-\d{2}-\d{2}t\d{2}:\d{2}/.test(raw)) {
+    const date = new Date(text.trim());
+    return isNaN(date.getTime()) ? { error: `无效的时间: ${text}` } : onceResult(date, now, timeZone);
+  }
+
+  const today: CivilDate = zonedParts(now, timeZone);
+  const { match: weekdays, rest: withoutWeekdays } = extractWeekdays(raw);
+  const value = convertChineseNumbers(withoutWeekdays);
+  const time = parseTimeOfDay(value);
+  if (time === 'invalid') return { error: `无效的时间: ${text}` };
+
+  // 相对时间：3 小时后 / 1个半小时后 / in 10 minutes / 2 days from now
+  const relative = value.match(new RegExp(`(\\d+(?:\\.\\d+)?\\s*个半|\\d+(?:\\.\\d+)?|半)\\s*个?\\s*(${DURATION_UNITS}|月)\\s*(?:后|以后|之后)`))
+    ?? value.match(new RegExp(`\\bin\\s+(\\d+(?:\\.\\d+)?|half an?|an?)\\s*(${DURATION_UNITS}|months?)\\b`))
+    ?? value.match(new RegExp(`\\b(\\d+(?:\\.\\d+)?|an?)\\s*(${DURATION_UNITS}|months?)\\s+(?:later|from now)\\b`));
+  if (relative && !/每|\bevery\b/.test(value)) {
+    const [, amountText, unit] = relative;
+    const amount = /^(半|half an?)$/.test(amountText) ? 0.5
+      : /^an?$/.test(amountText) ? 1
+      : amountText.endsWith('个半') ? parseFloat(amountText) + 0.5
+      : parseFloat(amountText);
+    if (/^(月|months?)$/.test(unit)) {
+      // 按日历月份推算，月底对齐（1月31日的一个月后是 2月28/29日）
+      const parts = zonedParts(now, timeZone);
+      const firstOfMonth = new Date(Date.UTC(parts.year, parts.month - 1 + Math.round(amount), 1));
+      const year = firstOfMonth.getUTCFullYear();
+      const month = firstOfMonth.getUTCMonth() + 1;
+      const day = Math.min(parts.day, new Date(Date.UTC(year, month, 0)).getUTCDate());
+      return onceResult(zonedToDate({ year, month, day }, time ?? parts, timeZone), now, timeZone);
+    }
+    const unitInfo = unitMs(unit);
+    if (!unitInfo) return { error: `无法识别的时长: ${relative[0]}` };
+    return onceResult(new Date(now.getTime() + Math.round(amount * unitInfo.ms)), now, timeZone);
+  }
+
+  // 固定间隔：每 30 分钟 / 每隔 2 小时 / 每 3 天早上 8 点 / every 3 hours / hourly
+  const everyN = value.match(/每隔?\s*(\d+(?:\.\d+)?|半)?\s*个?\s*(秒钟|秒|分钟|小时|钟头|天|周|星期|礼拜)/)
+    ?? value.match(new RegExp(`\\bevery\\s+(\\d+|other)?\\s*(${DURATION_UNITS})\\b`))
+    ?? (/\bhourly\b/.test(value) ? [ 'hourly', '1', 'hour' ] : null);
+  // 每天 / 每周（没有数字）交给下面的 cron 处理
+  if (everyN && !weekdays && !(everyN[1] === undefined && /^(天|周|星期|礼拜|days?|weeks?)$/.test(everyN[2]))) {
+    const count = everyN[1] === undefined ? 1 : everyN[1] === 'other' ? 2 : everyN[1] === '半' ? 0.5 : parseFloat(everyN[1]);
+    const ms = Math.round(count * unitMs(everyN[2])!.ms);
+    if (ms < SECOND) return { error: '间隔不能小于 1 秒' };
+    const byDay = ms % DAY === 0;
+    if (ms === DAY) {
+      const at = time ?? DEFAULT_TIME;
+      return cronResult(`${at.minute} ${at.hour} * * *`, `每天 ${formatTime(at)}`, now, timeZone);
+    }
+    // 按天/周的间隔在指定时刻执行，否则从现在开始计时
+    let first = new Date(now.getTime() + ms);
+    if (byDay && time) {
+      const todayAt = zonedToDate(today, time, timeZone);
+      first = todayAt.getTime() > now.getTime() ? todayAt : zonedToDate(addDays(today, 1), time, timeZone);
+    }
+    const at = byDay && time ? ` ${formatTime(time)}` : '';
+    return { schedule: { type: 'interval', value: String(ms), firstRun: first.toISOString(), description: `${describeInterval(ms)}${at}` } };
+  }
+
+  const at = time ?? DEFAULT_TIME;
+
+  // 星期
+  if (weekdays) {
+    if (weekdays.mode === 'every') {
+      const days = [...weekdays.days].sort((a, b) => a - b);
+      return cronResult(`${at.minute} ${at.hour} * * ${days.join(',')}`, `${describeWeekdays(days)} ${formatTime(at)}`, now, timeZone);
+    }
+    if (weekdays.mode === 'other') {
+      const first = nextWeekdayAt(weekdays.days.slice(0, 1), at, today, now, timeZone);
+      return {
+        schedule: {
+          type: 'interval',
+          value: String(2 * WEEK),
+          firstRun: first.toISOString(),
+          description: `每两周周${'日一二三四五六'[weekdays.days[0]]} ${formatTime(at)}`
+        }
+      };
+    }
+    const mondayOffset = (weekdayOf(today) + 6) % 7;
+    const day = weekdays.days[0];
+    if (weekdays.mode === 'nextWeek' || weekdays.mode === 'this') {
+      // 下周X / 本周X：按周一为一周开始定位
+      const offset = 7 * weekdays.weeksAhead - mondayOffset + ((day + 6) % 7);
+      return onceResult(zonedToDate(addDays(today, offset), at, timeZone), now, timeZone);
+    }
+    return onceResult(nextWeekdayAt(weekdays.days, at, today, now, timeZone, weekdays.mode === 'next' ? 1 : 0), now, timeZone);
+  }
+
+  // 每天 / 每月 N 号 / 每年 M 月 D 日
+  if (/每天|每日|每晚|每早|\bdaily\b|\bevery (day|night|morning|evening)\b/.test(value)) {
+    return cronResult(`${at.minute} ${at.hour} * * *`, `每天 ${formatTime(at)}`, now, timeZone);
+  }
+  const monthly = value.match(/每个?月\s*(?:的)?\s*(\d{1,2})\s*[号日]/)
+    ?? value.match(/\b(?:every month|monthly)(?: on)?(?: the)? (\d{1,2})(?:st|nd|rd|th)?\b/)
+    ?? value.match(/\bon the (\d{1,2})(?:st|nd|rd|th)? of every month\b/);
+  if (monthly) {
+    const day = parseInt(monthly[1], 10);
+    if (day < 1 || day > 31) return { error: `无效的日期: ${day} 号` };
+    return cronResult(`${at.minute} ${at.hour} ${day} * *`, `每月 ${day} 号 ${formatTime(at)}`, now, timeZone);
+  }
+  if (/每年|\bevery year\b|\byearly\b|\bannually\b/.test(value)) {
+    const date = parseDate(value, today);
+    if (!date || date.dayOnly) return { error: '每年的任务需要指定月和日' };
+    return cronResult(
+      `${at.minute} ${at.hour} ${date.date.day} ${date.date.month} *`,
+      `每年 ${date.date.month} 月 ${date.date.day} 日 ${formatTime(at)}`,
+      now,
+      timeZone
+    );
+  }
+  if (/每|\bevery\b/.test(value)) {
+    return { error: `无法识别的重复周期: ${text}` };
+  }
+
+  // 一次性：明天早上 9 点 / 3月5日下午 / tomorrow at 5pm / 下午 3 点
+  const dayOffset = relativeDayOffset(value);
+  const date = dayOffset === null ? parseDate(value, today) : null;
+  if (dayOffset === null && !date && !time) {
+    return { error: `无法识别的时间描述: ${text}` };
+  }
+
+  let target: CivilDate;
+  if (dayOffset !== null) {
+    target = addDays(today, dayOffset);
+  } else if (date) {
+    if (!isValidDate(date.date)) return { error: `无效的日期: ${text}` };
+    target = date.date;
+    const candidate = zonedToDate(target, at, timeZone);
+    if (candidate.getTime() <= now.getTime()) {
+      if (date.yearless) target = { ...target, year: target.year + 1 };
+      else if (date.dayOnly) {
+        const next = new Date(Date.UTC(target.year, target.month, target.day));
+        target = { year: next.getUTCFullYear(), month: next.getUTCMonth() + 1, day: next.getUTCDate() };
+      }
+    }
+  } else {
+    // 只有时间：今天还没到就是今天，否则明天
+    const todayAt = zonedToDate(at.nextDay ? addDays(today, 1) : today, at, timeZone);
+    target = todayAt.getTime() > now.getTime() ? today : addDays(today, 1);
+  }
+  if (at.nextDay) target = addDays(target, 1);
+
+  return onceResult(zonedToDate(target, at, timeZone), now, timeZone);
+}
+
+/**
+ * 计算接下来几次执行时间（用于预览）
+ */
+export function previewRuns(schedule: ParsedSchedule, count = 3, options: ScheduleParseOptions = {}): Date[] {
+  const timeZone = options.timezone ?? TIMEZONE;
+  const first = new Date(schedule.firstRun);
+  if (schedule.type === 'once') return [first];
+  if (schedule.type === 'interval') {
+    const ms = parseInt(schedule.value, 10);
+    return Array.from({ length: count }, (_, i) => new Date(first.getTime() + i * ms));
+  }
+  const interval = CronExpressionParser.parse(schedule.value, { tz: timeZone, currentDate: options.now ?? new Date() });
+  return Array.from({ length: count }, () => interval.next().toDate());
+}
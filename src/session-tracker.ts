@@ -2,13 +2,15 @@
  * Session Tracker
  * 
  * 追踪每个会话的 token 使用量和状态
+ * 会话数据持久化在 SQLite（session_usage 表），重启后由 initSessionTracker() 恢复
  */
 
-import { existsSync, readFileSync, statSync } from 'fs';
-import { promises as fs } from 'fs';
+import { existsSync, readFileSync, statSync, unlinkSync } from 'fs';
 import { join } from 'path';
 import { getFlashClawHome } from './paths.js';
 import { createLogger } from './logger.js';
+import { saveSessionUsage, getAllSessionUsage, deleteSessionUsage, deleteSessionUsageBefore } from './db.js';
+import type { SessionUsageRow } from './types.js';
 
 const logger = createLogger('SessionTracker');
 
@@ -44,53 +46,102 @@ export interface TokenUsage {
   outputTokens: number;
 }
 
-// 内存存储 - 按 chatId 存储会话数据
+// 内存存储 - 按 chatId 存储会话数据（写入时同步到数据库）
 const sessions = new Map<string, SessionData>();
 
-const SESSION_CACHE_PATH = join(getFlashClawHome(), 'cache', 'session-tracker.json');
+// 旧版 JSON 缓存文件（启动时导入数据库后删除）
 const MAX_SESSION_CACHE_BYTES = 10 * 1024 * 1024;
-let persistTimer: NodeJS.Timeout | null = null;
 
-function loadSessionsFromDisk(): void {
+function getLegacyCachePath(): string {
+  return join(getFlashClawHome(), 'cache', 'session-tracker.json');
+}
+
+function hasDb(): boolean {
+  return !!global.__flashclaw_db;
+}
+
+function toRow(session: SessionData): SessionUsageRow {
+  return {
+    chat_jid: session.chatId,
+    message_count: session.messageCount,
+    input_tokens: session.inputTokens,
+    output_tokens: session.outputTokens,
+    model: session.model,
+    started_at: session.startedAt,
+    last_activity_at: session.lastActivityAt,
+    compact_suggested: session.compactSuggested ? 1 : 0,
+  };
+}
+
+function fromRow(row: SessionUsageRow): SessionData {
+  return {
+    chatId: row.chat_jid,
+    messageCount: row.message_count,
+    inputTokens: row.input_tokens,
+    outputTokens: row.output_tokens,
+    totalTokens: row.input_tokens + row.output_tokens,
+    model: row.model,
+    startedAt: row.started_at,
+    lastActivityAt: row.last_activity_at,
+    compactSuggested: row.compact_suggested === 1,
+  };
+}
+
+function persistSession(session: SessionData): void {
+  if (!hasDb()) return;
   try {
-    if (!existsSync(SESSION_CACHE_PATH)) return;
-    const stat = statSync(SESSION_CACHE_PATH);
-    if (stat.size > MAX_SESSION_CACHE_BYTES) {
-      logger.warn({ size: stat.size }, '📊 会话追踪缓存文件过大，跳过加载');
-      return;
-    }
-    const content = readFileSync(SESSION_CACHE_PATH, 'utf-8');
-    const parsed = JSON.parse(content);
-    if (!Array.isArray(parsed)) return;
-    for (const item of parsed) {
-      if (item && typeof item.chatId === 'string') {
-        sessions.set(item.chatId, item as SessionData);
-      }
-    }
-    logger.debug({ count: sessions.size }, '📊 会话追踪缓存已加载');
+    saveSessionUsage(toRow(session));
   } catch (error) {
-    logger.warn({ error }, '📊 加载会话追踪缓存失败');
+    logger.warn({ error, chatId: session.chatId }, '📊 保存会话用量失败');
   }
 }
 
-async function persistSessions(): Promise<void> {
+/**
+ * 导入旧版 JSON 缓存（cache/session-tracker.json）
+ */
+function importLegacyCache(): number {
+  const cachePath = getLegacyCachePath();
+  if (!existsSync(cachePath)) return 0;
+
+  let imported = 0;
   try {
-    const cacheDir = join(getFlashClawHome(), 'cache');
-    await fs.mkdir(cacheDir, { recursive: true });
-    const payload = JSON.stringify(Array.from(sessions.values()), null, 2);
-    await fs.writeFile(SESSION_CACHE_PATH, payload, 'utf-8');
+    if (statSync(cachePath).size > MAX_SESSION_CACHE_BYTES) {
+      logger.warn({ size: statSync(cachePath).size }, '📊 旧版会话缓存文件过大，跳过导入');
+    } else {
+      const parsed = JSON.parse(readFileSync(cachePath, 'utf-8'));
+      if (Array.isArray(parsed)) {
+        for (const item of parsed) {
+          if (item && typeof item.chatId === 'string') {
+            persistSession(item as SessionData);
+            imported++;
+          }
+        }
+      }
+    }
+    unlinkSync(cachePath);
+    logger.info({ imported }, '📊 旧版会话缓存已导入数据库');
   } catch (error) {
-    logger.warn({ error }, '📊 保存会话追踪缓存失败');
+    logger.warn({ error }, '📊 导入旧版会话缓存失败');
   }
+  return imported;
 }
 
-function schedulePersist(): void {
-  if (persistTimer) return;
-  persistTimer = setTimeout(() => {
-    persistTimer = null;
-    void persistSessions();
-  }, 1000);
-  persistTimer.unref?.();
+/**
+ * 从数据库恢复会话数据（需在 initDatabase() 之后调用）
+ */
+export function initSessionTracker(): void {
+  if (!hasDb()) return;
+
+  try {
+    importLegacyCache();
+    for (const row of getAllSessionUsage()) {
+      sessions.set(row.chat_jid, fromRow(row));
+    }
+    cleanupStaleSessions();
+    logger.debug({ count: sessions.size }, '📊 会话用量已从数据库恢复');
+  } catch (error) {
+    logger.warn({ error }, '📊 恢复会话用量失败');
+  }
 }
 
 // 默认上下文窗口大小（Claude 3.5 Sonnet = 200k）
@@ -162,7 +213,7 @@ export function recordTokenUsage(chatId: string, usage: TokenUsage, model?: stri
     totalTokens: session.totalTokens
   }, '📊 Token 使用已记录');
 
-  schedulePersist();
+  persistSession(session);
   
   return session;
 }
@@ -213,6 +264,7 @@ export function checkCompactThreshold(chatId: string): number | null {
   
   if (usageRate >= COMPACT_THRESHOLD) {
     session.compactSuggested = true;
+    persistSession(session);
     return Math.round(usageRate * 100);
   }
   
@@ -224,7 +276,13 @@ export function checkCompactThreshold(chatId: string): number | null {
  */
 export function resetSession(chatId: string): void {
   sessions.delete(chatId);
-  schedulePersist();
+  if (hasDb()) {
+    try {
+      deleteSessionUsage(chatId);
+    } catch (error) {
+      logger.warn({ error, chatId }, '📊 删除会话用量失败');
+    }
+  }
   logger.debug({ chatId }, '📊 会话追踪已重置');
 }
 
@@ -234,9 +292,12 @@ export function resetSession(chatId: string): void {
 export function getSessionStats(chatId: string): {
   messageCount: number;
   tokenCount: number;
+  inputTokens: number;
+  outputTokens: number;
   maxTokens: number;
   model: string;
   startedAt: string;
+  lastActivityAt: string;
   usagePercent: number;
 } | null {
   const session = sessions.get(chatId);
@@ -250,9 +311,12 @@ export function getSessionStats(chatId: string): {
   return {
     messageCount: session.messageCount,
     tokenCount: session.totalTokens,
+    inputTokens: session.inputTokens,
+    outputTokens: session.outputTokens,
     maxTokens,
     model: session.model,
     startedAt: session.startedAt,
+    lastActivityAt: session.lastActivityAt,
     usagePercent
   };
 }
@@ -279,23 +343,29 @@ export function cleanupStaleSessions(maxAgeMs: number = 24 * 60 * 60 * 1000): nu
     }
   }
   
+  if (hasDb()) {
+    try {
+      deleteSessionUsageBefore(new Date(now - maxAgeMs).toISOString());
+    } catch (error) {
+      logger.warn({ error }, '📊 清理过期会话用量失败');
+    }
+  }
+  
   if (cleaned > 0) {
     logger.info({ cleaned }, '📊 清理过期会话');
-    schedulePersist();
   }
   
   return cleaned;
 }
 
-// 初始化：加载缓存并定期清理
-loadSessionsFromDisk();
+// 定期清理过期会话
 let cleanupTimer: NodeJS.Timeout | null = setInterval(() => {
   cleanupStaleSessions();
 }, 60 * 60 * 1000);
 cleanupTimer.unref?.();
 
 /**
- * 关闭 session tracker（持久化并清理定时器）
+ * 关闭 session tracker（清理定时器，会话数据已实时写入数据库）
  * 应在优雅关闭时调用
  */
 export async function shutdownSessionTracker(): Promise<void> {
@@ -303,11 +373,5 @@ export async function shutdownSessionTracker(): Promise<void> {
     clearInterval(cleanupTimer);
     cleanupTimer = null;
   }
-  if (persistTimer) {
-    clearTimeout(persistTimer);
-    persistTimer = null;
-  }
-  // 最后持久化一次
-  await persistSessions();
   logger.debug('📊 Session tracker 已关闭');
 }
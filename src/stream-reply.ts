@@ -0,0 +1,220 @@
+/**
+ * FlashClaw 流式回复
+ *
+ * 把 Agent 的流式输出逐步编辑到聊天渠道中的同一条回复消息：
+ * - 按渠道声明的间隔节流编辑，单条消息的编辑次数有上限时保留最后一次给最终内容
+ * - 超过单条消息长度上限时续写到新消息
+ * - 工具调用时在末尾显示进度行（🔧 web_search…），文本继续输出后移除
+ * - 结束时以最终回复为准校正所有消息（预览中可能有工具调用前的过渡文字）
+ */
+
+import { createLogger } from './logger.js';
+import type { ChannelStreamingOptions } from './plugins/types.js';
+
+const logger = createLogger('StreamReply');
+
+/** 首次发送前至少积累的字符数，避免只发出一两个字 */
+const MIN_FIRST_CHARS = 10;
+/** 进度区最多显示的工具行数 */
+const MAX_TOOL_LINES = 3;
+
+// ==================== 类型定义 ====================
+
+export interface StreamReplyTarget {
+  /** 发送新消息，返回消息 ID（失败时返回 undefined） */
+  send(text: string): Promise<string | undefined>;
+  update(messageId: string, text: string): Promise<void>;
+  remove?(messageId: string): Promise<void>;
+}
+
+export interface StreamReplyOptions extends ChannelStreamingOptions {
+  /** 回复前缀（如 "FlashClaw: "），只加在第一条消息上 */
+  prefix?: string;
+  /** 显示工具调用进度 */
+  toolProgress?: boolean;
+}
+
+interface SentMessage {
+  id: string;
+  text: string;
+  edits: number;
+}
+
+// ==================== 工具函数 ====================
+
+/**
+ * 按长度上限切分文本，优先在后半段的换行处断开
+ */
+export function splitMessage(text: string, maxLength: number): string[] {
+  const chunks: string[] = [];
+  let rest = text;
+  while (rest.length > maxLength) {
+    let cut = rest.lastIndexOf('\n', maxLength);
+    if (cut < maxLength / 2) cut = maxLength;
+    chunks.push(rest.slice(0, cut));
+    rest = rest.slice(cut).replace(/^\n/, '');
+  }
+  chunks.push(rest);
+  return chunks;
+}
+
+// ==================== 流式回复 ====================
+
+export class StreamingReply {
+  private text = '';
+  private status = '';
+  private tools: string[] = [];
+  private messages: SentMessage[] = [];
+  private lastEditAt = 0;
+  private timer: NodeJS.Timeout | null = null;
+  private queue: Promise<void> = Promise.resolve();
+  private broken = false;
+  private closed = false;
+
+  constructor(
+    private readonly target: StreamReplyTarget,
+    private readonly options: StreamReplyOptions
+  ) {}
+
+  /**
+   * 追加流式文本
+   */
+  push(token: string): void {
+    if (this.closed || !token) return;
+    this.text += token;
+    this.status = '';
+    this.tools = [];
+    this.schedule();
+  }
+
+  /**
+   * 记录工具调用（同一工具连续调用只显示一行）
+   */
+  toolUse(name: string): void {
+    if (this.closed || !this.options.toolProgress) return;
+    if (this.tools[this.tools.length - 1] !== name) {
+      this.tools.push(name);
+    }
+    this.schedule();
+  }
+
+  /**
+   * 还没有文本时显示的状态（如 "正在思考..."）
+   */
+  setStatus(status: string): void {
+    if (this.closed || this.text) return;
+    this.status = status;
+    this.schedule();
+  }
+
+  /**
+   * 以最终内容结束：校正已发出的消息，不足的续发，多余的删除
+   * @returns 是否成功；失败时已尽量删除预览消息，调用方应按普通方式发送
+   */
+  async finish(finalText: string): Promise<boolean> {
+    this.close();
+    await this.queue;
+
+    if (!this.broken) {
+      try {
+        await this.sync(splitMessage(`${this.options.prefix ?? ''}${finalText}`, this.options.maxLength), true);
+        return true;
+      } catch (err) {
+        logger.warn({ err: String(err) }, '流式回复最终更新失败，改为重新发送');
+      }
+    }
+
+    await this.removeAll();
+    return false;
+  }
+
+  /**
+   * 放弃回复，删除已发出的预览消息
+   */
+  async discard(): Promise<void> {
+    this.close();
+    await this.queue;
+    await this.removeAll();
+  }
+
+  private close(): void {
+    this.closed = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private schedule(): void {
+    if (this.timer || this.closed || this.broken) return;
+    const wait = Math.max(0, this.lastEditAt + this.options.editIntervalMs - Date.now());
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.queue = this.queue.then(() => this.flushPreview());
+    }, wait);
+  }
+
+  private render(): string[] {
+    const body = this.text || this.status;
+    if (!this.messages.length && !this.status && !this.tools.length && this.text.length < MIN_FIRST_CHARS) {
+      return [];
+    }
+    const progress = this.tools.slice(-MAX_TOOL_LINES).map(name => `🔧 ${name}…`).join('\n');
+    const content = [body, progress].filter(Boolean).join('\n\n');
+    return content ? splitMessage(`${this.options.prefix ?? ''}${content}`, this.options.maxLength) : [];
+  }
+
+  private async flushPreview(): Promise<void> {
+    if (this.closed || this.broken) return;
+    try {
+      await this.sync(this.render(), false);
+    } catch (err) {
+      // 预览失败后不再编辑，结束时由 finish 兜底
+      this.broken = true;
+      logger.warn({ err: String(err) }, '流式回复更新失败，停止预览');
+    }
+  }
+
+  private async sync(chunks: string[], final: boolean): Promise<void> {
+    const maxEdits = this.options.maxEdits ?? Infinity;
+
+    for (let i = 0; i < chunks.length; i++) {
+      const chunk = chunks[i];
+      const sent = this.messages[i];
+      if (!sent) {
+        const id = await this.target.send(chunk);
+        if (!id) throw new Error('渠道未返回消息 ID');
+        this.messages.push({ id, text: chunk, edits: 0 });
+      } else if (sent.text !== chunk) {
+        // 预览最多用到 maxEdits - 1 次，最后一次留给最终内容
+        if (!final && sent.edits >= maxEdits - 1) continue;
+        await this.target.update(sent.id, chunk);
+        sent.text = chunk;
+        sent.edits++;
+      }
+    }
+    this.lastEditAt = Date.now();
+
+    if (final && this.messages.length > chunks.length) {
+      const extra = this.messages.splice(chunks.length);
+      for (const message of extra) {
+        await this.removeMessage(message.id);
+      }
+    }
+  }
+
+  private async removeAll(): Promise<void> {
+    const messages = this.messages.splice(0);
+    for (const message of messages) {
+      await this.removeMessage(message.id);
+    }
+  }
+
+  private async removeMessage(id: string): Promise<void> {
+    try {
+      await this.target.remove?.(id);
+    } catch (err) {
+      logger.debug({ messageId: id, err: String(err) }, '删除流式预览消息失败');
+    }
+  }
+}
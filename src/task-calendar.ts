@@ -0,0 +1,600 @@
+/**
+ * FlashClaw 任务日历
+ *
+ * 1. 导出 - 把活跃的定时任务导出为 iCalendar（.ics），cron / interval 尽量转换为 RRULE
+ * 2. 导入 - 把日历中带提醒（VALARM）的事件转换为提醒任务，重复事件转换为 cron / interval
+ *
+ * Web UI 的 /calendar/<群组>.ics 订阅地址和 `flashclaw calendar` 命令都使用这里的实现。
+ */
+
+import crypto from 'crypto';
+import { CronExpressionParser } from 'cron-parser';
+import { TIMEZONE } from './config.js';
+import { createTask, getTaskById } from './db.js';
+import { zonedParts, zonedToDate, weekdayOf } from './schedule-parser.js';
+import type { ScheduledTask } from './types.js';
+
+// ==================== 类型定义 ====================
+
+export interface IcsExportOptions {
+  /** 日历名称（X-WR-CALNAME） */
+  name?: string;
+  timezone?: string;
+  now?: Date;
+}
+
+export interface IcsAlarm {
+  /** 相对事件开始的偏移（毫秒，负数表示提前） */
+  offsetMs: number;
+  /** 绝对时间触发（TRIGGER;VALUE=DATE-TIME） */
+  at?: Date;
+}
+
+export interface IcsEvent {
+  uid: string;
+  summary: string;
+  description: string;
+  start: Date;
+  allDay: boolean;
+  /** 重复规则（键为大写属性名，如 FREQ、BYDAY） */
+  rrule: Record<string, string> | null;
+  alarms: IcsAlarm[];
+}
+
+export interface IcsImportOptions {
+  groupFolder: string;
+  chatJid: string;
+  now?: Date;
+  timezone?: string;
+}
+
+export interface IcsImportResult {
+  created: ScheduledTask[];
+  skipped: Array<{ summary: string; reason: string }>;
+}
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+const WEEK = 7 * DAY;
+
+const ICS_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const CRON_DAY_NAMES: Record<string, number> = { SUN: 0, MON: 1, TUE: 2, WED: 3, THU: 4, FRI: 5, SAT: 6 };
+const CRON_MONTH_NAMES: Record<string, number> = {
+  JAN: 1, FEB: 2, MAR: 3, APR: 4, MAY: 5, JUN: 6, JUL: 7, AUG: 8, SEP: 9, OCT: 10, NOV: 11, DEC: 12
+};
+
+/** 导入时支持的 RRULE 属性 */
+const SUPPORTED_RRULE_PARTS = new Set(['FREQ', 'INTERVAL', 'BYDAY', 'BYMONTHDAY', 'BYMONTH', 'WKST']);
+/** 单行最大字节数（RFC 5545 3.1） */
+const MAX_LINE_OCTETS = 75;
+/** 事件标题最大长度 */
+const MAX_SUMMARY_CHARS = 60;
+
+// ==================== 格式化工具 ====================
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0');
+}
+
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function formatLocal(date: Date, timeZone: string): string {
+  const p = zonedParts(date, timeZone);
+  return `${p.year}${pad(p.month)}${pad(p.day)}T${pad(p.hour)}${pad(p.minute)}${pad(p.second)}`;
+}
+
+function escapeText(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+function unescapeText(text: string): string {
+  return text.replace(/\\([\\;,nN])/g, (_, c: string) => (c === 'n' || c === 'N' ? '\n' : c));
+}
+
+/**
+ * 按 75 字节折行（不拆开多字节字符）
+ */
+function foldLine(line: string): string {
+  if (Buffer.byteLength(line) <= MAX_LINE_OCTETS) return line;
+  const parts: string[] = [];
+  let current = '';
+  let size = 0;
+  for (const char of line) {
+    const bytes = Buffer.byteLength(char);
+    // 续行以一个空格开头，也计入长度
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (size + bytes > limit) {
+      parts.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += bytes;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+// ==================== 导出 ====================
+
+/**
+ * 解析 cron 字段中的数字列表（支持 a,b 和 a-b），* 返回 null，无法表示时返回 undefined
+ */
+function parseCronList(field: string, names: Record<string, number> = {}): number[] | null | undefined {
+  if (field === '*' || field === '?') return null;
+  const values: number[] = [];
+  for (const part of field.split(',')) {
+    const range = part.split('-').map(v => names[v.toUpperCase()] ?? (/^\d+$/.test(v) ? parseInt(v, 10) : NaN));
+    if (range.some(isNaN) || range.length > 2) return undefined;
+    const [from, to = from] = range;
+    if (to < from) return undefined;
+    for (let v = from; v <= to; v++) values.push(v);
+  }
+  return [...new Set(values)].sort((a, b) => a - b);
+}
+
+/**
+ * 把 5 段 cron 表达式转换为 RRULE（无法等价表示时返回 null）
+ */
+export function cronToRRule(expression: string): string | null {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) return null;
+  const [minute, hour, dom, month, dow] = fields;
+
+  const step = (field: string) => field.match(/^\*\/(\d+)$/)?.[1];
+  const rest = (...list: string[]) => list.every(f => f === '*');
+
+  // 每 n 分钟 / 每 n 小时
+  const minuteStep = step(minute);
+  if ((minuteStep || minute === '*') && rest(hour, dom, month, dow)) {
+    const n = minuteStep ? parseInt(minuteStep, 10) : 1;
+    return n > 0 && 60 % n === 0 ? `FREQ=MINUTELY${n > 1 ? `;INTERVAL=${n}` : ''}` : null;
+  }
+  const hourStep = step(hour);
+  if (/^\d+$/.test(minute) && (hourStep || hour === '*') && rest(dom, month, dow)) {
+    const n = hourStep ? parseInt(hourStep, 10) : 1;
+    return n > 0 && 24 % n === 0 ? `FREQ=HOURLY${n > 1 ? `;INTERVAL=${n}` : ''}` : null;
+  }
+
+  const minutes = parseCronList(minute);
+  const hours = parseCronList(hour);
+  const days = parseCronList(dom);
+  const months = parseCronList(month, CRON_MONTH_NAMES);
+  const weekdays = parseCronList(dow, CRON_DAY_NAMES);
+  if (!minutes || !hours || days === undefined || months === undefined || weekdays === undefined) return null;
+  // cron 同时限定日期和星期时是 "或" 的关系，RRULE 无法表示
+  if (days && weekdays) return null;
+
+  const parts: string[] = [];
+  if (weekdays) {
+    parts.push('FREQ=WEEKLY', `BYDAY=${[...new Set(weekdays.map(d => ICS_WEEKDAYS[d % 7]))].join(',')}`);
+  } else if (days) {
+    parts.push(months ? 'FREQ=YEARLY' : 'FREQ=MONTHLY', `BYMONTHDAY=${days.join(',')}`);
+  } else {
+    parts.push('FREQ=DAILY');
+  }
+  if (months) parts.push(`BYMONTH=${months.join(',')}`);
+  parts.push(`BYHOUR=${hours.join(',')}`, `BYMINUTE=${minutes.join(',')}`);
+  return parts.join(';');
+}
+
+/**
+ * 把间隔毫秒数转换为 RRULE（取能整除的最大单位）
+ */
+export function intervalToRRule(ms: number): string | null {
+  const units: Array<[number, string]> = [[DAY, 'DAILY'], [HOUR, 'HOURLY'], [MINUTE, 'MINUTELY'], [SECOND, 'SECONDLY']];
+  for (const [unit, freq] of units) {
+    if (ms >= unit && ms % unit === 0) {
+      const n = ms / unit;
+      return `FREQ=${freq}${n > 1 ? `;INTERVAL=${n}` : ''}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * 日历中显示的任务标题
+ */
+function taskSummary(task: ScheduledTask): string {
+  const reminder = task.prompt.match(/⏰ 提醒：([^\n]+)/)?.[1];
+  const line = (reminder ?? task.prompt.split('\n').find(l => l.trim()) ?? task.id).trim();
+  return line.length > MAX_SUMMARY_CHARS ? `${line.slice(0, MAX_SUMMARY_CHARS)}...` : line;
+}
+
+function taskToEvent(task: ScheduledTask, timeZone: string, now: Date): string[] | null {
+  if (!task.next_run) return null;
+  const notes = [`任务 ID: ${task.id}`, `调度: ${task.schedule_type} ${task.schedule_value}`];
+  let dtstart = `DTSTART:${formatUtc(new Date(task.next_run))}`;
+  let rrule: string | null = null;
+
+  if (task.schedule_type === 'cron') {
+    rrule = cronToRRule(task.schedule_value);
+    if (rrule) {
+      // 按规则重新计算首次时间，避免补跑、免打扰顺延后的 next_run 偏离规则
+      try {
+        const first = CronExpressionParser.parse(task.schedule_value, { tz: timeZone, currentDate: now }).next().toDate();
+        dtstart = `DTSTART;TZID=${timeZone}:${formatLocal(first, timeZone)}`;
+      } catch {
+        rrule = null;
+      }
+    }
+    if (!rrule) notes.push('该 cron 表达式无法转换为重复规则，只导出下一次执行');
+  } else if (task.schedule_type === 'interval') {
+    rrule = intervalToRRule(parseInt(task.schedule_value, 10));
+  }
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${task.id}@flashclaw`,
+    `DTSTAMP:${formatUtc(now)}`,
+    dtstart,
+    ...(rrule ? [`RRULE:${rrule}`] : []),
+    `SUMMARY:${escapeText(taskSummary(task))}`,
+    `DESCRIPTION:${escapeText(`${task.prompt}\n\n${notes.join('\n')}`)}`,
+    `CATEGORIES:${escapeText(task.group_folder)}`,
+    'END:VEVENT'
+  ];
+}
+
+/**
+ * 把活跃的定时任务导出为 iCalendar 文本
+ */
+export function exportTasksToIcs(tasks: ScheduledTask[], options: IcsExportOptions = {}): string {
+  const timeZone = options.timezone ?? TIMEZONE;
+  const now = options.now ?? new Date();
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//FlashClaw//Scheduled Tasks//ZH',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.name ?? 'FlashClaw 定时任务')}`,
+    `X-WR-TIMEZONE:${timeZone}`,
+    // 订阅方的建议刷新间隔
+    'REFRESH-INTERVAL;VALUE=DURATION:PT15M',
+    'X-PUBLISHED-TTL:PT15M'
+  ];
+  for (const task of tasks) {
+    // 内置系统任务不导出
+    if (task.status !== 'active' || task.kind === 'memory-consolidation') continue;
+    const event = taskToEvent(task, timeZone, now);
+    if (event) lines.push(...event);
+  }
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+// ==================== 解析 ====================
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+function parseProperty(line: string): IcsProperty | null {
+  // 参数值可能带引号并包含冒号
+  let colon = -1;
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') quoted = !quoted;
+    else if (line[i] === ':' && !quoted) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon <= 0) return null;
+  const [name, ...rawParams] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  for (const raw of rawParams) {
+    const eq = raw.indexOf('=');
+    if (eq > 0) params[raw.slice(0, eq).toUpperCase()] = raw.slice(eq + 1).replace(/^"|"$/g, '');
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 解析 DATE / DATE-TIME 值（UTC、带 TZID 或浮动时间）
+ */
+function parseDateValue(prop: IcsProperty, timeZone: string): { date: Date; allDay: boolean } | null {
+  const value = prop.value.trim();
+  const dateOnly = value.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (dateOnly) {
+    const [year, month, day] = dateOnly.slice(1).map(n => parseInt(n, 10));
+    return { date: zonedToDate({ year, month, day }, { hour: 0, minute: 0 }, timeZone), allDay: true };
+  }
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/);
+  if (!match) return null;
+  const [year, month, day, hour, minute, second] = match.slice(1, 7).map(n => parseInt(n, 10));
+  if (match[7]) {
+    return { date: new Date(Date.UTC(year, month - 1, day, hour, minute, second)), allDay: false };
+  }
+  // 无法识别的 TZID（如 Windows 时区名）按默认时区处理
+  const tz = prop.params.TZID && isValidTimeZone(prop.params.TZID) ? prop.params.TZID : timeZone;
+  const local = zonedToDate({ year, month, day }, { hour, minute }, tz);
+  return { date: new Date(local.getTime() + second * SECOND), allDay: false };
+}
+
+/**
+ * 解析 ISO 8601 时长（如 -PT15M、P1D、-P1DT2H）
+ */
+function parseIcsDuration(value: string): number | null {
+  const match = value.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+  const [, sign, w, d, h, m, s] = match;
+  const ms = (parseInt(w || '0', 10) * WEEK) + (parseInt(d || '0', 10) * DAY) + (parseInt(h || '0', 10) * HOUR)
+    + (parseInt(m || '0', 10) * MINUTE) + (parseInt(s || '0', 10) * SECOND);
+  return sign === '-' ? -ms : ms;
+}
+
+/**
+ * 解析 iCalendar 文本中的 VEVENT（含 VALARM）
+ */
+export function parseIcs(text: string, timezone = TIMEZONE): IcsEvent[] {
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const events: IcsEvent[] = [];
+  const stack: string[] = [];
+  let event: { props: Map<string, IcsProperty>; alarms: Array<{ trigger?: IcsProperty }> } | null = null;
+
+  for (const line of lines) {
+    const prop = parseProperty(line);
+    if (!prop) continue;
+
+    if (prop.name === 'BEGIN') {
+      const component = prop.value.trim().toUpperCase();
+      stack.push(component);
+      if (component === 'VEVENT') event = { props: new Map(), alarms: [] };
+      if (component === 'VALARM' && event) event.alarms.push({});
+      continue;
+    }
+    if (prop.name === 'END') {
+      const component = stack.pop();
+      if (component === 'VEVENT' && event) {
+        const parsed = buildEvent(event.props, event.alarms, timezone);
+        if (parsed) events.push(parsed);
+        event = null;
+      }
+      continue;
+    }
+
+    const current = stack[stack.length - 1];
+    if (current === 'VEVENT' && event && !event.props.has(prop.name)) {
+      event.props.set(prop.name, prop);
+    } else if (current === 'VALARM' && event && prop.name === 'TRIGGER') {
+      event.alarms[event.alarms.length - 1].trigger = prop;
+    }
+  }
+  return events;
+}
+
+function buildEvent(
+  props: Map<string, IcsProperty>,
+  rawAlarms: Array<{ trigger?: IcsProperty }>,
+  timezone: string
+): IcsEvent | null {
+  const dtstart = props.get('DTSTART');
+  const start = dtstart ? parseDateValue(dtstart, timezone) : null;
+  if (!start) return null;
+
+  const dtend = props.get('DTEND');
+  const duration = props.get('DURATION');
+  const end = dtend ? parseDateValue(dtend, timezone)?.date
+    : duration ? new Date(start.date.getTime() + (parseIcsDuration(duration.value) ?? 0))
+    : start.date;
+  const endOffset = (end ?? start.date).getTime() - start.date.getTime();
+
+  const alarms: IcsAlarm[] = [];
+  for (const { trigger } of rawAlarms) {
+    if (!trigger) continue;
+    if (trigger.params.VALUE?.toUpperCase() === 'DATE-TIME') {
+      const at = parseDateValue(trigger, timezone);
+      if (at) alarms.push({ offsetMs: at.date.getTime() - start.date.getTime(), at: at.date });
+      continue;
+    }
+    const offset = parseIcsDuration(trigger.value);
+    if (offset === null) continue;
+    alarms.push({ offsetMs: offset + (trigger.params.RELATED?.toUpperCase() === 'END' ? endOffset : 0) });
+  }
+
+  const rruleProp = props.get('RRULE');
+  const rrule = rruleProp
+    ? Object.fromEntries(rruleProp.value.split(';').filter(Boolean).map(part => {
+      const [key, ...rest] = part.split('=');
+      return [key.toUpperCase(), rest.join('=').toUpperCase()];
+    }))
+    : null;
+
+  const summary = unescapeText(props.get('SUMMARY')?.value ?? '').trim();
+  return {
+    uid: props.get('UID')?.value.trim() || `${summary}@${start.date.toISOString()}`,
+    summary: summary || '(无标题)',
+    description: unescapeText(props.get('DESCRIPTION')?.value ?? ''),
+    start: start.date,
+    allDay: start.allDay,
+    rrule,
+    alarms
+  };
+}
+
+// ==================== 导入 ====================
+
+/**
+ * 把重复规则转换为提醒任务的调度配置（无法等价表示时返回 null）
+ * @param fire 首次提醒时间（事件开始时间加提醒偏移）
+ * @param dayShift 提醒与事件开始相差的天数（提前一天提醒时为 -1）
+ */
+function rruleToSchedule(
+  rule: Record<string, string>,
+  start: Date,
+  fire: Date,
+  dayShift: number,
+  timeZone: string,
+  now: Date
+): { type: 'cron' | 'interval'; value: string; firstRun: string } | null {
+  if (Object.keys(rule).some(key => !SUPPORTED_RRULE_PARTS.has(key))) return null;
+  const interval = parseInt(rule.INTERVAL || '1', 10);
+  if (!(interval > 0)) return null;
+
+  const everyMs = (ms: number) => {
+    const steps = fire.getTime() > now.getTime() ? 0 : Math.floor((now.getTime() - fire.getTime()) / ms) + 1;
+    return { type: 'interval' as const, value: String(ms), firstRun: new Date(fire.getTime() + steps * ms).toISOString() };
+  };
+
+  const local = zonedParts(fire, timeZone);
+  const startLocal = zonedParts(start, timeZone);
+  const months = rule.BYMONTH ? rule.BYMONTH.split(',').map(n => parseInt(n, 10)) : null;
+  if (months?.some(isNaN)) return null;
+  const monthField = months ? months.join(',') : '*';
+
+  let cron: string | null = null;
+  switch (rule.FREQ) {
+    case 'MINUTELY':
+    case 'HOURLY':
+      if (rule.BYDAY || rule.BYMONTHDAY || months) return null;
+      return everyMs(interval * (rule.FREQ === 'HOURLY' ? HOUR : MINUTE));
+    case 'DAILY':
+    case 'WEEKLY': {
+      if (rule.BYMONTHDAY) return null;
+      // BYDAY 带序号（如 1MO）只在 MONTHLY / YEARLY 中有意义
+      const byDay = rule.BYDAY ? rule.BYDAY.split(',') : null;
+      if (byDay?.some(d => !ICS_WEEKDAYS.includes(d))) return null;
+      if (!byDay && rule.FREQ === 'DAILY') {
+        if (interval > 1) return months ? null : everyMs(interval * DAY);
+        cron = `${local.minute} ${local.hour} * ${monthField} *`;
+        break;
+      }
+      const days = byDay ? byDay.map(d => ICS_WEEKDAYS.indexOf(d)) : [weekdayOf(startLocal)];
+      if (interval > 1) {
+        return rule.FREQ === 'WEEKLY' && days.length === 1 && !months ? everyMs(interval * WEEK) : null;
+      }
+      const shifted = [...new Set(days.map(d => ((d + dayShift) % 7 + 7) % 7))].sort((a, b) => a - b);
+      cron = `${local.minute} ${local.hour} * ${monthField} ${shifted.join(',')}`;
+      break;
+    }
+    case 'MONTHLY': {
+      if (interval > 1 || rule.BYDAY) return null;
+      const days = rule.BYMONTHDAY ? rule.BYMONTHDAY.split(',').map(n => parseInt(n, 10)) : [startLocal.day];
+      const shifted = days.map(d => d + dayShift);
+      if (shifted.some(d => isNaN(d) || d < 1 || d > 31)) return null;
+      cron = `${local.minute} ${local.hour} ${shifted.join(',')} ${monthField} *`;
+      break;
+    }
+    case 'YEARLY':
+      if (interval > 1 || rule.BYDAY || rule.BYMONTHDAY || (months && months.length > 1)) return null;
+      cron = `${local.minute} ${local.hour} ${local.day} ${local.month} *`;
+      break;
+    default:
+      return null;
+  }
+
+  try {
+    // 系列尚未开始时从首次提醒算起
+    const from = new Date(Math.max(now.getTime(), fire.getTime() - SECOND));
+    const first = CronExpressionParser.parse(cron, { tz: timeZone, currentDate: from }).next().toDate();
+    return { type: 'cron', value: cron, firstRun: first.toISOString() };
+  } catch {
+    return null;
+  }
+}
+
+function describeLead(ms: number): string {
+  const days = Math.floor(ms / DAY);
+  const hours = Math.floor((ms % DAY) / HOUR);
+  const minutes = Math.floor((ms % HOUR) / MINUTE);
+  const parts = [days && `${days} 天`, hours && `${hours} 小时`, minutes && `${minutes} 分钟`].filter(Boolean);
+  return parts.length > 0 ? parts.join(' ') : '即将';
+}
+
+function importedTaskId(uid: string, index: number): string {
+  return `ics_${crypto.createHash('sha1').update(`${uid}#${index}`).digest('hex').slice(0, 12)}`;
+}
+
+/**
+ * 把日历中带提醒的事件导入为提醒任务
+ *
+ * 每个 VALARM 生成一个任务，任务 ID 由事件 UID 决定，重复导入同一日历不会产生重复任务。
+ * 重复事件转换为 cron 或 interval；带 COUNT / UNTIL 的重复规则无法表示结束，跳过。
+ */
+export function importIcsReminders(text: string, options: IcsImportOptions): IcsImportResult {
+  const timeZone = options.timezone ?? TIMEZONE;
+  const now = options.now ?? new Date();
+  const result: IcsImportResult = { created: [], skipped: [] };
+
+  for (const event of parseIcs(text, timeZone)) {
+    if (event.alarms.length === 0) {
+      result.skipped.push({ summary: event.summary, reason: '没有提醒（VALARM）' });
+      continue;
+    }
+
+    event.alarms.forEach((alarm, index) => {
+      const id = importedTaskId(event.uid, index);
+      if (getTaskById(id)) {
+        result.skipped.push({ summary: event.summary, reason: '已导入过' });
+        return;
+      }
+
+      const fire = alarm.at ?? new Date(event.start.getTime() + alarm.offsetMs);
+      let schedule: { type: 'once' | 'cron' | 'interval'; value: string; firstRun: string } | null;
+      if (!event.rrule || alarm.at) {
+        if (fire.getTime() <= now.getTime()) {
+          result.skipped.push({ summary: event.summary, reason: '提醒时间已过' });
+          return;
+        }
+        schedule = { type: 'once', value: fire.toISOString(), firstRun: fire.toISOString() };
+      } else {
+        if (event.rrule.COUNT || event.rrule.UNTIL) {
+          result.skipped.push({ summary: event.summary, reason: '重复规则带有结束条件（COUNT/UNTIL），暂不支持' });
+          return;
+        }
+        const fireDay = zonedParts(fire, timeZone);
+        const startDay = zonedParts(event.start, timeZone);
+        const dayShift = Math.round(
+          (Date.UTC(fireDay.year, fireDay.month - 1, fireDay.day) - Date.UTC(startDay.year, startDay.month - 1, startDay.day)) / DAY
+        );
+        schedule = rruleToSchedule(event.rrule, event.start, fire, dayShift, timeZone, now);
+        if (!schedule) {
+          result.skipped.push({ summary: event.summary, reason: '无法转换的重复规则' });
+          return;
+        }
+      }
+
+      const lead = alarm.at ? 0 : -alarm.offsetMs;
+      const message = lead > 0 ? `${event.summary}（${describeLead(lead)}后开始）` : event.summary;
+      const task: ScheduledTask = {
+        id,
+        group_folder: options.groupFolder,
+        chat_jid: options.chatJid,
+        // 与 reminder 插件的提醒任务保持一致
+        prompt: `请使用 send_message 工具发送以下提醒消息给用户：\n\n⏰ 提醒：${message}`,
+        schedule_type: schedule.type,
+        schedule_value: schedule.value,
+        context_mode: 'isolated',
+        next_run: schedule.firstRun,
+        last_run: null,
+        last_result: null,
+        status: 'active',
+        created_at: now.toISOString(),
+        retry_count: 0,
+        max_retries: 2,
+        timeout_ms: 60000
+      };
+      createTask(task);
+      result.created.push(task);
+    });
+  }
+
+  return result;
+}
@@ -0,0 +1,177 @@
+/**
+ * FlashClaw 任务失败通知
+ *
+ * 任务重试用尽后，按配置通知任务所在会话、主群组或 webhook；
+ * 持续失败期间按 TASK_FAILURE_REMIND_HOURS 重复提醒，恢复成功后再发送一次恢复通知。
+ */
+
+import {
+  MAIN_GROUP_FOLDER,
+  TASK_FAILURE_NOTIFY,
+  TASK_FAILURE_WEBHOOK_URL,
+  TASK_FAILURE_REMIND_HOURS
+} from './config.js';
+import { ScheduledTask, RegisteredGroup } from './types.js';
+import { createLogger } from './logger.js';
+
+const logger = createLogger('TaskNotify');
+
+/** webhook 请求超时 */
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+// ==================== 类型定义 ====================
+
+export type FailureNotifyTarget = 'chat' | 'main' | 'webhook';
+
+const NOTIFY_TARGETS: FailureNotifyTarget[] = ['chat', 'main', 'webhook'];
+
+export interface TaskNotifyDependencies {
+  sendMessage: (jid: string, text: string) => Promise<void>;
+  registeredGroups: () => Record<string, RegisteredGroup>;
+}
+
+// ==================== 配置解析 ====================
+
+/**
+ * 解析通知目标（逗号分隔，none 表示不通知；未设置时使用 TASK_FAILURE_NOTIFY）
+ */
+export function parseNotifyTargets(value: string | null | undefined): FailureNotifyTarget[] {
+  const targets = (value ?? TASK_FAILURE_NOTIFY).split(',').map(t => t.trim().toLowerCase());
+  if (targets.includes('none')) return [];
+  return NOTIFY_TARGETS.filter(t => targets.includes(t));
+}
+
+/**
+ * 校验通知目标配置是否合法
+ */
+export function isValidNotifySetting(value: string): boolean {
+  const targets = value.split(',').map(t => t.trim().toLowerCase()).filter(Boolean);
+  return targets.length > 0 && targets.every(t => t === 'none' || NOTIFY_TARGETS.includes(t as FailureNotifyTarget));
+}
+
+/**
+ * 本次失败是否需要通知：本轮首次失败通知，之后每隔 TASK_FAILURE_REMIND_HOURS 提醒一次
+ */
+export function shouldNotifyFailure(task: ScheduledTask, now = Date.now()): boolean {
+  if (!task.failure_notified_at) return true;
+  if (TASK_FAILURE_REMIND_HOURS <= 0) return false;
+  return now - new Date(task.failure_notified_at).getTime() >= TASK_FAILURE_REMIND_HOURS * 60 * 60 * 1000;
+}
+
+// ==================== 消息格式 ====================
+
+function shortId(task: ScheduledTask): string {
+  return task.id.slice(-6);
+}
+
+function describeTask(task: ScheduledTask): string {
+  const prompt = task.prompt.replace(/\s+/g, ' ');
+  return prompt.length > 50 ? `${prompt.slice(0, 50)}...` : prompt;
+}
+
+export function formatFailureNotice(task: ScheduledTask, error: string): string {
+  let text = `⚠️ **定时任务执行失败** (${shortId(task)})\n\n`;
+  text += `任务: ${describeTask(task)}\n`;
+  text += `错误: ${error.length > 200 ? `${error.slice(0, 200)}...` : error}\n`;
+  if (task.failure_streak && task.failure_streak > 1) {
+    const since = task.failing_since ? `（自 ${new Date(task.failing_since).toLocaleString('zh-CN')} 起）` : '';
+    text += `已连续失败 ${task.failure_streak} 次${since}\n`;
+  }
+  text += `\n发送 /tasks history ${shortId(task)} 查看运行记录`;
+  return text;
+}
+
+export function formatRecoveryNotice(task: ScheduledTask): string {
+  return `✅ **定时任务已恢复** (${shortId(task)})\n\n任务: ${describeTask(task)}`;
+}
+
+// ==================== 发送 ====================
+
+/**
+ * 解析需要通知的聊天（同一聊天只通知一次）
+ */
+function resolveChats(task: ScheduledTask, targets: FailureNotifyTarget[], deps: TaskNotifyDependencies): string[] {
+  const groups = Object.entries(deps.registeredGroups()).filter(([jid]) => !jid.startsWith('__'));
+  const chats = new Set<string>();
+  if (targets.includes('chat')) {
+    const jid = task.chat_jid || groups.find(([, g]) => g.folder === task.group_folder)?.[0];
+    if (jid) chats.add(jid);
+  }
+  if (targets.includes('main')) {
+    const jid = groups.find(([, g]) => g.folder === MAIN_GROUP_FOLDER)?.[0];
+    if (jid) chats.add(jid);
+  }
+  return [...chats];
+}
+
+async function postWebhook(payload: Record<string, unknown>): Promise<void> {
+  if (!TASK_FAILURE_WEBHOOK_URL) {
+    throw new Error('未配置 TASK_FAILURE_WEBHOOK_URL');
+  }
+  const response = await fetch(TASK_FAILURE_WEBHOOK_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload),
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+  });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+}
+
+async function deliver(
+  task: ScheduledTask,
+  text: string,
+  payload: Record<string, unknown>,
+  deps: TaskNotifyDependencies
+): Promise<boolean> {
+  const targets = parseNotifyTargets(task.notify_on_failure);
+  if (targets.length === 0) return false;
+
+  let delivered = false;
+  for (const jid of resolveChats(task, targets, deps)) {
+    try {
+      await deps.sendMessage(jid, text);
+      delivered = true;
+    } catch (err) {
+      logger.warn({ taskId: task.id, chatJid: jid, err: String(err) }, '发送任务通知失败');
+    }
+  }
+  if (targets.includes('webhook')) {
+    try {
+      await postWebhook({
+        ...payload,
+        task: {
+          id: task.id,
+          group: task.group_folder,
+          chatJid: task.chat_jid,
+          prompt: task.prompt,
+          scheduleType: task.schedule_type,
+          scheduleValue: task.schedule_value
+        },
+        failureStreak: task.failure_streak ?? 0,
+        failingSince: task.failing_since ?? null,
+        at: new Date().toISOString()
+      });
+      delivered = true;
+    } catch (err) {
+      logger.warn({ taskId: task.id, err: String(err) }, '任务通知 webhook 调用失败');
+    }
+  }
+  return delivered;
+}
+
+/**
+ * 通知任务最终失败
+ * @returns 是否至少送达一个目标
+ */
+export function notifyTaskFailure(task: ScheduledTask, error: string, deps: TaskNotifyDependencies): Promise<boolean> {
+  return deliver(task, formatFailureNotice(task, error), { event: 'task_failed', error }, deps);
+}
+
+/**
+ * 通知任务在失败后恢复成功
+ */
+export function notifyTaskRecovered(task: ScheduledTask, deps: TaskNotifyDependencies): Promise<boolean> {
+  return deliver(task, formatRecoveryNotice(task), { event: 'task_recovered' }, deps);
+}
@@ -0,0 +1,190 @@
+/**
+ * FlashClaw 任务调度策略
+ *
+ * 1. 补跑策略 - 服务离线期间错过的任务在启动时按策略补跑或跳过
+ * 2. 随机错开 - 补跑和顺延的任务在 TASK_JITTER_SECONDS 内随机分散，避免同时触发
+ * 3. 免打扰时段 - 群组的 quietHours 内非紧急任务顺延到时段结束
+ */
+
+import { CronExpressionParser } from 'cron-parser';
+import {
+  TIMEZONE,
+  TASK_CATCH_UP_POLICY,
+  TASK_CATCH_UP_MAX_AGE_MINUTES,
+  TASK_CATCH_UP_MAX_RUNS,
+  TASK_JITTER_SECONDS
+} from './config.js';
+import { ScheduledTask, CatchUpPolicy } from './types.js';
+
+// ==================== 类型定义 ====================
+
+export const CATCH_UP_POLICIES: CatchUpPolicy[] = ['run_once', 'run_all', 'skip', 'skip_if_older'];
+
+export interface CatchUpDecision {
+  /** 实际生效的策略（skip_if_older 会落到 run_once 或 skip） */
+  policy: CatchUpPolicy;
+  action: 'run' | 'skip';
+  /** 错过的执行次数 */
+  missed: number;
+  /** 不会补跑的次数 */
+  skipped: number;
+  /** 新的 next_run（null 表示一次性任务被跳过） */
+  nextRun: string | null;
+}
+
+/** 计算错过次数时 cron 最多迭代的次数 */
+const MAX_CRON_ITERATIONS = 10000;
+
+// ==================== 补跑策略 ====================
+
+export function isCatchUpPolicy(value: unknown): value is CatchUpPolicy {
+  return typeof value === 'string' && CATCH_UP_POLICIES.includes(value as CatchUpPolicy);
+}
+
+/**
+ * 任务的补跑策略（未设置或配置无效时使用 run_once）
+ */
+export function resolveCatchUpPolicy(task: ScheduledTask): CatchUpPolicy {
+  if (isCatchUpPolicy(task.catch_up_policy)) return task.catch_up_policy;
+  return isCatchUpPolicy(TASK_CATCH_UP_POLICY) ? TASK_CATCH_UP_POLICY : 'run_once';
+}
+
+/**
+ * 0 ~ maxSeconds 秒之间的随机延迟（毫秒）
+ */
+export function jitterMs(maxSeconds = TASK_JITTER_SECONDS): number {
+  return maxSeconds > 0 ? Math.floor(Math.random() * maxSeconds * 1000) : 0;
+}
+
+/**
+ * 列出 next_run 到 now 之间错过的执行时间
+ * @returns total 为错过总次数，times 只保留最近的 keep 次
+ */
+export function listMissedRuns(task: ScheduledTask, now: Date, keep: number): { total: number; times: Date[] } {
+  if (!task.next_run) return { total: 0, times: [] };
+  const first = new Date(task.next_run);
+  if (first.getTime() > now.getTime()) return { total: 0, times: [] };
+
+  if (task.schedule_type === 'interval') {
+    const ms = parseInt(task.schedule_value, 10);
+    if (!(ms > 0)) return { total: 1, times: [first] };
+    const total = Math.floor((now.getTime() - first.getTime()) / ms) + 1;
+    const count = Math.min(total, keep);
+    const times = Array.from({ length: count }, (_, i) => new Date(first.getTime() + (total - count + i) * ms));
+    return { total, times };
+  }
+
+  if (task.schedule_type === 'cron') {
+    const times = [first];
+    let total = 1;
+    try {
+      const interval = CronExpressionParser.parse(task.schedule_value, { tz: TIMEZONE, currentDate: first });
+      while (total < MAX_CRON_ITERATIONS) {
+        const next = interval.next().toDate();
+        if (next.getTime() > now.getTime()) break;
+        total++;
+        times.push(next);
+        if (times.length > keep) times.shift();
+      }
+    } catch {
+      // 无效的 cron 表达式按错过一次处理
+    }
+    return { total, times: times.slice(-keep) };
+  }
+
+  return { total: 1, times: [first] };
+}
+
+/**
+ * 下一次在 now 之后的计划执行时间（保持原有节奏，不从 now 重新计时）
+ */
+function nextScheduledAfter(task: ScheduledTask, now: Date): string | null {
+  if (task.schedule_type === 'once' || !task.next_run) return null;
+  if (task.schedule_type === 'interval') {
+    const ms = parseInt(task.schedule_value, 10);
+    const first = new Date(task.next_run).getTime();
+    if (!(ms > 0)) return new Date(now.getTime()).toISOString();
+    const steps = Math.floor((now.getTime() - first) / ms) + 1;
+    return new Date(first + steps * ms).toISOString();
+  }
+  return CronExpressionParser.parse(task.schedule_value, { tz: TIMEZONE, currentDate: now }).next().toISOString();
+}
+
+/**
+ * 决定一个错过执行的任务如何处理
+ */
+export function planCatchUp(task: ScheduledTask, now: Date, jitter = jitterMs()): CatchUpDecision {
+  const { total, times } = listMissedRuns(task, now, Math.max(TASK_CATCH_UP_MAX_RUNS, 1));
+  let policy = resolveCatchUpPolicy(task);
+
+  if (policy === 'skip_if_older') {
+    const maxAgeMinutes = task.catch_up_max_age_minutes ?? TASK_CATCH_UP_MAX_AGE_MINUTES;
+    const overdueMs = task.next_run ? now.getTime() - new Date(task.next_run).getTime() : 0;
+    policy = overdueMs > maxAgeMinutes * 60 * 1000 ? 'skip' : 'run_once';
+  }
+
+  switch (policy) {
+    case 'skip':
+      return { policy, action: 'skip', missed: total, skipped: total, nextRun: nextScheduledAfter(task, now) };
+    case 'run_all':
+      // 从保留的最早一次开始，每次运行后由调度器按原节奏推进（见 calculateNextRun）
+      return {
+        policy,
+        action: 'run',
+        missed: total,
+        skipped: total - times.length,
+        nextRun: (times[0] ?? now).toISOString()
+      };
+    default:
+      return {
+        policy: 'run_once',
+        action: 'run',
+        missed: total,
+        skipped: Math.max(total - 1, 0),
+        nextRun: new Date(now.getTime() + jitter).toISOString()
+      };
+  }
+}
+
+// ==================== 免打扰时段 ====================
+
+/**
+ * 解析免打扰时段 "HH:MM-HH:MM"（可跨午夜）
+ * @returns 起止时间（当天分钟数），格式无效或起止相同时返回 null
+ */
+export function parseQuietHours(spec: string | undefined | null): { start: number; end: number } | null {
+  const match = spec?.trim().match(/^(\d{1,2}):(\d{2})\s*-\s*(\d{1,2}):(\d{2})$/);
+  if (!match) return null;
+  const [sh, sm, eh, em] = match.slice(1).map(n => parseInt(n, 10));
+  if (sh > 23 || eh > 24 || sm > 59 || em > 59) return null;
+  const start = sh * 60 + sm;
+  const end = (eh * 60 + em) % (24 * 60);
+  return start === end ? null : { start, end };
+}
+
+/**
+ * 如果 now 处于免打扰时段内，返回时段结束时间，否则返回 null
+ */
+export function quietHoursEnd(spec: string | undefined | null, now: Date, timeZone = TIMEZONE): Date | null {
+  const range = parseQuietHours(spec);
+  if (!range) return null;
+
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(now);
+  const get = (type: string) => parseInt(parts.find(p => p.type === type)?.value ?? '0', 10);
+  const minuteOfDay = get('hour') * 60 + get('minute');
+
+  const inside = range.start < range.end
+    ? minuteOfDay >= range.start && minuteOfDay < range.end
+    : minuteOfDay >= range.start || minuteOfDay < range.end;
+  if (!inside) return null;
+
+  const minutesLeft = (range.end - minuteOfDay + 24 * 60) % (24 * 60);
+  const end = now.getTime() + minutesLeft * 60 * 1000 - get('second') * 1000;
+  return new Date(end - (end % 1000));
+}
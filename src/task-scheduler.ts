@@ -6,9 +6,17 @@
  * 2. 并发控制 - 限制同时执行的任务数
  * 3. 超时保护 - 防止任务卡死阻塞调度
  * 4. 重试机制 - 失败任务自动重试（指数退避）
+ * 5. 失败通知 - 重试用尽后通知会话/主群组/webhook，并记录连续成功/失败次数
+ * 6. 补跑策略 - 启动时按任务策略处理离线期间错过的执行，并汇报跳过情况
+ * 7. 免打扰时段 - 群组免打扰期间非紧急任务顺延
+ * 8. 监控任务 - 先做廉价检查，只有内容变化或匹配条件时才运行 Agent
+ * 9. 任务级覆盖 - 每个任务可指定 Agent、模型、工具白名单和提示词模式
+ * 10. 多实例安全 - 多个进程共用数据库时通过 SQLite 租约选出唯一 leader 执行任务，
+ *     每次执行认领任务并持续心跳，执行者崩溃后认领过期可被重新认领
  */
 
 import fs from 'fs';
+import os from 'os';
 import path from 'path';
 import pLimit from 'p-limit';
 import { CronExpressionParser } from 'cron-parser';
@@ -21,7 +29,16 @@ import {
   getNextWakeTime,
   updateTaskRetry,
   resetTaskRetry,
-  updateTask
+  updateTask,
+  recordTaskOutcome,
+  deleteTaskRunLogsBefore,
+  updateWatchState,
+  acquireSchedulerLease,
+  releaseSchedulerLease,
+  getSchedulerLease,
+  claimTask,
+  heartbeatTaskClaims,
+  releaseTaskClaim
 } from './db.js';
 import { ScheduledTask, RegisteredGroup } from './types.js';
 import { 
@@ -30,10 +47,23 @@ import {
   MAX_CONCURRENT_TASKS, 
   DEFAULT_TASK_TIMEOUT_MS, 
   RETRY_BASE_DELAY_MS, 
-  MAX_RETRY_DELAY_MS 
+  MAX_RETRY_DELAY_MS,
+  TASK_RUN_OUTPUT_MAX_CHARS,
+  TASK_RUN_LOG_MAX_PER_TASK,
+  TASK_RUN_LOG_RETENTION_DAYS,
+  TASK_QUIET_HOURS,
+  SCHEDULER_LEASE_TTL_MS
 } from './config.js';
 import { paths } from './paths.js';
-import { runAgent, writeTasksSnapshot } from './agent-runner.js';
+import { runAgent, writeTasksSnapshot, type AgentInput } from './agent-runner.js';
+import { consolidateMemories, formatConsolidationResult } from './memory-consolidation.js';
+import { executeWorkflow, formatWorkflowRun, type WorkflowRunSummary } from './workflow.js';
+import { notifyTaskFailure, notifyTaskRecovered, shouldNotifyFailure } from './task-notify.js';
+import { planCatchUp, resolveCatchUpPolicy, quietHoursEnd, jitterMs, type CatchUpDecision } from './task-policy.js';
+import { parseWatchConfig, observeWatch, evaluateWatch, buildWatchPrompt } from './task-watch.js';
+import { pluginManager } from './plugins/manager.js';
+import { getToolPolicy } from './tool-approval.js';
+import type { ToolContext, ToolResult } from './plugins/types.js';
 import { createLogger } from './logger.js';
 
 const logger = createLogger('TaskScheduler');
@@ -43,6 +73,12 @@ const logger = createLogger('TaskScheduler');
 /** 最大定时器延迟（避免 Node.js 的 32 位整数溢出） */
 const MAX_TIMEOUT_MS = 2 ** 31 - 1;
 
+/** 启动时 next_run 早于当前时间超过该值的任务视为离线期间错过 */
+const MISSED_GRACE_MS = 60 * 1000;
+
+/** 租约和任务认领的心跳间隔（有效期的 1/3，允许错过两次心跳） */
+const LEASE_HEARTBEAT_MS = Math.max(Math.floor(SCHEDULER_LEASE_TTL_MS / 3), 1000);
+
 // ==================== 类型定义 ====================
 
 export interface SchedulerDependencies {
@@ -55,8 +91,25 @@ interface SchedulerState {
   timer: NodeJS.Timeout | null;
   running: boolean;
   deps: SchedulerDependencies | null;
+  /** 本实例 ID（租约和任务认领的持有者） */
+  instanceId: string | null;
+  /** 是否持有调度器租约 */
+  leader: boolean;
+  /** 租约心跳定时器 */
+  heartbeat: NodeJS.Timeout | null;
 }
 
+/** 调度器角色：leader 执行到期任务，follower 待命，stopped 未启动 */
+export type SchedulerRole = 'leader' | 'follower' | 'stopped';
+
+export interface MissedTaskEntry {
+  task: ScheduledTask;
+  decision: CatchUpDecision;
+}
+
+/** 任务级的 Agent 覆盖（见 ScheduledTask.agent_id / model / allowed_tools / prompt_mode） */
+export type TaskAgentOptions = Pick<AgentInput, 'agentId' | 'model' | 'tools' | 'promptMode'>;
+
 interface TaskRunResult {
   success: boolean;
   result: string | null;
@@ -77,7 +130,10 @@ function getState(): SchedulerState {
     global.__flashclaw_scheduler_state = {
       timer: null,
       running: false,
-      deps: null
+      deps: null,
+      instanceId: null,
+      leader: false,
+      heartbeat: null
     };
   }
   return global.__flashclaw_scheduler_state;
@@ -96,9 +152,10 @@ const runningTaskIds = new Set<string>();
 
 /**
  * 设置精确定时器
- * 计算下一个任务的执行时间，并设置 setTimeout
+ * 计算下一个任务的执行时间，并设置 setTimeout（只有 leader 设置定时器）
+ * @param minDelayMs 最短延迟（有任务被其他实例占用时避免立即重试）
  */
-function armTimer(): void {
+function armTimer(minDelayMs = 0): void {
   // 清除旧定时器
   const state = getState();
   if (state.timer) {
@@ -106,6 +163,10 @@ function armTimer(): void {
     state.timer = null;
   }
 
+  if (!state.leader) {
+    return;
+  }
+
   // 获取下一个唤醒时间
   const nextAt = getNextWakeTime();
   if (!nextAt) {
@@ -115,7 +176,7 @@ function armTimer(): void {
 
   // 计算延迟时间
   const now = Date.now();
-  const delay = Math.max(nextAt - now, 0);
+  const delay = Math.max(nextAt - now, minDelayMs);
   
   // 限制最大延迟，避免 32 位整数溢出
   const clampedDelay = Math.min(delay, MAX_TIMEOUT_MS);
@@ -145,46 +206,240 @@ async function onTimer(): Promise<void> {
     return;
   }
 
+  // 执行前确认仍持有租约（失去租约时 refreshLeadership 会停止定时器）
+  if (!refreshLeadership()) {
+    return;
+  }
+
   getState().running = true;
+  let skipped = 0;
   try {
-    await runDueTasks();
+    skipped = await runDueTasks();
   } finally {
     getState().running = false;
-    armTimer();
+    armTimer(skipped > 0 ? LEASE_HEARTBEAT_MS : 0);
   }
 }
 
 /**
  * 执行所有到期任务
+ * @returns 因仍在执行（本实例或其他实例）而跳过的任务数
  */
-async function runDueTasks(): Promise<void> {
+async function runDueTasks(): Promise<number> {
   if (!getState().deps) {
     logger.error('调度器依赖未初始化');
-    return;
+    return 0;
   }
 
   const dueTasks = getDueTasks();
   if (dueTasks.length === 0) {
-    return;
+    return 0;
   }
 
   logger.info({ count: dueTasks.length }, '⚡ 发现到期任务');
 
+  let skipped = 0;
   // 使用并发限制器执行任务
   const promises = dueTasks.map(task => 
     taskLimit(async () => {
-      // 双重检查任务状态
-      const currentTask = getTaskById(task.id);
-      if (!currentTask || currentTask.status !== 'active') {
-        logger.debug({ taskId: task.id }, '任务状态已变更，跳过执行');
+      // 防止同一任务并发执行（超时后重试时，原任务可能仍在后台运行）
+      if (runningTaskIds.has(task.id)) {
+        logger.warn({ taskId: task.id }, '任务仍在执行中，跳过本次调度');
+        skipped++;
+        return;
+      }
+
+      // 认领任务，其他实例正在执行时跳过
+      if (!claimTaskRun(task.id)) {
+        skipped++;
         return;
       }
 
-      await executeTask(currentTask);
+      try {
+        // 认领后再次检查任务状态（其他实例可能刚执行完并更新了 next_run）
+        const currentTask = getTaskById(task.id);
+        if (!currentTask || currentTask.status !== 'active' || !isDue(currentTask)) {
+          logger.debug({ taskId: task.id }, '任务状态已变更，跳过执行');
+          return;
+        }
+
+        // 免打扰时段内的非紧急任务顺延到时段结束
+        const deferUntil = getQuietDeferral(currentTask, getState().deps!);
+        if (deferUntil) {
+          updateTask(currentTask.id, { next_run: deferUntil.toISOString() });
+          logger.info({ taskId: currentTask.id, until: deferUntil.toISOString() }, '🌙 免打扰时段，任务已顺延');
+          return;
+        }
+
+        await executeTask(currentTask);
+      } finally {
+        releaseTaskClaim(task.id, getState().instanceId!);
+      }
     })
   );
 
   await Promise.all(promises);
+  return skipped;
+}
+
+function isDue(task: ScheduledTask, now = Date.now()): boolean {
+  return task.next_run !== null && new Date(task.next_run).getTime() <= now;
+}
+
+// ==================== 租约与任务认领 ====================
+
+function createInstanceId(): string {
+  return `${os.hostname()}:${process.pid}:${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * 获取或续期调度器租约，并处理角色变化
+ * 成为 leader 时处理错过的任务并设置定时器；失去租约时停止定时器（正在执行的任务继续完成）
+ * @returns 当前是否为 leader
+ */
+function refreshLeadership(): boolean {
+  const state = getState();
+  if (!state.instanceId || !state.deps) return false;
+
+  let acquired = false;
+  try {
+    acquired = acquireSchedulerLease(state.instanceId, SCHEDULER_LEASE_TTL_MS);
+  } catch (err) {
+    logger.warn({ err: String(err) }, '续期调度器租约失败');
+  }
+
+  if (acquired && !state.leader) {
+    state.leader = true;
+    logger.info({ instanceId: state.instanceId }, '👑 已获得调度器租约，开始执行定时任务');
+    onBecomeLeader(state.deps);
+  } else if (!acquired && state.leader) {
+    state.leader = false;
+    armTimer();
+    logger.warn({ instanceId: state.instanceId }, '⚠️ 调度器租约已被其他实例接管，停止执行定时任务');
+  }
+  return acquired;
+}
+
+/**
+ * 成为 leader：处理离线期间（或上一个 leader 失联期间）错过的任务
+ */
+function onBecomeLeader(deps: SchedulerDependencies): void {
+  try {
+    const missed = reconcileMissedTasks();
+    if (missed.length > 0) {
+      void reportMissedTasks(missed, deps);
+    }
+  } catch (err) {
+    logger.warn({ err: String(err) }, '检查错过的任务失败');
+  }
+
+  armTimer();
+}
+
+/**
+ * 租约心跳：续期正在执行的任务认领和调度器租约，follower 尝试接管过期租约
+ */
+function heartbeat(): void {
+  const state = getState();
+  if (!state.instanceId) return;
+
+  if (runningTaskIds.size > 0) {
+    try {
+      heartbeatTaskClaims(state.instanceId, SCHEDULER_LEASE_TTL_MS);
+    } catch (err) {
+      logger.warn({ err: String(err) }, '任务认领心跳失败');
+    }
+  }
+
+  // leader 每次心跳重新计算定时器，及时发现其他进程创建的任务
+  if (refreshLeadership() && !state.running) {
+    armTimer();
+  }
+}
+
+/**
+ * 认领任务执行权
+ * @returns 是否认领成功（其他实例正在执行时失败）
+ */
+function claimTaskRun(taskId: string): boolean {
+  const { claimed, stale } = claimTask(taskId, getState().instanceId!, SCHEDULER_LEASE_TTL_MS);
+  if (stale) {
+    logger.warn({ taskId, previousHolder: stale.holder, lastHeartbeat: stale.heartbeat_at }, '♻️ 接管已失联实例遗留的任务');
+  } else if (!claimed) {
+    logger.debug({ taskId }, '任务正由其他实例执行，跳过');
+  }
+  return claimed;
+}
+
+/**
+ * 免打扰时段顺延：返回顺延到的时间，不需要顺延时返回 null
+ * 紧急任务和不发消息的系统任务（记忆整理）不受限制
+ */
+function getQuietDeferral(task: ScheduledTask, deps: SchedulerDependencies, now = new Date()): Date | null {
+  if (task.urgent || task.kind === 'memory-consolidation') return null;
+  const group = Object.values(deps.registeredGroups()).find(g => g.folder === task.group_folder);
+  const end = quietHoursEnd(group?.quietHours ?? TASK_QUIET_HOURS, now);
+  return end ? new Date(end.getTime() + jitterMs()) : null;
+}
+
+// ==================== 错过执行补跑 ====================
+
+/**
+ * 按补跑策略处理离线期间错过的任务（启动时调用）
+ * @returns 错过执行的任务及处理结果
+ */
+export function reconcileMissedTasks(now = new Date()): MissedTaskEntry[] {
+  const entries: MissedTaskEntry[] = [];
+  for (const task of getAllTasks()) {
+    if (task.status !== 'active' || !task.next_run) continue;
+    if (new Date(task.next_run).getTime() > now.getTime() - MISSED_GRACE_MS) continue;
+
+    try {
+      const decision = planCatchUp(task, now);
+      if (decision.action === 'skip' && decision.nextRun === null) {
+        updateTask(task.id, { status: 'completed', next_run: null });
+      } else {
+        updateTask(task.id, { next_run: decision.nextRun });
+      }
+      entries.push({ task, decision });
+    } catch (err) {
+      logger.warn({ taskId: task.id, err: String(err) }, '处理错过的任务失败');
+    }
+  }
+  return entries;
+}
+
+/**
+ * 格式化启动时的错过任务汇总
+ */
+export function formatMissedSummary(entries: MissedTaskEntry[]): string {
+  let text = `⏰ **离线期间错过的定时任务** (${entries.length}个)\n\n`;
+  for (const { task, decision } of entries) {
+    const prompt = task.prompt.replace(/\s+/g, ' ');
+    text += `• ${task.id.slice(-6)} ${prompt.length > 30 ? `${prompt.slice(0, 30)}...` : prompt}\n`;
+    const ran = decision.missed - decision.skipped;
+    text += decision.action === 'skip'
+      ? `   错过 ${decision.missed} 次，已跳过\n`
+      : `   错过 ${decision.missed} 次，补跑 ${ran} 次${decision.skipped > 0 ? `，跳过 ${decision.skipped} 次` : ''}\n`;
+  }
+  return text.trimEnd();
+}
+
+/**
+ * 把错过任务汇总发送到主群组
+ */
+async function reportMissedTasks(entries: MissedTaskEntry[], deps: SchedulerDependencies): Promise<void> {
+  const skipped = entries.reduce((sum, e) => sum + e.decision.skipped, 0);
+  logger.info({ tasks: entries.length, skippedRuns: skipped }, '⏰ 已处理离线期间错过的任务');
+
+  const mainJid = Object.entries(deps.registeredGroups())
+    .find(([jid, g]) => !jid.startsWith('__') && g.folder === MAIN_GROUP_FOLDER)?.[0];
+  if (!mainJid) return;
+  try {
+    await deps.sendMessage(mainJid, formatMissedSummary(entries));
+  } catch (err) {
+    logger.warn({ err: String(err) }, '发送错过任务汇总失败');
+  }
 }
 
 // ==================== 任务执行 ====================
@@ -193,11 +448,6 @@ async function runDueTasks(): Promise<void> {
  * 执行单个任务（带超时和重试）
  */
 async function executeTask(task: ScheduledTask): Promise<void> {
-  // 防止同一任务并发执行（超时后重试时，原任务可能仍在后台运行）
-  if (runningTaskIds.has(task.id)) {
-    logger.warn({ taskId: task.id }, '任务仍在执行中，跳过本次调度');
-    return;
-  }
   runningTaskIds.add(task.id);
 
   const startTime = Date.now();
@@ -209,15 +459,17 @@ async function executeTask(task: ScheduledTask): Promise<void> {
     // 执行任务
     const result = await runTaskWithTimeout(task, deps);
 
-    // 记录运行日志
+    // 记录运行日志（完整输出，按大小和条数限制保留）
+    const runAt = new Date().toISOString();
     logTaskRun({
       task_id: task.id,
-      run_at: new Date().toISOString(),
+      run_at: runAt,
       duration_ms: result.durationMs,
       status: result.success ? 'success' : 'error',
       result: result.result,
       error: result.error
-    });
+    }, { maxOutputChars: TASK_RUN_OUTPUT_MAX_CHARS, keepPerTask: TASK_RUN_LOG_MAX_PER_TASK });
+    const updated = recordTaskOutcome(task.id, result.success, runAt) ?? task;
 
     if (result.success) {
       // 成功：重置重试计数，计算下次运行时间
@@ -227,15 +479,39 @@ async function executeTask(task: ScheduledTask): Promise<void> {
       updateTaskAfterRun(task.id, nextRun, resultSummary);
 
       logger.info({ taskId: task.id, durationMs: result.durationMs }, '⚡ 任务执行成功');
+
+      // 之前发过失败通知的任务，恢复后告知
+      if (task.failure_notified_at) {
+        await notifyTaskRecovered(updated, deps);
+      }
     } else {
       // 失败：处理重试逻辑
-      await handleTaskFailure(task, result.error || 'Unknown error');
+      await handleTaskFailure(updated, result.error || 'Unknown error', deps);
     }
   } finally {
     runningTaskIds.delete(task.id);
   }
 }
 
+/**
+ * 为 Promise 加上超时（超时后原 Promise 仍在后台运行，但结果被忽略）
+ */
+async function withTimeout<T>(promise: Promise<T>, timeoutMs: number, message: string): Promise<T> {
+  // 创建超时 Promise（保存 timer ID 以便清理）
+  let timeoutId: NodeJS.Timeout;
+  const timeoutPromise = new Promise<never>((_, reject) => {
+    timeoutId = setTimeout(() => {
+      reject(new Error(message));
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([promise, timeoutPromise]);
+  } finally {
+    clearTimeout(timeoutId!);
+  }
+}
+
 /**
  * 带超时保护的任务执行
  */
@@ -246,18 +522,9 @@ async function runTaskWithTimeout(
   const startTime = Date.now();
   const timeoutMs = task.timeout_ms || DEFAULT_TASK_TIMEOUT_MS;
 
-  // 创建超时 Promise（保存 timer ID 以便清理）
-  let timeoutId: NodeJS.Timeout;
-  const timeoutPromise = new Promise<never>((_, reject) => {
-    timeoutId = setTimeout(() => {
-      reject(new Error(`任务执行超时 (${timeoutMs}ms)`));
-    }, timeoutMs);
-  });
-
   try {
     // 实际执行任务
-    const resultPromise = runTaskCore(task, deps);
-    const result = await Promise.race([resultPromise, timeoutPromise]);
+    const result = await withTimeout(runTaskCore(task, deps), timeoutMs, `任务执行超时 (${timeoutMs}ms)`);
     
     return {
       success: true,
@@ -272,8 +539,6 @@ async function runTaskWithTimeout(
       error: err instanceof Error ? err.message : String(err),
       durationMs: Date.now() - startTime
     };
-  } finally {
-    clearTimeout(timeoutId!);
   }
 }
 
@@ -281,20 +546,86 @@ async function runTaskWithTimeout(
  * 任务执行核心逻辑
  */
 async function runTaskCore(task: ScheduledTask, deps: SchedulerDependencies): Promise<string> {
-  const groupDir = path.join(paths.groups(), task.group_folder);
+  if (task.kind === 'memory-consolidation') {
+    return runMemoryConsolidation(task, deps);
+  }
+  if (task.kind === 'workflow') {
+    return runWorkflowTask(task, deps);
+  }
+  if (task.kind === 'watch') {
+    return runWatchTask(task, deps);
+  }
+
+  return runAgentPrompt({
+    groupFolder: task.group_folder,
+    chatJid: task.chat_jid,
+    prompt: task.prompt,
+    contextMode: task.context_mode,
+    agent: taskAgentOptions(task)
+  }, deps);
+}
+
+/**
+ * 任务级的 Agent、模型、工具和提示词覆盖
+ */
+export function taskAgentOptions(task: ScheduledTask): TaskAgentOptions {
+  let tools: string[] | undefined;
+  if (task.allowed_tools) {
+    try {
+      const parsed: unknown = JSON.parse(task.allowed_tools);
+      if (Array.isArray(parsed) && parsed.every(t => typeof t === 'string')) tools = parsed;
+    } catch {
+      // 下面统一报错
+    }
+    if (!tools) {
+      throw new Error(`任务的工具白名单格式无效: ${task.allowed_tools}`);
+    }
+  }
+  return {
+    ...(task.agent_id ? { agentId: task.agent_id } : {}),
+    ...(task.model ? { model: task.model } : {}),
+    ...(tools ? { tools } : {}),
+    ...(task.prompt_mode ? { promptMode: task.prompt_mode } : {})
+  };
+}
+
+/**
+ * 查找群组对应的聊天 ID（跳过 __main_template__ 等占位群组）
+ */
+function findGroupChatJid(groupFolder: string, deps: SchedulerDependencies): string | undefined {
+  return Object.entries(deps.registeredGroups())
+    .find(([jid, g]) => g.folder === groupFolder && !jid.startsWith('__'))?.[0];
+}
+
+/**
+ * 以定时任务身份运行一次 Agent
+ */
+async function runAgentPrompt(
+  options: {
+    groupFolder: string;
+    chatJid: string;
+    prompt: string;
+    contextMode: ScheduledTask['context_mode'];
+    agent?: TaskAgentOptions;
+    /** 回复由调用方直接发送到会话（返回原始回复，可能为空） */
+    deliversReply?: boolean;
+  },
+  deps: SchedulerDependencies
+): Promise<string> {
+  const groupDir = path.join(paths.groups(), options.groupFolder);
   fs.mkdirSync(groupDir, { recursive: true });
 
   const groups = deps.registeredGroups();
-  const group = Object.values(groups).find(g => g.folder === task.group_folder);
+  const group = Object.values(groups).find(g => g.folder === options.groupFolder);
 
   if (!group) {
-    throw new Error(`Group not found: ${task.group_folder}`);
+    throw new Error(`Group not found: ${options.groupFolder}`);
   }
 
   // 更新任务快照供 Agent 读取
-  const isMain = task.group_folder === MAIN_GROUP_FOLDER;
+  const isMain = options.groupFolder === MAIN_GROUP_FOLDER;
   const tasks = getAllTasks();
-  writeTasksSnapshot(task.group_folder, isMain, tasks.map(t => ({
+  writeTasksSnapshot(options.groupFolder, isMain, tasks.map(t => ({
     id: t.id,
     groupFolder: t.group_folder,
     prompt: t.prompt,
@@ -306,31 +637,166 @@ async function runTaskCore(task: ScheduledTask, deps: SchedulerDependencies): Pr
 
   // 获取会话 ID
   const sessions = deps.getSessions();
-  const sessionId = task.context_mode === 'group' ? sessions[task.group_folder] : undefined;
+  const sessionId = options.contextMode === 'group' ? sessions[options.groupFolder] : undefined;
 
   // 执行 Agent
   const output = await runAgent(group, {
-    prompt: task.prompt,
+    prompt: options.prompt,
     sessionId,
-    groupFolder: task.group_folder,
-    chatJid: task.chat_jid,
+    groupFolder: options.groupFolder,
+    chatJid: options.chatJid || findGroupChatJid(options.groupFolder, deps) || '',
     isMain,
-    isScheduledTask: true
+    isScheduledTask: true,
+    deliversReply: options.deliversReply,
+    ...options.agent
   });
 
   if (output.status === 'error') {
     throw new Error(output.error || 'Agent execution failed');
   }
 
+  if (options.deliversReply) {
+    return output.result ?? '';
+  }
   return output.result || 'Completed';
 }
 
+/**
+ * 运行工作流，每个步骤作为一次 Agent 调用（带步骤级超时）
+ */
+function runWorkflow(workflowId: string, deps: SchedulerDependencies, trigger: string): Promise<WorkflowRunSummary> {
+  return executeWorkflow(workflowId, (step, prompt, workflow) => withTimeout(
+    runAgentPrompt({
+      groupFolder: workflow.group_folder,
+      chatJid: '',
+      prompt,
+      contextMode: step.context_mode
+    }, deps),
+    step.timeout_ms,
+    `步骤执行超时 (${step.timeout_ms}ms)`
+  ), { trigger });
+}
+
+/**
+ * 定时触发的工作流任务：有未处理的失败步骤时按任务失败处理
+ */
+async function runWorkflowTask(task: ScheduledTask, deps: SchedulerDependencies): Promise<string> {
+  if (!task.workflow_id) {
+    throw new Error('工作流任务缺少 workflow_id');
+  }
+
+  const summary = await runWorkflow(task.workflow_id, deps, 'schedule');
+  if (summary.status === 'error') {
+    throw new Error(`${formatWorkflowRun(summary)}: ${summary.error}`);
+  }
+  return formatWorkflowRun(summary);
+}
+
+/**
+ * 以监控任务身份执行工具（需要审批或被禁用的工具不能用于监控）
+ */
+async function runWatchTool(
+  name: string,
+  params: Record<string, unknown>,
+  task: ScheduledTask,
+  deps: SchedulerDependencies
+): Promise<ToolResult> {
+  const toolInfo = pluginManager.getTool(name);
+  if (!toolInfo) {
+    throw new Error(`未找到工具: ${name}`);
+  }
+  if (getToolPolicy(name) !== 'allow') {
+    throw new Error(`工具 ${name} 需要审批或已被禁用，不能用于监控任务`);
+  }
+
+  const chatJid = task.chat_jid || findGroupChatJid(task.group_folder, deps) || '';
+  const context: ToolContext = {
+    chatId: chatJid,
+    groupId: task.group_folder,
+    userId: `task:${task.id}`,
+    sendMessage: (content: string) => deps.sendMessage(chatJid, content),
+    sendImage: async () => {
+      throw new Error('监控任务不支持发送图片');
+    }
+  };
+  const { plugin, isMultiTool } = toolInfo;
+  return isMultiTool ? plugin.execute(name, params, context) : plugin.execute(params, context);
+}
+
+/**
+ * 运行监控任务：检查内容，只有变化或匹配时才运行 Agent 并把结果发送到会话
+ * 快照在 Agent 成功后才保存，失败重试时会再次触发
+ */
+async function runWatchTask(task: ScheduledTask, deps: SchedulerDependencies): Promise<string> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(task.watch_config || '');
+  } catch {
+    throw new Error('监控配置无效');
+  }
+  const { config, error } = parseWatchConfig(raw);
+  if (!config) {
+    throw new Error(`监控配置无效: ${error}`);
+  }
+
+  const observation = await observeWatch(config, {
+    groupFolder: task.group_folder,
+    runTool: (name, params) => runWatchTool(name, params, task, deps)
+  });
+  const evaluation = evaluateWatch(config, observation, {
+    snapshot: task.watch_snapshot ?? null,
+    hash: task.watch_hash ?? null
+  });
+
+  if (!evaluation.triggered) {
+    updateWatchState(task.id, evaluation.snapshot, evaluation.hash);
+    return `未触发: ${evaluation.reason}`;
+  }
+
+  logger.info({ taskId: task.id, reason: evaluation.reason }, '👀 监控任务触发');
+  const result = await runAgentPrompt({
+    groupFolder: task.group_folder,
+    chatJid: task.chat_jid,
+    prompt: buildWatchPrompt(task.prompt, config, evaluation),
+    contextMode: task.context_mode,
+    agent: taskAgentOptions(task),
+    deliversReply: true
+  }, deps);
+
+  const chatJid = task.chat_jid || findGroupChatJid(task.group_folder, deps);
+  if (chatJid && result.trim()) {
+    await deps.sendMessage(chatJid, result);
+  }
+  updateWatchState(task.id, evaluation.snapshot, evaluation.hash, new Date().toISOString());
+  return result.trim() ? `已触发: ${evaluation.reason}\n\n${result}` : `已触发: ${evaluation.reason}`;
+}
+
+/**
+ * 内置任务：整理长期记忆，发现冲突时提醒主会话
+ */
+async function runMemoryConsolidation(task: ScheduledTask, deps: SchedulerDependencies): Promise<string> {
+  const result = await consolidateMemories({ chatJid: task.chat_jid || undefined });
+
+  if (result.conflicts > 0) {
+    const chatJid = task.chat_jid || findGroupChatJid(MAIN_GROUP_FOLDER, deps);
+    if (chatJid) {
+      try {
+        await deps.sendMessage(chatJid, `🧠 记忆整理发现 ${result.conflicts} 处可能互相矛盾的记忆，发送 /memory review 查看并确认`);
+      } catch (err) {
+        logger.warn({ taskId: task.id, err: String(err) }, '发送记忆整理提醒失败');
+      }
+    }
+  }
+
+  return formatConsolidationResult(result);
+}
+
 // ==================== 重试机制 ====================
 
 /**
  * 处理任务失败（重试逻辑）
  */
-async function handleTaskFailure(task: ScheduledTask, error: string): Promise<void> {
+async function handleTaskFailure(task: ScheduledTask, error: string, deps: SchedulerDependencies): Promise<void> {
   const maxRetries = task.max_retries ?? 3;
   const currentRetry = (task.retry_count ?? 0) + 1;
 
@@ -355,6 +821,10 @@ async function handleTaskFailure(task: ScheduledTask, error: string): Promise<vo
       const nextRun = calculateNextRun(task);
       updateTaskAfterRun(task.id, nextRun, `Error: ${error}`);
     }
+
+    if (shouldNotifyFailure(task) && await notifyTaskFailure(task, error, deps)) {
+      updateTask(task.id, { failure_notified_at: new Date().toISOString() });
+    }
     return;
   }
 
@@ -377,16 +847,21 @@ async function handleTaskFailure(task: ScheduledTask, error: string): Promise<vo
 
 /**
  * 计算下次运行时间
+ * run_all 策略的任务从本次计划时间推进，落后时下一次立即到期，直到补跑完毕
  */
 function calculateNextRun(task: ScheduledTask): string | null {
+  const now = Date.now();
+  const scheduled = task.next_run ? new Date(task.next_run).getTime() : NaN;
+  const from = resolveCatchUpPolicy(task) === 'run_all' && scheduled < now ? scheduled : now;
+
   switch (task.schedule_type) {
     case 'cron': {
-      const interval = CronExpressionParser.parse(task.schedule_value, { tz: TIMEZONE });
+      const interval = CronExpressionParser.parse(task.schedule_value, { tz: TIMEZONE, currentDate: new Date(from) });
       return interval.next().toISOString();
     }
     case 'interval': {
       const ms = parseInt(task.schedule_value, 10);
-      return new Date(Date.now() + ms).toISOString();
+      return new Date(from + ms).toISOString();
     }
     case 'once':
       // 一次性任务执行后没有下次
@@ -398,17 +873,48 @@ function calculateNextRun(task: ScheduledTask): string | null {
 
 // ==================== 公开 API ====================
 
+/**
+ * 清理过期的任务运行记录
+ * @returns 删除的记录数量
+ */
+export function pruneTaskRunLogs(retentionDays = TASK_RUN_LOG_RETENTION_DAYS): number {
+  if (retentionDays <= 0) return 0;
+  const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000).toISOString();
+  try {
+    const deleted = deleteTaskRunLogsBefore(cutoff);
+    if (deleted > 0) {
+      logger.info({ deleted, retentionDays }, '🧹 已清理过期任务运行记录');
+    }
+    return deleted;
+  } catch (err) {
+    logger.warn({ err: String(err) }, '清理任务运行记录失败');
+    return 0;
+  }
+}
+
 /**
  * 启动调度器
  */
 export function startScheduler(deps: SchedulerDependencies): void {
-  getState().deps = deps;
-  logger.debug('⚡ 任务调度器已启动');
-  armTimer();
+  const state = getState();
+  if (state.heartbeat) {
+    clearInterval(state.heartbeat);
+  }
+  state.deps = deps;
+  state.instanceId = createInstanceId();
+  state.leader = false;
+  logger.debug({ instanceId: state.instanceId }, '⚡ 任务调度器已启动');
+
+  if (!refreshLeadership()) {
+    logger.info({ holder: getSchedulerLease()?.holder }, '⏸️ 其他实例正在执行定时任务，本实例待命');
+  }
+
+  state.heartbeat = setInterval(heartbeat, LEASE_HEARTBEAT_MS);
+  state.heartbeat.unref?.();
 }
 
 /**
- * 停止调度器
+ * 停止调度器（释放租约，其他实例可以立即接管）
  */
 export function stopScheduler(): void {
   const state = getState();
@@ -416,19 +922,42 @@ export function stopScheduler(): void {
     clearTimeout(state.timer);
     state.timer = null;
   }
+  if (state.heartbeat) {
+    clearInterval(state.heartbeat);
+    state.heartbeat = null;
+  }
+  if (state.leader && state.instanceId) {
+    try {
+      releaseSchedulerLease(state.instanceId);
+    } catch (err) {
+      logger.warn({ err: String(err) }, '释放调度器租约失败');
+    }
+  }
+  state.leader = false;
   state.deps = null;
   logger.info('⚡ 任务调度器已停止');
 }
 
 /**
  * 立即唤醒调度器
- * 用于创建新任务后立即检查是否需要执行
+ * 用于创建新任务后立即检查是否需要执行（follower 忽略，leader 会在下次心跳时发现新任务）
  */
 export function wake(): void {
   logger.debug('收到唤醒信号，重新计算定时器');
   armTimer();
 }
 
+/**
+ * 立即运行工作流（手动触发，与定时任务共享并发限制）
+ */
+export async function triggerWorkflow(workflowId: string): Promise<WorkflowRunSummary> {
+  const deps = getState().deps;
+  if (!deps) {
+    throw new Error('调度器未启动');
+  }
+  return taskLimit(() => runWorkflow(workflowId, deps, 'manual'));
+}
+
 /**
  * 获取调度器状态
  */
@@ -436,14 +965,24 @@ export function getSchedulerStatus(): {
   running: boolean;
   nextWakeTime: number | null;
   activeTasks: number;
+  role: SchedulerRole;
+  instanceId: string | null;
+  leaseHolder: string | null;
+  leaseExpiresAt: string | null;
 } {
+  const state = getState();
   const nextWakeTime = getNextWakeTime();
   const dueTasks = getDueTasks();
+  const lease = getSchedulerLease();
   
   return {
-    running: getState().running,
+    running: state.running,
     nextWakeTime,
-    activeTasks: dueTasks.length
+    activeTasks: dueTasks.length,
+    role: !state.deps ? 'stopped' : state.leader ? 'leader' : 'follower',
+    instanceId: state.instanceId,
+    leaseHolder: lease?.holder ?? null,
+    leaseExpiresAt: lease?.expires_at ?? null
   };
 }
 
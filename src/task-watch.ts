@@ -0,0 +1,286 @@
+/**
+ * FlashClaw 监控任务
+ *
+ * 监控任务（kind: 'watch'）按间隔执行一次廉价的检查：抓取网页、读取 RSS/Atom、读取文件或调用工具，
+ * 与上次保存的快照比较，只有内容变化或满足条件时才运行 Agent 并通知会话。
+ */
+
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { paths } from './paths.js';
+import type { ToolResult } from './plugins/types.js';
+
+// ==================== 类型定义 ====================
+
+export type WatchSource = 'url' | 'feed' | 'file' | 'tool';
+
+export interface WatchConfig {
+  source: WatchSource;
+  /** url / feed: 地址；file: 群组目录内的相对路径；tool: 工具名 */
+  target: string;
+  /** source 为 tool 时传给工具的参数 */
+  params?: Record<string, unknown>;
+  /** source 为 url 时只取匹配 CSS 选择器的内容 */
+  selector?: string;
+  /** 触发条件：change（内容变化，默认）或 match（内容开始匹配 pattern） */
+  trigger?: 'change' | 'match';
+  /** trigger 为 match 时的正则表达式（不区分大小写） */
+  pattern?: string;
+}
+
+export interface FeedItem {
+  id: string;
+  title: string;
+  link: string;
+}
+
+export interface WatchObservation {
+  content: string;
+  /** source 为 feed 时解析出的条目 */
+  items?: FeedItem[];
+}
+
+export interface WatchEvaluation {
+  triggered: boolean;
+  /** 触发原因或未触发的说明 */
+  reason: string;
+  /** 变化摘要（新增/删除的行，或新的 feed 条目） */
+  changes: string;
+  snapshot: string;
+  hash: string;
+}
+
+export interface WatchDependencies {
+  groupFolder: string;
+  /** 执行工具（url / feed 使用 web_fetch） */
+  runTool: (name: string, params: Record<string, unknown>) => Promise<ToolResult>;
+}
+
+const WATCH_SOURCES: WatchSource[] = ['url', 'feed', 'file', 'tool'];
+
+/** 保存的快照最大字符数（比较使用完整内容的哈希） */
+const SNAPSHOT_MAX_CHARS = 50000;
+/** 变化摘要最多列出的行数 */
+const MAX_CHANGE_LINES = 20;
+/** 变化摘要中单行最大长度 */
+const MAX_LINE_CHARS = 200;
+
+// ==================== 配置解析 ====================
+
+/**
+ * 校验监控配置
+ */
+export function parseWatchConfig(raw: unknown): { config?: WatchConfig; error?: string } {
+  if (!raw || typeof raw !== 'object') return { error: '监控配置必须是对象' };
+  const value = raw as Record<string, unknown>;
+
+  const source = value.source;
+  if (typeof source !== 'string' || !WATCH_SOURCES.includes(source as WatchSource)) {
+    return { error: `source 必须是 ${WATCH_SOURCES.join('、')} 之一` };
+  }
+  if (typeof value.target !== 'string' || !value.target.trim()) {
+    return { error: 'target 不能为空' };
+  }
+  const target = value.target.trim();
+  if ((source === 'url' || source === 'feed') && !/^https?:\/\//i.test(target)) {
+    return { error: 'url / feed 监控的 target 必须是 http(s) 地址' };
+  }
+  if (source === 'file' && (path.isAbsolute(target) || target.split(/[\\/]/).includes('..'))) {
+    return { error: '文件监控只能使用群组目录内的相对路径' };
+  }
+  if (value.params !== undefined && (typeof value.params !== 'object' || value.params === null || Array.isArray(value.params))) {
+    return { error: 'params 必须是对象' };
+  }
+  if (value.selector !== undefined && typeof value.selector !== 'string') {
+    return { error: 'selector 必须是字符串' };
+  }
+
+  const trigger = value.trigger ?? 'change';
+  if (trigger !== 'change' && trigger !== 'match') {
+    return { error: 'trigger 必须是 change 或 match' };
+  }
+  if (trigger === 'match') {
+    if (typeof value.pattern !== 'string' || !value.pattern) {
+      return { error: 'trigger 为 match 时必须提供 pattern' };
+    }
+    try {
+      new RegExp(value.pattern, 'i');
+    } catch {
+      return { error: `无效的正则表达式: ${value.pattern}` };
+    }
+  }
+
+  return {
+    config: {
+      source: source as WatchSource,
+      target,
+      ...(value.params ? { params: value.params as Record<string, unknown> } : {}),
+      ...(value.selector ? { selector: value.selector as string } : {}),
+      trigger,
+      ...(trigger === 'match' ? { pattern: value.pattern as string } : {})
+    }
+  };
+}
+
+/**
+ * 一句话描述监控配置（用于任务列表和提示词）
+ */
+export function describeWatch(config: WatchConfig): string {
+  const what = config.source === 'url' ? `网页 ${config.target}${config.selector ? ` (${config.selector})` : ''}`
+    : config.source === 'feed' ? `订阅源 ${config.target}`
+    : config.source === 'file' ? `文件 ${config.target}`
+    : `工具 ${config.target}`;
+  return config.trigger === 'match' ? `${what} 匹配 /${config.pattern}/` : `${what} 内容变化`;
+}
+
+// ==================== 观测 ====================
+
+/**
+ * 解析 RSS / Atom 条目
+ */
+export function parseFeedItems(xml: string): FeedItem[] {
+  const items: FeedItem[] = [];
+  const blocks = xml.match(/<(item|entry)[\s>][\s\S]*?<\/\1>/gi) ?? [];
+  const text = (block: string, tag: string): string => {
+    const match = block.match(new RegExp(`<${tag}[^>]*>([\\s\\S]*?)</${tag}>`, 'i'));
+    return match ? match[1].replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1').replace(/<[^>]+>/g, '').trim() : '';
+  };
+  for (const block of blocks) {
+    const title = text(block, 'title');
+    const link = text(block, 'link') || block.match(/<link[^>]*href="([^"]+)"/i)?.[1] || '';
+    const id = (text(block, 'guid') || text(block, 'id') || link || title).replace(/\s+/g, '');
+    if (id) items.push({ id, title, link });
+  }
+  return items;
+}
+
+function toolContent(result: ToolResult, name: string): string {
+  if (!result.success) {
+    throw new Error(`${name} 执行失败: ${result.error || '未知错误'}`);
+  }
+  const data = result.data as { content?: unknown } | string | undefined;
+  if (typeof data === 'string') return data;
+  if (data && typeof data === 'object' && typeof data.content === 'string') return data.content;
+  return JSON.stringify(data ?? null);
+}
+
+/**
+ * 执行一次检查，返回观测到的内容
+ */
+export async function observeWatch(config: WatchConfig, deps: WatchDependencies): Promise<WatchObservation> {
+  switch (config.source) {
+    case 'url': {
+      const result = await deps.runTool('web_fetch', {
+        url: config.target,
+        extract: 'text',
+        ...(config.selector ? { selector: config.selector } : {})
+      });
+      return { content: toolContent(result, 'web_fetch') };
+    }
+    case 'feed': {
+      const result = await deps.runTool('web_fetch', { url: config.target, extract: 'html' });
+      const items = parseFeedItems(toolContent(result, 'web_fetch'));
+      // 每行以条目 ID 开头（ID 不含空白），比较时据此识别新条目
+      return { content: items.map(i => `${i.id} ${i.title}`).join('\n'), items };
+    }
+    case 'file': {
+      const groupDir = path.resolve(paths.groups(), deps.groupFolder);
+      const filePath = path.resolve(groupDir, config.target);
+      if (!filePath.startsWith(groupDir + path.sep)) {
+        throw new Error('文件监控只能读取群组目录内的文件');
+      }
+      // 文件不存在视为空内容，创建后即触发变化
+      return { content: fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf-8') : '' };
+    }
+    case 'tool': {
+      const result = await deps.runTool(config.target, config.params ?? {});
+      return { content: toolContent(result, config.target) };
+    }
+  }
+}
+
+// ==================== 比较 ====================
+
+function normalizeContent(content: string): string {
+  return content.replace(/\r\n/g, '\n').split('\n').map(l => l.replace(/\s+/g, ' ').trim()).filter(Boolean).join('\n');
+}
+
+function clip(line: string): string {
+  return line.length > MAX_LINE_CHARS ? `${line.slice(0, MAX_LINE_CHARS)}...` : line;
+}
+
+/**
+ * 逐行比较两次内容，列出新增和删除的行
+ */
+export function summarizeChanges(previous: string, current: string): string {
+  const before = new Set(previous.split('\n'));
+  const after = new Set(current.split('\n'));
+  const added = [...after].filter(l => l && !before.has(l));
+  const removed = [...before].filter(l => l && !after.has(l));
+
+  const lines: string[] = [];
+  for (const line of added.slice(0, MAX_CHANGE_LINES)) lines.push(`+ ${clip(line)}`);
+  if (added.length > MAX_CHANGE_LINES) lines.push(`+ ...（另有 ${added.length - MAX_CHANGE_LINES} 行）`);
+  for (const line of removed.slice(0, MAX_CHANGE_LINES)) lines.push(`- ${clip(line)}`);
+  if (removed.length > MAX_CHANGE_LINES) lines.push(`- ...（另有 ${removed.length - MAX_CHANGE_LINES} 行）`);
+  return lines.join('\n');
+}
+
+/**
+ * 与上次快照比较，判断是否需要触发
+ * - change: 首次检查只记录基线；之后内容哈希变化即触发（feed 只在出现新条目时触发）
+ * - match: 内容从不匹配变为匹配时触发，持续匹配不会重复触发
+ */
+export function evaluateWatch(
+  config: WatchConfig,
+  observation: WatchObservation,
+  previous: { snapshot: string | null; hash: string | null }
+): WatchEvaluation {
+  const normalized = normalizeContent(observation.content);
+  const hash = crypto.createHash('sha256').update(normalized).digest('hex');
+  const snapshot = normalized.slice(0, SNAPSHOT_MAX_CHARS);
+  const base = { snapshot, hash };
+
+  if (config.trigger === 'match') {
+    const regex = new RegExp(config.pattern!, 'i');
+    const matched = normalized.split('\n').filter(l => regex.test(l));
+    const matchedBefore = previous.snapshot !== null && regex.test(previous.snapshot);
+    if (matched.length > 0 && !matchedBefore) {
+      return { ...base, triggered: true, reason: `内容匹配 /${config.pattern}/`, changes: matched.slice(0, MAX_CHANGE_LINES).map(clip).join('\n') };
+    }
+    return { ...base, triggered: false, reason: matched.length > 0 ? '仍然匹配，不重复通知' : '未匹配', changes: '' };
+  }
+
+  if (previous.hash === null) {
+    return { ...base, triggered: false, reason: '首次检查，已记录基线', changes: '' };
+  }
+  if (previous.hash === hash) {
+    return { ...base, triggered: false, reason: '内容未变化', changes: '' };
+  }
+
+  if (observation.items) {
+    const known = new Set((previous.snapshot ?? '').split('\n').map(l => l.split(' ')[0]));
+    const fresh = observation.items.filter(i => !known.has(i.id));
+    if (fresh.length === 0) {
+      return { ...base, triggered: false, reason: '没有新条目', changes: '' };
+    }
+    const changes = fresh.slice(0, MAX_CHANGE_LINES).map(i => `+ ${clip(i.title || i.id)}${i.link ? ` ${i.link}` : ''}`).join('\n');
+    return { ...base, triggered: true, reason: `${fresh.length} 个新条目`, changes };
+  }
+
+  return { ...base, triggered: true, reason: '内容发生变化', changes: summarizeChanges(previous.snapshot ?? '', normalized) };
+}
+
+/**
+ * 构建触发后交给 Agent 的提示词
+ */
+export function buildWatchPrompt(prompt: string, config: WatchConfig, evaluation: WatchEvaluation): string {
+  return `${prompt}
+
+---
+[监控触发] ${describeWatch(config)}
+原因: ${evaluation.reason}
+${evaluation.changes ? `\n变化内容:\n${evaluation.changes}\n` : ''}
+请根据以上变化完成任务。你的回复会直接发送到当前会话，不需要再调用 send_message。`;
+}
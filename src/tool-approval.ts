@@ -0,0 +1,250 @@
+/**
+ * Tool Approval
+ *
+ * 工具调用审批：按工具配置 allow / ask / deny 策略
+ * - allow: 直接执行
+ * - ask: 暂停 Agent，通过来源渠道请求用户确认，超时视为拒绝
+ * - deny: 直接拒绝
+ *
+ * 策略来源（优先级从高到低）：
+ * 1. config/plugins.json 的 toolPolicies
+ * 2. 插件 plugin.json 的 toolPolicies
+ * 3. 默认 allow
+ */
+
+import { randomBytes } from 'crypto';
+import { pluginManager } from './plugins/manager.js';
+import { loadPluginsConfig } from './plugins/loader.js';
+import type { ApprovalPrompt, ToolPolicy } from './plugins/types.js';
+import { MAIN_GROUP_FOLDER, TOOL_APPROVAL_TIMEOUT_MS } from './config.js';
+import { createLogger } from './logger.js';
+
+const logger = createLogger('ToolApproval');
+
+const VALID_POLICIES: ToolPolicy[] = ['allow', 'ask', 'deny'];
+const MAX_PARAMS_PREVIEW_CHARS = 300;
+
+/**
+ * 审批请求
+ */
+export interface ApprovalRequest {
+  /** 审批 ID（短 ID，便于用户手动输入） */
+  id: string;
+  toolName: string;
+  params: unknown;
+  chatJid: string;
+  groupFolder: string;
+  userId: string;
+  platform?: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+/**
+ * 审批结果
+ */
+export type ApprovalDecision = 'approved' | 'denied' | 'timeout';
+
+/**
+ * 审批通知器：把审批请求投递给用户（渠道消息、Web UI 对话框等）
+ */
+export type ApprovalNotifier = (request: ApprovalRequest, prompt: ApprovalPrompt) => Promise<void>;
+
+interface PendingApproval {
+  request: ApprovalRequest;
+  resolve: (decision: ApprovalDecision) => void;
+  timer: NodeJS.Timeout;
+}
+
+// 挂在 globalThis 上，保证 jiti 加载的插件与主程序共享同一份待审批列表
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const approvalState = ((globalThis as any).__flashclaw_tool_approvals ??= {
+  pending: new Map<string, PendingApproval>(),
+  notifier: null as ApprovalNotifier | null,
+}) as { pending: Map<string, PendingApproval>; notifier: ApprovalNotifier | null };
+
+// ==================== 策略 ====================
+
+function isValidPolicy(value: unknown): value is ToolPolicy {
+  return typeof value === 'string' && VALID_POLICIES.includes(value as ToolPolicy);
+}
+
+/**
+ * 获取工具的审批策略
+ */
+export function getToolPolicy(toolName: string): ToolPolicy {
+  const configured = loadPluginsConfig().toolPolicies?.[toolName];
+  if (isValidPolicy(configured)) {
+    return configured;
+  }
+  if (configured !== undefined) {
+    logger.warn({ tool: toolName, policy: configured }, '⚠️ 无效的工具审批策略配置，已忽略');
+  }
+
+  const declared = pluginManager.getToolPolicy(toolName);
+  if (isValidPolicy(declared)) {
+    return declared;
+  }
+
+  return 'allow';
+}
+
+// ==================== 审批流程 ====================
+
+/**
+ * 设置默认审批通知器（由 index.ts 注入，通过渠道发送审批请求）
+ */
+export function setApprovalNotifier(notifier: ApprovalNotifier | null): void {
+  approvalState.notifier = notifier;
+}
+
+/**
+ * 生成参数摘要
+ */
+function previewParams(params: unknown): string {
+  let text: string;
+  try {
+    text = typeof params === 'string' ? params : JSON.stringify(params);
+  } catch {
+    text = String(params);
+  }
+  if (!text) return '{}';
+  return text.length > MAX_PARAMS_PREVIEW_CHARS
+    ? `${text.slice(0, MAX_PARAMS_PREVIEW_CHARS)}...`
+    : text;
+}
+
+/**
+ * 构建发给渠道的审批提示
+ */
+export function buildApprovalPrompt(request: ApprovalRequest): ApprovalPrompt {
+  const paramsPreview = previewParams(request.params);
+  const timeoutSec = Math.max(1, Math.round((Date.parse(request.expiresAt) - Date.parse(request.createdAt)) / 1000));
+  const text = `🔐 **工具调用需要确认**\n\n`
+    + `🔧 工具: \`${request.toolName}\`\n`
+    + `📦 参数: \`${paramsPreview}\`\n\n`
+    + `回复 \`/approve ${request.id}\` 允许执行，\`/deny ${request.id}\` 拒绝\n`
+    + `_${timeoutSec} 秒内未确认将自动拒绝_`;
+
+  return {
+    id: request.id,
+    toolName: request.toolName,
+    paramsPreview,
+    expiresAt: request.expiresAt,
+    text,
+  };
+}
+
+/**
+ * 发起审批并等待用户应答
+ * @param input 审批请求内容
+ * @param options.timeoutMs 超时时间（超时视为拒绝）
+ * @param options.notify 自定义通知器（如 Web UI 流式对话框），默认使用渠道通知器
+ */
+export async function requestToolApproval(
+  input: Omit<ApprovalRequest, 'id' | 'createdAt' | 'expiresAt'>,
+  options: { timeoutMs?: number; notify?: ApprovalNotifier } = {}
+): Promise<ApprovalDecision> {
+  const timeoutMs = options.timeoutMs ?? TOOL_APPROVAL_TIMEOUT_MS;
+  const now = Date.now();
+
+  let id = randomBytes(3).toString('hex');
+  while (approvalState.pending.has(id)) {
+    id = randomBytes(3).toString('hex');
+  }
+
+  const request: ApprovalRequest = {
+    ...input,
+    id,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + timeoutMs).toISOString(),
+  };
+
+  const notify = options.notify ?? approvalState.notifier;
+  if (!notify) {
+    logger.warn({ tool: request.toolName, chatJid: request.chatJid }, '⚠️ 未配置审批通知器，工具调用已拒绝');
+    return 'denied';
+  }
+
+  const decision = new Promise<ApprovalDecision>((resolve) => {
+    const timer = setTimeout(() => {
+      if (approvalState.pending.delete(id)) {
+        logger.info({ approvalId: id, tool: request.toolName }, '⏰ 工具调用审批超时');
+        resolve('timeout');
+      }
+    }, timeoutMs);
+    timer.unref?.();
+    approvalState.pending.set(id, { request, resolve, timer });
+  });
+
+  try {
+    await notify(request, buildApprovalPrompt(request));
+    logger.info({ approvalId: id, tool: request.toolName, chatJid: request.chatJid }, '🔐 已发送工具调用审批请求');
+  } catch (err) {
+    logger.error({ approvalId: id, tool: request.toolName, err }, '发送审批请求失败，工具调用已拒绝');
+    const pending = approvalState.pending.get(id);
+    if (pending) {
+      clearTimeout(pending.timer);
+      approvalState.pending.delete(id);
+      pending.resolve('denied');
+    }
+  }
+
+  return decision;
+}
+
+/**
+ * 判断用户能否应答审批请求：发起请求的用户本人，或主会话（管理员会话）中的用户
+ */
+export function canRespondToApproval(request: ApprovalRequest, userId: string): boolean {
+  return userId === request.userId || request.groupFolder === MAIN_GROUP_FOLDER;
+}
+
+/**
+ * 应答审批请求
+ * @param id 审批 ID
+ * @param approved 是否允许
+ * @param chatJid 应答来源会话（提供时必须与请求会话一致）
+ * @param userId 应答用户（渠道消息提供；群聊中其他成员不能替发起人确认）
+ * @returns 被应答的请求，不存在、会话不匹配或用户无权应答时返回 null
+ */
+export function resolveToolApproval(id: string, approved: boolean, chatJid?: string, userId?: string): ApprovalRequest | null {
+  const pending = approvalState.pending.get(id);
+  if (!pending) {
+    return null;
+  }
+  if (chatJid && pending.request.chatJid !== chatJid) {
+    logger.warn({ approvalId: id, chatJid, expected: pending.request.chatJid }, '⚠️ 审批应答来自其他会话，已忽略');
+    return null;
+  }
+  if (userId !== undefined && !canRespondToApproval(pending.request, userId)) {
+    logger.warn({ approvalId: id, userId, expected: pending.request.userId }, '⚠️ 审批应答来自其他用户，已忽略');
+    return null;
+  }
+
+  clearTimeout(pending.timer);
+  approvalState.pending.delete(id);
+  pending.resolve(approved ? 'approved' : 'denied');
+  logger.info({ approvalId: id, tool: pending.request.toolName, approved }, '🔐 工具调用审批已应答');
+  return pending.request;
+}
+
+/**
+ * 获取待审批请求
+ * @param chatJid 仅返回指定会话的请求（可选）
+ */
+export function getPendingApprovals(chatJid?: string): ApprovalRequest[] {
+  const requests = Array.from(approvalState.pending.values()).map(p => p.request);
+  return chatJid ? requests.filter(r => r.chatJid === chatJid) : requests;
+}
+
+/**
+ * 拒绝所有待审批请求（关闭服务时调用）
+ */
+export function clearPendingApprovals(): void {
+  for (const pending of approvalState.pending.values()) {
+    clearTimeout(pending.timer);
+    pending.resolve('denied');
+  }
+  approvalState.pending.clear();
+}
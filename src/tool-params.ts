@@ -7,86 +7,10 @@
  */
 
 import { createLogger } from './logger.js';
+import { parseSchedule, parseDuration } from './schedule-parser.js';
 
 const logger = createLogger('ToolParams');
 
-// ==================== 通用修正 ====================
-
-/**
- * 尝试将各种时间格式转为 ISO 8601
- * 支持：
- * - "2024-12-31 9:00" → "2024-12-31T09:00:00+08:00"
- * - "2024/12/31 09:00" → "2024-12-31T09:00:00+08:00"
- * - "明天 9:00" → 计算为明天的 ISO 时间
- * - "12-31 9:00" → 补全年份
- * - 已经是 ISO 格式的直接返回
- */
-function tryParseToISO(value: string): string | null {
-  // 已经是有效 ISO 格式
-  if (/^\d{4}-\d{2}-\d{2}T/.test(value)) {
-    const d = new Date(value);
-    if (!isNaN(d.getTime())) return d.toISOString();
-  }
-
-  // "2024-12-31 09:00" 或 "2024-12-31 9:00:00"
-  const dateTimeMatch = value.match(/^(\d{4})[/-](\d{1,2})[/-](\d{1,2})\s+(\d{1,2}):(\d{2})(?::(\d{2}))?$/);
-  if (dateTimeMatch) {
-    const [, y, m, d, h, min, sec] = dateTimeMatch;
-    const dateStr = `${y}-${m.padStart(2, '0')}-${d.padStart(2, '0')}T${h.padStart(2, '0')}:${min}:${sec || '00'}`;
-    const parsed = new Date(dateStr);
-    if (!isNaN(parsed.getTime())) return parsed.toISOString();
-  }
-
-  // "12-31 09:00" → 补全当前年份
-  const shortDateMatch = value.match(/^(\d{1,2})[/-](\d{1,2})\s+(\d{1,2}):(\d{2})$/);
-  if (shortDateMatch) {
-    const [, m, d, h, min] = shortDateMatch;
-    const year = new Date().getFullYear();
-    const dateStr = `${year}-${m.padStart(2, '0')}-${d.padStart(2, '0')}T${h.padStart(2, '0')}:${min}:00`;
-    const parsed = new Date(dateStr);
-    if (!isNaN(parsed.getTime())) {
-      // 如果已过去，可能是指明年
-      if (parsed.getTime() < Date.now()) {
-        const nextYear = new Date(dateStr.replace(`${year}`, `${year + 1}`));
-        if (!isNaN(nextYear.getTime())) return nextYear.toISOString();
-      }
-      return parsed.toISOString();
-    }
-  }
-
-  return null;
-}
-
-/**
- * 将中文时间间隔转为毫秒
- * "30分钟" → "1800000"
- * "2小时" → "7200000"
- * "1天" → "86400000"
- */
-function tryParseIntervalToMs(value: string): string | null {
-  const match = value.match(/^(\d+(?:\.\d+)?)\s*(秒|分钟?|小时?|天|s|sec|min|minute|h|hour|d|day)s?$/i);
-  if (!match) return null;
-
-  const num = parseFloat(match[1]);
-  const unit = match[2].toLowerCase();
-
-  let ms: number;
-  if (['秒', 's', 'sec'].includes(unit)) {
-    ms = num * 1000;
-  } else if (['分', '分钟', 'min', 'minute'].includes(unit)) {
-    ms = num * 60 * 1000;
-  } else if (['时', '小时', 'h', 'hour'].includes(unit)) {
-    ms = num * 3600 * 1000;
-  } else if (['天', 'd', 'day'].includes(unit)) {
-    ms = num * 86400 * 1000;
-  } else {
-    return null;
-  }
-
-  if (ms < 1000) return null;
-  return String(Math.round(ms));
-}
-
 // ==================== 按工具名修正 ====================
 
 type ParamRecord = Record<string, unknown>;
@@ -125,11 +49,11 @@ function normalizeScheduleTask(params: ParamRecord): ParamRecord {
   // 修正 scheduleValue 时间格式
   if (result.scheduleType === 'once' && typeof result.scheduleValue === 'string') {
     const sv = result.scheduleValue.trim();
-    // 不是有效 ISO 格式，尝试解析
+    // 不是有效 ISO 格式，按自然语言时间解析（"2024-12-31 9:00"、"明天 9:00" 等）
     if (!/^\d{4}-\d{2}-\d{2}T/.test(sv)) {
-      const iso = tryParseToISO(sv);
-      if (iso) {
-        result.scheduleValue = iso;
+      const { schedule } = parseSchedule(sv);
+      if (schedule?.type === 'once') {
+        result.scheduleValue = schedule.value;
         changed = true;
       }
     }
@@ -138,10 +62,10 @@ function normalizeScheduleTask(params: ParamRecord): ParamRecord {
   // 修正 interval 类型：中文时间间隔或纯数字字符串
   if (result.scheduleType === 'interval' && typeof result.scheduleValue === 'string') {
     const sv = result.scheduleValue.trim();
-    // 先尝试中文/英文时间单位解析
-    const ms = tryParseIntervalToMs(sv);
-    if (ms) {
-      result.scheduleValue = ms;
+    // 先尝试中文/英文时间单位解析（"30分钟"、"2h"、"半小时"）
+    const ms = parseDuration(sv);
+    if (ms !== null && ms >= 1000) {
+      result.scheduleValue = String(ms);
       changed = true;
     } else if (/^\d+$/.test(sv)) {
       // 纯数字，但如果太小可能是秒而不是毫秒
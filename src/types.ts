@@ -9,7 +9,7 @@ export interface AgentConfig {
 // ==================== 多 Agent 配置 ====================
 
 /**
- * Agent 绑定规则 — 决定哪些消息路由到此 Agent
+ * Agent 绑定规则 — 决定哪些消息路由到此 Agent（所有条件都满足才命中）
  */
 export interface AgentBinding {
   /** 渠道名（feishu / telegram / web-ui / *） */
@@ -18,6 +18,16 @@ export interface AgentBinding {
   group?: string;
   /** 私聊对象 ID（精确匹配） */
   peer?: string;
+  /** 发送者角色（agents.json 顶层 roles 中的名单，任一命中即可） */
+  roles?: string[];
+  /** 关键词（消息包含任一关键词即命中，不区分大小写） */
+  keywords?: string[];
+  /** 正则表达式（匹配消息文本，不区分大小写） */
+  pattern?: string;
+  /** 生效时段 HH:MM-HH:MM（可跨午夜，按 TIMEZONE） */
+  hours?: string;
+  /** 优先级（越大越先匹配，默认 0） */
+  priority?: number;
 }
 
 /**
@@ -39,9 +49,17 @@ export interface MultiAgentConfig {
   /** 路由绑定规则 */
   bindings?: AgentBinding[];
   /** 提示词模式：full（完整）/ minimal（精简）/ none（极简） */
-  promptMode?: 'full' | 'minimal' | 'none';
+  promptMode?: PromptMode;
 }
 
+/**
+ * 系统提示词模式
+ * - full: 完整提示词（人格、群组提示词、用户信息、长期记忆、工具提示）
+ * - minimal: 保留人格和群组提示词，不注入长期记忆、用户信息和工具提示
+ * - none: 只有身份和当前时间（适合小模型执行简单提醒）
+ */
+export type PromptMode = 'full' | 'minimal' | 'none';
+
 /**
  * 注册的群组
  */
@@ -51,6 +69,14 @@ export interface RegisteredGroup {
   trigger: string;
   added_at: string;
   agentConfig?: AgentConfig;
+  /** 免打扰时段（如 "22:00-08:00"），期间非紧急任务顺延执行；未设置时使用 TASK_QUIET_HOURS */
+  quietHours?: string;
+  /**
+   * 允许的发送者（发送者 ID 或邮箱地址，支持 * 通配，如 "*@example.com"，不区分大小写）
+   * 加 "<平台>:" 前缀只对该渠道生效（如 "email:*@example.com"），不带前缀的对所有渠道生效
+   * 设置后其他人的消息直接忽略，不存储也不触发；没有适用于当前渠道的名单项时不限制；自动注册的会话继承 main 群组的名单
+   */
+  allowedSenders?: string[];
 }
 
 export interface Session {
@@ -66,6 +92,13 @@ export interface NewMessage {
   timestamp: string;
 }
 
+export interface MessageSearchResult extends NewMessage {
+  platform: string | null;
+  chat_name: string | null;
+  /** 命中位置附近的摘要 */
+  snippet: string;
+}
+
 export interface ScheduledTask {
   id: string;
   group_folder: string;
@@ -85,6 +118,102 @@ export interface ScheduledTask {
   max_retries: number;
   /** 任务执行超时时间（毫秒，默认 300000） */
   timeout_ms?: number;
+  /** 任务类型：agent（默认，运行 prompt）、workflow（触发工作流）、watch（监控变化）或内置的系统任务 */
+  kind?: 'agent' | 'workflow' | 'watch' | 'memory-consolidation';
+  /** kind 为 workflow 时触发的工作流 ID */
+  workflow_id?: string | null;
+  /** 最终失败时的通知目标（逗号分隔，null 表示使用 TASK_FAILURE_NOTIFY） */
+  notify_on_failure?: string | null;
+  /** 连续成功次数 */
+  success_streak?: number;
+  /** 连续失败次数（含重试） */
+  failure_streak?: number;
+  /** 本轮连续失败开始的时间 */
+  failing_since?: string | null;
+  /** 本轮连续失败最近一次发出通知的时间 */
+  failure_notified_at?: string | null;
+  /** 错过执行时的补跑策略（null 表示使用 TASK_CATCH_UP_POLICY） */
+  catch_up_policy?: CatchUpPolicy | null;
+  /** skip_if_older 策略的最大错过时长（分钟，null 表示使用 TASK_CATCH_UP_MAX_AGE_MINUTES） */
+  catch_up_max_age_minutes?: number | null;
+  /** 1 表示紧急任务，不受免打扰时段限制 */
+  urgent?: number;
+  /** kind 为 watch 时的监控配置（JSON，见 WatchConfig） */
+  watch_config?: string | null;
+  /** 上次检查的内容快照 */
+  watch_snapshot?: string | null;
+  /** 上次检查内容的哈希 */
+  watch_hash?: string | null;
+  /** 最近一次触发（内容变化或匹配）的时间 */
+  watch_triggered_at?: string | null;
+  /** 指定运行的 Agent（agent-manager 注册表中的 ID，null 表示按路由规则） */
+  agent_id?: string | null;
+  /** Provider / 模型覆盖（"provider"、"provider/model" 或模型名，优先于路由规则） */
+  model?: string | null;
+  /** 工具白名单（JSON 数组，支持 * 通配符；send_message 始终可用） */
+  allowed_tools?: string | null;
+  /** 提示词模式（null 表示使用 Agent 配置） */
+  prompt_mode?: PromptMode | null;
+}
+
+/**
+ * 错过执行时的补跑策略
+ * - run_once: 补跑一次，然后按原计划继续
+ * - run_all: 逐次补跑所有错过的执行（有次数上限）
+ * - skip: 不补跑，直接跳到下一次
+ * - skip_if_older: 错过太久则跳过，否则补跑一次
+ */
+export type CatchUpPolicy = 'run_once' | 'run_all' | 'skip' | 'skip_if_older';
+
+export interface Workflow {
+  id: string;
+  name: string;
+  description: string | null;
+  group_folder: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WorkflowStep {
+  workflow_id: string;
+  /** 步骤 ID（工作流内唯一） */
+  id: string;
+  /** 提示词模板，可引用上游步骤结果，如 {{steps.fetch.result}} */
+  prompt: string;
+  /** 成功后触发的步骤 ID（JSON 数组） */
+  on_success: string;
+  /** 失败后触发的步骤 ID（JSON 数组） */
+  on_failure: string;
+  /** all：所有上游边都触发才执行；any：任一上游边触发即执行 */
+  trigger_rule: 'all' | 'any';
+  context_mode: 'group' | 'isolated';
+  timeout_ms: number;
+  /** 定义中的顺序 */
+  position: number;
+}
+
+export interface WorkflowRun {
+  id: string;
+  workflow_id: string;
+  status: 'running' | 'success' | 'error';
+  /** 触发方式：schedule / manual */
+  trigger: string;
+  started_at: string;
+  finished_at: string | null;
+  error: string | null;
+}
+
+export interface WorkflowStepRun {
+  run_id: string;
+  step_id: string;
+  status: 'running' | 'success' | 'error' | 'skipped';
+  /** 渲染后的提示词 */
+  prompt: string | null;
+  result: string | null;
+  error: string | null;
+  started_at: string | null;
+  finished_at: string | null;
+  duration_ms: number | null;
 }
 
 export interface TaskRunLog {
@@ -95,3 +224,140 @@ export interface TaskRunLog {
   result: string | null;
   error: string | null;
 }
+
+/**
+ * 调度器租约（多个进程共用同一数据库时，只有持有者执行到期任务）
+ */
+export interface SchedulerLease {
+  name: string;
+  /** 持有者实例 ID（主机名:进程号:随机串） */
+  holder: string;
+  acquired_at: string;
+  heartbeat_at: string;
+  expires_at: string;
+}
+
+/**
+ * 任务认领记录（执行期间持续心跳，执行者崩溃后过期可被重新认领）
+ */
+export interface TaskClaim {
+  task_id: string;
+  holder: string;
+  claimed_at: string;
+  heartbeat_at: string;
+  expires_at: string;
+}
+
+/**
+ * 子 Agent 委派信息（随子 Agent 运行传递，用于限制嵌套深度和 token 用量）
+ */
+export interface DelegationInfo {
+  /** 委派 ID */
+  id: string;
+  /** 嵌套深度（顶层运行为 0，第一层子 Agent 为 1） */
+  depth: number;
+  /** 整棵委派树的顶层运行 ID */
+  rootRunId: string;
+}
+
+/**
+ * 子 Agent 委派记录（agent_delegations 表）
+ */
+export interface AgentDelegation {
+  id: string;
+  /** 发起委派的运行 ID */
+  parent_run_id: string | null;
+  root_run_id: string;
+  /** 子 Agent 的运行 ID（运行结束后写入） */
+  child_run_id: string | null;
+  parent_agent_id: string | null;
+  agent_id: string;
+  /** 子 Agent 会话使用的群组目录（继续同一会话时复用） */
+  session_folder: string;
+  chat_jid: string;
+  /** 发起委派的群组 */
+  group_folder: string;
+  depth: number;
+  task: string;
+  status: 'running' | 'success' | 'error';
+  result: string | null;
+  error: string | null;
+  input_tokens: number | null;
+  output_tokens: number | null;
+  started_at: string;
+  finished_at: string | null;
+}
+
+export interface AgentRunTrace {
+  id: string;
+  chat_jid: string;
+  group_folder: string;
+  /** 路由到的 Agent（agent-manager） */
+  agent_id: string | null;
+  model: string;
+  /** 系统提示词 SHA-256（前 16 位） */
+  system_prompt_hash: string | null;
+  /** 发送给模型的消息列表（JSON） */
+  messages: string | null;
+  status: 'running' | 'success' | 'error';
+  result: string | null;
+  error: string | null;
+  input_tokens: number | null;
+  output_tokens: number | null;
+  started_at: string;
+  finished_at: string | null;
+  duration_ms: number | null;
+  is_scheduled_task: number;
+}
+
+export interface AgentRunEvent {
+  run_id: string;
+  seq: number;
+  /** 事件类型：text / thinking / tool_use / done（StreamEvent）、tool_call（工具输入输出） */
+  type: string;
+  /** 相对运行开始的毫秒数 */
+  elapsed_ms: number;
+  /** 事件数据（JSON） */
+  data: string | null;
+}
+
+export interface TokenUsageRecord {
+  chat_jid: string;
+  group_folder: string;
+  user_id: string | null;
+  provider: string | null;
+  model: string;
+  input_tokens: number;
+  output_tokens: number;
+  /** 按价格表估算的费用 */
+  cost: number;
+  created_at: string;
+}
+
+export interface TokenUsageSummary {
+  model: string;
+  requests: number;
+  input_tokens: number;
+  output_tokens: number;
+  cost: number;
+}
+
+export interface TokenUsageBucket {
+  /** 分组键（日期 YYYY-MM-DD、群组文件夹等） */
+  key: string;
+  requests: number;
+  input_tokens: number;
+  output_tokens: number;
+  cost: number;
+}
+
+export interface SessionUsageRow {
+  chat_jid: string;
+  message_count: number;
+  input_tokens: number;
+  output_tokens: number;
+  model: string;
+  started_at: string;
+  last_activity_at: string;
+  compact_suggested: number;
+}
@@ -0,0 +1,65 @@
+/**
+ * 日期范围参数解析（/search、conversation_search 等的 since / until）
+ *
+ * 不带时区的日期和时间按 TIMEZONE 解释，而不是服务器本地时间。
+ */
+
+import { TIMEZONE } from '../config.js';
+
+const DATE_ONLY_REGEX = /^(\d{4})-(\d{2})-(\d{2})$/;
+const LOCAL_DATETIME_REGEX = /^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})(?::(\d{2}))?$/;
+
+/**
+ * 某一时刻在指定时区相对 UTC 的偏移（毫秒）
+ */
+function zoneOffsetMs(ms: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric', month: 'numeric', day: 'numeric',
+    hour: 'numeric', minute: 'numeric', second: 'numeric',
+  }).formatToParts(new Date(ms));
+  const get = (type: string) => parseInt(parts.find(p => p.type === type)?.value ?? '0', 10);
+  return Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second')) - Math.floor(ms / 1000) * 1000;
+}
+
+/**
+ * 把指定时区的当地时间转换为 UTC 时间戳（处理夏令时切换）
+ */
+function zonedTimeToMs(year: number, month: number, day: number, hour: number, minute: number, second: number, timeZone: string): number {
+  const guess = Date.UTC(year, month - 1, day, hour, minute, second);
+  const offset = zoneOffsetMs(guess, timeZone);
+  const result = guess - offset;
+  const corrected = zoneOffsetMs(result, timeZone);
+  return corrected === offset ? result : guess - corrected;
+}
+
+/**
+ * 解析日期范围参数，返回 ISO 时间
+ * - YYYY-MM-DD：TIMEZONE 当天零点；endOfDay 为 true 时取次日零点（用作不含的截止时间）
+ * - YYYY-MM-DD HH:mm[:ss]：TIMEZONE 当地时间
+ * - 其他带时区的 ISO 时间按原样解析
+ *
+ * @returns 无法识别时返回 null
+ */
+export function parseDateBound(value: string, endOfDay = false, timeZone: string = TIMEZONE): string | null {
+  const text = value.trim();
+
+  const dateOnly = text.match(DATE_ONLY_REGEX);
+  if (dateOnly) {
+    const [year, month, day] = dateOnly.slice(1).map(Number);
+    const check = new Date(Date.UTC(year, month - 1, day));
+    if (check.getUTCMonth() !== month - 1 || check.getUTCDate() !== day) return null;
+    return new Date(zonedTimeToMs(year, month, day + (endOfDay ? 1 : 0), 0, 0, 0, timeZone)).toISOString();
+  }
+
+  const local = text.match(LOCAL_DATETIME_REGEX);
+  if (local) {
+    const [year, month, day, hour, minute, second] = local.slice(1).map(n => Number(n ?? 0));
+    if (hour > 23 || minute > 59 || second > 59) return null;
+    return new Date(zonedTimeToMs(year, month, day, hour, minute, second, timeZone)).toISOString();
+  }
+
+  const date = new Date(text);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
@@ -0,0 +1,87 @@
+/**
+ * SQLite FTS5 中文检索辅助
+ *
+ * FTS5 自带的 unicode61 分词会把连续的中日韩文字当成一个词，
+ * 因此写入索引前把 CJK 字符逐字切开，查询时再按相邻二元组组成短语匹配。
+ * 长期记忆（memory-store）和会话消息（messages_fts）共用这套规则。
+ */
+
+const CJK_CHAR_GLOBAL_REGEX = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/gu;
+const CJK_RUN_OR_WORD_REGEX = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]+|[\p{L}\p{N}]+/gu;
+const CJK_START_REGEX = /^[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+
+/**
+ * 写入索引前的文本切分：CJK 字符逐字用空格隔开
+ */
+export function segmentForFts(text: string): string {
+  return text.replace(CJK_CHAR_GLOBAL_REGEX, ch => ` ${ch} `);
+}
+
+/**
+ * 查询中的检索词：CJK 片段拆成相邻二元组（单字保留），其他单词转小写
+ */
+function queryTerms(query: string): Array<{ text: string; cjk: boolean }> {
+  const terms = new Map<string, boolean>();
+  for (const match of query.matchAll(CJK_RUN_OR_WORD_REGEX)) {
+    const token = match[0];
+    if (CJK_START_REGEX.test(token)) {
+      const chars = Array.from(token);
+      if (chars.length === 1) {
+        terms.set(chars[0], true);
+        continue;
+      }
+      for (let i = 0; i < chars.length - 1; i++) {
+        terms.set(chars[i] + chars[i + 1], true);
+      }
+    } else {
+      terms.set(token.toLowerCase(), false);
+    }
+  }
+  return Array.from(terms, ([text, cjk]) => ({ text, cjk }));
+}
+
+/**
+ * 文本的检索词列表（CJK 相邻二元组 + 小写单词，已去重），也用于记忆相似度计算
+ */
+export function ftsTerms(text: string): string[] {
+  return queryTerms(text).map(term => term.text);
+}
+
+/**
+ * 将自然语言查询转换为 FTS5 查询
+ * - CJK 片段 → 相邻二元组短语（"用 户" OR "户 叫"），单字直接匹配
+ * - 其他单词 → 前缀匹配
+ * 各项之间默认为 OR，由 bm25 排序；matchAll 为 true 时要求全部命中
+ *
+ * @returns 没有可检索的词时返回 null
+ */
+export function buildFtsQuery(query: string, options: { matchAll?: boolean } = {}): string | null {
+  const terms = queryTerms(query).map(term => term.cjk
+    ? `"${Array.from(term.text).join(' ')}"`
+    : `"${term.text.replace(/"/g, '""')}"*`);
+  return terms.length > 0 ? terms.join(options.matchAll ? ' AND ' : ' OR ') : null;
+}
+
+/**
+ * 截取命中位置附近的文本作为摘要（没有命中时取开头）
+ *
+ * @param radius - 命中位置前后保留的字符数
+ */
+export function buildSnippet(text: string, query: string, radius = 40): string {
+  const lower = text.toLowerCase();
+  let hit = -1;
+  for (const term of queryTerms(query)) {
+    const index = lower.indexOf(term.text);
+    if (index !== -1 && (hit === -1 || index < hit)) {
+      hit = index;
+    }
+  }
+
+  const flat = (s: string) => s.replace(/\s+/g, ' ').trim();
+  if (hit === -1) {
+    return text.length > radius * 2 ? `${flat(text.slice(0, radius * 2))}...` : flat(text);
+  }
+  const start = Math.max(0, hit - radius);
+  const end = Math.min(text.length, hit + radius);
+  return `${start > 0 ? '...' : ''}${flat(text.slice(start, end))}${end < text.length ? '...' : ''}`;
+}
@@ -0,0 +1,575 @@
+/**
+ * 工作流（多步骤任务）
+ *
+ * 工作流由若干步骤组成，步骤之间通过 onSuccess / onFailure 边连成有向无环图：
+ * 1. 没有上游的步骤最先执行，同一批就绪的步骤并行执行
+ * 2. 步骤结束后沿成功或失败边触发下游；trigger 为 all 时要求所有上游都触发，any 时任一触发即可
+ * 3. 未被触发的步骤标记为 skipped，其下游同样不会被触发
+ * 4. 下游提示词可以引用上游结果：{{steps.<id>.result}}、{{steps.<id>.error}}、{{steps.<id>.status}}
+ *
+ * 定时执行通过 kind = 'workflow' 的定时任务触发（见 task-scheduler.ts），
+ * 有步骤失败且没有 onFailure 边处理时，本次运行记为失败。
+ */
+
+import { CronExpressionParser } from 'cron-parser';
+import {
+  createTask,
+  createWorkflowRun,
+  deleteTask,
+  finishWorkflowRun,
+  getWorkflow,
+  getWorkflowSteps,
+  getWorkflowTask,
+  saveWorkflow,
+  saveWorkflowStepRun,
+  updateTask,
+} from './db.js';
+import { DEFAULT_TASK_TIMEOUT_MS, MAIN_GROUP_FOLDER, TIMEZONE } from './config.js';
+import type { Workflow, WorkflowRun, WorkflowStep, WorkflowStepRun } from './types.js';
+import { createLogger } from './logger.js';
+
+const logger = createLogger('Workflow');
+
+// ==================== 配置常量 ====================
+
+/** 单个工作流的最大步骤数 */
+const MAX_STEPS = 50;
+/** 步骤 / 工作流 ID 格式 */
+const ID_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+/** 提示词模板变量，如 {{steps.fetch.result}}、{{workflow.name}} */
+const TEMPLATE_PATTERN = /\{\{\s*(steps\.([a-zA-Z0-9_-]+)\.(result|error|status)|workflow\.(name|id))\s*\}\}/g;
+
+// ==================== 类型定义 ====================
+
+export interface WorkflowStepDefinition {
+  id: string;
+  /** 提示词模板 */
+  prompt: string;
+  /** 成功后触发的步骤 */
+  onSuccess?: string[];
+  /** 失败后触发的步骤 */
+  onFailure?: string[];
+  /** 上游触发规则（默认 all） */
+  trigger?: 'all' | 'any';
+  contextMode?: 'group' | 'isolated';
+  timeoutMs?: number;
+}
+
+export interface WorkflowSchedule {
+  type: 'cron' | 'interval' | 'once';
+  value: string;
+}
+
+export interface WorkflowDefinition {
+  /** 工作流 ID（默认由名称生成） */
+  id?: string;
+  name: string;
+  description?: string;
+  /** 执行的群组文件夹（默认 main） */
+  group?: string;
+  /** 定时触发（不提供则只能手动运行） */
+  schedule?: WorkflowSchedule | null;
+  steps: WorkflowStepDefinition[];
+}
+
+export interface WorkflowStepOutcome {
+  id: string;
+  status: WorkflowStepRun['status'];
+  result: string | null;
+  error: string | null;
+}
+
+export interface WorkflowRunSummary {
+  runId: string;
+  workflowId: string;
+  name: string;
+  status: WorkflowRun['status'];
+  error: string | null;
+  steps: WorkflowStepOutcome[];
+  durationMs: number;
+}
+
+/**
+ * 执行单个步骤，返回 AI 的回复
+ */
+export type WorkflowStepRunner = (step: WorkflowStep, prompt: string, workflow: Workflow) => Promise<string>;
+
+interface Edge {
+  from: string;
+  on: 'success' | 'failure';
+}
+
+// 正在运行的工作流（防止同一工作流并发运行）
+// 使用全局变量存储，确保 jiti 动态加载的插件（如 Web UI）看到同一份状态
+declare global {
+  // eslint-disable-next-line no-var
+  var __flashclaw_running_workflows: Set<string> | undefined;
+}
+
+function getRunningWorkflows(): Set<string> {
+  if (!global.__flashclaw_running_workflows) {
+    global.__flashclaw_running_workflows = new Set();
+  }
+  return global.__flashclaw_running_workflows;
+}
+
+// ==================== 定义校验 ====================
+
+function toList(value: unknown): string[] {
+  if (value === undefined || value === null) return [];
+  if (typeof value === 'string') return [value];
+  return Array.isArray(value) ? value.map(String) : [];
+}
+
+/**
+ * 由名称生成工作流 ID
+ */
+function slugify(name: string): string {
+  const slug = name.trim().toLowerCase().replace(/[^a-z0-9_-]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40);
+  return slug || `workflow-${Date.now().toString(36)}`;
+}
+
+/**
+ * 计算定时触发的首次执行时间（无效时抛出错误）
+ */
+export function computeFirstRun(schedule: WorkflowSchedule, now = new Date()): string {
+  switch (schedule.type) {
+    case 'cron': {
+      const next = CronExpressionParser.parse(schedule.value, { tz: TIMEZONE, currentDate: now }).next().toISOString();
+      if (!next) throw new Error('cron 表达式没有下一次执行时间');
+      return next;
+    }
+    case 'interval': {
+      const ms = parseInt(schedule.value, 10);
+      if (isNaN(ms) || ms < 1000) {
+        throw new Error('间隔时间必须是大于 1000 的毫秒数');
+      }
+      return new Date(now.getTime() + ms).toISOString();
+    }
+    case 'once': {
+      const time = new Date(schedule.value);
+      if (isNaN(time.getTime())) throw new Error('无效的时间格式');
+      if (time <= now) throw new Error('执行时间必须是将来的时间');
+      return time.toISOString();
+    }
+    default:
+      throw new Error(`不支持的调度类型: ${String((schedule as WorkflowSchedule).type)}`);
+  }
+}
+
+/**
+ * 每个步骤的上游边（同一上游的成功 / 失败边合并为一个上游）
+ */
+function buildIncoming(steps: Array<{ id: string; onSuccess: string[]; onFailure: string[] }>): Map<string, Edge[]> {
+  const incoming = new Map<string, Edge[]>(steps.map(s => [s.id, []]));
+  for (const step of steps) {
+    for (const target of step.onSuccess) incoming.get(target)?.push({ from: step.id, on: 'success' });
+    for (const target of step.onFailure) incoming.get(target)?.push({ from: step.id, on: 'failure' });
+  }
+  return incoming;
+}
+
+/**
+ * 按最长路径分层（第 0 层为没有上游的步骤），存在环时返回 null
+ * Kahn 算法：步骤的所有上游都出队后才确定层号，出队数少于步骤数说明有环
+ */
+export function layerWorkflowSteps(steps: Array<{ id: string; onSuccess: string[]; onFailure: string[] }>): string[][] | null {
+  const incoming = buildIncoming(steps);
+  const depth = new Map<string, number>();
+  const pending = new Map(steps.map(s => [s.id, new Set(incoming.get(s.id)!.map(e => e.from))]));
+  const outgoing = new Map(steps.map(s => [s.id, [...new Set([...s.onSuccess, ...s.onFailure])]]));
+
+  const queue = steps.filter(s => pending.get(s.id)!.size === 0).map(s => s.id);
+  for (const id of queue) depth.set(id, 0);
+
+  let dequeued = 0;
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    dequeued++;
+    for (const target of outgoing.get(id) ?? []) {
+      const deps = pending.get(target);
+      if (!deps?.delete(id) || deps.size > 0) continue;
+      // 所有上游均已出队，层号 = 最深上游 + 1
+      depth.set(target, Math.max(...incoming.get(target)!.map(e => depth.get(e.from)!)) + 1);
+      queue.push(target);
+    }
+  }
+
+  if (dequeued < steps.length) return null;
+
+  const layers: string[][] = [];
+  for (const step of steps) {
+    const d = depth.get(step.id)!;
+    (layers[d] ??= []).push(step.id);
+  }
+  return layers;
+}
+
+/**
+ * 上游可达集合（用于检查模板只引用上游步骤）
+ */
+function ancestorsOf(id: string, incoming: Map<string, Edge[]>): Set<string> {
+  const result = new Set<string>();
+  const stack = [...(incoming.get(id) ?? []).map(e => e.from)];
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    if (result.has(current)) continue;
+    result.add(current);
+    stack.push(...(incoming.get(current) ?? []).map(e => e.from));
+  }
+  return result;
+}
+
+/**
+ * 解析并校验工作流定义（JSON 对象）
+ */
+export function parseWorkflowDefinition(raw: unknown): { definition?: WorkflowDefinition; errors: string[] } {
+  const errors: string[] = [];
+  if (!raw || typeof raw !== 'object') {
+    return { errors: ['工作流定义必须是 JSON 对象'] };
+  }
+  const input = raw as Record<string, unknown>;
+
+  const name = typeof input.name === 'string' ? input.name.trim() : '';
+  if (!name) errors.push('缺少 name');
+
+  const id = typeof input.id === 'string' && input.id ? input.id : slugify(name);
+  if (!ID_PATTERN.test(id)) errors.push(`无效的工作流 ID: ${id}（只能包含字母、数字、- 和 _）`);
+
+  const group = typeof input.group === 'string' && input.group ? input.group : MAIN_GROUP_FOLDER;
+  if (!ID_PATTERN.test(group)) errors.push(`无效的群组文件夹: ${group}`);
+
+  let schedule: WorkflowSchedule | null = null;
+  if (input.schedule !== undefined && input.schedule !== null) {
+    const s = input.schedule as Record<string, unknown>;
+    if (!['cron', 'interval', 'once'].includes(String(s.type)) || typeof s.value !== 'string') {
+      errors.push('schedule 格式应为 { "type": "cron" | "interval" | "once", "value": "..." }');
+    } else {
+      schedule = { type: s.type as WorkflowSchedule['type'], value: s.value };
+      try {
+        computeFirstRun(schedule);
+      } catch (err) {
+        errors.push(`无效的 schedule: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+  }
+
+  const rawSteps = Array.isArray(input.steps) ? input.steps : [];
+  if (rawSteps.length === 0) errors.push('至少需要一个步骤');
+  if (rawSteps.length > MAX_STEPS) errors.push(`步骤数不能超过 ${MAX_STEPS}`);
+
+  const steps: WorkflowStepDefinition[] = [];
+  const seen = new Set<string>();
+  rawSteps.forEach((item, index) => {
+    const step = (item ?? {}) as Record<string, unknown>;
+    const stepId = typeof step.id === 'string' ? step.id : '';
+    const label = stepId || `#${index + 1}`;
+    if (!ID_PATTERN.test(stepId)) errors.push(`步骤 ${label}: 无效的步骤 ID`);
+    else if (seen.has(stepId)) errors.push(`步骤 ${label}: ID 重复`);
+    seen.add(stepId);
+    if (typeof step.prompt !== 'string' || !step.prompt.trim()) errors.push(`步骤 ${label}: 缺少 prompt`);
+    if (step.trigger !== undefined && step.trigger !== 'all' && step.trigger !== 'any') {
+      errors.push(`步骤 ${label}: trigger 只能是 all 或 any`);
+    }
+    if (step.contextMode !== undefined && step.contextMode !== 'group' && step.contextMode !== 'isolated') {
+      errors.push(`步骤 ${label}: contextMode 只能是 group 或 isolated`);
+    }
+    if (step.timeoutMs !== undefined && (typeof step.timeoutMs !== 'number' || step.timeoutMs < 1000 || step.timeoutMs > 3600000)) {
+      errors.push(`步骤 ${label}: timeoutMs 应在 1000 到 3600000 之间`);
+    }
+    steps.push({
+      id: stepId,
+      prompt: typeof step.prompt === 'string' ? step.prompt : '',
+      onSuccess: toList(step.onSuccess),
+      onFailure: toList(step.onFailure),
+      trigger: step.trigger === 'any' ? 'any' : 'all',
+      contextMode: step.contextMode === 'group' ? 'group' : 'isolated',
+      timeoutMs: typeof step.timeoutMs === 'number' ? step.timeoutMs : DEFAULT_TASK_TIMEOUT_MS,
+    });
+  });
+
+  for (const step of steps) {
+    for (const target of [...step.onSuccess!, ...step.onFailure!]) {
+      if (target === step.id) errors.push(`步骤 ${step.id}: 不能指向自身`);
+      else if (!seen.has(target)) errors.push(`步骤 ${step.id}: 下游步骤 ${target} 不存在`);
+    }
+  }
+
+  if (errors.length === 0) {
+    const graph = steps.map(s => ({ id: s.id, onSuccess: s.onSuccess!, onFailure: s.onFailure! }));
+    if (!layerWorkflowSteps(graph)) {
+      errors.push('步骤之间存在循环依赖');
+    } else {
+      const incoming = buildIncoming(graph);
+      for (const step of steps) {
+        const ancestors = ancestorsOf(step.id, incoming);
+        for (const match of step.prompt.matchAll(TEMPLATE_PATTERN)) {
+          const ref = match[2];
+          if (ref && !ancestors.has(ref)) {
+            errors.push(`步骤 ${step.id}: 模板引用的 ${ref} 不是它的上游步骤`);
+          }
+        }
+      }
+    }
+  }
+
+  if (errors.length > 0) return { errors };
+  return {
+    definition: {
+      id,
+      name,
+      description: typeof input.description === 'string' ? input.description : undefined,
+      group,
+      schedule,
+      steps,
+    },
+    errors,
+  };
+}
+
+// ==================== 存储 ====================
+
+export function parseEdges(json: string): string[] {
+  try {
+    const value = JSON.parse(json);
+    return Array.isArray(value) ? value.map(String) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * 步骤行 → 图节点
+ */
+export function toGraph(steps: WorkflowStep[]): Array<{ id: string; onSuccess: string[]; onFailure: string[] }> {
+  return steps.map(s => ({ id: s.id, onSuccess: parseEdges(s.on_success), onFailure: parseEdges(s.on_failure) }));
+}
+
+/**
+ * 保存工作流定义并同步触发任务（定义需先经过 parseWorkflowDefinition 校验）
+ */
+export function saveWorkflowDefinition(definition: WorkflowDefinition): Workflow {
+  const id = definition.id || slugify(definition.name);
+  const now = new Date().toISOString();
+  const workflow: Workflow = {
+    id,
+    name: definition.name,
+    description: definition.description ?? null,
+    group_folder: definition.group || MAIN_GROUP_FOLDER,
+    created_at: getWorkflow(id)?.created_at ?? now,
+    updated_at: now,
+  };
+  const steps: WorkflowStep[] = definition.steps.map((step, position) => ({
+    workflow_id: id,
+    id: step.id,
+    prompt: step.prompt,
+    on_success: JSON.stringify(step.onSuccess ?? []),
+    on_failure: JSON.stringify(step.onFailure ?? []),
+    trigger_rule: step.trigger ?? 'all',
+    context_mode: step.contextMode ?? 'isolated',
+    timeout_ms: step.timeoutMs ?? DEFAULT_TASK_TIMEOUT_MS,
+    position,
+  }));
+
+  saveWorkflow(workflow, steps);
+  ensureWorkflowTask(workflow, steps, definition.schedule ?? null);
+  logger.info({ workflowId: id, steps: steps.length }, '⚡ 工作流已保存');
+  return workflow;
+}
+
+/**
+ * 创建、更新或删除工作流的定时触发任务
+ */
+export function ensureWorkflowTask(workflow: Workflow, steps: WorkflowStep[], schedule: WorkflowSchedule | null): void {
+  const existing = getWorkflowTask(workflow.id);
+  if (!schedule) {
+    if (existing) deleteTask(existing.id);
+    return;
+  }
+
+  const nextRun = computeFirstRun(schedule);
+  // 整个工作流的超时：所有步骤超时之和（步骤逐个执行时的上限）
+  const timeoutMs = steps.reduce((sum, step) => sum + step.timeout_ms, 0);
+  const prompt = `运行工作流: ${workflow.name}`;
+
+  if (!existing) {
+    createTask({
+      id: `workflow-${workflow.id}`,
+      group_folder: workflow.group_folder,
+      chat_jid: '',
+      prompt,
+      schedule_type: schedule.type,
+      schedule_value: schedule.value,
+      context_mode: 'isolated',
+      next_run: nextRun,
+      status: 'active',
+      created_at: new Date().toISOString(),
+      retry_count: 0,
+      max_retries: 1,
+      timeout_ms: timeoutMs,
+      kind: 'workflow',
+      workflow_id: workflow.id,
+    });
+    return;
+  }
+
+  updateTask(existing.id, {
+    prompt,
+    group_folder: workflow.group_folder,
+    schedule_type: schedule.type,
+    schedule_value: schedule.value,
+    next_run: nextRun,
+    timeout_ms: timeoutMs,
+    ...(existing.status === 'completed' || existing.status === 'failed' ? { status: 'active' as const } : {}),
+  });
+}
+
+// ==================== 执行 ====================
+
+/**
+ * 渲染步骤提示词中的模板变量（未执行或被跳过的步骤渲染为空字符串）
+ */
+export function renderStepPrompt(template: string, workflow: Pick<Workflow, 'id' | 'name'>, outcomes: Map<string, WorkflowStepOutcome>): string {
+  return template.replace(TEMPLATE_PATTERN, (_match, _expr, stepId?: string, field?: 'result' | 'error' | 'status', workflowField?: 'name' | 'id') => {
+    if (workflowField) return workflow[workflowField];
+    const outcome = outcomes.get(stepId!);
+    if (!outcome) return '';
+    return outcome[field!] ?? '';
+  });
+}
+
+/**
+ * 判断步骤是否应当执行（所有上游都已结束时调用）
+ */
+function shouldRun(step: WorkflowStep, edges: Edge[], outcomes: Map<string, WorkflowStepOutcome>): boolean {
+  if (edges.length === 0) return true;
+
+  const firedByParent = new Map<string, boolean>();
+  for (const edge of edges) {
+    const status = outcomes.get(edge.from)?.status;
+    const fired = (edge.on === 'success' && status === 'success') || (edge.on === 'failure' && status === 'error');
+    firedByParent.set(edge.from, (firedByParent.get(edge.from) ?? false) || fired);
+  }
+
+  const fired = [...firedByParent.values()];
+  return step.trigger_rule === 'any' ? fired.some(Boolean) : fired.every(Boolean);
+}
+
+/**
+ * 运行工作流
+ * @param runStep - 步骤执行器（调度器中为运行 Agent）
+ */
+export async function executeWorkflow(
+  workflowId: string,
+  runStep: WorkflowStepRunner,
+  options: { trigger?: string } = {}
+): Promise<WorkflowRunSummary> {
+  const workflow = getWorkflow(workflowId);
+  if (!workflow) {
+    throw new Error(`工作流不存在: ${workflowId}`);
+  }
+  if (getRunningWorkflows().has(workflowId)) {
+    throw new Error(`工作流 ${workflowId} 正在运行中`);
+  }
+
+  const steps = getWorkflowSteps(workflowId);
+  const graph = toGraph(steps);
+  const incoming = buildIncoming(graph);
+  const runId = `wfrun-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  const startTime = Date.now();
+  const outcomes = new Map<string, WorkflowStepOutcome>();
+
+  getRunningWorkflows().add(workflowId);
+  createWorkflowRun({ id: runId, workflow_id: workflowId, trigger: options.trigger ?? 'manual', started_at: new Date(startTime).toISOString() });
+  logger.info({ workflowId, runId }, '⚡ 开始运行工作流');
+
+  try {
+    while (outcomes.size < steps.length) {
+      const ready = steps.filter(step =>
+        !outcomes.has(step.id) && incoming.get(step.id)!.every(edge => outcomes.has(edge.from))
+      );
+      if (ready.length === 0) break;
+
+      const runnable: WorkflowStep[] = [];
+      for (const step of ready) {
+        if (shouldRun(step, incoming.get(step.id)!, outcomes)) {
+          runnable.push(step);
+          continue;
+        }
+        outcomes.set(step.id, { id: step.id, status: 'skipped', result: null, error: null });
+        saveWorkflowStepRun({
+          run_id: runId, step_id: step.id, status: 'skipped', prompt: null, result: null, error: null,
+          started_at: null, finished_at: null, duration_ms: null,
+        });
+      }
+
+      await Promise.all(runnable.map(async (step) => {
+        const prompt = renderStepPrompt(step.prompt, workflow, outcomes);
+        const stepStart = Date.now();
+        const startedAt = new Date(stepStart).toISOString();
+        saveWorkflowStepRun({
+          run_id: runId, step_id: step.id, status: 'running', prompt, result: null, error: null,
+          started_at: startedAt, finished_at: null, duration_ms: null,
+        });
+
+        let outcome: WorkflowStepOutcome;
+        try {
+          const result = await runStep(step, prompt, workflow);
+          outcome = { id: step.id, status: 'success', result, error: null };
+        } catch (err) {
+          outcome = { id: step.id, status: 'error', result: null, error: err instanceof Error ? err.message : String(err) };
+          logger.warn({ workflowId, runId, stepId: step.id, error: outcome.error }, '工作流步骤失败');
+        }
+
+        outcomes.set(step.id, outcome);
+        saveWorkflowStepRun({
+          run_id: runId, step_id: step.id, status: outcome.status, prompt, result: outcome.result, error: outcome.error,
+          started_at: startedAt, finished_at: new Date().toISOString(), duration_ms: Date.now() - stepStart,
+        });
+      }));
+    }
+
+    // 有失败且没有 onFailure 边处理的步骤时，本次运行失败
+    const unhandled = graph.filter(node => outcomes.get(node.id)?.status === 'error' && node.onFailure.length === 0);
+    const status: WorkflowRun['status'] = unhandled.length > 0 ? 'error' : 'success';
+    const error = unhandled.length > 0
+      ? unhandled.map(node => `步骤 ${node.id} 失败: ${outcomes.get(node.id)!.error}`).join('; ')
+      : null;
+
+    finishWorkflowRun(runId, status, error);
+    logger.info({ workflowId, runId, status }, '⚡ 工作流运行结束');
+
+    return {
+      runId,
+      workflowId,
+      name: workflow.name,
+      status,
+      error,
+      steps: steps.map(step => outcomes.get(step.id) ?? { id: step.id, status: 'skipped', result: null, error: null }),
+      durationMs: Date.now() - startTime,
+    };
+  } catch (err) {
+    finishWorkflowRun(runId, 'error', err instanceof Error ? err.message : String(err));
+    throw err;
+  } finally {
+    getRunningWorkflows().delete(workflowId);
+  }
+}
+
+/**
+ * 工作流是否正在运行
+ */
+export function isWorkflowRunning(workflowId: string): boolean {
+  return getRunningWorkflows().has(workflowId);
+}
+
+/**
+ * 格式化运行结果（写入触发任务的 last_result）
+ */
+export function formatWorkflowRun(summary: WorkflowRunSummary): string {
+  const count = (status: WorkflowStepRun['status']) => summary.steps.filter(s => s.status === status).length;
+  const parts = [`${count('success')} 成功`];
+  if (count('error') > 0) parts.push(`${count('error')} 失败`);
+  if (count('skipped') > 0) parts.push(`${count('skipped')} 跳过`);
+  return `工作流 ${summary.name} ${summary.status === 'success' ? '完成' : '失败'}（${parts.join('，')}）`;
+}
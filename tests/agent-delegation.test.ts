@@ -0,0 +1,158 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import type { MultiAgentConfig } from '../src/types.js';
+
+vi.mock('../src/agent-runner.js', () => ({
+  runAgent: vi.fn(),
+  writeTasksSnapshot: vi.fn(),
+}));
+
+function makeAgent(id: string, overrides: Partial<MultiAgentConfig> = {}): MultiAgentConfig {
+  return { id, name: id.toUpperCase(), soul: `souls/${id}.md`, model: null, tools: ['*'], promptMode: 'full', ...overrides };
+}
+
+const AGENTS = [makeAgent('main', { default: true }), makeAgent('research', { promptMode: 'minimal' }), makeAgent('writer')];
+
+const BASE = { chatJid: 'chat-team', groupFolder: 'team', userId: 'u1', parentRunId: 'run-parent', parentAgentId: 'main' };
+
+describe('agent delegation', () => {
+  let tempDir = '';
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), 'flashclaw-delegation-'));
+    process.env.FLASHCLAW_HOME = tempDir;
+    const { initDatabase } = await import('../src/db.js');
+    initDatabase();
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (globalThis as any).__flashclaw_agent_registry = {
+      getAllAgents: () => AGENTS,
+      getAgentById: (id: string) => AGENTS.find(a => a.id === id),
+    };
+  });
+
+  afterEach(async () => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    delete (globalThis as any).__flashclaw_agent_registry;
+    global.__flashclaw_db?.close();
+    global.__flashclaw_db = undefined;
+    await fs.rm(tempDir, { recursive: true, force: true });
+    delete process.env.FLASHCLAW_HOME;
+    vi.clearAllMocks();
+  });
+
+  it('runs the target agent in its own session and records the result', async () => {
+    const { runAgent } = await import('../src/agent-runner.js');
+    const { spawnSubAgent } = await import('../src/agent-delegation.js');
+    const { getDelegation, getChildDelegations, sumDelegationTokens } = await import('../src/db.js');
+    vi.mocked(runAgent).mockResolvedValue({
+      status: 'success',
+      result: '调研完成',
+      metrics: { durationMs: 10, model: 'm', runId: 'run-child', usage: { inputTokens: 120, outputTokens: 30 } },
+    });
+    const onToken = vi.fn();
+
+    const handle = spawnSubAgent({ ...BASE, agentId: 'research', task: '  调研向量数据库  ', onToken });
+    expect(handle.depth).toBe(1);
+    expect(getDelegation(handle.id)).toMatchObject({ status: 'running', agent_id: 'research', parent_run_id: 'run-parent', root_run_id: 'run-parent', task: '调研向量数据库' });
+
+    const result = await handle.done;
+    expect(result).toMatchObject({ status: 'success', result: '调研完成', childRunId: 'run-child' });
+
+    const [group, input] = vi.mocked(runAgent).mock.calls[0];
+    expect(group.folder).toMatch(/^subagent-research-/);
+    expect(input).toMatchObject({
+      prompt: '调研向量数据库',
+      groupFolder: group.folder,
+      chatJid: 'chat-team',
+      userId: 'u1',
+      isMain: false,
+      platform: 'agent-internal',
+      agentId: 'research',
+      delegation: { id: handle.id, depth: 1, rootRunId: 'run-parent' },
+      onToken,
+    });
+
+    expect(getChildDelegations('run-parent')).toEqual([
+      expect.objectContaining({ id: handle.id, status: 'success', child_run_id: 'run-child', result: '调研完成', input_tokens: 120, output_tokens: 30 }),
+    ]);
+    expect(sumDelegationTokens('run-parent')).toBe(150);
+  });
+
+  it('enforces the target, depth and token limits', async () => {
+    const { runAgent } = await import('../src/agent-runner.js');
+    const { spawnSubAgent } = await import('../src/agent-delegation.js');
+    vi.mocked(runAgent).mockResolvedValue({
+      status: 'success',
+      result: 'ok',
+      metrics: { durationMs: 10, model: 'm', usage: { inputTokens: 900, outputTokens: 100 } },
+    });
+
+    expect(() => spawnSubAgent({ ...BASE, agentId: 'nobody', task: 'x' })).toThrow('可用的 Agent: main, research, writer');
+    expect(() => spawnSubAgent({ ...BASE, agentId: 'main', task: 'x' })).toThrow('不能把任务委派给自己');
+    expect(() => spawnSubAgent({ ...BASE, agentId: 'writer', task: '   ' })).toThrow('子任务内容不能为空');
+
+    // 默认最多 2 层：子 Agent 可以再委派一次，孙 Agent 不能继续
+    const nested = { ...BASE, parentRunId: 'run-child', parentAgentId: 'research' };
+    await spawnSubAgent({ ...nested, agentId: 'writer', task: '写摘要', parent: { id: 'dlg-1', depth: 1, rootRunId: 'run-parent' } }).done;
+    expect(() => spawnSubAgent({ ...nested, agentId: 'writer', task: '写摘要', parent: { id: 'dlg-2', depth: 2, rootRunId: 'run-parent' } }))
+      .toThrow('委派嵌套过深');
+
+    // token 额度按整棵委派树累计
+    expect(() => spawnSubAgent({ ...BASE, agentId: 'writer', task: '再写一篇', maxTokens: 1000 })).toThrow('token 额度已用完（1000 / 1000）');
+    expect(() => spawnSubAgent({ ...BASE, parentRunId: 'run-other', agentId: 'writer', task: '再写一篇', maxTokens: 1000 })).not.toThrow();
+  });
+
+  it('counts running sub-agents and stops a child that exceeds the token limit', async () => {
+    const { runAgent } = await import('../src/agent-runner.js');
+    const { spawnSubAgent } = await import('../src/agent-delegation.js');
+    const { getDelegation } = await import('../src/db.js');
+    let release!: () => void;
+    const gate = new Promise<void>(resolve => { release = resolve; });
+    // 模拟 runAgent：每轮模型调用后回报用量，回调抛错时以错误结束
+    vi.mocked(runAgent).mockImplementation(async (_group, input) => {
+      try {
+        input.onUsage?.({ inputTokens: 500, outputTokens: 100 });
+        await gate;
+        input.onUsage?.({ inputTokens: 400, outputTokens: 100 });
+        return { status: 'success', result: 'ok' };
+      } catch (err) {
+        return { status: 'error', result: null, error: (err as Error).message };
+      }
+    });
+
+    const first = spawnSubAgent({ ...BASE, agentId: 'research', task: '调研', maxTokens: 1000 });
+    expect(() => spawnSubAgent({ ...BASE, agentId: 'writer', task: '写作', maxTokens: 600 })).toThrow('token 额度已用完（600 / 600）');
+
+    release();
+    expect(await first.done).toMatchObject({
+      status: 'error',
+      error: '子 Agent 的 token 额度已用完（1100 / 1000）',
+      usage: { inputTokens: 900, outputTokens: 200 },
+    });
+    expect(getDelegation(first.id)).toMatchObject({ status: 'error', input_tokens: 900, output_tokens: 200 });
+    // 结束后不再重复计入运行中的用量
+    expect(() => spawnSubAgent({ ...BASE, agentId: 'writer', task: '写作', maxTokens: 1101 })).not.toThrow();
+  });
+
+  it('continues a previous sub-agent session and records failures', async () => {
+    const { runAgent } = await import('../src/agent-runner.js');
+    const { spawnSubAgent } = await import('../src/agent-delegation.js');
+    const { getDelegation } = await import('../src/db.js');
+    vi.mocked(runAgent)
+      .mockResolvedValueOnce({ status: 'success', result: '初稿' })
+      .mockRejectedValueOnce(new Error('provider down'));
+
+    const first = await spawnSubAgent({ ...BASE, agentId: 'writer', task: '写初稿' }).done;
+    const second = await spawnSubAgent({ ...BASE, agentId: 'writer', task: '改短一点', continueFrom: first.id }).done;
+
+    const calls = vi.mocked(runAgent).mock.calls;
+    expect(calls[1][0].folder).toBe(calls[0][0].folder);
+    expect(second).toMatchObject({ status: 'error', error: 'provider down', childRunId: null });
+    expect(getDelegation(second.id)).toMatchObject({ status: 'error', error: 'provider down' });
+
+    expect(() => spawnSubAgent({ ...BASE, agentId: 'research', task: '继续', continueFrom: first.id })).toThrow('不能由 "research" 继续');
+    expect(() => spawnSubAgent({ ...BASE, chatJid: 'chat-other', agentId: 'writer', task: '继续', continueFrom: first.id })).toThrow('委派记录不存在');
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { parseAgentsConfig, explainRoute, checkBinding } from '../src/agent-routing.js';
+
+const { agents, roles } = parseAgentsConfig({
+  roles: { admin: ['ou_boss'], ignored: 'ou_x' },
+  agents: [
+    { id: 'main', name: 'FlashClaw', default: true },
+    {
+      id: 'work',
+      name: '工作助手',
+      bindings: [
+        { channel: 'feishu', group: 'work-*' },
+        { roles: ['admin'], keywords: ['报表', 'KPI'], priority: 5 },
+        {},
+      ],
+    },
+    { id: 'ops', name: '运维', bindings: [{ pattern: '报错|error\\b', hours: '09:00-18:00' }, { pattern: '([' }] },
+    { id: 'life', name: '生活伙伴', bindings: [{ channel: 'telegram' }, { peer: 'tg_42' }] },
+  ],
+});
+
+const options = { roles, timeZone: 'Asia/Shanghai' };
+// 北京时间 11:00 / 22:00
+const WORK_TIME = new Date('2026-10-19T03:00:00.000Z');
+const NIGHT = new Date('2026-10-19T14:00:00.000Z');
+
+describe('agent routing', () => {
+  it('parses bindings and roles from agents.json', () => {
+    expect(roles).toEqual({ admin: ['ou_boss'] });
+    expect(agents.find(a => a.id === 'work')!.bindings).toEqual([
+      { channel: 'feishu', group: 'work-*' },
+      { roles: ['admin'], keywords: ['报表', 'KPI'], priority: 5 },
+    ]);
+    expect(parseAgentsConfig({ agents: [{ id: 'solo', name: 'Solo' }] }).agents[0].default).toBe(true);
+    expect(parseAgentsConfig(null).agents.map(a => a.id)).toEqual(['main']);
+  });
+
+  it('keeps the peer > group > channel order when priorities are equal', () => {
+    expect(explainRoute(agents, { channel: 'feishu', group: 'work-dev', peer: 'ou_1' }, options).agent.id).toBe('work');
+    expect(explainRoute(agents, { channel: 'telegram', group: 'family', peer: 'tg_1' }, options).agent.id).toBe('life');
+    const explained = explainRoute(agents, { channel: 'web-ui', group: 'main', peer: 'tg_42' }, options);
+    expect(explained).toMatchObject({ via: 'binding', agent: { id: 'life' }, matched: { agentId: 'life', index: 1 } });
+
+    const fallback = explainRoute(agents, { channel: 'web-ui', group: 'main', peer: 'u1', text: '你好' }, options);
+    expect(fallback).toMatchObject({ via: 'default', agent: { id: 'main' } });
+    expect(fallback.checks).toHaveLength(6);
+  });
+
+  it('matches sender roles, keywords, regex and time windows', () => {
+    // priority 5 的管理员关键词绑定优先于 telegram 渠道绑定
+    const admin = explainRoute(agents, { channel: 'telegram', peer: 'ou_boss', text: '给我本周 kpi 报告' }, options);
+    expect(admin.agent.id).toBe('work');
+    expect(admin.reason).toContain('priority=5');
+    expect(admin.matched!.details).toEqual(['roles=admin ✓', 'keywords=报表|KPI（KPI） ✓']);
+    expect(explainRoute(agents, { channel: 'telegram', peer: 'ou_1', text: '给我本周 kpi 报告' }, options).agent.id).toBe('life');
+
+    expect(explainRoute(agents, { channel: 'web-ui', text: '服务又报错了', now: WORK_TIME }, options).agent.id).toBe('ops');
+    expect(explainRoute(agents, { channel: 'web-ui', text: '服务又报错了', now: NIGHT }, options).agent.id).toBe('main');
+    expect(explainRoute(agents, { channel: 'web-ui', text: 'errors everywhere', now: WORK_TIME }, options).agent.id).toBe('main');
+
+    expect(checkBinding({ pattern: '([' }, { text: '([' }).details).toEqual(['pattern=/([/（正则无效） ✗']);
+    expect(checkBinding({ hours: '25:00-26:00' }, { now: WORK_TIME }).details).toEqual(['hours=25:00-26:00（格式无效） ✗']);
+  });
+
+  it('lets an explicit @agent mention override bindings', () => {
+    const mentioned = explainRoute(agents, { channel: 'feishu', group: 'work-dev', text: '@运维 看看这个报警' }, options);
+    expect(mentioned).toMatchObject({ via: 'mention', agent: { id: 'ops' }, reason: '消息中 @运维' });
+    expect(explainRoute(agents, { channel: 'feishu', group: 'family', text: '问一下 @LIFE，周末去哪' }, options).agent.id).toBe('life');
+    // @lifestyle 不是 @life；与机器人同名的 @FlashClaw 只是唤醒词
+    expect(explainRoute(agents, { channel: 'feishu', group: 'work-dev', text: '@lifestyle 博主' }, options).agent.id).toBe('work');
+    expect(explainRoute(agents, { channel: 'feishu', group: 'work-dev', text: '@FlashClaw 帮我看看' }, options).agent.id).toBe('work');
+  });
+});
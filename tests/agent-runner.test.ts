@@ -2,11 +2,15 @@ import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { promises as fs } from 'fs';
 import { join } from 'path';
 import { tmpdir } from 'os';
+import type { AIProviderPlugin, StreamEvent } from '../src/plugins/types.js';
 
 vi.mock('../src/plugins/manager.js', () => ({
   pluginManager: {
+    getProvider: vi.fn(),
+    getProviderByName: vi.fn(),
     getActiveTools: vi.fn(),
     getTool: vi.fn(),
+    getToolPolicy: vi.fn(),
   },
 }));
 
@@ -19,6 +23,7 @@ describe('agent-runner', () => {
   });
 
   afterEach(async () => {
+    global.__flashclaw_memory_manager = undefined;
     await fs.rm(tempDir, { recursive: true, force: true });
     delete process.env.FLASHCLAW_HOME;
     vi.clearAllMocks();
@@ -32,6 +37,15 @@ describe('agent-runner', () => {
     expect(getAllTools()).toEqual(tools);
   });
 
+  it('filterToolsByAllowlist keeps matching tools and send_message', async () => {
+    const { filterToolsByAllowlist } = await import('../src/agent-runner.js');
+    const tools = ['web_fetch', 'web_search', 'memory', 'send_message', 'schedule_task'].map(name => ({ name }));
+
+    expect(filterToolsByAllowlist(tools, ['web_*']).map(t => t.name)).toEqual(['web_fetch', 'web_search', 'send_message']);
+    expect(filterToolsByAllowlist(tools, ['memory']).map(t => t.name)).toEqual(['memory', 'send_message']);
+    expect(filterToolsByAllowlist(tools, ['*']).map(t => t.name)).toHaveLength(5);
+  });
+
   it('createToolExecutor uses single tool plugin', async () => {
     const { pluginManager } = await import('../src/plugins/manager.js');
     const { createToolExecutor } = await import('../src/agent-runner.js');
@@ -114,6 +128,95 @@ describe('agent-runner', () => {
     expect(result.content).toContain('Unknown tool');
   });
 
+  it('createToolExecutor blocks tools denied by policy', async () => {
+    const { pluginManager } = await import('../src/plugins/manager.js');
+    const { createToolExecutor } = await import('../src/agent-runner.js');
+
+    const plugin = {
+      execute: vi.fn().mockResolvedValue({ success: true, data: 'ok' }),
+    };
+    (pluginManager.getTool as ReturnType<typeof vi.fn>).mockReturnValue({
+      plugin,
+      isMultiTool: false,
+    });
+    (pluginManager.getToolPolicy as ReturnType<typeof vi.fn>).mockReturnValue('deny');
+
+    const executor = createToolExecutor(
+      { chatJid: 'chat-5', groupFolder: 'group-5', isMain: true, userId: 'user-5' },
+      {} as any
+    );
+
+    const result = await executor('tool_d', {});
+    expect(plugin.execute).not.toHaveBeenCalled();
+    expect(result.isError).toBe(true);
+    expect(result.content).toContain('denied by policy');
+  });
+
+  it('createToolExecutor waits for approval on ask policy', async () => {
+    const { pluginManager } = await import('../src/plugins/manager.js');
+    const { createToolExecutor } = await import('../src/agent-runner.js');
+    const { resolveToolApproval } = await import('../src/tool-approval.js');
+
+    const plugin = {
+      execute: vi.fn().mockResolvedValue({ success: true, data: 'done' }),
+    };
+    (pluginManager.getTool as ReturnType<typeof vi.fn>).mockReturnValue({
+      plugin,
+      isMultiTool: false,
+    });
+    (pluginManager.getToolPolicy as ReturnType<typeof vi.fn>).mockReturnValue('ask');
+
+    const notify = vi.fn(async (request: { id: string }) => {
+      setTimeout(() => resolveToolApproval(request.id, true, 'chat-6'), 0);
+    });
+
+    const executor = createToolExecutor(
+      { chatJid: 'chat-6', groupFolder: 'group-6', isMain: true, userId: 'user-6', onApprovalRequest: notify },
+      {} as any
+    );
+
+    const result = await executor('tool_e', { path: '/tmp' });
+    expect(notify).toHaveBeenCalledWith(
+      expect.objectContaining({ toolName: 'tool_e', chatJid: 'chat-6' }),
+      expect.objectContaining({ toolName: 'tool_e' })
+    );
+    expect(plugin.execute).toHaveBeenCalled();
+    expect(result).toEqual({ content: 'done' });
+  });
+
+  it('createToolExecutor skips tool when approval is denied', async () => {
+    const { pluginManager } = await import('../src/plugins/manager.js');
+    const { createToolExecutor } = await import('../src/agent-runner.js');
+    const { resolveToolApproval } = await import('../src/tool-approval.js');
+
+    const plugin = {
+      execute: vi.fn().mockResolvedValue({ success: true, data: 'done' }),
+    };
+    (pluginManager.getTool as ReturnType<typeof vi.fn>).mockReturnValue({
+      plugin,
+      isMultiTool: false,
+    });
+    (pluginManager.getToolPolicy as ReturnType<typeof vi.fn>).mockReturnValue('ask');
+
+    const executor = createToolExecutor(
+      {
+        chatJid: 'chat-7',
+        groupFolder: 'group-7',
+        isMain: true,
+        userId: 'user-7',
+        onApprovalRequest: async (request) => {
+          setTimeout(() => resolveToolApproval(request.id, false), 0);
+        },
+      },
+      {} as any
+    );
+
+    const result = await executor('tool_f', {});
+    expect(plugin.execute).not.toHaveBeenCalled();
+    expect(result.isError).toBe(true);
+    expect(result.content).toContain('denied');
+  });
+
   it('writeTasksSnapshot filters tasks for non-main groups', async () => {
     const { writeTasksSnapshot } = await import('../src/agent-runner.js');
     const { paths } = await import('../src/paths.js');
@@ -159,4 +262,112 @@ describe('agent-runner', () => {
     const parsed = JSON.parse(content) as { groups: Array<unknown> };
     expect(parsed.groups).toEqual([]);
   });
+
+  it('runAgent streams follow-up tool turns and sums their usage', async () => {
+    const { pluginManager } = await import('../src/plugins/manager.js');
+    const { MemoryManager } = await import('../src/core/memory.js');
+    const { runAgent } = await import('../src/agent-runner.js');
+    global.__flashclaw_memory_manager = new MemoryManager({ memoryDir: join(tempDir, 'memory') });
+
+    const provider: AIProviderPlugin = {
+      name: 'anthropic-provider',
+      version: '1.0.0',
+      description: 'test',
+      chat: vi.fn(),
+      chatStream: vi.fn(async function* (): AsyncGenerator<StreamEvent> {
+        yield { type: 'done', message: { stop_reason: 'tool_use', content: [], usage: { input_tokens: 100, output_tokens: 10 } } };
+      }),
+      // 后续轮次通过 onEvent 回报思考、文本和用量
+      handleToolUse: vi.fn(async (...args: Parameters<AIProviderPlugin['handleToolUse']>) => {
+        const onEvent = args[5];
+        onEvent?.({ type: 'thinking', text: '查一下' });
+        onEvent?.({ type: 'text', text: '结果' });
+        onEvent?.({ type: 'text', text: '是 42' });
+        onEvent?.({ type: 'done', message: { stop_reason: 'end_turn', usage: { input_tokens: 200, output_tokens: 20 } } });
+        return '结果是 42';
+      }),
+      getModel: () => 'claude-sonnet-4-20250514',
+      setModel: vi.fn(),
+    };
+    vi.mocked(pluginManager.getProvider).mockReturnValue(provider);
+    vi.mocked(pluginManager.getActiveTools).mockReturnValue([]);
+    const onToken = vi.fn();
+    const onThinking = vi.fn();
+    const onUsage = vi.fn();
+
+    const output = await runAgent(
+      { name: 'main', folder: 'main', trigger: '@bot', added_at: '2026-01-01T00:00:00.000Z' },
+      { prompt: 'hello', groupFolder: 'main', chatJid: 'chat-1', isMain: true, onToken, onThinking, onUsage }
+    );
+
+    expect(output).toMatchObject({ status: 'success', result: '结果是 42' });
+    expect(output.metrics?.usage).toEqual({ inputTokens: 300, outputTokens: 30 });
+    expect(onUsage.mock.calls).toEqual([[{ inputTokens: 100, outputTokens: 10 }], [{ inputTokens: 200, outputTokens: 20 }]]);
+    // 后续轮次已流式输出时，不再重复发送最终文本
+    expect(onToken.mock.calls).toEqual([['结果'], ['是 42']]);
+    expect(onThinking).toHaveBeenCalledWith('查一下');
+  });
+
+  it('runAgent stops when onUsage throws', async () => {
+    const { pluginManager } = await import('../src/plugins/manager.js');
+    const { MemoryManager } = await import('../src/core/memory.js');
+    const { runAgent } = await import('../src/agent-runner.js');
+    global.__flashclaw_memory_manager = new MemoryManager({ memoryDir: join(tempDir, 'memory') });
+
+    const provider: AIProviderPlugin = {
+      name: 'anthropic-provider',
+      version: '1.0.0',
+      description: 'test',
+      chat: vi.fn(),
+      chatStream: vi.fn(async function* (): AsyncGenerator<StreamEvent> {
+        yield { type: 'done', message: { stop_reason: 'tool_use', content: [], usage: { input_tokens: 100, output_tokens: 10 } } };
+      }),
+      handleToolUse: vi.fn(),
+      getModel: () => 'claude-sonnet-4-20250514',
+      setModel: vi.fn(),
+    };
+    vi.mocked(pluginManager.getProvider).mockReturnValue(provider);
+    vi.mocked(pluginManager.getActiveTools).mockReturnValue([]);
+
+    const output = await runAgent(
+      { name: 'main', folder: 'main', trigger: '@bot', added_at: '2026-01-01T00:00:00.000Z' },
+      { prompt: 'hello', groupFolder: 'main', chatJid: 'chat-1', isMain: true, onUsage: () => { throw new Error('额度已用完'); } }
+    );
+
+    expect(output).toMatchObject({ status: 'error', error: '额度已用完', metrics: { usage: { inputTokens: 100, outputTokens: 10 } } });
+    expect(provider.handleToolUse).not.toHaveBeenCalled();
+  });
+
+  it('runAgent only tells scheduled runs to use send_message when the reply is not delivered', async () => {
+    const { pluginManager } = await import('../src/plugins/manager.js');
+    const { MemoryManager } = await import('../src/core/memory.js');
+    const { runAgent } = await import('../src/agent-runner.js');
+    global.__flashclaw_memory_manager = new MemoryManager({ memoryDir: join(tempDir, 'memory') });
+
+    const chatStream = vi.fn(async function* (): AsyncGenerator<StreamEvent> {
+      yield { type: 'text', text: '价格降了' };
+      yield { type: 'done', message: { stop_reason: 'end_turn', content: [], usage: { input_tokens: 10, output_tokens: 5 } } };
+    });
+    const provider: AIProviderPlugin = {
+      name: 'anthropic-provider',
+      version: '1.0.0',
+      description: 'test',
+      chat: vi.fn(),
+      chatStream,
+      handleToolUse: vi.fn(),
+      getModel: () => 'claude-sonnet-4-20250514',
+      setModel: vi.fn(),
+    };
+    vi.mocked(pluginManager.getProvider).mockReturnValue(provider);
+    vi.mocked(pluginManager.getActiveTools).mockReturnValue([]);
+    const group = { name: 'main', folder: 'main', trigger: '@bot', added_at: '2026-01-01T00:00:00.000Z' };
+    const input = { prompt: '检查价格', groupFolder: 'main', chatJid: 'chat-1', isMain: true, isScheduledTask: true };
+
+    await runAgent(group, input);
+    await runAgent(group, { ...input, deliversReply: true });
+
+    const systems = chatStream.mock.calls.map(call => call[1]?.system ?? '');
+    expect(systems[0]).toContain('文字回复用户看不到');
+    expect(systems[1]).not.toContain('文字回复用户看不到');
+  });
 });
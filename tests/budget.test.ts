@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+describe('budget', () => {
+  let tempDir = '';
+
+  async function writeBudgets(config: unknown): Promise<void> {
+    await fs.mkdir(join(tempDir, 'config'), { recursive: true });
+    await fs.writeFile(join(tempDir, 'config', 'budgets.json'), JSON.stringify(config));
+  }
+
+  const usage = (overrides: Record<string, unknown> = {}) => ({
+    chatJid: 'chat-1',
+    groupFolder: 'team',
+    userId: 'user-1',
+    provider: 'anthropic-provider',
+    model: 'claude-sonnet-4-20250514',
+    inputTokens: 400,
+    outputTokens: 100,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), 'flashclaw-budget-'));
+    process.env.FLASHCLAW_HOME = tempDir;
+    const { initDatabase } = await import('../src/db.js');
+    initDatabase();
+  });
+
+  afterEach(async () => {
+    global.__flashclaw_db?.close();
+    global.__flashclaw_db = undefined;
+    await fs.rm(tempDir, { recursive: true, force: true });
+    delete process.env.FLASHCLAW_HOME;
+  });
+
+  it('estimates cost from the pricing table with overrides', async () => {
+    const { estimateCost, findModelPricing } = await import('../src/core/pricing.js');
+
+    expect(estimateCost('claude-sonnet-4-20250514', { inputTokens: 1_000_000, outputTokens: 1_000_000 })).toBe(18);
+    expect(findModelPricing('gpt-4o-mini')).toEqual({ input: 0.15, output: 0.6 });
+    expect(findModelPricing('qwen2.5:7b')).toBeNull();
+    expect(estimateCost('qwen2.5:7b', { inputTokens: 1000, outputTokens: 1000 })).toBe(0);
+    expect(findModelPricing('qwen2.5:7b', { 'qwen2.5:*': { input: 1, output: 2 } })).toEqual({ input: 1, output: 2 });
+  });
+
+  it('starts daily and monthly periods at midnight in the configured timezone', async () => {
+    const { getPeriodStart } = await import('../src/budget.js');
+
+    // 上海 4 月 1 日 00:00 = UTC 3 月 31 日 16:00
+    expect(getPeriodStart('daily', new Date('2026-03-31T15:59:59.999Z'), 'Asia/Shanghai')).toBe('2026-03-30T16:00:00.000Z');
+    expect(getPeriodStart('daily', new Date('2026-03-31T16:00:00.000Z'), 'Asia/Shanghai')).toBe('2026-03-31T16:00:00.000Z');
+    expect(getPeriodStart('monthly', new Date('2026-03-31T15:59:59.999Z'), 'Asia/Shanghai')).toBe('2026-02-28T16:00:00.000Z');
+    expect(getPeriodStart('monthly', new Date('2026-03-31T16:00:00.000Z'), 'Asia/Shanghai')).toBe('2026-03-31T16:00:00.000Z');
+    // 夏令时：纽约 3 月 8 日切换后 0 点为 UTC 04:00
+    expect(getPeriodStart('daily', new Date('2026-03-09T12:00:00.000Z'), 'America/New_York')).toBe('2026-03-09T04:00:00.000Z');
+  });
+
+  it('records usage without budgets and allows requests', async () => {
+    const { recordUsage, checkBudget, getUsageBreakdown } = await import('../src/budget.js');
+
+    expect(recordUsage(usage())).toEqual([]);
+    expect(checkBudget({ groupFolder: 'team', userId: 'user-1' })).toMatchObject({ allowed: true, statuses: [] });
+
+    const daily = getUsageBreakdown('daily', { groupFolder: 'team' });
+    expect(daily.totalTokens).toBe(500);
+    expect(daily.byModel).toEqual([
+      expect.objectContaining({ model: 'claude-sonnet-4-20250514', requests: 1, input_tokens: 400, output_tokens: 100 }),
+    ]);
+    expect(daily.totalCost).toBeCloseTo((400 * 3 + 100 * 15) / 1_000_000);
+  });
+
+  it('warns once at the threshold and refuses when exhausted', async () => {
+    const { recordUsage, checkBudget } = await import('../src/budget.js');
+    await writeBudgets({
+      groups: { '*': { daily: { tokens: 1000 } } },
+      users: { 'user-1': { monthly: { cost: 100 } } },
+    });
+
+    expect(recordUsage(usage())).toEqual([]);
+    const warnings = recordUsage(usage({ inputTokens: 300, outputTokens: 50 }));
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0]).toContain('群组 team 的每日 token 预算');
+    expect(warnings[0]).toContain('850 / 1,000 (85%)');
+    // 已经提示过，不再重复
+    expect(recordUsage(usage({ inputTokens: 10, outputTokens: 0 }))).toEqual([]);
+
+    expect(checkBudget({ groupFolder: 'team', userId: 'user-1' }).allowed).toBe(true);
+    recordUsage(usage({ inputTokens: 200, outputTokens: 0 }));
+
+    const result = checkBudget({ groupFolder: 'team', userId: 'user-1' });
+    expect(result.allowed).toBe(false);
+    expect(result.exceeded).toMatchObject({ scope: 'group', period: 'daily', metric: 'tokens' });
+    expect(result.message).toContain('请明天再试');
+
+    // 其他群组不受影响
+    expect(checkBudget({ groupFolder: 'other', userId: 'user-2' }).allowed).toBe(true);
+  });
+
+  it('shows usage and budgets via /usage', async () => {
+    const { recordUsage } = await import('../src/budget.js');
+    const { handleCommand } = await import('../src/commands.js');
+    await writeBudgets({ global: { monthly: { cost: 10 } } });
+    recordUsage(usage());
+    recordUsage(usage({ groupFolder: 'main', model: 'gpt-4o-mini', userId: 'user-2' }));
+
+    const context = { chatId: 'chat-1', userId: 'user-1', userName: 'u', platform: 'feishu', groupFolder: 'team' };
+    const group = handleCommand('/usage', context).response!;
+    expect(group).toContain('群组用量');
+    expect(group).toContain('claude-sonnet-4-20250514: 500 tokens (1 次)');
+    expect(group).not.toContain('gpt-4o-mini');
+    expect(group).toContain('全局每月费用预算');
+
+    expect(handleCommand('/usage all', context).response).toContain('仅可在主会话中查看');
+    const all = handleCommand('/usage all', { ...context, groupFolder: 'main' }).response!;
+    expect(all).toContain('gpt-4o-mini');
+    expect(all).toContain('合计: 1,000 tokens');
+
+    expect(handleCommand('/usage me', { ...context, userId: 'user-3' }).response).toContain('_暂无记录_');
+  });
+
+  it('aggregates usage history via core-api', async () => {
+    const { recordUsage } = await import('../src/budget.js');
+    const { getUsageReport, getSessionInfo } = await import('../src/core-api.js');
+    recordUsage(usage());
+    recordUsage(usage({ groupFolder: 'main', chatJid: 'chat-2', provider: 'openai-provider', model: 'gpt-4o-mini' }));
+
+    const report = getUsageReport('today');
+    expect(report.totals).toMatchObject({ requests: 2, inputTokens: 800, outputTokens: 200, totalTokens: 1000 });
+    expect(report.byGroup.map(b => b.key).sort()).toEqual(['main', 'team']);
+    expect(report.byProvider.map(b => b.key).sort()).toEqual(['anthropic-provider', 'openai-provider']);
+    expect(report.daily).toHaveLength(1);
+    expect(report.daily[0]).toMatchObject({ requests: 2, input_tokens: 800, output_tokens: 200 });
+
+    expect(getUsageReport('7d', { groupFolder: 'team' }).totals.requests).toBe(1);
+    expect(getSessionInfo('chat-2')?.lifetime).toMatchObject({ requests: 1, tokens: 500 });
+  });
+
+  it('returns in-memory session info before the database is initialized', async () => {
+    const { getSessionInfo } = await import('../src/core-api.js');
+    global.__flashclaw_db?.close();
+    global.__flashclaw_db = undefined;
+
+    const info = getSessionInfo('chat-1');
+    expect(info).toMatchObject({ messageCount: 0, tokenCount: 0 });
+    expect(info?.lifetime).toBeUndefined();
+  });
+});
@@ -1,4 +1,4 @@
-import { describe, it, expect, vi } from 'vitest';
+import { describe, it, expect, vi, afterEach } from 'vitest';
 import {
   isCommand,
   handleCommand,
@@ -8,6 +8,7 @@ import {
   SessionStats,
   TaskInfo,
 } from '../src/commands.js';
+import { requestToolApproval, getPendingApprovals, clearPendingApprovals } from '../src/tool-approval.js';
 
 describe('commands', () => {
   const createMockContext = (overrides: Partial<CommandContext> = {}): CommandContext => ({
@@ -225,6 +226,66 @@ describe('commands', () => {
       });
     });
 
+    describe('/approve and /deny', () => {
+      const requestApproval = (chatJid: string, groupFolder = 'main') => requestToolApproval(
+        { toolName: 'register_group', params: {}, chatJid, groupFolder, userId: 'test-user-456' },
+        { notify: vi.fn().mockResolvedValue(undefined) }
+      );
+
+      afterEach(() => {
+        clearPendingApprovals();
+      });
+
+      it('should approve the only pending request without id', async () => {
+        const pending = requestApproval('test-chat-123');
+
+        const result = handleCommand('/approve', createMockContext());
+
+        expect(result.isCommand).toBe(true);
+        expect(result.response).toContain('已允许');
+        await expect(pending).resolves.toBe('approved');
+      });
+
+      it('should deny request by id', async () => {
+        const pending = requestApproval('test-chat-123');
+        const [request] = getPendingApprovals('test-chat-123');
+
+        const result = handleCommand(`/拒绝 ${request.id}`, createMockContext());
+
+        expect(result.response).toContain('已拒绝');
+        await expect(pending).resolves.toBe('denied');
+      });
+
+      it('should not resolve requests from another chat', () => {
+        requestApproval('other-chat');
+        const [request] = getPendingApprovals('other-chat');
+
+        const result = handleCommand(`/approve ${request.id}`, createMockContext());
+
+        expect(result.response).toContain('未找到');
+        expect(getPendingApprovals('other-chat')).toHaveLength(1);
+      });
+
+      it('should only accept answers from the requesting user outside the main chat', async () => {
+        const pending = requestApproval('test-chat-123', 'team');
+        const [request] = getPendingApprovals('test-chat-123');
+
+        const result = handleCommand(`/approve ${request.id}`, createMockContext({ userId: 'someone-else' }));
+
+        expect(result.response).toContain('只有发起请求的用户');
+        expect(getPendingApprovals('test-chat-123')).toHaveLength(1);
+
+        expect(handleCommand(`/approve ${request.id}`, createMockContext()).response).toContain('已允许');
+        await expect(pending).resolves.toBe('approved');
+      });
+
+      it('should report when nothing is pending', () => {
+        const result = handleCommand('/deny', createMockContext());
+
+        expect(result.response).toContain('没有待确认');
+      });
+    });
+
     describe('unknown command', () => {
       it('should return error for unknown command', () => {
         const result = handleCommand('/unknown', createMockContext());
@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import type { ToolContext } from '../src/plugins/types.js';
+
+describe('conversation search', () => {
+  let tempDir = '';
+
+  async function seed(): Promise<void> {
+    const { storeChatMetadata, storeMessage } = await import('../src/db.js');
+    storeChatMetadata('chat-a', '2026-01-10T00:00:00.000Z', '项目群');
+    storeChatMetadata('chat-b', '2026-01-10T00:00:00.000Z', '闲聊群');
+    const base = { isFromMe: false, platform: 'feishu' };
+    storeMessage({ ...base, id: 'm1', chatId: 'chat-a', senderId: 'u1', senderName: '张三', content: '部署方案定为用 Docker 上线', timestamp: '2026-01-05T02:00:00.000Z' });
+    storeMessage({ ...base, id: 'm2', chatId: 'chat-a', senderId: 'u2', senderName: '李四', content: '数据库迁移下周再做', timestamp: '2026-01-08T02:00:00.000Z' });
+    storeMessage({ ...base, id: 'm3', chatId: 'chat-b', senderId: 'u3', senderName: '王五', content: '周末去吃火锅，顺便聊聊部署', timestamp: '2026-01-09T02:00:00.000Z', platform: 'telegram' });
+    storeMessage({ ...base, id: 'm4', chatId: 'chat-a', senderId: 'u1', senderName: '张三', content: '/search 部署', timestamp: '2026-01-09T03:00:00.000Z' });
+  }
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), 'flashclaw-search-'));
+    process.env.FLASHCLAW_HOME = tempDir;
+    const { initDatabase } = await import('../src/db.js');
+    initDatabase();
+    await seed();
+  });
+
+  afterEach(async () => {
+    global.__flashclaw_db?.close();
+    global.__flashclaw_db = undefined;
+    await fs.rm(tempDir, { recursive: true, force: true });
+    delete process.env.FLASHCLAW_HOME;
+  });
+
+  it('searches CJK text with chat, sender, date and platform filters', async () => {
+    const { searchMessages, storeMessage } = await import('../src/db.js');
+
+    const all = searchMessages('部署');
+    expect(all.map(r => r.id).sort()).toEqual(['m1', 'm3']);
+    expect(all.find(r => r.id === 'm1')).toMatchObject({ chat_name: '项目群', platform: 'feishu' });
+    expect(all.find(r => r.id === 'm1')?.snippet).toContain('部署方案');
+
+    expect(searchMessages('部署', { chatJid: 'chat-a' }).map(r => r.id)).toEqual(['m1']);
+    expect(searchMessages('部署', { platform: 'telegram' }).map(r => r.id)).toEqual(['m3']);
+    expect(searchMessages('部署', { sender: '王五' }).map(r => r.id)).toEqual(['m3']);
+    expect(searchMessages('部署', { since: '2026-01-06T00:00:00.000Z' }).map(r => r.id)).toEqual(['m3']);
+    expect(searchMessages('迁移', { until: '2026-01-06T00:00:00.000Z' })).toEqual([]);
+
+    // 多个词优先全部命中，无结果时放宽为任一命中
+    expect(searchMessages('部署 火锅').map(r => r.id)).toEqual(['m3']);
+    expect(searchMessages('火锅 迁移').map(r => r.id).sort()).toEqual(['m2', 'm3']);
+
+    // 编辑后的消息重新索引
+    storeMessage({ id: 'm2', chatId: 'chat-a', senderId: 'u2', senderName: '李四', content: '数据库改到月底', timestamp: '2026-01-08T02:00:00.000Z', isFromMe: false });
+    expect(searchMessages('迁移')).toEqual([]);
+    expect(searchMessages('月底')[0]).toMatchObject({ id: 'm2', platform: 'feishu' });
+
+    // 删除的消息不再出现在结果中
+    global.__flashclaw_db!.prepare(`DELETE FROM messages WHERE chat_jid = ?`).run('chat-b');
+    expect(searchMessages('火锅')).toEqual([]);
+  });
+
+  it('limits /search to the current chat outside the main group', async () => {
+    const { handleCommand } = await import('../src/commands.js');
+    const context = { chatId: 'chat-a', userId: 'u1', userName: '张三', platform: 'feishu', groupFolder: 'team' };
+
+    const scoped = handleCommand('/search 部署', context).response!;
+    expect(scoped).toContain('部署方案');
+    expect(scoped).not.toContain('火锅');
+
+    const fromMain = handleCommand('/search 部署 platform:telegram', { ...context, groupFolder: 'main' }).response!;
+    expect(fromMain).toContain('闲聊群');
+    expect(fromMain).not.toContain('部署方案');
+
+    expect(handleCommand('/search 部署 since:昨天', context).response).toContain('无法识别的日期');
+    expect(handleCommand('/search 不存在的内容', context).response).toContain('没有找到');
+  });
+
+  it('conversation_search tool only searches all chats from the main group', async () => {
+    const { default: plugin } = await import('../community-plugins/conversation-search/index.js');
+    const context: ToolContext = {
+      chatId: 'chat-b',
+      groupId: 'team',
+      userId: 'u3',
+      sendMessage: vi.fn().mockResolvedValue(undefined),
+      sendImage: vi.fn().mockResolvedValue(undefined),
+    };
+
+    const scoped = await plugin.execute({ query: '部署' }, context);
+    expect(scoped.success).toBe(true);
+    expect((scoped.data as { results: Array<{ sender: string; platform?: string }> }).results)
+      .toMatchObject([{ sender: '王五', platform: 'telegram' }]);
+
+    expect((await plugin.execute({ query: '部署', all: true }, context)).success).toBe(false);
+
+    const all = await plugin.execute({ query: '部署', all: true, until: '2026-01-05' }, { ...context, groupId: 'main' });
+    expect((all.data as { results: Array<{ chat: string }> }).results).toMatchObject([{ chat: '项目群' }]);
+  });
+});
@@ -54,4 +54,108 @@ describe('MemoryManager', () => {
     expect(recalled).toContain('> 引用');
     expect(recalled).toContain('正文');
   });
+
+  it('searches long-term memory with CJK-aware full-text index', async () => {
+    const dir = await fs.mkdtemp(join(tmpdir(), 'flashclaw-memory-fts-'));
+    const memory = new MemoryManager({ memoryDir: dir });
+    memory.remember('user_food', '用户喜欢吃四川火锅', { tags: ['偏好'] });
+    memory.remember('project_name', 'FlashClaw assistant');
+    memory.rememberUser('user-1', 'pet', '养了一只叫豆豆的猫', { sourceChat: 'chat-1' });
+    memory.rememberUser('user-2', 'pet', '养了一条狗');
+
+    expect(memory.searchMemories('火锅').map(r => r.key)).toEqual(['user_food']);
+    expect(memory.searchMemories('flash').map(r => r.key)).toEqual(['project_name']);
+    // 不带 userId 时只搜索全局记忆
+    expect(memory.searchMemories('养了')).toHaveLength(0);
+    const mine = memory.searchMemories('我养的猫叫什么', { userId: 'user-1' });
+    expect(mine[0]).toMatchObject({ scope: 'user', owner: 'user-1', key: 'pet', sourceChat: 'chat-1' });
+    expect(mine.some(r => r.owner === 'user-2')).toBe(false);
+    expect(memory.searchMemories('', { tags: ['偏好'] }).map(r => r.key)).toEqual(['user_food']);
+
+    memory.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('keeps versions on edit and hides expired memories', async () => {
+    const dir = await fs.mkdtemp(join(tmpdir(), 'flashclaw-memory-versions-'));
+    const memory = new MemoryManager({ memoryDir: dir });
+    memory.remember('city', '北京');
+    memory.remember('city', '上海', { confidence: 0.6 });
+    memory.remember('city', '上海', { confidence: 0.6 });
+
+    expect(memory.getMemoryEntry('city')).toMatchObject({ value: '上海', version: 2, confidence: 0.6 });
+    expect(memory.getMemoryHistory('city').map(v => [v.version, v.value, v.change])).toEqual([[1, '北京', 'update']]);
+    expect(memory.searchMemories('北京')).toHaveLength(0);
+
+    memory.forget('city');
+    memory.remember('city', '深圳');
+    expect(memory.getMemoryEntry('city')?.version).toBe(3);
+
+    memory.remember('coupon', '周末有优惠', { expiresAt: new Date(Date.now() - 1000).toISOString() });
+    expect(memory.recall('coupon')).toBe('');
+    expect(memory.getMemoryKeys()).toEqual(['city']);
+
+    memory.remember('trip', '下周去杭州', { ttlDays: 7 });
+    const expiresIn = Date.parse(memory.getMemoryEntry('trip')!.expiresAt!) - Date.now();
+    expect(expiresIn).toBeGreaterThan(6 * 86400000);
+    expect(expiresIn).toBeLessThanOrEqual(7 * 86400000);
+
+    memory.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('migrates legacy markdown files and keeps them as export', async () => {
+    const dir = await fs.mkdtemp(join(tmpdir(), 'flashclaw-memory-migrate-'));
+    await fs.mkdir(join(dir, 'users'), { recursive: true });
+    await fs.writeFile(join(dir, 'global.md'), [
+      '# global 的长期记忆',
+      '',
+      '### ai_name',
+      '',
+      'AI 的名字是波特',
+      '',
+      '<!-- created: 2026-01-01T00:00:00.000Z, updated: 2026-01-02T00:00:00.000Z -->',
+      '',
+    ].join('\n'));
+    await fs.writeFile(join(dir, 'users', 'feishu_ou_1.md'), [
+      '# 用户 feishu:ou_1 的长期记忆',
+      '',
+      '### user_name',
+      '',
+      '用户叫张三',
+      '',
+    ].join('\n'));
+
+    const memory = new MemoryManager({ memoryDir: dir });
+    expect(memory.recall('ai_name')).toBe('AI 的名字是波特');
+    expect(memory.getMemoryEntry('ai_name')?.createdAt).toBe('2026-01-01T00:00:00.000Z');
+    expect(memory.recallUser('feishu:ou_1', 'user_name')).toBe('用户叫张三');
+
+    memory.rememberUser('feishu:ou_1', 'user_food', '喜欢火锅', { tags: ['偏好'] });
+    const exported = await fs.readFile(join(dir, 'users', 'feishu_ou_1.md'), 'utf-8');
+    expect(exported).toContain('### user_food');
+    expect(exported).toContain('<!-- meta: {"tags":["偏好"]} -->');
+    memory.close();
+
+    // 重启后不重复导入，数据来自数据库
+    const restarted = new MemoryManager({ memoryDir: dir });
+    expect(restarted.getMemoryEntry('user_food', 'feishu:ou_1')).toMatchObject({ tags: ['偏好'], version: 1 });
+    expect(restarted.recallUser('feishu:ou_1')).toBe('- user_name: 用户叫张三\n- user_food: 喜欢火锅');
+    restarted.close();
+
+    // 在文件中删除条目后，导入时同步删除，再次导出也不会写回
+    const userFile = join(dir, 'users', 'feishu_ou_1.md');
+    const edited = (await fs.readFile(userFile, 'utf-8')).replace(/### user_name[\s\S]*?(?=### user_food)/, '');
+    await fs.writeFile(userFile, edited);
+    await fs.utimes(userFile, new Date(), new Date(Date.now() + 5000));
+    const reopened = new MemoryManager({ memoryDir: dir });
+    expect(reopened.recallUser('feishu:ou_1', 'user_name')).toBe('');
+    expect(reopened.recallUser('feishu:ou_1', 'user_food')).toBe('喜欢火锅');
+    reopened.exportMarkdown();
+    expect(await fs.readFile(userFile, 'utf-8')).not.toContain('user_name');
+    expect(reopened.recall('ai_name')).toBe('AI 的名字是波特');
+    reopened.close();
+
+    await fs.rm(dir, { recursive: true, force: true });
+  });
 });
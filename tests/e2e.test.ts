@@ -195,96 +195,116 @@ export default {
 `;
 }
 
+type FlashClawInstance = {
+  child: ChildProcessWithoutNullStreams;
+  output: () => string;
+  exited: () => boolean;
+};
+
+async function prepareHome(tempDir: string): Promise<void> {
+  await fs.mkdir(join(tempDir, 'config'), { recursive: true });
+  await fs.writeFile(
+    join(tempDir, 'config', 'plugins.json'),
+    JSON.stringify({ plugins: { feishu: { enabled: false } }, hotReload: false }, null, 2)
+  );
+
+  const pluginDir = join(tempDir, 'plugins', 'e2e-channel');
+  await fs.mkdir(pluginDir, { recursive: true });
+  await fs.writeFile(
+    join(pluginDir, 'plugin.json'),
+    JSON.stringify({
+      name: 'e2e-channel',
+      version: '1.0.0',
+      type: 'channel',
+      main: 'index.ts',
+      config: {
+        inboxDir: { env: 'E2E_INBOX_DIR', required: true },
+        outboxDir: { env: 'E2E_OUTBOX_DIR', required: true }
+      }
+    }, null, 2)
+  );
+  await fs.writeFile(join(pluginDir, 'index.ts'), buildE2ePluginSource());
+}
+
+async function startFlashClaw(env: Record<string, string>, healthPort: number): Promise<FlashClawInstance> {
+  const tsxPath = require.resolve('tsx/cli');
+  const child = spawn(process.execPath, [tsxPath, 'src/index.ts'], {
+    cwd: process.cwd(),
+    env: {
+      ...process.env,
+      ...env,
+      HEALTH_PORT: String(healthPort),
+      LOG_LEVEL: 'error',
+      BOT_NAME: 'FlashClaw',
+    },
+    stdio: 'pipe',
+  });
+
+  let output = '';
+  let exited = false;
+  child.stdout.on('data', (data) => {
+    output += data.toString();
+  });
+  child.stderr.on('data', (data) => {
+    output += data.toString();
+  });
+  child.on('exit', () => {
+    exited = true;
+  });
+
+  await waitFor(async () => {
+    if (exited) {
+      throw new Error(`Process exited early. Output:\n${output}`);
+    }
+    try {
+      const res = await httpGet(`http://127.0.0.1:${healthPort}/health`);
+      return res.statusCode === 200 ? res.body : null;
+    } catch {
+      return null;
+    }
+  }, 15000, 300);
+
+  return { child, output: () => output, exited: () => exited };
+}
+
+async function stopFlashClaw(instance: FlashClawInstance | null): Promise<void> {
+  if (instance && !instance.exited()) {
+    instance.child.kill('SIGTERM');
+    await waitFor(async () => (instance.exited() ? true : null), 5000, 200).catch(() => {});
+  }
+}
+
 describe('e2e', () => {
   const chatId = 'chat-e2e-12345678';
   const groupFolder = `private-${chatId.slice(-8)}`;
   let tempDir = '';
   let inboxDir = '';
   let outboxDir = '';
-  let healthPort = 0;
-  let webUiPort = 0;
-  let child: ChildProcessWithoutNullStreams | null = null;
-  let output = '';
-  let exited = false;
+  let instance: FlashClawInstance | null = null;
 
   beforeAll(async () => {
     tempDir = await fs.mkdtemp(join(tmpdir(), 'flashclaw-e2e-'));
     inboxDir = join(tempDir, 'e2e', 'inbox');
     outboxDir = join(tempDir, 'e2e', 'outbox');
-    healthPort = await getAvailablePort();
-    webUiPort = await getAvailablePort();
+    const healthPort = await getAvailablePort();
+    const webUiPort = await getAvailablePort();
 
-    await fs.mkdir(join(tempDir, 'config'), { recursive: true });
-    await fs.writeFile(
-      join(tempDir, 'config', 'plugins.json'),
-      JSON.stringify({ plugins: { feishu: { enabled: false } }, hotReload: false }, null, 2)
-    );
+    await prepareHome(tempDir);
 
-    const pluginDir = join(tempDir, 'plugins', 'e2e-channel');
-    await fs.mkdir(pluginDir, { recursive: true });
-    await fs.writeFile(
-      join(pluginDir, 'plugin.json'),
-      JSON.stringify({
-        name: 'e2e-channel',
-        version: '1.0.0',
-        type: 'channel',
-        main: 'index.ts',
-        config: {
-          inboxDir: { env: 'E2E_INBOX_DIR', required: true },
-          outboxDir: { env: 'E2E_OUTBOX_DIR', required: true }
-        }
-      }, null, 2)
-    );
-    await fs.writeFile(join(pluginDir, 'index.ts'), buildE2ePluginSource());
-
-    const tsxPath = require.resolve('tsx/cli');
-    child = spawn(process.execPath, [tsxPath, 'src/index.ts'], {
-      cwd: process.cwd(),
-      env: {
-        ...process.env,
-        FLASHCLAW_HOME: tempDir,
-        AI_PROVIDER: 'anthropic-provider',
-        FLASHCLAW_MOCK_API: '1',
-        FLASHCLAW_MOCK_RESPONSE_PREFIX: 'E2E',
-        FLASHCLAW_MOCK_TOOL_MARKER: '[tool:send_message]',
-        HEALTH_PORT: String(healthPort),
-        WEBUI_PORT: String(webUiPort),
-        E2E_INBOX_DIR: inboxDir,
-        E2E_OUTBOX_DIR: outboxDir,
-        LOG_LEVEL: 'error',
-        BOT_NAME: 'FlashClaw',
-      },
-      stdio: 'pipe',
-    });
-
-    child.stdout.on('data', (data) => {
-      output += data.toString();
-    });
-    child.stderr.on('data', (data) => {
-      output += data.toString();
-    });
-    child.on('exit', () => {
-      exited = true;
-    });
-
-    await waitFor(async () => {
-      if (exited) {
-        throw new Error(`Process exited early. Output:\n${output}`);
-      }
-      try {
-        const res = await httpGet(`http://127.0.0.1:${healthPort}/health`);
-        return res.statusCode === 200 ? res.body : null;
-      } catch {
-        return null;
-      }
-    }, 15000, 300);
+    instance = await startFlashClaw({
+      FLASHCLAW_HOME: tempDir,
+      AI_PROVIDER: 'anthropic-provider',
+      FLASHCLAW_MOCK_API: '1',
+      FLASHCLAW_MOCK_RESPONSE_PREFIX: 'E2E',
+      FLASHCLAW_MOCK_TOOL_MARKER: '[tool:send_message]',
+      WEBUI_PORT: String(webUiPort),
+      E2E_INBOX_DIR: inboxDir,
+      E2E_OUTBOX_DIR: outboxDir,
+    }, healthPort);
   }, 20000);
 
   afterAll(async () => {
-    if (child && !exited) {
-      child.kill('SIGTERM');
-      await waitFor(async () => (exited ? true : null), 5000, 200).catch(() => {});
-    }
+    await stopFlashClaw(instance);
     await fs.rm(tempDir, { recursive: true, force: true });
   }, 10000);
 
@@ -331,3 +351,114 @@ describe('e2e', () => {
     expect(response.content).toContain('E2E scheduled task');
   }, 20000);
 });
+
+function buildReplayCassette(): object {
+  const usage = { input_tokens: 1, output_tokens: 1 };
+  const toolUse = { type: 'tool_use', id: 'replay_tool_1', name: 'send_message', input: { content: 'REPLAY TOOL: sent from cassette' } };
+  return {
+    version: 1,
+    model: 'replay-model',
+    interactions: [
+      {
+        kind: 'stream',
+        prompt: 'replay hello',
+        handWritten: true,
+        events: [
+          { type: 'text', text: 'REPLAY: ' },
+          { type: 'text', text: 'answer from cassette' },
+          { type: 'done', message: { role: 'assistant', content: [{ type: 'text', text: 'REPLAY: answer from cassette' }], stop_reason: 'end_turn', usage } },
+        ],
+      },
+      {
+        kind: 'stream',
+        prompt: 'replay tool',
+        handWritten: true,
+        events: [
+          toolUse,
+          { type: 'done', message: { role: 'assistant', content: [toolUse], stop_reason: 'tool_use', usage } },
+        ],
+      },
+      {
+        kind: 'tool',
+        prompt: 'replay tool',
+        handWritten: true,
+        toolCalls: [{ name: 'send_message', input: toolUse.input }],
+        result: '',
+      },
+    ],
+  };
+}
+
+describe('e2e replay provider', () => {
+  const chatId = 'chat-replay-87654321';
+  let tempDir = '';
+  let inboxDir = '';
+  let outboxDir = '';
+  let instance: FlashClawInstance | null = null;
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), 'flashclaw-e2e-replay-'));
+    inboxDir = join(tempDir, 'e2e', 'inbox');
+    outboxDir = join(tempDir, 'e2e', 'outbox');
+    const cassettePath = join(tempDir, 'cassettes', 'e2e.json');
+    const healthPort = await getAvailablePort();
+    const webUiPort = await getAvailablePort();
+
+    await prepareHome(tempDir);
+    await fs.mkdir(join(tempDir, 'cassettes'), { recursive: true });
+    await fs.writeFile(cassettePath, JSON.stringify(buildReplayCassette(), null, 2));
+
+    // 不设置任何 API Key，验证回放完全离线
+    instance = await startFlashClaw({
+      FLASHCLAW_HOME: tempDir,
+      AI_PROVIDER: 'replay-provider',
+      REPLAY_MODE: 'replay',
+      REPLAY_CASSETTE: cassettePath,
+      ANTHROPIC_API_KEY: '',
+      ANTHROPIC_AUTH_TOKEN: '',
+      FLASHCLAW_MOCK_API: '',
+      WEBUI_PORT: String(webUiPort),
+      E2E_INBOX_DIR: inboxDir,
+      E2E_OUTBOX_DIR: outboxDir,
+    }, healthPort);
+  }, 20000);
+
+  afterAll(async () => {
+    await stopFlashClaw(instance);
+    await fs.rm(tempDir, { recursive: true, force: true });
+  }, 10000);
+
+  it('replays recorded text response', async () => {
+    await clearDir(outboxDir);
+    await writeJsonFile(inboxDir, {
+      id: 'replay-msg-1',
+      chatId,
+      chatType: 'p2p',
+      content: 'replay hello',
+    });
+
+    const response = await waitFor(async () => {
+      const messages = await readOutbox(outboxDir);
+      return messages.find(m => m.type === 'message' && m.chatId === chatId) || null;
+    }, 10000, 200);
+
+    expect(response.content).toContain('REPLAY: answer from cassette');
+  }, 15000);
+
+  it('replays tool_use turn by executing recorded tool calls', async () => {
+    await clearDir(outboxDir);
+    await writeJsonFile(inboxDir, {
+      id: 'replay-msg-2',
+      chatId,
+      chatType: 'p2p',
+      content: 'replay tool',
+    });
+
+    const response = await waitFor(async () => {
+      const messages = await readOutbox(outboxDir);
+      return messages.find(m => m.type === 'message' && m.chatId === chatId && m.content?.includes('REPLAY TOOL')) || null;
+    }, 10000, 200);
+
+    expect(response.content).toContain('REPLAY TOOL: sent from cassette');
+  }, 15000);
+});
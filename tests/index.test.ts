@@ -64,4 +64,26 @@ describe('index helpers', () => {
     });
     expect(failure).toContain('❌ 抓取失败');
   });
+
+  it('checks senders against a group allowlist', () => {
+    const group = { allowedSenders: ['Me@Example.com', '*@mycompany.com', 'ou_123'] };
+    expect(indexModule.isSenderAllowed(group, 'me@example.com')).toBe(true);
+    expect(indexModule.isSenderAllowed(group, 'alice@MyCompany.com')).toBe(true);
+    expect(indexModule.isSenderAllowed(group, 'ou_123')).toBe(true);
+    expect(indexModule.isSenderAllowed(group, 'stranger@evil.com')).toBe(false);
+    expect(indexModule.isSenderAllowed(group, 'alice@mycompany.com.evil.com')).toBe(false);
+
+    // 未设置或为空时不限制
+    expect(indexModule.isSenderAllowed({}, 'anyone@example.com')).toBe(true);
+    expect(indexModule.isSenderAllowed({ allowedSenders: [] }, 'anyone@example.com')).toBe(true);
+
+    // 带平台前缀的名单项只约束该渠道，其他渠道没有适用的名单项时不限制
+    const scoped = { allowedSenders: ['email:*@mycompany.com', 'feishu:ou_123'] };
+    expect(indexModule.isSenderAllowed(scoped, 'alice@mycompany.com', 'email')).toBe(true);
+    expect(indexModule.isSenderAllowed(scoped, 'ou_123', 'email')).toBe(false);
+    expect(indexModule.isSenderAllowed(scoped, 'ou_123', 'feishu')).toBe(true);
+    expect(indexModule.isSenderAllowed(scoped, 'ou_456', 'feishu')).toBe(false);
+    expect(indexModule.isSenderAllowed(scoped, '10001', 'telegram')).toBe(true);
+    expect(indexModule.isSenderAllowed({ allowedSenders: ['email:*@mycompany.com', 'ou_123'] }, '10001', 'telegram')).toBe(false);
+  });
 });
@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { MemoryManager } from '../src/core/memory.js';
+import { handleCommand, type CommandContext } from '../src/commands.js';
+import type { AIProviderPlugin } from '../src/plugins/types.js';
+import {
+  consolidateMemories,
+  findSimilarGroups,
+  parseConsolidationPlan,
+} from '../src/memory-consolidation.js';
+
+function mockProvider(reply: string): AIProviderPlugin {
+  return {
+    name: 'mock-provider',
+    version: '1.0.0',
+    description: 'mock',
+    chat: vi.fn().mockResolvedValue({ content: [{ type: 'text', text: reply }] }),
+    chatStream: vi.fn(),
+    handleToolUse: vi.fn(),
+    getModel: () => 'mock-model',
+    setModel: vi.fn(),
+  } as unknown as AIProviderPlugin;
+}
+
+describe('memory consolidation', () => {
+  let tempDir = '';
+  let mm: MemoryManager;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), 'flashclaw-consolidate-'));
+    mm = new MemoryManager({ memoryDir: tempDir });
+    global.__flashclaw_memory_manager = mm;
+  });
+
+  afterEach(async () => {
+    mm.close();
+    global.__flashclaw_memory_manager = undefined;
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('groups near-duplicate entries and parses fenced JSON plans', () => {
+    const groups = findSimilarGroups([
+      { key: 'favorite_food', value: '用户喜欢吃四川火锅' },
+      { key: 'project', value: 'FlashClaw' },
+      { key: 'food', value: '用户喜欢吃火锅' },
+    ]);
+    expect(groups).toEqual([[0, 2]]);
+
+    expect(parseConsolidationPlan('```json\n{"merges":[{"group":1,"keys":["a","b"]}]}\n```').merges).toHaveLength(1);
+    expect(parseConsolidationPlan('没有需要处理的')).toEqual({});
+  });
+
+  it('merges duplicates and records conflicts for review', async () => {
+    mm.remember('favorite_food', '用户喜欢吃四川火锅', { tags: ['偏好'] });
+    mm.remember('food', '用户喜欢吃火锅', { tags: ['饮食'] });
+    mm.rememberUser('user-1', 'user_city', '用户住在北京');
+    mm.rememberUser('user-1', 'user_home', '用户住在上海');
+
+    const provider = mockProvider(JSON.stringify({
+      merges: [{ group: 1, keys: ['favorite_food', 'food'], key: 'favorite_food', value: '用户喜欢吃火锅，尤其是四川火锅' }],
+      conflicts: [{ group: 2, keys: ['user_city', 'user_home'], reason: '居住城市不一致' }],
+    }));
+
+    const result = await consolidateMemories({ provider });
+    expect(result).toMatchObject({ groups: 2, merged: 1, removed: 1, conflicts: 1 });
+
+    expect(mm.recall('favorite_food')).toBe('用户喜欢吃火锅，尤其是四川火锅');
+    expect(mm.getMemoryEntry('favorite_food')?.tags).toEqual(['偏好', '饮食']);
+    expect(mm.recall('food')).toBe('');
+    expect(mm.getMemoryConflicts('user-1')).toMatchObject([{ keys: ['user_city', 'user_home'], reason: '居住城市不一致' }]);
+
+    // 同一组冲突不会重复记录
+    const again = await consolidateMemories({ provider: mockProvider(JSON.stringify({
+      conflicts: [{ group: 1, keys: ['user_home', 'user_city'], reason: '居住城市不一致' }],
+    })) });
+    expect(again.conflicts).toBe(0);
+  });
+
+  it('reviews, keeps and deletes memories via /memory', () => {
+    const context: CommandContext = { chatId: 'chat-1', userId: 'user-1', userName: '测试', platform: 'feishu', groupFolder: 'team' };
+    mm.rememberUser('user-1', 'user_city', '用户住在北京');
+    mm.rememberUser('user-1', 'user_home', '用户住在上海');
+    mm.rememberUser('user-1', 'guess', '可能喜欢猫', { confidence: 0.3 });
+    mm.remember('project', 'FlashClaw', { confidence: 0.2 });
+    mm.recordMemoryConflict(['user_city', 'user_home'], '居住城市不一致', 'user-1');
+
+    const review = handleCommand('/memory review', context).response!;
+    expect(review).toContain('居住城市不一致');
+    expect(review).toContain('`user_home`: 用户住在上海');
+    expect(review).toContain('`guess`');
+    // 全局记忆只在主会话中复查
+    expect(review).not.toContain('project');
+    expect(handleCommand('/memory review', { ...context, groupFolder: 'main' }).response).toContain('project');
+
+    expect(handleCommand('/memory delete project', context).response).toContain('仅可在主会话');
+    expect(handleCommand('/memory delete user_home', context).response).toContain('已删除');
+    expect(mm.recallUser('user-1', 'user_home')).toBe('');
+    expect(mm.getMemoryConflicts('user-1')).toEqual([]);
+
+    expect(handleCommand('/memory keep guess', context).response).toContain('已确认保留');
+    expect(mm.getMemoryEntry('guess', 'user-1')?.confidence).toBe(1);
+    expect(mm.getStaleMemories({ userId: 'user-1' })).toEqual([]);
+
+    handleCommand('/memory delete project', { ...context, groupFolder: 'main' });
+    expect(mm.recall('project')).toBe('');
+  });
+
+  it('hides the system task from task tools and rejects changes', async () => {
+    process.env.FLASHCLAW_HOME = tempDir;
+    const { initDatabase, getTaskById } = await import('../src/db.js');
+    initDatabase();
+    try {
+      const { ensureMemoryConsolidationTask, MEMORY_CONSOLIDATION_TASK_ID } = await import('../src/memory-consolidation.js');
+      ensureMemoryConsolidationTask('0 4 * * *');
+
+      const { default: listTasks } = await import('../community-plugins/list-tasks/index.js');
+      const { default: cancelTask } = await import('../community-plugins/cancel-task/index.js');
+      const context = { chatId: 'chat-1', groupId: 'main', userId: 'user-1', sendMessage: vi.fn(), sendImage: vi.fn() };
+
+      const listed = await listTasks.execute({ all: true }, context);
+      expect(JSON.stringify(listed.data)).not.toContain(MEMORY_CONSOLIDATION_TASK_ID);
+
+      const cancelled = await cancelTask.execute({ taskId: MEMORY_CONSOLIDATION_TASK_ID, action: 'cancel' }, context);
+      expect(cancelled.success).toBe(false);
+      expect(cancelled.error).toContain('系统任务');
+      expect(getTaskById(MEMORY_CONSOLIDATION_TASK_ID)).toBeDefined();
+    } finally {
+      global.__flashclaw_db?.close();
+      global.__flashclaw_db = undefined;
+      delete process.env.FLASHCLAW_HOME;
+    }
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MAX_TEXT_LENGTH,
+  approvalCommand,
+  chunkText,
+  parseMessageId,
+  replyTarget,
+  stripMentions,
+} from '../../community-plugins/discord/discord-utils.js';
+
+describe('discord utils', () => {
+  it('parses channelId:messageId message IDs', () => {
+    expect(parseMessageId('111:222')).toEqual({ channelId: '111', messageId: '222' });
+    expect(parseMessageId('111')).toBeNull();
+    expect(parseMessageId('111:222:333')).toBeNull();
+  });
+
+  it('maps replies and threads to the message being answered', () => {
+    // 显式回复优先
+    expect(replyTarget({ channelId: 't1', messageId: 'm9' }, { id: 't1', parentId: 'c1' })).toBe('t1:m9');
+    // 线程 ID 即起始消息 ID，指向父频道中的起始消息
+    expect(replyTarget(null, { id: 't1', parentId: 'c1' })).toBe('c1:t1');
+    expect(replyTarget({ channelId: 'c1' }, null)).toBeUndefined();
+    expect(replyTarget(undefined, { id: 't1', parentId: null })).toBeUndefined();
+  });
+
+  it('strips the bot mention and names other users', () => {
+    const users = [
+      { id: '100', displayName: 'FlashClaw' },
+      { id: '200', displayName: '张三' },
+    ];
+    expect(stripMentions('<@100> 提醒 <@!200> 和 <@200>', users, '100')).toBe('提醒 @张三 和 @张三');
+    expect(stripMentions('  没有提及  ', users, '100')).toBe('没有提及');
+  });
+
+  it('chunks long messages to the Discord limit', () => {
+    const text = `${'a'.repeat(1500)}\n${'b'.repeat(1500)}`;
+    expect(chunkText(text)).toEqual(['a'.repeat(1500), 'b'.repeat(1500)]);
+    expect(chunkText('x'.repeat(MAX_TEXT_LENGTH + 10)).map(c => c.length)).toEqual([MAX_TEXT_LENGTH, 10]);
+  });
+
+  it('turns approval buttons into commands', () => {
+    expect(approvalCommand('approve:abc123')).toEqual({ approved: true, command: '/approve abc123' });
+    expect(approvalCommand('deny:abc123')).toEqual({ approved: false, command: '/deny abc123' });
+    expect(approvalCommand('approve:')).toBeNull();
+    expect(approvalCommand('other:abc123')).toBeNull();
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import {
+  appendToThread,
+  baseSubject,
+  buildReplyHeaders,
+  htmlToText,
+  isAutoGenerated,
+  isSenderAuthenticated,
+  parseReferences,
+  replySubject,
+  stripQuotedReply,
+  threadChatId,
+  threadRootId,
+  type MailThread,
+} from '../../community-plugins/email/mail-utils.js';
+
+function headers(values: Record<string, unknown>) {
+  const map = new Map(Object.entries(values));
+  return { get: (name: string) => map.get(name) };
+}
+
+describe('email threading', () => {
+  it('maps a whole reply chain to the same chat', () => {
+    const first = threadRootId({ messageId: 'root@mail.example.com' });
+    const reply = threadRootId({
+      messageId: '<r2@mail.example.com>',
+      inReplyTo: '<bot1@flashclaw>',
+      references: ['<root@mail.example.com>', '<bot1@flashclaw>'],
+    });
+    const replyWithoutReferences = threadRootId({ messageId: '<r3@x>', inReplyTo: '<root@mail.example.com>' });
+
+    expect(first).toBe('<root@mail.example.com>');
+    expect(reply).toBe(first);
+    expect(replyWithoutReferences).toBe(first);
+
+    const chatId = threadChatId(first);
+    expect(chatId).toMatch(/^email-[0-9a-f]{16}$/);
+    expect(threadChatId('<ROOT@mail.example.com>')).toBe(chatId);
+    expect(threadChatId('<other@mail.example.com>')).not.toBe(chatId);
+  });
+
+  it('builds reply headers from the thread chain', () => {
+    let thread: MailThread = {
+      rootId: '<root@x>',
+      subject: baseSubject('Re: 回复: 周报'),
+      replyTo: 'me@example.com',
+      lastMessageId: '<root@x>',
+      references: ['<root@x>'],
+      updatedAt: new Date().toISOString(),
+    };
+    expect(thread.subject).toBe('周报');
+    expect(replySubject(thread.subject)).toBe('Re: 周报');
+
+    thread = appendToThread(thread, 'bot1@flashclaw');
+    thread = appendToThread(thread, '<r2@x>');
+    expect(buildReplyHeaders(thread)).toEqual({
+      inReplyTo: '<r2@x>',
+      references: ['<root@x>', '<bot1@flashclaw>', '<r2@x>'],
+    });
+
+    // 链过长时保留根邮件和最近的邮件
+    for (let i = 0; i < 30; i++) {
+      thread = appendToThread(thread, `<m${i}@x>`);
+    }
+    const { references } = buildReplyHeaders(thread);
+    expect(references).toHaveLength(20);
+    expect(references[0]).toBe('<root@x>');
+    expect(references[references.length - 1]).toBe('<m29@x>');
+  });
+
+  it('parses reference headers', () => {
+    expect(parseReferences('<a@x> <b@x>\r\n <c@x>')).toEqual(['<a@x>', '<b@x>', '<c@x>']);
+    expect(parseReferences(['<a@x>', '<b@x>'])).toEqual(['<a@x>', '<b@x>']);
+    expect(parseReferences(undefined)).toEqual([]);
+  });
+
+  it('cleans up message bodies', () => {
+    expect(htmlToText('<p>你好&nbsp;<b>世界</b></p><ul><li>一</li><li>二</li></ul><style>p{}</style>'))
+      .toBe('你好 世界\n- 一\n- 二');
+
+    const reply = '好的，明天发。\n\nOn Mon, 1 Jan 2026 at 10:00, Bot <bot@x> wrote:\n> 请发周报\n> 谢谢';
+    expect(stripQuotedReply(reply)).toBe('好的，明天发。');
+    expect(stripQuotedReply('没问题\n\n在 2026年1月1日 10:00，Bot 写道：\n> 请发周报')).toBe('没问题');
+    expect(stripQuotedReply('> 只有引用')).toBe('> 只有引用');
+  });
+
+  it('detects auto-generated mail', () => {
+    expect(isAutoGenerated(headers({ 'auto-submitted': 'auto-replied' }))).toBe(true);
+    expect(isAutoGenerated(headers({ 'auto-submitted': 'no' }))).toBe(false);
+    expect(isAutoGenerated(headers({ precedence: 'bulk' }))).toBe(true);
+    expect(isAutoGenerated(headers({ 'list-id': { value: '<news.example.com>', params: {} } }))).toBe(true);
+    expect(isAutoGenerated(headers({ 'x-autoreply': 'yes' }))).toBe(true);
+    expect(isAutoGenerated(headers({ subject: 'hello' }))).toBe(false);
+  });
+
+  it('trusts From only when DMARC or aligned DKIM passed', () => {
+    const auth = (value: unknown) => headers({ 'authentication-results': value });
+    const gmail = 'mx.google.com; dkim=pass header.i=@corp.com header.s=s1 (2048-bit key; unprotected); spf=pass smtp.mailfrom=corp.com; dmarc=pass (p=REJECT) header.from=corp.com';
+
+    expect(isSenderAuthenticated(auth(gmail), 'alice@corp.com')).toBe(true);
+    expect(isSenderAuthenticated(auth('mx.example.com; dkim=pass header.d=corp.com'), 'bob@mail.corp.com')).toBe(true);
+    expect(isSenderAuthenticated(auth('mx.example.com; dmarc=pass header.from=corp.com'), 'mallory@evil.com')).toBe(false);
+    // DKIM 通过但签名域与 From 不一致
+    expect(isSenderAuthenticated(auth('mx.example.com; dkim=pass header.d=evil.com; dmarc=fail header.from=corp.com'), 'alice@corp.com')).toBe(false);
+    expect(isSenderAuthenticated(auth('mx.example.com; spf=pass smtp.mailfrom=corp.com'), 'alice@corp.com')).toBe(false);
+    expect(isSenderAuthenticated(headers({}), 'alice@corp.com')).toBe(false);
+
+    // 发件人自己伪造的头排在收信服务器添加的头之后，只信任最上面一条或指定的 authserv-id
+    const forged = [ 'mx.example.com; dmarc=fail header.from=corp.com', 'mx.example.com; dmarc=pass header.from=corp.com' ];
+    expect(isSenderAuthenticated(auth(forged), 'alice@corp.com')).toBe(false);
+    expect(isSenderAuthenticated(auth(['fake.host; dmarc=pass', gmail]), 'alice@corp.com', 'mx.google.com')).toBe(true);
+    expect(isSenderAuthenticated(auth(['fake.host; dmarc=pass', gmail]), 'alice@corp.com', 'mx.example.com')).toBe(false);
+  });
+});
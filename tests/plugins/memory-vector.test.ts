@@ -0,0 +1,101 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import type { ToolContext } from '../../src/plugins/types.js';
+import { MemoryManager } from '../../src/core/memory.js';
+import plugin from '../../community-plugins/memory-vector/index.js';
+import { LocalEmbeddingProvider, OpenAIEmbeddingProvider, cosineSimilarity } from '../../community-plugins/memory-vector/embeddings.js';
+import { VectorIndex } from '../../community-plugins/memory-vector/vector-index.js';
+
+const context: ToolContext = {
+  chatId: 'chat-1',
+  groupId: 'main',
+  userId: 'user-1',
+  sendMessage: vi.fn().mockResolvedValue(undefined),
+  sendImage: vi.fn().mockResolvedValue(undefined),
+};
+
+describe('memory-vector', () => {
+  let tempDir = '';
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), 'flashclaw-vector-'));
+    global.__flashclaw_memory_manager = new MemoryManager({ memoryDir: tempDir });
+  });
+
+  afterEach(async () => {
+    await plugin.cleanup?.();
+    global.__flashclaw_memory_manager?.close();
+    global.__flashclaw_memory_manager = undefined;
+    vi.unstubAllGlobals();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('local hashing embedding ranks overlapping text higher', async () => {
+    const local = new LocalEmbeddingProvider();
+    const [query, close, far] = await local.embed(['用户喜欢吃火锅', '喜欢吃四川火锅', 'deploy the server']);
+
+    expect(cosineSimilarity(query, close)).toBeGreaterThan(cosineSimilarity(query, far));
+    expect(cosineSimilarity(query, query)).toBeCloseTo(1);
+  });
+
+  it('parses OpenAI-compatible embedding responses in input order', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify({
+      data: [{ index: 1, embedding: [0, 1] }, { index: 0, embedding: [1, 0] }],
+    })));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const provider = new OpenAIEmbeddingProvider('http://localhost:8000/v1/', 'sk-test', 'bge-m3');
+    expect(await provider.embed(['a', 'b'])).toEqual([[1, 0], [0, 1]]);
+    expect(fetchMock).toHaveBeenCalledWith('http://localhost:8000/v1/embeddings', expect.objectContaining({
+      headers: expect.objectContaining({ Authorization: 'Bearer sk-test' }),
+    }));
+  });
+
+  it('persists vectors and only re-embeds changed snippets', async () => {
+    const local = new LocalEmbeddingProvider();
+    const embed = vi.spyOn(local, 'embed');
+    const dbPath = join(tempDir, 'vectors.db');
+    const snippets = [
+      { id: 'a', text: '用户叫张三', source: 'global' },
+      { id: 'b', text: '用户喜欢火锅', source: 'global' },
+    ];
+
+    const index = new VectorIndex(dbPath);
+    expect(await index.sync(snippets, local)).toEqual({ embedded: 2, removed: 0 });
+    index.close();
+
+    const reopened = new VectorIndex(dbPath);
+    expect(reopened.count(local.id)).toBe(2);
+    expect(await reopened.sync([snippets[0], { id: 'c', text: '养了一只猫', source: 'global' }], local))
+      .toEqual({ embedded: 1, removed: 1 });
+    expect(embed).toHaveBeenLastCalledWith(['养了一只猫']);
+
+    const [queryVector] = await local.embed(['张三']);
+    expect(reopened.search(queryVector, local.id, 1)[0].id).toBe('a');
+    reopened.close();
+  });
+
+  it('falls back to local embeddings and follows memory changes', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new Error('connect ECONNREFUSED')));
+    await plugin.init?.({ provider: 'ollama' });
+    const mm = global.__flashclaw_memory_manager!;
+    mm.remember('user_food', '用户喜欢吃四川火锅');
+    mm.rememberUser('user-2', 'secret', '用户二喜欢吃火锅');
+
+    const first = await plugin.execute({ query: '喜欢吃什么火锅' }, context);
+    expect(first.success).toBe(true);
+    const data = first.data as { backend: string; results: Array<{ content: string; source: string }> };
+    expect(data.backend).toBe('local:hash-512');
+    expect(data.results[0]).toMatchObject({ content: 'user_food: 用户喜欢吃四川火锅', source: 'global' });
+    // 其他用户的记忆不可见
+    expect(data.results.some(r => r.source === 'users/user-2')).toBe(false);
+
+    mm.appendDailyLog('下午和小王开会讨论了火锅店选址');
+    const second = await plugin.execute({ query: '火锅店选址' }, context);
+    const results = (second.data as { results: Array<{ content: string; source: string }> }).results;
+    expect(results[0].content).toBe('下午和小王开会讨论了火锅店选址');
+    expect(results[0].source).toMatch(/^daily\//);
+  });
+});
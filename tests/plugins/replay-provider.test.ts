@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import type { AIProviderPlugin, ChatMessage, StreamEvent } from '../../src/plugins/types.js';
+import type { PluginManager } from '../../src/plugins/manager.js';
+import replayProvider from '../../plugins/replay-provider/index.js';
+
+function createTarget(): AIProviderPlugin {
+  const doneMessage = {
+    stop_reason: 'tool_use',
+    content: [{ type: 'tool_use', id: 'tool_1', name: 'send_message', input: { content: 'hi' } }],
+  };
+  return {
+    name: 'fake-provider',
+    version: '1.0.0',
+    description: 'fake',
+    chat: vi.fn(async () => ({ text: 'chat response' })),
+    chatStream: vi.fn(async function* (): AsyncGenerator<StreamEvent> {
+      yield { type: 'text', text: 'Hel' };
+      yield { type: 'text', text: 'lo' };
+      yield { type: 'tool_use', id: 'tool_1', name: 'send_message', input: { content: 'hi' } };
+      yield { type: 'done', message: doneMessage };
+    }),
+    handleToolUse: vi.fn(async (_response, _messages, executeTool) => {
+      await executeTool('send_message', { content: 'hi' });
+      return 'final answer';
+    }),
+    getModel: () => 'fake-model',
+    setModel: vi.fn(),
+  };
+}
+
+async function collect(stream: AsyncGenerator<StreamEvent>): Promise<StreamEvent[]> {
+  const events: StreamEvent[] = [];
+  for await (const event of stream) events.push(event);
+  return events;
+}
+
+function buildRequest(time: string): { messages: ChatMessage[]; system: string } {
+  return {
+    messages: [{ role: 'user', content: `<message sender="u" time="${time}">hello replay</message>` }],
+    system: `当前时间: ${time}`,
+  };
+}
+
+describe('replay-provider', () => {
+  let tempDir = '';
+  let cassette = '';
+  let target: AIProviderPlugin;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), 'flashclaw-replay-'));
+    cassette = join(tempDir, 'cassette.json');
+    process.env.FLASHCLAW_HOME = tempDir;
+    process.env.AI_PROVIDER = 'replay-provider';
+    target = createTarget();
+    global.__flashclaw_plugin_manager = {
+      getProviderByName: (name: string) => (name === 'fake-provider' ? target : null),
+    } as unknown as PluginManager;
+  });
+
+  afterEach(async () => {
+    global.__flashclaw_plugin_manager = undefined;
+    delete process.env.FLASHCLAW_HOME;
+    delete process.env.AI_PROVIDER;
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('records a tool turn and replays it offline', async () => {
+    await replayProvider.init!({ mode: 'record', cassette, target: 'fake-provider' });
+    const recorded = buildRequest('2026-01-01T00:00:00.000Z');
+    const recordExecutor = vi.fn(async () => 'sent');
+
+    const events = await collect(replayProvider.chatStream(recorded.messages, { system: recorded.system }));
+    const done = events.find(e => e.type === 'done') as { message: unknown };
+    const result = await replayProvider.handleToolUse(done.message, recorded.messages, recordExecutor, { system: recorded.system });
+
+    expect(result).toBe('final answer');
+    const saved = JSON.parse(await fs.readFile(cassette, 'utf-8'));
+    expect(saved.model).toBe('fake-model');
+    expect(saved.interactions.map((i: { kind: string }) => i.kind)).toEqual(['stream', 'tool']);
+    expect(saved.interactions[1].toolCalls).toEqual([{ name: 'send_message', input: { content: 'hi' }, output: 'sent' }]);
+
+    // 回放：时间戳不同也能按哈希命中，且不再调用真实 Provider
+    await replayProvider.init!({ mode: 'replay', cassette, target: 'fake-provider' });
+    const replayed = buildRequest('2026-06-30T12:34:56.789Z');
+    const replayExecutor = vi.fn(async () => 'sent');
+
+    const replayedEvents = await collect(replayProvider.chatStream(replayed.messages, { system: replayed.system }));
+    expect(replayedEvents).toEqual(events);
+
+    const replayedDone = replayedEvents.find(e => e.type === 'done') as { message: unknown };
+    await expect(
+      replayProvider.handleToolUse(replayedDone.message, replayed.messages, replayExecutor, { system: replayed.system })
+    ).resolves.toBe('final answer');
+    expect(replayExecutor).toHaveBeenCalledWith('send_message', { content: 'hi' });
+    expect(target.chatStream).toHaveBeenCalledTimes(1);
+    expect(target.handleToolUse).toHaveBeenCalledTimes(1);
+    expect(replayProvider.getModel()).toBe('fake-model');
+  });
+
+  it('matches hand-written interactions by prompt', async () => {
+    await fs.writeFile(cassette, JSON.stringify({
+      version: 1,
+      interactions: [
+        { kind: 'chat', prompt: 'hello replay', handWritten: true, response: { text: 'first' } },
+        { kind: 'chat', prompt: 'hello replay', handWritten: true, response: { text: 'second' } },
+        { kind: 'stream', key: 'stale-key', prompt: 'hello replay', events: [] },
+      ],
+    }));
+    await replayProvider.init!({ mode: 'replay', cassette });
+    const { messages } = buildRequest('2026-01-01T00:00:00.000Z');
+
+    await expect(replayProvider.chat(messages)).resolves.toEqual({ text: 'first' });
+    await expect(replayProvider.chat(messages)).resolves.toEqual({ text: 'second' });
+    // 超出录制次数时重复最后一条
+    await expect(replayProvider.chat(messages)).resolves.toEqual({ text: 'second' });
+    // 录制条目（未标记 handWritten）只按哈希匹配
+    await expect(collect(replayProvider.chatStream(messages))).rejects.toThrow('回放磁带中没有匹配的录制');
+  });
+
+  it('fails clearly when nothing matches in replay mode', async () => {
+    await replayProvider.init!({ mode: 'replay', cassette });
+    await expect(replayProvider.chat([{ role: 'user', content: 'unknown' }])).rejects.toThrow('回放磁带中没有匹配的录制');
+    expect(target.chat).not.toHaveBeenCalled();
+  });
+
+  it('records only missing interactions in auto mode', async () => {
+    await replayProvider.init!({ mode: 'auto', cassette, target: 'fake-provider' });
+    const { messages } = buildRequest('2026-01-01T00:00:00.000Z');
+
+    await replayProvider.chat(messages);
+    await replayProvider.chat(messages);
+
+    expect(target.chat).toHaveBeenCalledTimes(1);
+  });
+
+  it('never matches by prompt in auto mode', async () => {
+    await fs.writeFile(cassette, JSON.stringify({
+      version: 1,
+      interactions: [{ kind: 'chat', prompt: 'hello replay', handWritten: true, response: { text: 'hand-written' } }],
+    }));
+    await replayProvider.init!({ mode: 'auto', cassette, target: 'fake-provider' });
+    const { messages } = buildRequest('2026-01-01T00:00:00.000Z');
+
+    await expect(replayProvider.chat(messages)).resolves.toEqual({ text: 'chat response' });
+    expect(target.chat).toHaveBeenCalledTimes(1);
+  });
+
+  it('stays disabled unless selected as AI_PROVIDER', async () => {
+    process.env.AI_PROVIDER = 'anthropic-provider';
+    await expect(replayProvider.init!({ mode: 'replay', cassette })).rejects.toThrow('AI_PROVIDER=replay-provider');
+  });
+});
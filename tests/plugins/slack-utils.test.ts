@@ -0,0 +1,52 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  MAX_TEXT_LENGTH,
+  approvalCommand,
+  buildChatId,
+  chunkText,
+  normalizeSlackText,
+  parseChatId,
+  parseMessageId,
+} from '../../community-plugins/slack/slack-utils.js';
+
+describe('slack utils', () => {
+  it('maps channels and threads to chat IDs', () => {
+    expect(parseChatId('C123')).toEqual({ channel: 'C123', threadTs: undefined });
+    expect(parseChatId('C123:1700000000.000100')).toEqual({ channel: 'C123', threadTs: '1700000000.000100' });
+    expect(buildChatId('C123', '1700000000.000100')).toBe('C123:1700000000.000100');
+    expect(buildChatId('C123')).toBe('C123');
+    expect(parseChatId(buildChatId('D456', '1.2'))).toEqual({ channel: 'D456', threadTs: '1.2' });
+  });
+
+  it('parses channel:ts message IDs', () => {
+    expect(parseMessageId('C123:1700000000.000100')).toEqual({ channel: 'C123', ts: '1700000000.000100' });
+    expect(parseMessageId('C123')).toBeNull();
+    expect(parseMessageId('C123:1:2')).toBeNull();
+  });
+
+  it('strips the bot mention and names other users', async () => {
+    const getUserName = vi.fn(async (id: string) => ({ U2: '张三' }[id] ?? id));
+
+    const result = await normalizeSlackText('<@UBOT> 问一下 <@U2|zhang> 和 <@U2> 在 <#C9|general>', 'UBOT', getUserName);
+    expect(result).toEqual({ text: '问一下 @张三 和 @张三 在 #general', mentioned: true });
+    expect(getUserName).toHaveBeenCalledTimes(1);
+
+    const plain = await normalizeSlackText('<!here> 看 <https://example.com|链接> &lt;b&gt; &amp;', 'UBOT', getUserName);
+    expect(plain).toEqual({ text: '@here 看 https://example.com <b> &', mentioned: false });
+  });
+
+  it('chunks long messages to the Slack limit', () => {
+    const text = `${'a'.repeat(3000)}\n${'b'.repeat(3000)}`;
+    const chunks = chunkText(text);
+    expect(chunks).toEqual(['a'.repeat(3000), 'b'.repeat(3000)]);
+    expect(chunkText('x'.repeat(MAX_TEXT_LENGTH * 2 + 1)).map(c => c.length)).toEqual([MAX_TEXT_LENGTH, MAX_TEXT_LENGTH, 1]);
+    expect(chunkText('短消息')).toEqual(['短消息']);
+  });
+
+  it('turns approval buttons into commands', () => {
+    expect(approvalCommand('approve', 'abc123')).toBe('/approve abc123');
+    expect(approvalCommand('deny', 'abc123')).toBe('/deny abc123');
+    expect(approvalCommand('approve', undefined)).toBeNull();
+    expect(approvalCommand('other', 'abc123')).toBeNull();
+  });
+});
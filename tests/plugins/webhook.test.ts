@@ -0,0 +1,164 @@
+import http from 'http';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { Message } from '../../src/plugins/types.js';
+import plugin, { signWebhook, webhookChatId, type WebhookReply } from '../../community-plugins/webhook/index.js';
+
+const CI_SECRET = 'ci-secret';
+const MONITOR_SECRET = 'monitor-secret';
+const PIPELINE_CHAT = webhookChatId('ci', 'pipeline-7');
+
+interface Callback {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+let callbackServer: http.Server;
+let callbacks: Callback[];
+let callbackStatus: number;
+let received: Message[];
+
+function baseUrl(): string {
+  return `http://127.0.0.1:${plugin._port}`;
+}
+
+async function post(path: string, payload: unknown, secret: string, timestamp = Math.floor(Date.now() / 1000)) {
+  const body = JSON.stringify(payload);
+  const ts = String(timestamp);
+  const response = await fetch(`${baseUrl()}${path}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-FlashClaw-Timestamp': ts,
+      'X-FlashClaw-Signature': signWebhook(secret, ts, body),
+    },
+    body,
+  });
+  return { status: response.status, data: await response.json() as Record<string, unknown> };
+}
+
+beforeEach(async () => {
+  callbacks = [];
+  callbackStatus = 200;
+  received = [];
+
+  // 本地 HTTP 替身，模拟 CI 系统的回调接收端
+  callbackServer = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      callbacks.push({ headers: req.headers, body });
+      res.writeHead(callbackStatus);
+      res.end();
+    });
+  });
+  await new Promise<void>(resolve => callbackServer.listen(0, '127.0.0.1', resolve));
+  const { port } = callbackServer.address() as { port: number };
+
+  await plugin.init({
+    port: 0,
+    sources: JSON.stringify({
+      sources: {
+        ci: { secret: CI_SECRET, callbackUrl: `http://127.0.0.1:${port}/reply` },
+        monitor: { secret: MONITOR_SECRET },
+        'bad.name': { secret: 'x' },
+      },
+    }),
+  });
+  plugin.onMessage(async (msg) => { received.push(msg); });
+  await plugin.start();
+});
+
+afterEach(async () => {
+  await plugin.stop();
+  await new Promise<void>(resolve => callbackServer.close(() => resolve()));
+});
+
+describe('webhook 渠道', () => {
+  it('接收签名正确的消息并转换为 Message', async () => {
+    const result = await post('/webhook/ci', { id: 'build-42', text: '构建失败了，帮我看看日志', conversation: 'pipeline-7', sender: { id: 'jenkins', name: 'Jenkins' } }, CI_SECRET);
+
+    expect(result.status).toBe(202);
+    expect(result.data).toEqual({ accepted: true, messageId: 'wh-ci-build-42', chatId: PIPELINE_CHAT });
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+    expect(received[0]).toMatchObject({
+      id: 'wh-ci-build-42',
+      chatId: PIPELINE_CHAT,
+      senderId: 'jenkins',
+      senderName: 'Jenkins',
+      content: '构建失败了，帮我看看日志',
+      chatType: 'p2p',
+      platform: 'webhook',
+    });
+
+    // 相同 id 重复投递只处理一次
+    const duplicate = await post('/webhook/ci', { id: 'build-42', text: '构建失败了，帮我看看日志' }, CI_SECRET);
+    expect(duplicate.data).toMatchObject({ accepted: false, duplicate: true });
+    expect(received).toHaveLength(1);
+
+    // 没有 id 的请求被原样重放（签名相同）也只处理一次
+    const timestamp = Math.floor(Date.now() / 1000);
+    expect((await post('/webhook/ci', { text: '部署完成' }, CI_SECRET, timestamp)).status).toBe(202);
+    expect((await post('/webhook/ci', { text: '部署完成' }, CI_SECRET, timestamp)).data).toMatchObject({ duplicate: true });
+    await vi.waitFor(() => expect(received).toHaveLength(2));
+  });
+
+  it('chatId 带短哈希，末 8 位不会因会话 ID 相同而冲突', () => {
+    expect(PIPELINE_CHAT).toMatch(/^webhook\.ci\.pipeline-7\.[0-9a-f]{8}$/);
+    expect(webhookChatId('ci').slice(-8)).not.toBe(webhookChatId('monitor').slice(-8));
+    expect(webhookChatId('ci', 'shared-id').slice(-8)).not.toBe(webhookChatId('monitor', 'shared-id').slice(-8));
+  });
+
+  it('拒绝签名错误、过期或来源未知的请求', async () => {
+    expect((await post('/webhook/ci', { text: 'hi' }, MONITOR_SECRET)).status).toBe(401);
+    expect((await post('/webhook/ci', { text: 'hi' }, CI_SECRET, Math.floor(Date.now() / 1000) - 3600)).status).toBe(401);
+    expect((await post('/webhook/unknown', { text: 'hi' }, CI_SECRET)).status).toBe(404);
+    expect((await post('/webhook/bad.name', { text: 'hi' }, 'x')).status).toBe(404);
+    expect((await post('/webhook/ci', { text: '' }, CI_SECRET)).status).toBe(400);
+    expect((await post('/webhook/ci', { text: 'hi', conversation: '../etc' }, CI_SECRET)).status).toBe(400);
+
+    const unsigned = await fetch(`${baseUrl()}/webhook/ci`, { method: 'POST', body: '{"text":"hi"}' });
+    expect(unsigned.status).toBe(401);
+    expect(received).toHaveLength(0);
+  });
+
+  it('把回复签名后 POST 到来源的回调地址', async () => {
+    const sent = await plugin.sendMessage(PIPELINE_CHAT, 'FlashClaw: 正在思考...');
+    expect(sent.success).toBe(true);
+    expect(callbacks).toHaveLength(1);
+
+    const { headers, body } = callbacks[0];
+    expect(headers['x-flashclaw-signature']).toBe(signWebhook(CI_SECRET, headers['x-flashclaw-timestamp'] as string, body));
+    const reply = JSON.parse(body) as WebhookReply;
+    expect(reply).toMatchObject({ id: sent.messageId, source: 'ci', conversation: 'pipeline-7', chatId: PIPELINE_CHAT, text: 'FlashClaw: 正在思考...' });
+
+    // 更新已回调的回复时发出替换它的新回复
+    await plugin.updateMessage(sent.messageId!, 'FlashClaw: 是依赖安装超时');
+    expect(JSON.parse(callbacks[1].body)).toMatchObject({ text: 'FlashClaw: 是依赖安装超时', replaces: sent.messageId });
+
+    callbackStatus = 500;
+    const failed = await plugin.sendMessage(PIPELINE_CHAT, '再试一次');
+    expect(failed).toMatchObject({ success: false, error: '回调返回 HTTP 500' });
+
+    // 其他渠道的会话、哈希不匹配的 chatId 不归 webhook 处理
+    expect((await plugin.sendMessage('oc_123456', 'hi')).success).toBe(false);
+    expect((await plugin.sendMessage('webhook.ci.pipeline-7', 'hi')).success).toBe(false);
+    await expect(plugin.updateMessage('unknown-id', 'hi')).rejects.toThrow();
+  });
+
+  it('没有回调地址时暂存回复，由轮询取走', async () => {
+    const placeholder = await plugin.sendMessage(webhookChatId('monitor', 'alert-1'), 'FlashClaw: 正在思考...');
+    await plugin.updateMessage(placeholder.messageId!, 'FlashClaw: 磁盘使用率已恢复');
+    await plugin.sendMessage(webhookChatId('monitor'), 'FlashClaw: 今日无告警');
+
+    const first = await post('/webhook/monitor/poll', { conversation: 'alert-1' }, MONITOR_SECRET);
+    expect(first.status).toBe(200);
+    expect((first.data.replies as WebhookReply[]).map(r => r.text)).toEqual(['FlashClaw: 磁盘使用率已恢复']);
+
+    const rest = await post('/webhook/monitor/poll', {}, MONITOR_SECRET);
+    expect((rest.data.replies as WebhookReply[]).map(r => r.chatId)).toEqual([webhookChatId('monitor')]);
+    expect((await post('/webhook/monitor/poll', {}, MONITOR_SECRET)).data.replies).toEqual([]);
+
+    // 轮询同样需要签名
+    expect((await post('/webhook/monitor/poll', {}, CI_SECRET)).status).toBe(401);
+  });
+});
@@ -0,0 +1,74 @@
+import { createCipheriv } from 'crypto';
+import { describe, it, expect } from 'vitest';
+import { WeComCrypto, parseXmlFields, splitUtf8 } from '../../community-plugins/wecom/wecom-utils.js';
+
+const TOKEN = 'QDG6eK';
+const AES_KEY = 'jWmYm7qr5nMoAUwZRjGtBxmz3KA1tkAj3ykkR6q2B2C';
+const CORP_ID = 'wx5823bf96d3bd56c7';
+
+describe('wecom callback crypto', () => {
+  it('round-trips messages and checks the receive id', () => {
+    const crypto = new WeComCrypto(TOKEN, AES_KEY, CORP_ID);
+    const xml = '<xml><Content><![CDATA[你好，FlashClaw]]></Content></xml>';
+    const encrypted = crypto.encrypt(xml);
+
+    expect(crypto.decrypt(encrypted)).toBe(xml);
+    expect(() => new WeComCrypto(TOKEN, AES_KEY, 'another-corp').decrypt(encrypted)).toThrow('receiveId');
+    expect(() => new WeComCrypto(TOKEN, 'short')).toThrow('43');
+  });
+
+  it('verifies msg_signature', () => {
+    const crypto = new WeComCrypto(TOKEN, AES_KEY, CORP_ID);
+    const encrypted = crypto.encrypt('echo');
+    const signature = crypto.signature('1409659813', '1372623149', encrypted);
+
+    expect(signature).toMatch(/^[0-9a-f]{40}$/);
+    expect(crypto.verify(signature, '1409659813', '1372623149', encrypted)).toBe(true);
+    expect(crypto.verify(signature, '1409659814', '1372623149', encrypted)).toBe(false);
+    expect(crypto.verify('', '1409659813', '1372623149', encrypted)).toBe(false);
+    expect(crypto.verify(signature.slice(0, 39), '1409659813', '1372623149', encrypted)).toBe(false);
+  });
+
+  it('decrypts bot media content', () => {
+    const key = Buffer.from(`${AES_KEY}=`, 'base64');
+    const image = Buffer.from('fake-png-bytes');
+    const pad = 32 - (image.length % 32);
+    const cipher = createCipheriv('aes-256-cbc', key, key.subarray(0, 16));
+    cipher.setAutoPadding(false);
+    const encrypted = Buffer.concat([cipher.update(Buffer.concat([image, Buffer.alloc(pad, pad)])), cipher.final()]);
+
+    expect(new WeComCrypto(TOKEN, AES_KEY).decryptMedia(encrypted).equals(image)).toBe(true);
+  });
+});
+
+describe('wecom helpers', () => {
+  it('parses callback xml fields', () => {
+    const fields = parseXmlFields(
+      '<xml><ToUserName><![CDATA[ww123]]></ToUserName><FromUserName><![CDATA[zhangsan]]></FromUserName>'
+      + '<CreateTime>1348831860</CreateTime><MsgType><![CDATA[text]]></MsgType>'
+      + '<Content><![CDATA[a < b & c]]></Content><MsgId>1234567890123456</MsgId><AgentID>1</AgentID></xml>',
+    );
+    expect(fields).toMatchObject({
+      FromUserName: 'zhangsan',
+      CreateTime: '1348831860',
+      MsgType: 'text',
+      Content: 'a < b & c',
+      MsgId: '1234567890123456',
+    });
+  });
+
+  it('splits text by utf-8 bytes', () => {
+    expect(splitUtf8('short', 2048)).toEqual(['short']);
+
+    const chinese = '中'.repeat(1000);
+    const chunks = splitUtf8(chinese, 2048);
+    expect(chunks.every(chunk => Buffer.byteLength(chunk) <= 2048)).toBe(true);
+    expect(chunks.join('')).toBe(chinese);
+
+    const lines = Array.from({ length: 50 }, (_, i) => `第 ${i} 行内容`).join('\n');
+    const byLine = splitUtf8(lines, 200);
+    expect(byLine.every(chunk => Buffer.byteLength(chunk) <= 200)).toBe(true);
+    expect(byLine.every(chunk => chunk.endsWith('行内容'))).toBe(true);
+    expect(byLine.join('\n')).toBe(lines);
+  });
+});
@@ -0,0 +1,163 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import type { AIProviderPlugin, StreamEvent } from '../src/plugins/types.js';
+
+vi.mock('../src/plugins/manager.js', () => ({
+  pluginManager: {
+    getProvider: vi.fn(),
+    getProviderByName: vi.fn(),
+    getActiveTools: vi.fn(() => []),
+    getTool: vi.fn(),
+    getToolPolicy: vi.fn(),
+  },
+}));
+
+function createProvider(name: string, model: string, fail?: string): AIProviderPlugin {
+  return {
+    name,
+    version: '1.0.0',
+    chat: vi.fn(),
+    chatStream: vi.fn(async function* (): AsyncGenerator<StreamEvent> {
+      if (fail) throw new Error(fail);
+      yield { type: 'text', text: `hi from ${name}` };
+      yield { type: 'done', message: { stop_reason: 'end_turn', usage: { input_tokens: 1, output_tokens: 1 } } };
+    }),
+    handleToolUse: vi.fn(),
+    getModel: () => model,
+    setModel: vi.fn(),
+  };
+}
+
+describe('provider-router', () => {
+  let tempDir = '';
+  let providers: Record<string, AIProviderPlugin> = {};
+
+  async function writeProvidersConfig(config: unknown): Promise<void> {
+    await fs.mkdir(join(tempDir, 'config'), { recursive: true });
+    await fs.writeFile(join(tempDir, 'config', 'providers.json'), JSON.stringify(config));
+  }
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), 'flashclaw-router-'));
+    process.env.FLASHCLAW_HOME = tempDir;
+    providers = {
+      'anthropic-provider': createProvider('anthropic-provider', 'claude-sonnet-4-20250514'),
+      'openai-provider': createProvider('openai-provider', 'gpt-4o-mini'),
+    };
+
+    const { pluginManager } = await import('../src/plugins/manager.js');
+    (pluginManager.getProvider as ReturnType<typeof vi.fn>).mockImplementation(() => providers['anthropic-provider']);
+    (pluginManager.getProviderByName as ReturnType<typeof vi.fn>).mockImplementation((name: string) => providers[name] ?? null);
+  });
+
+  afterEach(async () => {
+    global.__flashclaw_memory_manager = undefined;
+    await fs.rm(tempDir, { recursive: true, force: true });
+    delete process.env.FLASHCLAW_HOME;
+    delete process.env.AI_PROVIDER_FALLBACK;
+    vi.clearAllMocks();
+  });
+
+  it('parses provider, provider/model and bare model specs', async () => {
+    const { parseProviderSpec } = await import('../src/provider-router.js');
+
+    expect(parseProviderSpec('openai-provider')).toEqual({ provider: 'openai-provider' });
+    expect(parseProviderSpec('openai-provider/qwen2.5:7b')).toEqual({ provider: 'openai-provider', model: 'qwen2.5:7b' });
+    expect(parseProviderSpec('claude-haiku-4-5')).toEqual({ provider: 'anthropic-provider', model: 'claude-haiku-4-5' });
+    expect(parseProviderSpec('meta-llama/llama-3')).toEqual({ provider: 'anthropic-provider', model: 'meta-llama/llama-3' });
+  });
+
+  it('uses the default provider with env fallback chain', async () => {
+    const { resolveProviderChain } = await import('../src/provider-router.js');
+    process.env.AI_PROVIDER_FALLBACK = 'openai-provider/gpt-4o, missing-provider/x, anthropic-provider';
+
+    const chain = resolveProviderChain({ group: 'main' });
+    expect(chain.map(c => [c.provider.name, c.model, c.source])).toEqual([
+      ['anthropic-provider', undefined, 'default'],
+      ['openai-provider', 'gpt-4o', 'fallback'],
+    ]);
+  });
+
+  it('applies the first matching route before the agent model', async () => {
+    const { resolveProviderChain } = await import('../src/provider-router.js');
+    await writeProvidersConfig({
+      fallback: [{ provider: 'anthropic-provider' }],
+      routes: [
+        { group: 'work-*', intent: 'web', provider: 'openai-provider', model: 'gpt-4o' },
+        { channel: 'feishu', model: 'claude-haiku-4-5' },
+      ],
+    });
+
+    const routed = resolveProviderChain({ group: 'work-team', intent: 'web', agentModel: 'openai-provider' });
+    expect(routed.map(c => [c.provider.name, c.model, c.source])).toEqual([
+      ['openai-provider', 'gpt-4o', 'route'],
+      ['anthropic-provider', undefined, 'fallback'],
+    ]);
+
+    const byChannel = resolveProviderChain({ group: 'main', channel: 'feishu' });
+    expect(byChannel[0]).toMatchObject({ model: 'claude-haiku-4-5', source: 'route' });
+
+    const byAgent = resolveProviderChain({ group: 'work-team', intent: 'memory-save', agentModel: 'openai-provider/gpt-4.1' });
+    expect(byAgent[0]).toMatchObject({ model: 'gpt-4.1', source: 'agent' });
+    expect(byAgent[0].provider.name).toBe('openai-provider');
+  });
+
+  it('puts an explicit model override ahead of routes', async () => {
+    const { resolveProviderChain } = await import('../src/provider-router.js');
+    await writeProvidersConfig({
+      routes: [{ group: 'work-*', provider: 'anthropic-provider', model: 'claude-haiku-4-5' }],
+    });
+
+    const chain = resolveProviderChain({ group: 'work-team', modelOverride: 'openai-provider/qwen2.5:7b' });
+    expect(chain.map(c => [c.provider.name, c.model, c.source])).toEqual([
+      ['openai-provider', 'qwen2.5:7b', 'override'],
+    ]);
+
+    // 只写模型名时使用默认 provider
+    const bare = resolveProviderChain({ group: 'work-team', modelOverride: 'claude-haiku-4-5' });
+    expect(bare[0]).toMatchObject({ model: 'claude-haiku-4-5', source: 'override' });
+    expect(bare[0].provider.name).toBe('anthropic-provider');
+  });
+
+  it('runAgent switches to the fallback provider on non-retryable errors', async () => {
+    const { MemoryManager } = await import('../src/core/memory.js');
+    const { runAgent } = await import('../src/agent-runner.js');
+    global.__flashclaw_memory_manager = new MemoryManager({ memoryDir: join(tempDir, 'memory') });
+    providers['anthropic-provider'] = createProvider('anthropic-provider', 'claude-sonnet-4-20250514', 'invalid x-api-key');
+    process.env.AI_PROVIDER_FALLBACK = 'openai-provider';
+
+    const output = await runAgent(
+      { name: 'main', folder: 'main', trigger: '@bot', added_at: '2026-01-01T00:00:00.000Z' },
+      { prompt: 'hello', groupFolder: 'main', chatJid: 'chat-1', isMain: true }
+    );
+
+    expect(output.status).toBe('success');
+    expect(output.result).toBe('hi from openai-provider');
+    expect(output.metrics).toMatchObject({ provider: 'openai-provider', model: 'gpt-4o-mini' });
+    expect(providers['anthropic-provider'].chatStream).toHaveBeenCalledTimes(1);
+  });
+
+  it('runAgent records the user message once across provider fallbacks', async () => {
+    const { MemoryManager } = await import('../src/core/memory.js');
+    const { runAgent } = await import('../src/agent-runner.js');
+    const memory = new MemoryManager({ memoryDir: join(tempDir, 'memory') });
+    global.__flashclaw_memory_manager = memory;
+    memory.addMessage('main', { role: 'user', content: 'earlier question' });
+    memory.addMessage('main', { role: 'assistant', content: 'earlier answer' });
+    providers['anthropic-provider'] = createProvider('anthropic-provider', 'claude-sonnet-4-20250514', 'invalid x-api-key');
+    process.env.AI_PROVIDER_FALLBACK = 'openai-provider';
+
+    await runAgent(
+      { name: 'main', folder: 'main', trigger: '@bot', added_at: '2026-01-01T00:00:00.000Z' },
+      { prompt: 'hello', groupFolder: 'main', chatJid: 'chat-1', isMain: true }
+    );
+
+    const sent = vi.mocked(providers['openai-provider'].chatStream).mock.calls[0][0];
+    expect(sent.map(m => m.content)).toEqual(['earlier question', 'earlier answer', 'hello']);
+    expect(memory.getContext('main').map(m => m.content)).toEqual([
+      'earlier question', 'earlier answer', 'hello', 'hi from openai-provider',
+    ]);
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import type { AIProviderPlugin, StreamEvent } from '../src/plugins/types.js';
+
+vi.mock('../src/plugins/manager.js', () => ({
+  pluginManager: {
+    getProvider: vi.fn(),
+    getProviderByName: vi.fn(),
+    getActiveTools: vi.fn(() => []),
+    getTool: vi.fn(),
+    getToolPolicy: vi.fn(),
+  },
+}));
+
+describe('run-trace', () => {
+  let tempDir = '';
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), 'flashclaw-trace-'));
+    process.env.FLASHCLAW_HOME = tempDir;
+    const { initDatabase } = await import('../src/db.js');
+    initDatabase();
+  });
+
+  afterEach(async () => {
+    global.__flashclaw_memory_manager = undefined;
+    global.__flashclaw_db?.close();
+    global.__flashclaw_db = undefined;
+    await fs.rm(tempDir, { recursive: true, force: true });
+    delete process.env.FLASHCLAW_HOME;
+  });
+
+  const baseInfo = {
+    chatJid: 'chat-1',
+    groupFolder: 'main',
+    agentId: 'main',
+    model: 'claude-test',
+    systemPrompt: 'You are FlashClaw',
+    messages: [{ role: 'user', content: 'hi' }],
+  };
+
+  it('persists run with merged stream events and tool calls', async () => {
+    const { RunTracer, hashSystemPrompt } = await import('../src/run-trace.js');
+    const { getAgentRun, getAgentRunEvents } = await import('../src/db.js');
+
+    const tracer = new RunTracer(baseInfo);
+    tracer.recordStreamEvent({ type: 'thinking', text: 'let me ' });
+    tracer.recordStreamEvent({ type: 'thinking', text: 'think' });
+    tracer.recordStreamEvent({ type: 'text', text: 'Hel' });
+    tracer.recordStreamEvent({ type: 'text', text: 'lo' });
+    tracer.recordStreamEvent({ type: 'tool_use', id: 't1', name: 'memory', input: { key: 'a' } });
+    tracer.recordToolCall('memory', { key: 'a' }, 'value', false, 12);
+    tracer.recordStreamEvent({ type: 'done', message: { stop_reason: 'tool_use' } });
+    tracer.finish({ status: 'success', result: 'Hello', usage: { inputTokens: 10, outputTokens: 5 } });
+
+    const run = getAgentRun(tracer.runId)!;
+    expect(run.status).toBe('success');
+    expect(run.agent_id).toBe('main');
+    expect(run.system_prompt_hash).toBe(hashSystemPrompt('You are FlashClaw'));
+    expect(JSON.parse(run.messages!)).toEqual(baseInfo.messages);
+    expect(run.input_tokens).toBe(10);
+    expect(run.output_tokens).toBe(5);
+    expect(run.duration_ms).toBeGreaterThanOrEqual(0);
+
+    const events = getAgentRunEvents(tracer.runId);
+    expect(events.map(e => e.type)).toEqual(['thinking', 'text', 'tool_use', 'tool_call', 'done']);
+    expect(events.map(e => e.seq)).toEqual([0, 1, 2, 3, 4]);
+    expect(JSON.parse(events[1].data!)).toBe('Hello');
+    expect(JSON.parse(events[2].data!)).toEqual({ id: 't1', name: 'memory', input: { key: 'a' } });
+    expect(JSON.parse(events[3].data!)).toMatchObject({ name: 'memory', output: 'value', isError: false, durationMs: 12 });
+  });
+
+  it('records stream events from follow-up tool turns of a run', async () => {
+    const { pluginManager } = await import('../src/plugins/manager.js');
+    const { MemoryManager } = await import('../src/core/memory.js');
+    const { runAgent } = await import('../src/agent-runner.js');
+    const { getAgentRunEvents } = await import('../src/db.js');
+    global.__flashclaw_memory_manager = new MemoryManager({ memoryDir: join(tempDir, 'memory') });
+
+    const provider: AIProviderPlugin = {
+      name: 'anthropic-provider',
+      version: '1.0.0',
+      description: 'test',
+      chat: vi.fn(),
+      chatStream: vi.fn(async function* (): AsyncGenerator<StreamEvent> {
+        yield { type: 'text', text: '我先查一下' };
+        yield { type: 'tool_use', id: 't1', name: 'web_search', input: { q: '天气' } };
+        yield { type: 'done', message: { stop_reason: 'tool_use', content: [], usage: { input_tokens: 10, output_tokens: 5 } } };
+      }),
+      // 第二轮通过 onEvent 回报
+      handleToolUse: vi.fn(async (...args: Parameters<AIProviderPlugin['handleToolUse']>) => {
+        const onEvent = args[5];
+        onEvent?.({ type: 'text', text: '明天晴' });
+        onEvent?.({ type: 'done', message: { stop_reason: 'end_turn', usage: { input_tokens: 20, output_tokens: 8 } } });
+        return '明天晴';
+      }),
+      getModel: () => 'claude-test',
+      setModel: vi.fn(),
+    };
+    vi.mocked(pluginManager.getProvider).mockReturnValue(provider);
+
+    const output = await runAgent(
+      { name: 'main', folder: 'main', trigger: '@bot', added_at: '2026-01-01T00:00:00.000Z' },
+      { prompt: '明天天气', groupFolder: 'main', chatJid: 'chat-1', isMain: true }
+    );
+
+    const events = getAgentRunEvents(output.metrics!.runId!);
+    expect(events.map(e => e.type)).toEqual(['text', 'tool_use', 'done', 'text', 'done']);
+    expect(JSON.parse(events[3].data!)).toBe('明天晴');
+    expect(JSON.parse(events[4].data!)).toMatchObject({ stop_reason: 'end_turn' });
+  });
+
+  it('records errors and strips image data from messages', async () => {
+    const { RunTracer } = await import('../src/run-trace.js');
+    const { getAgentRun } = await import('../src/db.js');
+
+    const tracer = new RunTracer({
+      ...baseInfo,
+      messages: [{ role: 'user', content: [{ type: 'image', source: { type: 'base64', data: 'A'.repeat(5000) } }] }],
+    });
+    tracer.finish({ status: 'error', error: 'boom' });
+    tracer.finish({ status: 'success', result: 'ignored' });
+
+    const run = getAgentRun(tracer.runId)!;
+    expect(run.status).toBe('error');
+    expect(run.error).toBe('boom');
+    expect(run.messages).toContain('[base64 5000 chars]');
+    expect(run.messages).not.toContain('AAAA');
+  });
+
+  it('is a no-op when disabled', async () => {
+    const { RunTracer } = await import('../src/run-trace.js');
+    const { getAgentRun } = await import('../src/db.js');
+
+    const tracer = new RunTracer(baseInfo, false);
+    tracer.recordStreamEvent({ type: 'text', text: 'hi' });
+    tracer.finish({ status: 'success', result: 'hi' });
+
+    expect(tracer.enabled).toBe(false);
+    expect(getAgentRun(tracer.runId)).toBeUndefined();
+  });
+
+  it('finds runs by id fragment and prunes old runs', async () => {
+    const { RunTracer, pruneRunTraces } = await import('../src/run-trace.js');
+    const { findAgentRuns, getAgentRunEvents, getRecentAgentRuns } = await import('../src/db.js');
+
+    const tracer = new RunTracer(baseInfo);
+    tracer.recordStreamEvent({ type: 'text', text: 'hi' });
+    tracer.finish({ status: 'success', result: 'hi' });
+
+    expect(findAgentRuns(tracer.runId.slice(-6)).map(r => r.id)).toEqual([tracer.runId]);
+    expect(findAgentRuns('%')).toHaveLength(0);
+    expect(getRecentAgentRuns(10, 'other-chat')).toHaveLength(0);
+
+    global.__flashclaw_db!.prepare('UPDATE agent_runs SET started_at = ?').run('2000-01-01T00:00:00.000Z');
+    expect(pruneRunTraces(14)).toBe(1);
+    expect(getRecentAgentRuns()).toHaveLength(0);
+    expect(getAgentRunEvents(tracer.runId)).toHaveLength(0);
+  });
+});
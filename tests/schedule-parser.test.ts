@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { parseSchedule, parseDuration, previewRuns } from '../src/schedule-parser.js';
+import { handleCommand } from '../src/commands.js';
+
+// 2026-10-19 是周一，上海时间 10:00
+const options = { now: new Date('2026-10-19T02:00:00.000Z'), timezone: 'Asia/Shanghai' };
+
+function parse(text: string) {
+  const { schedule, error } = parseSchedule(text, options);
+  if (!schedule) throw new Error(error);
+  return schedule;
+}
+
+describe('schedule-parser', () => {
+  it('parses one-off Chinese and English times in the configured timezone', () => {
+    expect(parse('明天早上9点')).toMatchObject({ type: 'once', value: '2026-10-20T01:00:00.000Z' });
+    expect(parse('3 小时后').value).toBe('2026-10-19T05:00:00.000Z');
+    expect(parse('1个半小时后').value).toBe('2026-10-19T03:30:00.000Z');
+    expect(parse('in 10 minutes').value).toBe('2026-10-19T02:10:00.000Z');
+    expect(parse('tomorrow at 5pm').value).toBe('2026-10-20T09:00:00.000Z');
+    expect(parse('周三十点').value).toBe('2026-10-21T02:00:00.000Z');
+    expect(parse('下周一下午两点半').value).toBe('2026-10-26T06:30:00.000Z');
+    expect(parse('晚上12点').value).toBe('2026-10-19T16:00:00.000Z');
+    // 今天已过的时间顺延到明天
+    expect(parse('早上8点').value).toBe('2026-10-20T00:00:00.000Z');
+    expect(parse('2026-12-31 9:00').value).toBe('2026-12-31T01:00:00.000Z');
+  });
+
+  it('parses recurring descriptions into cron or interval specs', () => {
+    expect(parse('每周一下午三点')).toMatchObject({ type: 'cron', value: '0 15 * * 1', firstRun: '2026-10-19T07:00:00.000Z' });
+    expect(parse('每个工作日上午9:30').value).toBe('30 9 * * 1,2,3,4,5');
+    expect(parse('每月十五号中午12点').value).toBe('0 12 15 * *');
+    expect(parse('every day at 8am').value).toBe('0 8 * * *');
+    expect(parse('每隔2小时')).toMatchObject({ type: 'interval', value: '7200000', firstRun: '2026-10-19T04:00:00.000Z' });
+
+    const biweekly = parse('every other Friday at 5pm');
+    expect(biweekly).toMatchObject({ type: 'interval', value: String(14 * 24 * 3600 * 1000), firstRun: '2026-10-23T09:00:00.000Z' });
+    expect(previewRuns(biweekly, 2, options).map(d => d.toISOString())).toEqual(['2026-10-23T09:00:00.000Z', '2026-11-06T09:00:00.000Z']);
+    expect(previewRuns(parse('每周一下午三点'), 2, options).map(d => d.toISOString()))
+      .toEqual(['2026-10-19T07:00:00.000Z', '2026-10-26T07:00:00.000Z']);
+  });
+
+  it('rejects past and unrecognised descriptions', () => {
+    expect(parseSchedule('2026-01-01 9:00', options).error).toContain('时间已过');
+    expect(parseSchedule('找个时间', options).error).toContain('无法识别');
+    expect(parseSchedule('每隔一阵子', options).error).toContain('无法识别');
+  });
+
+  it('rejects invalid times instead of falling back to 9:00', () => {
+    for (const text of ['明天25点', 'next monday at 7:61', '每周一 99:99', 'every day at 25:00', '今天 24:30', 'tomorrow at 13pm']) {
+      const result = parseSchedule(text, options);
+      expect(result.schedule).toBeUndefined();
+      expect(result.error).toContain('无效的时间');
+    }
+    expect(parseSchedule('明天24点', options).schedule).toBeDefined();
+  });
+
+  it('parses durations', () => {
+    expect(parseDuration('30分钟')).toBe(1800000);
+    expect(parseDuration('2h')).toBe(7200000);
+    expect(parseDuration('半小时')).toBe(1800000);
+    expect(parseDuration('明天')).toBeNull();
+  });
+
+  it('previews descriptions with /tasks preview', () => {
+    const context = { chatId: 'chat-1', userId: 'u1', userName: 'Alice', platform: 'feishu' };
+    const preview = handleCommand('/tasks preview 每天早上8点', context).response!;
+    expect(preview).toContain('时间预览');
+    expect(preview).toContain('0 8 * * *');
+    expect(preview).toContain('接下来 3 次');
+
+    expect(handleCommand('/tasks preview 找个时间', context).response).toContain('无法识别');
+    expect(handleCommand('/tasks preview', context).response).toContain('用法');
+  });
+});
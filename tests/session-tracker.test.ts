@@ -18,6 +18,8 @@ describe('session-tracker', () => {
 
   afterEach(async () => {
     vi.useRealTimers();
+    global.__flashclaw_db?.close();
+    global.__flashclaw_db = undefined;
     await fs.rm(tempDir, { recursive: true, force: true });
   });
 
@@ -34,16 +36,48 @@ describe('session-tracker', () => {
     expect(tracker.getContextWindowSize()).toBeGreaterThan(0);
   });
 
-  it('persists session cache to disk', async () => {
+  it('persists sessions in SQLite and restores them after restart', async () => {
+    const { initDatabase, getAllSessionUsage } = await import('../src/db.js');
+    initDatabase();
     const tracker = await loadTracker();
 
-    tracker.recordTokenUsage('chat-2', { inputTokens: 10, outputTokens: 5 });
-    await new Promise((resolve) => setTimeout(resolve, 1200));
+    tracker.recordTokenUsage('chat-2', { inputTokens: 10, outputTokens: 5 }, 'claude-sonnet-4-20250514');
 
+    vi.resetModules();
+    const restarted = await loadTracker();
+    expect(restarted.getSessionStats('chat-2')).toBeNull();
+    restarted.initSessionTracker();
+    expect(restarted.getSessionStats('chat-2')).toMatchObject({
+      messageCount: 1,
+      tokenCount: 15,
+      inputTokens: 10,
+      outputTokens: 5,
+      model: 'claude-sonnet-4-20250514',
+    });
+
+    restarted.resetSession('chat-2');
+    expect(getAllSessionUsage()).toHaveLength(0);
+  });
+
+  it('imports the legacy JSON cache and drops stale sessions', async () => {
+    const { initDatabase, getAllSessionUsage } = await import('../src/db.js');
+    initDatabase();
+    const now = new Date().toISOString();
     const cachePath = join(tempDir, 'cache', 'session-tracker.json');
-    const content = await fs.readFile(cachePath, 'utf-8');
-    const data = JSON.parse(content);
-    expect(Array.isArray(data)).toBe(true);
-    expect(data[0].chatId).toBe('chat-2');
+    await fs.mkdir(join(tempDir, 'cache'), { recursive: true });
+    await fs.writeFile(cachePath, JSON.stringify([
+      { chatId: 'chat-3', messageCount: 2, inputTokens: 100, outputTokens: 20, totalTokens: 120, model: 'm', startedAt: now, lastActivityAt: now, compactSuggested: true },
+      { chatId: 'chat-old', messageCount: 1, inputTokens: 1, outputTokens: 1, totalTokens: 2, model: 'm', startedAt: '2000-01-01T00:00:00.000Z', lastActivityAt: '2000-01-01T00:00:00.000Z', compactSuggested: false },
+    ]));
+
+    const tracker = await loadTracker();
+    tracker.initSessionTracker();
+
+    expect(tracker.getSessionStats('chat-3')?.tokenCount).toBe(120);
+    expect(tracker.getSessionStats('chat-old')).toBeNull();
+    // 已提示过压缩的状态也会恢复
+    expect(tracker.checkCompactThreshold('chat-3')).toBeNull();
+    expect(getAllSessionUsage().map(r => r.chat_jid)).toEqual(['chat-3']);
+    await expect(fs.access(cachePath)).rejects.toThrow();
   });
 });
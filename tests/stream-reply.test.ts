@@ -0,0 +1,166 @@
+import { describe, it, expect, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { StreamingReply, splitMessage, type StreamReplyTarget } from '../src/stream-reply.js';
+import type { AIProviderPlugin, StreamEvent } from '../src/plugins/types.js';
+
+vi.mock('../src/plugins/manager.js', () => ({
+  pluginManager: {
+    getProvider: vi.fn(),
+    getProviderByName: vi.fn(),
+    getActiveTools: vi.fn(() => []),
+    getTool: vi.fn(),
+    getToolPolicy: vi.fn(),
+  },
+}));
+
+function makeTarget() {
+  const messages = new Map<string, string>();
+  let seq = 0;
+  const target = {
+    send: vi.fn(async (text: string) => {
+      const id = `m${++seq}`;
+      messages.set(id, text);
+      return id;
+    }),
+    update: vi.fn(async (id: string, text: string) => {
+      messages.set(id, text);
+    }),
+    remove: vi.fn(async (id: string) => {
+      messages.delete(id);
+    }),
+  } satisfies StreamReplyTarget;
+  return { target, messages };
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('streaming reply', () => {
+  it('splits long text at line breaks when possible', () => {
+    expect(splitMessage('short', 10)).toEqual(['short']);
+    expect(splitMessage('aaaaaa\nbbbbbbbb', 10)).toEqual(['aaaaaa', 'bbbbbbbb']);
+    expect(splitMessage('a\nbbbbbbbbbbbbbbbbbbbb', 10)).toEqual(['a\nbbbbbbbb', 'bbbbbbbbbb', 'bb']);
+  });
+
+  it('edits one message as tokens stream and shows tool progress', async () => {
+    const { target, messages } = makeTarget();
+    const reply = new StreamingReply(target, { editIntervalMs: 20, maxLength: 1000, prefix: 'Bot: ', toolProgress: true });
+
+    reply.setStatus('正在思考...');
+    await vi.waitFor(() => expect([...messages.values()]).toEqual(['Bot: 正在思考...']));
+
+    reply.push('我先查一下资料，');
+    reply.toolUse('web_search');
+    reply.toolUse('web_search');
+    await vi.waitFor(() => expect(messages.get('m1')).toBe('Bot: 我先查一下资料，\n\n🔧 web_search…'));
+
+    reply.push('查到了：明天晴。');
+    await vi.waitFor(() => expect(messages.get('m1')).toBe('Bot: 我先查一下资料，查到了：明天晴。'));
+
+    // 最终回复不含过渡文字，以最终内容为准
+    expect(await reply.finish('明天晴，最高 25 度。')).toBe(true);
+    expect([...messages.values()]).toEqual(['Bot: 明天晴，最高 25 度。']);
+    expect(target.send).toHaveBeenCalledTimes(1);
+
+    // 结束后不再编辑
+    reply.push('多余的内容');
+    await sleep(50);
+    expect(messages.get('m1')).toBe('Bot: 明天晴，最高 25 度。');
+  });
+
+  it('continues into new messages and keeps the last edit for the final text', async () => {
+    const { target, messages } = makeTarget();
+    const reply = new StreamingReply(target, { editIntervalMs: 10, maxLength: 20, maxEdits: 3 });
+
+    for (let i = 0; i < 6; i++) {
+      reply.push(`第${i}段内容。`);
+      await sleep(25);
+    }
+    await vi.waitFor(() => expect(messages.size).toBe(2));
+    // 每条消息的预览编辑不超过 maxEdits - 1 次
+    for (const id of messages.keys()) {
+      expect(target.update.mock.calls.filter(([updated]) => updated === id).length).toBeLessThanOrEqual(2);
+    }
+
+    expect(await reply.finish('短回复')).toBe(true);
+    expect([...messages.entries()]).toEqual([['m1', '短回复']]);
+    expect(target.remove).toHaveBeenCalledWith('m2');
+  });
+
+  it('streams text from follow-up tool turns into the preview', async () => {
+    const tempDir = await fs.mkdtemp(join(tmpdir(), 'flashclaw-stream-'));
+    process.env.FLASHCLAW_HOME = tempDir;
+    try {
+      const { pluginManager } = await import('../src/plugins/manager.js');
+      const { MemoryManager } = await import('../src/core/memory.js');
+      const { runAgent } = await import('../src/agent-runner.js');
+      global.__flashclaw_memory_manager = new MemoryManager({ memoryDir: join(tempDir, 'memory') });
+
+      let releaseFollowUp = () => {};
+      const followUpGate = new Promise<void>(resolve => { releaseFollowUp = resolve; });
+      const provider: AIProviderPlugin = {
+        name: 'anthropic-provider',
+        version: '1.0.0',
+        description: 'test',
+        chat: vi.fn(),
+        chatStream: vi.fn(async function* (): AsyncGenerator<StreamEvent> {
+          yield { type: 'text', text: '我先查一下，' };
+          yield { type: 'tool_use', id: 't1', name: 'web_search', input: { q: '天气' } };
+          yield { type: 'done', message: { stop_reason: 'tool_use', content: [], usage: { input_tokens: 10, output_tokens: 5 } } };
+        }),
+        // 第二轮通过 onEvent 逐段输出，结束前等待预览更新
+        handleToolUse: vi.fn(async (...args: Parameters<AIProviderPlugin['handleToolUse']>) => {
+          const onEvent = args[5];
+          onEvent?.({ type: 'text', text: '明天晴，' });
+          onEvent?.({ type: 'text', text: '最高 25 度。' });
+          await followUpGate;
+          onEvent?.({ type: 'done', message: { stop_reason: 'end_turn', usage: { input_tokens: 20, output_tokens: 8 } } });
+          return '明天晴，最高 25 度。';
+        }),
+        getModel: () => 'claude-test',
+        setModel: vi.fn(),
+      };
+      vi.mocked(pluginManager.getProvider).mockReturnValue(provider);
+
+      const { target, messages } = makeTarget();
+      const reply = new StreamingReply(target, { editIntervalMs: 10, maxLength: 1000 });
+      const running = runAgent(
+        { name: 'main', folder: 'main', trigger: '@bot', added_at: '2026-01-01T00:00:00.000Z' },
+        { prompt: '明天天气', groupFolder: 'main', chatJid: 'chat-1', isMain: true, onToken: text => reply.push(text) }
+      );
+
+      // 工具调用之后的第二轮在运行结束前就出现在预览中
+      await vi.waitFor(() => expect(messages.get('m1')).toBe('我先查一下，明天晴，最高 25 度。'));
+      releaseFollowUp();
+      const output = await running;
+
+      expect(await reply.finish(output.result!)).toBe(true);
+      expect([...messages.values()]).toEqual(['明天晴，最高 25 度。']);
+      expect(target.send).toHaveBeenCalledTimes(1);
+    } finally {
+      global.__flashclaw_memory_manager = undefined;
+      await fs.rm(tempDir, { recursive: true, force: true });
+      delete process.env.FLASHCLAW_HOME;
+    }
+  });
+
+  it('gives up previews when the channel rejects an edit', async () => {
+    const { target, messages } = makeTarget();
+    target.update.mockRejectedValue(new Error('not editable'));
+    const reply = new StreamingReply(target, { editIntervalMs: 10, maxLength: 1000 });
+
+    reply.push('第一段内容已经足够长了');
+    await vi.waitFor(() => expect(messages.size).toBe(1));
+    reply.push('，第二段');
+    await vi.waitFor(() => expect(target.update).toHaveBeenCalledTimes(1));
+
+    expect(await reply.finish('完整回复')).toBe(false);
+    expect(messages.size).toBe(0);
+    expect(target.update).toHaveBeenCalledTimes(1);
+
+    const empty = new StreamingReply(makeTarget().target, { editIntervalMs: 10, maxLength: 1000 });
+    empty.push('短');
+    await empty.discard();
+  });
+});
@@ -0,0 +1,197 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import type { ScheduledTask } from '../src/types.js';
+
+const TZ = 'Asia/Shanghai';
+const NOW = new Date('2026-10-19T00:00:00.000Z');
+
+function makeTask(overrides: Partial<ScheduledTask> = {}): ScheduledTask {
+  return {
+    id: 'task_1700000000000_abc123',
+    group_folder: 'main',
+    chat_jid: 'chat-main',
+    prompt: '检查服务器状态',
+    schedule_type: 'cron',
+    schedule_value: '0 9 * * 1-5',
+    context_mode: 'isolated',
+    next_run: '2026-10-19T01:00:00.000Z',
+    last_run: null,
+    last_result: null,
+    status: 'active',
+    created_at: NOW.toISOString(),
+    retry_count: 0,
+    max_retries: 1,
+    ...overrides,
+  };
+}
+
+const SAMPLE_ICS = [
+  'BEGIN:VCALENDAR',
+  'VERSION:2.0',
+  'BEGIN:VTIMEZONE',
+  'TZID:Asia/Shanghai',
+  'BEGIN:STANDARD',
+  'DTSTART:19700101T000000',
+  'TZOFFSETFROM:+0800',
+  'TZOFFSETTO:+0800',
+  'END:STANDARD',
+  'END:VTIMEZONE',
+  'BEGIN:VEVENT',
+  'UID:review@example.com',
+  'DTSTART;TZID=Asia/Shanghai:20261020T100000',
+  'SUMMARY:项目评审\\, 第二轮',
+  'BEGIN:VALARM',
+  'ACTION:DISPLAY',
+  'TRIGGER:-PT15M',
+  'END:VALARM',
+  'END:VEVENT',
+  'BEGIN:VEVENT',
+  'UID:weekly@example.com',
+  'DTSTART;TZID=Asia/Shanghai:20261026T083000',
+  'RRULE:FREQ=WEEKLY;BYDAY=MO',
+  'SUMMARY:周会',
+  'BEGIN:VALARM',
+  'TRIGGER:-P1D',
+  'END:VALARM',
+  'END:VEVENT',
+  'BEGIN:VEVENT',
+  'UID:birthday@example.com',
+  'DTSTART;VALUE=DATE:20261101',
+  'SUMMARY:妈妈生日',
+  'BEGIN:VALARM',
+  'TRIGGER:-PT15H',
+  'END:VALARM',
+  'END:VEVENT',
+  'BEGIN:VEVENT',
+  'UID:every-other-day@example.com',
+  'DTSTART:20261019T120000Z',
+  'DTEND:20261019T130000Z',
+  'RRULE:FREQ=DAILY;INTERVAL=2',
+  'SUMMARY:健身',
+  'BEGIN:VALARM',
+  'TRIGGER;RELATED=END:PT0S',
+  'END:VALARM',
+  'END:VEVENT',
+  'BEGIN:VEVENT',
+  'UID:no-alarm@example.com',
+  'DTSTART:20261021T020000Z',
+  'SUMMARY:没有提醒',
+  'END:VEVENT',
+  'BEGIN:VEVENT',
+  'UID:past@example.com',
+  'DTSTART:20261001T000000Z',
+  'SUMMARY:已经过去',
+  'BEGIN:VALARM',
+  'TRIGGER:-PT5M',
+  'END:VALARM',
+  'END:VEVENT',
+  'BEGIN:VEVENT',
+  'UID:limited@example.com',
+  'DTSTART:20261021T020000Z',
+  'RRULE:FREQ=DAILY;COUNT=3',
+  'SUMMARY:三次培训',
+  'BEGIN:VALARM',
+  'TRIGGER:-PT10M',
+  'END:VALARM',
+  'END:VEVENT',
+  'END:VCALENDAR',
+].join('\r\n');
+
+describe('task calendar', () => {
+  let tempDir = '';
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), 'flashclaw-calendar-'));
+    process.env.FLASHCLAW_HOME = tempDir;
+    const { initDatabase } = await import('../src/db.js');
+    initDatabase();
+  });
+
+  afterEach(async () => {
+    global.__flashclaw_db?.close();
+    global.__flashclaw_db = undefined;
+    await fs.rm(tempDir, { recursive: true, force: true });
+    delete process.env.FLASHCLAW_HOME;
+  });
+
+  it('converts cron expressions and intervals into RRULEs', async () => {
+    const { cronToRRule, intervalToRRule } = await import('../src/task-calendar.js');
+
+    expect(cronToRRule('0 9 * * *')).toBe('FREQ=DAILY;BYHOUR=9;BYMINUTE=0');
+    expect(cronToRRule('30 8,18 * * 1-5')).toBe('FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR;BYHOUR=8,18;BYMINUTE=30');
+    expect(cronToRRule('0 10 * * SUN')).toBe('FREQ=WEEKLY;BYDAY=SU;BYHOUR=10;BYMINUTE=0');
+    expect(cronToRRule('0 9 1,15 * *')).toBe('FREQ=MONTHLY;BYMONTHDAY=1,15;BYHOUR=9;BYMINUTE=0');
+    expect(cronToRRule('0 0 24 12 *')).toBe('FREQ=YEARLY;BYMONTHDAY=24;BYMONTH=12;BYHOUR=0;BYMINUTE=0');
+    expect(cronToRRule('*/15 * * * *')).toBe('FREQ=MINUTELY;INTERVAL=15');
+    expect(cronToRRule('5 */6 * * *')).toBe('FREQ=HOURLY;INTERVAL=6');
+    // 日期和星期同时限定是 "或" 的关系，无法表示
+    expect(cronToRRule('0 9 1 * 1')).toBeNull();
+    expect(cronToRRule('*/7 * * * *')).toBeNull();
+    expect(cronToRRule('0 0 9 * * *')).toBeNull();
+
+    expect(intervalToRRule(2 * 24 * 60 * 60 * 1000)).toBe('FREQ=DAILY;INTERVAL=2');
+    expect(intervalToRRule(90 * 60 * 1000)).toBe('FREQ=MINUTELY;INTERVAL=90');
+    expect(intervalToRRule(60 * 60 * 1000)).toBe('FREQ=HOURLY');
+    expect(intervalToRRule(1500)).toBeNull();
+  });
+
+  it('exports active tasks as an iCalendar feed', async () => {
+    const { exportTasksToIcs, parseIcs } = await import('../src/task-calendar.js');
+    const reminder = `请使用 send_message 工具发送以下提醒消息给用户：\n\n⏰ 提醒：交周报，别忘了附上数据；${'很长的说明'.repeat(10)}`;
+
+    const ics = exportTasksToIcs([
+      makeTask({ prompt: reminder }),
+      makeTask({ id: 'task_interval', schedule_type: 'interval', schedule_value: String(3 * 60 * 60 * 1000), next_run: '2026-10-19T03:00:00.000Z' }),
+      makeTask({ id: 'task_once', schedule_type: 'once', schedule_value: '2026-10-21T06:00:00.000Z', next_run: '2026-10-21T06:00:00.000Z' }),
+      makeTask({ id: 'task_odd_cron', schedule_value: '0 9 1 * 1' }),
+      makeTask({ id: 'task_paused', status: 'paused' }),
+    ], { timezone: TZ, now: NOW });
+
+    expect(ics.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(ics.split('\r\n').every(line => Buffer.byteLength(line) <= 75)).toBe(true);
+    expect(ics).toContain('DTSTART;TZID=Asia/Shanghai:20261019T090000\r\nRRULE:FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR;BYHOUR=9;BYMINUTE=0');
+    expect(ics).toContain('DTSTART:20261019T030000Z\r\nRRULE:FREQ=HOURLY;INTERVAL=3');
+    expect(ics).toContain('UID:task_once@flashclaw\r\nDTSTAMP:20261019T000000Z\r\nDTSTART:20261021T060000Z\r\nSUMMARY');
+    expect(ics).not.toContain('task_paused');
+
+    const events = parseIcs(ics, TZ);
+    expect(events.map(e => e.uid)).toEqual(['task_1700000000000_abc123@flashclaw', 'task_interval@flashclaw', 'task_once@flashclaw', 'task_odd_cron@flashclaw']);
+    expect(events[0].summary).toBe(`交周报，别忘了附上数据；${'很长的说明'.repeat(10)}`.slice(0, 60) + '...');
+    expect(events[0].rrule).toEqual({ FREQ: 'WEEKLY', BYDAY: 'MO,TU,WE,TH,FR', BYHOUR: '9', BYMINUTE: '0' });
+    expect(events[3].rrule).toBeNull();
+    expect(events[3].description).toContain('只导出下一次执行');
+  });
+
+  it('imports events with alarms as reminder tasks', async () => {
+    const { importIcsReminders } = await import('../src/task-calendar.js');
+    const { getTasksForGroup } = await import('../src/db.js');
+    const options = { groupFolder: 'team', chatJid: 'chat-team', now: NOW, timezone: TZ };
+
+    const { created, skipped } = importIcsReminders(SAMPLE_ICS, options);
+    expect(created.map(t => [t.schedule_type, t.schedule_value, t.next_run])).toEqual([
+      ['once', '2026-10-20T01:45:00.000Z', '2026-10-20T01:45:00.000Z'],
+      // 周一的会提前一天提醒 → 周日
+      ['cron', '30 8 * * 0', '2026-10-25T00:30:00.000Z'],
+      ['once', '2026-10-31T01:00:00.000Z', '2026-10-31T01:00:00.000Z'],
+      ['interval', String(2 * 24 * 60 * 60 * 1000), '2026-10-19T13:00:00.000Z'],
+    ]);
+    expect(created[0].prompt).toContain('⏰ 提醒：项目评审, 第二轮（15 分钟后开始）');
+    expect(created[1].prompt).toContain('⏰ 提醒：周会（1 天后开始）');
+    expect(created[3].prompt).toMatch(/⏰ 提醒：健身$/);
+    expect(skipped).toEqual([
+      { summary: '没有提醒', reason: '没有提醒（VALARM）' },
+      { summary: '已经过去', reason: '提醒时间已过' },
+      { summary: '三次培训', reason: '重复规则带有结束条件（COUNT/UNTIL），暂不支持' },
+    ]);
+    expect(getTasksForGroup('team')).toHaveLength(4);
+
+    // 重复导入不会产生重复任务
+    const again = importIcsReminders(SAMPLE_ICS, options);
+    expect(again.created).toHaveLength(0);
+    expect(again.skipped.filter(s => s.reason === '已导入过')).toHaveLength(4);
+    expect(getTasksForGroup('team')).toHaveLength(4);
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import type { ScheduledTask } from '../src/types.js';
+
+vi.mock('../src/agent-runner.js', () => ({
+  runAgent: vi.fn(),
+  writeTasksSnapshot: vi.fn(),
+}));
+
+const HOUR = 60 * 60 * 1000;
+
+function makeTask(overrides: Partial<ScheduledTask> = {}): ScheduledTask {
+  return {
+    id: 'task_1700000000000_abc123',
+    group_folder: 'team',
+    chat_jid: 'chat-team',
+    prompt: '检查服务器状态',
+    schedule_type: 'interval',
+    schedule_value: String(HOUR),
+    context_mode: 'isolated',
+    next_run: new Date(Date.now() - 5.5 * HOUR).toISOString(),
+    last_run: null,
+    last_result: null,
+    status: 'active',
+    created_at: new Date().toISOString(),
+    retry_count: 0,
+    max_retries: 1,
+    ...overrides,
+  };
+}
+
+describe('missed-run catch-up and quiet hours', () => {
+  let tempDir = '';
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), 'flashclaw-catch-up-'));
+    process.env.FLASHCLAW_HOME = tempDir;
+    const { initDatabase } = await import('../src/db.js');
+    initDatabase();
+  });
+
+  afterEach(async () => {
+    const { stopScheduler } = await import('../src/task-scheduler.js');
+    stopScheduler();
+    global.__flashclaw_db?.close();
+    global.__flashclaw_db = undefined;
+    await fs.rm(tempDir, { recursive: true, force: true });
+    delete process.env.FLASHCLAW_HOME;
+  });
+
+  it('plans catch-up runs per policy', async () => {
+    const { planCatchUp, listMissedRuns } = await import('../src/task-policy.js');
+    const now = new Date('2026-10-19T12:00:00.000Z');
+    const task = makeTask({ next_run: '2026-10-19T06:30:00.000Z' });
+
+    expect(listMissedRuns(task, now, 3).total).toBe(6);
+    expect(listMissedRuns(task, now, 3).times.map(t => t.toISOString()))
+      .toEqual(['2026-10-19T09:30:00.000Z', '2026-10-19T10:30:00.000Z', '2026-10-19T11:30:00.000Z']);
+
+    expect(planCatchUp(task, now, 5000)).toMatchObject({
+      policy: 'run_once', action: 'run', missed: 6, skipped: 5, nextRun: '2026-10-19T12:00:05.000Z',
+    });
+    expect(planCatchUp({ ...task, catch_up_policy: 'skip' }, now)).toMatchObject({
+      action: 'skip', skipped: 6, nextRun: '2026-10-19T12:30:00.000Z',
+    });
+    // 默认最多补跑 10 次，这里只错过 6 次，从最早一次开始
+    expect(planCatchUp({ ...task, catch_up_policy: 'run_all' }, now)).toMatchObject({
+      action: 'run', missed: 6, skipped: 0, nextRun: '2026-10-19T06:30:00.000Z',
+    });
+
+    const older = { ...task, catch_up_policy: 'skip_if_older' as const, catch_up_max_age_minutes: 60 };
+    expect(planCatchUp(older, now).action).toBe('skip');
+    expect(planCatchUp({ ...older, catch_up_max_age_minutes: 600 }, now, 0)).toMatchObject({ policy: 'run_once', action: 'run' });
+
+    const cron = makeTask({ schedule_type: 'cron', schedule_value: '0 * * * *', next_run: '2026-10-19T09:00:00.000Z' });
+    expect(planCatchUp(cron, now).missed).toBe(4);
+    expect(planCatchUp({ ...makeTask({ schedule_type: 'once' }), catch_up_policy: 'skip' }, now).nextRun).toBeNull();
+  });
+
+  it('computes the end of quiet hours in the configured timezone', async () => {
+    const { parseQuietHours, quietHoursEnd } = await import('../src/task-policy.js');
+    expect(parseQuietHours('22:00-08:00')).toEqual({ start: 1320, end: 480 });
+    expect(parseQuietHours('8:00-8:00')).toBeNull();
+    expect(parseQuietHours('夜里')).toBeNull();
+
+    // 上海时间 23:30 → 次日 08:00
+    expect(quietHoursEnd('22:00-08:00', new Date('2026-10-19T15:30:00.000Z'), 'Asia/Shanghai')?.toISOString())
+      .toBe('2026-10-20T00:00:00.000Z');
+    // 上海时间 07:15:30 → 当天 08:00
+    expect(quietHoursEnd('22:00-08:00', new Date('2026-10-19T23:15:30.000Z'), 'Asia/Shanghai')?.toISOString())
+      .toBe('2026-10-20T00:00:00.000Z');
+    expect(quietHoursEnd('22:00-08:00', new Date('2026-10-19T04:00:00.000Z'), 'Asia/Shanghai')).toBeNull();
+    expect(quietHoursEnd('12:00-14:00', new Date('2026-10-19T04:30:00.000Z'), 'Asia/Shanghai')?.toISOString())
+      .toBe('2026-10-19T06:00:00.000Z');
+  });
+
+  it('reconciles missed tasks at startup and reports them to the main group', async () => {
+    const { createTask, getTaskById } = await import('../src/db.js');
+    const { startScheduler } = await import('../src/task-scheduler.js');
+
+    createTask(makeTask({ id: 'task_1_skip01', catch_up_policy: 'skip' }));
+    createTask(makeTask({ id: 'task_2_once01', schedule_type: 'once', schedule_value: '', catch_up_policy: 'skip' }));
+    const upcoming = new Date(Date.now() + HOUR).toISOString();
+    createTask(makeTask({ id: 'task_3_run001', next_run: upcoming }));
+
+    const sendMessage = vi.fn(async () => undefined);
+    startScheduler({
+      sendMessage,
+      registeredGroups: () => ({
+        'chat-main': { name: 'Main', folder: 'main', trigger: '@bot', added_at: '' },
+        'chat-team': { name: 'Team', folder: 'team', trigger: '@bot', added_at: '' },
+      }),
+      getSessions: () => ({}),
+    });
+
+    const skipped = getTaskById('task_1_skip01')!;
+    expect(new Date(skipped.next_run!).getTime()).toBeGreaterThan(Date.now());
+    expect(getTaskById('task_2_once01')).toMatchObject({ status: 'completed', next_run: null });
+    expect(getTaskById('task_3_run001')!.next_run).toBe(upcoming);
+
+    await vi.waitFor(() => expect(sendMessage).toHaveBeenCalledTimes(1));
+    const [jid, summary] = sendMessage.mock.calls[0] as unknown as [string, string];
+    expect(jid).toBe('chat-main');
+    expect(summary).toContain('离线期间错过的定时任务** (2个)');
+    expect(summary).toContain('skip01');
+    expect(summary).toContain('错过 6 次，已跳过');
+    expect(summary).not.toContain('run001');
+  });
+
+  it('defers non-urgent due tasks during the group quiet hours', async () => {
+    const { runAgent } = await import('../src/agent-runner.js');
+    const { createTask, getTaskById } = await import('../src/db.js');
+    const { startScheduler } = await import('../src/task-scheduler.js');
+    const { TIMEZONE } = await import('../src/config.js');
+    vi.mocked(runAgent).mockResolvedValue({ status: 'success', result: 'ok' });
+
+    const due = new Date(Date.now() - 1000).toISOString();
+    createTask(makeTask({ id: 'task_quiet_normal', next_run: due }));
+    createTask(makeTask({ id: 'task_quiet_urgent', next_run: due, urgent: 1 }));
+
+    // 从当前整点开始的两小时免打扰
+    const hour = parseInt(new Intl.DateTimeFormat('en-US', { timeZone: TIMEZONE, hour: '2-digit', hourCycle: 'h23' }).format(new Date()), 10);
+    const quietHours = `${hour}:00-${(hour + 2) % 24}:00`;
+    startScheduler({
+      sendMessage: vi.fn(async () => undefined),
+      registeredGroups: () => ({ 'chat-team': { name: 'Team', folder: 'team', trigger: '@bot', added_at: '', quietHours } }),
+      getSessions: () => ({}),
+    });
+
+    await vi.waitFor(() => expect(getTaskById('task_quiet_urgent')!.last_run).toBeTruthy());
+    const deferred = getTaskById('task_quiet_normal')!;
+    expect(deferred.last_run).toBeNull();
+    expect(new Date(deferred.next_run!).getTime()).toBeGreaterThan(Date.now());
+    expect(vi.mocked(runAgent)).toHaveBeenCalledTimes(1);
+  });
+});
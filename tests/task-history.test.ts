@@ -0,0 +1,153 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import type { ScheduledTask } from '../src/types.js';
+
+vi.mock('../src/agent-runner.js', () => ({
+  runAgent: vi.fn(),
+  writeTasksSnapshot: vi.fn(),
+}));
+
+function makeTask(overrides: Partial<ScheduledTask> = {}): Omit<ScheduledTask, 'last_run' | 'last_result'> {
+  return {
+    id: 'task_1700000000000_abc123',
+    group_folder: 'team',
+    chat_jid: 'chat-team',
+    prompt: '检查服务器状态',
+    schedule_type: 'interval',
+    schedule_value: '3600000',
+    context_mode: 'isolated',
+    next_run: new Date(Date.now() - 1000).toISOString(),
+    status: 'active',
+    created_at: new Date().toISOString(),
+    retry_count: 0,
+    max_retries: 1,
+    ...overrides,
+  };
+}
+
+describe('task run history and failure notifications', () => {
+  let tempDir = '';
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), 'flashclaw-task-history-'));
+    process.env.FLASHCLAW_HOME = tempDir;
+    const { initDatabase } = await import('../src/db.js');
+    initDatabase();
+  });
+
+  afterEach(async () => {
+    const { stopScheduler } = await import('../src/task-scheduler.js');
+    stopScheduler();
+    global.__flashclaw_db?.close();
+    global.__flashclaw_db = undefined;
+    await fs.rm(tempDir, { recursive: true, force: true });
+    delete process.env.FLASHCLAW_HOME;
+  });
+
+  it('tracks streaks, limits stored output and prunes old runs', async () => {
+    const { createTask, logTaskRun, getTaskRunLogs, recordTaskOutcome, deleteTaskRunLogsBefore } = await import('../src/db.js');
+    createTask(makeTask());
+    const id = 'task_1700000000000_abc123';
+
+    for (let i = 0; i < 4; i++) {
+      logTaskRun(
+        { task_id: id, run_at: `2026-01-0${i + 1}T00:00:00.000Z`, duration_ms: 10, status: 'success', result: 'x'.repeat(50), error: null },
+        { maxOutputChars: 20, keepPerTask: 3 }
+      );
+    }
+    const logs = getTaskRunLogs(id);
+    expect(logs.map(l => l.run_at.slice(0, 10))).toEqual(['2026-01-04', '2026-01-03', '2026-01-02']);
+    expect(logs[0].result).toBe(`${'x'.repeat(20)}\n...(输出已截断，原始 50 字符)`);
+
+    expect(deleteTaskRunLogsBefore('2026-01-03T00:00:00.000Z')).toBe(1);
+
+    recordTaskOutcome(id, false, '2026-01-05T00:00:00.000Z');
+    const failing = recordTaskOutcome(id, false, '2026-01-06T00:00:00.000Z')!;
+    expect(failing).toMatchObject({ failure_streak: 2, success_streak: 0, failing_since: '2026-01-05T00:00:00.000Z' });
+
+    const recovered = recordTaskOutcome(id, true, '2026-01-07T00:00:00.000Z')!;
+    expect(recovered).toMatchObject({ failure_streak: 0, success_streak: 1, failing_since: null });
+  });
+
+  it('notifies the task chat when retries are exhausted and again after recovery', async () => {
+    const { runAgent } = await import('../src/agent-runner.js');
+    const { createTask, getTaskById, updateTask, getTaskRunLogs } = await import('../src/db.js');
+    const { startScheduler, wake } = await import('../src/task-scheduler.js');
+
+    vi.mocked(runAgent).mockResolvedValue({ status: 'error', result: null, error: '接口返回 500' });
+    createTask(makeTask());
+
+    const sendMessage = vi.fn(async () => undefined);
+    startScheduler({
+      sendMessage,
+      registeredGroups: () => ({ 'chat-team': { name: 'Team', folder: 'team', trigger: '@bot', added_at: '' } }),
+      getSessions: () => ({}),
+    });
+
+    await vi.waitFor(() => expect(sendMessage).toHaveBeenCalledTimes(1));
+    expect(sendMessage).toHaveBeenCalledWith('chat-team', expect.stringContaining('定时任务执行失败'));
+    expect(sendMessage.mock.calls[0][1]).toContain('接口返回 500');
+    const failed = getTaskById('task_1700000000000_abc123')!;
+    expect(failed.failure_streak).toBe(1);
+    expect(failed.failure_notified_at).toBeTruthy();
+    expect(getTaskRunLogs(failed.id)[0]).toMatchObject({ status: 'error', error: '接口返回 500' });
+
+    vi.mocked(runAgent).mockResolvedValue({ status: 'success', result: '一切正常' });
+    updateTask(failed.id, { next_run: new Date(Date.now() - 1000).toISOString() });
+    wake();
+
+    await vi.waitFor(() => expect(sendMessage).toHaveBeenCalledTimes(2));
+    expect(sendMessage.mock.calls[1][1]).toContain('定时任务已恢复');
+    expect(getTaskById(failed.id)).toMatchObject({ success_streak: 1, failure_streak: 0, failure_notified_at: null });
+  });
+
+  it('respects per-task notification targets', async () => {
+    const { shouldNotifyFailure, notifyTaskFailure, parseNotifyTargets } = await import('../src/task-notify.js');
+    const task = { ...makeTask({ notify_on_failure: 'main' }), last_run: null, last_result: null };
+    const sendMessage = vi.fn(async () => undefined);
+    const registeredGroups = () => ({
+      'chat-main': { name: 'Main', folder: 'main', trigger: '@bot', added_at: '' },
+      'chat-team': { name: 'Team', folder: 'team', trigger: '@bot', added_at: '' },
+    });
+
+    expect(parseNotifyTargets('chat, webhook')).toEqual(['chat', 'webhook']);
+    expect(parseNotifyTargets('none')).toEqual([]);
+
+    expect(await notifyTaskFailure(task, 'boom', { sendMessage, registeredGroups })).toBe(true);
+    expect(sendMessage).toHaveBeenCalledWith('chat-main', expect.any(String));
+    expect(sendMessage).not.toHaveBeenCalledWith('chat-team', expect.any(String));
+
+    expect(await notifyTaskFailure({ ...task, notify_on_failure: 'none' }, 'boom', { sendMessage, registeredGroups })).toBe(false);
+
+    const now = Date.parse('2026-01-02T00:00:00.000Z');
+    expect(shouldNotifyFailure({ ...task, failure_notified_at: '2026-01-01T12:00:00.000Z' }, now)).toBe(false);
+    expect(shouldNotifyFailure({ ...task, failure_notified_at: '2026-01-01T00:00:00.000Z' }, now)).toBe(true);
+  });
+
+  it('shows /tasks history for tasks visible in the chat', async () => {
+    const { createTask, logTaskRun } = await import('../src/db.js');
+    const { handleCommand } = await import('../src/commands.js');
+    createTask(makeTask());
+    logTaskRun({ task_id: 'task_1700000000000_abc123', run_at: '2026-01-01T00:00:00.000Z', duration_ms: 1500, status: 'error', result: null, error: '网络超时' });
+    logTaskRun({ task_id: 'task_1700000000000_abc123', run_at: '2026-01-02T00:00:00.000Z', duration_ms: 800, status: 'success', result: '服务器运行正常', error: null });
+
+    const context = {
+      chatId: 'chat-team',
+      userId: 'u1',
+      userName: 'Alice',
+      platform: 'feishu',
+      getTasks: () => [{ id: 'task_1700000000000_abc123', prompt: '检查服务器状态', scheduleType: 'interval', status: 'active', successStreak: 1 }],
+    };
+
+    const history = handleCommand('/tasks history abc123', context).response!;
+    expect(history).toContain('任务运行记录');
+    expect(history).toContain('连续成功 1 次');
+    expect(history.indexOf('服务器运行正常')).toBeLessThan(history.indexOf('网络超时'));
+    expect(history).toContain('1.5s');
+
+    expect(handleCommand('/tasks history zzz', context).response).toContain('未找到任务');
+    expect(handleCommand('/tasks history', context).response).toContain('用法');
+  });
+});
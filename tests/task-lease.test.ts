@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import type { ScheduledTask } from '../src/types.js';
+
+// 缩短租约有效期（心跳间隔为 1 秒），让接管在测试时间内发生
+process.env.SCHEDULER_LEASE_TTL_MS = '3000';
+
+vi.mock('../src/agent-runner.js', () => ({
+  runAgent: vi.fn(),
+  writeTasksSnapshot: vi.fn(),
+}));
+
+const TASK_ID = 'task_1700000000000_lease1';
+
+function makeTask(): Omit<ScheduledTask, 'last_run' | 'last_result'> {
+  return {
+    id: TASK_ID,
+    group_folder: 'team',
+    chat_jid: 'chat-team',
+    prompt: '汇总今天的新闻',
+    schedule_type: 'interval',
+    schedule_value: '3600000',
+    context_mode: 'isolated',
+    next_run: new Date(Date.now() - 1000).toISOString(),
+    status: 'active',
+    created_at: new Date().toISOString(),
+    retry_count: 0,
+    max_retries: 1,
+  };
+}
+
+const deps = {
+  sendMessage: vi.fn(async () => undefined),
+  registeredGroups: () => ({ 'chat-team': { name: 'Team', folder: 'team', trigger: '@bot', added_at: '' } }),
+  getSessions: () => ({}),
+};
+
+describe('scheduler lease', () => {
+  let tempDir = '';
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), 'flashclaw-lease-'));
+    process.env.FLASHCLAW_HOME = tempDir;
+    const { initDatabase } = await import('../src/db.js');
+    initDatabase();
+  });
+
+  afterEach(async () => {
+    const { stopScheduler } = await import('../src/task-scheduler.js');
+    stopScheduler();
+    global.__flashclaw_db?.close();
+    global.__flashclaw_db = undefined;
+    await fs.rm(tempDir, { recursive: true, force: true });
+    delete process.env.FLASHCLAW_HOME;
+    vi.clearAllMocks();
+  });
+
+  it('grants the lease and task claims to one holder at a time', async () => {
+    const db = await import('../src/db.js');
+    const t0 = new Date('2026-10-19T00:00:00.000Z');
+    const later = (ms: number) => new Date(t0.getTime() + ms);
+
+    expect(db.acquireSchedulerLease('a', 3000, t0)).toBe(true);
+    expect(db.acquireSchedulerLease('b', 3000, later(1000))).toBe(false);
+    // 续期不改变获得时间
+    expect(db.acquireSchedulerLease('a', 3000, later(2000))).toBe(true);
+    expect(db.getSchedulerLease()).toMatchObject({ holder: 'a', acquired_at: t0.toISOString(), expires_at: later(5000).toISOString() });
+    expect(db.acquireSchedulerLease('b', 3000, later(4000))).toBe(false);
+    // 过期后可被接管
+    expect(db.acquireSchedulerLease('b', 3000, later(5000))).toBe(true);
+    expect(db.getSchedulerLease()).toMatchObject({ holder: 'b', acquired_at: later(5000).toISOString() });
+    db.releaseSchedulerLease('a');
+    expect(db.getSchedulerLease()?.holder).toBe('b');
+    db.releaseSchedulerLease('b');
+    expect(db.getSchedulerLease()).toBeUndefined();
+
+    expect(db.claimTask('t1', 'a', 3000, t0)).toEqual({ claimed: true });
+    expect(db.claimTask('t1', 'b', 3000, later(1000))).toEqual({ claimed: false });
+    expect(db.heartbeatTaskClaims('a', 3000, later(2000))).toBe(1);
+    expect(db.claimTask('t1', 'b', 3000, later(4000))).toEqual({ claimed: false });
+    const reclaimed = db.claimTask('t1', 'b', 3000, later(5000));
+    expect(reclaimed).toMatchObject({ claimed: true, stale: { holder: 'a', heartbeat_at: later(2000).toISOString() } });
+    db.releaseTaskClaim('t1', 'a');
+    expect(db.getTaskClaims().map(c => c.holder)).toEqual(['b']);
+    db.releaseTaskClaim('t1', 'b');
+    expect(db.getTaskClaims()).toEqual([]);
+  });
+
+  it('stays a follower while another instance holds the lease and takes over when it is released', async () => {
+    const { runAgent } = await import('../src/agent-runner.js');
+    const { createTask, acquireSchedulerLease, releaseSchedulerLease } = await import('../src/db.js');
+    const { startScheduler, getSchedulerStatus } = await import('../src/task-scheduler.js');
+    vi.mocked(runAgent).mockResolvedValue({ status: 'success', result: '完成' });
+
+    createTask(makeTask());
+    acquireSchedulerLease('other-host:1:abcdef', 60000);
+
+    startScheduler(deps);
+    expect(getSchedulerStatus()).toMatchObject({ role: 'follower', leaseHolder: 'other-host:1:abcdef' });
+    await new Promise(resolve => setTimeout(resolve, 300));
+    expect(runAgent).not.toHaveBeenCalled();
+
+    releaseSchedulerLease('other-host:1:abcdef');
+    await vi.waitFor(() => expect(runAgent).toHaveBeenCalledTimes(1), { timeout: 5000 });
+    const status = getSchedulerStatus();
+    expect(status.role).toBe('leader');
+    expect(status.leaseHolder).toBe(status.instanceId);
+  });
+
+  it('skips tasks claimed by a live instance and reclaims them once the claim expires', async () => {
+    const { runAgent } = await import('../src/agent-runner.js');
+    const { createTask, getTaskById, claimTask, getTaskClaims } = await import('../src/db.js');
+    const { startScheduler, getSchedulerStatus } = await import('../src/task-scheduler.js');
+    vi.mocked(runAgent).mockResolvedValue({ status: 'success', result: '完成' });
+
+    createTask(makeTask());
+    // 另一个实例刚开始执行，随后崩溃（不再心跳）
+    claimTask(TASK_ID, 'crashed-host:2:abcdef', 1500);
+
+    startScheduler(deps);
+    expect(getSchedulerStatus().role).toBe('leader');
+    await new Promise(resolve => setTimeout(resolve, 300));
+    expect(runAgent).not.toHaveBeenCalled();
+
+    await vi.waitFor(() => expect(getTaskById(TASK_ID)!.last_run).toBeTruthy(), { timeout: 5000 });
+    expect(runAgent).toHaveBeenCalledTimes(1);
+    expect(getTaskClaims()).toEqual([]);
+  });
+});
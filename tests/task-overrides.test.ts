@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import type { ScheduledTask } from '../src/types.js';
+
+vi.mock('../src/agent-runner.js', () => ({
+  runAgent: vi.fn(),
+  writeTasksSnapshot: vi.fn(),
+}));
+
+function makeTask(overrides: Partial<ScheduledTask> = {}): ScheduledTask {
+  return {
+    id: 'task_1700000000000_abc123',
+    group_folder: 'team',
+    chat_jid: 'chat-team',
+    prompt: '提醒我喝水',
+    schedule_type: 'interval',
+    schedule_value: '3600000',
+    context_mode: 'isolated',
+    next_run: new Date(Date.now() - 1000).toISOString(),
+    last_run: null,
+    last_result: null,
+    status: 'active',
+    created_at: new Date().toISOString(),
+    retry_count: 0,
+    max_retries: 1,
+    ...overrides,
+  };
+}
+
+describe('task agent overrides', () => {
+  let tempDir = '';
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), 'flashclaw-overrides-'));
+    process.env.FLASHCLAW_HOME = tempDir;
+    const { initDatabase } = await import('../src/db.js');
+    initDatabase();
+  });
+
+  afterEach(async () => {
+    const { stopScheduler } = await import('../src/task-scheduler.js');
+    stopScheduler();
+    global.__flashclaw_db?.close();
+    global.__flashclaw_db = undefined;
+    await fs.rm(tempDir, { recursive: true, force: true });
+    delete process.env.FLASHCLAW_HOME;
+    vi.clearAllMocks();
+  });
+
+  it('maps task columns to agent options', async () => {
+    const { taskAgentOptions } = await import('../src/task-scheduler.js');
+
+    expect(taskAgentOptions(makeTask())).toEqual({});
+    expect(taskAgentOptions(makeTask({
+      agent_id: 'researcher',
+      model: 'anthropic-provider/claude-opus-4',
+      allowed_tools: '["web_*","memory"]',
+      prompt_mode: 'minimal',
+    }))).toEqual({
+      agentId: 'researcher',
+      model: 'anthropic-provider/claude-opus-4',
+      tools: ['web_*', 'memory'],
+      promptMode: 'minimal',
+    });
+    expect(() => taskAgentOptions(makeTask({ allowed_tools: 'web_*' }))).toThrow('工具白名单格式无效');
+  });
+
+  it('passes the overrides to runAgent when the task runs', async () => {
+    const { runAgent } = await import('../src/agent-runner.js');
+    const { createTask, getTaskById } = await import('../src/db.js');
+    const { startScheduler } = await import('../src/task-scheduler.js');
+    vi.mocked(runAgent).mockResolvedValue({ status: 'success', result: '该喝水了' });
+
+    createTask(makeTask({
+      model: 'openai-provider/qwen2.5:7b',
+      allowed_tools: '["send_message"]',
+      prompt_mode: 'none',
+    }));
+
+    startScheduler({
+      sendMessage: vi.fn(async () => undefined),
+      registeredGroups: () => ({ 'chat-team': { name: 'Team', folder: 'team', trigger: '@bot', added_at: '' } }),
+      getSessions: () => ({}),
+    });
+
+    await vi.waitFor(() => expect(getTaskById('task_1700000000000_abc123')!.last_run).toBeTruthy());
+    expect(vi.mocked(runAgent).mock.calls[0][1]).toMatchObject({
+      prompt: '提醒我喝水',
+      groupFolder: 'team',
+      model: 'openai-provider/qwen2.5:7b',
+      tools: ['send_message'],
+      promptMode: 'none',
+    });
+    expect(vi.mocked(runAgent).mock.calls[0][1]).not.toHaveProperty('agentId');
+  });
+
+  it('limits agent and tool overrides to what the caller may use', async () => {
+    const { default: scheduleTask } = await import('../community-plugins/schedule-task/index.js');
+    const agents: Record<string, { id: string; tools: string[] }> = {
+      helper: { id: 'helper', tools: ['web_search', 'memory'] },
+      admin: { id: 'admin', tools: ['*'] },
+    };
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (globalThis as any).__flashclaw_agent_registry = { getAgentById: (id: string) => agents[id] };
+    const context = { chatId: 'chat-team', groupId: 'team', userId: 'u1', agentId: 'helper', sendMessage: vi.fn(), sendImage: vi.fn() };
+    const base = { prompt: '查资料', scheduleType: 'interval', scheduleValue: '3600000' };
+
+    try {
+      const otherAgent = await scheduleTask.execute({ ...base, agent: 'admin' }, context);
+      expect(otherAgent.error).toContain('只能指定当前 Agent');
+      expect((await scheduleTask.execute({ ...base, agent: 'helper' }, context)).success).toBe(true);
+      expect((await scheduleTask.execute({ ...base, agent: 'admin' }, { ...context, groupId: 'main' })).success).toBe(true);
+
+      const wider = await scheduleTask.execute({ ...base, tools: ['web_search', 'bash', 'web_*'] }, context);
+      expect(wider.error).toContain('bash, web_*');
+      expect((await scheduleTask.execute({ ...base, tools: ['web_search', 'send_message'] }, context)).success).toBe(true);
+      expect((await scheduleTask.execute({ ...base, tools: ['bash'] }, { ...context, agentId: 'admin' })).success).toBe(true);
+    } finally {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      delete (globalThis as any).__flashclaw_agent_registry;
+    }
+  });
+});
@@ -14,6 +14,12 @@ vi.mock('../src/db.js', () => ({
   updateTaskRetry: vi.fn(),
   resetTaskRetry: vi.fn(),
   updateTask: vi.fn(),
+  acquireSchedulerLease: vi.fn(() => true),
+  releaseSchedulerLease: vi.fn(),
+  getSchedulerLease: vi.fn(),
+  claimTask: vi.fn(() => ({ claimed: true })),
+  heartbeatTaskClaims: vi.fn(),
+  releaseTaskClaim: vi.fn(),
 }));
 
 vi.mock('../src/agent-runner.js', () => ({
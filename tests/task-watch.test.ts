@@ -0,0 +1,142 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+vi.mock('../src/agent-runner.js', () => ({
+  runAgent: vi.fn(),
+  writeTasksSnapshot: vi.fn(),
+}));
+
+describe('watch tasks', () => {
+  let tempDir = '';
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), 'flashclaw-watch-'));
+    process.env.FLASHCLAW_HOME = tempDir;
+    const { initDatabase } = await import('../src/db.js');
+    initDatabase();
+  });
+
+  afterEach(async () => {
+    const { stopScheduler } = await import('../src/task-scheduler.js');
+    const { pluginManager } = await import('../src/plugins/manager.js');
+    stopScheduler();
+    await pluginManager.unregister('price_probe');
+    global.__flashclaw_db?.close();
+    global.__flashclaw_db = undefined;
+    await fs.rm(tempDir, { recursive: true, force: true });
+    delete process.env.FLASHCLAW_HOME;
+  });
+
+  it('validates watch configs', async () => {
+    const { parseWatchConfig, describeWatch } = await import('../src/task-watch.js');
+
+    const { config } = parseWatchConfig({ source: 'url', target: 'https://example.com/item', selector: '.price' });
+    expect(config).toEqual({ source: 'url', target: 'https://example.com/item', selector: '.price', trigger: 'change' });
+    expect(describeWatch(config!)).toBe('网页 https://example.com/item (.price) 内容变化');
+
+    expect(parseWatchConfig({ source: 'ftp', target: 'x' }).error).toContain('source');
+    expect(parseWatchConfig({ source: 'feed', target: 'example.com/rss' }).error).toContain('http(s)');
+    expect(parseWatchConfig({ source: 'file', target: '../secret.txt' }).error).toContain('相对路径');
+    expect(parseWatchConfig({ source: 'tool', target: 'web_search', trigger: 'match' }).error).toContain('pattern');
+    expect(parseWatchConfig({ source: 'tool', target: 'web_search', trigger: 'match', pattern: '(' }).error).toContain('正则');
+  });
+
+  it('triggers on content changes, new feed items and new matches', async () => {
+    const { evaluateWatch, parseFeedItems } = await import('../src/task-watch.js');
+    const change = { source: 'url' as const, target: 'https://example.com', trigger: 'change' as const };
+
+    const baseline = evaluateWatch(change, { content: '价格: 100\n库存: 有' }, { snapshot: null, hash: null });
+    expect(baseline).toMatchObject({ triggered: false, reason: '首次检查，已记录基线' });
+
+    const same = evaluateWatch(change, { content: '价格:   100\r\n库存: 有\n' }, baseline);
+    expect(same.triggered).toBe(false);
+
+    const changed = evaluateWatch(change, { content: '价格: 90\n库存: 有' }, baseline);
+    expect(changed).toMatchObject({ triggered: true, changes: '+ 价格: 90\n- 价格: 100' });
+
+    const feed = { source: 'feed' as const, target: 'https://example.com/rss', trigger: 'change' as const };
+    const rss = (titles: string[]) => `<rss><channel>${titles.map((t, i) => `<item><title><![CDATA[${t}]]></title><link>https://example.com/${i}</link><guid>id-${t}</guid></item>`).join('')}</channel></rss>`;
+    const first = parseFeedItems(rss(['旧文章']));
+    expect(first).toEqual([{ id: 'id-旧文章', title: '旧文章', link: 'https://example.com/0' }]);
+    const feedBase = evaluateWatch(feed, { content: first.map(i => `${i.id} ${i.title}`).join('\n'), items: first }, { snapshot: null, hash: null });
+    const next = parseFeedItems(rss(['新文章', '旧文章']));
+    const feedChanged = evaluateWatch(feed, { content: next.map(i => `${i.id} ${i.title}`).join('\n'), items: next }, feedBase);
+    expect(feedChanged).toMatchObject({ triggered: true, reason: '1 个新条目', changes: '+ 新文章 https://example.com/0' });
+
+    const match = { source: 'url' as const, target: 'https://example.com', trigger: 'match' as const, pattern: '有货|in stock' };
+    const none = evaluateWatch(match, { content: '暂时缺货' }, { snapshot: null, hash: null });
+    expect(none.triggered).toBe(false);
+    const hit = evaluateWatch(match, { content: '现已有货' }, none);
+    expect(hit).toMatchObject({ triggered: true, changes: '现已有货' });
+    expect(evaluateWatch(match, { content: '现已有货' }, hit)).toMatchObject({ triggered: false, reason: '仍然匹配，不重复通知' });
+  });
+
+  it('runs the agent and notifies the chat only when the observed content changes', async () => {
+    const { runAgent } = await import('../src/agent-runner.js');
+    const { createTask, getTaskById, updateTask, getTaskRunLogs } = await import('../src/db.js');
+    const { startScheduler, wake } = await import('../src/task-scheduler.js');
+    const { pluginManager } = await import('../src/plugins/manager.js');
+
+    let price = '100';
+    const execute = vi.fn(async () => ({ success: true, data: { content: `价格: ${price}` } }));
+    pluginManager.register({
+      name: 'price_probe',
+      version: '1.0.0',
+      description: 'test probe',
+      schema: { name: 'price_probe', description: 'probe', input_schema: { type: 'object', properties: {} } },
+      execute,
+    });
+    vi.mocked(runAgent).mockResolvedValue({ status: 'success', result: '价格从 100 降到了 90' });
+
+    createTask({
+      id: 'watch_1700000000000_abc123',
+      group_folder: 'team',
+      chat_jid: 'chat-team',
+      prompt: '告诉我价格变化',
+      schedule_type: 'interval',
+      schedule_value: '3600000',
+      context_mode: 'isolated',
+      next_run: new Date(Date.now() - 1000).toISOString(),
+      status: 'active',
+      created_at: new Date().toISOString(),
+      retry_count: 0,
+      max_retries: 1,
+      kind: 'watch',
+      watch_config: JSON.stringify({ source: 'tool', target: 'price_probe', params: { sku: 'A1' } }),
+    });
+
+    const sendMessage = vi.fn(async () => undefined);
+    startScheduler({
+      sendMessage,
+      registeredGroups: () => ({ 'chat-team': { name: 'Team', folder: 'team', trigger: '@bot', added_at: '' } }),
+      getSessions: () => ({}),
+    });
+
+    // 首次检查只记录基线
+    await vi.waitFor(() => expect(getTaskById('watch_1700000000000_abc123')!.watch_hash).toBeTruthy());
+    expect(execute).toHaveBeenCalledWith({ sku: 'A1' }, expect.objectContaining({ chatId: 'chat-team', groupId: 'team' }));
+    expect(runAgent).not.toHaveBeenCalled();
+    expect(sendMessage).not.toHaveBeenCalled();
+
+    price = '90';
+    updateTask('watch_1700000000000_abc123', { next_run: new Date(Date.now() - 1000).toISOString() });
+    wake();
+
+    await vi.waitFor(() => expect(getTaskRunLogs('watch_1700000000000_abc123')).toHaveLength(2));
+    // 回复只由调度器发送一次，Agent 不会被要求再用 send_message 发送
+    expect(sendMessage).toHaveBeenCalledTimes(1);
+    expect(sendMessage).toHaveBeenCalledWith('chat-team', '价格从 100 降到了 90');
+    expect(vi.mocked(runAgent).mock.calls[0][1]).toMatchObject({ isScheduledTask: true, deliversReply: true });
+    const prompt = vi.mocked(runAgent).mock.calls[0][1].prompt;
+    expect(prompt).toContain('告诉我价格变化');
+    expect(prompt).toContain('+ 价格: 90');
+    expect(prompt).toContain('- 价格: 100');
+
+    const task = getTaskById('watch_1700000000000_abc123')!;
+    expect(task.watch_snapshot).toBe('价格: 90');
+    expect(task.watch_triggered_at).toBeTruthy();
+    expect(getTaskRunLogs(task.id).map(l => l.result?.split(':')[0])).toEqual(['已触发', '未触发']);
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+vi.mock('../src/plugins/manager.js', () => ({
+  pluginManager: {
+    getToolPolicy: vi.fn(),
+  },
+}));
+
+const baseRequest = {
+  toolName: 'browser_action',
+  params: { action: 'click' },
+  chatJid: 'chat-1',
+  groupFolder: 'group-1',
+  userId: 'user-1',
+  platform: 'telegram',
+};
+
+describe('tool-approval', () => {
+  let tempDir = '';
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), 'flashclaw-approval-'));
+    process.env.FLASHCLAW_HOME = tempDir;
+  });
+
+  afterEach(async () => {
+    const { clearPendingApprovals, setApprovalNotifier } = await import('../src/tool-approval.js');
+    clearPendingApprovals();
+    setApprovalNotifier(null);
+    await fs.rm(tempDir, { recursive: true, force: true });
+    delete process.env.FLASHCLAW_HOME;
+    vi.clearAllMocks();
+    vi.useRealTimers();
+  });
+
+  describe('getToolPolicy', () => {
+    it('defaults to allow', async () => {
+      const { getToolPolicy } = await import('../src/tool-approval.js');
+      expect(getToolPolicy('send_message')).toBe('allow');
+    });
+
+    it('uses policy declared in plugin.json', async () => {
+      const { pluginManager } = await import('../src/plugins/manager.js');
+      const { getToolPolicy } = await import('../src/tool-approval.js');
+      (pluginManager.getToolPolicy as ReturnType<typeof vi.fn>).mockReturnValue('ask');
+      expect(getToolPolicy('browser_action')).toBe('ask');
+    });
+
+    it('config/plugins.json overrides plugin.json', async () => {
+      const { pluginManager } = await import('../src/plugins/manager.js');
+      const { getToolPolicy } = await import('../src/tool-approval.js');
+      (pluginManager.getToolPolicy as ReturnType<typeof vi.fn>).mockReturnValue('ask');
+
+      await fs.mkdir(join(tempDir, 'config'), { recursive: true });
+      await fs.writeFile(
+        join(tempDir, 'config', 'plugins.json'),
+        JSON.stringify({ plugins: {}, toolPolicies: { browser_action: 'deny', local_file_read: 'bogus' } })
+      );
+
+      expect(getToolPolicy('browser_action')).toBe('deny');
+      // 无效配置被忽略，回退到 plugin.json
+      expect(getToolPolicy('local_file_read')).toBe('ask');
+    });
+  });
+
+  describe('requestToolApproval', () => {
+    it('resolves approved when user approves', async () => {
+      const { requestToolApproval, resolveToolApproval, getPendingApprovals } = await import('../src/tool-approval.js');
+      const notify = vi.fn().mockResolvedValue(undefined);
+
+      const pending = requestToolApproval(baseRequest, { notify });
+      await Promise.resolve();
+
+      const [request] = getPendingApprovals('chat-1');
+      expect(request.toolName).toBe('browser_action');
+      expect(notify.mock.calls[0][1].text).toContain(`/approve ${request.id}`);
+
+      expect(resolveToolApproval(request.id, true)).not.toBeNull();
+      await expect(pending).resolves.toBe('approved');
+      expect(getPendingApprovals()).toHaveLength(0);
+    });
+
+    it('ignores answers from another chat', async () => {
+      const { requestToolApproval, resolveToolApproval, getPendingApprovals } = await import('../src/tool-approval.js');
+
+      const pending = requestToolApproval(baseRequest, { notify: vi.fn().mockResolvedValue(undefined) });
+      await Promise.resolve();
+      const [request] = getPendingApprovals();
+
+      expect(resolveToolApproval(request.id, true, 'other-chat')).toBeNull();
+      expect(resolveToolApproval(request.id, false, 'chat-1')).not.toBeNull();
+      await expect(pending).resolves.toBe('denied');
+    });
+
+    it('ignores answers from other users unless the request came from the main chat', async () => {
+      const { requestToolApproval, resolveToolApproval, getPendingApprovals } = await import('../src/tool-approval.js');
+
+      const pending = requestToolApproval(baseRequest, { notify: vi.fn().mockResolvedValue(undefined) });
+      await Promise.resolve();
+      const [request] = getPendingApprovals();
+
+      expect(resolveToolApproval(request.id, true, 'chat-1', 'user-2')).toBeNull();
+      expect(getPendingApprovals()).toHaveLength(1);
+      expect(resolveToolApproval(request.id, true, 'chat-1', 'user-1')).not.toBeNull();
+      await expect(pending).resolves.toBe('approved');
+
+      const mainPending = requestToolApproval({ ...baseRequest, groupFolder: 'main' }, { notify: vi.fn().mockResolvedValue(undefined) });
+      await Promise.resolve();
+      const [mainRequest] = getPendingApprovals();
+      expect(resolveToolApproval(mainRequest.id, false, 'chat-1', 'user-2')).not.toBeNull();
+      await expect(mainPending).resolves.toBe('denied');
+    });
+
+    it('times out when nobody answers', async () => {
+      vi.useFakeTimers();
+      const { requestToolApproval, getPendingApprovals } = await import('../src/tool-approval.js');
+
+      const pending = requestToolApproval(baseRequest, { timeoutMs: 1000, notify: vi.fn().mockResolvedValue(undefined) });
+      await vi.advanceTimersByTimeAsync(1000);
+
+      await expect(pending).resolves.toBe('timeout');
+      expect(getPendingApprovals()).toHaveLength(0);
+    });
+
+    it('denies when notification fails', async () => {
+      const { requestToolApproval } = await import('../src/tool-approval.js');
+      const notify = vi.fn().mockRejectedValue(new Error('channel down'));
+
+      await expect(requestToolApproval(baseRequest, { notify })).resolves.toBe('denied');
+    });
+
+    it('denies when no notifier is configured', async () => {
+      const { requestToolApproval } = await import('../src/tool-approval.js');
+      await expect(requestToolApproval(baseRequest)).resolves.toBe('denied');
+    });
+
+    it('uses default notifier', async () => {
+      const { requestToolApproval, setApprovalNotifier, resolveToolApproval } = await import('../src/tool-approval.js');
+      const notifier = vi.fn(async (request: { id: string }) => {
+        resolveToolApproval(request.id, true);
+      });
+      setApprovalNotifier(notifier);
+
+      await expect(requestToolApproval(baseRequest)).resolves.toBe('approved');
+      expect(notifier).toHaveBeenCalledTimes(1);
+    });
+  });
+});
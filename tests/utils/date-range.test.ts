@@ -0,0 +1,39 @@
+/**
+ * 日期范围参数解析单元测试
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseDateBound } from '../../src/utils/date-range.js';
+
+describe('parseDateBound', () => {
+  it('YYYY-MM-DD 按指定时区的零点解析', () => {
+    expect(parseDateBound('2026-01-08', false, 'Asia/Shanghai')).toBe('2026-01-07T16:00:00.000Z');
+    expect(parseDateBound('2026-01-08', false, 'UTC')).toBe('2026-01-08T00:00:00.000Z');
+  });
+
+  it('endOfDay 取指定时区的次日零点', () => {
+    expect(parseDateBound('2026-01-08', true, 'Asia/Shanghai')).toBe('2026-01-08T16:00:00.000Z');
+    expect(parseDateBound('2026-01-31', true, 'UTC')).toBe('2026-02-01T00:00:00.000Z');
+  });
+
+  it('处理夏令时切换当天', () => {
+    expect(parseDateBound('2026-03-08', false, 'America/New_York')).toBe('2026-03-08T05:00:00.000Z');
+    expect(parseDateBound('2026-03-08', true, 'America/New_York')).toBe('2026-03-09T04:00:00.000Z');
+  });
+
+  it('不带时区的日期时间按指定时区解析', () => {
+    expect(parseDateBound('2026-01-08 09:30', false, 'Asia/Shanghai')).toBe('2026-01-08T01:30:00.000Z');
+    expect(parseDateBound('2026-01-08T09:30:15', true, 'Asia/Shanghai')).toBe('2026-01-08T01:30:15.000Z');
+  });
+
+  it('带时区的 ISO 时间按原样解析', () => {
+    expect(parseDateBound('2026-01-08T09:30:00Z', false, 'Asia/Shanghai')).toBe('2026-01-08T09:30:00.000Z');
+    expect(parseDateBound('2026-01-08T09:30:00+08:00', true, 'UTC')).toBe('2026-01-08T01:30:00.000Z');
+  });
+
+  it('无效日期返回 null', () => {
+    expect(parseDateBound('昨天')).toBeNull();
+    expect(parseDateBound('2026-02-30')).toBeNull();
+    expect(parseDateBound('2026-01-08 25:00')).toBeNull();
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+describe('workflow', () => {
+  let tempDir = '';
+
+  const report = {
+    id: 'daily-report',
+    name: '每日报告',
+    schedule: { type: 'cron', value: '0 9 * * *' },
+    steps: [
+      { id: 'fetch', prompt: '抓取今日新闻', onSuccess: ['summarize'], onFailure: ['alert'] },
+      { id: 'summarize', prompt: '总结以下内容：{{steps.fetch.result}}', onSuccess: ['publish'] },
+      { id: 'publish', prompt: '发布《{{workflow.name}}》：{{steps.summarize.result}}' },
+      { id: 'alert', prompt: '抓取失败：{{steps.fetch.error}}' },
+    ],
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), 'flashclaw-workflow-'));
+    process.env.FLASHCLAW_HOME = tempDir;
+    const { initDatabase } = await import('../src/db.js');
+    initDatabase();
+  });
+
+  afterEach(async () => {
+    global.__flashclaw_db?.close();
+    global.__flashclaw_db = undefined;
+    await fs.rm(tempDir, { recursive: true, force: true });
+    delete process.env.FLASHCLAW_HOME;
+  });
+
+  it('validates edges, cycles and template references', async () => {
+    const { parseWorkflowDefinition, layerWorkflowSteps } = await import('../src/workflow.js');
+
+    const { definition, errors } = parseWorkflowDefinition(report);
+    expect(errors).toEqual([]);
+    expect(layerWorkflowSteps(definition!.steps.map(s => ({ id: s.id, onSuccess: s.onSuccess!, onFailure: s.onFailure! }))))
+      .toEqual([['fetch'], ['summarize', 'alert'], ['publish']]);
+
+    const invalid = parseWorkflowDefinition({
+      name: 'broken',
+      schedule: { type: 'cron', value: 'not a cron' },
+      steps: [
+        { id: 'a', prompt: 'A', onSuccess: ['b', 'missing'] },
+        { id: 'b', prompt: '{{steps.c.result}}', onSuccess: ['a'] },
+        { id: 'c', prompt: 'C' },
+      ],
+    });
+    expect(invalid.definition).toBeUndefined();
+    expect(invalid.errors).toEqual(expect.arrayContaining([
+      expect.stringContaining('无效的 schedule'),
+      expect.stringContaining('下游步骤 missing 不存在'),
+    ]));
+
+    const cyclic = parseWorkflowDefinition({
+      name: 'cyclic',
+      steps: [{ id: 'a', prompt: 'A', onSuccess: ['b'] }, { id: 'b', prompt: 'B', onSuccess: ['a'] }],
+    });
+    expect(cyclic.errors).toEqual(['步骤之间存在循环依赖']);
+
+    // 环不经过入口步骤时也要识别（a→b, a→c, b→c, c→b）
+    expect(layerWorkflowSteps([
+      { id: 'a', onSuccess: ['b', 'c'], onFailure: [] },
+      { id: 'b', onSuccess: ['c'], onFailure: [] },
+      { id: 'c', onSuccess: ['b'], onFailure: [] },
+    ])).toBeNull();
+    expect(layerWorkflowSteps([
+      { id: 'a', onSuccess: ['b', 'c'], onFailure: ['c'] },
+      { id: 'b', onSuccess: ['c'], onFailure: [] },
+      { id: 'c', onSuccess: [], onFailure: [] },
+    ])).toEqual([['a'], ['b'], ['c']]);
+
+    const badRef = parseWorkflowDefinition({
+      name: 'bad-ref',
+      steps: [{ id: 'a', prompt: '{{steps.b.result}}' }, { id: 'b', prompt: 'B' }],
+    });
+    expect(badRef.errors).toEqual(['步骤 a: 模板引用的 b 不是它的上游步骤']);
+  });
+
+  it('runs steps along success edges and templates upstream results', async () => {
+    const { parseWorkflowDefinition, saveWorkflowDefinition, executeWorkflow } = await import('../src/workflow.js');
+    const { getWorkflowTask, getWorkflowRuns, getWorkflowStepRuns } = await import('../src/db.js');
+
+    saveWorkflowDefinition(parseWorkflowDefinition(report).definition!);
+    const task = getWorkflowTask('daily-report');
+    expect(task).toMatchObject({ kind: 'workflow', schedule_type: 'cron', schedule_value: '0 9 * * *', max_retries: 1 });
+
+    const runStep = vi.fn(async (step: { id: string }, prompt: string) => `${step.id}: ${prompt}`);
+    const summary = await executeWorkflow('daily-report', runStep, { trigger: 'schedule' });
+
+    expect(summary.status).toBe('success');
+    expect(summary.steps.map(s => [s.id, s.status])).toEqual([
+      ['fetch', 'success'], ['summarize', 'success'], ['publish', 'success'], ['alert', 'skipped'],
+    ]);
+    expect(runStep.mock.calls[1][1]).toBe('总结以下内容：fetch: 抓取今日新闻');
+    expect(runStep.mock.calls[2][1]).toBe('发布《每日报告》：summarize: 总结以下内容：fetch: 抓取今日新闻');
+
+    const [run] = getWorkflowRuns('daily-report');
+    expect(run).toMatchObject({ status: 'success', trigger: 'schedule' });
+    expect(getWorkflowStepRuns(run.id).find(r => r.step_id === 'alert')?.status).toBe('skipped');
+  });
+
+  it('routes failures to onFailure steps and fails on unhandled errors', async () => {
+    const { parseWorkflowDefinition, saveWorkflowDefinition, executeWorkflow } = await import('../src/workflow.js');
+
+    saveWorkflowDefinition(parseWorkflowDefinition(report).definition!);
+    const handled = await executeWorkflow('daily-report', async (step, prompt) => {
+      if (step.id === 'fetch') throw new Error('网络超时');
+      return prompt;
+    });
+    expect(handled.status).toBe('success');
+    expect(handled.steps.find(s => s.id === 'alert')).toMatchObject({ status: 'success', result: '抓取失败：网络超时' });
+    expect(handled.steps.find(s => s.id === 'publish')?.status).toBe('skipped');
+
+    const failed = await executeWorkflow('daily-report', async (step) => {
+      if (step.id === 'summarize') throw new Error('模型不可用');
+      return 'ok';
+    });
+    expect(failed.status).toBe('error');
+    expect(failed.error).toBe('步骤 summarize 失败: 模型不可用');
+  });
+
+  it('joins branches with all / any trigger rules', async () => {
+    const { parseWorkflowDefinition, saveWorkflowDefinition, executeWorkflow } = await import('../src/workflow.js');
+
+    saveWorkflowDefinition(parseWorkflowDefinition({
+      id: 'join',
+      name: 'join',
+      steps: [
+        { id: 'a', prompt: 'A', onSuccess: ['both', 'either'] },
+        { id: 'b', prompt: 'B', onSuccess: ['both', 'either'] },
+        { id: 'both', prompt: 'both' },
+        { id: 'either', prompt: 'either', trigger: 'any' },
+      ],
+    }).definition!);
+
+    const summary = await executeWorkflow('join', async (step) => {
+      if (step.id === 'b') throw new Error('b failed');
+      return step.id;
+    });
+    const status = Object.fromEntries(summary.steps.map(s => [s.id, s.status]));
+    expect(status).toEqual({ a: 'success', b: 'error', both: 'skipped', either: 'success' });
+  });
+
+  it('removes the trigger task when the schedule is dropped and cleans up on delete', async () => {
+    const { parseWorkflowDefinition, saveWorkflowDefinition, executeWorkflow } = await import('../src/workflow.js');
+    const { getWorkflowTask, deleteWorkflow, getWorkflow, getWorkflowRuns } = await import('../src/db.js');
+
+    saveWorkflowDefinition(parseWorkflowDefinition(report).definition!);
+    saveWorkflowDefinition(parseWorkflowDefinition({ ...report, schedule: undefined }).definition!);
+    expect(getWorkflowTask('daily-report')).toBeUndefined();
+
+    await executeWorkflow('daily-report', async () => 'ok');
+    deleteWorkflow('daily-report');
+    expect(getWorkflow('daily-report')).toBeUndefined();
+    expect(getWorkflowRuns('daily-report')).toEqual([]);
+  });
+});